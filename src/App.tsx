@@ -16,9 +16,24 @@ import { AboutModal } from "./components/AppModals/AboutModal";
 import { PrivacyPolicyModal } from "./components/AppModals/PrivacyPolicyModal";
 import { ResetPasswordModal } from "./components/AppModals/ResetPasswordModal";
 import { AuthErrorModal } from "./components/AppModals/AuthErrorModal";
+import { ImportNotesModal } from "./components/AppModals/ImportNotesModal";
+import { YearBookModal } from "./components/AppModals/YearBookModal";
+import { TrashModal } from "./components/AppModals/TrashModal";
+import { RecoveryPhraseModal } from "./components/AppModals/RecoveryPhraseModal";
+import { EncryptionKeysModal } from "./components/AppModals/EncryptionKeysModal";
+import { JournalsModal } from "./components/AppModals/JournalsModal";
+import { ProfilesModal } from "./components/AppModals/ProfilesModal";
+import {
+  BackupModal,
+  type BackupRequest,
+} from "./components/AppModals/BackupModal";
 import { AuthState } from "./hooks/useAuth";
 import { supabase } from "./services/supabase";
-import { rewrapCloudKeyring } from "./services/vaultService";
+import {
+  createRecoveryPhrase,
+  rewrapCloudKeyring,
+} from "./services/vaultService";
+import { supportsTrash } from "./services/trash";
 import { storeDeviceEncryptedPassword } from "./storage/vault";
 import { AppMode } from "./hooks/useAppMode";
 import { usePWA } from "./hooks/usePWA";
@@ -31,6 +46,12 @@ import { WeatherProvider } from "./contexts/WeatherProvider";
 import { getTodayString, parseDate } from "./utils/date";
 import { useDebugMode } from "./hooks/useDebugMode";
 import { useDebugKeyring } from "./hooks/useDebugKeyring";
+import { useKeyRotation } from "./hooks/useKeyRotation";
+import { useEncryptionKeys } from "./hooks/useEncryptionKeys";
+import { usePasskeys } from "./hooks/usePasskeys";
+import { useVaultLock } from "./hooks/useVaultLock";
+import { usePrivateDates } from "./hooks/usePrivateDates";
+import { useProfiles } from "./hooks/useProfiles";
 import calendarStyles from "./components/Calendar/Calendar.module.css";
 
 function getLatestNoteInMonth(
@@ -57,15 +78,101 @@ function getLatestNoteInMonth(
   return notesInMonth.at(-1) ?? null;
 }
 
+// The full merged keyring minus the synthetic "legacy" alias
+function cloudKeys(keyring: Map<string, CryptoKey>): Map<string, CryptoKey> {
+  const keys = new Map<string, CryptoKey>();
+  for (const [keyId, key] of keyring.entries()) {
+    if (keyId !== "legacy") {
+      keys.set(keyId, key);
+    }
+  }
+  return keys;
+}
+
 function App() {
-  const { routing, auth, appMode, activeVault, notes } = useAppController();
+  const { routing, auth, appMode, activeVault, journals, notes } =
+    useAppController();
   const { needRefresh, updateServiceWorker, dismissUpdate } = usePWA();
   const [isDebug, setDebug] = useDebugMode();
   const debugKeyring = useDebugKeyring(activeVault.keyring, activeVault.activeKeyId, auth.user?.id ?? null, isDebug && auth.authState === AuthState.SignedIn);
+  const keyRotation = useKeyRotation({
+    userId: auth.user?.id ?? null,
+    isEnabled:
+      appMode.mode === AppMode.Cloud &&
+      auth.authState === AuthState.SignedIn &&
+      activeVault.isVaultUnlocked,
+    keyring: activeVault.keyring,
+    activeKeyId: activeVault.activeKeyId,
+    authPassword: activeVault.authPassword,
+    onNewPrimaryKey: activeVault.adoptCloudPrimaryKey,
+  });
+  const privateDates = usePrivateDates({
+    userId: auth.user?.id ?? null,
+    isEnabled:
+      appMode.mode === AppMode.Cloud &&
+      auth.authState === AuthState.SignedIn &&
+      activeVault.isVaultUnlocked,
+    keyring: activeVault.keyring,
+    activeKeyId: activeVault.activeKeyId,
+  });
+  const passkeys = usePasskeys({
+    mode: appMode.mode,
+    userId: auth.user?.id ?? null,
+    userEmail: auth.user?.email ?? null,
+    isEnabled: activeVault.isVaultUnlocked,
+    localVaultKey: activeVault.localVault.vaultKey,
+    keyring: activeVault.keyring,
+  });
+  // Save a pending edit first; locking drops the key it needs
+  const { flushPendingSave } = notes;
+  const { lock } = activeVault;
+  const lockVault = useCallback(
+    (options: { skipDeviceUnlock: boolean }) => {
+      void flushPendingSave().finally(() => lock(options));
+    },
+    [flushPendingSave, lock],
+  );
+  const lockForSwitch = useCallback(async () => {
+    await flushPendingSave();
+    lock({ skipDeviceUnlock: false });
+  }, [flushPendingSave, lock]);
+  const profiles = useProfiles({
+    userEmail: auth.user?.email ?? null,
+    onBeforeSwitch: lockForSwitch,
+  });
+  const canRequireUnlock =
+    appMode.mode === AppMode.Cloud ||
+    activeVault.localVault.hasPasskey ||
+    passkeys.count > 0;
+  const vaultLock = useVaultLock({
+    isEnabled: activeVault.isVaultUnlocked,
+    canSkipDeviceUnlock: canRequireUnlock,
+    onLock: lockVault,
+  });
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [searchOpen, setSearchOpen] = useState(false);
   const [aboutOpen, setAboutOpen] = useState(false);
   const [privacyOpen, setPrivacyOpen] = useState(false);
+  const [yearBookOpen, setYearBookOpen] = useState(false);
+  const [trashOpen, setTrashOpen] = useState(false);
+  const [recoveryPhraseOpen, setRecoveryPhraseOpen] = useState(false);
+  const [encryptionKeysOpen, setEncryptionKeysOpen] = useState(false);
+  const [journalsOpen, setJournalsOpen] = useState(false);
+  const [profilesOpen, setProfilesOpen] = useState(false);
+  const encryptionKeys = useEncryptionKeys({
+    userId: auth.user?.id ?? null,
+    isEnabled:
+      encryptionKeysOpen &&
+      appMode.mode === AppMode.Cloud &&
+      activeVault.isVaultUnlocked,
+    keyring: activeVault.keyring,
+    keyRotation,
+    onNewPrimaryKey: activeVault.adoptCloudPrimaryKey,
+  });
+  const [importFiles, setImportFiles] = useState<File[] | null>(null);
+  const [backupRequest, setBackupRequest] = useState<BackupRequest | null>(
+    null,
+  );
   const [weekStartVersion, setWeekStartVersion] = useState(0);
 
   const { date, year, navigateToDate, navigateToYear, navigateToCalendar } =
@@ -163,11 +270,51 @@ function App() {
       }
     }
 
-    const blob = await exportNotesAsZip(notes.repository, undefined, legacyExtras);
+    const blob = await exportNotesAsZip(
+      notes.repository,
+      undefined,
+      legacyExtras,
+      notes.imageRepository,
+    );
     if (!blob) return;
     const today = new Date().toISOString().slice(0, 10);
     downloadBlob(blob, `ichinichi-export-${today}.zip`);
-  }, [notes.repository, activeVault.activeKeyId, activeVault.keyring, e2eeFactory]);
+  }, [
+    notes.repository,
+    notes.imageRepository,
+    activeVault.activeKeyId,
+    activeVault.keyring,
+    e2eeFactory,
+  ]);
+
+  const handleExportYearBook = useCallback(() => {
+    setSettingsOpen(false);
+    setYearBookOpen(true);
+  }, []);
+
+  const handleOpenTrash = useCallback(() => {
+    setSettingsOpen(false);
+    setTrashOpen(true);
+  }, []);
+
+  const handleImport = useCallback((files: File[]) => {
+    setSettingsOpen(false);
+    setImportFiles(files);
+  }, []);
+
+  const handleImported = useCallback(() => {
+    notes.refreshNoteDates({ immediate: true });
+  }, [notes]);
+
+  const handleBackup = useCallback(() => {
+    setSettingsOpen(false);
+    setBackupRequest({ kind: "create" });
+  }, []);
+
+  const handleRestoreBackup = useCallback((file: File) => {
+    setSettingsOpen(false);
+    setBackupRequest({ kind: "restore", file });
+  }, []);
 
   const signInHandler =
     appMode.mode !== AppMode.Cloud && auth.authState !== AuthState.SignedIn
@@ -187,13 +334,7 @@ function App() {
     async (password: string) => {
       const result = await auth.updatePassword(password);
       if (result.success && auth.user && activeVault.keyring.size) {
-        // Use the full merged keyring (minus synthetic "legacy" alias)
-        const keysToSync = new Map<string, CryptoKey>();
-        for (const [keyId, key] of activeVault.keyring.entries()) {
-          if (keyId !== "legacy") {
-            keysToSync.set(keyId, key);
-          }
-        }
+        const keysToSync = cloudKeys(activeVault.keyring);
         if (keysToSync.size) {
           await rewrapCloudKeyring({
             supabase,
@@ -211,6 +352,50 @@ function App() {
     [auth, activeVault.keyring, activeVault.activeKeyId],
   );
 
+  const handleGenerateRecoveryPhrase = useCallback(async () => {
+    if (!auth.user) throw new Error("Not signed in");
+    return createRecoveryPhrase({
+      supabase,
+      userId: auth.user.id,
+      keyring: cloudKeys(activeVault.keyring),
+      primaryKeyId: activeVault.activeKeyId,
+    });
+  }, [auth.user, activeVault.keyring, activeVault.activeKeyId]);
+
+  const handleOpenRecoveryPhrase = useCallback(() => {
+    setSettingsOpen(false);
+    setRecoveryPhraseOpen(true);
+  }, []);
+
+  const handleOpenEncryptionKeys = useCallback(() => {
+    setSettingsOpen(false);
+    setEncryptionKeysOpen(true);
+  }, []);
+
+  const handleOpenJournals = useCallback(() => {
+    setSettingsOpen(false);
+    setJournalsOpen(true);
+  }, []);
+
+  const handleOpenProfiles = useCallback(() => {
+    setSettingsOpen(false);
+    setProfilesOpen(true);
+  }, []);
+
+  const { navigateToJournal } = routing;
+  const handleSwitchJournal = useCallback(
+    (journalId: string) => {
+      setJournalsOpen(false);
+      navigateToJournal(journalId);
+    },
+    [navigateToJournal],
+  );
+
+  const handleCloseRecoveryPhrase = useCallback(() => {
+    setRecoveryPhraseOpen(false);
+    activeVault.cloudVault.dismissRecoveryPhrase();
+  }, [activeVault.cloudVault]);
+
   const resetPasswordHandler =
     auth.authState === AuthState.SignedIn && auth.user?.email
       ? () => auth.resetPassword(auth.user!.email!)
@@ -289,6 +474,9 @@ function App() {
                       syncError={canSync ? notes.syncError : undefined}
                       pendingOps={canSync ? notes.pendingOps : undefined}
                       isSaving={notes.isSaving}
+                      journals={journals.journals}
+                      journalId={journals.current.id}
+                      onJournalChange={navigateToJournal}
                       onMenuClick={handleMenuClick}
                       onSearchClick={handleSearchClick}
                       onSignIn={signInHandler}
@@ -345,11 +533,60 @@ function App() {
                   onSignIn={signInHandler}
                   onSignOut={signOutHandler}
                   onResetPassword={resetPasswordHandler}
+                  onRecoveryPhrase={
+                    appMode.mode === AppMode.Cloud && activeVault.isVaultUnlocked
+                      ? handleOpenRecoveryPhrase
+                      : undefined
+                  }
+                  onEncryptionKeys={
+                    appMode.mode === AppMode.Cloud && activeVault.isVaultUnlocked
+                      ? handleOpenEncryptionKeys
+                      : undefined
+                  }
+                  onJournals={
+                    activeVault.isVaultUnlocked ? handleOpenJournals : undefined
+                  }
+                  profileName={profiles.current.name}
+                  onProfiles={handleOpenProfiles}
+                  keyRotation={
+                    appMode.mode === AppMode.Cloud && activeVault.isVaultUnlocked
+                      ? keyRotation
+                      : undefined
+                  }
+                  privateDates={
+                    appMode.mode === AppMode.Cloud && activeVault.isVaultUnlocked
+                      ? privateDates
+                      : undefined
+                  }
+                  passkeys={
+                    activeVault.canUsePasskeys && activeVault.isVaultUnlocked
+                      ? passkeys
+                      : undefined
+                  }
+                  onLockNow={
+                    activeVault.isVaultUnlocked ? vaultLock.lockNow : undefined
+                  }
+                  vaultLock={vaultLock}
+                  canRequireUnlock={canRequireUnlock}
                   commitHash={commitHash}
                   onOpenAbout={handleOpenAbout}
                   onOpenPrivacy={handleOpenPrivacy}
                   onWeekStartChange={handleWeekStartChange}
                   onExport={notes.repository ? handleExport : undefined}
+                  onExportYearBook={
+                    notes.repository ? handleExportYearBook : undefined
+                  }
+                  onImport={notes.repository ? handleImport : undefined}
+                  onBackup={notes.database ? handleBackup : undefined}
+                  onRestoreBackup={
+                    notes.database ? handleRestoreBackup : undefined
+                  }
+                  onOpenTrash={
+                    notes.repository &&
+                    supportsTrash(notes.repository, notes.imageRepository)
+                      ? handleOpenTrash
+                      : undefined
+                  }
                   isDebug={isDebug}
                   onDebugChange={setDebug}
                   debugKeyring={isDebug ? debugKeyring : undefined}
@@ -367,6 +604,60 @@ function App() {
                   onSubmit={handleUpdatePassword}
                   onDismiss={auth.clearPasswordRecovery}
                 />
+                <YearBookModal
+                  isOpen={yearBookOpen}
+                  repository={notes.repository}
+                  imageRepository={notes.imageRepository}
+                  noteDates={notes.noteDates}
+                  onClose={() => setYearBookOpen(false)}
+                />
+                <RecoveryPhraseModal
+                  isOpen={
+                    recoveryPhraseOpen || !!activeVault.cloudVault.recoveryPhrase
+                  }
+                  phrase={activeVault.cloudVault.recoveryPhrase}
+                  onGenerate={handleGenerateRecoveryPhrase}
+                  onClose={handleCloseRecoveryPhrase}
+                />
+                <EncryptionKeysModal
+                  isOpen={encryptionKeysOpen}
+                  encryptionKeys={encryptionKeys}
+                  onClose={() => setEncryptionKeysOpen(false)}
+                />
+                <JournalsModal
+                  isOpen={journalsOpen}
+                  journals={journals}
+                  onSwitch={handleSwitchJournal}
+                  onClose={() => setJournalsOpen(false)}
+                />
+                <ProfilesModal
+                  isOpen={profilesOpen}
+                  profiles={profiles}
+                  onClose={() => setProfilesOpen(false)}
+                />
+                <TrashModal
+                  isOpen={trashOpen}
+                  repository={notes.repository}
+                  imageRepository={notes.imageRepository}
+                  onClose={() => setTrashOpen(false)}
+                  onChanged={handleImported}
+                />
+                <ImportNotesModal
+                  files={importFiles}
+                  repository={notes.repository}
+                  imageRepository={notes.imageRepository}
+                  onClose={() => setImportFiles(null)}
+                  onImported={handleImported}
+                />
+                <BackupModal
+                  request={backupRequest}
+                  database={notes.database}
+                  imageRepository={notes.imageRepository}
+                  keyring={activeVault.keyring}
+                  vaultKey={activeVault.vaultKey}
+                  onClose={() => setBackupRequest(null)}
+                  onRestored={handleImported}
+                />
                 <AuthErrorModal
                   isOpen={!!auth.hashError}
                   error={auth.hashError}
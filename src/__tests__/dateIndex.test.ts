@@ -0,0 +1,52 @@
+import {
+  computeDateTag,
+  createDateIndex,
+  deriveDateIndexKey,
+  isDateTag,
+  PLAIN_DATE_INDEX,
+} from "../storage/dateIndex";
+import { generateDEK } from "../storage/vault";
+
+describe("date index", () => {
+  it("derives the same tag for a date on every call", async () => {
+    const dek = await generateDEK();
+    const first = await computeDateTag(await deriveDateIndexKey(dek), "01-02-2026");
+    const second = await computeDateTag(await deriveDateIndexKey(dek), "01-02-2026");
+
+    expect(first).toBe(second);
+    expect(isDateTag(first)).toBe(true);
+    expect(first).toMatch(/^d1\.[A-Za-z0-9_-]+$/);
+    expect(first).not.toContain("01-02-2026");
+  });
+
+  it("gives different tags for different dates and keys", async () => {
+    const indexKey = await deriveDateIndexKey(await generateDEK());
+    const otherKey = await deriveDateIndexKey(await generateDEK());
+
+    const tag = await computeDateTag(indexKey, "01-02-2026");
+    expect(await computeDateTag(indexKey, "02-02-2026")).not.toBe(tag);
+    expect(await computeDateTag(otherKey, "01-02-2026")).not.toBe(tag);
+  });
+
+  it("follows the setting on every call", async () => {
+    const dek = await generateDEK();
+    let indexKeyId: string | null = null;
+    const dateIndex = createDateIndex({
+      getIndexKeyId: async () => indexKeyId,
+      getKey: (keyId) => (keyId === "k1" ? dek : null),
+    });
+
+    expect(await dateIndex.toRowDate("01-02-2026")).toBe("01-02-2026");
+    indexKeyId = "k1";
+    expect(isDateTag(await dateIndex.toRowDate("01-02-2026"))).toBe(true);
+    indexKeyId = "missing";
+    await expect(dateIndex.toRowDate("01-02-2026")).rejects.toThrow(
+      /not unlocked/,
+    );
+  });
+
+  it("leaves dates alone in plain mode", async () => {
+    expect(await PLAIN_DATE_INDEX.toRowDate("01-02-2026")).toBe("01-02-2026");
+    expect(isDateTag("01-02-2026")).toBe(false);
+  });
+});
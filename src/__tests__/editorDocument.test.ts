@@ -0,0 +1,218 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  collapsedSelection,
+  createTransaction,
+  parseHtml,
+  readEditorState,
+  readSelection,
+  renderEditorState,
+  serializeDocument,
+  writeSelection,
+  type EditorState,
+} from "../services/editorDocument";
+
+function makeEditor(html: string): HTMLElement {
+  const editor = document.createElement("div");
+  editor.setAttribute("contenteditable", "true");
+  editor.innerHTML = html;
+  document.body.appendChild(editor);
+  return editor;
+}
+
+function setCursor(node: Node, offset: number): void {
+  const range = document.createRange();
+  range.setStart(node, offset);
+  range.collapse(true);
+  const selection = window.getSelection()!;
+  selection.removeAllRanges();
+  selection.addRange(range);
+}
+
+function stateOf(html: string, block: number, offset: number): EditorState {
+  return {
+    doc: parseHtml(html),
+    selection: collapsedSelection({ block, offset }),
+  };
+}
+
+afterEach(() => {
+  document.body.textContent = "";
+});
+
+describe("parse and serialize", () => {
+  it("round-trips stored note HTML exactly", () => {
+    const notes = [
+      "",
+      "plain line<br>second &amp; <b>bold <i>both</i></b>&nbsp;",
+      '<div data-section-type="work">+work</div><div>body<br></div>',
+      '<hr data-timestamp="2026-10-19T09:30:00.000Z" data-label="9:30 AM" contenteditable="false"><div><br></div>',
+      '<p>see <a href="https://example.com" target="_blank" rel="noopener noreferrer">example</a></p>',
+      '<img data-image-id="img-1" alt="cat" width="10" height="20">caption',
+      '<ul><li data-task="open">milk</li><li data-task="done">eggs</li></ul><ol><li>one</li></ol>',
+      "<h2>Title</h2><blockquote>quoted</blockquote><hr>",
+      "<div><div>nested</div></div><table><tbody><tr><td>x</td></tr></tbody></table>",
+    ];
+    for (const html of notes) {
+      expect(serializeDocument(parseHtml(html))).toBe(html);
+    }
+  });
+
+  it("models known blocks and keeps other markup opaque", () => {
+    const doc = parseHtml(
+      '<div data-section-type="work">+work</div><hr data-timestamp="t" contenteditable="false"><div><div>x</div></div>',
+    );
+    expect(doc.blocks.map((block) => block.type)).toEqual([
+      "sectionHeader",
+      "timestampDivider",
+      "html",
+    ]);
+  });
+
+  it("reads the editor without classes, styles and image sources", () => {
+    const editor = makeEditor(
+      '<div data-section-type="a" class="section-hue-1">+a</div><img data-image-id="x" src="blob:1">',
+    );
+    expect(serializeDocument(readEditorState(editor).doc)).toBe(
+      '<div data-section-type="a">+a</div><img data-image-id="x">',
+    );
+  });
+});
+
+describe("transactions", () => {
+  it("toggles a mark over part of the text and back", () => {
+    const bolded = createTransaction({
+      doc: parseHtml("<div>hello world</div>"),
+      selection: { from: { block: 0, offset: 0 }, to: { block: 0, offset: 5 } },
+    })
+      .toggleMark("bold")
+      .commit().after;
+    expect(serializeDocument(bolded.doc)).toBe("<div><b>hello</b> world</div>");
+
+    const plain = createTransaction(bolded).toggleMark("bold").commit().after;
+    expect(serializeDocument(plain.doc)).toBe("<div>hello world</div>");
+  });
+
+  it("starts and leaves a mark at a collapsed caret", () => {
+    const started = createTransaction(stateOf("<div>ab</div>", 0, 2))
+      .toggleMark("code")
+      .insertText("x")
+      .commit().after;
+    expect(serializeDocument(started.doc)).toBe(
+      "<div>ab<code>\u200Bx</code></div>",
+    );
+
+    const left = createTransaction(started).toggleMark("code").commit().after;
+    expect(serializeDocument(left.doc)).toBe(
+      "<div>ab<code>\u200Bx</code>\u200B</div>",
+    );
+  });
+
+  it("doubles a line break that ends its block", () => {
+    const end = createTransaction(stateOf("<div>abc</div>", 0, 3))
+      .insertLineBreak()
+      .commit().after;
+    expect(serializeDocument(end.doc)).toBe("<div>abc<br><br></div>");
+    expect(end.selection).toEqual(collapsedSelection({ block: 0, offset: 4 }));
+
+    const middle = createTransaction(stateOf("<div>abc</div>", 0, 1))
+      .insertLineBreak()
+      .commit().after;
+    expect(serializeDocument(middle.doc)).toBe("<div>a<br>bc</div>");
+  });
+
+  it("inserts blocks by splitting the caret's block", () => {
+    const middle = createTransaction(stateOf("<div>ab</div>", 0, 1))
+      .insertBlocks([{ type: "divider" }])
+      .commit().after;
+    expect(serializeDocument(middle.doc)).toBe("<div>a</div><hr><div>b</div>");
+    expect(middle.selection).toEqual(
+      collapsedSelection({ block: 2, offset: 0 }),
+    );
+
+    const replaced = createTransaction(stateOf("line<br><br>", 0, 4))
+      .insertBlocks(parseHtml("<h2>Title</h2><div><br></div>").blocks)
+      .commit().after;
+    expect(serializeDocument(replaced.doc)).toBe(
+      "line<h2>Title</h2><div><br></div>",
+    );
+    expect(replaced.selection).toEqual(
+      collapsedSelection({ block: 2, offset: 0 }),
+    );
+  });
+
+  it("keeps the state it started from as the undo point", () => {
+    const before = stateOf("<div>one</div><div>two</div>", 1, 3);
+    const commit = createTransaction(before)
+      .setSelection({
+        from: { block: 0, offset: 1 },
+        to: { block: 1, offset: 1 },
+      })
+      .deleteSelection()
+      .commit();
+
+    expect(serializeDocument(commit.after.doc)).toBe("<div>owo</div>");
+    expect(commit.after.selection).toEqual(
+      collapsedSelection({ block: 0, offset: 1 }),
+    );
+    expect(commit.before).toBe(before);
+    expect(serializeDocument(commit.before.doc)).toBe(
+      "<div>one</div><div>two</div>",
+    );
+  });
+});
+
+describe("editor view", () => {
+  it("maps the caret to positions and back after the DOM is rebuilt", () => {
+    const editor = makeEditor("<p>hello world</p><p>second</p>");
+    setCursor(editor.querySelector("p")!.firstChild!, 5);
+
+    const saved = readSelection(editor);
+    expect(saved).toEqual(collapsedSelection({ block: 0, offset: 5 }));
+
+    editor.innerHTML = "<p>hello world</p><p>second</p>";
+    writeSelection(editor, saved);
+
+    const range = window.getSelection()!.getRangeAt(0);
+    expect(range.startContainer.textContent).toBe("hello world");
+    expect(range.startOffset).toBe(5);
+  });
+
+  it("counts line breaks and images, and lands at the end of short blocks", () => {
+    const editor = makeEditor('a<br><img data-image-id="x">b<div>hi</div>');
+    setCursor(editor.lastChild!.previousSibling!, 1);
+    expect(readSelection(editor)).toEqual(
+      collapsedSelection({ block: 0, offset: 4 }),
+    );
+
+    writeSelection(editor, collapsedSelection({ block: 1, offset: 100 }));
+    const range = window.getSelection()!.getRangeAt(0);
+    expect(range.startContainer.textContent).toBe("hi");
+    expect(range.startOffset).toBe(2);
+
+    window.getSelection()!.removeAllRanges();
+    expect(readSelection(editor)).toBeNull();
+  });
+
+  it("replaces only changed nodes and keeps image elements", () => {
+    const editor = makeEditor(
+      '<div>first</div><div>pic <img data-image-id="x" src="blob:1"></div>',
+    );
+    const first = editor.firstChild;
+    const image = editor.querySelector("img");
+    setCursor(editor.lastChild!.firstChild!, 3);
+
+    const state = readEditorState(editor);
+    const { after } = createTransaction(state).insertText("ture").commit();
+    renderEditorState(editor, after);
+
+    expect(editor.innerHTML).toBe(
+      '<div>first</div><div>picture <img data-image-id="x" src="blob:1"></div>',
+    );
+    expect(editor.firstChild).toBe(first);
+    expect(editor.querySelector("img")).toBe(image);
+    expect(readSelection(editor)).toEqual(
+      collapsedSelection({ block: 1, offset: 7 }),
+    );
+  });
+});
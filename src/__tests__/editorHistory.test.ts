@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  clearEditorHistory,
+  recordEdit,
+  redo,
+  undo,
+  type HistorySnapshot,
+} from "../services/editorHistory";
+import { collapsedSelection } from "../services/editorDocument";
+
+function snapshot(html: string, offset = 0): HistorySnapshot {
+  return { html, selection: collapsedSelection({ block: 0, offset }) };
+}
+
+afterEach(() => {
+  clearEditorHistory();
+});
+
+describe("editorHistory", () => {
+  it("merges a run of typing into one step", () => {
+    recordEdit("2026-10-19", "", snapshot("a", 1), "typing", 1000);
+    recordEdit("2026-10-19", "a", snapshot("ab", 2), "typing", 1500);
+    recordEdit("2026-10-19", "ab", snapshot("abc", 3), "typing", 2000);
+
+    expect(undo("2026-10-19", "abc")?.html).toBe("");
+    expect(undo("2026-10-19", "")).toBeNull();
+  });
+
+  it("splits typing after a pause and around other edits", () => {
+    recordEdit("d", "", snapshot("a"), "typing", 1000);
+    recordEdit("d", "a", snapshot("ab"), "typing", 5000);
+    recordEdit("d", "ab", snapshot("<hr>ab"), "edit", 5100);
+    recordEdit("d", "<hr>ab", snapshot("<hr>abc"), "typing", 5200);
+
+    expect(undo("d", "<hr>abc")?.html).toBe("<hr>ab");
+    expect(undo("d", "<hr>ab")?.html).toBe("ab");
+    expect(undo("d", "ab")?.html).toBe("a");
+    expect(undo("d", "a")?.html).toBe("");
+  });
+
+  it("folds amended edits into the current step", () => {
+    const placeholder = '<img data-image-id="uploading" alt="Uploading...">';
+    const image = '<img data-image-id="img-1" alt="cat.png">';
+    recordEdit("d", "text", snapshot(`text${placeholder}`), "edit", 1000);
+    recordEdit(
+      "d",
+      `text${placeholder}`,
+      snapshot(`text${image}`),
+      "amend",
+      4000,
+    );
+
+    expect(undo("d", `text${image}`)?.html).toBe("text");
+    expect(redo("d", "text")?.html).toBe(`text${image}`);
+  });
+
+  it("redoes undone steps until a new edit", () => {
+    recordEdit("d", "", snapshot("one", 3), "edit", 1000);
+    recordEdit("d", "one", snapshot("one two", 7), "edit", 1100);
+
+    expect(undo("d", "one two")).toEqual(snapshot("one", 3));
+    expect(redo("d", "one")).toEqual(snapshot("one two", 7));
+    expect(undo("d", "one two")?.html).toBe("one");
+
+    recordEdit("d", "one", snapshot("one three"), "typing", 1200);
+    expect(redo("d", "one three")).toBeNull();
+  });
+
+  it("keeps each date's history apart", () => {
+    recordEdit("2026-10-18", "", snapshot("yesterday"), "edit", 1000);
+    recordEdit("2026-10-19", "", snapshot("today"), "edit", 1000);
+
+    expect(undo("2026-10-18", "yesterday")?.html).toBe("");
+    expect(undo("2026-10-19", "today")?.html).toBe("");
+  });
+
+  it("starts over when the note changed outside the history", () => {
+    recordEdit("d", "", snapshot("mine"), "edit", 1000);
+
+    expect(undo("d", "synced from elsewhere")).toBeNull();
+    expect(undo("d", "mine")).toBeNull();
+
+    recordEdit("d", "other journal", snapshot("other journal!"), "edit", 2000);
+    expect(undo("d", "other journal!")?.html).toBe("other journal");
+    expect(undo("d", "other journal")).toBeNull();
+  });
+
+  it("updates only the caret when the content is unchanged", () => {
+    recordEdit("d", "", snapshot("abc", 3), "edit", 1000);
+    recordEdit("d", "abc", snapshot("abc", 1), "edit", 1100);
+
+    expect(undo("d", "abc")?.html).toBe("");
+    expect(redo("d", "")).toEqual(snapshot("abc", 1));
+  });
+});
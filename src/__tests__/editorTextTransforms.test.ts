@@ -1,12 +1,7 @@
 // @vitest-environment jsdom
-import { afterEach, describe, expect, it, vi } from "vitest";
+import { afterEach, describe, expect, it } from "vitest";
 import { applyTextTransforms } from "../services/editorTextTransforms";
 
-const originalExecCommandDescriptor = Object.getOwnPropertyDescriptor(
-  document,
-  "execCommand",
-);
-
 function makeEditor(text: string): HTMLElement {
   const editor = document.createElement("div");
   editor.setAttribute("contenteditable", "true");
@@ -34,16 +29,6 @@ function getCaretTextOffset(editor: HTMLElement): number {
 }
 
 afterEach(() => {
-  vi.restoreAllMocks();
-  if (originalExecCommandDescriptor) {
-    Object.defineProperty(
-      document,
-      "execCommand",
-      originalExecCommandDescriptor,
-    );
-  } else {
-    delete (document as { execCommand?: unknown }).execCommand;
-  }
   document.body.textContent = "";
 });
 
@@ -53,30 +38,6 @@ describe("applyTextTransforms", () => {
     const textNode = editor.firstChild!;
     setCursor(textNode, textNode.textContent!.length);
 
-    Object.defineProperty(document, "execCommand", {
-      configurable: true,
-      value: vi.fn((command: string, _showUi: boolean, value?: string) => {
-        if (command !== "createLink") {
-          return false;
-        }
-
-        const selection = window.getSelection()!;
-        const range = selection.getRangeAt(0);
-        const anchor = document.createElement("a");
-        anchor.setAttribute("href", String(value ?? ""));
-        anchor.textContent = range.toString();
-        range.deleteContents();
-        range.insertNode(anchor);
-
-        const browserRange = document.createRange();
-        browserRange.setStart(anchor.firstChild!, 0);
-        browserRange.collapse(true);
-        selection.removeAllRanges();
-        selection.addRange(browserRange);
-        return true;
-      }),
-    });
-
     applyTextTransforms(editor);
 
     const anchor = editor.querySelector("a");
@@ -89,3 +50,75 @@ describe("applyTextTransforms", () => {
     expect(getCaretTextOffset(editor)).toBe("https://example.com ".length);
   });
 });
+
+describe("input rules", () => {
+  function typeMarker(html: string, caretText: string, offset: number) {
+    const editor = document.createElement("div");
+    editor.setAttribute("contenteditable", "true");
+    editor.innerHTML = html;
+    document.body.appendChild(editor);
+    const walker = document.createTreeWalker(editor, NodeFilter.SHOW_TEXT);
+    let node: Node | null;
+    while ((node = walker.nextNode())) {
+      if (node.textContent === caretText) break;
+    }
+    setCursor(node!, offset);
+    return editor;
+  }
+
+  it("turns a bare line starting with '- ' into a bullet item", () => {
+    const editor = typeMarker("- milk", "- milk", 2);
+
+    const output = applyTextTransforms(editor);
+
+    expect(output.inputRuleTransformed).toBe(true);
+    expect(editor.innerHTML).toBe("<ul><li>milk</li></ul>");
+    expect(getCaretTextOffset(editor)).toBe(0);
+  });
+
+  it("converts headings, quotes, ordered and task items in div lines", () => {
+    const cases: Array<[string, string]> = [
+      ["# ", "<h1><br></h1>"],
+      ["## ", "<h2><br></h2>"],
+      ["### ", "<h3><br></h3>"],
+      ["> ", "<blockquote><br></blockquote>"],
+      ["1. ", "<ol><li><br></li></ol>"],
+      ["[ ] ", '<ul><li data-task="open"><br></li></ul>'],
+      ["[] ", '<ul><li data-task="open"><br></li></ul>'],
+    ];
+    for (const [marker, expected] of cases) {
+      const editor = typeMarker(
+        `<div>first</div><div>${marker}</div>`,
+        marker,
+        marker.length,
+      );
+      applyTextTransforms(editor);
+      expect(editor.innerHTML).toBe(`<div>first</div>${expected}`);
+      editor.remove();
+    }
+  });
+
+  it("appends to the list above and keeps the rest of a bare line", () => {
+    const editor = typeMarker(
+      "<ul><li>eggs</li></ul>* bread<br>later",
+      "* bread",
+      2,
+    );
+
+    applyTextTransforms(editor);
+
+    expect(editor.innerHTML).toBe("<ul><li>eggs</li><li>bread</li></ul>later");
+  });
+
+  it("only fires for a marker typed at the start of a plain line", () => {
+    const midLine = typeMarker("<div>note - </div>", "note - ", 7);
+    const inHeading = typeMarker("<h2># </h2>", "# ", 2);
+    const notYetTyped = typeMarker("<div>-</div>", "-", 1);
+
+    for (const editor of [midLine, inHeading, notYetTyped]) {
+      const before = editor.innerHTML;
+      expect(applyTextTransforms(editor).inputRuleTransformed).toBe(false);
+      expect(editor.innerHTML).toBe(before);
+    }
+  });
+});
@@ -1,11 +1,27 @@
 // @vitest-environment jsdom
 import { describe, it, expect, vi } from "vitest";
+
+// fflate captures TextEncoder at import time, and Node's encoder returns
+// Uint8Arrays from a different realm than jsdom's, which fflate would zip
+// as folders. Re-wrap its output before the module loads.
+vi.hoisted(() => {
+  const NodeTextEncoder = globalThis.TextEncoder;
+  globalThis.TextEncoder = class extends NodeTextEncoder {
+    encode(input?: string) {
+      return new Uint8Array(super.encode(input));
+    }
+  };
+});
 import {
   dateToFilename,
   createTurndown,
   htmlToMarkdown,
   exportNotesAsZip,
+  extractImageIds,
+  imagePath,
 } from "../services/exportNotes";
+import { unzipSync, strFromU8 } from "fflate";
+import type { ImageRepository } from "../storage/imageRepository";
 import { ok, err } from "../domain/result";
 import type { NoteRepository } from "../storage/noteRepository";
 
@@ -64,6 +80,17 @@ describe("htmlToMarkdown", () => {
     expect(result).toBe("<!-- image: abc123 -->");
   });
 
+  it("links images that have an exported path", () => {
+    const paths = new Map([["abc123", "images/2026-03-16/abc123.png"]]);
+    const result = htmlToMarkdown(
+      '<img data-image-id="abc123" alt="photo [1]"><img data-image-id="zzz">',
+      createTurndown(paths),
+    );
+    expect(result).toBe(
+      "![photo \\[1\\]](images/2026-03-16/abc123.png)<!-- image: zzz -->",
+    );
+  });
+
   it("handles mixed content", () => {
     const html = [
       '<hr data-timestamp="2026-03-04T07:06:25.486Z" data-label="8:06 AM" contenteditable="false">',
@@ -90,6 +117,20 @@ describe("htmlToMarkdown", () => {
     );
   });
 
+  it("converts lists and task items", () => {
+    const list = "<ul><li>one</li><li>two<br></li></ul><div>after</div>";
+    expect(htmlToMarkdown(list, td)).toBe("- one\n- two\n\nafter");
+    expect(htmlToMarkdown("<ol><li>first</li><li>second</li></ol>", td)).toBe(
+      "1. first\n2. second",
+    );
+    expect(
+      htmlToMarkdown(
+        '<ul><li data-task="open">call mom</li><li data-task="done">pay rent</li></ul>',
+        td,
+      ),
+    ).toBe("- [ ] call mom\n- [x] pay rent");
+  });
+
   it("converts code", () => {
     expect(htmlToMarkdown("<code>const x = 1</code>", td)).toBe(
       "`const x = 1`",
@@ -97,6 +138,25 @@ describe("htmlToMarkdown", () => {
   });
 });
 
+describe("imagePath / extractImageIds", () => {
+  it("builds per-date image paths from the mime type", () => {
+    expect(imagePath("16-03-2026", "abc", "image/jpeg")).toBe(
+      "images/2026-03-16/abc.jpg",
+    );
+    expect(imagePath("16-03-2026", "abc", "image/webp")).toBe(
+      "images/2026-03-16/abc.webp",
+    );
+  });
+
+  it("lists unique inline image ids", () => {
+    expect(
+      extractImageIds(
+        '<img data-image-id="a"><div><img alt="x" data-image-id="b"></div><img data-image-id="a">',
+      ),
+    ).toEqual(["a", "b"]);
+  });
+});
+
 describe("exportNotesAsZip", () => {
   function mockRepo(
     dates: string[],
@@ -160,4 +220,38 @@ describe("exportNotesAsZip", () => {
     const result = await exportNotesAsZip(repo);
     expect(result).toBeInstanceOf(Blob);
   });
+
+  it("writes decrypted images and links them from markdown", async () => {
+    const repo = mockRepo(["16-03-2026"], {
+      "16-03-2026":
+        '<div>Lunch</div><img data-image-id="img-1" alt="soup"><img data-image-id="gone">',
+    });
+    const imageRepo = {
+      get: vi.fn().mockImplementation((id: string) =>
+        Promise.resolve(
+          ok(
+            id === "img-1"
+              ? new Blob([new Uint8Array([1, 2, 3])], { type: "image/png" })
+              : null,
+          ),
+        ),
+      ),
+    } as unknown as ImageRepository;
+    const onProgress = vi.fn();
+
+    const blob = await exportNotesAsZip(repo, onProgress, undefined, imageRepo);
+    const entries = unzipSync(new Uint8Array(await blob!.arrayBuffer()));
+
+    expect(Array.from(entries["images/2026-03-16/img-1.png"])).toEqual([
+      1, 2, 3,
+    ]);
+    expect(strFromU8(entries["2026-03-16.md"])).toBe(
+      "Lunch\n\n![soup](images/2026-03-16/img-1.png)<!-- image: gone -->",
+    );
+    expect(onProgress).toHaveBeenCalledWith({
+      phase: "images",
+      current: 2,
+      total: 2,
+    });
+  });
 });
@@ -1,3 +1,4 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { ok } from "../../domain/result";
 import type { NoteRepository } from "../../storage/noteRepository";
 
@@ -40,3 +41,166 @@ export function createMockConnectivity(online = true) {
     },
   };
 }
+
+type Row = Record<string, unknown>;
+
+/**
+ * In-memory Supabase client: enough of the PostgREST builder for the
+ * services' queries (filters, ordering, limits, head counts, inserts,
+ * updates and deletes) over `tables`, `functions` for RPCs, plus one
+ * storage bucket. Note rows are unique on (user_id, journal_id, date), like
+ * the real table. Table arrays are changed in place, so callers can keep
+ * references to them.
+ */
+export function createFakeSupabase(
+  tables: Record<string, Row[]> = {},
+  functions: Record<string, (args: Row) => unknown> = {},
+) {
+  const blobs = new Map<string, Blob>();
+
+  function query(table: string) {
+    tables[table] ??= [];
+    const filters: Array<(row: Row) => boolean> = [];
+    let orderBy: string | null = null;
+    let limit = Infinity;
+    let head = false;
+    let patch: Row | null = null;
+    let insert: Row[] | null = null;
+    let remove = false;
+
+    const run = () => {
+      const rows = tables[table];
+      if (insert) {
+        rows.push(...insert.map((row) => ({ ...row })));
+        return { data: null, error: null };
+      }
+      const matched = rows.filter((row) => filters.every((f) => f(row)));
+      if (remove) {
+        matched.forEach((row) => rows.splice(rows.indexOf(row), 1));
+        return { data: null, error: null };
+      }
+      if (patch) {
+        const clash =
+          table === "notes" &&
+          typeof patch.date === "string" &&
+          rows.some(
+            (other) =>
+              !matched.includes(other) &&
+              matched.some((row) => row.journal_id === other.journal_id) &&
+              other.date === patch!.date,
+          );
+        if (clash) return { data: null, error: { code: "23505" } };
+        matched.forEach((row) => Object.assign(row, patch));
+        return { data: matched.map((row) => ({ ...row })), error: null };
+      }
+      if (head) return { data: null, count: matched.length, error: null };
+      const sorted = orderBy
+        ? [...matched].sort((a, b) =>
+            String(a[orderBy!]).localeCompare(String(b[orderBy!])),
+          )
+        : matched;
+      return {
+        data: sorted.slice(0, limit).map((row) => ({ ...row })),
+        error: null,
+      };
+    };
+
+    const like = (value: unknown, pattern: string) =>
+      String(value).startsWith(pattern.replace(/%$/, ""));
+
+    const builder = {
+      select(_columns?: string, options?: { head?: boolean }) {
+        head = options?.head ?? false;
+        return builder;
+      },
+      insert(values: Row | Row[]) {
+        insert = Array.isArray(values) ? values : [values];
+        return builder;
+      },
+      update(values: Row) {
+        patch = values;
+        return builder;
+      },
+      delete() {
+        remove = true;
+        return builder;
+      },
+      eq(column: string, value: unknown) {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      neq(column: string, value: unknown) {
+        filters.push((row) => row[column] !== value);
+        return builder;
+      },
+      like(column: string, pattern: string) {
+        filters.push((row) => like(row[column], pattern));
+        return builder;
+      },
+      not(column: string, _operator: "like", pattern: string) {
+        filters.push((row) => !like(row[column], pattern));
+        return builder;
+      },
+      gt(column: string, value: string) {
+        filters.push((row) => String(row[column]) > value);
+        return builder;
+      },
+      order(column: string) {
+        orderBy = column;
+        return builder;
+      },
+      limit(count: number) {
+        limit = count;
+        return builder;
+      },
+      maybeSingle: async () => {
+        const { data, error } = run();
+        return { data: data?.[0] ?? null, error };
+      },
+      then(resolve: (value: ReturnType<typeof run>) => unknown) {
+        return Promise.resolve(run()).then(resolve);
+      },
+    };
+    return builder;
+  }
+
+  function rpc(name: string, args: Row) {
+    const result = { data: functions[name](args) ?? null, error: null };
+    return {
+      maybeSingle: async () => ({
+        data: Array.isArray(result.data)
+          ? (result.data[0] ?? null)
+          : result.data,
+        error: null,
+      }),
+      then(resolve: (value: typeof result) => unknown) {
+        return Promise.resolve(result).then(resolve);
+      },
+    };
+  }
+
+  const supabase = {
+    from: (table: string) => query(table),
+    rpc,
+    storage: {
+      from: () => ({
+        upload: async (path: string, blob: Blob) => {
+          blobs.set(path, blob);
+          return { data: { path }, error: null };
+        },
+        download: async (path: string) => {
+          const blob = blobs.get(path);
+          return blob
+            ? { data: blob, error: null }
+            : { data: null, error: { message: "Not found" } };
+        },
+        remove: async (paths: string[]) => {
+          paths.forEach((path) => blobs.delete(path));
+          return { data: null, error: null };
+        },
+      }),
+    },
+  } as unknown as SupabaseClient;
+
+  return { supabase, tables, blobs };
+}
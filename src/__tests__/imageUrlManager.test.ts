@@ -254,4 +254,48 @@ describe("ImageUrlManager", () => {
       expect(mockRevokeObjectURL).not.toHaveBeenCalled();
     });
   });
+
+  describe("dispose", () => {
+    it("revokes blob URLs still held by owners", async () => {
+      const blob = new Blob(["data"], { type: "image/png" });
+      const repo = createMockRepository({
+        getUrl: vi.fn().mockResolvedValue(ok(null)),
+        get: vi.fn().mockResolvedValue(ok(blob)),
+      });
+      mockCreateObjectURL.mockReturnValue("blob:held");
+      const manager = new ImageUrlManager(repo);
+
+      await manager.acquireUrl("img-1", "component-a");
+      await manager.acquireUrl("img-1", "component-b");
+      manager.dispose();
+
+      expect(mockRevokeObjectURL).toHaveBeenCalledWith("blob:held");
+    });
+
+    it("revokes URLs that finish resolving after disposal", async () => {
+      const blob = new Blob(["data"], { type: "image/png" });
+      let resolveGet: (blob: Blob) => void = () => {};
+      const repo = createMockRepository({
+        getUrl: vi.fn().mockResolvedValue(ok(null)),
+        get: vi.fn(
+          () =>
+            new Promise<Awaited<ReturnType<ImageRepository["get"]>>>(
+              (resolve) => {
+                resolveGet = (value) => resolve(ok(value));
+              },
+            ),
+        ),
+      });
+      mockCreateObjectURL.mockReturnValue("blob:late");
+      const manager = new ImageUrlManager(repo);
+
+      const pending = manager.acquireUrl("img-1", "component-a");
+      await vi.waitFor(() => expect(repo.get).toHaveBeenCalled());
+      manager.dispose();
+      resolveGet(blob);
+
+      expect(await pending).toBeNull();
+      expect(mockRevokeObjectURL).toHaveBeenCalledWith("blob:late");
+    });
+  });
 });
@@ -0,0 +1,337 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi } from "vitest";
+import { zipSync, strToU8 } from "fflate";
+import {
+  filenameToDate,
+  markdownToHtml,
+  parseMarkdownFiles,
+  readImportFiles,
+  planImport,
+  applyImport,
+} from "../services/importNotes";
+import { createTurndown, htmlToMarkdown } from "../services/exportNotes";
+import { ok, err } from "../domain/result";
+import { parseNoteSegments } from "../utils/noteSegments";
+import type { NoteRepository } from "../storage/noteRepository";
+import type { ImageRepository } from "../storage/imageRepository";
+
+describe("filenameToDate", () => {
+  it("converts YYYY-MM-DD.md to DD-MM-YYYY", () => {
+    expect(filenameToDate("2026-03-16.md")).toBe("16-03-2026");
+    expect(filenameToDate("notes/2020-01-01.md")).toBe("01-01-2020");
+  });
+
+  it("rejects other names and impossible dates", () => {
+    expect(filenameToDate("README.md")).toBeNull();
+    expect(filenameToDate("2026-02-30.md")).toBeNull();
+    expect(filenameToDate("2026-03-16.txt")).toBeNull();
+  });
+});
+
+describe("markdownToHtml", () => {
+  it("converts lines to editor divs with inline formatting", () => {
+    expect(
+      markdownToHtml("**bold** and _italic_ `x`\n\nNext", "16-03-2026"),
+    ).toBe(
+      "<div><b>bold</b> and <i>italic</i> <code>x</code></div><div>Next</div>",
+    );
+  });
+
+  it("rebuilds timestamp dividers from time comments", () => {
+    const html = markdownToHtml(
+      "---\n<!-- time: 8:06 PM -->\n\nEvening",
+      "04-03-2026",
+    );
+    const hr = new DOMParser()
+      .parseFromString(html, "text/html")
+      .querySelector("hr")!;
+    expect(hr.getAttribute("data-label")).toBe("8:06 PM");
+    expect(hr.getAttribute("contenteditable")).toBe("false");
+    const timestamp = new Date(hr.getAttribute("data-timestamp")!);
+    expect(timestamp.getDate()).toBe(4);
+    expect(timestamp.getHours()).toBe(20);
+    expect(timestamp.getMinutes()).toBe(6);
+  });
+
+  it("turns h2 headings into section headers", () => {
+    expect(markdownToHtml("## +dream\n\n## Work Log", "16-03-2026")).toBe(
+      '<div data-section-type="dream">+dream</div>' +
+        '<div data-section-type="work-log">+work-log</div>',
+    );
+  });
+
+  it("keeps links, image placeholders and quotes", () => {
+    const html = markdownToHtml(
+      "[site](https://example.com) <!-- image: abc-1 -->\n\n> quoted",
+      "16-03-2026",
+    );
+    expect(html).toContain(
+      '<a href="https://example.com" target="_blank" rel="noopener noreferrer">site</a>',
+    );
+    expect(html).toContain('data-image-id="abc-1"');
+    expect(html).toContain("<blockquote>quoted</blockquote>");
+  });
+
+  it("maps exported image references back to image ids", () => {
+    const html = markdownToHtml(
+      "![soup](images/2026-03-16/img-1.png) ![remote](https://x.test/a.png)",
+      "16-03-2026",
+    );
+    expect(html).toBe(
+      '<div><img data-image-id="img-1" alt="soup"> remote</div>',
+    );
+  });
+
+  it("keeps raw HTML as text and drops unsafe links", () => {
+    const html = markdownToHtml(
+      '<img src=x onerror="alert(1)"> [x](javascript:alert)',
+      "16-03-2026",
+    );
+    const doc = new DOMParser().parseFromString(html, "text/html");
+    expect(doc.querySelector("img")).toBeNull();
+    expect(doc.body.textContent).toContain("<img src=x");
+    expect(doc.querySelector("a")!.hasAttribute("href")).toBe(false);
+  });
+
+  it("round-trips through the exporter", () => {
+    const td = createTurndown();
+    const markdown = [
+      "---",
+      "<!-- time: 8:06 AM -->",
+      "",
+      "Some **text** with a [link](https://example.com).",
+      "",
+      "## +dream",
+      "",
+      "Flying\\_over water",
+    ].join("\n");
+    const html = markdownToHtml(markdown, "04-03-2026");
+    expect(htmlToMarkdown(html, td)).toBe(markdown);
+  });
+});
+
+describe("readImportFiles", () => {
+  it("reads markdown entries from an exported zip", async () => {
+    // Copy into this realm's Uint8Array so fflate doesn't treat the
+    // entries as nested folders under jsdom.
+    const bytes = (text: string) => new Uint8Array(strToU8(text));
+    const zip = zipSync({
+      "2026-03-16.md": bytes("Hello"),
+      "images/a.png": new Uint8Array([1]),
+      "notes.txt": bytes("ignored"),
+    });
+    const file = new File([zip.buffer as ArrayBuffer], "export.zip", {
+      type: "application/zip",
+    });
+    const source = await readImportFiles([file]);
+    expect(source.notes).toEqual([
+      { date: "16-03-2026", markdown: "Hello", content: "<div>Hello</div>" },
+    ]);
+    expect(source.skipped).toContain("export.zip/notes.txt");
+  });
+
+  it("reads loose markdown files sorted by date", async () => {
+    const source = await readImportFiles([
+      new File(["B"], "2026-03-17.md"),
+      new File(["A"], "2025-12-31.md"),
+    ]);
+    expect(source.notes.map((n) => n.date)).toEqual([
+      "31-12-2025",
+      "17-03-2026",
+    ]);
+  });
+
+  const bytes = (text: string) => new Uint8Array(strToU8(text));
+
+  it("merges Day One entries on the same day into timestamped segments", async () => {
+    const journal = {
+      entries: [
+        {
+          creationDate: "2024-03-16T18:00:00Z",
+          timeZone: "UTC",
+          text: "Evening ![](dayone-moment://P1)",
+          photos: [{ identifier: "P1", md5: "abc", type: "jpeg" }],
+        },
+        {
+          creationDate: "2024-03-16T08:00:00Z",
+          timeZone: "UTC",
+          text: "Morning",
+        },
+      ],
+    };
+    const zip = zipSync({
+      "Journal.json": bytes(JSON.stringify(journal)),
+      "photos/abc.jpeg": new Uint8Array([1, 2]),
+    });
+    const source = await readImportFiles([
+      new File([zip.buffer as ArrayBuffer], "dayone.zip", {
+        type: "application/zip",
+      }),
+    ]);
+
+    expect(source.notes).toHaveLength(1);
+    const [note] = source.notes;
+    const segments = parseNoteSegments(note.content);
+    expect(segments.map((s) => s.timestamp)).toEqual([
+      "2024-03-16T08:00:00.000Z",
+      "2024-03-16T18:00:00.000Z",
+    ]);
+    expect(segments[0].html).toBe("<div>Morning</div>");
+    expect(segments[1].html).toBe(
+      '<div>Evening <img data-image-id="import-1" alt=""></div>',
+    );
+    expect(note.photos).toHaveLength(1);
+    expect(note.photos![0]).toMatchObject({ ref: "import-1", filename: "abc.jpeg" });
+    expect(note.photos![0].blob.type).toBe("image/jpeg");
+    expect(source.skipped).toEqual([]);
+  });
+
+  it("reads a Journey zip with photos listed per entry", async () => {
+    const zip = zipSync({
+      "1.json": bytes(
+        JSON.stringify({
+          date_journal: Date.UTC(2024, 5, 1, 9, 0),
+          timezone: "UTC",
+          type: "html",
+          text: "<p>Beach</p>",
+          photos: ["1-a.jpg"],
+        }),
+      ),
+      "1-a.jpg": new Uint8Array([1]),
+      "readme.json": bytes('{"hello": true}'),
+    });
+    const source = await readImportFiles([
+      new File([zip.buffer as ArrayBuffer], "journey.zip", {
+        type: "application/zip",
+      }),
+    ]);
+    expect(source.notes).toHaveLength(1);
+    expect(source.notes[0].date).toBe("01-06-2024");
+    expect(source.notes[0].content).toContain("<p>Beach</p>");
+    expect(source.notes[0].content).toContain('data-image-id="import-1"');
+    expect(source.skipped).toEqual(["journey.zip/readme.json"]);
+  });
+
+  it("reads Obsidian daily notes with a custom pattern and embeds", async () => {
+    const note = new File(["---\nmood: ok\n---\nHi ![[cat.png]]"], "16.03.2024.md");
+    Object.defineProperty(note, "webkitRelativePath", {
+      value: "vault/Daily/16.03.2024.md",
+    });
+    const photo = new File([new Uint8Array([1])], "cat.png", { type: "image/png" });
+    Object.defineProperty(photo, "webkitRelativePath", {
+      value: "vault/attachments/cat.png",
+    });
+
+    const source = await readImportFiles([note, photo], {
+      datePattern: "DD.MM.YYYY",
+    });
+    expect(source.notes).toHaveLength(1);
+    expect(source.notes[0].date).toBe("16-03-2024");
+    expect(source.notes[0].content).toBe(
+      '<div>Hi <img data-image-id="import-1" alt=""></div>',
+    );
+    expect(source.notes[0].photos![0].blob).toBe(photo);
+  });
+});
+
+describe("planImport / applyImport", () => {
+  function mockRepo(notes: Record<string, string>): NoteRepository {
+    return {
+      getAllDates: vi.fn().mockResolvedValue(ok(Object.keys(notes))),
+      getAllDatesForYear: vi.fn().mockResolvedValue(ok([])),
+      get: vi.fn().mockImplementation((date: string) => {
+        const content = notes[date];
+        if (!content) return Promise.resolve(ok(null));
+        return Promise.resolve(
+          ok({ date, content, updatedAt: new Date().toISOString() }),
+        );
+      }),
+      save: vi.fn().mockResolvedValue(ok(undefined)),
+      delete: vi.fn().mockResolvedValue(ok(undefined)),
+    };
+  }
+
+  const { notes } = parseMarkdownFiles({
+    "2026-03-15.md": "Same",
+    "2026-03-16.md": "Imported",
+    "2026-03-17.md": "Brand new",
+  });
+
+  it("classifies notes against existing content", async () => {
+    const repo = mockRepo({
+      "15-03-2026": "<div>Same</div>",
+      "16-03-2026": "<div>Local</div>",
+    });
+    const plan = await planImport(repo, notes);
+    expect(plan.map((e) => [e.date, e.status])).toEqual([
+      ["15-03-2026", "identical"],
+      ["16-03-2026", "conflict"],
+      ["17-03-2026", "new"],
+    ]);
+    expect(plan[1].existingContent).toBe("<div>Local</div>");
+  });
+
+  it("writes new notes and resolves conflicts", async () => {
+    const repo = mockRepo({
+      "15-03-2026": "<div>Same</div>",
+      "16-03-2026": "<div>Local</div>",
+    });
+    const plan = await planImport(repo, notes);
+
+    const summary = await applyImport(repo, plan, { "16-03-2026": "append" });
+    expect(summary).toEqual({ imported: 2, skipped: 1, failed: [] });
+    expect(repo.save).toHaveBeenCalledWith(
+      "16-03-2026",
+      "<div>Local</div><div>Imported</div>",
+      undefined,
+    );
+    expect(repo.save).toHaveBeenCalledWith(
+      "17-03-2026",
+      "<div>Brand new</div>",
+      undefined,
+    );
+  });
+
+  it("uploads attached photos and drops the ones that fail", async () => {
+    const repo = mockRepo({});
+    const upload = vi
+      .fn()
+      .mockResolvedValueOnce(ok({ id: "real-id" }))
+      .mockResolvedValueOnce(err({ type: "IO", message: "offline" }));
+    const images = { upload } as unknown as ImageRepository;
+    const blob = new Blob([new Uint8Array([1])], { type: "image/png" });
+    const plan = await planImport(repo, [
+      {
+        date: "01-01-2024",
+        markdown: "",
+        content:
+          '<div><img data-image-id="import-1" alt=""></div>' +
+          '<div><img data-image-id="import-2" alt=""></div>',
+        photos: [
+          { ref: "import-1", blob, filename: "a.png" },
+          { ref: "import-2", blob, filename: "b.png" },
+        ],
+      },
+    ]);
+
+    await applyImport(repo, plan, {}, undefined, images);
+    expect(upload).toHaveBeenCalledWith("01-01-2024", blob, "inline", "a.png");
+    expect(repo.save).toHaveBeenCalledWith(
+      "01-01-2024",
+      '<div><img data-image-id="real-id" alt=""></div><div></div>',
+      undefined,
+    );
+  });
+
+  it("skips conflicts without a resolution", async () => {
+    const repo = mockRepo({ "16-03-2026": "<div>Local</div>" });
+    const plan = await planImport(repo, notes);
+    const summary = await applyImport(repo, plan, {});
+    expect(summary.skipped).toBe(1);
+    expect(repo.save).not.toHaveBeenCalledWith(
+      "16-03-2026",
+      expect.anything(),
+      undefined,
+    );
+  });
+});
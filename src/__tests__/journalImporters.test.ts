@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import {
+  dailyNoteDate,
+  obsidianToMarkdown,
+  parseDayOneExport,
+  parseJourneyEntry,
+} from "../services/journalImporters";
+
+describe("parseDayOneExport", () => {
+  it("maps entries to their local day and time", () => {
+    const [entry] = parseDayOneExport({
+      metadata: { version: "1.0" },
+      entries: [
+        {
+          uuid: "A",
+          creationDate: "2024-03-15T23:30:00Z",
+          timeZone: "Asia/Tokyo",
+          text: "Late dinner",
+        },
+      ],
+    });
+    expect(entry).toMatchObject({
+      date: "16-03-2024",
+      timestamp: "2024-03-15T23:30:00.000Z",
+      label: "8:30 AM",
+      text: "Late dinner",
+      format: "markdown",
+      photos: [],
+    });
+  });
+
+  it("rewrites moment links to photo files and appends unreferenced photos", () => {
+    const [entry] = parseDayOneExport({
+      entries: [
+        {
+          creationDate: "2024-03-15T10:00:00Z",
+          timeZone: "UTC",
+          text: "Look ![](dayone-moment://P1)\n![](dayone-moment:/video/V1)",
+          photos: [
+            { identifier: "P1", md5: "aaa", type: "jpeg" },
+            { identifier: "P2", md5: "bbb", type: "png" },
+          ],
+        },
+      ],
+    });
+    expect(entry.text).toBe("Look ![](photos/aaa.jpeg)\n");
+    expect(entry.photos).toEqual(["photos/bbb.png"]);
+  });
+
+  it("ignores malformed entries and unknown time zones", () => {
+    const entries = parseDayOneExport({
+      entries: [
+        { text: "no date" },
+        { creationDate: "not a date", text: "x" },
+        { creationDate: "2024-01-01T12:00:00Z", timeZone: "Mars/Base", text: "ok" },
+      ],
+    });
+    expect(entries).toHaveLength(1);
+    expect(entries[0].text).toBe("ok");
+  });
+
+  it("returns nothing for other JSON", () => {
+    expect(parseDayOneExport({ foo: [] })).toEqual([]);
+  });
+});
+
+describe("parseJourneyEntry", () => {
+  it("reads html entries and their photos", () => {
+    const entry = parseJourneyEntry({
+      id: "1",
+      date_journal: Date.UTC(2024, 5, 1, 18, 5),
+      timezone: "Europe/Lisbon",
+      type: "html",
+      text: "<p>Beach day</p>",
+      photos: ["1-abc.jpg"],
+    });
+    expect(entry).toMatchObject({
+      date: "01-06-2024",
+      label: "7:05 PM",
+      format: "html",
+      text: "<p>Beach day</p>",
+      photos: ["1-abc.jpg"],
+    });
+  });
+
+  it("treats untyped entries as markdown and skips empty ones", () => {
+    expect(
+      parseJourneyEntry({ date_journal: 0, timezone: "UTC", text: "**hi**" })
+        ?.format,
+    ).toBe("markdown");
+    expect(parseJourneyEntry({ date_journal: 0, text: " " })).toBeNull();
+    expect(parseJourneyEntry({ text: "no date" })).toBeNull();
+  });
+});
+
+describe("dailyNoteDate", () => {
+  it("defaults to YYYY-MM-DD file names", () => {
+    expect(dailyNoteDate("vault/Daily/2024-03-16.md")).toBe("16-03-2024");
+    expect(dailyNoteDate("vault/Daily/Ideas.md")).toBeNull();
+  });
+
+  it("supports custom patterns, literals and folders", () => {
+    expect(dailyNoteDate("16.03.2024.md", "DD.MM.YYYY")).toBe("16-03-2024");
+    expect(dailyNoteDate("Journal 2024-3-6.md", "[Journal] YYYY-M-D")).toBe(
+      "06-03-2024",
+    );
+    expect(dailyNoteDate("vault/2024/03/2024-03-16.md", "YYYY/MM/YYYY-MM-DD")).toBe(
+      "16-03-2024",
+    );
+    // Repeated tokens must agree
+    expect(dailyNoteDate("vault/2023/03/2024-03-16.md", "YYYY/MM/YYYY-MM-DD")).toBeNull();
+  });
+
+  it("rejects impossible dates", () => {
+    expect(dailyNoteDate("2024-02-30.md")).toBeNull();
+  });
+});
+
+describe("obsidianToMarkdown", () => {
+  it("drops frontmatter and converts embeds and wiki links", () => {
+    const markdown = obsidianToMarkdown(
+      "---\ntags:\n  - daily\nmood: good\n---\nMet [[Alice Smith|Alice]] ![[Beach photo.jpg|300]] ![[map.png|Map]]",
+    );
+    expect(markdown).toBe(
+      "Met Alice ![](Beach%20photo.jpg) ![Map](map.png)",
+    );
+  });
+
+  it("keeps a leading rule that isn't frontmatter", () => {
+    const markdown = "---\n<!-- time: 8:00 AM -->\n\nMorning";
+    expect(obsidianToMarkdown(markdown)).toBe(markdown);
+  });
+});
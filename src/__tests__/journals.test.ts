@@ -0,0 +1,69 @@
+// @vitest-environment jsdom
+import {
+  createJournalId,
+  DEFAULT_JOURNAL_ID,
+  isValidJournalId,
+  journalDatabaseName,
+  loadJournals,
+  saveJournals,
+} from "../storage/journals";
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe("journals", () => {
+  it("always lists the default journal first", () => {
+    expect(loadJournals("local").map((journal) => journal.id)).toEqual([
+      DEFAULT_JOURNAL_ID,
+    ]);
+
+    const work = {
+      id: createJournalId(),
+      name: "Work log",
+      noteKeyId: null,
+      createdAt: "2026-10-19T00:00:00.000Z",
+    };
+    saveJournals("user-1", [work]);
+
+    expect(loadJournals("user-1").map((journal) => journal.name)).toEqual([
+      "Journal",
+      "Work log",
+    ]);
+    expect(loadJournals("user-2")).toHaveLength(1);
+  });
+
+  it("keeps a renamed default journal", () => {
+    saveJournals("local", [
+      {
+        id: DEFAULT_JOURNAL_ID,
+        name: "Personal",
+        noteKeyId: null,
+        createdAt: null,
+      },
+    ]);
+
+    expect(loadJournals("local")).toEqual([
+      {
+        id: DEFAULT_JOURNAL_ID,
+        name: "Personal",
+        noteKeyId: null,
+        createdAt: null,
+      },
+    ]);
+  });
+
+  it("keeps the original database for the default journal", () => {
+    expect(journalDatabaseName("user-1", DEFAULT_JOURNAL_ID)).toBe("user-1");
+    expect(journalDatabaseName("local", "a1b2c3d4e5f60718")).toBe(
+      "local-journal-a1b2c3d4e5f60718",
+    );
+  });
+
+  it("accepts generated ids only", () => {
+    expect(isValidJournalId(createJournalId())).toBe(true);
+    expect(isValidJournalId(DEFAULT_JOURNAL_ID)).toBe(true);
+    expect(isValidJournalId("../notes")).toBe(false);
+    expect(isValidJournalId("Work")).toBe(false);
+  });
+});
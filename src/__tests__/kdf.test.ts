@@ -0,0 +1,148 @@
+import { argon2id } from "../storage/argon2";
+import type { Argon2Request, Argon2Response } from "../storage/argon2.worker";
+import {
+  DEFAULT_KDF,
+  deriveAesKey,
+  KDF_LIMITS,
+  needsKdfUpgrade,
+  normalizeKdfParams,
+} from "../storage/kdf";
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    "",
+  );
+}
+
+describe("argon2id", () => {
+  it("matches the RFC 9106 test vector", () => {
+    const tag = argon2id(new Uint8Array(32).fill(1), new Uint8Array(16).fill(2), {
+      iterations: 3,
+      memoryKiB: 32,
+      parallelism: 4,
+      hashLength: 32,
+      secret: new Uint8Array(8).fill(3),
+      associatedData: new Uint8Array(12).fill(4),
+    });
+
+    expect(toHex(tag)).toBe(
+      "0d640df58d78766c08c037a34a8b53c9d01ef0452d75b65eb52520e96b01e659",
+    );
+  });
+
+  it("rejects salts shorter than 8 bytes", () => {
+    expect(() =>
+      argon2id(new Uint8Array(8), new Uint8Array(4), {
+        iterations: 1,
+        memoryKiB: 8,
+        parallelism: 1,
+        hashLength: 32,
+      }),
+    ).toThrow();
+  });
+});
+
+describe("normalizeKdfParams", () => {
+  it("treats descriptors without an algorithm as PBKDF2", () => {
+    expect(normalizeKdfParams({ iterations: 600000 })).toEqual({
+      algorithm: "pbkdf2-sha256",
+      iterations: 600000,
+    });
+  });
+
+  it("fills in missing Argon2id parameters from the default", () => {
+    expect(
+      normalizeKdfParams({ algorithm: "argon2id", iterations: 3 }),
+    ).toEqual({
+      algorithm: "argon2id",
+      iterations: 3,
+      memoryKiB: DEFAULT_KDF.memoryKiB,
+      parallelism: DEFAULT_KDF.parallelism,
+    });
+  });
+
+  it("clamps parameters to the limits", () => {
+    expect(
+      normalizeKdfParams({
+        algorithm: "argon2id",
+        iterations: 1e9,
+        memoryKiB: 1e9,
+        parallelism: 1000,
+      }),
+    ).toEqual({
+      algorithm: "argon2id",
+      iterations: KDF_LIMITS.argon2Iterations,
+      memoryKiB: KDF_LIMITS.memoryKiB,
+      parallelism: KDF_LIMITS.parallelism,
+    });
+    expect(
+      normalizeKdfParams({
+        algorithm: "argon2id",
+        iterations: 0,
+        memoryKiB: 1,
+        parallelism: 4,
+      }),
+    ).toEqual({
+      algorithm: "argon2id",
+      iterations: 1,
+      memoryKiB: 32,
+      parallelism: 4,
+    });
+    expect(
+      normalizeKdfParams({ iterations: Number.POSITIVE_INFINITY }),
+    ).toEqual({ algorithm: "pbkdf2-sha256", iterations: 1 });
+  });
+});
+
+describe("deriveAesKey", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("runs Argon2id in a worker", async () => {
+    const requests: Argon2Request[] = [];
+    class FakeWorker {
+      onmessage: ((event: { data: Argon2Response }) => void) | null = null;
+      onerror: (() => void) | null = null;
+      postMessage(request: Argon2Request) {
+        requests.push(request);
+        const hash = argon2id(request.password, request.salt, request.params);
+        queueMicrotask(() =>
+          this.onmessage?.({ data: { id: request.id, hash } }),
+        );
+      }
+      terminate() {}
+    }
+    vi.stubGlobal("Worker", FakeWorker);
+
+    const key = await deriveAesKey(
+      "password",
+      new Uint8Array(16),
+      { algorithm: "argon2id", iterations: 1, memoryKiB: 8, parallelism: 1 },
+      ["encrypt"],
+    );
+
+    expect(key.algorithm).toMatchObject({ name: "AES-GCM" });
+    expect(requests).toHaveLength(1);
+    expect(requests[0].params).toMatchObject({ iterations: 1, memoryKiB: 8 });
+  });
+});
+
+describe("needsKdfUpgrade", () => {
+  it("upgrades PBKDF2 wrappings", () => {
+    expect(
+      needsKdfUpgrade({ algorithm: "pbkdf2-sha256", iterations: 600000 }),
+    ).toBe(true);
+  });
+
+  it("upgrades Argon2id wrappings weaker than the default", () => {
+    expect(
+      needsKdfUpgrade({ ...DEFAULT_KDF, memoryKiB: DEFAULT_KDF.memoryKiB / 2 }),
+    ).toBe(true);
+  });
+
+  it("keeps wrappings at or above the default", () => {
+    expect(needsKdfUpgrade(DEFAULT_KDF)).toBe(false);
+    expect(needsKdfUpgrade({ ...DEFAULT_KDF, iterations: 4 })).toBe(false);
+  });
+});
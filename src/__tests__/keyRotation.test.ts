@@ -0,0 +1,589 @@
+// @vitest-environment jsdom
+import type { MockedFunction } from "vitest";
+import {
+  continueKeyRotation,
+  createJournalKey,
+  deleteUnusedKey,
+  isKeyRotationDue,
+  listKeyUsage,
+  promoteKey,
+  startKeyRotation,
+} from "../services/keyRotation";
+import { createE2eeService } from "../services/e2eeService";
+import {
+  fetchUserKeyring,
+  saveUserKeyringEntry,
+  deleteUserKeyringEntry,
+  fetchRecoveryKeyring,
+} from "../storage/userKeyring";
+import type { UserKeyringEntry } from "../storage/userKeyring";
+import {
+  loadKeyRotationState,
+  saveKeyRotationState,
+} from "../storage/keyRotationState";
+import { generateDEK } from "../storage/vault";
+import { computeKeyId } from "../storage/keyId";
+import { fetchJournalKeyIds } from "../storage/journals";
+import { createFakeSupabase } from "./helpers/mocks";
+
+vi.mock("../storage/userSettings", () => ({
+  fetchDateIndexKeyId: vi.fn().mockResolvedValue(null),
+}));
+
+vi.mock("../storage/journals", () => ({
+  fetchJournalKeyIds: vi.fn(),
+  reencryptJournalNames: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock("../storage/userKeyring", () => ({
+  fetchUserKeyring: vi.fn(),
+  saveUserKeyringEntry: vi.fn(),
+  deleteUserKeyringEntry: vi.fn(),
+  fetchRecoveryKeyring: vi.fn(),
+}));
+
+const mockFetchUserKeyring = fetchUserKeyring as MockedFunction<
+  typeof fetchUserKeyring
+>;
+const mockSaveUserKeyringEntry = saveUserKeyringEntry as MockedFunction<
+  typeof saveUserKeyringEntry
+>;
+const mockDeleteUserKeyringEntry = deleteUserKeyringEntry as MockedFunction<
+  typeof deleteUserKeyringEntry
+>;
+const mockFetchRecoveryKeyring = fetchRecoveryKeyring as MockedFunction<
+  typeof fetchRecoveryKeyring
+>;
+const mockFetchJournalKeyIds = fetchJournalKeyIds as MockedFunction<
+  typeof fetchJournalKeyIds
+>;
+
+const USER_ID = "user-1";
+
+type Row = Record<string, unknown>;
+
+function keyringEntry(keyId: string, isPrimary: boolean): UserKeyringEntry {
+  return {
+    keyId,
+    wrappedDek: "wrapped",
+    dekIv: "iv",
+    kdfSalt: "salt",
+    kdfIterations: 1,
+    version: 1,
+    isPrimary,
+  };
+}
+
+async function setup(noteCount: number) {
+  const oldKey = await generateDEK();
+  const newKey = await generateDEK();
+  const oldKeyId = await computeKeyId(oldKey);
+  const newKeyId = await computeKeyId(newKey);
+  const keys = new Map([
+    [oldKeyId, oldKey],
+    [newKeyId, newKey],
+  ]);
+  const writer = createE2eeService({
+    activeKeyId: oldKeyId,
+    getKey: (keyId) => keys.get(keyId) ?? null,
+  });
+  const e2ee = createE2eeService({
+    activeKeyId: newKeyId,
+    getKey: (keyId) => keys.get(keyId) ?? null,
+  });
+
+  const notes: Row[] = [];
+  for (let i = 1; i <= noteCount; i++) {
+    const date = `${String(i).padStart(2, "0")}-01-2026`;
+    const encrypted = await writer.encryptNoteContent({
+      content: `<p>Day ${i}</p>`,
+      weather: null,
+    });
+    notes.push({
+      id: `note-${String(i).padStart(2, "0")}`,
+      user_id: USER_ID,
+      date,
+      key_id: encrypted!.keyId,
+      ciphertext: encrypted!.ciphertext,
+      nonce: encrypted!.nonce,
+      updated_at: "2026-01-01T00:00:00.000Z",
+    });
+  }
+
+  const image = await writer.encryptImageBlob(
+    new Blob(["pixels"], { type: "image/png" }),
+  );
+  const images: Row[] = [
+    {
+      user_id: USER_ID,
+      id: "img-1",
+      note_date: "01-01-2026",
+      mime_type: "image/png",
+      key_id: oldKeyId,
+      nonce: image!.record.nonce,
+      sha256: image!.sha256,
+    },
+  ];
+  const tables = { notes, note_images: images };
+  const { supabase, blobs } = createFakeSupabase(tables);
+  blobs.set(
+    `${USER_ID}/01-01-2026/img-1.enc`,
+    new Blob([JSON.stringify(image!.record)]),
+  );
+
+  return { supabase, blobs, tables, e2ee, oldKeyId, newKeyId };
+}
+
+describe("isKeyRotationDue", () => {
+  it("is due once the primary key is older than the interval", () => {
+    const now = new Date("2026-10-19T00:00:00.000Z");
+    const entry = (createdAt: string) => ({
+      ...keyringEntry("k1", true),
+      createdAt,
+    });
+
+    expect(isKeyRotationDue([entry("2026-01-01T00:00:00.000Z")], now)).toBe(true);
+    expect(isKeyRotationDue([entry("2026-09-01T00:00:00.000Z")], now)).toBe(false);
+    expect(isKeyRotationDue([keyringEntry("k1", true)], now)).toBe(false);
+  });
+});
+
+describe("key rotation", () => {
+  vi.setConfig({ testTimeout: 30000 });
+
+  beforeEach(() => {
+    localStorage.clear();
+    mockFetchUserKeyring.mockReset();
+    mockSaveUserKeyringEntry.mockReset();
+    mockDeleteUserKeyringEntry.mockReset();
+    mockFetchRecoveryKeyring.mockReset().mockResolvedValue([]);
+    mockFetchJournalKeyIds.mockReset().mockResolvedValue({
+      noteKeys: [],
+      nameKeys: [],
+    });
+  });
+
+  it("creates a new primary key and demotes the old one", async () => {
+    const { supabase } = await setup(0);
+    mockFetchUserKeyring.mockResolvedValue([keyringEntry("old", true)]);
+
+    const { keyId, state } = await startKeyRotation({
+      supabase,
+      userId: USER_ID,
+      password: "pw",
+    });
+
+    const saved = mockSaveUserKeyringEntry.mock.calls.map(([, , entry]) => [
+      entry.keyId,
+      entry.isPrimary,
+    ]);
+    expect(saved).toEqual([
+      [keyId, true],
+      ["old", false],
+    ]);
+    expect(loadKeyRotationState(USER_ID)).toEqual(state);
+  });
+
+  it("moves notes and images in batches, then retires the old key", async () => {
+    const { supabase, tables, blobs, e2ee, oldKeyId, newKeyId } = await setup(5);
+    mockFetchUserKeyring.mockResolvedValue([
+      keyringEntry(oldKeyId, false),
+      keyringEntry(newKeyId, true),
+    ]);
+    const progress: string[] = [];
+
+    const result = await continueKeyRotation({
+      supabase,
+      userId: USER_ID,
+      e2ee,
+      state: {
+        userId: USER_ID,
+        targetKeyId: newKeyId,
+        phase: "notes",
+        cursor: null,
+        startedAt: "2026-01-01T00:00:00.000Z",
+      },
+      batchSize: 2,
+      onProgress: ({ phase, done, total }) =>
+        progress.push(`${phase} ${done}/${total}`),
+    });
+
+    expect(result).toMatchObject({
+      moved: { notes: 5, images: 1 },
+      skipped: [],
+      retired: [oldKeyId],
+      complete: true,
+    });
+    expect(progress).toEqual([
+      "notes 0/5",
+      "notes 2/5",
+      "notes 4/5",
+      "notes 5/5",
+      "images 0/1",
+      "images 1/1",
+      "retire 0/0",
+    ]);
+    expect(tables.notes.every((row) => row.key_id === newKeyId)).toBe(true);
+    expect(tables.notes[0].updated_at).toBe("2026-01-01T00:00:00.000Z");
+    expect(mockDeleteUserKeyringEntry).toHaveBeenCalledWith(
+      supabase,
+      USER_ID,
+      oldKeyId,
+    );
+    expect(loadKeyRotationState(USER_ID)).toBeNull();
+
+    const note = tables.notes[2];
+    expect(
+      await e2ee.decryptNoteRecord({
+        keyId: note.key_id as string,
+        ciphertext: note.ciphertext as string,
+        nonce: note.nonce as string,
+      }),
+    ).toEqual({ content: "<p>Day 3</p>", weather: null });
+
+    const record = JSON.parse(
+      await blobs.get(`${USER_ID}/01-01-2026/img-1.enc`)!.text(),
+    );
+    expect(record.keyId).toBe(newKeyId);
+    const image = await e2ee.decryptImageRecord(record, "image/png");
+    expect(await image!.text()).toBe("pixels");
+  });
+
+  it("resumes from the saved cursor", async () => {
+    const { supabase, tables, e2ee, oldKeyId, newKeyId } = await setup(4);
+    mockFetchUserKeyring.mockResolvedValue([
+      keyringEntry(oldKeyId, false),
+      keyringEntry(newKeyId, true),
+    ]);
+    const state = {
+      userId: USER_ID,
+      targetKeyId: newKeyId,
+      phase: "notes" as const,
+      cursor: "note-02",
+      startedAt: "2026-01-01T00:00:00.000Z",
+    };
+    saveKeyRotationState(state);
+
+    const result = await continueKeyRotation({
+      supabase,
+      userId: USER_ID,
+      e2ee,
+      state,
+    });
+
+    // The first two notes were before the cursor, so the old key stays
+    expect(result?.moved.notes).toBe(2);
+    expect(tables.notes.map((row) => row.key_id === newKeyId)).toEqual([
+      false,
+      false,
+      true,
+      true,
+    ]);
+    expect(result?.kept).toEqual([oldKeyId]);
+    expect(result?.complete).toBe(false);
+    expect(loadKeyRotationState(USER_ID)).toMatchObject({
+      phase: "notes",
+      cursor: null,
+    });
+  });
+
+  it("moves an image whose blob was re-encrypted before its row update failed", async () => {
+    const { supabase, tables, blobs, e2ee, oldKeyId, newKeyId } = await setup(0);
+    mockFetchUserKeyring.mockResolvedValue([
+      keyringEntry(oldKeyId, false),
+      keyringEntry(newKeyId, true),
+    ]);
+    const path = `${USER_ID}/01-01-2026/img-1.enc`;
+    const moved = await e2ee.encryptImageBlob(
+      new Blob(["pixels"], { type: "image/png" }),
+      newKeyId,
+    );
+    blobs.set(path, new Blob([JSON.stringify(moved!.record)]));
+
+    const result = await continueKeyRotation({
+      supabase,
+      userId: USER_ID,
+      e2ee,
+      state: {
+        userId: USER_ID,
+        targetKeyId: newKeyId,
+        phase: "images",
+        cursor: null,
+        startedAt: "2026-01-01T00:00:00.000Z",
+      },
+    });
+
+    expect(result?.moved.images).toBe(1);
+    expect(tables.note_images[0].key_id).toBe(newKeyId);
+    const record = JSON.parse(await blobs.get(path)!.text());
+    const image = await e2ee.decryptImageRecord(record, "image/png");
+    expect(await image!.text()).toBe("pixels");
+  });
+
+  it("keeps older keys until the grace period is over", async () => {
+    const { supabase, tables, e2ee, oldKeyId, newKeyId } = await setup(1);
+    mockFetchUserKeyring.mockResolvedValue([
+      keyringEntry(oldKeyId, false),
+      keyringEntry(newKeyId, true),
+    ]);
+    const state = {
+      userId: USER_ID,
+      targetKeyId: newKeyId,
+      phase: "notes" as const,
+      cursor: null,
+      startedAt: "2026-10-19T00:00:00.000Z",
+    };
+
+    const early = await continueKeyRotation({
+      supabase,
+      userId: USER_ID,
+      e2ee,
+      state,
+      now: new Date("2026-10-20T00:00:00.000Z"),
+    });
+
+    expect(early).toMatchObject({
+      moved: { notes: 1, images: 1 },
+      retired: [],
+      retireAfter: "2026-10-26T00:00:00.000Z",
+      complete: false,
+    });
+    expect(mockDeleteUserKeyringEntry).not.toHaveBeenCalled();
+    const pending = loadKeyRotationState(USER_ID)!;
+    expect(pending.phase).toBe("retire");
+
+    // Another session still on the old key wrote a note meanwhile
+    tables.notes[0].key_id = oldKeyId;
+    const later = await continueKeyRotation({
+      supabase,
+      userId: USER_ID,
+      e2ee,
+      state: pending,
+      now: new Date("2026-10-27T00:00:00.000Z"),
+    });
+
+    expect(later).toMatchObject({ kept: [oldKeyId], complete: false });
+    expect(mockDeleteUserKeyringEntry).not.toHaveBeenCalled();
+  });
+
+  it("reports the recovery phrase as outdated after retiring its keys", async () => {
+    const { supabase, e2ee, oldKeyId, newKeyId } = await setup(1);
+    mockFetchUserKeyring.mockResolvedValue([
+      keyringEntry(oldKeyId, false),
+      keyringEntry(newKeyId, true),
+    ]);
+    mockFetchRecoveryKeyring.mockResolvedValue([keyringEntry(oldKeyId, false)]);
+
+    const result = await continueKeyRotation({
+      supabase,
+      userId: USER_ID,
+      e2ee,
+      state: {
+        userId: USER_ID,
+        targetKeyId: newKeyId,
+        phase: "notes",
+        cursor: null,
+        startedAt: "2026-01-01T00:00:00.000Z",
+      },
+    });
+
+    expect(result?.recoveryPhraseOutdated).toBe(true);
+  });
+
+  it("leaves notes of a journal with its own key alone", async () => {
+    const { supabase, tables, e2ee, oldKeyId, newKeyId } = await setup(3);
+    mockFetchUserKeyring.mockResolvedValue([
+      keyringEntry(oldKeyId, false),
+      keyringEntry(newKeyId, true),
+    ]);
+    mockFetchJournalKeyIds.mockResolvedValue({
+      noteKeys: [oldKeyId],
+      nameKeys: [newKeyId],
+    });
+
+    const result = await continueKeyRotation({
+      supabase,
+      userId: USER_ID,
+      e2ee,
+      state: {
+        userId: USER_ID,
+        targetKeyId: newKeyId,
+        phase: "notes",
+        cursor: null,
+        startedAt: "2026-01-01T00:00:00.000Z",
+      },
+    });
+
+    expect(result?.moved).toEqual({ notes: 0, images: 0 });
+    expect(result?.retired).toEqual([]);
+    expect(tables.notes.every((row) => row.key_id === oldKeyId)).toBe(true);
+    expect(mockDeleteUserKeyringEntry).not.toHaveBeenCalled();
+  });
+
+  it("discards a rotation whose new key never reached the server", async () => {
+    const { supabase, e2ee, oldKeyId } = await setup(1);
+    mockFetchUserKeyring.mockResolvedValue([keyringEntry(oldKeyId, true)]);
+    const state = {
+      userId: USER_ID,
+      targetKeyId: "missing",
+      phase: "notes" as const,
+      cursor: null,
+      startedAt: "2026-01-01T00:00:00.000Z",
+    };
+    saveKeyRotationState(state);
+
+    expect(
+      await continueKeyRotation({ supabase, userId: USER_ID, e2ee, state }),
+    ).toBeNull();
+    expect(loadKeyRotationState(USER_ID)).toBeNull();
+  });
+});
+
+describe("keyring management", () => {
+  vi.setConfig({ testTimeout: 30000 });
+
+  beforeEach(() => {
+    localStorage.clear();
+    mockFetchUserKeyring.mockReset();
+    mockSaveUserKeyringEntry.mockReset();
+    mockDeleteUserKeyringEntry.mockReset();
+    mockFetchJournalKeyIds.mockReset().mockResolvedValue({
+      noteKeys: [],
+      nameKeys: [],
+    });
+  });
+
+  it("lists keys with their note and image counts, primary first", async () => {
+    const { supabase, oldKeyId, newKeyId } = await setup(3);
+    mockFetchUserKeyring.mockResolvedValue([
+      { ...keyringEntry(oldKeyId, false), createdAt: "2026-01-01T00:00:00Z" },
+      { ...keyringEntry(newKeyId, true), createdAt: "2026-06-01T00:00:00Z" },
+    ]);
+
+    expect(await listKeyUsage({ supabase, userId: USER_ID })).toEqual([
+      {
+        keyId: newKeyId,
+        createdAt: "2026-06-01T00:00:00Z",
+        isPrimary: true,
+        notes: 0,
+        images: 0,
+      },
+      {
+        keyId: oldKeyId,
+        createdAt: "2026-01-01T00:00:00Z",
+        isPrimary: false,
+        notes: 3,
+        images: 1,
+      },
+    ]);
+  });
+
+  it("promotes a key and queues moving records onto it", async () => {
+    const { supabase, oldKeyId, newKeyId } = await setup(0);
+    mockFetchUserKeyring.mockResolvedValue([
+      keyringEntry(oldKeyId, false),
+      keyringEntry(newKeyId, true),
+    ]);
+
+    const state = await promoteKey({ supabase, userId: USER_ID, keyId: oldKeyId });
+
+    const saved = mockSaveUserKeyringEntry.mock.calls.map(([, , entry]) => [
+      entry.keyId,
+      entry.isPrimary,
+    ]);
+    expect(saved).toEqual([
+      [oldKeyId, true],
+      [newKeyId, false],
+    ]);
+    expect(state).toMatchObject({ targetKeyId: oldKeyId, phase: "notes" });
+    expect(loadKeyRotationState(USER_ID)).toEqual(state);
+  });
+
+  it("refuses to delete the primary key or a key records still use", async () => {
+    const { supabase, oldKeyId, newKeyId } = await setup(2);
+    mockFetchUserKeyring.mockResolvedValue([
+      keyringEntry(oldKeyId, false),
+      keyringEntry(newKeyId, true),
+    ]);
+
+    await expect(
+      deleteUnusedKey({ supabase, userId: USER_ID, keyId: newKeyId }),
+    ).rejects.toThrow("primary key");
+    await expect(
+      deleteUnusedKey({ supabase, userId: USER_ID, keyId: oldKeyId }),
+    ).rejects.toThrow("2 notes and 1 image still use this key");
+    expect(mockDeleteUserKeyringEntry).not.toHaveBeenCalled();
+  });
+
+  it("refuses to delete a key a journal depends on", async () => {
+    const { supabase } = await setup(0);
+    mockFetchUserKeyring.mockResolvedValue([
+      keyringEntry("primary", true),
+      keyringEntry("journal", false),
+      keyringEntry("name", false),
+    ]);
+    mockFetchJournalKeyIds.mockResolvedValue({
+      noteKeys: ["journal"],
+      nameKeys: ["name"],
+    });
+
+    await expect(
+      deleteUnusedKey({ supabase, userId: USER_ID, keyId: "journal" }),
+    ).rejects.toThrow("A journal uses this key");
+    await expect(
+      deleteUnusedKey({ supabase, userId: USER_ID, keyId: "name" }),
+    ).rejects.toThrow("journal name");
+    expect(mockDeleteUserKeyringEntry).not.toHaveBeenCalled();
+  });
+
+  it("creates a journal key without touching the primary", async () => {
+    const { supabase } = await setup(0);
+
+    const { keyId } = await createJournalKey({
+      supabase,
+      userId: USER_ID,
+      password: "pw",
+    });
+
+    expect(mockSaveUserKeyringEntry).toHaveBeenCalledTimes(1);
+    expect(mockSaveUserKeyringEntry.mock.calls[0][2]).toMatchObject({
+      keyId,
+      isPrimary: false,
+    });
+  });
+
+  it("refuses to delete the target of a pending rotation", async () => {
+    const { supabase, newKeyId } = await setup(0);
+    mockFetchUserKeyring.mockResolvedValue([
+      keyringEntry("other", true),
+      keyringEntry(newKeyId, false),
+    ]);
+    saveKeyRotationState({
+      userId: USER_ID,
+      targetKeyId: newKeyId,
+      phase: "notes",
+      cursor: null,
+      startedAt: "2026-01-01T00:00:00.000Z",
+    });
+
+    await expect(
+      deleteUnusedKey({ supabase, userId: USER_ID, keyId: newKeyId }),
+    ).rejects.toThrow("being moved");
+  });
+
+  it("deletes an unused key", async () => {
+    const { supabase, newKeyId } = await setup(0);
+    mockFetchUserKeyring.mockResolvedValue([
+      keyringEntry("other", true),
+      keyringEntry(newKeyId, false),
+    ]);
+
+    await deleteUnusedKey({ supabase, userId: USER_ID, keyId: newKeyId });
+
+    expect(mockDeleteUserKeyringEntry).toHaveBeenCalledWith(
+      supabase,
+      USER_ID,
+      newKeyId,
+    );
+  });
+});
@@ -0,0 +1,87 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from "vitest";
+import { mergeBlocks, mergeNoteContent, splitBlocks } from "../utils/noteMerge";
+
+const entry = (timestamp: string, html: string) =>
+  `<hr data-timestamp="${timestamp}" data-label="x" contenteditable="false">${html}`;
+
+describe("splitBlocks", () => {
+  it("splits top-level elements and keeps loose text", () => {
+    expect(splitBlocks("<div>a</div>b &lt;c&gt;<div><b>d</b></div>\n")).toEqual([
+      "<div>a</div>",
+      "b &lt;c&gt;",
+      "<div><b>d</b></div>",
+    ]);
+  });
+});
+
+describe("mergeBlocks", () => {
+  const base = ["A", "B", "C", "D"];
+
+  it("takes each side's edits to different paragraphs", () => {
+    expect(mergeBlocks(base, ["A", "B2", "C", "D"], ["A", "B", "C", "D", "E"])).toEqual([
+      "A", "B2", "C", "D", "E",
+    ]);
+  });
+
+  it("applies deletions made on one side", () => {
+    expect(mergeBlocks(base, ["A", "C", "D"], ["A", "B", "C", "D2"])).toEqual([
+      "A", "C", "D2",
+    ]);
+  });
+
+  it("keeps both versions when the same paragraph changed on both sides", () => {
+    expect(mergeBlocks(base, ["A", "B-local", "C", "D"], ["A", "B-remote", "C", "D"])).toEqual([
+      "A", "B-remote", "B-local", "C", "D",
+    ]);
+  });
+
+  it("doesn't duplicate identical edits", () => {
+    expect(mergeBlocks(base, ["A", "X", "D"], ["A", "X", "D"])).toEqual(["A", "X", "D"]);
+  });
+});
+
+describe("mergeNoteContent", () => {
+  it("returns the changed side when only one side changed", () => {
+    expect(mergeNoteContent("<div>a</div>", "<div>a</div>", "<div>b</div>")).toBe("<div>b</div>");
+    expect(mergeNoteContent("<div>a</div>", "<div>b</div>", "<div>a</div>")).toBe("<div>b</div>");
+  });
+
+  it("keeps entries added on both devices in time order", () => {
+    const base = entry("2024-03-01T08:00:00.000Z", "<div>morning</div>");
+    const local = base + entry("2024-03-01T12:00:00.000Z", "<div>lunch</div>");
+    const remote = base + entry("2024-03-01T10:00:00.000Z", "<div>coffee</div>");
+
+    expect(mergeNoteContent(base, local, remote)).toBe(
+      base +
+        entry("2024-03-01T10:00:00.000Z", "<div>coffee</div>") +
+        entry("2024-03-01T12:00:00.000Z", "<div>lunch</div>"),
+    );
+  });
+
+  it("merges paragraphs inside a shared entry", () => {
+    const base = "<div>intro</div>" + entry("t1", "<div>one</div><div>two</div>");
+    const local = "<div>intro</div>" + entry("t1", "<div>one!</div><div>two</div>");
+    const remote = "<div>intro, edited</div>" + entry("t1", "<div>one</div><div>two</div><div>three</div>");
+
+    expect(mergeNoteContent(base, local, remote)).toBe(
+      "<div>intro, edited</div>" + entry("t1", "<div>one!</div><div>two</div><div>three</div>"),
+    );
+  });
+
+  it("drops entries deleted on one side unless the other side edited them", () => {
+    const base = entry("t1", "<div>one</div>") + entry("t2", "<div>two</div>");
+    expect(mergeNoteContent(base, entry("t2", "<div>two</div>"), base + entry("t3", "<div>three</div>"))).toBe(
+      entry("t2", "<div>two</div>") + entry("t3", "<div>three</div>"),
+    );
+    expect(mergeNoteContent(base, entry("t2", "<div>two</div>"), entry("t1", "<div>one more</div>") + entry("t2", "<div>two</div>"))).toBe(
+      entry("t1", "<div>one more</div>") + entry("t2", "<div>two</div>"),
+    );
+  });
+
+  it("combines notes created independently on two devices", () => {
+    expect(mergeNoteContent(null, "<div>from phone</div>", "<div>from laptop</div>")).toBe(
+      "<div>from laptop</div><div>from phone</div>",
+    );
+  });
+});
@@ -0,0 +1,168 @@
+// @vitest-environment jsdom
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { BehaviorSubject } from "rxjs";
+import { useOpenTasks } from "../hooks/useOpenTasks";
+import { ok } from "../domain/result";
+import {
+  collectOpenTasks,
+  findClickedTask,
+  previousDates,
+  toggleTask,
+} from "../utils/noteTasks";
+import { createMockNoteRepository } from "./helpers/mocks";
+import type { Note } from "../types";
+import type { AppDatabase } from "../storage/rxdb/database";
+
+function makeNote(date: string, content: string): Note {
+  return { date, content, updatedAt: new Date().toISOString() };
+}
+
+describe("noteTasks", () => {
+  it("lists the days before today, newest first", () => {
+    expect(previousDates("02-03-2026", 3)).toEqual([
+      "01-03-2026",
+      "28-02-2026",
+      "27-02-2026",
+    ]);
+  });
+
+  it("collects open tasks once, skipping done ones and today's", () => {
+    const tasks = collectOpenTasks(
+      [
+        {
+          date: "18-10-2026",
+          content:
+            '<ul><li data-task="open">Call <b>mom</b><br></li><li data-task="done">Pay rent</li><li data-task="open">Buy milk</li></ul>',
+        },
+        {
+          date: "17-10-2026",
+          content:
+            '<ul><li data-task="open">call  mom</li><li data-task="open"><br></li></ul>',
+        },
+      ],
+      '<ul><li data-task="done">Buy milk</li></ul>',
+    );
+
+    expect(tasks).toEqual([
+      { date: "18-10-2026", html: "Call <b>mom</b>", text: "Call mom" },
+    ]);
+  });
+
+  it("toggles a task only when its checkbox gutter is clicked", () => {
+    const list = document.createElement("ul");
+    list.innerHTML = '<li data-task="open"><b>Read</b></li>';
+    const item = list.querySelector("li")!;
+    item.getBoundingClientRect = () => ({ left: 40 }) as DOMRect;
+
+    expect(findClickedTask(item.firstChild, 60)).toBeNull();
+    expect(findClickedTask(item, 30)).toBe(item);
+
+    expect(toggleTask(item)).toBe("done");
+    expect(toggleTask(item)).toBe("open");
+  });
+});
+
+describe("useOpenTasks", () => {
+  it("carries open tasks over to today as a new entry", async () => {
+    const repo = createMockNoteRepository({
+      get: vi
+        .fn()
+        .mockImplementation((date: string) =>
+          Promise.resolve(
+            ok(
+              makeNote(date, `<ul><li data-task="open">Task ${date}</li></ul>`),
+            ),
+          ),
+        ),
+    });
+    const setContent = vi.fn();
+    const noteDates = new Set(["18-10-2026", "01-10-2026"]);
+
+    const { result } = renderHook(() =>
+      useOpenTasks({
+        repository: repo,
+        database: null,
+        noteDates,
+        today: "19-10-2026",
+        days: 7,
+        content: "<div>Today</div>",
+        setContent,
+      }),
+    );
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    // 01-10 is outside the last 7 days
+    expect(result.current.tasks.map((task) => task.date)).toEqual([
+      "18-10-2026",
+    ]);
+
+    act(() => result.current.carryOver());
+
+    const saved = setContent.mock.calls[0][0] as string;
+    expect(saved.startsWith("<div>Today</div><hr data-timestamp=")).toBe(true);
+    expect(
+      saved.endsWith('<ul><li data-task="open">Task 18-10-2026</li></ul>'),
+    ).toBe(true);
+  });
+
+  it("stops loading with no tasks when reading the notes throws", async () => {
+    const repo = createMockNoteRepository({
+      get: vi.fn().mockRejectedValue(new Error("locked")),
+    });
+
+    const { result } = renderHook(() =>
+      useOpenTasks({
+        repository: repo,
+        database: null,
+        noteDates: new Set(["18-10-2026"]),
+        today: "19-10-2026",
+        days: 7,
+        content: "",
+        setContent: vi.fn(),
+      }),
+    );
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.tasks).toEqual([]);
+  });
+
+  it("drops a task once it is ticked in its own note", async () => {
+    let content = '<ul><li data-task="open">Call mom</li></ul>';
+    const repo = createMockNoteRepository({
+      get: vi
+        .fn()
+        .mockImplementation((date: string) =>
+          Promise.resolve(ok(makeNote(date, content))),
+        ),
+    });
+    const docs$ = new BehaviorSubject([
+      { date: "18-10-2026", updatedAt: "2026-10-18T08:00:00.000Z" },
+    ]);
+    const database = {
+      notes: { find: () => ({ $: docs$ }) },
+    } as unknown as AppDatabase;
+
+    const { result } = renderHook(() =>
+      useOpenTasks({
+        repository: repo,
+        database,
+        noteDates: new Set(["18-10-2026"]),
+        today: "19-10-2026",
+        days: 7,
+        content: "",
+        setContent: vi.fn(),
+      }),
+    );
+
+    await waitFor(() => expect(result.current.tasks).toHaveLength(1));
+
+    content = '<ul><li data-task="done">Call mom</li></ul>';
+    act(() =>
+      docs$.next([
+        { date: "18-10-2026", updatedAt: "2026-10-19T09:00:00.000Z" },
+      ]),
+    );
+
+    await waitFor(() => expect(result.current.tasks).toEqual([]));
+  });
+});
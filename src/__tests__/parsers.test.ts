@@ -10,6 +10,7 @@ import {
   parseNoteMetaRecord,
   parseDecryptedNotePayload,
   parseStringArray,
+  parseJournalStore,
 } from "../storage/parsers";
 
 describe("parseVaultMeta", () => {
@@ -44,6 +45,74 @@ describe("parseVaultMeta", () => {
     ).toBeNull();
   });
 
+  it("accepts an Argon2id descriptor", () => {
+    const argon = {
+      ...valid,
+      kdf: {
+        salt: "abc",
+        iterations: 2,
+        algorithm: "argon2id",
+        memoryKiB: 19456,
+        parallelism: 1,
+      },
+    };
+    expect(parseVaultMeta(argon)).toEqual(argon);
+  });
+
+  it("clamps Argon2id parameters", () => {
+    const meta = parseVaultMeta({
+      ...valid,
+      kdf: {
+        salt: "abc",
+        iterations: 1e6,
+        algorithm: "argon2id",
+        memoryKiB: 1e9,
+        parallelism: 1,
+      },
+    });
+    expect(meta?.kdf).toEqual({
+      salt: "abc",
+      iterations: 16,
+      algorithm: "argon2id",
+      memoryKiB: 262144,
+      parallelism: 1,
+    });
+  });
+
+  it("rejects an unknown kdf.algorithm", () => {
+    expect(
+      parseVaultMeta({
+        ...valid,
+        kdf: { salt: "abc", iterations: 3, algorithm: "scrypt" },
+      }),
+    ).toBeNull();
+  });
+
+  it("accepts passkey wrappings", () => {
+    const withPasskey = {
+      ...valid,
+      wrapped: {
+        ...valid.wrapped,
+        passkeys: [
+          { credentialId: "cred", prfSalt: "salt", iv: "iv3", data: "data3" },
+        ],
+      },
+    };
+    expect(parseVaultMeta(withPasskey)).toEqual(withPasskey);
+  });
+
+  it("rejects a passkey wrapping without its PRF salt", () => {
+    expect(
+      parseVaultMeta({
+        ...valid,
+        wrapped: {
+          ...valid.wrapped,
+          passkeys: [{ credentialId: "cred", iv: "iv3", data: "data3" }],
+        },
+      }),
+    ).toBeNull();
+  });
+
   it("rejects missing wrapped.password", () => {
     expect(parseVaultMeta({ ...valid, wrapped: {} })).toBeNull();
   });
@@ -217,3 +286,28 @@ describe("parseStringArray", () => {
     expect(parseStringArray("string")).toBeNull();
   });
 });
+
+describe("parseJournalStore", () => {
+  const journal = {
+    id: "a1b2c3d4e5f60718",
+    name: "Work log",
+    noteKeyId: null,
+    createdAt: "2026-10-19T00:00:00.000Z",
+  };
+
+  it("accepts journals per owner", () => {
+    expect(parseJournalStore({ local: [journal] })).toEqual({
+      local: [journal],
+    });
+  });
+
+  it("drops malformed journals", () => {
+    expect(parseJournalStore({ local: [journal, { id: 1 }] })).toEqual({
+      local: [journal],
+    });
+  });
+
+  it("rejects a non-array owner entry", () => {
+    expect(parseJournalStore({ local: journal })).toBeNull();
+  });
+});
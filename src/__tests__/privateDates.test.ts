@@ -0,0 +1,208 @@
+// @vitest-environment jsdom
+import { migrateNoteDates, setPrivateDates } from "../services/privateDates";
+import { createE2eeService } from "../services/e2eeService";
+import { isDateTag } from "../storage/dateIndex";
+import {
+  createImageCryptoAdapter,
+  decryptImageMeta,
+} from "../storage/rxdb/replication";
+import { saveDateIndexKeyId } from "../storage/userSettings";
+import { generateDEK } from "../storage/vault";
+import { computeKeyId } from "../storage/keyId";
+import { createFakeSupabase } from "./helpers/mocks";
+
+vi.mock("../storage/userSettings", () => ({
+  saveDateIndexKeyId: vi.fn().mockResolvedValue(undefined),
+}));
+
+const USER_ID = "user-1";
+
+type Row = Record<string, unknown>;
+
+async function setup() {
+  const dek = await generateDEK();
+  const keyId = await computeKeyId(dek);
+  const getKey = (id: string) => (id === keyId ? dek : null);
+  const e2ee = createE2eeService({ activeKeyId: keyId, getKey });
+
+  const notes: Row[] = [];
+  for (const [index, date] of ["01-01-2026", "02-01-2026", "03-01-2026"].entries()) {
+    // Written before the date moved into the payload
+    const encrypted = await e2ee.encryptNoteContent({
+      content: `<p>${date}</p>`,
+      weather: null,
+    });
+    notes.push({
+      id: `note-${index}`,
+      user_id: USER_ID,
+      journal_id: "default",
+      date,
+      key_id: encrypted!.keyId,
+      ciphertext: encrypted!.ciphertext,
+      nonce: encrypted!.nonce,
+      updated_at: "2026-01-05T00:00:00.000Z",
+    });
+  }
+
+  const image = await e2ee.encryptImageBlob(
+    new Blob(["pixels"], { type: "image/png" }),
+  );
+  const images: Row[] = [
+    {
+      user_id: USER_ID,
+      id: "img-1",
+      note_date: "01-01-2026",
+      key_id: keyId,
+      nonce: image!.record.nonce,
+      meta: null,
+    },
+  ];
+  const tables = { notes, note_images: images };
+  const { supabase, blobs } = createFakeSupabase(tables);
+  blobs.set(
+    `${USER_ID}/01-01-2026/img-1.enc`,
+    new Blob([JSON.stringify(image!.record)]),
+  );
+
+  return { supabase, blobs, tables, e2ee, keyId, getKey };
+}
+
+describe("private note dates", () => {
+  vi.setConfig({ testTimeout: 30000 });
+
+  it("moves notes and images to tagged dates, then back", async () => {
+    const { supabase, blobs, tables, e2ee, keyId, getKey } = await setup();
+    const options = { supabase, userId: USER_ID, e2ee, getKey, batchSize: 2 };
+
+    const hidden = await migrateNoteDates({ ...options, indexKeyId: keyId });
+
+    expect(hidden).toEqual({ moved: { notes: 3, images: 1 }, skipped: [] });
+    for (const row of tables.notes) {
+      expect(isDateTag(row.date as string)).toBe(true);
+      const payload = await e2ee.decryptNoteRecord({
+        keyId: row.key_id as string,
+        ciphertext: row.ciphertext as string,
+        nonce: row.nonce as string,
+      });
+      expect(payload?.content).toBe(`<p>${payload?.date}</p>`);
+    }
+    const [image] = tables.note_images;
+    expect(isDateTag(image.note_date as string)).toBe(true);
+    expect(
+      await decryptImageMeta(createImageCryptoAdapter(e2ee), image.meta as string),
+    ).toBe("01-01-2026");
+    expect([...blobs.keys()]).toEqual([
+      `${USER_ID}/${image.note_date}/img-1.enc`,
+    ]);
+
+    const shown = await migrateNoteDates({ ...options, indexKeyId: null });
+
+    expect(shown).toEqual({ moved: { notes: 3, images: 1 }, skipped: [] });
+    expect(tables.notes.map((row) => row.date).sort()).toEqual([
+      "01-01-2026",
+      "02-01-2026",
+      "03-01-2026",
+    ]);
+    expect(tables.note_images[0]).toMatchObject({
+      note_date: "01-01-2026",
+      meta: null,
+    });
+    expect([...blobs.keys()]).toEqual([`${USER_ID}/01-01-2026/img-1.enc`]);
+  });
+
+  it("keeps the newer row when another device already wrote the tag", async () => {
+    const { supabase, tables, e2ee, keyId, getKey } = await setup();
+    const options = { supabase, userId: USER_ID, e2ee, getKey };
+    await migrateNoteDates({ ...options, indexKeyId: keyId });
+    const tagged = tables.notes.map((row) => ({ ...row }));
+    await migrateNoteDates({ ...options, indexKeyId: null });
+
+    // A device that missed the change wrote a newer tagged row meanwhile
+    const newer = await e2ee.encryptNoteContent({
+      content: "<p>Newer</p>",
+      weather: null,
+      date: "01-01-2026",
+    });
+    tables.notes.push({
+      id: "note-newer",
+      user_id: USER_ID,
+      journal_id: "default",
+      date: tagged[0].date,
+      key_id: newer!.keyId,
+      ciphertext: newer!.ciphertext,
+      nonce: newer!.nonce,
+      updated_at: "2026-02-01T00:00:00.000Z",
+    });
+
+    const result = await migrateNoteDates({ ...options, indexKeyId: keyId });
+
+    expect(result.skipped).toEqual([]);
+    expect(tables.notes).toHaveLength(3);
+    const survivor = tables.notes.find((row) => row.date === tagged[0].date)!;
+    const payload = await e2ee.decryptNoteRecord({
+      keyId: survivor.key_id as string,
+      ciphertext: survivor.ciphertext as string,
+      nonce: survivor.nonce as string,
+    });
+    expect(payload?.content).toBe("<p>Newer</p>");
+  });
+
+  it("moves the same date in two journals independently", async () => {
+    const { supabase, tables, e2ee, keyId, getKey } = await setup();
+    const other = await e2ee.encryptNoteContent({
+      content: "<p>Travel</p>",
+      weather: null,
+      date: "01-01-2026",
+    });
+    tables.notes.push({
+      id: "note-travel",
+      user_id: USER_ID,
+      journal_id: "a1b2c3d4e5f60718",
+      date: "01-01-2026",
+      key_id: other!.keyId,
+      ciphertext: other!.ciphertext,
+      nonce: other!.nonce,
+      updated_at: "2026-01-06T00:00:00.000Z",
+    });
+
+    const result = await migrateNoteDates({
+      supabase,
+      userId: USER_ID,
+      e2ee,
+      getKey,
+      indexKeyId: keyId,
+    });
+
+    expect(result.moved.notes).toBe(4);
+    expect(tables.notes).toHaveLength(4);
+    const [first, travel] = ["note-0", "note-travel"].map(
+      (id) => tables.notes.find((row) => row.id === id)!,
+    );
+    expect(travel.date).toBe(first.date);
+    expect(travel.journal_id).toBe("a1b2c3d4e5f60718");
+  });
+
+  it("saves the setting before moving rows", async () => {
+    const { supabase, tables, e2ee, keyId, getKey } = await setup();
+
+    await setPrivateDates({
+      supabase,
+      userId: USER_ID,
+      e2ee,
+      getKey,
+      indexKeyId: keyId,
+    });
+
+    expect(saveDateIndexKeyId).toHaveBeenCalledWith(supabase, USER_ID, keyId);
+    expect(tables.notes.every((row) => isDateTag(row.date as string))).toBe(true);
+    await expect(
+      setPrivateDates({
+        supabase,
+        userId: USER_ID,
+        e2ee,
+        getKey: () => null,
+        indexKeyId: keyId,
+      }),
+    ).rejects.toThrow("Unlock your notes first.");
+  });
+});
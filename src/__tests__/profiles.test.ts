@@ -0,0 +1,114 @@
+// @vitest-environment jsdom
+import {
+  createProfileId,
+  DEFAULT_PROFILE_ID,
+  getActiveProfileId,
+  isValidProfileId,
+  loadActiveProfileId,
+  loadProfiles,
+  localDatabaseOwner,
+  profileStorageKey,
+  saveProfiles,
+  setActiveProfileId,
+} from "../storage/profiles";
+import { suspendDeviceUnlock } from "../storage/vaultLock";
+import { bindUserToAccount } from "../storage/accountStore";
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+// What a page load sees: modules that capture the profile start over
+async function reloadStorage() {
+  vi.resetModules();
+  return {
+    ...(await import("../storage/vaultLock")),
+    ...(await import("../storage/accountStore")),
+  };
+}
+
+function addProfile(name: string) {
+  const profile = {
+    id: createProfileId(),
+    name,
+    email: null,
+    createdAt: "2026-10-19T00:00:00.000Z",
+  };
+  saveProfiles([...loadProfiles(), profile]);
+  return profile;
+}
+
+describe("profiles", () => {
+  it("always lists the default profile first", () => {
+    expect(loadProfiles().map((profile) => profile.id)).toEqual([
+      DEFAULT_PROFILE_ID,
+    ]);
+
+    addProfile("Work");
+
+    expect(loadProfiles().map((profile) => profile.name)).toEqual([
+      "Personal",
+      "Work",
+    ]);
+  });
+
+  it("falls back to the default profile for an unknown id", () => {
+    setActiveProfileId(createProfileId());
+    expect(loadActiveProfileId()).toBe(DEFAULT_PROFILE_ID);
+
+    const work = addProfile("Work");
+    setActiveProfileId(work.id);
+    expect(loadActiveProfileId()).toBe(work.id);
+
+    setActiveProfileId(DEFAULT_PROFILE_ID);
+    expect(loadActiveProfileId()).toBe(DEFAULT_PROFILE_ID);
+  });
+
+  it("keeps the profile the page loaded with", () => {
+    const work = addProfile("Work");
+    setActiveProfileId(work.id);
+
+    expect(getActiveProfileId()).toBe(DEFAULT_PROFILE_ID);
+    expect(profileStorageKey("dailynote_vault_meta_v1")).toBe(
+      "dailynote_vault_meta_v1",
+    );
+  });
+
+  it("keeps the original keys and database for the default profile", () => {
+    expect(profileStorageKey("dailynote_vault_meta_v1")).toBe(
+      "dailynote_vault_meta_v1",
+    );
+    expect(localDatabaseOwner()).toBe("local");
+
+    const work = addProfile("Work");
+
+    expect(profileStorageKey("dailynote_vault_meta_v1", work.id)).toBe(
+      `dailynote_vault_meta_v1:${work.id}`,
+    );
+    expect(localDatabaseOwner(work.id)).toBe(`local-${work.id}`);
+  });
+
+  it("separates vault state and accounts between profiles", async () => {
+    bindUserToAccount("user-1", "1");
+    suspendDeviceUnlock();
+
+    const work = addProfile("Work");
+    setActiveProfileId(work.id);
+    const inWork = await reloadStorage();
+
+    expect(inWork.isDeviceUnlockSuspended()).toBe(false);
+    expect(inWork.getAccountIdForUser("user-1")).toBeNull();
+
+    setActiveProfileId(DEFAULT_PROFILE_ID);
+    const inDefault = await reloadStorage();
+
+    expect(inDefault.isDeviceUnlockSuspended()).toBe(true);
+    expect(inDefault.getAccountIdForUser("user-1")).toBe("1");
+  });
+
+  it("accepts generated ids only", () => {
+    expect(isValidProfileId(createProfileId())).toBe(true);
+    expect(isValidProfileId(DEFAULT_PROFILE_ID)).toBe(true);
+    expect(isValidProfileId("../keys")).toBe(false);
+  });
+});
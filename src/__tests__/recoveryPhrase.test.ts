@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import {
+  RECOVERY_PHRASE_WORDS,
+  generateRecoveryPhrase,
+  normalizeRecoveryPhrase,
+} from "../storage/recoveryPhrase";
+
+describe("recovery phrases", () => {
+  it("generates distinct phrases of the expected length", async () => {
+    const a = await generateRecoveryPhrase();
+    const b = await generateRecoveryPhrase();
+
+    expect(a.split(" ")).toHaveLength(RECOVERY_PHRASE_WORDS);
+    expect(a).not.toBe(b);
+  });
+
+  it("normalizes case, spacing, punctuation and word prefixes", async () => {
+    const phrase = await generateRecoveryPhrase();
+    const typed = phrase
+      .split(" ")
+      .map((word, i) => (i % 3 === 0 ? word.slice(0, 4).toUpperCase() : word))
+      .join(",\n ");
+
+    expect(await normalizeRecoveryPhrase(typed)).toBe(phrase);
+  });
+
+  it("rejects unknown words, missing words and bad checksums", async () => {
+    const words = (await generateRecoveryPhrase()).split(" ");
+
+    expect(await normalizeRecoveryPhrase(words.slice(1).join(" "))).toBeNull();
+    expect(
+      await normalizeRecoveryPhrase(["qwerty", ...words.slice(1)].join(" ")),
+    ).toBeNull();
+
+    // The last word is part of the checksum over the others
+    const last = words[words.length - 1] === "zebra" ? "acorn" : "zebra";
+    expect(
+      await normalizeRecoveryPhrase([...words.slice(0, -1), last].join(" ")),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { createAppDatabase, type AppDatabase } from "../../storage/rxdb/database";
+import { RxDBNoteRepository } from "../../storage/rxdb/noteRepository";
+import { RxDBImageRepository } from "../../storage/rxdb/imageRepository";
+import {
+  createBackup,
+  readBackup,
+  restoreBackup,
+} from "../../storage/backup";
+
+// Keep PBKDF2 cheap in tests
+const ITERATIONS = 1000;
+
+async function makeKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+describe("backup", () => {
+  const dbs: AppDatabase[] = [];
+
+  afterEach(async () => {
+    await Promise.all(dbs.map((db) => db.close()));
+    dbs.length = 0;
+  });
+
+  async function openDb(): Promise<AppDatabase> {
+    const db = await createAppDatabase(
+      `test-backup-${Date.now()}-${Math.random()}`,
+      { memory: true },
+    );
+    dbs.push(db);
+    return db;
+  }
+
+  async function seed(db: AppDatabase) {
+    const notes = new RxDBNoteRepository(db);
+    const images = new RxDBImageRepository(db);
+    const weather = {
+      icon: "☀️",
+      temperatureHigh: 20,
+      temperatureLow: 10,
+      unit: "C" as const,
+      city: "Lisbon",
+    };
+    await notes.save("01-02-2024", "<div>Kept</div>", weather);
+    await notes.save("02-02-2024", "<div>Deleted</div>");
+    await notes.delete("02-02-2024");
+    const uploaded = await images.upload(
+      "01-02-2024",
+      new Blob([new Uint8Array([1, 2, 3])], { type: "image/png" }),
+      "inline",
+      "dot.png",
+      { width: 1, height: 1 },
+    );
+    if (!uploaded.ok) throw new Error("upload failed");
+    return { imageId: uploaded.value.id, weather };
+  }
+
+  it("round-trips notes, soft deletes, images and keys", async () => {
+    const source = await openDb();
+    const { imageId, weather } = await seed(source);
+    const key = await makeKey();
+
+    const backup = await createBackup(source, new Map([["k1", key]]), "pass", {
+      iterations: ITERATIONS,
+    });
+    expect(backup.ok).toBe(true);
+    if (!backup.ok) return;
+
+    const read = await readBackup(backup.value, "pass");
+    expect(read.ok).toBe(true);
+    if (!read.ok) return;
+
+    const target = await openDb();
+    const restored = await restoreBackup(target, read.value);
+    expect(restored.ok).toBe(true);
+    if (!restored.ok) return;
+    expect(restored.value.notesAdded).toBe(2);
+    expect(restored.value.imagesAdded).toBe(1);
+
+    const kept = await target.notes.findOne("01-02-2024").exec();
+    expect(kept?.content).toBe("<div>Kept</div>");
+    expect(kept?.weather).toEqual(weather);
+    const deleted = await target.notes.findOne("02-02-2024").exec();
+    expect(deleted?.isDeleted).toBe(true);
+
+    const blob = await new RxDBImageRepository(target).get(imageId);
+    expect(blob.ok && blob.value).toBeTruthy();
+    if (blob.ok && blob.value) {
+      expect(Array.from(new Uint8Array(await blob.value.arrayBuffer()))).toEqual([
+        1, 2, 3,
+      ]);
+    }
+
+    const restoredKey = restored.value.keyring.get("k1");
+    expect(restoredKey).toBeDefined();
+    const original = new Uint8Array(await crypto.subtle.exportKey("raw", key));
+    const roundTripped = new Uint8Array(
+      await crypto.subtle.exportKey("raw", restoredKey!),
+    );
+    expect(roundTripped).toEqual(original);
+  });
+
+  it("rejects a wrong passphrase and non-backup files", async () => {
+    const source = await openDb();
+    await seed(source);
+    const backup = await createBackup(source, new Map(), "right", {
+      iterations: ITERATIONS,
+    });
+    if (!backup.ok) throw new Error("backup failed");
+
+    const wrong = await readBackup(backup.value, "wrong");
+    expect(wrong.ok).toBe(false);
+    if (!wrong.ok) expect(wrong.error.type).toBe("DecryptFailed");
+
+    const junk = await readBackup(new Blob(["hello\nworld"]), "right");
+    expect(junk.ok).toBe(false);
+    if (!junk.ok) expect(junk.error.type).toBe("Corrupt");
+  });
+
+  it("merges into an existing database by updatedAt", async () => {
+    const source = await openDb();
+    await seed(source);
+    const backup = await createBackup(source, new Map(), "pass", {
+      iterations: ITERATIONS,
+    });
+    if (!backup.ok) throw new Error("backup failed");
+    const read = await readBackup(backup.value, "pass");
+    if (!read.ok) throw new Error("read failed");
+
+    const target = await openDb();
+    const repo = new RxDBNoteRepository(target);
+    // Written after the backup, so it must win
+    await repo.save("01-02-2024", "<div>Newer local</div>");
+    // Older than the backup, so the backup wins
+    await target.notes.insert({
+      date: "02-02-2024",
+      content: "<div>Old local</div>",
+      updatedAt: "2000-01-01T00:00:00.000Z",
+      isDeleted: false,
+      weather: null,
+    });
+
+    const restored = await restoreBackup(target, read.value);
+    if (!restored.ok) throw new Error("restore failed");
+    expect(restored.value).toMatchObject({
+      notesAdded: 0,
+      notesUpdated: 1,
+      notesSkipped: 1,
+    });
+    expect((await target.notes.findOne("01-02-2024").exec())?.content).toBe(
+      "<div>Newer local</div>",
+    );
+    expect((await target.notes.findOne("02-02-2024").exec())?.isDeleted).toBe(
+      true,
+    );
+  });
+});
@@ -2,7 +2,10 @@ import { describe, it, expect } from "vitest";
 import {
   createImagePushModifier,
   createImagePullModifier,
+  createImagesPushHandler,
 } from "../../storage/rxdb/replication";
+import { PLAIN_DATE_INDEX } from "../../storage/dateIndex";
+import type { AppDatabase } from "../../storage/rxdb/database";
 import type { ImageReplicationCrypto, StorageBucket } from "../../storage/rxdb/replication";
 import type { ImageDocType } from "../../storage/rxdb/schemas";
 
@@ -373,3 +376,60 @@ describe("createImagePullModifier", () => {
     expect(result.blob).toBeNull();
   });
 });
+
+// ---------------------------------------------------------------------------
+// Push handler tests
+// ---------------------------------------------------------------------------
+
+describe("createImagesPushHandler", () => {
+  it("recreates the row when an update finds it purged on another device", async () => {
+    const ops: string[] = [];
+    // update() matches no rows and no row is left to conflict with
+    const supabase = {
+      from() {
+        let op = "select";
+        ops.push(op);
+        const chain = {
+          insert: () => {
+            op = ops[ops.length - 1] = "insert";
+            return chain;
+          },
+          update: () => {
+            op = ops[ops.length - 1] = "update";
+            return chain;
+          },
+          select: () => chain,
+          limit: () => chain,
+          eq: () => chain,
+          then: (resolve: (value: unknown) => void) =>
+            resolve({ data: op === "insert" ? null : [], error: null }),
+        };
+        return chain;
+      },
+    } as unknown as Parameters<typeof createImagesPushHandler>[0];
+    const db = {
+      images: { findOne: () => ({ exec: async () => null }) },
+    } as unknown as AppDatabase;
+    const crypto = makeMockCrypto();
+    const push = createImagesPushHandler(
+      supabase,
+      db,
+      createImagePushModifier(crypto, makeMockBucket(), "user-1"),
+      "user-1",
+      crypto,
+      PLAIN_DATE_INDEX,
+      "default",
+    );
+    const doc = makeImageDoc();
+
+    const conflicts = await push([
+      {
+        assumedMasterState: { ...doc, _deleted: false },
+        newDocumentState: { ...doc, _deleted: false },
+      },
+    ]);
+
+    expect(conflicts).toEqual([]);
+    expect(ops).toEqual(["update", "select", "insert"]);
+  });
+});
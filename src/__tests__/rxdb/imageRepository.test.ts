@@ -132,4 +132,30 @@ describe("RxDBImageRepository", () => {
       expect(result.value).toBeNull();
     }
   });
+
+  it("lists, restores and purges soft-deleted images", async () => {
+    const repo = await makeRepo();
+    const first = await repo.upload("05-05-2024", makeBlob("a"), "inline", "a.png");
+    const second = await repo.upload("05-05-2024", makeBlob("b"), "inline", "b.png");
+    if (!first.ok || !second.ok) throw new Error("upload failed");
+    await repo.delete(first.value.id);
+    await repo.delete(second.value.id);
+
+    const deleted = await repo.getDeleted();
+    expect(deleted.ok && deleted.value.map((image) => image.filename).sort()).toEqual([
+      "a.png",
+      "b.png",
+    ]);
+    const preview = await repo.getIncludingDeleted(first.value.id);
+    expect(preview.ok && preview.value).not.toBeNull();
+
+    expect((await repo.restore(first.value.id)).ok).toBe(true);
+    expect((await repo.purge(second.value.id)).ok).toBe(true);
+
+    const listed = await repo.getByNoteDate("05-05-2024");
+    expect(listed.ok && listed.value.map((image) => image.filename)).toEqual(["a.png"]);
+    const remaining = await repo.getDeleted();
+    expect(remaining.ok && remaining.value).toEqual([]);
+    expect((await repo.purge(first.value.id)).ok).toBe(false);
+  });
 });
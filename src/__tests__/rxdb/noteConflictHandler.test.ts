@@ -0,0 +1,89 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach } from "vitest";
+import type { WithDeleted } from "rxdb/plugins/core";
+import { createAppDatabase, onNoteConflict, type AppDatabase } from "../../storage/rxdb/database";
+import type { NoteDocType } from "../../storage/rxdb/schemas";
+
+function note(content: string, overrides: Partial<WithDeleted<NoteDocType>> = {}): WithDeleted<NoteDocType> {
+  return {
+    date: "01-03-2024",
+    content,
+    updatedAt: "2024-03-01T09:00:00.000Z",
+    isDeleted: false,
+    weather: null,
+    _deleted: false,
+    ...overrides,
+  };
+}
+
+describe("notes conflict handler", () => {
+  let db: AppDatabase | null = null;
+
+  afterEach(async () => {
+    if (db) {
+      await db.close();
+      db = null;
+    }
+  });
+
+  async function resolve(input: {
+    assumedMasterState?: WithDeleted<NoteDocType>;
+    realMasterState: WithDeleted<NoteDocType>;
+    newDocumentState: WithDeleted<NoteDocType>;
+  }) {
+    db ??= await createAppDatabase(`test-conflict-${Date.now()}-${Math.random()}`, { memory: true });
+    return db.notes.conflictHandler.resolve(input, "test");
+  }
+
+  it("merges offline edits from two devices against the synced base", async () => {
+    const resolved = await resolve({
+      assumedMasterState: note("<div>a</div><div>b</div>"),
+      newDocumentState: note("<div>a, local</div><div>b</div>"),
+      realMasterState: note("<div>a</div><div>b</div><div>c</div>", {
+        updatedAt: "2024-03-01T10:00:00.000Z",
+      }),
+    });
+
+    expect(resolved.content).toBe("<div>a, local</div><div>b</div><div>c</div>");
+    expect(resolved.updatedAt > "2024-03-01T10:00:00.000Z").toBe(true);
+  });
+
+  it("keeps the server copy as-is when it already has the local changes", async () => {
+    const remote = note("<div>same</div>", { updatedAt: "2024-03-01T10:00:00.000Z" });
+    const resolved = await resolve({
+      assumedMasterState: note("<div>old</div>"),
+      newDocumentState: note("<div>same</div>"),
+      realMasterState: remote,
+    });
+    expect(resolved).toEqual(remote);
+  });
+
+  it("leaves deletions to the default handler", async () => {
+    const remote = note("<div>a</div>", { isDeleted: true, _deleted: false });
+    const resolved = await resolve({
+      assumedMasterState: note("<div>a</div>"),
+      newDocumentState: note("<div>a, edited</div>"),
+      realMasterState: remote,
+    });
+    expect(resolved).toEqual(remote);
+  });
+
+  it("reports the local version when the result replaces it", async () => {
+    db = await createAppDatabase(`test-conflict-${Date.now()}-${Math.random()}`, { memory: true });
+    const replaced: string[] = [];
+    const stop = onNoteConflict(db, (local) => replaced.push(local.content));
+
+    await resolve({
+      assumedMasterState: note("<div>a</div>"),
+      newDocumentState: note("<div>a</div><div>local</div>"),
+      realMasterState: note("<div>remote</div>"),
+    });
+    stop();
+    await resolve({
+      newDocumentState: note("<div>x</div>"),
+      realMasterState: note("<div>y</div>"),
+    });
+
+    expect(replaced).toEqual(["<div>a</div><div>local</div>"]);
+  });
+});
@@ -157,4 +157,44 @@ describe("RxDBNoteRepository", () => {
       expect(result.value?.date).toBe("30-11-2024");
     }
   });
+
+  it("lists soft-deleted notes for the trash", async () => {
+    const repo = await makeRepo();
+    await repo.save("01-01-2024", "Kept");
+    await repo.save("02-01-2024", "Deleted");
+    await repo.delete("02-01-2024");
+
+    const result = await repo.getDeleted();
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.map((n) => [n.date, n.content])).toEqual([
+        ["02-01-2024", "Deleted"],
+      ]);
+      expect(Date.parse(result.value[0].deletedAt)).not.toBeNaN();
+      // The replicated updatedAt, so other devices see the same time
+      expect(result.value[0].updatedAt).toBe(result.value[0].deletedAt);
+    }
+  });
+
+  it("purges only soft-deleted notes", async () => {
+    const repo = await makeRepo();
+    await repo.save("01-01-2024", "Live");
+    await repo.save("02-01-2024", "Deleted");
+    await repo.delete("02-01-2024");
+
+    const live = await repo.purgeNote("01-01-2024");
+    expect(live.ok).toBe(false);
+
+    const purged = await repo.purgeNote("02-01-2024");
+    expect(purged.ok).toBe(true);
+    const after = await repo.getIncludingDeleted("02-01-2024");
+    expect(after.ok && after.value).toBeNull();
+    const deleted = await repo.getDeleted();
+    expect(deleted.ok && deleted.value).toEqual([]);
+
+    // The date can be written again after a purge
+    await repo.save("02-01-2024", "Fresh start");
+    const fresh = await repo.get("02-01-2024");
+    expect(fresh.ok && fresh.value?.content).toBe("Fresh start");
+  });
 });
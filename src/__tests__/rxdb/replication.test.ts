@@ -3,12 +3,14 @@ import {
   createPushModifier,
   createPullModifier,
   createNotesPullHandler,
+  createNotesPushHandler,
 } from "../../storage/rxdb/replication";
 import type {
   ReplicationCrypto,
   SupabaseNoteRow,
 } from "../../storage/rxdb/replication";
 import type { NoteDocType } from "../../storage/rxdb/schemas";
+import type { DateIndex } from "../../storage/dateIndex";
 
 // Mock crypto: encodes payload as base64 JSON, decodes back.
 // nonce is always "mocknonce", keyId is "mockkey".
@@ -46,6 +48,11 @@ const nonDeterministicCrypto: ReplicationCrypto = {
   },
 };
 
+// Stands in for the keyed hash; private dates are on
+const taggedDateIndex: DateIndex = {
+  toRowDate: async (date) => `d1.${date.split("").reverse().join("")}`,
+};
+
 const failingCrypto: ReplicationCrypto = {
   async encrypt() {
     return { ok: false, error: { type: "EncryptFailed", message: "no key" } };
@@ -107,6 +114,21 @@ describe("createPushModifier", () => {
 
     await expect(push(note)).rejects.toThrow();
   });
+
+  it("keys the row by tag and keeps the date in the payload", async () => {
+    const push = createPushModifier(mockCrypto, taggedDateIndex);
+    const note: NoteDocType = {
+      date: "04-01-2024",
+      content: "<p>Private</p>",
+      updatedAt: "2024-01-04T00:00:00.000Z",
+      isDeleted: false,
+    };
+
+    const row = await push(note);
+
+    expect(row.date).toBe("d1.4202-10-40");
+    expect(JSON.parse(atob(row.ciphertext)).date).toBe("04-01-2024");
+  });
 });
 
 describe("createPullModifier", () => {
@@ -178,11 +200,50 @@ describe("createPullModifier", () => {
   });
 });
 
+describe("createPullModifier with tagged dates", () => {
+  const taggedRow = (payload: object, deleted = false) => ({
+    date: "d1.4202-10-40",
+    ciphertext: btoa(JSON.stringify(payload)),
+    nonce: "mocknonce",
+    key_id: "mockkey",
+    updated_at: "2024-01-04T00:00:00.000Z",
+    _modified: "2024-01-04T00:00:00.000Z",
+    _deleted: deleted,
+  });
+
+  it("restores the date from the payload", async () => {
+    const pull = createPullModifier(mockCrypto);
+
+    const note = await pull(
+      taggedRow({ content: "<p>Private</p>", date: "04-01-2024" }),
+    );
+
+    expect(note.date).toBe("04-01-2024");
+    expect(note.content).toBe("<p>Private</p>");
+  });
+
+  it("decrypts deleted tagged rows to find their date", async () => {
+    const pull = createPullModifier(mockCrypto);
+
+    const note = await pull(taggedRow({ content: "", date: "04-01-2024" }, true));
+
+    expect(note.date).toBe("04-01-2024");
+    expect(note.isDeleted).toBe(true);
+  });
+
+  it("throws when a tagged row has no date in its payload", async () => {
+    const pull = createPullModifier(mockCrypto);
+
+    await expect(pull(taggedRow({ content: "<p>?</p>" }))).rejects.toThrow();
+  });
+});
+
 describe("createNotesPullHandler", () => {
   // Build a fake supabase chain that returns the given rows.
   function fakeSupabase(rows: Record<string, unknown>[]) {
     const chain = {
       select: () => chain,
+      eq: () => chain,
       or: () => chain,
       order: () => chain,
       limit: () => Promise.resolve({ data: rows, error: null }),
@@ -274,3 +335,137 @@ describe("push optimistic concurrency with non-deterministic encryption", () =>
     expect(row1.updated_at).toBe("2024-01-01T12:00:00.000Z");
   });
 });
+
+describe("createNotesPushHandler", () => {
+  type Call = { table: string; op: string; filters: [string, unknown][] };
+
+  // Records each query; update() matches no rows, everything else succeeds.
+  function fakeSupabase(calls: Call[]) {
+    return {
+      from(table: string) {
+        const call: Call = { table, op: "select", filters: [] };
+        calls.push(call);
+        const chain = {
+          insert: () => { call.op = "insert"; return chain; },
+          update: () => { call.op = "update"; return chain; },
+          delete: () => { call.op = "delete"; return chain; },
+          select: () => chain,
+          limit: () => chain,
+          eq: (column: string, value: unknown) => {
+            call.filters.push([column, value]);
+            return chain;
+          },
+          in: (column: string, values: unknown[]) => {
+            call.filters.push([column, values]);
+            return chain;
+          },
+          then: (resolve: (value: unknown) => void) =>
+            resolve({ data: call.op === "update" ? [] : null, error: null }),
+        };
+        return chain;
+      },
+    } as unknown as Parameters<typeof createNotesPushHandler>[0];
+  }
+
+  const note = {
+    date: "01-01-2024",
+    content: "<p>Hello</p>",
+    updatedAt: "2024-01-01T12:00:00.000Z",
+    isDeleted: false,
+    weather: null,
+    _deleted: false,
+  };
+
+  function handler(calls: Call[], dateIndex?: DateIndex, journalId?: string) {
+    return createNotesPushHandler(
+      fakeSupabase(calls),
+      createPushModifier(mockCrypto, dateIndex),
+      createPullModifier(mockCrypto),
+      "user-1",
+      dateIndex,
+      journalId,
+    );
+  }
+
+  it("deletes the server row when a note is purged", async () => {
+    const calls: Call[] = [];
+    const conflicts = await handler(calls)([
+      {
+        assumedMasterState: { ...note, isDeleted: true },
+        newDocumentState: { ...note, isDeleted: true, _deleted: true },
+      },
+    ]);
+
+    expect(conflicts).toEqual([]);
+    expect(calls).toEqual([
+      {
+        table: "notes",
+        op: "delete",
+        filters: [
+          ["date", "01-01-2024"],
+          ["user_id", "user-1"],
+          ["journal_id", "default"],
+        ],
+      },
+    ]);
+  });
+
+  it("recreates the row when writing a date whose row was purged", async () => {
+    const calls: Call[] = [];
+    await handler(calls)([
+      {
+        assumedMasterState: { ...note, isDeleted: true, _deleted: true },
+        newDocumentState: { ...note, content: "<p>New</p>" },
+      },
+    ]);
+
+    expect(calls.map((c) => c.op)).toEqual(["update", "insert"]);
+  });
+
+  it("recreates the row when an edit finds it purged before the delete was pulled", async () => {
+    const calls: Call[] = [];
+    const conflicts = await handler(calls)([
+      {
+        assumedMasterState: note,
+        newDocumentState: { ...note, content: "<p>Edited</p>" },
+      },
+    ]);
+
+    expect(conflicts).toEqual([]);
+    expect(calls.map((c) => c.op)).toEqual(["update", "select", "insert"]);
+  });
+
+  it("scopes writes to the handler's journal", async () => {
+    const calls: Call[] = [];
+    await handler(calls, undefined, "a1b2c3d4e5f60718")([
+      {
+        assumedMasterState: { ...note, isDeleted: true },
+        newDocumentState: { ...note, isDeleted: true, _deleted: true },
+      },
+    ]);
+
+    expect(calls[0].filters).toContainEqual(["journal_id", "a1b2c3d4e5f60718"]);
+  });
+
+  it("purges both forms of the date when private dates are on", async () => {
+    const calls: Call[] = [];
+    await handler(calls, taggedDateIndex)([
+      {
+        assumedMasterState: { ...note, isDeleted: true },
+        newDocumentState: { ...note, isDeleted: true, _deleted: true },
+      },
+    ]);
+
+    expect(calls).toEqual([
+      {
+        table: "notes",
+        op: "delete",
+        filters: [
+          ["date", ["01-01-2024", "d1.4202-10-10"]],
+          ["user_id", "user-1"],
+          ["journal_id", "default"],
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,148 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach } from "vitest";
+import { createAppDatabase, type AppDatabase } from "../../storage/rxdb/database";
+import { RxDBNoteRepository } from "../../storage/rxdb/noteRepository";
+import { RxDBNoteRevisionStore } from "../../storage/rxdb/revisionStore";
+import { createRevisionCrypto } from "../../storage/revisionCrypto";
+
+async function makeKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+describe("RxDBNoteRevisionStore", () => {
+  let db: AppDatabase | null = null;
+
+  afterEach(async () => {
+    if (db) {
+      await db.close();
+      db = null;
+    }
+  });
+
+  async function setup(options?: { editInterval?: number; maxPerNote?: number }) {
+    db = await createAppDatabase(`test-revisions-${Date.now()}-${Math.random()}`, { memory: true });
+    const keyring = new Map([["k1", await makeKey()]]);
+    const revisions = new RxDBNoteRevisionStore(
+      db,
+      createRevisionCrypto({
+        activeKeyId: "k1",
+        getKey: (keyId) => keyring.get(keyId) ?? null,
+      }),
+      options,
+    );
+    const repo = new RxDBNoteRepository(db, null, revisions);
+    return { db, repo, revisions, keyring };
+  }
+
+  async function contents(revisions: RxDBNoteRevisionStore, date: string) {
+    const result = await revisions.list(date);
+    return result.ok ? result.value.map((r) => [r.reason, r.content]) : null;
+  }
+
+  it("snapshots the overwritten content once per edit interval", async () => {
+    const { repo, revisions } = await setup();
+    await repo.save("01-02-2024", "<p>one</p>");
+    await repo.save("01-02-2024", "<p>two</p>");
+    await repo.save("01-02-2024", "<p>three</p>");
+
+    expect(await contents(revisions, "01-02-2024")).toEqual([
+      ["edit", "<p>one</p>"],
+    ]);
+  });
+
+  it("snapshots again once the interval has passed", async () => {
+    const { repo, revisions } = await setup({ editInterval: 0 });
+    await repo.save("01-02-2024", "<p>one</p>");
+    await repo.save("01-02-2024", "<p>two</p>");
+    await repo.save("01-02-2024", "<p>two</p>");
+    await repo.save("01-02-2024", "<p>three</p>");
+
+    const result = await contents(revisions, "01-02-2024");
+    expect(result?.map(([, content]) => content).sort()).toEqual([
+      "<p>one</p>",
+      "<p>two</p>",
+    ]);
+  });
+
+  it("stores snapshots encrypted", async () => {
+    const { db, repo } = await setup();
+    await repo.save("01-02-2024", "<p>secret plans</p>");
+    await repo.save("01-02-2024", "<p>other</p>");
+
+    const [doc] = await db.noteRevisions.find().exec();
+    expect(doc.keyId).toBe("k1");
+    expect(JSON.stringify(doc.toJSON())).not.toContain("secret");
+  });
+
+  it("restores a revision and keeps the replaced content", async () => {
+    const { repo, revisions } = await setup();
+    const weather = { icon: "☀️", temperatureHigh: 20, temperatureLow: 10, unit: "C" as const, city: "Oslo" };
+    await repo.save("01-02-2024", "<p>original</p>", weather);
+    await repo.save("01-02-2024", "<p>rewritten</p>", null);
+
+    const listed = await revisions.list("01-02-2024");
+    if (!listed.ok) throw new Error("list failed");
+    const result = await repo.restoreRevision("01-02-2024", listed.value[0].id);
+    expect(result.ok).toBe(true);
+
+    const note = await repo.get("01-02-2024");
+    expect(note.ok && note.value?.content).toBe("<p>original</p>");
+    expect(note.ok && note.value?.weather).toEqual(weather);
+    const history = await contents(revisions, "01-02-2024");
+    expect(history).toContainEqual(["restore", "<p>rewritten</p>"]);
+    expect(history).toHaveLength(2);
+  });
+
+  it("reports unknown revisions", async () => {
+    const { repo } = await setup();
+    await repo.save("01-02-2024", "<p>note</p>");
+    const result = await repo.restoreRevision("01-02-2024", "missing");
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.type).toBe("NotFound");
+  });
+
+  it("drops the oldest revisions beyond the limit", async () => {
+    const { repo, revisions } = await setup({ editInterval: 0, maxPerNote: 2 });
+    for (const content of ["a", "b", "c", "d"]) {
+      await repo.save("01-02-2024", content);
+    }
+    const result = await revisions.list("01-02-2024");
+    expect(result.ok && result.value).toHaveLength(2);
+  });
+
+  it("skips revisions written under an unavailable key", async () => {
+    const { repo, revisions, keyring } = await setup();
+    await repo.save("01-02-2024", "<p>one</p>");
+    await repo.save("01-02-2024", "<p>two</p>");
+    keyring.delete("k1");
+
+    const result = await revisions.list("01-02-2024");
+    expect(result.ok && result.value).toEqual([]);
+  });
+
+  it("captures the local version discarded by a replication conflict", async () => {
+    const { db, revisions } = await setup();
+    const stop = revisions.watchConflicts();
+    const base = {
+      date: "01-02-2024",
+      isDeleted: false,
+      weather: null,
+      _deleted: false,
+    };
+    await db.notes.conflictHandler.resolve(
+      {
+        realMasterState: { ...base, content: "<p>remote</p>", updatedAt: "2024-02-01T10:00:00.000Z" },
+        newDocumentState: { ...base, content: "<p>local</p>", updatedAt: "2024-02-01T09:00:00.000Z" },
+      },
+      "test",
+    );
+    stop();
+
+    await expect
+      .poll(() => contents(revisions, "01-02-2024"))
+      .toEqual([["conflict", "<p>local</p>"]]);
+  });
+});
@@ -0,0 +1,168 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach } from "vitest";
+import { createAppDatabase, type AppDatabase } from "../../storage/rxdb/database";
+import { RxDBNoteRepository } from "../../storage/rxdb/noteRepository";
+import { RxDBSearchIndex } from "../../storage/rxdb/searchIndex";
+import { createSearchIndexCrypto } from "../../storage/searchIndexCrypto";
+import { parseSearchQuery } from "../../utils/searchQuery";
+
+const q = parseSearchQuery;
+
+async function makeKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+describe("RxDBSearchIndex", () => {
+  let db: AppDatabase | null = null;
+
+  afterEach(async () => {
+    if (db) {
+      await db.close();
+      db = null;
+    }
+  });
+
+  async function setup(key?: CryptoKey) {
+    db = await createAppDatabase(`test-search-${Date.now()}-${Math.random()}`, { memory: true });
+    const vaultKey = key ?? (await makeKey());
+    const keyring = new Map([["k1", vaultKey]]);
+    const makeIndex = () =>
+      new RxDBSearchIndex(
+        db!,
+        createSearchIndexCrypto({
+          activeKeyId: "k1",
+          getKey: (keyId) => keyring.get(keyId) ?? null,
+        }),
+      );
+    const index = makeIndex();
+    const repo = new RxDBNoteRepository(db, index);
+    return { db, index, repo, makeIndex, keyring };
+  }
+
+  it("indexes notes on save and finds them by substring", async () => {
+    const { index, repo } = await setup();
+    await repo.save("01-02-2024", "<p>Team <b>meeting</b> notes</p>");
+    await repo.save("02-02-2024", "<p>Walk in the park</p>");
+
+    const result = await index.search(q("meet"));
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.map((m) => [m.date, m.text])).toEqual([
+        ["01-02-2024", "Team meeting notes"],
+      ]);
+    }
+  });
+
+  it("matches phrases across term boundaries", async () => {
+    const { index, repo } = await setup();
+    await repo.save("01-02-2024", "<div>first paragraph</div><div>second paragraph</div>");
+
+    const hit = await index.search(q('"paragraph second"'));
+    const miss = await index.search(q('"second first"'));
+    expect(hit.ok && hit.value.map((m) => m.date)).toEqual(["01-02-2024"]);
+    expect(miss.ok && miss.value).toEqual([]);
+  });
+
+  it("filters on section types, weather and dates", async () => {
+    const { index, repo } = await setup();
+    await repo.save(
+      "01-02-2024",
+      '<div data-section-type="work">+work</div><div>standup</div>',
+      { icon: "☀️", temperatureHigh: 20, temperatureLow: 10, unit: "C", city: "Oslo" },
+    );
+    await repo.save("02-02-2023", "<div>standup at home</div>");
+
+    const dates = async (query: string) => {
+      const result = await index.search(q(query));
+      return result.ok ? result.value.map((m) => m.date).sort() : null;
+    };
+    expect(await dates("standup type:work")).toEqual(["01-02-2024"]);
+    expect(await dates("has:weather")).toEqual(["01-02-2024"]);
+    expect(await dates("standup year:2023")).toEqual(["02-02-2023"]);
+    expect(await dates("standup -home")).toEqual(["01-02-2024"]);
+  });
+
+  it("stores entries encrypted", async () => {
+    const { db, repo } = await setup();
+    await repo.save("01-02-2024", "<p>secret plans</p>");
+
+    const doc = await db.searchIndex.findOne("01-02-2024").exec();
+    expect(doc).not.toBeNull();
+    expect(doc!.keyId).toBe("k1");
+    expect(doc!.ciphertext).not.toContain("secret");
+    expect(JSON.stringify(doc!.toJSON())).not.toContain("plans");
+  });
+
+  it("drops deleted notes from the index", async () => {
+    const { db, index, repo } = await setup();
+    await repo.save("01-02-2024", "<p>hello</p>");
+    await index.search(q("hello"));
+    await repo.delete("01-02-2024");
+
+    const result = await index.search(q("hello"));
+    expect(result.ok && result.value).toEqual([]);
+    expect(await db.searchIndex.findOne("01-02-2024").exec()).toBeNull();
+  });
+
+  it("reloads persisted entries in a new session without re-indexing", async () => {
+    const { db, repo, makeIndex } = await setup();
+    await repo.save("01-02-2024", "<p>persisted text</p>");
+    const before = await db.searchIndex.findOne("01-02-2024").exec();
+
+    const fresh = makeIndex();
+    const progress: number[] = [];
+    const result = await fresh.search(q("persisted"), {
+      onProgress: (p) => progress.push(p.current),
+    });
+
+    expect(result.ok && result.value.map((m) => m.date)).toEqual(["01-02-2024"]);
+    expect(progress).toEqual([0, 1]);
+    const after = await db.searchIndex.findOne("01-02-2024").exec();
+    expect(after!.ciphertext).toBe(before!.ciphertext);
+  });
+
+  it("catches up notes written outside the repository", async () => {
+    const { db, index } = await setup();
+    await db.notes.upsert({
+      date: "05-03-2024",
+      content: "<p>pulled from another device</p>",
+      updatedAt: new Date().toISOString(),
+      isDeleted: false,
+      weather: null,
+    });
+
+    const result = await index.search(q("another device"));
+    expect(result.ok && result.value.map((m) => m.date)).toEqual(["05-03-2024"]);
+    expect(await db.searchIndex.findOne("05-03-2024").exec()).not.toBeNull();
+  });
+
+  it("rebuilds entries encrypted with an unavailable key", async () => {
+    const { db, repo, keyring } = await setup();
+    await repo.save("01-02-2024", "<p>rotated key</p>");
+    keyring.set("k1", await makeKey());
+
+    const fresh = new RxDBSearchIndex(
+      db,
+      createSearchIndexCrypto({
+        activeKeyId: "k1",
+        getKey: (keyId) => keyring.get(keyId) ?? null,
+      }),
+    );
+    const result = await fresh.search(q("rotated"));
+    expect(result.ok && result.value.map((m) => m.date)).toEqual(["01-02-2024"]);
+  });
+
+  it("stops early when aborted", async () => {
+    const { repo, makeIndex } = await setup();
+    await repo.save("01-02-2024", "<p>one</p>");
+    await repo.save("02-02-2024", "<p>two</p>");
+
+    const controller = new AbortController();
+    controller.abort();
+    const result = await makeIndex().search(q("one"), { signal: controller.signal });
+    expect(result.ok && result.value).toEqual([]);
+  });
+});
@@ -49,6 +49,27 @@ describe("sanitizeHtml", () => {
       expect(sanitizeHtml("<h3>H3</h3>")).toBe("<h3>H3</h3>");
     });
 
+    it("allows list tags and task items", () => {
+      expect(sanitizeHtml("<ul><li>one</li></ul>")).toBe(
+        "<ul><li>one</li></ul>",
+      );
+      expect(sanitizeHtml("<ol><li>one</li></ol>")).toBe(
+        "<ol><li>one</li></ol>",
+      );
+      expect(sanitizeHtml('<ul><li data-task="open">todo</li></ul>')).toBe(
+        '<ul><li data-task="open">todo</li></ul>',
+      );
+    });
+
+    it("drops task states other than open and done", () => {
+      expect(sanitizeHtml('<ul><li data-task="done">todo</li></ul>')).toBe(
+        '<ul><li data-task="done">todo</li></ul>',
+      );
+      expect(sanitizeHtml('<ul><li data-task="x&quot;y">todo</li></ul>')).toBe(
+        "<ul><li>todo</li></ul>",
+      );
+    });
+
     it("allows code tags", () => {
       expect(sanitizeHtml("<code>const x = 1;</code>")).toBe(
         "<code>const x = 1;</code>",
@@ -0,0 +1,126 @@
+import {
+  findHighlights,
+  isEmptySearchQuery,
+  matchesSearchQuery,
+  parseSearchQuery,
+  type SearchDocument,
+} from "../utils/searchQuery";
+
+function makeDoc(overrides: Partial<SearchDocument> = {}): SearchDocument {
+  return {
+    date: "15-06-2024",
+    text: "Morning run along the river, then coffee with Ana",
+    sectionTypes: [],
+    hasImage: false,
+    hasWeather: false,
+    ...overrides,
+  };
+}
+
+describe("parseSearchQuery", () => {
+  it("splits plain words into lowercase terms", () => {
+    const query = parseSearchQuery("Morning  Coffee");
+    expect(query.terms).toEqual(["morning", "coffee"]);
+    expect(query.phrases).toEqual([]);
+  });
+
+  it("parses quoted phrases, including unterminated ones", () => {
+    expect(parseSearchQuery('"river, then" ana').phrases).toEqual([
+      "river, then",
+    ]);
+    expect(parseSearchQuery('"coffee with').phrases).toEqual(["coffee with"]);
+  });
+
+  it("parses exclusions for words and phrases", () => {
+    const query = parseSearchQuery('run -coffee -"bad day"');
+    expect(query.terms).toEqual(["run"]);
+    expect(query.excluded).toEqual(["coffee", "bad day"]);
+  });
+
+  it("treats a lone dash as text", () => {
+    expect(parseSearchQuery("a - b").terms).toEqual(["a", "-", "b"]);
+  });
+
+  it("parses type, has and year filters", () => {
+    const query = parseSearchQuery("type:Work has:image has:weather year:2023");
+    expect(query.sectionTypes).toEqual(["work"]);
+    expect(query.has).toEqual(["image", "weather"]);
+    expect(query.years).toEqual([2023]);
+    expect(query.terms).toEqual([]);
+  });
+
+  it("parses before/after in several date formats", () => {
+    expect(parseSearchQuery("before:2024-06-01").before).toBe(20240601);
+    expect(parseSearchQuery("before:01-06-2024").before).toBe(20240601);
+    expect(parseSearchQuery("before:2024").before).toBe(20240101);
+    expect(parseSearchQuery("after:2024-02").after).toBe(20240231);
+    expect(parseSearchQuery("after:2024").after).toBe(20241231);
+  });
+
+  it("keeps unknown or invalid filters as text", () => {
+    expect(parseSearchQuery("http://x").terms).toEqual(["http://x"]);
+    expect(parseSearchQuery("before:soon").terms).toEqual(["before:soon"]);
+    expect(parseSearchQuery("has:cats").terms).toEqual(["has:cats"]);
+  });
+
+  it("reports empty queries", () => {
+    expect(isEmptySearchQuery(parseSearchQuery("   "))).toBe(true);
+    expect(isEmptySearchQuery(parseSearchQuery('""'))).toBe(true);
+    expect(isEmptySearchQuery(parseSearchQuery("has:image"))).toBe(false);
+  });
+});
+
+describe("matchesSearchQuery", () => {
+  it("requires every term as a substring", () => {
+    expect(matchesSearchQuery(makeDoc(), parseSearchQuery("riv cof"))).toBe(true);
+    expect(matchesSearchQuery(makeDoc(), parseSearchQuery("river tea"))).toBe(false);
+  });
+
+  it("matches phrases exactly and honours exclusions", () => {
+    const doc = makeDoc();
+    expect(matchesSearchQuery(doc, parseSearchQuery('"coffee with"'))).toBe(true);
+    expect(matchesSearchQuery(doc, parseSearchQuery('"with coffee"'))).toBe(false);
+    expect(matchesSearchQuery(doc, parseSearchQuery("run -ana"))).toBe(false);
+  });
+
+  it("filters by section type and attachments", () => {
+    const doc = makeDoc({ sectionTypes: ["work"], hasImage: true });
+    expect(matchesSearchQuery(doc, parseSearchQuery("type:work has:image"))).toBe(true);
+    expect(matchesSearchQuery(doc, parseSearchQuery("type:dream"))).toBe(false);
+    expect(matchesSearchQuery(doc, parseSearchQuery("has:weather"))).toBe(false);
+  });
+
+  it("filters by date with exclusive bounds", () => {
+    const doc = makeDoc({ date: "15-06-2024" });
+    expect(matchesSearchQuery(doc, parseSearchQuery("before:2024-06-16"))).toBe(true);
+    expect(matchesSearchQuery(doc, parseSearchQuery("before:2024-06-15"))).toBe(false);
+    expect(matchesSearchQuery(doc, parseSearchQuery("after:2024-05"))).toBe(true);
+    expect(matchesSearchQuery(doc, parseSearchQuery("after:2024-06"))).toBe(false);
+    expect(matchesSearchQuery(doc, parseSearchQuery("year:2023 year:2024"))).toBe(true);
+    expect(matchesSearchQuery(doc, parseSearchQuery("year:2023"))).toBe(false);
+  });
+});
+
+describe("findHighlights", () => {
+  it("returns every occurrence of every term, sorted", () => {
+    const text = "Tea, then more tea and cake";
+    expect(findHighlights(text, parseSearchQuery("cake tea"))).toEqual([
+      { start: 0, length: 3 },
+      { start: 15, length: 3 },
+      { start: 23, length: 4 },
+    ]);
+  });
+
+  it("merges overlapping ranges", () => {
+    const text = "coffee with Ana";
+    expect(findHighlights(text, parseSearchQuery('coffee "fee with"'))).toEqual([
+      { start: 0, length: 11 },
+    ]);
+  });
+
+  it("ignores excluded words", () => {
+    expect(findHighlights("run and swim", parseSearchQuery("run -swim"))).toEqual([
+      { start: 0, length: 3 },
+    ]);
+  });
+});
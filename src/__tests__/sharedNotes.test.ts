@@ -0,0 +1,164 @@
+// @vitest-environment jsdom
+import {
+  createSharedNote,
+  deleteSharedNote,
+  fetchSharedNote,
+  noteImageIds,
+  parseShareLocation,
+} from "../storage/sharedNotes";
+import { createFakeSupabase } from "./helpers/mocks";
+
+const USER_ID = "user-1";
+const ORIGIN = "https://ichinichi.test";
+
+type Row = Record<string, unknown>;
+
+// The shared_notes tables and the read functions anonymous viewers call
+function createSharedNotesSupabase() {
+  const tables: Record<string, Row[]> = {
+    shared_notes: [],
+    shared_note_images: [],
+  };
+  const unexpired = (id: unknown) =>
+    tables.shared_notes.find(
+      (row) =>
+        row.id === id &&
+        new Date(row.expires_at as string).getTime() > Date.now(),
+    );
+  const { supabase } = createFakeSupabase(tables, {
+    get_shared_note: ({ p_id }) => {
+      const row = unexpired(p_id);
+      return row
+        ? [
+            {
+              ciphertext: row.ciphertext,
+              nonce: row.nonce,
+              expires_at: row.expires_at,
+            },
+          ]
+        : [];
+    },
+    get_shared_note_image: ({ p_id, p_image_id }) =>
+      unexpired(p_id)
+        ? tables.shared_note_images.find(
+            (image) => image.share_id === p_id && image.image_id === p_image_id,
+          )?.ciphertext
+        : null,
+  });
+  return {
+    supabase,
+    rows: tables.shared_notes,
+    images: tables.shared_note_images,
+  };
+}
+
+function splitUrl(url: string) {
+  const parsed = new URL(url);
+  return parseShareLocation({ pathname: parsed.pathname, hash: parsed.hash });
+}
+
+describe("shared notes", () => {
+  const note = {
+    date: "19-10-2026",
+    content: '<p>Hello</p><img data-image-id="img-1" alt="cat">',
+    weather: null,
+  };
+
+  it("round-trips a note and its images through a link", async () => {
+    const { supabase, rows, images } = createSharedNotesSupabase();
+    const image = new Blob(["cat pixels"], { type: "image/png" });
+
+    const share = await createSharedNote({
+      supabase,
+      userId: USER_ID,
+      origin: ORIGIN,
+      note,
+      images: [{ id: "img-1", blob: image }],
+      expiresInDays: 7,
+    });
+
+    expect(share.url.startsWith(`${ORIGIN}/share/${share.id}#`)).toBe(true);
+    // Nothing readable reaches the server
+    expect(JSON.stringify(rows)).not.toContain("Hello");
+    expect(atob(images[0].ciphertext as string)).not.toContain("cat");
+
+    const link = splitUrl(share.url)!;
+    const opened = await fetchSharedNote(supabase, link.id, link.key);
+
+    expect(opened.date).toBe(note.date);
+    expect(opened.content).toBe(note.content);
+    expect(opened.expiresAt).toBe(share.expiresAt);
+    expect(opened.images.get("img-1")?.type).toBe("image/png");
+    expect(await opened.images.get("img-1")!.text()).toBe("cat pixels");
+  });
+
+  it("refuses a wrong key and an expired link", async () => {
+    const { supabase, rows } = createSharedNotesSupabase();
+    const share = await createSharedNote({
+      supabase,
+      userId: USER_ID,
+      origin: ORIGIN,
+      note,
+      images: [],
+      expiresInDays: 1,
+    });
+    const other = await createSharedNote({
+      supabase,
+      userId: USER_ID,
+      origin: ORIGIN,
+      note,
+      images: [],
+      expiresInDays: 1,
+    });
+
+    await expect(
+      fetchSharedNote(supabase, share.id, splitUrl(other.url)!.key),
+    ).rejects.toThrow("can't be opened");
+    await expect(fetchSharedNote(supabase, share.id, "short")).rejects.toThrow(
+      "incomplete",
+    );
+
+    rows[0].expires_at = new Date(Date.now() - 1000).toISOString();
+    await expect(
+      fetchSharedNote(supabase, share.id, splitUrl(share.url)!.key),
+    ).rejects.toThrow("expired");
+  });
+
+  it("removes the row and images when revoked", async () => {
+    const { supabase, rows } = createSharedNotesSupabase();
+    const share = await createSharedNote({
+      supabase,
+      userId: USER_ID,
+      origin: ORIGIN,
+      note,
+      images: [{ id: "img-1", blob: new Blob(["x"], { type: "image/png" }) }],
+      expiresInDays: 30,
+    });
+
+    await deleteSharedNote(supabase, USER_ID, share.id);
+
+    expect(rows).toHaveLength(0);
+    await expect(
+      fetchSharedNote(supabase, share.id, splitUrl(share.url)!.key),
+    ).rejects.toThrow("expired or was removed");
+  });
+
+  it("parses share locations only", () => {
+    const id = "0123456789abcdef0123456789abcdef";
+    expect(
+      parseShareLocation({ pathname: `/share/${id}`, hash: "#abc" }),
+    ).toEqual({ id, key: "abc" });
+    expect(parseShareLocation({ pathname: "/", hash: "" })).toBeNull();
+    expect(
+      parseShareLocation({ pathname: "/share/../notes", hash: "#abc" }),
+    ).toBeNull();
+  });
+
+  it("lists the images a note refers to", () => {
+    expect(
+      noteImageIds(
+        '<img data-image-id="a"><img data-image-id="uploading"><img data-image-id="a"><img data-image-id="b">',
+      ),
+    ).toEqual(["a", "b"]);
+  });
+});
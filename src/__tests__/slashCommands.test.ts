@@ -0,0 +1,193 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import { ok } from "../domain/result";
+import { useRecentSectionTypes } from "../hooks/useRecentSectionTypes";
+import {
+  collapsedSelection,
+  parseHtml,
+  serializeDocument,
+  writeSelection,
+} from "../services/editorDocument";
+import {
+  findSlashQuery,
+  getSlashCommandItems,
+  runSlashCommand,
+  type SlashCommandContext,
+} from "../services/slashCommands";
+import { fuzzyFilter, fuzzyScore } from "../utils/fuzzyMatch";
+import { createMockNoteRepository } from "./helpers/mocks";
+
+const context: SlashCommandContext = {
+  sectionTypes: ["work", "gym"],
+  weatherLabel: "Berlin, 8–14°C ☀️",
+};
+
+function makeEditor(html: string, block: number, offset: number) {
+  const editor = document.createElement("div");
+  editor.setAttribute("contenteditable", "true");
+  editor.innerHTML = html;
+  document.body.appendChild(editor);
+  writeSelection(editor, collapsedSelection({ block, offset }));
+  return editor;
+}
+
+function itemTitled(title: string) {
+  const item = getSlashCommandItems(context, "").find(
+    (candidate) => candidate.title === title,
+  );
+  if (!item) throw new Error(`No item ${title}`);
+  return item;
+}
+
+afterEach(() => {
+  document.body.textContent = "";
+  vi.useRealTimers();
+});
+
+describe("fuzzyMatch", () => {
+  it("matches subsequences and prefers word starts", () => {
+    expect(fuzzyScore("tsd", "Timestamp divider")).not.toBeNull();
+    expect(fuzzyScore("xyz", "Timestamp divider")).toBeNull();
+    expect(
+      fuzzyFilter(["Today's date", "Timestamp divider"], "td", (s) => s),
+    ).toEqual(["Timestamp divider", "Today's date"]);
+  });
+});
+
+describe("findSlashQuery", () => {
+  it("finds a slash at a line start or after a space", () => {
+    const state = (html: string, offset: number) => ({
+      doc: parseHtml(html),
+      selection: collapsedSelection({ block: 0, offset }),
+    });
+
+    expect(findSlashQuery(state("<div>/sec</div>", 4))).toEqual({
+      query: "sec",
+      from: { block: 0, offset: 0 },
+    });
+    expect(findSlashQuery(state("<div>hi /</div>", 4))).toEqual({
+      query: "",
+      from: { block: 0, offset: 3 },
+    });
+    expect(findSlashQuery(state("first<br>/da", 12))?.query).toBe("da");
+    expect(findSlashQuery(state("<div>a/b</div>", 3))).toBeNull();
+    expect(findSlashQuery(state("<div>/two words</div>", 10))).toBeNull();
+  });
+});
+
+describe("getSlashCommandItems", () => {
+  it("lists items for the context and filters them", () => {
+    const titles = getSlashCommandItems(context, "").map((item) => item.title);
+    expect(titles).toEqual([
+      "Section +work",
+      "Section +gym",
+      "Timestamp divider",
+      "Weather",
+      "Template: Daily review",
+      "Template: Meeting",
+      "Today's date",
+    ]);
+
+    const withImages = getSlashCommandItems(
+      { sectionTypes: [], weatherLabel: null, pickImage: () => {} },
+      "",
+    ).map((item) => item.title);
+    expect(withImages).toContain("Image");
+    expect(withImages).toContain("Section");
+    expect(withImages).not.toContain("Weather");
+
+    expect(getSlashCommandItems(context, "gym")[0].title).toBe("Section +gym");
+    expect(getSlashCommandItems(context, "zzz")).toEqual([]);
+  });
+});
+
+describe("runSlashCommand", () => {
+  it("replaces the query with a section header and moves into its body", () => {
+    const editor = makeEditor("<div>before</div><div>/wo</div>", 1, 3);
+
+    expect(runSlashCommand(editor, itemTitled("Section +work"), context)).toBe(
+      true,
+    );
+    expect(editor.innerHTML).toBe(
+      '<div>before</div><div data-section-type="work">+work</div><div><br></div>',
+    );
+    const range = window.getSelection()!.getRangeAt(0);
+    expect(range.startContainer).toBe(editor.lastChild);
+  });
+
+  it("splits a line around a timestamp divider", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-10-19T09:30:00.000Z"));
+    const editor = makeEditor("<div>one /ts two</div>", 0, 7);
+
+    runSlashCommand(editor, itemTitled("Timestamp divider"), context);
+    expect(serializeDocument(parseHtml(editor.innerHTML))).toMatch(
+      /^<div>one <\/div><hr data-timestamp="2026-10-19T09:30:00.000Z" data-label="[^"]+" contenteditable="false"><div><br><\/div><div> two<\/div>$/,
+    );
+  });
+
+  it("inserts text commands at the caret", () => {
+    const editor = makeEditor("<div>It was /we</div>", 0, 10);
+
+    runSlashCommand(editor, itemTitled("Weather"), context);
+    expect(editor.innerHTML).toBe("<div>It was Berlin, 8–14°C ☀️</div>");
+  });
+
+  it("inserts a template's blocks", () => {
+    const editor = makeEditor("<div>/tem</div>", 0, 4);
+
+    runSlashCommand(editor, itemTitled("Template: Meeting"), context);
+    expect(editor.innerHTML).toBe(
+      '<div data-section-type="meeting">+meeting</div><div>Who:</div><div>Notes:</div><ul><li data-task="open"><br></li></ul>',
+    );
+  });
+
+  it("leaves the editor alone without a query at the caret", () => {
+    const editor = makeEditor("<div>plain</div>", 0, 5);
+
+    expect(runSlashCommand(editor, itemTitled("Today's date"), context)).toBe(
+      false,
+    );
+    expect(editor.innerHTML).toBe("<div>plain</div>");
+  });
+});
+
+describe("useRecentSectionTypes", () => {
+  it("lists the open note's sections, then earlier days', once opened", async () => {
+    const notes: Record<string, string> = {
+      "18-10-2026":
+        '<div data-section-type="work">+work</div><div data-section-type="gym">+gym</div>',
+      "01-10-2026": '<div data-section-type="old">+old</div>',
+    };
+    const get = vi
+      .fn()
+      .mockImplementation((date: string) =>
+        Promise.resolve(
+          ok({ date, content: notes[date], updatedAt: "2026-10-18" }),
+        ),
+      );
+    const repository = createMockNoteRepository({ get });
+    const noteDates = new Set(Object.keys(notes));
+
+    const { result, rerender } = renderHook(
+      ({ isEnabled }) =>
+        useRecentSectionTypes({
+          repository,
+          noteDates,
+          date: "19-10-2026",
+          content: '<div data-section-type="work">+work</div>',
+          isEnabled,
+        }),
+      { initialProps: { isEnabled: false } },
+    );
+
+    expect(result.current).toEqual(["work"]);
+    expect(get).not.toHaveBeenCalled();
+
+    rerender({ isEnabled: true });
+    // 01-10 is outside the lookback
+    await waitFor(() => expect(result.current).toEqual(["work", "gym"]));
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+});
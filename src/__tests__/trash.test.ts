@@ -0,0 +1,123 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from "vitest";
+import {
+  loadTrash,
+  purgeTrashItems,
+  restoreTrashItems,
+} from "../services/trash";
+import { err, ok } from "../domain/result";
+import type { NoteRepository } from "../storage/noteRepository";
+import type { ImageRepository } from "../storage/imageRepository";
+import type { DeletedImage, DeletedNote } from "../types";
+
+function createRepos(notes: DeletedNote[], images: DeletedImage[]) {
+  const calls: string[] = [];
+  const repository: NoteRepository = {
+    get: async () => ok(null),
+    save: async () => ok(undefined),
+    delete: async () => ok(undefined),
+    getAllDates: async () => ok([]),
+    getAllDatesForYear: async () => ok([]),
+    getDeleted: async () => ok(notes),
+    restoreNote: async (date) => {
+      calls.push(`restore note ${date}`);
+      return ok(undefined);
+    },
+    purgeNote: async (date) => {
+      calls.push(`purge note ${date}`);
+      return date === "02-01-2024"
+        ? err({ type: "IO", message: "offline" })
+        : ok(undefined);
+    },
+  };
+  const imageRepository = {
+    getDeleted: async () => ok(images),
+    restore: async (id: string) => {
+      calls.push(`restore image ${id}`);
+      return ok(undefined);
+    },
+    purge: async (id: string) => {
+      calls.push(`purge image ${id}`);
+      return ok(undefined);
+    },
+  } as unknown as ImageRepository;
+  return { repository, imageRepository, calls };
+}
+
+function deletedNote(date: string, content: string, deletedAt: string): DeletedNote {
+  return { date, content, updatedAt: deletedAt, deletedAt };
+}
+
+function deletedImage(id: string, deletedAt: string): DeletedImage {
+  return {
+    id,
+    noteDate: "01-01-2024",
+    type: "inline",
+    filename: `${id}.png`,
+    mimeType: "image/png",
+    width: 10,
+    height: 10,
+    size: 100,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    deletedAt,
+  };
+}
+
+describe("loadTrash", () => {
+  it("merges notes and images, most recently deleted first", async () => {
+    const { repository, imageRepository } = createRepos(
+      [
+        deletedNote("01-01-2024", "<div>First <b>day</b></div>", "2024-02-01T00:00:00.000Z"),
+        deletedNote("02-01-2024", "<div>Second</div>", "2024-02-03T00:00:00.000Z"),
+      ],
+      [deletedImage("img-1", "2024-02-02T00:00:00.000Z")],
+    );
+
+    const items = await loadTrash(repository, imageRepository);
+
+    expect(items.map((item) => item.key)).toEqual([
+      "note:02-01-2024",
+      "image:img-1",
+      "note:01-01-2024",
+    ]);
+    const first = items[2];
+    expect(first.kind === "note" && first.preview).toBe("First day");
+  });
+
+  it("lists nothing when the repositories can't track deletions", async () => {
+    const { repository } = createRepos([], []);
+    delete repository.getDeleted;
+    expect(await loadTrash(repository, null)).toEqual([]);
+  });
+});
+
+describe("restoreTrashItems and purgeTrashItems", () => {
+  it("dispatch to the note or image repository", async () => {
+    const { repository, imageRepository, calls } = createRepos(
+      [deletedNote("01-01-2024", "<div>x</div>", "2024-02-01T00:00:00.000Z")],
+      [deletedImage("img-1", "2024-02-02T00:00:00.000Z")],
+    );
+    const items = await loadTrash(repository, imageRepository);
+
+    const summary = await restoreTrashItems(repository, imageRepository, items);
+
+    expect(summary).toEqual({ done: 2, failed: [] });
+    expect(calls).toEqual(["restore image img-1", "restore note 01-01-2024"]);
+  });
+
+  it("reports items that could not be purged", async () => {
+    const { repository, imageRepository, calls } = createRepos(
+      [
+        deletedNote("01-01-2024", "<div>x</div>", "2024-02-01T00:00:00.000Z"),
+        deletedNote("02-01-2024", "<div>y</div>", "2024-02-02T00:00:00.000Z"),
+      ],
+      [],
+    );
+    const items = await loadTrash(repository, imageRepository);
+
+    const summary = await purgeTrashItems(repository, imageRepository, items);
+
+    expect(summary).toEqual({ done: 1, failed: ["note:02-01-2024"] });
+    expect(calls).toEqual(["purge note 02-01-2024", "purge note 01-01-2024"]);
+  });
+});
@@ -132,6 +132,7 @@ describe("serializeUrlState", () => {
       view: ViewType.Day,
       date: "15-06-2024",
       year: 2024,
+      journalId: "default",
     });
     expect(url).toBe(`?${URL_PARAMS.DATE}=15-06-2024`);
   });
@@ -141,6 +142,7 @@ describe("serializeUrlState", () => {
       view: ViewType.Calendar,
       date: null,
       year: 2024,
+      journalId: "default",
     });
     expect(url).toBe(`?${URL_PARAMS.YEAR}=2024`);
   });
@@ -150,6 +152,7 @@ describe("serializeUrlState", () => {
       view: ViewType.Day,
       date: null,
       year: 2024,
+      journalId: "default",
     });
     expect(url).toBe("/");
   });
@@ -169,4 +172,31 @@ describe("resolveUrlState / serializeUrlState round-trip", () => {
     const serialized = serializeUrlState(resolved.state);
     expect(serialized).toBe(original);
   });
+
+  it("round-trips a date URL in another journal", () => {
+    const original = "?date=15-06-2023&journal=a1b2c3d4e5f60718";
+    const resolved = resolveUrlState(original);
+    expect(resolved.state.journalId).toBe("a1b2c3d4e5f60718");
+    expect(serializeUrlState(resolved.state)).toBe(original);
+  });
+});
+
+describe("journal param", () => {
+  it("defaults to the default journal without a param", () => {
+    expect(resolveUrlState("?year=2023").state.journalId).toBe("default");
+  });
+
+  it("keeps the journal on the default view", () => {
+    const result = resolveUrlState("?journal=a1b2c3d4e5f60718");
+    expect(result.state.view).toBe(ViewType.Calendar);
+    expect(result.canonicalSearch).toBe("?journal=a1b2c3d4e5f60718");
+    expect(result.needsRedirect).toBe(false);
+  });
+
+  it("redirects an invalid journal to the default journal", () => {
+    const result = resolveUrlState("?year=2023&journal=..%2Fx");
+    expect(result.state.journalId).toBe("default");
+    expect(result.canonicalSearch).toBe("?year=2023");
+    expect(result.needsRedirect).toBe(true);
+  });
 });
@@ -45,6 +45,7 @@ vi.mock("../storage/unifiedDb", () => ({
 vi.mock("../services/vaultService", () => ({
   ensureCloudKeyringPassword: vi.fn(),
   fetchAndUnwrapCloudKeyring: vi.fn(),
+  recoverCloudVault: vi.fn(),
 }));
 
 vi.mock("../storage/vault", async () => {
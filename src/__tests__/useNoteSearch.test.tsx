@@ -203,4 +203,80 @@ describe("useNoteSearch", () => {
     // No additional get() calls
     expect(getMock.mock.calls.length).toBe(callsAfterFirst);
   });
+
+  it("uses the repository search index instead of loading every note", async () => {
+    const getMock = vi.fn().mockResolvedValue(ok(null));
+    const indexSearch = vi.fn().mockResolvedValue(
+      ok([
+        {
+          date: "02-01-2026",
+          text: "Lunch with Sam at noon",
+          sectionTypes: [],
+          hasImage: false,
+          hasWeather: false,
+        },
+      ]),
+    );
+    const repo = {
+      ...createMockNoteRepository({ get: getMock }),
+      searchIndex: { search: indexSearch },
+    };
+
+    const { result } = renderHook(() =>
+      useNoteSearch(repo, new Set(["02-01-2026"])),
+    );
+
+    act(() => {
+      result.current.search("sam");
+    });
+
+    await waitFor(() => {
+      expect(result.current.results).toHaveLength(1);
+    });
+
+    expect(result.current.results[0].snippet).toBe("Lunch with Sam at noon");
+    expect(result.current.results[0].highlights).toEqual([
+      { start: 11, length: 3 },
+    ]);
+    expect(indexSearch).toHaveBeenCalledWith(
+      expect.objectContaining({ terms: ["sam"] }),
+      expect.any(Object),
+    );
+    expect(getMock).not.toHaveBeenCalled();
+  });
+
+  it("highlights every matched term and applies filters", async () => {
+    const repo = createMockNoteRepository({
+      get: vi.fn().mockImplementation((date: string) =>
+        Promise.resolve(
+          ok(
+            makeNote(
+              date,
+              date === "01-01-2026"
+                ? '<div data-section-type="work">+work</div><div>deploy then review</div>'
+                : "<div>deploy then review</div>",
+            ),
+          ),
+        ),
+      ),
+    });
+
+    const dates = new Set(["01-01-2026", "02-01-2026"]);
+    const { result } = renderHook(() => useNoteSearch(repo, dates));
+
+    act(() => {
+      result.current.search("review deploy type:work");
+    });
+
+    await waitFor(() => {
+      expect(result.current.results).toHaveLength(1);
+    });
+
+    const [hit] = result.current.results;
+    expect(hit.date).toBe("01-01-2026");
+    const marked = hit.highlights.map(({ start, length }) =>
+      hit.snippet.slice(start, start + length),
+    );
+    expect(marked).toEqual(["deploy", "review"]);
+  });
 });
@@ -13,6 +13,9 @@ function createVaultService(
     getHasLocalVault: vi.fn(),
     bootstrapLocalVault: vi.fn(),
     unlockLocalVault: vi.fn(),
+    hasLocalPasskey: vi.fn().mockReturnValue(false),
+    unlockLocalVaultWithPasskey: vi.fn(),
+    unlockCloudVaultWithPasskey: vi.fn(),
     ...overrides,
   };
 }
@@ -129,6 +132,108 @@ describe("vaultReducer", () => {
     expect(next.phase).toBe("locked");
   });
 
+  it("unlocks with a passkey from the locked phase", () => {
+    const locked: VaultState = {
+      ...initialState(),
+      phase: "locked",
+      userId: "user-1",
+      isReady: true,
+    };
+    const busy = vaultReducer(locked, { type: "PASSKEY_UNLOCK_START" });
+    expect(busy.phase).toBe("locked");
+    expect(busy.isBusy).toBe(true);
+
+    const vaultKey = {} as CryptoKey;
+    const next = vaultReducer(busy, {
+      type: "PASSKEY_UNLOCKED",
+      vaultKey,
+      keyring: new Map([["k1", vaultKey]]),
+      primaryKeyId: "k1",
+    });
+    expect(next.phase).toBe("ready");
+    expect(next.vaultKey).toBe(vaultKey);
+    expect(next.isBusy).toBe(false);
+  });
+
+  it("keeps the vault locked when passkey unlock fails", () => {
+    const state: VaultState = {
+      ...initialState(),
+      phase: "locked",
+      isBusy: true,
+      isReady: true,
+    };
+    const next = vaultReducer(state, {
+      type: "PASSKEY_UNLOCK_FAILED",
+      error: "cancelled",
+    });
+    expect(next.phase).toBe("locked");
+    expect(next.isBusy).toBe(false);
+    expect(next.error).toBe("cancelled");
+  });
+
+  it("ignores a passkey result once a password unlock has started", () => {
+    const state: VaultState = {
+      ...initialState(),
+      phase: "unlocking",
+      password: "secret",
+      isBusy: true,
+    };
+    const next = vaultReducer(state, {
+      type: "PASSKEY_UNLOCKED",
+      vaultKey: {} as CryptoKey,
+      keyring: new Map(),
+      primaryKeyId: "k1",
+    });
+    expect(next).toBe(state);
+  });
+
+  it("locks a ready vault without reusing its password", () => {
+    const vs = createVaultService();
+    const vaultKey = {} as CryptoKey;
+    const ready: VaultState = {
+      ...initialState(),
+      phase: "ready",
+      vaultService: vs,
+      userId: "user-1",
+      password: "secret",
+      vaultKey,
+      keyring: new Map([["k1", vaultKey]]),
+      primaryKeyId: "k1",
+      isReady: true,
+    };
+    const locked = vaultReducer(ready, { type: "LOCK" });
+    expect(locked.phase).toBe("locked");
+    expect(locked.vaultKey).toBeNull();
+    expect(locked.keyring.size).toBe(0);
+
+    const next = vaultReducer(locked, {
+      type: "INPUTS_CHANGED",
+      vaultService: vs,
+      user: createUser(),
+      password: "secret",
+      localDek: null,
+      localKeyring: new Map(),
+    });
+    expect(next.phase).toBe("locked");
+  });
+
+  it("unlocks with the device key again only from the locked phase", () => {
+    const locked: VaultState = {
+      ...initialState(),
+      phase: "locked",
+      userId: "user-1",
+      isReady: true,
+    };
+    expect(vaultReducer(locked, { type: "DEVICE_UNLOCK_START" }).phase).toBe(
+      "deviceUnlocking",
+    );
+
+    const unlocking: VaultState = { ...locked, phase: "unlocking" };
+    expect(vaultReducer(unlocking, { type: "DEVICE_UNLOCK_START" })).toBe(
+      unlocking,
+    );
+  });
+
   it("clears error", () => {
     const state: VaultState = {
       ...initialState(),
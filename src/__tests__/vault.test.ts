@@ -5,7 +5,12 @@ import {
   updatePasswordWrappedKey,
   tryUnlockWithDeviceKey,
   closeVaultDb,
+  loadVaultMeta,
 } from "../storage/vault";
+import { DEFAULT_KDF, type KdfParams } from "../storage/kdf";
+
+// Cheap settings so the lifecycle tests don't pay for the real KDF
+const FAST_KDF: KdfParams = { algorithm: "pbkdf2-sha256", iterations: 1000 };
 
 async function clearVaultDb(): Promise<void> {
   closeVaultDb();
@@ -30,7 +35,7 @@ describe("vault lifecycle", () => {
   });
 
   it("creates and unlocks a vault with the same key", async () => {
-    const vaultKey = await createVault("hunter2", { kdfIterations: 1000 });
+    const vaultKey = await createVault("hunter2", { kdf: FAST_KDF });
     const unlocked = await unlockWithPassword("hunter2");
 
     const [originalBytes, unlockedBytes] = await Promise.all([
@@ -42,9 +47,9 @@ describe("vault lifecycle", () => {
   });
 
   it("rotates the password wrap and invalidates the old password", async () => {
-    const vaultKey = await createVault("old-password", { kdfIterations: 1000 });
+    const vaultKey = await createVault("old-password", { kdf: FAST_KDF });
     await updatePasswordWrappedKey(vaultKey, "new-password", {
-      kdfIterations: 1000,
+      kdf: FAST_KDF,
     });
 
     const unlocked = await unlockWithPassword("new-password");
@@ -58,7 +63,7 @@ describe("vault lifecycle", () => {
   });
 
   it("unlocks via the device key when available", async () => {
-    const vaultKey = await createVault("device-pass", { kdfIterations: 1000 });
+    const vaultKey = await createVault("device-pass", { kdf: FAST_KDF });
     const unlocked = await tryUnlockWithDeviceKey();
 
     if (!unlocked) {
@@ -73,4 +78,25 @@ describe("vault lifecycle", () => {
 
     expect(Array.from(unlockedBytes)).toEqual(Array.from(originalBytes));
   });
+
+  it("re-wraps a PBKDF2 vault with Argon2id on unlock", async () => {
+    const vaultKey = await createVault("upgrade-me", { kdf: FAST_KDF });
+    await unlockWithPassword("upgrade-me");
+
+    expect(loadVaultMeta()?.kdf).toMatchObject(DEFAULT_KDF);
+    const unlocked = await unlockWithPassword("upgrade-me");
+    const [originalBytes, unlockedBytes] = await Promise.all([
+      exportKeyBytes(vaultKey),
+      exportKeyBytes(unlocked),
+    ]);
+    expect(Array.from(unlockedBytes)).toEqual(Array.from(originalBytes));
+  });
+
+  it("leaves the wrapping alone when the password is wrong", async () => {
+    await createVault("right", { kdf: FAST_KDF });
+    const before = loadVaultMeta();
+
+    await expect(unlockWithPassword("wrong")).rejects.toThrow();
+    expect(loadVaultMeta()).toEqual(before);
+  });
 });
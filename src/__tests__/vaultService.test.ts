@@ -8,9 +8,15 @@ import {
   unlockLocalVault,
   tryDeviceUnlockCloudKey,
   reencryptCloudNotes,
+  createRecoveryPhrase,
+  recoverCloudVault,
+  addCloudPasskey,
+  unlockCloudVaultWithPasskey,
 } from "../services/vaultService";
 import {
+  base64ToBytes,
   bytesToBase64,
+  decodeUtf8,
   encodeUtf8,
   randomBytes,
 } from "../storage/cryptoUtils";
@@ -18,6 +24,11 @@ import { deleteUserKeyringEntry } from "../storage/userKeyring";
 import {
   fetchUserKeyring,
   saveUserKeyringEntry,
+  fetchRecoveryKeyring,
+  saveRecoveryKeyringEntry,
+  deleteRecoveryKeyring,
+  fetchPasskeyKeyring,
+  savePasskeyKeyringEntry,
 } from "../storage/userKeyring";
 import type { UserKeyringEntry } from "../storage/userKeyring";
 import {
@@ -25,7 +36,6 @@ import {
   deriveKEK,
   wrapDEK,
   generateSalt,
-  DEFAULT_KDF_ITERATIONS,
   closeVaultDb,
   storeDeviceWrappedDEK,
   storeDeviceEncryptedPassword,
@@ -33,11 +43,38 @@ import {
   clearDeviceEncryptedPassword,
 } from "../storage/vault";
 import { computeKeyId } from "../storage/keyId";
+import {
+  isDeviceUnlockSuspended,
+  suspendDeviceUnlock,
+} from "../storage/vaultLock";
+import { DEFAULT_KDF, toKdfFields, type KdfParams } from "../storage/kdf";
+import {
+  getPasskeyWrappingKey,
+  registerPasskey,
+  type PasskeyWrappingKey,
+} from "../storage/passkey";
+import { fetchJournalKeyIds } from "../storage/journals";
+import { createFakeSupabase } from "./helpers/mocks";
 
 vi.mock("../storage/userKeyring", () => ({
   fetchUserKeyring: vi.fn(),
   saveUserKeyringEntry: vi.fn(),
   deleteUserKeyringEntry: vi.fn(),
+  fetchRecoveryKeyring: vi.fn(),
+  saveRecoveryKeyringEntry: vi.fn(),
+  deleteRecoveryKeyring: vi.fn(),
+  fetchPasskeyKeyring: vi.fn(),
+  savePasskeyKeyringEntry: vi.fn(),
+  deletePasskeyKeyring: vi.fn(),
+}));
+
+vi.mock("../storage/passkey", () => ({
+  registerPasskey: vi.fn(),
+  getPasskeyWrappingKey: vi.fn(),
+}));
+
+vi.mock("../storage/journals", () => ({
+  fetchJournalKeyIds: vi.fn(),
 }));
 
 const mockFetchUserKeyring = fetchUserKeyring as MockedFunction<
@@ -49,6 +86,27 @@ const mockSaveUserKeyringEntry = saveUserKeyringEntry as MockedFunction<
 const mockDeleteUserKeyringEntry = deleteUserKeyringEntry as MockedFunction<
   typeof deleteUserKeyringEntry
 >;
+const mockFetchRecoveryKeyring = fetchRecoveryKeyring as MockedFunction<
+  typeof fetchRecoveryKeyring
+>;
+const mockSaveRecoveryKeyringEntry = saveRecoveryKeyringEntry as MockedFunction<
+  typeof saveRecoveryKeyringEntry
+>;
+const mockDeleteRecoveryKeyring = deleteRecoveryKeyring as MockedFunction<
+  typeof deleteRecoveryKeyring
+>;
+const mockFetchPasskeyKeyring = fetchPasskeyKeyring as MockedFunction<
+  typeof fetchPasskeyKeyring
+>;
+const mockSavePasskeyKeyringEntry = savePasskeyKeyringEntry as MockedFunction<
+  typeof savePasskeyKeyringEntry
+>;
+const mockRegisterPasskey = registerPasskey as MockedFunction<
+  typeof registerPasskey
+>;
+const mockGetPasskeyWrappingKey = getPasskeyWrappingKey as MockedFunction<
+  typeof getPasskeyWrappingKey
+>;
 
 async function clearVaultDb(): Promise<void> {
   closeVaultDb();
@@ -78,9 +136,10 @@ async function createKeyringEntry(
   dek: CryptoKey,
   password: string,
   isPrimary: boolean,
+  kdf: KdfParams = DEFAULT_KDF,
 ): Promise<UserKeyringEntry> {
   const salt = generateSalt();
-  const kek = await deriveKEK(password, salt, DEFAULT_KDF_ITERATIONS);
+  const kek = await deriveKEK(password, salt, kdf);
   const wrapped = await wrapDEK(dek, kek);
   const keyId = await computeKeyId(dek);
   return {
@@ -88,7 +147,7 @@ async function createKeyringEntry(
     wrappedDek: wrapped.data,
     dekIv: wrapped.iv,
     kdfSalt: salt,
-    kdfIterations: DEFAULT_KDF_ITERATIONS,
+    ...toKdfFields(kdf),
     version: 1,
     isPrimary,
   };
@@ -131,6 +190,38 @@ describe("unlockCloudVault", () => {
     );
   });
 
+  it("creates a recovery phrase only when it creates the vault", async () => {
+    mockFetchUserKeyring.mockResolvedValue([]);
+    mockSaveUserKeyringEntry.mockResolvedValue();
+    mockSaveRecoveryKeyringEntry.mockReset();
+
+    const created = await unlockCloudVault({
+      supabase: createMockSupabase() as never,
+      userId: "user-1",
+      password: "test-password",
+      localDek: null,
+      localKeyring: new Map(),
+    });
+
+    expect(created.recoveryPhrase?.split(" ")).toHaveLength(18);
+    expect(mockSaveRecoveryKeyringEntry).toHaveBeenCalledWith(
+      expect.anything(),
+      "user-1",
+      expect.objectContaining({ keyId: created.primaryKeyId, isPrimary: true }),
+    );
+
+    const entry = mockSaveUserKeyringEntry.mock.calls[0][2];
+    mockFetchUserKeyring.mockResolvedValue([entry]);
+    const unlocked = await unlockCloudVault({
+      supabase: createMockSupabase() as never,
+      userId: "user-1",
+      password: "test-password",
+      localDek: null,
+      localKeyring: new Map(),
+    });
+    expect(unlocked.recoveryPhrase).toBeNull();
+  });
+
   it("uses local DEK when user has no keyring but has local DEK", async () => {
     mockFetchUserKeyring.mockResolvedValue([]);
     mockSaveUserKeyringEntry.mockResolvedValue();
@@ -293,6 +384,54 @@ describe("rewrapCloudKeyring", () => {
     mockSaveUserKeyringEntry.mockReset();
   });
 
+  it("re-wraps PBKDF2 entries with Argon2id after unlocking", async () => {
+    const pbkdf2: KdfParams = { algorithm: "pbkdf2-sha256", iterations: 1000 };
+    const dekA = await generateDEK();
+    const dekB = await generateDEK();
+    const entryA = await createKeyringEntry(dekA, "test-password", true, pbkdf2);
+    const entryB = await createKeyringEntry(dekB, "test-password", false, pbkdf2);
+    mockFetchUserKeyring.mockResolvedValue([entryA, entryB]);
+    mockSaveUserKeyringEntry.mockResolvedValue();
+
+    await unlockCloudVault({
+      supabase: createMockSupabase() as never,
+      userId: "user-1",
+      password: "test-password",
+      localDek: null,
+      localKeyring: new Map(),
+    });
+
+    const upgraded = mockSaveUserKeyringEntry.mock.calls.map((call) => call[2]);
+    expect(upgraded).toHaveLength(2);
+    expect(upgraded.map((entry) => [entry.keyId, entry.isPrimary])).toEqual([
+      [entryA.keyId, true],
+      [entryB.keyId, false],
+    ]);
+    for (const entry of upgraded) {
+      expect(entry).toMatchObject({
+        kdfAlgorithm: "argon2id",
+        kdfIterations: DEFAULT_KDF.iterations,
+        kdfMemoryKiB: DEFAULT_KDF.memoryKiB,
+      });
+    }
+    // One KEK derivation covers the whole batch
+    expect(upgraded[0].kdfSalt).toBe(upgraded[1].kdfSalt);
+
+    mockSaveUserKeyringEntry.mockClear();
+    mockFetchUserKeyring.mockResolvedValue(upgraded);
+    const result = await unlockCloudVault({
+      supabase: createMockSupabase() as never,
+      userId: "user-1",
+      password: "test-password",
+      localDek: null,
+      localKeyring: new Map(),
+    });
+
+    expect(await keysEqual(result.keyring.get(entryA.keyId)!, dekA)).toBe(true);
+    expect(await keysEqual(result.keyring.get(entryB.keyId)!, dekB)).toBe(true);
+    expect(mockSaveUserKeyringEntry).not.toHaveBeenCalled();
+  });
+
   it("re-wraps keyring with new password so it can be unlocked", async () => {
     const dek = await generateDEK();
     const keyId = await computeKeyId(dek);
@@ -346,6 +485,195 @@ describe("rewrapCloudKeyring", () => {
   });
 });
 
+describe("recoverCloudVault", () => {
+  vi.setConfig({ testTimeout: 30000 });
+
+  beforeEach(async () => {
+    localStorage.clear();
+    await clearVaultDb();
+    mockFetchUserKeyring.mockReset();
+    mockSaveUserKeyringEntry.mockReset();
+    mockFetchRecoveryKeyring.mockReset();
+    mockSaveRecoveryKeyringEntry.mockReset();
+    mockDeleteRecoveryKeyring.mockReset();
+    mockSaveUserKeyringEntry.mockResolvedValue();
+    mockSaveRecoveryKeyringEntry.mockResolvedValue();
+    mockDeleteRecoveryKeyring.mockResolvedValue();
+  });
+
+  async function setUpRecovery(dek: CryptoKey): Promise<string> {
+    const keyId = await computeKeyId(dek);
+    const phrase = await createRecoveryPhrase({
+      supabase: createMockSupabase() as never,
+      userId: "user-1",
+      keyring: new Map([[keyId, dek]]),
+      primaryKeyId: keyId,
+    });
+    mockFetchRecoveryKeyring.mockResolvedValue(
+      mockSaveRecoveryKeyringEntry.mock.calls.map((call) => call[2]),
+    );
+    return phrase;
+  }
+
+  it("replaces earlier phrases when creating one", async () => {
+    const dek = await generateDEK();
+    await setUpRecovery(dek);
+    expect(mockDeleteRecoveryKeyring).toHaveBeenCalledWith(
+      expect.anything(),
+      "user-1",
+      [await computeKeyId(dek)],
+    );
+    expect(mockSaveRecoveryKeyringEntry).toHaveBeenCalledTimes(1);
+    // Stale wrappings go only once the new ones are saved
+    expect(
+      mockSaveRecoveryKeyringEntry.mock.invocationCallOrder[0],
+    ).toBeLessThan(mockDeleteRecoveryKeyring.mock.invocationCallOrder[0]);
+  });
+
+  it("unlocks with the phrase and re-wraps the keyring with a new password", async () => {
+    const dek = await generateDEK();
+    const phrase = await setUpRecovery(dek);
+
+    // Typed loosely: upper case, extra spacing, four-letter prefixes
+    const typed = phrase
+      .split(" ")
+      .map((word, i) => (i % 2 ? word.slice(0, 4) : word.toUpperCase()))
+      .join("  ");
+    const recovered = await recoverCloudVault({
+      supabase: createMockSupabase() as never,
+      userId: "user-1",
+      phrase: typed,
+      newPassword: "new-password",
+    });
+
+    expect(await keysEqual(recovered.vaultKey!, dek)).toBe(true);
+
+    mockFetchUserKeyring.mockResolvedValue(
+      mockSaveUserKeyringEntry.mock.calls.map((call) => call[2]),
+    );
+    const unlocked = await unlockCloudVault({
+      supabase: createMockSupabase() as never,
+      userId: "user-1",
+      password: "new-password",
+      localDek: null,
+      localKeyring: new Map(),
+    });
+    expect(await keysEqual(unlocked.vaultKey!, dek)).toBe(true);
+  });
+
+  it("rejects a mistyped phrase before touching the keyring", async () => {
+    const phrase = await setUpRecovery(await generateDEK());
+    const words = phrase.split(" ");
+    words[words.length - 1] = words[words.length - 1] === "zebra" ? "acorn" : "zebra";
+
+    await expect(
+      recoverCloudVault({
+        supabase: createMockSupabase() as never,
+        userId: "user-1",
+        phrase: words.join(" "),
+        newPassword: "new-password",
+      }),
+    ).rejects.toThrow("isn't valid");
+    expect(mockSaveUserKeyringEntry).not.toHaveBeenCalled();
+  });
+
+  it("rejects a valid phrase from another account", async () => {
+    await setUpRecovery(await generateDEK());
+    const otherPhrase = await createRecoveryPhrase({
+      supabase: createMockSupabase() as never,
+      userId: "user-2",
+      keyring: new Map(),
+      primaryKeyId: null,
+    });
+
+    await expect(
+      recoverCloudVault({
+        supabase: createMockSupabase() as never,
+        userId: "user-1",
+        phrase: otherPhrase,
+        newPassword: "new-password",
+      }),
+    ).rejects.toThrow("doesn't match");
+  });
+});
+
+describe("cloud passkeys", () => {
+  vi.setConfig({ testTimeout: 30000 });
+
+  let passkey: PasskeyWrappingKey;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    await clearVaultDb();
+    mockFetchUserKeyring.mockReset();
+    mockFetchPasskeyKeyring.mockReset();
+    mockSavePasskeyKeyringEntry.mockReset();
+    mockSavePasskeyKeyringEntry.mockResolvedValue();
+    passkey = {
+      credentialId: "credential-1",
+      prfSalt: bytesToBase64(randomBytes(32)),
+      key: await crypto.subtle.generateKey(
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["wrapKey", "unwrapKey"],
+      ),
+    };
+    mockRegisterPasskey.mockResolvedValue(passkey);
+    mockGetPasskeyWrappingKey.mockResolvedValue(passkey);
+  });
+
+  async function addPasskey(dek: CryptoKey, keyId: string): Promise<void> {
+    await addCloudPasskey({
+      supabase: createMockSupabase() as never,
+      userId: "user-1",
+      userName: "user@example.com",
+      keyring: new Map([[keyId, dek]]),
+    });
+    mockFetchPasskeyKeyring.mockResolvedValue(
+      mockSavePasskeyKeyringEntry.mock.calls.map((call) => call[2]),
+    );
+  }
+
+  it("unlocks the keyring with a passkey added earlier", async () => {
+    const dek = await generateDEK();
+    const entry = await createKeyringEntry(dek, "password", true);
+    mockFetchUserKeyring.mockResolvedValue([entry]);
+    await addPasskey(dek, entry.keyId);
+
+    const unlocked = await unlockCloudVaultWithPasskey({
+      supabase: createMockSupabase() as never,
+      userId: "user-1",
+    });
+
+    expect(unlocked.primaryKeyId).toBe(entry.keyId);
+    expect(await keysEqual(unlocked.vaultKey!, dek)).toBe(true);
+  });
+
+  it("rejects a passkey that predates the current primary key", async () => {
+    const oldDek = await generateDEK();
+    const oldEntry = await createKeyringEntry(oldDek, "password", true);
+    mockFetchUserKeyring.mockResolvedValue([oldEntry]);
+    await addPasskey(oldDek, oldEntry.keyId);
+
+    const newEntry = await createKeyringEntry(
+      await generateDEK(),
+      "password",
+      true,
+    );
+    mockFetchUserKeyring.mockResolvedValue([
+      { ...oldEntry, isPrimary: false },
+      newEntry,
+    ]);
+
+    await expect(
+      unlockCloudVaultWithPasskey({
+        supabase: createMockSupabase() as never,
+        userId: "user-1",
+      }),
+    ).rejects.toThrow("add the passkey again");
+  });
+});
+
 describe("ensureCloudKeyringPassword", () => {
   vi.setConfig({ testTimeout: 30000 });
 
@@ -490,6 +818,16 @@ describe("bootstrapLocalVault", () => {
     expect(result.vaultKey).not.toBeNull();
     expect(await keysEqual(result.vaultKey!, originalKey)).toBe(true);
   });
+
+  it("skips the device key while device unlock is suspended", async () => {
+    await bootstrapLocalVault();
+    suspendDeviceUnlock();
+
+    const result = await bootstrapLocalVault();
+
+    expect(result.requiresPassword).toBe(true);
+    expect(result.vaultKey).toBeNull();
+  });
 });
 
 describe("unlockLocalVault", () => {
@@ -500,6 +838,15 @@ describe("unlockLocalVault", () => {
     await clearVaultDb();
   });
 
+  it("allows device unlock again after a password unlock", async () => {
+    await unlockLocalVault({ password: "my-password", hasVault: false });
+    suspendDeviceUnlock();
+
+    await unlockLocalVault({ password: "my-password", hasVault: true });
+
+    expect(isDeviceUnlockSuspended()).toBe(false);
+  });
+
   it("creates vault when hasVault is false", async () => {
     const result = await unlockLocalVault({
       password: "my-password",
@@ -586,16 +933,20 @@ describe("reencryptCloudNotes", () => {
     mockFetchUserKeyring.mockReset();
     mockSaveUserKeyringEntry.mockReset();
     mockDeleteUserKeyringEntry.mockReset();
+    vi.mocked(fetchJournalKeyIds).mockResolvedValue({
+      noteKeys: [],
+      nameKeys: [],
+    });
   });
 
   // Encrypts a payload with the given key. Mirrors the AES-GCM call shape
   // used by the production code so we can produce a realistic Supabase row.
   async function encryptWithKey(
-    plaintext: string,
+    payload: Record<string, unknown>,
     key: CryptoKey,
   ): Promise<{ ciphertext: string; nonce: string }> {
     const iv = randomBytes(12);
-    const data = encodeUtf8(JSON.stringify({ content: plaintext }));
+    const data = encodeUtf8(JSON.stringify(payload));
     const out = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, data);
     return {
       ciphertext: bytesToBase64(new Uint8Array(out)),
@@ -603,6 +954,49 @@ describe("reencryptCloudNotes", () => {
     };
   }
 
+  async function decryptWithKey(
+    row: Record<string, unknown>,
+    key: CryptoKey,
+  ): Promise<unknown> {
+    const out = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: base64ToBytes(row.nonce as string) },
+      key,
+      base64ToBytes(row.ciphertext as string),
+    );
+    return JSON.parse(decodeUtf8(new Uint8Array(out)));
+  }
+
+  async function noteRow(
+    id: string,
+    journalId: string,
+    payload: Record<string, unknown>,
+    key: CryptoKey,
+  ) {
+    return {
+      id,
+      user_id: "user-1",
+      journal_id: journalId,
+      date: "25-04-2026",
+      key_id: await computeKeyId(key),
+      ...(await encryptWithKey(payload, key)),
+      updated_at: "2026-04-25T08:00:00.000Z",
+      _deleted: false,
+      // server_updated_at intentionally absent — matches what RxDB pushes.
+    };
+  }
+
+  function keyringEntry(keyId: string, isPrimary = false): UserKeyringEntry {
+    return {
+      keyId,
+      wrappedDek: "wrapped",
+      dekIv: "iv",
+      kdfSalt: "salt",
+      kdfIterations: 1,
+      version: 1,
+      isPrimary,
+    };
+  }
+
   it("re-encrypts notes pushed under non-primary keys (regression: post-RxDB schema)", async () => {
     // Regression for the silent no-op: the re-encrypt routine used the
     // legacy parser (parseRemoteNoteRow) which required server_updated_at
@@ -615,59 +1009,23 @@ describe("reencryptCloudNotes", () => {
     const oldKeyId = await computeKeyId(oldKey);
     const primaryKeyId = await computeKeyId(primaryKey);
 
-    const { ciphertext, nonce } = await encryptWithKey("today's content", oldKey);
-    const row = {
+    const payload = {
+      content: "today's content",
+      weather: { icon: "sun", temperatureHigh: 20 },
       date: "25-04-2026",
-      key_id: oldKeyId,
-      ciphertext,
-      nonce,
-      updated_at: "2026-04-25T08:00:00.000Z",
-      // server_updated_at intentionally absent — matches what RxDB pushes.
-    };
-
-    let updateCalledWith: Record<string, unknown> | null = null;
-    let updateEqs: Array<[string, unknown]> = [];
-    const updateChain = {
-      eq: vi.fn(function (this: { __eqs: Array<[string, unknown]> }, col: string, val: unknown) {
-        this.__eqs.push([col, val]);
-        return this;
-      }),
-      then: undefined,
-    };
-    const supabase = {
-      from: vi.fn((_table: string) => {
-        return {
-          select: () => ({
-            eq: () => ({
-              eq: () => Promise.resolve({ data: [row], error: null }),
-            }),
-          }),
-          update: vi.fn((patch: Record<string, unknown>) => {
-            updateCalledWith = patch;
-            updateEqs = [];
-            const chain = {
-              __eqs: updateEqs,
-              eq: updateChain.eq,
-            };
-            // After two .eq() calls (user_id, date), await resolves.
-            return new Proxy(chain, {
-              get(target, prop) {
-                if (prop === "then") {
-                  return (resolve: (v: unknown) => void) =>
-                    resolve({ data: [row], error: null });
-                }
-                return (target as Record<string, unknown>)[prop as string];
-              },
-            });
-          }),
-        };
-      }),
     };
+    const { supabase, tables } = createFakeSupabase({
+      notes: [
+        await noteRow("row-1", "default", payload, oldKey),
+        await noteRow("row-2", "work", { content: "work" }, primaryKey),
+      ],
+    });
+    const untouched = { ...tables.notes[1] };
 
     mockFetchUserKeyring.mockResolvedValue([]);
 
     const result = await reencryptCloudNotes({
-      supabase: supabase as never,
+      supabase,
       userId: "user-1",
       password: "pw",
       keyring: new Map([
@@ -678,43 +1036,29 @@ describe("reencryptCloudNotes", () => {
     });
 
     expect(result.reencrypted).toBe(1);
-    expect(updateCalledWith).not.toBeNull();
-    expect((updateCalledWith as unknown as Record<string, unknown>)!.key_id).toBe(primaryKeyId);
+    const [moved, other] = tables.notes;
+    expect(moved.key_id).toBe(primaryKeyId);
     // updated_at must NOT be bumped — bumping it would invalidate any
     // in-flight push from a peer device's optimistic-concurrency check
     // and silently drop their edit on the next conflict resolution.
-    expect((updateCalledWith as unknown as Record<string, unknown>)!).not.toHaveProperty("updated_at");
+    expect(moved.updated_at).toBe("2026-04-25T08:00:00.000Z");
+    // Weather and the date stay in the payload
+    expect(await decryptWithKey(moved, primaryKey)).toEqual(payload);
+    // Only this journal's row: other journals have notes for the same date
+    expect(other).toEqual(untouched);
   });
 
   it("skips rows already encrypted with the primary key", async () => {
     const primaryKey = await generateDEK();
     const primaryKeyId = await computeKeyId(primaryKey);
-    const { ciphertext, nonce } = await encryptWithKey("hi", primaryKey);
-
-    const row = {
-      date: "25-04-2026",
-      key_id: primaryKeyId,
-      ciphertext,
-      nonce,
-      updated_at: "2026-04-25T08:00:00.000Z",
-    };
-
-    const updateFn = vi.fn();
-    const supabase = {
-      from: vi.fn(() => ({
-        select: () => ({
-          eq: () => ({
-            eq: () => Promise.resolve({ data: [row], error: null }),
-          }),
-        }),
-        update: updateFn,
-      })),
-    };
+    const row = await noteRow("row-1", "default", { content: "hi" }, primaryKey);
+    const { supabase, tables } = createFakeSupabase({ notes: [row] });
+    const before = { ...row };
 
     mockFetchUserKeyring.mockResolvedValue([]);
 
     const result = await reencryptCloudNotes({
-      supabase: supabase as never,
+      supabase,
       userId: "user-1",
       password: "pw",
       keyring: new Map([[primaryKeyId, primaryKey]]),
@@ -722,6 +1066,47 @@ describe("reencryptCloudNotes", () => {
     });
 
     expect(result.reencrypted).toBe(0);
-    expect(updateFn).not.toHaveBeenCalled();
+    expect(tables.notes[0]).toEqual(before);
+  });
+
+  it("leaves journal keys, their notes and the date index key alone", async () => {
+    const primaryKey = await generateDEK();
+    const journalKey = await generateDEK();
+    const primaryKeyId = await computeKeyId(primaryKey);
+    const journalKeyId = await computeKeyId(journalKey);
+    const row = await noteRow("row-1", "work", { content: "hi" }, journalKey);
+    const { supabase, tables } = createFakeSupabase({
+      notes: [row],
+      user_settings: [{ user_id: "user-1", date_index_key_id: "index-key" }],
+    });
+    const before = { ...row };
+
+    vi.mocked(fetchJournalKeyIds).mockResolvedValue({
+      noteKeys: [journalKeyId],
+      nameKeys: ["name-key"],
+    });
+    mockFetchUserKeyring.mockResolvedValue([
+      keyringEntry(primaryKeyId, true),
+      keyringEntry(journalKeyId),
+      keyringEntry("name-key"),
+      keyringEntry("index-key"),
+      keyringEntry("stale-key"),
+    ]);
+    mockSaveUserKeyringEntry.mockResolvedValue(undefined);
+
+    const result = await reencryptCloudNotes({
+      supabase,
+      userId: "user-1",
+      password: "pw",
+      keyring: new Map([
+        [primaryKeyId, primaryKey],
+        [journalKeyId, journalKey],
+      ]),
+      primaryKeyId,
+    });
+
+    expect(result).toEqual({ reencrypted: 0, deleted: ["stale-key"] });
+    expect(tables.notes[0]).toEqual(before);
+    expect(mockDeleteUserKeyringEntry).toHaveBeenCalledTimes(1);
   });
 });
@@ -0,0 +1,49 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from "vitest";
+import { diffWords, noteDiffText } from "../utils/wordDiff";
+
+function apply(parts: ReturnType<typeof diffWords>, skip: "added" | "removed") {
+  return parts
+    .filter((part) => part.type !== skip)
+    .map((part) => part.text)
+    .join("");
+}
+
+describe("diffWords", () => {
+  it("marks changed words and keeps the rest equal", () => {
+    expect(diffWords("the quick brown fox", "the slow brown fox")).toEqual([
+      { type: "equal", text: "the " },
+      { type: "removed", text: "quick" },
+      { type: "added", text: "slow" },
+      { type: "equal", text: " brown fox" },
+    ]);
+  });
+
+  it("handles insertions and deletions at either end", () => {
+    expect(diffWords("b c", "a b c d")).toEqual([
+      { type: "added", text: "a " },
+      { type: "equal", text: "b c" },
+      { type: "added", text: " d" },
+    ]);
+    expect(diffWords("a b c", "")).toEqual([
+      { type: "removed", text: "a b c" },
+    ]);
+    expect(diffWords("", "")).toEqual([]);
+  });
+
+  it("reconstructs both texts", () => {
+    const before = "Walked to the park.\nSaw a heron by the pond, then rain.";
+    const after = "Walked to the old park.\nSaw two herons by the pond.\nRain later.";
+    const parts = diffWords(before, after);
+    expect(apply(parts, "added")).toBe(before);
+    expect(apply(parts, "removed")).toBe(after);
+  });
+});
+
+describe("noteDiffText", () => {
+  it("keeps block boundaries as line breaks and dividers as blank lines", () => {
+    expect(
+      noteDiffText("<div>First <b>line</b></div><div>Second</div><hr><p>Third<br>Fourth</p>"),
+    ).toBe("First line\nSecond\n\nThird\nFourth");
+  });
+});
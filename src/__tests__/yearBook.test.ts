@@ -0,0 +1,159 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from "vitest";
+import {
+  buildYearBookHtml,
+  yearBookFilename,
+  yearRange,
+} from "../services/yearBook";
+import { ok } from "../domain/result";
+import type { Note } from "../types";
+import type { NoteRepository } from "../storage/noteRepository";
+import type { ImageRepository } from "../storage/imageRepository";
+
+function createRepo(notes: Note[]): NoteRepository {
+  const byDate = new Map(notes.map((note) => [note.date, note]));
+  return {
+    get: async (date) => ok(byDate.get(date) ?? null),
+    save: async () => ok(undefined),
+    delete: async () => ok(undefined),
+    getAllDates: async () => ok(Array.from(byDate.keys())),
+    getAllDatesForYear: async () => ok([]),
+  };
+}
+
+function note(date: string, content: string, extra: Partial<Note> = {}): Note {
+  return { date, content, updatedAt: "2024-01-01T00:00:00.000Z", ...extra };
+}
+
+function parse(html: string): Document {
+  return new DOMParser().parseFromString(html, "text/html");
+}
+
+describe("buildYearBookHtml", () => {
+  it("includes only notes in range, in chronological order", async () => {
+    const repo = createRepo([
+      note("15-03-2024", "<div>March</div>"),
+      note("02-01-2024", "<div>January</div>"),
+      note("31-12-2023", "<div>Last year</div>"),
+      note("01-01-2025", "<div>Next year</div>"),
+    ]);
+
+    const html = await buildYearBookHtml(repo, { range: yearRange(2024) });
+    const doc = parse(html!);
+
+    expect(doc.title).toBe("Ichinichi 2024");
+    const headings = Array.from(doc.querySelectorAll(".day h2")).map(
+      (h) => h.textContent,
+    );
+    expect(headings).toEqual(["Tuesday, January 2, 2024", "Friday, March 15, 2024"]);
+    expect(doc.body.textContent).not.toContain("Last year");
+    expect(doc.body.textContent).not.toContain("Next year");
+  });
+
+  it("returns null when the range has no notes", async () => {
+    const repo = createRepo([note("01-06-2023", "<div>Old</div>")]);
+    expect(await buildYearBookHtml(repo, { range: yearRange(2024) })).toBeNull();
+  });
+
+  it("adds weather labels, section hues and keeps timestamp dividers", async () => {
+    const repo = createRepo([
+      note(
+        "10-05-2024",
+        '<div data-section-type="dream">+dream</div><div>Flying</div>' +
+          '<hr data-timestamp="2024-05-10T20:06:00.000Z" data-label="8:06 PM" contenteditable="false">' +
+          "<div>Later</div>",
+        {
+          weather: {
+            icon: "☀️",
+            temperatureHigh: 21,
+            temperatureLow: 12,
+            unit: "C",
+            city: "Lisbon",
+          },
+        },
+      ),
+    ]);
+
+    const html = await buildYearBookHtml(repo, { range: yearRange(2024) });
+    const doc = parse(html!);
+
+    expect(doc.querySelector(".weather")?.textContent).toBe("Lisbon, 12–21°C ☀️");
+    const header = doc.querySelector("[data-section-type]")!;
+    const hue = Array.from(header.classList).find((c) => c.startsWith("section-hue-"));
+    expect(hue).toBeDefined();
+    expect(header.nextElementSibling?.classList.contains(hue!)).toBe(true);
+
+    const hr = doc.querySelector("hr")!;
+    expect(hr.getAttribute("data-label")).toBe("8:06 PM");
+    expect(hr.hasAttribute("contenteditable")).toBe(false);
+
+    const css = doc.querySelector("style")!.textContent!;
+    expect(css).toContain("@media print");
+    expect(css).toContain(".section-hue-1 { --sh: 45; }");
+  });
+
+  it("embeds inline images as data URIs and drops missing ones", async () => {
+    const repo = createRepo([
+      note(
+        "01-02-2024",
+        '<div><img data-image-id="present" alt="cat"></div>' +
+          '<div><img data-image-id="missing" alt="gone"></div>',
+      ),
+    ]);
+    const images = {
+      get: async (id: string) =>
+        ok(id === "present" ? new Blob(["abc"], { type: "image/png" }) : null),
+    } as unknown as ImageRepository;
+    const progress: string[] = [];
+
+    const html = await buildYearBookHtml(repo, {
+      range: yearRange(2024),
+      imageRepository: images,
+      onProgress: ({ phase, current, total }) =>
+        progress.push(`${phase} ${current}/${total}`),
+    });
+    const doc = parse(html!);
+
+    expect(progress.filter((step) => step.startsWith("images"))).toEqual([
+      "images 1/2",
+      "images 2/2",
+    ]);
+
+    const imgs = doc.querySelectorAll("img");
+    expect(imgs).toHaveLength(1);
+    expect(imgs[0].getAttribute("src")).toBe("data:image/png;base64,YWJj");
+    expect(imgs[0].getAttribute("alt")).toBe("cat");
+  });
+
+  it("sanitizes stored content again before embedding it", async () => {
+    const repo = createRepo([
+      note("01-02-2024", '<div>Hi<script>alert(1)</script><img src=x onerror="alert(1)"></div>'),
+    ]);
+    const html = await buildYearBookHtml(repo, { range: yearRange(2024) });
+    expect(html).not.toContain("<script>alert");
+    expect(html).not.toContain("onerror");
+  });
+
+  it("supports custom date ranges", async () => {
+    const repo = createRepo([
+      note("30-06-2024", "<div>Before</div>"),
+      note("01-07-2024", "<div>Start</div>"),
+      note("15-07-2024", "<div>End</div>"),
+      note("16-07-2024", "<div>After</div>"),
+    ]);
+    const range = { from: "01-07-2024", to: "15-07-2024" };
+
+    const doc = parse((await buildYearBookHtml(repo, { range }))!);
+    expect(doc.querySelectorAll(".day")).toHaveLength(2);
+    expect(doc.title).toBe("Ichinichi 2024-07-01 – 2024-07-15");
+  });
+});
+
+describe("yearBookFilename", () => {
+  it("names whole years by year and other ranges by their ends", () => {
+    expect(yearBookFilename(yearRange(2024))).toBe("ichinichi-2024.html");
+    expect(yearBookFilename({ from: "01-07-2024", to: "15-07-2024" })).toBe(
+      "ichinichi-2024-07-01-to-2024-07-15.html",
+    );
+  });
+});
@@ -22,6 +22,8 @@ interface AppModalsViewProps {
     isBusy: boolean;
     error: string | null;
     onUnlock: (password: string) => Promise<boolean>;
+    onPasskeyUnlock?: () => void;
+    onDeviceUnlock?: () => void;
     onSwitchToCloud: () => void;
   };
   cloudAuthModal: {
@@ -36,6 +38,12 @@ interface AppModalsViewProps {
     onSignUp: (email: string, password: string) => void;
     onResetPassword: (email: string) => void;
     onVaultUnlock: (password: string) => void;
+    onVaultPasskeyUnlock?: () => void;
+    onVaultDeviceUnlock?: () => void;
+    onVaultRecover: (
+      phrase: string,
+      newPassword: string,
+    ) => Promise<{ success: boolean; error?: string }>;
   };
   vaultErrorModal: {
     isOpen: boolean;
@@ -73,6 +81,8 @@ export function AppModalsView({
         isBusy={localVaultModal.isBusy}
         error={localVaultModal.error}
         onUnlock={localVaultModal.onUnlock}
+        onPasskeyUnlock={localVaultModal.onPasskeyUnlock}
+        onDeviceUnlock={localVaultModal.onDeviceUnlock}
         onSwitchToCloud={localVaultModal.onSwitchToCloud}
       />
 
@@ -88,6 +98,9 @@ export function AppModalsView({
         onSignUp={cloudAuthModal.onSignUp}
         onResetPassword={cloudAuthModal.onResetPassword}
         onVaultUnlock={cloudAuthModal.onVaultUnlock}
+        onVaultPasskeyUnlock={cloudAuthModal.onVaultPasskeyUnlock}
+        onVaultDeviceUnlock={cloudAuthModal.onVaultDeviceUnlock}
+        onVaultRecover={cloudAuthModal.onVaultRecover}
       />
 
       <VaultErrorModal
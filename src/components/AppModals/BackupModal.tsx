@@ -0,0 +1,279 @@
+import { useCallback, useReducer } from "react";
+import { Modal } from "../Modal";
+import { VaultPanel } from "../VaultPanel";
+import { Button } from "../Button";
+import type { AppDatabase } from "../../storage/rxdb/database";
+import type { ImageRepository } from "../../storage/imageRepository";
+import {
+  backupFilename,
+  createBackupFile,
+  restoreBackupFile,
+  type RestoreSummary,
+} from "../../services/backupFiles";
+import { downloadBlob } from "../../services/exportNotes";
+import { reportError } from "../../utils/errorReporter";
+import styles from "../VaultPanel/VaultPanel.module.css";
+
+export type BackupRequest = { kind: "create" } | { kind: "restore"; file: File };
+
+interface BackupModalProps {
+  request: BackupRequest | null;
+  database: AppDatabase | null;
+  imageRepository: ImageRepository | null;
+  keyring: Map<string, CryptoKey>;
+  vaultKey: CryptoKey | null;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+type BackupPhase = "idle" | "working" | "created" | "restored";
+
+interface BackupState {
+  phase: BackupPhase;
+  passphrase: string;
+  confirm: string;
+  error: string | null;
+  summary: RestoreSummary | null;
+}
+
+type BackupEvent =
+  | { type: "SET_PASSPHRASE"; value: string }
+  | { type: "SET_CONFIRM"; value: string }
+  | { type: "SUBMIT" }
+  | { type: "FAILED"; error: string }
+  | { type: "CREATED" }
+  | { type: "RESTORED"; summary: RestoreSummary }
+  | { type: "RESET" };
+
+function backupReducer(state: BackupState, event: BackupEvent): BackupState {
+  switch (event.type) {
+    case "SET_PASSPHRASE":
+      return { ...state, passphrase: event.value };
+    case "SET_CONFIRM":
+      return { ...state, confirm: event.value };
+    case "SUBMIT":
+      return { ...state, phase: "working", error: null };
+    case "FAILED":
+      return { ...state, phase: "idle", error: event.error };
+    case "CREATED":
+      return { ...state, phase: "created", passphrase: "", confirm: "" };
+    case "RESTORED":
+      return {
+        ...state,
+        phase: "restored",
+        passphrase: "",
+        confirm: "",
+        summary: event.summary,
+      };
+    case "RESET":
+      return initialState;
+  }
+}
+
+const initialState: BackupState = {
+  phase: "idle",
+  passphrase: "",
+  confirm: "",
+  error: null,
+  summary: null,
+};
+
+function describeRestore(summary: RestoreSummary): string {
+  const parts = [
+    `${summary.notesAdded} notes added`,
+    `${summary.notesUpdated} updated`,
+    `${summary.notesSkipped} already newer here`,
+    `${summary.imagesAdded} images restored`,
+  ];
+  return `${parts.join(", ")}.`;
+}
+
+export function BackupModal({
+  request,
+  database,
+  imageRepository,
+  keyring,
+  vaultKey,
+  onClose,
+  onRestored,
+}: BackupModalProps) {
+  const [state, dispatch] = useReducer(backupReducer, initialState);
+  const isCreate = request?.kind === "create";
+  const isBusy = state.phase === "working";
+
+  const handleClose = useCallback(() => {
+    dispatch({ type: "RESET" });
+    onClose();
+  }, [onClose]);
+
+  const handleCreate = useCallback(async () => {
+    if (!database) return;
+    const result = await createBackupFile(
+      database,
+      keyring,
+      state.passphrase,
+      imageRepository,
+    );
+    if (!result.ok) {
+      dispatch({ type: "FAILED", error: "Could not create the backup." });
+      return;
+    }
+    downloadBlob(result.value, backupFilename());
+    dispatch({ type: "CREATED" });
+  }, [database, keyring, imageRepository, state.passphrase]);
+
+  const handleRestore = useCallback(
+    async (file: File) => {
+      if (!database) return;
+      const result = await restoreBackupFile(
+        database,
+        file,
+        state.passphrase,
+        keyring,
+        vaultKey,
+      );
+      if (!result.ok) {
+        const error =
+          result.error.type === "DecryptFailed"
+            ? "Wrong passphrase, or the backup is damaged."
+            : result.error.type === "Corrupt"
+              ? "This file isn't an Ichinichi backup."
+              : "Could not restore the backup.";
+        dispatch({ type: "FAILED", error });
+        return;
+      }
+      dispatch({ type: "RESTORED", summary: result.value });
+      onRestored();
+    },
+    [database, keyring, vaultKey, state.passphrase, onRestored],
+  );
+
+  const handleSubmit = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!request) return;
+      if (isCreate) {
+        if (state.passphrase.length < MIN_PASSPHRASE_LENGTH) {
+          dispatch({
+            type: "FAILED",
+            error: `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`,
+          });
+          return;
+        }
+        if (state.passphrase !== state.confirm) {
+          dispatch({ type: "FAILED", error: "Passphrases do not match." });
+          return;
+        }
+      }
+      dispatch({ type: "SUBMIT" });
+      try {
+        if (request.kind === "create") {
+          await handleCreate();
+        } else {
+          await handleRestore(request.file);
+        }
+      } catch (error) {
+        reportError("backup.submit", error);
+        dispatch({ type: "FAILED", error: "Something went wrong." });
+      }
+    },
+    [request, isCreate, state.passphrase, state.confirm, handleCreate, handleRestore],
+  );
+
+  if (state.phase === "created" || state.phase === "restored") {
+    return (
+      <Modal isOpen={request !== null} onClose={handleClose}>
+        <VaultPanel
+          title={state.phase === "created" ? "Backup saved" : "Backup restored"}
+        >
+          <p className={styles.helper}>
+            {state.phase === "created"
+              ? "Keep the file and its passphrase somewhere safe. The passphrase can't be recovered."
+              : state.summary && describeRestore(state.summary)}
+          </p>
+          <Button
+            className={styles.actionButton}
+            variant="primary"
+            onClick={handleClose}
+          >
+            Done
+          </Button>
+        </VaultPanel>
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal
+      isOpen={request !== null}
+      onClose={handleClose}
+      isDismissable={!isBusy}
+    >
+      <VaultPanel
+        title={isCreate ? "Create encrypted backup" : "Restore backup"}
+        helper={
+          isCreate
+            ? "Saves every note, image, weather and deleted note, plus your encryption keys, into one file protected by a passphrase."
+            : "Notes newer in the backup replace the ones here; everything else is kept."
+        }
+      >
+        <form className={styles.form} onSubmit={handleSubmit}>
+          <label className={styles.label} htmlFor="backup-passphrase">
+            Passphrase
+          </label>
+          <input
+            id="backup-passphrase"
+            className={styles.input}
+            type="password"
+            autoComplete={isCreate ? "new-password" : "off"}
+            value={state.passphrase}
+            onChange={(e) =>
+              dispatch({ type: "SET_PASSPHRASE", value: e.target.value })
+            }
+            disabled={isBusy}
+            required
+          />
+
+          {isCreate && (
+            <>
+              <label className={styles.label} htmlFor="backup-confirm">
+                Confirm passphrase
+              </label>
+              <input
+                id="backup-confirm"
+                className={styles.input}
+                type="password"
+                autoComplete="new-password"
+                value={state.confirm}
+                onChange={(e) =>
+                  dispatch({ type: "SET_CONFIRM", value: e.target.value })
+                }
+                disabled={isBusy}
+                required
+              />
+            </>
+          )}
+
+          {state.error && <div className={styles.error}>{state.error}</div>}
+
+          <Button
+            className={styles.actionButton}
+            variant="primary"
+            type="submit"
+            disabled={isBusy || !database}
+          >
+            {isBusy
+              ? isCreate
+                ? "Encrypting..."
+                : "Restoring..."
+              : isCreate
+                ? "Download backup"
+                : "Restore"}
+          </Button>
+        </form>
+      </VaultPanel>
+    </Modal>
+  );
+}
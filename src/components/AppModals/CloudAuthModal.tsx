@@ -1,6 +1,7 @@
 import { Modal } from "../Modal";
 import { AuthForm } from "../AuthForm";
 import { VaultPanel } from "../VaultPanel";
+import { VaultUnlock } from "../VaultUnlock";
 import styles from "../VaultPanel/VaultPanel.module.css";
 
 interface CloudAuthModalProps {
@@ -15,6 +16,12 @@ interface CloudAuthModalProps {
   onSignUp: (email: string, password: string) => void;
   onResetPassword: (email: string) => void;
   onVaultUnlock: (password: string) => void;
+  onVaultPasskeyUnlock?: () => void;
+  onVaultDeviceUnlock?: () => void;
+  onVaultRecover: (
+    phrase: string,
+    newPassword: string,
+  ) => Promise<{ success: boolean; error?: string }>;
 }
 
 export function CloudAuthModal({
@@ -28,9 +35,26 @@ export function CloudAuthModal({
   onSignIn,
   onSignUp,
   onResetPassword,
+  onVaultUnlock,
+  onVaultPasskeyUnlock,
+  onVaultDeviceUnlock,
+  onVaultRecover,
 }: CloudAuthModalProps) {
+  // Signed in, but this device can't unlock the vault on its own
   if (isVaultLocked) {
-    return null;
+    return (
+      <Modal isOpen={isOpen} onClose={onDismiss}>
+        <VaultUnlock
+          mode="unlock"
+          isBusy={isBusy}
+          error={error}
+          onUnlock={onVaultUnlock}
+          onPasskeyUnlock={onVaultPasskeyUnlock}
+          onDeviceUnlock={onVaultDeviceUnlock}
+          onRecover={onVaultRecover}
+        />
+      </Modal>
+    );
   }
 
   return (
@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { Modal } from "../Modal";
+import { ModalCard } from "../ModalCard";
+import { Button } from "../Button";
+import type {
+  EncryptionKeyInfo,
+  UseEncryptionKeysReturn,
+} from "../../hooks/useEncryptionKeys";
+import type { UseKeyRotationReturn } from "../../hooks/useKeyRotation";
+import styles from "./EncryptionKeysModal.module.css";
+
+interface EncryptionKeysModalProps {
+  isOpen: boolean;
+  encryptionKeys: UseEncryptionKeysReturn;
+  onClose: () => void;
+}
+
+function formatCreatedAt(createdAt: string | null): string {
+  if (!createdAt) return "Creation date unknown";
+  return `Created ${new Date(createdAt).toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  })}`;
+}
+
+function formatUsage(info: EncryptionKeyInfo): string {
+  const notes = `${info.notes} note${info.notes === 1 ? "" : "s"}`;
+  const images = `${info.images} image${info.images === 1 ? "" : "s"}`;
+  return `${notes} · ${images}`;
+}
+
+function describeRotation(rotation: UseKeyRotationReturn): string | null {
+  const { status, progress } = rotation;
+  if (status === "error") return rotation.error;
+  if (status !== "running") return null;
+  if (!progress || progress.phase === "retire") return "Finishing up...";
+  const what = progress.phase === "notes" ? "notes" : "images";
+  return `Re-encrypting ${what}: ${progress.done} of ${progress.total}`;
+}
+
+function KeyRow({
+  info,
+  isBusy,
+  isConfirming,
+  onPromote,
+  onDelete,
+  onConfirmDelete,
+  onCancelDelete,
+}: {
+  info: EncryptionKeyInfo;
+  isBusy: boolean;
+  isConfirming: boolean;
+  onPromote: () => void;
+  onDelete: () => void;
+  onConfirmDelete: () => void;
+  onCancelDelete: () => void;
+}) {
+  const isUnused = info.notes === 0 && info.images === 0;
+
+  return (
+    <li className={styles.item}>
+      <div className={styles.itemHeader}>
+        <code className={styles.keyId}>{info.keyId.slice(0, 8)}</code>
+        {info.isPrimary && (
+          <span className={styles.badge} data-variant="primary">
+            Primary
+          </span>
+        )}
+        <span
+          className={styles.badge}
+          data-variant={info.onDevice ? "success" : "muted"}
+        >
+          {info.onDevice ? "On this device" : "Not on this device"}
+        </span>
+      </div>
+      <p className={styles.meta}>
+        {formatCreatedAt(info.createdAt)} · {formatUsage(info)}
+      </p>
+      {isConfirming ? (
+        <div className={styles.itemActions}>
+          <p className={styles.error}>
+            Delete this key? It's removed from every device and can't be
+            restored.
+          </p>
+          <Button variant="ghost" onClick={onCancelDelete}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={onConfirmDelete}>
+            Delete key
+          </Button>
+        </div>
+      ) : (
+        !info.isPrimary && (
+          <div className={styles.itemActions}>
+            <Button
+              variant="ghost"
+              onClick={onPromote}
+              disabled={isBusy || !info.isUnlocked}
+              title={
+                info.isUnlocked
+                  ? undefined
+                  : "Unlock this key with your password first"
+              }
+            >
+              Make primary
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={onDelete}
+              disabled={isBusy || !isUnused}
+              title={isUnused ? undefined : "Re-encrypt its notes first"}
+            >
+              Delete
+            </Button>
+          </div>
+        )
+      )}
+    </li>
+  );
+}
+
+/**
+ * The encryption keys of the cloud keyring: which notes and images use
+ * each one, plus promoting, re-encrypting and deleting unused keys.
+ */
+export function EncryptionKeysModal({
+  isOpen,
+  encryptionKeys,
+  onClose,
+}: EncryptionKeysModalProps) {
+  const { keys, status, error, message, keyRotation } = encryptionKeys;
+  const [confirmingKeyId, setConfirmingKeyId] = useState<string | null>(null);
+  const isBusy = status === "working" || keyRotation.status === "running";
+  const rotationStatus = describeRotation(keyRotation);
+  const needsReencryption = keys.some(
+    (info) => !info.isPrimary && (info.notes > 0 || info.images > 0),
+  );
+
+  const handleClose = () => {
+    setConfirmingKeyId(null);
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} isDismissable={!isBusy}>
+      <ModalCard maxWidth="lg" className={styles.content}>
+        <h2 className={styles.title}>Encryption keys</h2>
+        <p className={styles.note}>
+          New notes are encrypted with the primary key. Older keys stay until
+          nothing uses them, so every note can still be opened.
+        </p>
+
+        {keys.length === 0 && !error && (
+          <p className={styles.status}>Loading...</p>
+        )}
+        {error && <p className={styles.error}>{error}</p>}
+        {(rotationStatus ?? message) && (
+          <p className={styles.status}>{rotationStatus ?? message}</p>
+        )}
+
+        {keys.length > 0 && (
+          <ul className={styles.list}>
+            {keys.map((info) => (
+              <KeyRow
+                key={info.keyId}
+                info={info}
+                isBusy={isBusy}
+                isConfirming={confirmingKeyId === info.keyId}
+                onPromote={() => void encryptionKeys.promote(info.keyId)}
+                onDelete={() => setConfirmingKeyId(info.keyId)}
+                onConfirmDelete={() => {
+                  setConfirmingKeyId(null);
+                  void encryptionKeys.remove(info.keyId);
+                }}
+                onCancelDelete={() => setConfirmingKeyId(null)}
+              />
+            ))}
+          </ul>
+        )}
+
+        <div className={styles.actions}>
+          <Button variant="ghost" onClick={handleClose} disabled={isBusy}>
+            Close
+          </Button>
+          <Button
+            variant="primary"
+            onClick={() => void encryptionKeys.reencrypt()}
+            disabled={isBusy || !needsReencryption}
+          >
+            Re-encrypt with primary key
+          </Button>
+        </div>
+      </ModalCard>
+    </Modal>
+  );
+}
@@ -0,0 +1,395 @@
+import { useCallback, useEffect, useReducer } from "react";
+import { Modal } from "../Modal";
+import { ModalCard } from "../ModalCard";
+import { Button } from "../Button";
+import type { NoteRepository } from "../../storage/noteRepository";
+import type { ImageRepository } from "../../storage/imageRepository";
+import {
+  applyImport,
+  planImport,
+  readImportFiles,
+  type ConflictResolution,
+  type ImportPlanEntry,
+  type ImportProgress,
+  type ImportSummary,
+} from "../../services/importNotes";
+import { DEFAULT_DAILY_NOTE_PATTERN } from "../../services/journalImporters";
+import { stripHtml } from "../../utils/searchText";
+import { reportError } from "../../utils/errorReporter";
+import styles from "./ImportNotesModal.module.css";
+
+interface ImportNotesModalProps {
+  files: File[] | null;
+  repository: NoteRepository | null;
+  imageRepository: ImageRepository | null;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type ImportPhase = "reading" | "review" | "writing" | "done" | "error";
+
+interface ImportState {
+  phase: ImportPhase;
+  plan: ImportPlanEntry[];
+  skippedFiles: string[];
+  resolutions: Record<string, ConflictResolution>;
+  progress: ImportProgress | null;
+  summary: ImportSummary | null;
+  error: string | null;
+  // Daily-note filename format used for the current read, and the edit
+  // in progress
+  datePattern: string;
+  patternDraft: string;
+}
+
+type ImportEvent =
+  | { type: "START" }
+  | { type: "SET_PATTERN_DRAFT"; value: string }
+  | { type: "APPLY_PATTERN" }
+  | { type: "PROGRESS"; progress: ImportProgress }
+  | { type: "PLANNED"; plan: ImportPlanEntry[]; skippedFiles: string[] }
+  | { type: "RESOLVE"; date: string; resolution: ConflictResolution }
+  | { type: "RESOLVE_ALL"; resolution: ConflictResolution }
+  | { type: "WRITE" }
+  | { type: "DONE"; summary: ImportSummary }
+  | { type: "FAILED"; error: string };
+
+function importReducer(state: ImportState, event: ImportEvent): ImportState {
+  switch (event.type) {
+    case "START":
+      return {
+        ...initialState,
+        datePattern: state.datePattern,
+        patternDraft: state.patternDraft,
+      };
+    case "SET_PATTERN_DRAFT":
+      return { ...state, patternDraft: event.value };
+    case "APPLY_PATTERN":
+      return {
+        ...state,
+        datePattern: state.patternDraft.trim() || DEFAULT_DAILY_NOTE_PATTERN,
+      };
+    case "PROGRESS":
+      return { ...state, progress: event.progress };
+    case "PLANNED":
+      return {
+        ...state,
+        phase: "review",
+        plan: event.plan,
+        skippedFiles: event.skippedFiles,
+        progress: null,
+      };
+    case "RESOLVE":
+      return {
+        ...state,
+        resolutions: { ...state.resolutions, [event.date]: event.resolution },
+      };
+    case "RESOLVE_ALL": {
+      const resolutions: Record<string, ConflictResolution> = {};
+      for (const entry of state.plan) {
+        if (entry.status === "conflict") {
+          resolutions[entry.date] = event.resolution;
+        }
+      }
+      return { ...state, resolutions };
+    }
+    case "WRITE":
+      return { ...state, phase: "writing", progress: null };
+    case "DONE":
+      return { ...state, phase: "done", summary: event.summary, progress: null };
+    case "FAILED":
+      return { ...state, phase: "error", error: event.error, progress: null };
+  }
+}
+
+const initialState: ImportState = {
+  phase: "reading",
+  plan: [],
+  skippedFiles: [],
+  resolutions: {},
+  progress: null,
+  summary: null,
+  error: null,
+  datePattern: DEFAULT_DAILY_NOTE_PATTERN,
+  patternDraft: DEFAULT_DAILY_NOTE_PATTERN,
+};
+
+const PREVIEW_LENGTH = 140;
+
+function previewText(html: string | null): string {
+  const text = html ? stripHtml(html) : "";
+  return text.length > PREVIEW_LENGTH
+    ? `${text.slice(0, PREVIEW_LENGTH)}...`
+    : text;
+}
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  skip: "Keep existing",
+  replace: "Replace with imported",
+  append: "Append imported",
+};
+
+function ConflictRow({
+  entry,
+  resolution,
+  onResolve,
+}: {
+  entry: ImportPlanEntry;
+  resolution: ConflictResolution;
+  onResolve: (resolution: ConflictResolution) => void;
+}) {
+  return (
+    <li className={styles.conflict}>
+      <div className={styles.conflictHeader}>
+        <span className={styles.date}>{entry.date}</span>
+        <select
+          className={styles.select}
+          value={resolution}
+          aria-label={`Resolution for ${entry.date}`}
+          onChange={(e) => onResolve(e.target.value as ConflictResolution)}
+        >
+          {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(
+            (value) => (
+              <option key={value} value={value}>
+                {RESOLUTION_LABELS[value]}
+              </option>
+            ),
+          )}
+        </select>
+      </div>
+      <div className={styles.compare}>
+        <div>
+          <p className={styles.compareLabel}>Existing</p>
+          <p className={styles.compareText}>
+            {previewText(entry.existingContent)}
+          </p>
+        </div>
+        <div>
+          <p className={styles.compareLabel}>Imported</p>
+          <p className={styles.compareText}>{previewText(entry.content)}</p>
+        </div>
+      </div>
+    </li>
+  );
+}
+
+export function ImportNotesModal({
+  files,
+  repository,
+  imageRepository,
+  onClose,
+  onImported,
+}: ImportNotesModalProps) {
+  const [state, dispatch] = useReducer(importReducer, initialState);
+  const { datePattern } = state;
+
+  // Read and compare as soon as files are picked; nothing is written until
+  // the user confirms the preview.
+  useEffect(() => {
+    if (!files || !repository) return;
+    let cancelled = false;
+    dispatch({ type: "START" });
+
+    const run = async () => {
+      try {
+        const source = await readImportFiles(files, { datePattern });
+        const plan = await planImport(repository, source.notes, (progress) => {
+          if (!cancelled) dispatch({ type: "PROGRESS", progress });
+        });
+        if (!cancelled) {
+          dispatch({ type: "PLANNED", plan, skippedFiles: source.skipped });
+        }
+      } catch (error) {
+        reportError("importNotes.plan", error);
+        if (!cancelled) {
+          dispatch({
+            type: "FAILED",
+            error: "Could not read the selected files.",
+          });
+        }
+      }
+    };
+    void run();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [files, repository, datePattern]);
+
+  const handleImport = useCallback(async () => {
+    if (!repository) return;
+    dispatch({ type: "WRITE" });
+    try {
+      const summary = await applyImport(
+        repository,
+        state.plan,
+        state.resolutions,
+        (progress) => dispatch({ type: "PROGRESS", progress }),
+        imageRepository,
+      );
+      dispatch({ type: "DONE", summary });
+      onImported();
+    } catch (error) {
+      reportError("importNotes.apply", error);
+      dispatch({ type: "FAILED", error: "Import failed." });
+    }
+  }, [repository, imageRepository, state.plan, state.resolutions, onImported]);
+
+  const isBusy = state.phase === "reading" || state.phase === "writing";
+  const newCount = state.plan.filter((e) => e.status === "new").length;
+  const identicalCount = state.plan.filter(
+    (e) => e.status === "identical",
+  ).length;
+  const conflicts = state.plan.filter((e) => e.status === "conflict");
+  const skippedMarkdown = state.skippedFiles.some((path) =>
+    /\.md$/i.test(path),
+  );
+  const writeCount =
+    newCount +
+    conflicts.filter((e) => (state.resolutions[e.date] ?? "skip") !== "skip")
+      .length;
+
+  return (
+    <Modal
+      isOpen={files !== null}
+      onClose={onClose}
+      isDismissable={!isBusy}
+    >
+      <ModalCard maxWidth="lg" className={styles.content}>
+        <h2 className={styles.title}>Import notes</h2>
+
+        {isBusy && (
+          <p className={styles.status}>
+            {state.phase === "reading" ? "Reading files" : "Importing"}
+            {state.progress
+              ? ` ${state.progress.current} / ${state.progress.total}...`
+              : "..."}
+          </p>
+        )}
+
+        {state.phase === "error" && (
+          <p className={styles.error}>{state.error}</p>
+        )}
+
+        {state.phase === "review" && (
+          <>
+            {state.plan.length === 0 ? (
+              <p className={styles.status}>
+                No notes found. Import expects daily notes named{" "}
+                {datePattern}.md, or a Day One or Journey JSON export.
+              </p>
+            ) : (
+              <ul className={styles.summary}>
+                <li>{newCount} new</li>
+                <li>{identicalCount} already up to date</li>
+                <li>{conflicts.length} with different content</li>
+              </ul>
+            )}
+            {state.skippedFiles.length > 0 && (
+              <p className={styles.note}>
+                Skipped {state.skippedFiles.length} file
+                {state.skippedFiles.length === 1 ? "" : "s"} that{" "}
+                {state.skippedFiles.length === 1 ? "isn't" : "aren't"} a
+                daily note.
+              </p>
+            )}
+            {(skippedMarkdown ||
+              datePattern !== DEFAULT_DAILY_NOTE_PATTERN) && (
+              <form
+                className={styles.bulkRow}
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  dispatch({ type: "APPLY_PATTERN" });
+                }}
+              >
+                <label htmlFor="import-date-pattern">
+                  Daily note file names
+                </label>
+                <input
+                  id="import-date-pattern"
+                  className={styles.select}
+                  value={state.patternDraft}
+                  placeholder={DEFAULT_DAILY_NOTE_PATTERN}
+                  onChange={(e) =>
+                    dispatch({ type: "SET_PATTERN_DRAFT", value: e.target.value })
+                  }
+                />
+                <button type="submit" className={styles.bulkButton}>
+                  Re-read
+                </button>
+              </form>
+            )}
+
+            {conflicts.length > 0 && (
+              <>
+                <div className={styles.bulkRow}>
+                  <span>For all conflicts:</span>
+                  {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(
+                    (resolution) => (
+                      <button
+                        key={resolution}
+                        type="button"
+                        className={styles.bulkButton}
+                        onClick={() =>
+                          dispatch({ type: "RESOLVE_ALL", resolution })
+                        }
+                      >
+                        {RESOLUTION_LABELS[resolution]}
+                      </button>
+                    ),
+                  )}
+                </div>
+                <ul className={styles.conflicts}>
+                  {conflicts.map((entry) => (
+                    <ConflictRow
+                      key={entry.date}
+                      entry={entry}
+                      resolution={state.resolutions[entry.date] ?? "skip"}
+                      onResolve={(resolution) =>
+                        dispatch({
+                          type: "RESOLVE",
+                          date: entry.date,
+                          resolution,
+                        })
+                      }
+                    />
+                  ))}
+                </ul>
+              </>
+            )}
+          </>
+        )}
+
+        {state.phase === "done" && state.summary && (
+          <p className={styles.status}>
+            Imported {state.summary.imported} note
+            {state.summary.imported === 1 ? "" : "s"}
+            {state.summary.skipped > 0
+              ? `, skipped ${state.summary.skipped}`
+              : ""}
+            .
+            {state.summary.failed.length > 0 &&
+              ` Failed: ${state.summary.failed.join(", ")}.`}
+          </p>
+        )}
+
+        <div className={styles.actions}>
+          {state.phase === "review" && writeCount > 0 ? (
+            <>
+              <Button variant="ghost" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button variant="primary" onClick={handleImport}>
+                Import {writeCount} note{writeCount === 1 ? "" : "s"}
+              </Button>
+            </>
+          ) : (
+            <Button variant="primary" onClick={onClose} disabled={isBusy}>
+              Close
+            </Button>
+          )}
+        </div>
+      </ModalCard>
+    </Modal>
+  );
+}
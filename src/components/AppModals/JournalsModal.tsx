@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { Modal } from "../Modal";
+import { ModalCard } from "../ModalCard";
+import { Button } from "../Button";
+import type { UseJournalsReturn } from "../../hooks/useJournals";
+import type { Journal } from "../../storage/journals";
+import styles from "./JournalsModal.module.css";
+
+interface JournalsModalProps {
+  isOpen: boolean;
+  journals: UseJournalsReturn;
+  onSwitch: (journalId: string) => void;
+  onClose: () => void;
+}
+
+function JournalRow({
+  journal,
+  isCurrent,
+  isFirst,
+  isBusy,
+  onSwitch,
+  onRename,
+  onDelete,
+}: {
+  journal: Journal;
+  isCurrent: boolean;
+  // The first journal holds the notes from before journals existed
+  isFirst: boolean;
+  isBusy: boolean;
+  onSwitch: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const canDelete = !isFirst && !isCurrent;
+
+  return (
+    <li className={styles.item}>
+      <div className={styles.itemHeader}>
+        {draft === null ? (
+          <span className={styles.name}>{journal.name}</span>
+        ) : (
+          <input
+            className={styles.input}
+            aria-label="Journal name"
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            autoFocus
+          />
+        )}
+        {isCurrent && (
+          <span className={styles.badge} data-variant="primary">
+            Open
+          </span>
+        )}
+        {journal.noteKeyId && (
+          <span className={styles.badge} data-variant="muted">
+            Own key
+          </span>
+        )}
+      </div>
+      {isConfirming ? (
+        <div className={styles.itemActions}>
+          <p className={styles.error}>
+            Delete this journal? Only empty journals can be deleted.
+          </p>
+          <Button variant="ghost" onClick={() => setIsConfirming(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={() => {
+              setIsConfirming(false);
+              onDelete();
+            }}
+          >
+            Delete journal
+          </Button>
+        </div>
+      ) : draft !== null ? (
+        <div className={styles.itemActions}>
+          <Button variant="ghost" onClick={() => setDraft(null)}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            disabled={isBusy || !draft.trim()}
+            onClick={() => {
+              onRename(draft);
+              setDraft(null);
+            }}
+          >
+            Save
+          </Button>
+        </div>
+      ) : (
+        <div className={styles.itemActions}>
+          {!isCurrent && (
+            <Button variant="ghost" onClick={onSwitch} disabled={isBusy}>
+              Open
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            onClick={() => setDraft(journal.name)}
+            disabled={isBusy}
+          >
+            Rename
+          </Button>
+          {canDelete && (
+            <Button
+              variant="ghost"
+              onClick={() => setIsConfirming(true)}
+              disabled={isBusy}
+            >
+              Delete
+            </Button>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * The journals list: open, create, rename and delete empty journals. In
+ * cloud mode a new journal can get its own encryption key.
+ */
+export function JournalsModal({
+  isOpen,
+  journals,
+  onSwitch,
+  onClose,
+}: JournalsModalProps) {
+  const { status, error, current } = journals;
+  const [name, setName] = useState("");
+  const [separateKey, setSeparateKey] = useState(false);
+  const isBusy = status === "working";
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const journal = await journals.create(name, { separateKey });
+    if (!journal) return;
+    setName("");
+    setSeparateKey(false);
+    onSwitch(journal.id);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} isDismissable={!isBusy}>
+      <ModalCard maxWidth="lg" className={styles.content}>
+        <h2 className={styles.title}>Journals</h2>
+        <p className={styles.note}>
+          Each journal has its own calendar. Search, trash and exports cover
+          the open journal.
+        </p>
+
+        {error && <p className={styles.error}>{error}</p>}
+
+        <ul className={styles.list}>
+          {journals.journals.map((journal, index) => (
+            <JournalRow
+              key={journal.id}
+              journal={journal}
+              isCurrent={journal.id === current.id}
+              isFirst={index === 0}
+              isBusy={isBusy}
+              onSwitch={() => onSwitch(journal.id)}
+              onRename={(next) => void journals.rename(journal.id, next)}
+              onDelete={() => void journals.remove(journal.id)}
+            />
+          ))}
+        </ul>
+
+        <form className={styles.form} onSubmit={(e) => void handleCreate(e)}>
+          <label className={styles.label} htmlFor="journal-name">
+            New journal
+          </label>
+          <div className={styles.row}>
+            <input
+              id="journal-name"
+              className={styles.input}
+              placeholder="Work log"
+              value={name}
+                onChange={(event) => setName(event.target.value)}
+              disabled={isBusy}
+            />
+            <Button
+              variant="primary"
+              type="submit"
+              disabled={isBusy || !name.trim()}
+            >
+              {isBusy ? "Working..." : "Create"}
+            </Button>
+          </div>
+          {journals.canUseSeparateKey && (
+            <label className={styles.checkbox}>
+              <input
+                type="checkbox"
+                checked={separateKey}
+                onChange={(event) => setSeparateKey(event.target.checked)}
+                disabled={isBusy}
+              />
+              Use a separate encryption key
+            </label>
+          )}
+        </form>
+
+        <div className={styles.actions}>
+          <Button variant="ghost" onClick={onClose} disabled={isBusy}>
+            Close
+          </Button>
+        </div>
+      </ModalCard>
+    </Modal>
+  );
+}
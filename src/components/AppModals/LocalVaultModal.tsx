@@ -7,6 +7,8 @@ interface LocalVaultModalProps {
   isBusy: boolean;
   error: string | null;
   onUnlock: (password: string) => Promise<boolean>;
+  onPasskeyUnlock?: () => void;
+  onDeviceUnlock?: () => void;
   onSwitchToCloud: () => void;
 }
 
@@ -16,9 +18,14 @@ export function LocalVaultModal({
   isBusy,
   error,
   onUnlock,
+  onPasskeyUnlock,
+  onDeviceUnlock,
   onSwitchToCloud,
 }: LocalVaultModalProps) {
-  if (hasVault) {
+  // An existing vault that lost its device key (or was locked) can only be
+  // reopened with a passkey or the device key; without one there is
+  // nothing to offer here
+  if (hasVault && !onPasskeyUnlock && !onDeviceUnlock) {
     return null;
   }
 
@@ -29,6 +36,8 @@ export function LocalVaultModal({
         isBusy={isBusy}
         error={error}
         onUnlock={onUnlock}
+        onPasskeyUnlock={onPasskeyUnlock}
+        onDeviceUnlock={onDeviceUnlock}
         onSwitchToCloud={onSwitchToCloud}
       />
     </Modal>
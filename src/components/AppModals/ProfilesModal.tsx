@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { Modal } from "../Modal";
+import { ModalCard } from "../ModalCard";
+import { Button } from "../Button";
+import type { UseProfilesReturn } from "../../hooks/useProfiles";
+import type { Profile } from "../../storage/profiles";
+import styles from "./ProfilesModal.module.css";
+
+interface ProfilesModalProps {
+  isOpen: boolean;
+  profiles: UseProfilesReturn;
+  onClose: () => void;
+}
+
+function ProfileRow({
+  profile,
+  isCurrent,
+  isBusy,
+  onSwitch,
+  onRename,
+}: {
+  profile: Profile;
+  isCurrent: boolean;
+  isBusy: boolean;
+  onSwitch: () => void;
+  onRename: (name: string) => void;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <li className={styles.item}>
+      <div className={styles.itemHeader}>
+        {draft === null ? (
+          <span className={styles.name}>{profile.name}</span>
+        ) : (
+          <input
+            className={styles.input}
+            aria-label="Profile name"
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            autoFocus
+          />
+        )}
+        {isCurrent && (
+          <span className={styles.badge} data-variant="primary">
+            Open
+          </span>
+        )}
+      </div>
+      <p className={styles.detail}>{profile.email ?? "Local only"}</p>
+      {draft !== null ? (
+        <div className={styles.itemActions}>
+          <Button variant="ghost" onClick={() => setDraft(null)}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            disabled={isBusy || !draft.trim()}
+            onClick={() => {
+              onRename(draft);
+              setDraft(null);
+            }}
+          >
+            Save
+          </Button>
+        </div>
+      ) : (
+        <div className={styles.itemActions}>
+          {!isCurrent && (
+            <Button variant="ghost" onClick={onSwitch} disabled={isBusy}>
+              Switch
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            onClick={() => setDraft(profile.name)}
+            disabled={isBusy}
+          >
+            Rename
+          </Button>
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * The profiles on this device: switch, create and rename. Switching locks
+ * this profile and reloads the app into the other one.
+ */
+export function ProfilesModal({
+  isOpen,
+  profiles,
+  onClose,
+}: ProfilesModalProps) {
+  const { status, error, current } = profiles;
+  const [name, setName] = useState("");
+  const isBusy = status === "working";
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    await profiles.create(name);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} isDismissable={!isBusy}>
+      <ModalCard maxWidth="lg" className={styles.content}>
+        <h2 className={styles.title}>Profiles</h2>
+        <p className={styles.note}>
+          Each profile has its own vault, account and notes on this device.
+          Switching locks this profile; edits not yet synced stay here and sync
+          when you come back.
+        </p>
+
+        {error && <p className={styles.error}>{error}</p>}
+
+        <ul className={styles.list}>
+          {profiles.profiles.map((profile) => (
+            <ProfileRow
+              key={profile.id}
+              profile={profile}
+              isCurrent={profile.id === current.id}
+              isBusy={isBusy}
+              onSwitch={() => void profiles.switchTo(profile.id)}
+              onRename={(next) => void profiles.rename(profile.id, next)}
+            />
+          ))}
+        </ul>
+
+        <form className={styles.form} onSubmit={(e) => void handleCreate(e)}>
+          <label className={styles.label} htmlFor="profile-name">
+            New profile
+          </label>
+          <div className={styles.row}>
+            <input
+              id="profile-name"
+              className={styles.input}
+              placeholder="Work"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              disabled={isBusy}
+            />
+            <Button
+              variant="primary"
+              type="submit"
+              disabled={isBusy || !name.trim()}
+            >
+              {isBusy ? "Working..." : "Create"}
+            </Button>
+          </div>
+        </form>
+
+        <div className={styles.actions}>
+          <Button variant="ghost" onClick={onClose} disabled={isBusy}>
+            Close
+          </Button>
+        </div>
+      </ModalCard>
+    </Modal>
+  );
+}
@@ -0,0 +1,106 @@
+import { useCallback, useState } from "react";
+import { Modal } from "../Modal";
+import { ModalCard } from "../ModalCard";
+import { Button } from "../Button";
+import { reportError } from "../../utils/errorReporter";
+import styles from "./RecoveryPhraseModal.module.css";
+
+interface RecoveryPhraseModalProps {
+  isOpen: boolean;
+  // A phrase that was just created, e.g. together with the vault
+  phrase: string | null;
+  onGenerate?: () => Promise<string>;
+  onClose: () => void;
+}
+
+/**
+ * Shows a recovery phrase once, or creates a new one that replaces the
+ * previous phrase.
+ */
+export function RecoveryPhraseModal({
+  isOpen,
+  phrase,
+  onGenerate,
+  onClose,
+}: RecoveryPhraseModalProps) {
+  const [generated, setGenerated] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const shown = phrase ?? generated;
+
+  const handleGenerate = useCallback(async () => {
+    if (!onGenerate) return;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      setGenerated(await onGenerate());
+    } catch (err) {
+      reportError("recoveryPhrase.generate", err);
+      setError("Could not create a recovery phrase. Try again when online.");
+    }
+    setIsGenerating(false);
+  }, [onGenerate]);
+
+  const handleClose = useCallback(() => {
+    setGenerated(null);
+    setError(null);
+    onClose();
+  }, [onClose]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} isDismissable={!isGenerating}>
+      <ModalCard maxWidth="md" className={styles.content}>
+        <h2 className={styles.title}>Recovery phrase</h2>
+        {shown ? (
+          <>
+            <p className={styles.text}>
+              Write these words down and keep them somewhere safe. If you
+              forget your password, they are the only way to unlock your
+              notes. This phrase won't be shown again.
+            </p>
+            <ol className={styles.words} aria-label="Recovery phrase words">
+              {shown.split(" ").map((word, index) => (
+                <li key={index} className={styles.word}>
+                  {word}
+                </li>
+              ))}
+            </ol>
+          </>
+        ) : (
+          <>
+            <p className={styles.text}>
+              A recovery phrase lets you unlock your notes and choose a new
+              password if you forget yours. Creating a new phrase replaces
+              the previous one.
+            </p>
+            {error && <p className={styles.error}>{error}</p>}
+          </>
+        )}
+        <div className={styles.actions}>
+          {shown ? (
+            <Button variant="primary" onClick={handleClose}>
+              I've saved it
+            </Button>
+          ) : (
+            <>
+              <Button
+                variant="ghost"
+                onClick={handleClose}
+                disabled={isGenerating}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                onClick={() => void handleGenerate()}
+                disabled={isGenerating || !onGenerate}
+              >
+                {isGenerating ? "Creating..." : "Create new phrase"}
+              </Button>
+            </>
+          )}
+        </div>
+      </ModalCard>
+    </Modal>
+  );
+}
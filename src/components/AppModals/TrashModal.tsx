@@ -0,0 +1,356 @@
+import { useCallback, useEffect, useReducer, useState } from "react";
+import { Modal } from "../Modal";
+import { ModalCard } from "../ModalCard";
+import { Button } from "../Button";
+import type { NoteRepository } from "../../storage/noteRepository";
+import type { ImageRepository } from "../../storage/imageRepository";
+import {
+  loadTrash,
+  purgeTrashItems,
+  restoreTrashItems,
+  type TrashActionSummary,
+  type TrashItem,
+} from "../../services/trash";
+import { formatDateDisplay } from "../../utils/date";
+import { reportError } from "../../utils/errorReporter";
+import styles from "./TrashModal.module.css";
+
+interface TrashModalProps {
+  isOpen: boolean;
+  repository: NoteRepository | null;
+  imageRepository: ImageRepository | null;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+type TrashPhase = "loading" | "ready" | "confirmPurge" | "working" | "error";
+
+interface TrashState {
+  phase: TrashPhase;
+  items: TrashItem[];
+  selected: string[];
+  message: string | null;
+  error: string | null;
+}
+
+type TrashEvent =
+  | { type: "OPEN" }
+  | { type: "LOAD" }
+  | { type: "LOADED"; items: TrashItem[] }
+  | { type: "TOGGLE"; key: string }
+  | { type: "TOGGLE_ALL" }
+  | { type: "CONFIRM_PURGE" }
+  | { type: "CANCEL_PURGE" }
+  | { type: "WORK" }
+  | { type: "DONE"; message: string }
+  | { type: "FAILED"; error: string };
+
+const initialState: TrashState = {
+  phase: "loading",
+  items: [],
+  selected: [],
+  message: null,
+  error: null,
+};
+
+function trashReducer(state: TrashState, event: TrashEvent): TrashState {
+  switch (event.type) {
+    case "OPEN":
+      return initialState;
+    case "LOAD":
+      return { ...state, phase: "loading", error: null };
+    case "LOADED": {
+      const keys = new Set(event.items.map((item) => item.key));
+      return {
+        ...state,
+        phase: "ready",
+        items: event.items,
+        selected: state.selected.filter((key) => keys.has(key)),
+      };
+    }
+    case "TOGGLE":
+      return {
+        ...state,
+        selected: state.selected.includes(event.key)
+          ? state.selected.filter((key) => key !== event.key)
+          : [...state.selected, event.key],
+      };
+    case "TOGGLE_ALL":
+      return {
+        ...state,
+        selected:
+          state.selected.length === state.items.length
+            ? []
+            : state.items.map((item) => item.key),
+      };
+    case "CONFIRM_PURGE":
+      return { ...state, phase: "confirmPurge" };
+    case "CANCEL_PURGE":
+      return { ...state, phase: "ready" };
+    case "WORK":
+      return { ...state, phase: "working", message: null, error: null };
+    case "DONE":
+      return { ...state, selected: [], message: event.message };
+    case "FAILED":
+      return { ...state, phase: "error", error: event.error };
+  }
+}
+
+function formatDeletedAt(deletedAt: string): string {
+  return new Date(deletedAt).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function describeResult(verb: string, summary: TrashActionSummary): string {
+  const items = `${summary.done} item${summary.done === 1 ? "" : "s"}`;
+  return summary.failed.length > 0
+    ? `${verb} ${items}; ${summary.failed.length} could not be processed.`
+    : `${verb} ${items}.`;
+}
+
+function ImageThumbnail({
+  imageId,
+  imageRepository,
+}: {
+  imageId: string;
+  imageRepository: ImageRepository | null;
+}) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!imageRepository?.getIncludingDeleted) return;
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    void imageRepository.getIncludingDeleted(imageId).then((result) => {
+      if (cancelled || !result.ok || !result.value) return;
+      objectUrl = URL.createObjectURL(result.value);
+      setUrl(objectUrl);
+    });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [imageId, imageRepository]);
+
+  return url ? (
+    <img className={styles.thumbnail} src={url} alt="" />
+  ) : (
+    <span className={styles.thumbnail} aria-hidden="true" />
+  );
+}
+
+function TrashRow({
+  item,
+  checked,
+  disabled,
+  imageRepository,
+  onToggle,
+}: {
+  item: TrashItem;
+  checked: boolean;
+  disabled: boolean;
+  imageRepository: ImageRepository | null;
+  onToggle: () => void;
+}) {
+  const date = item.kind === "note" ? item.date : item.image.noteDate;
+  return (
+    <li>
+      <label className={styles.item}>
+        <input
+          type="checkbox"
+          checked={checked}
+          disabled={disabled}
+          onChange={onToggle}
+        />
+        {item.kind === "image" && (
+          <ImageThumbnail
+            imageId={item.image.id}
+            imageRepository={imageRepository}
+          />
+        )}
+        <span className={styles.itemBody}>
+          <span className={styles.itemTitle}>
+            {item.kind === "note" ? "Note" : "Image"} ·{" "}
+            {formatDateDisplay(date)}
+          </span>
+          <span className={styles.preview}>
+            {item.kind === "note"
+              ? item.preview || "Empty note"
+              : item.image.filename}
+          </span>
+          <span className={styles.deletedAt}>
+            Deleted {formatDeletedAt(item.deletedAt)}
+          </span>
+        </span>
+      </label>
+    </li>
+  );
+}
+
+/**
+ * Soft-deleted notes and images, with bulk restore and permanent removal.
+ */
+export function TrashModal({
+  isOpen,
+  repository,
+  imageRepository,
+  onClose,
+  onChanged,
+}: TrashModalProps) {
+  const [state, dispatch] = useReducer(trashReducer, initialState);
+  const [loadCount, setLoadCount] = useState(0);
+
+  useEffect(() => {
+    if (isOpen) dispatch({ type: "OPEN" });
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || !repository) return;
+    let cancelled = false;
+    dispatch({ type: "LOAD" });
+    loadTrash(repository, imageRepository)
+      .then((items) => {
+        if (!cancelled) dispatch({ type: "LOADED", items });
+      })
+      .catch((error: unknown) => {
+        reportError("trash.load", error);
+        if (!cancelled) {
+          dispatch({ type: "FAILED", error: "Could not load the Trash." });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, repository, imageRepository, loadCount]);
+
+  const selectedItems = state.items.filter((item) =>
+    state.selected.includes(item.key),
+  );
+
+  const runAction = useCallback(
+    async (action: "restore" | "purge") => {
+      if (!repository || selectedItems.length === 0) return;
+      dispatch({ type: "WORK" });
+      try {
+        const summary =
+          action === "restore"
+            ? await restoreTrashItems(repository, imageRepository, selectedItems)
+            : await purgeTrashItems(repository, imageRepository, selectedItems);
+        dispatch({
+          type: "DONE",
+          message: describeResult(
+            action === "restore" ? "Restored" : "Deleted forever",
+            summary,
+          ),
+        });
+        onChanged();
+        setLoadCount((count) => count + 1);
+      } catch (error) {
+        reportError(`trash.${action}`, error);
+        dispatch({ type: "FAILED", error: "Something went wrong." });
+      }
+    },
+    [repository, imageRepository, selectedItems, onChanged],
+  );
+
+  const isBusy = state.phase === "loading" || state.phase === "working";
+  const count = selectedItems.length;
+  const allSelected = count > 0 && count === state.items.length;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} isDismissable={!isBusy}>
+      <ModalCard maxWidth="lg" className={styles.content}>
+        <h2 className={styles.title}>Trash</h2>
+        <p className={styles.note}>
+          Deleted notes and images stay here until you delete them forever.
+          Deleting forever also removes them from sync.
+        </p>
+
+        {state.phase === "loading" && state.items.length === 0 && (
+          <p className={styles.status}>Loading...</p>
+        )}
+        {state.error && <p className={styles.error}>{state.error}</p>}
+        {state.message && <p className={styles.status}>{state.message}</p>}
+
+        {state.phase !== "loading" &&
+          state.phase !== "error" &&
+          state.items.length === 0 && (
+            <p className={styles.status}>The Trash is empty.</p>
+          )}
+
+        {state.items.length > 0 && (
+          <>
+            <label className={styles.selectAll}>
+              <input
+                type="checkbox"
+                checked={allSelected}
+                disabled={isBusy}
+                onChange={() => dispatch({ type: "TOGGLE_ALL" })}
+              />
+              Select all ({state.items.length})
+            </label>
+            <ul className={styles.list}>
+              {state.items.map((item) => (
+                <TrashRow
+                  key={item.key}
+                  item={item}
+                  checked={state.selected.includes(item.key)}
+                  disabled={isBusy}
+                  imageRepository={imageRepository}
+                  onToggle={() => dispatch({ type: "TOGGLE", key: item.key })}
+                />
+              ))}
+            </ul>
+          </>
+        )}
+
+        {state.phase === "confirmPurge" && (
+          <p className={styles.error}>
+            Delete {count} item{count === 1 ? "" : "s"} forever? This can't be
+            undone, on this device or any other.
+          </p>
+        )}
+
+        <div className={styles.actions}>
+          {state.phase === "confirmPurge" ? (
+            <>
+              <Button
+                variant="ghost"
+                onClick={() => dispatch({ type: "CANCEL_PURGE" })}
+              >
+                Cancel
+              </Button>
+              <Button variant="primary" onClick={() => void runAction("purge")}>
+                Delete forever
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button
+                variant="ghost"
+                onClick={() => dispatch({ type: "CONFIRM_PURGE" })}
+                disabled={isBusy || count === 0}
+              >
+                Delete forever
+              </Button>
+              <Button variant="ghost" onClick={onClose} disabled={isBusy}>
+                Close
+              </Button>
+              <Button
+                variant="primary"
+                onClick={() => void runAction("restore")}
+                disabled={isBusy || count === 0}
+              >
+                Restore{count > 0 ? ` ${count}` : ""}
+              </Button>
+            </>
+          )}
+        </div>
+      </ModalCard>
+    </Modal>
+  );
+}
@@ -0,0 +1,250 @@
+import { useCallback, useMemo, useReducer } from "react";
+import { Modal } from "../Modal";
+import { VaultPanel } from "../VaultPanel";
+import { Button } from "../Button";
+import type { NoteRepository } from "../../storage/noteRepository";
+import type { ImageRepository } from "../../storage/imageRepository";
+import {
+  buildYearBookHtml,
+  printYearBook,
+  yearBookFilename,
+  yearRange,
+  type YearBookRange,
+} from "../../services/yearBook";
+import { downloadBlob, type ExportProgress } from "../../services/exportNotes";
+import { reportError } from "../../utils/errorReporter";
+import styles from "../VaultPanel/VaultPanel.module.css";
+
+interface YearBookModalProps {
+  isOpen: boolean;
+  repository: NoteRepository | null;
+  imageRepository: ImageRepository | null;
+  noteDates: Set<string>;
+  onClose: () => void;
+}
+
+const CUSTOM = "custom";
+
+type YearBookOutput = "download" | "print";
+
+interface YearBookState {
+  selection: string; // A year, or CUSTOM
+  from: string; // YYYY-MM-DD from <input type="date">
+  to: string;
+  working: YearBookOutput | null;
+  progress: ExportProgress | null; // Set while working, once the build reports
+  error: string | null;
+}
+
+type YearBookEvent =
+  | { type: "SELECT"; value: string }
+  | { type: "SET_FROM"; value: string }
+  | { type: "SET_TO"; value: string }
+  | { type: "START"; output: YearBookOutput }
+  | { type: "PROGRESS"; progress: ExportProgress }
+  | { type: "FAILED"; error: string }
+  | { type: "DONE" }
+  | { type: "RESET" };
+
+function yearBookReducer(
+  state: YearBookState,
+  event: YearBookEvent,
+): YearBookState {
+  switch (event.type) {
+    case "SELECT":
+      return { ...state, selection: event.value, error: null };
+    case "SET_FROM":
+      return { ...state, from: event.value, error: null };
+    case "SET_TO":
+      return { ...state, to: event.value, error: null };
+    case "START":
+      return { ...state, working: event.output, progress: null, error: null };
+    case "PROGRESS":
+      return { ...state, progress: event.progress };
+    case "FAILED":
+      return { ...state, working: null, progress: null, error: event.error };
+    case "DONE":
+      return { ...state, working: null, progress: null };
+    case "RESET":
+      return initialState;
+  }
+}
+
+const initialState: YearBookState = {
+  selection: "",
+  from: "",
+  to: "",
+  working: null,
+  progress: null,
+  error: null,
+};
+
+// YYYY-MM-DD (date input) → DD-MM-YYYY (note date)
+function fromInputDate(value: string): string {
+  const [yyyy, mm, dd] = value.split("-");
+  return `${dd}-${mm}-${yyyy}`;
+}
+
+function progressLabel(progress: ExportProgress | null): string {
+  if (!progress || progress.phase === "converting") return "Building...";
+  const step = progress.phase === "images" ? "Loading photos" : "Reading notes";
+  return `${step} ${progress.current} / ${progress.total}...`;
+}
+
+export function YearBookModal({
+  isOpen,
+  repository,
+  imageRepository,
+  noteDates,
+  onClose,
+}: YearBookModalProps) {
+  const [state, dispatch] = useReducer(yearBookReducer, initialState);
+  const isBusy = state.working !== null;
+
+  const years = useMemo(() => {
+    const found = new Set<number>();
+    for (const date of noteDates) {
+      const year = Number(date.slice(6));
+      if (year) found.add(year);
+    }
+    return Array.from(found).sort((a, b) => b - a);
+  }, [noteDates]);
+
+  const selection = state.selection || String(years[0] ?? CUSTOM);
+
+  const range = useMemo((): YearBookRange | null => {
+    if (selection !== CUSTOM) return yearRange(Number(selection));
+    if (!state.from || !state.to || state.from > state.to) return null;
+    return { from: fromInputDate(state.from), to: fromInputDate(state.to) };
+  }, [selection, state.from, state.to]);
+
+  const handleClose = useCallback(() => {
+    dispatch({ type: "RESET" });
+    onClose();
+  }, [onClose]);
+
+  const handleExport = useCallback(
+    async (output: YearBookOutput) => {
+      if (!repository || !range) return;
+      // Open the print window now, while we still have the click's user
+      // activation — after the await it would be blocked as a popup.
+      const target = output === "print" ? window.open("", "_blank") : null;
+      if (output === "print" && !target) {
+        dispatch({ type: "FAILED", error: "Allow pop-ups to print." });
+        return;
+      }
+      dispatch({ type: "START", output });
+      try {
+        const html = await buildYearBookHtml(repository, {
+          range,
+          imageRepository,
+          onProgress: (progress) => dispatch({ type: "PROGRESS", progress }),
+        });
+        if (!html) {
+          target?.close();
+          dispatch({ type: "FAILED", error: "No notes in this range." });
+          return;
+        }
+        if (target) {
+          printYearBook(target, html);
+        } else {
+          downloadBlob(
+            new Blob([html], { type: "text/html" }),
+            yearBookFilename(range),
+          );
+        }
+        dispatch({ type: "DONE" });
+      } catch (error) {
+        target?.close();
+        reportError("yearBook.export", error);
+        dispatch({ type: "FAILED", error: "Could not build the year book." });
+      }
+    },
+    [repository, imageRepository, range],
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} isDismissable={!isBusy}>
+      <VaultPanel
+        title="Export year book"
+        helper="One self-contained HTML page with every note, photo and weather entry in order. Print it to save as a PDF."
+      >
+        <form className={styles.form} onSubmit={(e) => e.preventDefault()}>
+          <label className={styles.label} htmlFor="year-book-range">
+            Range
+          </label>
+          <select
+            id="year-book-range"
+            className={styles.input}
+            value={selection}
+            onChange={(e) => dispatch({ type: "SELECT", value: e.target.value })}
+            disabled={isBusy}
+          >
+            {years.map((year) => (
+              <option key={year} value={year}>
+                {year}
+              </option>
+            ))}
+            <option value={CUSTOM}>Custom range…</option>
+          </select>
+
+          {selection === CUSTOM && (
+            <>
+              <label className={styles.label} htmlFor="year-book-from">
+                From
+              </label>
+              <input
+                id="year-book-from"
+                className={styles.input}
+                type="date"
+                value={state.from}
+                onChange={(e) =>
+                  dispatch({ type: "SET_FROM", value: e.target.value })
+                }
+                disabled={isBusy}
+              />
+              <label className={styles.label} htmlFor="year-book-to">
+                To
+              </label>
+              <input
+                id="year-book-to"
+                className={styles.input}
+                type="date"
+                value={state.to}
+                onChange={(e) =>
+                  dispatch({ type: "SET_TO", value: e.target.value })
+                }
+                disabled={isBusy}
+              />
+            </>
+          )}
+
+          {state.error && <div className={styles.error}>{state.error}</div>}
+
+          <Button
+            className={styles.actionButton}
+            variant="primary"
+            type="button"
+            onClick={() => void handleExport("download")}
+            disabled={isBusy || !range || !repository}
+          >
+            {state.working === "download"
+              ? progressLabel(state.progress)
+              : "Download HTML"}
+          </Button>
+          <Button
+            className={styles.actionButton}
+            variant="ghost"
+            type="button"
+            onClick={() => void handleExport("print")}
+            disabled={isBusy || !range || !repository}
+          >
+            {state.working === "print"
+              ? progressLabel(state.progress)
+              : "Print or save as PDF"}
+          </Button>
+        </form>
+      </VaultPanel>
+    </Modal>
+  );
+}
@@ -2,7 +2,9 @@ import type { ReactNode } from "react";
 import { Menu, Search } from "lucide-react";
 import { ErrorBoundary } from "../ErrorBoundary";
 import { SyncIndicator } from "../SyncIndicator";
+import { JournalSwitcher } from "./JournalSwitcher";
 import type { SyncStatus, PendingOpsSummary } from "../../types";
+import type { Journal } from "../../storage/journals";
 import styles from "./Header.module.css";
 
 interface AppLogoProps {
@@ -57,6 +59,10 @@ interface HeaderProps {
   syncError?: string | null;
   pendingOps?: PendingOpsSummary;
   isSaving?: boolean;
+  // The switcher shows once there is more than one journal
+  journals?: Journal[];
+  journalId?: string;
+  onJournalChange?: (journalId: string) => void;
   onLogoClick?: () => void;
   onMenuClick?: () => void;
   onSearchClick?: () => void;
@@ -70,6 +76,9 @@ export function Header({
   syncError,
   pendingOps,
   isSaving,
+  journals,
+  journalId,
+  onJournalChange,
   onLogoClick,
   onMenuClick,
   onSearchClick,
@@ -80,6 +89,13 @@ export function Header({
     <header className={styles.header}>
       <div className={styles.headerLeft}>
         <AppLogo onClick={onLogoClick} />
+        {journals && journals.length > 1 && journalId && onJournalChange && (
+          <JournalSwitcher
+            journals={journals}
+            journalId={journalId}
+            onChange={onJournalChange}
+          />
+        )}
       </div>
       {children && <div className={styles.headerCenter}>{children}</div>}
       <div className={styles.headerRight}>
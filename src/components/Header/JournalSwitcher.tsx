@@ -0,0 +1,29 @@
+import type { Journal } from "../../storage/journals";
+import styles from "./Header.module.css";
+
+interface JournalSwitcherProps {
+  journals: Journal[];
+  journalId: string;
+  onChange: (journalId: string) => void;
+}
+
+export function JournalSwitcher({
+  journals,
+  journalId,
+  onChange,
+}: JournalSwitcherProps) {
+  return (
+    <select
+      className={styles.journalSelect}
+      aria-label="Journal"
+      value={journalId}
+      onChange={(event) => onChange(event.target.value)}
+    >
+      {journals.map((journal) => (
+        <option key={journal.id} value={journal.id}>
+          {journal.name}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -1,5 +1,5 @@
-import { useCallback, useEffect, useMemo } from "react";
-import type { DragEvent } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { DragEvent, KeyboardEvent } from "react";
 import { formatDateDisplay, getTodayString, isToday } from "../../utils/date";
 import { canEditNote } from "../../utils/noteRules";
 import { useRoutingContext } from "../../contexts/routingContext";
@@ -9,6 +9,8 @@ import { useContentEditableEditor } from "./useContentEditableEditor";
 import { useInlineImageUpload, useInlineImageUrls } from "./useInlineImages";
 import { useImageDragState } from "./useImageDragState";
 import { useDropIndicator } from "./useDropIndicator";
+import { useSlashCommands } from "./useSlashCommands";
+import { SlashCommandMenu } from "./SlashCommandMenu";
 import { useShareTarget } from "../../hooks/useShareTarget";
 import { useWeatherContext } from "../../contexts/weatherContext";
 import { useNoteRepositoryContext } from "../../contexts/noteRepositoryContext";
@@ -71,12 +73,31 @@ export function NoteEditor({
     navigateToDate(getTodayString());
   }, [navigateToDate]);
 
+  const [historyDate, setHistoryDate] = useState<string | null>(null);
+  const [shareDate, setShareDate] = useState<string | null>(null);
+  // Keyed by date so the panel closes when navigating to another note
+  const isHistoryOpen = historyDate === date;
+  const isShareOpen = shareDate === date;
+  const handleToggleHistory = useCallback(() => {
+    setShareDate(null);
+    setHistoryDate((current) => (current === date ? null : date));
+  }, [date]);
+  const handleToggleShare = useCallback(() => {
+    setHistoryDate(null);
+    setShareDate((current) => (current === date ? null : date));
+  }, [date]);
+
   const { isDraggingImage, endImageDrag } = useImageDragState();
   const weather = useWeatherContext();
   const { state: weatherState } = weather;
 
   // Stored weather from note document via RxDB
-  const { weather: storedWeather, setWeather: setNoteWeather } = useNoteRepositoryContext();
+  const {
+    weather: storedWeather,
+    setWeather: setNoteWeather,
+    capabilities,
+    journalId,
+  } = useNoteRepositoryContext();
 
   // Push live weather into note for today's notes so it gets persisted
   const liveWeather = weatherState.dailyWeather;
@@ -115,6 +136,7 @@ export function NoteEditor({
   const {
     editorRef,
     handleInput,
+    handleCommand,
     handlePaste,
     handleDrop,
     handleDragOver,
@@ -124,7 +146,10 @@ export function NoteEditor({
   } = useContentEditableEditor({
     content,
     isEditable,
+    canToggleTasks:
+      isContentReady && !isDecrypting && !isSoftDeleted && !hasError,
     placeholderText,
+    historyKey: `${journalId}:${date}`,
     onChange,
     onImageDrop,
     onDropComplete: endImageDrag,
@@ -132,6 +157,35 @@ export function NoteEditor({
     clearWeatherFromEditor: weather.clearWeatherFromEditor,
   });
 
+  const {
+    menu: slashMenu,
+    handleInput: updateSlashMenu,
+    handleKeyDown: handleSlashKeyDown,
+    selectItem: selectSlashItem,
+    setActiveIndex: setActiveSlashItem,
+  } = useSlashCommands({
+    editorRef,
+    isEnabled: isEditable,
+    date,
+    content,
+    weatherLabel,
+    onImageFile: onImageDrop ? handleFileInput : undefined,
+    onCommand: handleCommand,
+  });
+
+  const handleEditorInput = useCallback(() => {
+    handleInput();
+    updateSlashMenu();
+  }, [handleInput, updateSlashMenu]);
+
+  const handleEditorKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLDivElement>) => {
+      if (handleSlashKeyDown(event)) return;
+      handleKeyDown(event);
+    },
+    [handleSlashKeyDown, handleKeyDown],
+  );
+
   const { indicatorPosition, updateIndicator, clearIndicator } =
     useDropIndicator({
       editorRef,
@@ -177,18 +231,33 @@ export function NoteEditor({
       onRestore={isSoftDeleted ? onRestore : undefined}
       placeholderText={placeholderText}
       editorRef={editorRef}
-      onInput={handleInput}
+      onInput={handleEditorInput}
       onPaste={handlePaste}
       onDrop={handleDropWithIndicator}
       onDragOver={handleDragOverWithIndicator}
       onClick={handleClick}
-      onKeyDown={handleKeyDown}
+      onKeyDown={handleEditorKeyDown}
       onImageSelect={onImageDrop ? handleFileInput : undefined}
       isDraggingImage={isDraggingImage}
       dropIndicatorPosition={indicatorPosition}
+      slashMenu={
+        <SlashCommandMenu
+          menu={slashMenu}
+          onSelect={selectSlashItem}
+          onHover={setActiveSlashItem}
+        />
+      }
       footer={null}
       weatherLabel={weatherLabel}
       debugKeyId={debugKeyId}
+      isHistoryOpen={isHistoryOpen}
+      onToggleHistory={isSoftDeleted || hasError ? undefined : handleToggleHistory}
+      isShareOpen={isShareOpen}
+      onToggleShare={
+        capabilities.canSync && !isSoftDeleted && !hasError && isContentReady
+          ? handleToggleShare
+          : undefined
+      }
     />
   );
 }
@@ -4,6 +4,7 @@ import type {
   FormEvent,
   KeyboardEvent,
   MouseEvent,
+  ReactNode,
   RefObject,
 } from "react";
 import styles from "./NoteEditor.module.css";
@@ -19,6 +20,8 @@ interface NoteEditorContentProps {
   onDragOver?: (event: DragEvent<HTMLDivElement>) => void;
   onClick?: (event: MouseEvent<HTMLDivElement>) => void;
   onKeyDown?: (event: KeyboardEvent<HTMLDivElement>) => void;
+  // The `/` command menu for this editor
+  slashMenu?: ReactNode;
 }
 
 export function NoteEditorContent({
@@ -32,31 +35,35 @@ export function NoteEditorContent({
   onDragOver,
   onClick,
   onKeyDown,
+  slashMenu,
 }: NoteEditorContentProps) {
   return (
-    <div
-      ref={editorRef}
-      className={[
-        styles.content,
-        isEditable ? styles.contentEditable : styles.contentReadonly,
-      ]
-        .filter(Boolean)
-        .join(" ")}
-      data-placeholder={placeholderText}
-      data-note-editor="content"
-      contentEditable={isEditable}
-      tabIndex={isEditable ? 0 : -1}
-      autoFocus={autoFocus}
-      suppressContentEditableWarning={true}
-      role="textbox"
-      aria-multiline="true"
-      aria-readonly={!isEditable}
-      onInput={onInput}
-      onPaste={onPaste}
-      onDrop={onDrop}
-      onDragOver={onDragOver}
-      onClick={onClick}
-      onKeyDown={onKeyDown}
-    />
+    <>
+      <div
+        ref={editorRef}
+        className={[
+          styles.content,
+          isEditable ? styles.contentEditable : styles.contentReadonly,
+        ]
+          .filter(Boolean)
+          .join(" ")}
+        data-placeholder={placeholderText}
+        data-note-editor="content"
+        contentEditable={isEditable}
+        tabIndex={isEditable ? 0 : -1}
+        autoFocus={autoFocus}
+        suppressContentEditableWarning={true}
+        role="textbox"
+        aria-multiline="true"
+        aria-readonly={!isEditable}
+        onInput={onInput}
+        onPaste={onPaste}
+        onDrop={onDrop}
+        onDragOver={onDragOver}
+        onClick={onClick}
+        onKeyDown={onKeyDown}
+      />
+      {slashMenu}
+    </>
   );
 }
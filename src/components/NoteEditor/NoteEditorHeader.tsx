@@ -1,5 +1,9 @@
+import { History, Link2, ListChecks } from "lucide-react";
 import { parseDate } from "../../utils/date";
 import { getMoonPhaseEmoji, getMoonPhaseName } from "../../utils/moonPhase";
+import { NoteHistoryPanel } from "./NoteHistoryPanel";
+import { NoteSharePanel } from "./NoteSharePanel";
+import { OpenTasksPanel } from "./OpenTasksPanel";
 import styles from "./NoteEditor.module.css";
 
 interface NoteEditorHeaderProps {
@@ -12,6 +16,16 @@ interface NoteEditorHeaderProps {
   onRestore?: () => void;
   weatherLabel?: string | null;
   debugKeyId?: string | null;
+  // Revision history; the button is hidden when no toggle is given
+  isHistoryOpen?: boolean;
+  onToggleHistory?: () => void;
+  canRestoreRevision?: boolean;
+  // Read-only share links; the button is hidden when no toggle is given
+  isShareOpen?: boolean;
+  onToggleShare?: () => void;
+  // Open tasks from recent days; the button is hidden when no toggle is given
+  isTasksOpen?: boolean;
+  onToggleTasks?: () => void;
 }
 
 export function NoteEditorHeader({
@@ -24,6 +38,13 @@ export function NoteEditorHeader({
   onRestore,
   weatherLabel,
   debugKeyId,
+  isHistoryOpen = false,
+  onToggleHistory,
+  canRestoreRevision = false,
+  isShareOpen = false,
+  onToggleShare,
+  isTasksOpen = false,
+  onToggleTasks,
 }: NoteEditorHeaderProps) {
   const parsed = parseDate(date);
   const moonEmoji = parsed ? getMoonPhaseEmoji(parsed) : "";
@@ -81,6 +102,55 @@ export function NoteEditorHeader({
           )}
         </span>
       )}
+      {onToggleTasks && (
+        <button
+          type="button"
+          className={styles.historyButton}
+          onClick={onToggleTasks}
+          aria-expanded={isTasksOpen}
+          aria-label="Open tasks"
+          title="Open tasks"
+        >
+          <ListChecks size={16} />
+        </button>
+      )}
+      {onToggleShare && (
+        <button
+          type="button"
+          className={styles.historyButton}
+          onClick={onToggleShare}
+          aria-expanded={isShareOpen}
+          aria-label="Share note"
+          title="Share note"
+        >
+          <Link2 size={16} />
+        </button>
+      )}
+      {onToggleHistory && (
+        <button
+          type="button"
+          className={styles.historyButton}
+          onClick={onToggleHistory}
+          aria-expanded={isHistoryOpen}
+          aria-label="Note history"
+          title="Note history"
+        >
+          <History size={16} />
+        </button>
+      )}
+      {isHistoryOpen && onToggleHistory && (
+        <NoteHistoryPanel
+          date={date}
+          canRestore={canRestoreRevision}
+          onClose={onToggleHistory}
+        />
+      )}
+      {isShareOpen && onToggleShare && (
+        <NoteSharePanel date={date} onClose={onToggleShare} />
+      )}
+      {isTasksOpen && onToggleTasks && (
+        <OpenTasksPanel date={date} onClose={onToggleTasks} />
+      )}
     </div>
   );
 }
@@ -37,9 +37,14 @@ interface NoteEditorViewProps {
   onImageSelect?: (file: File) => void;
   isDraggingImage?: boolean;
   dropIndicatorPosition?: DropIndicatorPosition | null;
+  slashMenu?: ReactNode;
   footer?: ReactNode;
   weatherLabel?: string | null;
   debugKeyId?: string | null;
+  isHistoryOpen?: boolean;
+  onToggleHistory?: () => void;
+  isShareOpen?: boolean;
+  onToggleShare?: () => void;
 }
 
 export function NoteEditorView({
@@ -63,9 +68,14 @@ export function NoteEditorView({
   onImageSelect,
   isDraggingImage = false,
   dropIndicatorPosition,
+  slashMenu,
   footer,
   weatherLabel,
   debugKeyId,
+  isHistoryOpen,
+  onToggleHistory,
+  isShareOpen,
+  onToggleShare,
 }: NoteEditorViewProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const bodyClassName = styles.body;
@@ -113,6 +123,11 @@ export function NoteEditorView({
         onRestore={onRestore}
         weatherLabel={weatherLabel}
         debugKeyId={debugKeyId}
+        isHistoryOpen={isHistoryOpen}
+        onToggleHistory={onToggleHistory}
+        canRestoreRevision={isEditable}
+        isShareOpen={isShareOpen}
+        onToggleShare={onToggleShare}
       />
       <div className={bodyClassName}>
         <NoteEditorContent
@@ -126,6 +141,7 @@ export function NoteEditorView({
           onDragOver={onDragOver}
           onClick={onClick}
           onKeyDown={onKeyDown}
+          slashMenu={slashMenu}
         />
       </div>
       {onImageSelect && (
@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { NoteRevision, NoteRevisionReason } from "../../storage/noteRevisions";
+import { useNoteRepositoryContext } from "../../contexts/noteRepositoryContext";
+import { diffWords, noteDiffText } from "../../utils/wordDiff";
+import styles from "./NoteHistoryPanel.module.css";
+
+interface NoteHistoryPanelProps {
+  date: string;
+  canRestore: boolean;
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<NoteRevisionReason, string> = {
+  edit: "Before editing",
+  conflict: "Replaced by sync",
+  restore: "Before restore",
+};
+
+function formatRevisionTime(createdAt: string): string {
+  return new Date(createdAt).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Earlier versions of a note, with a word-level diff of the selected
+ * version against the current content and a way to bring it back.
+ */
+export function NoteHistoryPanel({ date, canRestore, onClose }: NoteHistoryPanelProps) {
+  const { repository, content, restoreRevision } = useNoteRepositoryContext();
+  const revisionStore = repository?.revisions ?? null;
+  const [revisions, setRevisions] = useState<NoteRevision[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!revisionStore) return;
+    let cancelled = false;
+    void revisionStore.list(date).then((result) => {
+      if (cancelled) return;
+      if (result.ok) {
+        setRevisions(result.value);
+        setSelectedId(result.value[0]?.id ?? null);
+      } else {
+        setError("Unable to load history");
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [revisionStore, date]);
+
+  const selected = revisions?.find((revision) => revision.id === selectedId) ?? null;
+
+  const diff = useMemo(
+    () =>
+      selected ? diffWords(noteDiffText(selected.content), noteDiffText(content)) : [],
+    [selected, content],
+  );
+  const hasChanges = diff.some((part) => part.type !== "equal");
+
+  const handleRestore = useCallback(async () => {
+    if (!selected) return;
+    setIsRestoring(true);
+    setError(null);
+    const result = await restoreRevision(selected.id);
+    setIsRestoring(false);
+    if (result.ok) {
+      onClose();
+    } else {
+      setError("Unable to restore this version");
+    }
+  }, [selected, restoreRevision, onClose]);
+
+  const body = !revisionStore ? (
+    <p className={styles.empty}>History is available once your vault is unlocked.</p>
+  ) : revisions === null && !error ? (
+    <p className={styles.empty}>Loading...</p>
+  ) : revisions?.length === 0 ? (
+    <p className={styles.empty}>
+      No earlier versions yet. A version is kept each time you start editing
+      after a pause.
+    </p>
+  ) : (
+    revisions && (
+      <div className={styles.layout}>
+        <ul className={styles.list}>
+          {revisions.map((revision) => (
+            <li key={revision.id}>
+              <button
+                type="button"
+                className={styles.item}
+                aria-pressed={revision.id === selectedId}
+                onClick={() => setSelectedId(revision.id)}
+              >
+                <span className={styles.itemTime}>
+                  {formatRevisionTime(revision.createdAt)}
+                </span>
+                <span className={styles.itemReason}>
+                  {REASON_LABELS[revision.reason]}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+        {selected && (
+          <div className={styles.detail}>
+            <p className={styles.legend}>
+              <span className={styles.removed}>Only in this version</span>
+              <span className={styles.added}>Added since</span>
+            </p>
+            <div className={styles.diff} aria-label="Changes since this version">
+              {hasChanges
+                ? diff.map((part, index) =>
+                    part.type === "equal" ? (
+                      <span key={index}>{part.text}</span>
+                    ) : part.type === "added" ? (
+                      <ins key={index} className={styles.added}>{part.text}</ins>
+                    ) : (
+                      <del key={index} className={styles.removed}>{part.text}</del>
+                    ),
+                  )
+                : "Same text as the current note."}
+            </div>
+            {canRestore && (
+              <button
+                type="button"
+                className={styles.restoreButton}
+                onClick={() => void handleRestore()}
+                disabled={isRestoring}
+              >
+                {isRestoring ? "Restoring..." : "Restore this version"}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    )
+  );
+
+  return (
+    <section className={styles.panel} aria-label="Note history">
+      <div className={styles.panelHeader}>
+        <h2 className={styles.title}>History</h2>
+        <button type="button" className={styles.closeButton} onClick={onClose}>
+          Close
+        </button>
+      </div>
+      {error && (
+        <p className={styles.error} role="alert">
+          {error}
+        </p>
+      )}
+      {body}
+    </section>
+  );
+}
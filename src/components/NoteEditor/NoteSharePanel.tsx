@@ -0,0 +1,129 @@
+import { useCallback, useState } from "react";
+import { useNoteRepositoryContext } from "../../contexts/noteRepositoryContext";
+import {
+  SHARE_EXPIRY_DAYS,
+  useNoteShare,
+  type ShareExpiryDays,
+} from "../../hooks/useNoteShare";
+import styles from "./NoteSharePanel.module.css";
+
+interface NoteSharePanelProps {
+  date: string;
+  onClose: () => void;
+}
+
+function formatExpiry(days: ShareExpiryDays): string {
+  return days === 1 ? "1 day" : `${days} days`;
+}
+
+function formatExpiresAt(expiresAt: string): string {
+  return new Date(expiresAt).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Makes a read-only link to a snapshot of the note. The key is part of
+ * the link, so the link is only shown once.
+ */
+export function NoteSharePanel({ date, onClose }: NoteSharePanelProps) {
+  const { content, weather, imageRepository } = useNoteRepositoryContext();
+  const noteShare = useNoteShare({ date, content, weather, imageRepository });
+  const { share, status, error } = noteShare;
+  const [expiry, setExpiry] = useState<ShareExpiryDays>(7);
+  const [copied, setCopied] = useState(false);
+  const isWorking = status === "working";
+
+  const handleCopy = useCallback(async () => {
+    if (!share) return;
+    try {
+      await navigator.clipboard.writeText(share.url);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  }, [share]);
+
+  return (
+    <section className={styles.panel} aria-label="Share note">
+      <div className={styles.panelHeader}>
+        <h2 className={styles.title}>Share</h2>
+        <button type="button" className={styles.closeButton} onClick={onClose}>
+          Close
+        </button>
+      </div>
+      {error && (
+        <p className={styles.error} role="alert">
+          {error}
+        </p>
+      )}
+      {share ? (
+        <>
+          <div className={styles.row}>
+            <input
+              className={styles.link}
+              aria-label="Share link"
+              value={share.url}
+              readOnly
+              onFocus={(event) => event.target.select()}
+            />
+            <button
+              type="button"
+              className={styles.option}
+              onClick={() => void handleCopy()}
+            >
+              {copied ? "Copied" : "Copy"}
+            </button>
+          </div>
+          <p className={styles.note}>
+            Anyone with this link can read this version of the note until{" "}
+            {formatExpiresAt(share.expiresAt)}. Later edits aren't included.
+          </p>
+          <button
+            type="button"
+            className={styles.action}
+            onClick={() => void noteShare.revoke()}
+            disabled={isWorking}
+          >
+            {isWorking ? "Removing..." : "Remove link"}
+          </button>
+        </>
+      ) : (
+        <>
+          <p className={styles.note}>
+            Creates a read-only link to this note as it is now. It is encrypted;
+            the key is only in the link.
+          </p>
+          <div
+            className={styles.row}
+            role="group"
+            aria-label="Link expires after"
+          >
+            {SHARE_EXPIRY_DAYS.map((days) => (
+              <button
+                key={days}
+                type="button"
+                className={styles.option}
+                aria-pressed={expiry === days}
+                onClick={() => setExpiry(days)}
+              >
+                {formatExpiry(days)}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            className={styles.action}
+            onClick={() => void noteShare.create(expiry)}
+            disabled={isWorking}
+          >
+            {isWorking ? "Creating link..." : "Create link"}
+          </button>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { useNoteRepositoryContext } from "../../contexts/noteRepositoryContext";
+import { useOpenTasks } from "../../hooks/useOpenTasks";
+import { parseDate } from "../../utils/date";
+import {
+  OPEN_TASK_DAY_OPTIONS,
+  type OpenTaskDays,
+} from "../../utils/noteTasks";
+import styles from "./OpenTasksPanel.module.css";
+
+interface OpenTasksPanelProps {
+  date: string;
+  onClose: () => void;
+}
+
+function formatTaskDate(date: string): string {
+  return (
+    parseDate(date)?.toLocaleDateString(undefined, {
+      month: "short",
+      day: "numeric",
+    }) ?? date
+  );
+}
+
+/**
+ * Unchecked tasks from recent days, with a button that copies them into
+ * today's note as a new entry.
+ */
+export function OpenTasksPanel({ date, onClose }: OpenTasksPanelProps) {
+  const { repository, database, noteDates, content, setContent } =
+    useNoteRepositoryContext();
+  const [days, setDays] = useState<OpenTaskDays>(7);
+  const { tasks, isLoading, carryOver } = useOpenTasks({
+    repository,
+    database,
+    noteDates,
+    today: date,
+    days,
+    content,
+    setContent,
+  });
+
+  return (
+    <section className={styles.panel} aria-label="Open tasks">
+      <div className={styles.panelHeader}>
+        <h2 className={styles.title}>Open tasks</h2>
+        <button type="button" className={styles.closeButton} onClick={onClose}>
+          Close
+        </button>
+      </div>
+      <div className={styles.row} role="group" aria-label="Look back">
+        {OPEN_TASK_DAY_OPTIONS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            className={styles.option}
+            aria-pressed={days === option}
+            onClick={() => setDays(option)}
+          >
+            {option} days
+          </button>
+        ))}
+      </div>
+      {isLoading ? (
+        <p className={styles.note}>Loading...</p>
+      ) : tasks.length === 0 ? (
+        <p className={styles.note}>
+          No unchecked tasks in the last {days} days.
+        </p>
+      ) : (
+        <>
+          <ul className={styles.list}>
+            {tasks.map((task) => (
+              <li key={`${task.date}:${task.text}`} className={styles.item}>
+                <span className={styles.text}>{task.text}</span>
+                <span className={styles.date}>{formatTaskDate(task.date)}</span>
+              </li>
+            ))}
+          </ul>
+          <button type="button" className={styles.action} onClick={carryOver}>
+            Carry over to today
+          </button>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,62 @@
+import { useEffect, useRef } from "react";
+import { createPortal } from "react-dom";
+import type { SlashMenu } from "./useSlashCommands";
+import styles from "./SlashCommandMenu.module.css";
+
+interface SlashCommandMenuProps {
+  menu: SlashMenu | null;
+  onSelect: (index: number) => void;
+  onHover: (index: number) => void;
+}
+
+/**
+ * The `/` command list, shown under the caret. Items are picked with the
+ * mouse here; the arrow keys and Enter are routed from the editor.
+ */
+export function SlashCommandMenu({
+  menu,
+  onSelect,
+  onHover,
+}: SlashCommandMenuProps) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const activeIndex = menu?.activeIndex ?? 0;
+
+  // Scroll the active item into view
+  useEffect(() => {
+    const item = listRef.current?.children[activeIndex] as
+      | HTMLElement
+      | undefined;
+    item?.scrollIntoView?.({ block: "nearest" });
+  }, [activeIndex]);
+
+  if (!menu) return null;
+
+  return createPortal(
+    <div
+      ref={listRef}
+      className={styles.menu}
+      style={{ top: menu.top, left: menu.left }}
+      role="listbox"
+      aria-label="Commands"
+    >
+      {menu.items.map((item, index) => (
+        <div
+          key={item.id}
+          className={`${styles.item} ${
+            index === menu.activeIndex ? styles.itemActive : ""
+          }`}
+          role="option"
+          aria-selected={index === menu.activeIndex}
+          // Keep the caret in the editor
+          onMouseDown={(event) => event.preventDefault()}
+          onMouseEnter={() => onHover(index)}
+          onClick={() => onSelect(index)}
+        >
+          <span className={styles.title}>{item.title}</span>
+          {item.hint && <span className={styles.hint}>{item.hint}</span>}
+        </div>
+      ))}
+    </div>,
+    document.body,
+  );
+}
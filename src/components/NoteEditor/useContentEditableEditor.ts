@@ -8,11 +8,22 @@ import type {
 import { handleKeyDown as hotkeyHandleKeyDown } from "../../services/editorHotkeys";
 import { applyTextTransforms } from "../../services/editorTextTransforms";
 import {
-  saveResilientCursorPosition,
-  restoreResilientCursorPosition,
-} from "../../services/editorTextTransforms/cursor";
+  dispatchTransaction,
+  parseHtml,
+  readSelection,
+  renderEditorState,
+  writeSelection,
+} from "../../services/editorDocument";
+import {
+  recordEdit,
+  redo,
+  undo,
+  type HistorySnapshot,
+  type HistoryStep,
+} from "../../services/editorHistory";
 import { applySectionColors } from "../../services/sectionColors";
 import { applyFavicon } from "../../utils/linkFavicons";
+import { findClickedTask, toggleTask } from "../../utils/noteTasks";
 import { getTimestampLabel } from "../../services/timestampLabel";
 
 const TIMESTAMP_ATTR = "data-timestamp";
@@ -29,7 +40,12 @@ const ACTIVE_EDITING_GRACE_MS = 2000;
 interface ContentEditableOptions {
   content: string;
   isEditable: boolean;
+  // Task checkboxes stay clickable in read-only notes
+  canToggleTasks?: boolean;
   placeholderText: string;
+  // Undo history is kept per key (journal and note date); without one the
+  // browser's own undo applies
+  historyKey?: string;
   onChange: (content: string) => void;
   onUserInput?: () => void;
   onImageDrop?: (file: File) => Promise<{
@@ -148,7 +164,9 @@ function serializeEditorContent(editor: HTMLElement): string {
 export function useContentEditableEditor({
   content,
   isEditable,
+  canToggleTasks = false,
   placeholderText,
+  historyKey,
   onChange,
   onUserInput,
   onImageDrop,
@@ -160,6 +178,8 @@ export function useContentEditableEditor({
   const lastContentRef = useRef("");
   const isLocalEditRef = useRef(false);
   const isEditableRef = useRef(isEditable);
+  const canToggleTasksRef = useRef(canToggleTasks);
+  const historyKeyRef = useRef(historyKey);
   const onChangeRef = useRef(onChange);
   const onUserInputRef = useRef(onUserInput);
   const onImageDropRef = useRef(onImageDrop);
@@ -170,6 +190,22 @@ export function useContentEditableEditor({
   const uploadInProgressRef = useRef(0);
   const isProgrammaticUpdateRef = useRef(false);
 
+  const recordHistory = useCallback(
+    (before: string, after: string, step: HistoryStep) => {
+      const el = editorRef.current;
+      const key = historyKeyRef.current;
+      if (!el || !key) return;
+      // Edits while an image uploads belong to the step that inserted it
+      recordEdit(
+        key,
+        before,
+        { html: after, selection: readSelection(el) },
+        uploadInProgressRef.current > 0 ? "amend" : step,
+      );
+    },
+    [],
+  );
+
   const syncEditorContent = useCallback(() => {
     const el = editorRef.current;
     if (!el) return;
@@ -179,10 +215,11 @@ export function useContentEditableEditor({
     if (html === lastContentRef.current) {
       return;
     }
+    recordHistory(lastContentRef.current, html, "edit");
     lastContentRef.current = html;
     isLocalEditRef.current = true;
     onChangeRef.current(html);
-  }, []);
+  }, [recordHistory]);
 
   const updateTimestampLabels = useCallback((element?: HTMLElement) => {
     const el = element ?? editorRef.current;
@@ -221,11 +258,21 @@ export function useContentEditableEditor({
 
   useEffect(() => {
     isEditableRef.current = isEditable;
+    canToggleTasksRef.current = canToggleTasks;
+    historyKeyRef.current = historyKey;
     onChangeRef.current = onChange;
     onUserInputRef.current = onUserInput;
     onImageDropRef.current = onImageDrop;
     onDropCompleteRef.current = onDropComplete;
-  }, [isEditable, onChange, onUserInput, onImageDrop, onDropComplete]);
+  }, [
+    isEditable,
+    canToggleTasks,
+    historyKey,
+    onChange,
+    onUserInput,
+    onImageDrop,
+    onDropComplete,
+  ]);
 
   useEffect(() => {
     const el = editorRef.current;
@@ -273,7 +320,7 @@ export function useContentEditableEditor({
         // When previous content was empty, cursor position is meaningless —
         // skip restore and let auto-focus below place the caret properly.
         const wasEmpty = !lastContentRef.current;
-        const savedCursor = wasEmpty ? null : saveResilientCursorPosition(el);
+        const savedSelection = wasEmpty ? null : readSelection(el);
         isProgrammaticUpdateRef.current = true;
         el.innerHTML = nextContent; // Sanitized content from our own store
         lastContentRef.current = nextContent;
@@ -281,8 +328,8 @@ export function useContentEditableEditor({
         updateTimestampLabels(el);
         applySectionColors(el);
         applyFavicons(el);
-        if (savedCursor) {
-          restoreResilientCursorPosition(el, savedCursor);
+        if (savedSelection) {
+          writeSelection(el, savedSelection);
         } else if (nextContent) {
           // Content just loaded into an empty editor — re-trigger auto-focus
           hasAutoFocusedRef.current = false;
@@ -314,7 +361,7 @@ export function useContentEditableEditor({
     hasAutoFocusedRef.current = true;
   }, [content, isEditable, showWeather, clearWeatherFromEditor, syncEditorContent, updateEmptyState, updateTimestampLabels]);
 
-  const handleInput = useCallback(() => {
+  const applyInput = useCallback((step: HistoryStep) => {
     if (!isEditableRef.current) return;
     // Skip synthetic input events fired by mobile browsers after
     // programmatic innerHTML updates in the content sync effect.
@@ -331,7 +378,11 @@ export function useContentEditableEditor({
     updateEmptyState();
 
     // Apply text transforms (linkify) with cursor preservation
-    applyTextTransforms(el);
+    const transforms = applyTextTransforms(el);
+    const transformed =
+      transforms.hrTransformed ||
+      transforms.linkifyTransformed ||
+      transforms.inputRuleTransformed;
 
     // Apply section header colors and link favicons
     applySectionColors(el);
@@ -355,16 +406,23 @@ export function useContentEditableEditor({
     if (html === lastContentRef.current) {
       return;
     }
+    recordHistory(lastContentRef.current, html, transformed ? "edit" : step);
     lastContentRef.current = html;
     isLocalEditRef.current = true;
     updateTimestampLabels(el);
     onChangeRef.current(html);
     onUserInputRef.current?.();
   }, [
+    recordHistory,
     updateEmptyState,
     updateTimestampLabels,
   ]);
 
+  const handleInput = useCallback(() => applyInput("typing"), [applyInput]);
+
+  // Sync an edit made outside of input events as an undo step of its own
+  const handleCommand = useCallback(() => applyInput("edit"), [applyInput]);
+
   const handlePaste = useCallback(
     (event: ClipboardEvent<HTMLDivElement>) => {
       if (!isEditableRef.current) return;
@@ -384,7 +442,7 @@ export function useContentEditableEditor({
       placeholder.setAttribute("data-image-id", "uploading");
       placeholder.setAttribute("alt", "Uploading...");
       insertNodeAtCursor(placeholder);
-      handleInput();
+      applyInput("edit");
 
       uploadInProgressRef.current++;
       dropHandler(file)
@@ -402,10 +460,10 @@ export function useContentEditableEditor({
           uploadInProgressRef.current--;
           onDropCompleteRef.current?.();
           updateEmptyState();
-          handleInput();
+          applyInput("amend");
         });
     },
-    [handleInput, updateEmptyState],
+    [applyInput, updateEmptyState],
   );
 
   const handleDrop = useCallback(
@@ -441,7 +499,7 @@ export function useContentEditableEditor({
       const previewUrl = URL.createObjectURL(file);
       placeholder.setAttribute("src", previewUrl);
       insertNodeAtCursor(placeholder);
-      handleInput();
+      applyInput("edit");
 
       uploadInProgressRef.current++;
       dropHandler(file)
@@ -464,10 +522,10 @@ export function useContentEditableEditor({
           URL.revokeObjectURL(previewUrl);
           onDropCompleteRef.current?.();
           updateEmptyState();
-          handleInput();
+          applyInput("amend");
         });
     },
-    [handleInput, updateEmptyState],
+    [applyInput, updateEmptyState],
   );
 
   const handleFileInput = useCallback(
@@ -488,7 +546,7 @@ export function useContentEditableEditor({
       const previewUrl = URL.createObjectURL(file);
       placeholder.setAttribute("src", previewUrl);
       insertNodeAtCursor(placeholder);
-      handleInput();
+      applyInput("edit");
 
       uploadInProgressRef.current++;
       dropHandler(file)
@@ -511,10 +569,10 @@ export function useContentEditableEditor({
           URL.revokeObjectURL(previewUrl);
           onDropCompleteRef.current?.();
           updateEmptyState();
-          handleInput();
+          applyInput("amend");
         });
     },
-    [handleInput, updateEmptyState],
+    [applyInput, updateEmptyState],
   );
 
   const handleDragOver = useCallback((event: DragEvent<HTMLDivElement>) => {
@@ -536,7 +594,15 @@ export function useContentEditableEditor({
       return;
     }
 
-  }, []);
+    const task = canToggleTasksRef.current
+      ? findClickedTask(target, event.clientX)
+      : null;
+    if (task) {
+      event.preventDefault();
+      toggleTask(task);
+      syncEditorContent();
+    }
+  }, [syncEditorContent]);
 
   // Section transform via beforeinput — mobile keyboards don't
   // fire keydown for Enter, but beforeinput fires reliably.
@@ -629,6 +695,7 @@ export function useContentEditableEditor({
       }
 
       const html = serializeEditorContent(el);
+      recordHistory(lastContentRef.current, html, "edit");
       lastContentRef.current = html;
       isLocalEditRef.current = true;
       onChangeRef.current(html);
@@ -639,25 +706,72 @@ export function useContentEditableEditor({
     return () => {
       el.removeEventListener("beforeinput", handleBeforeInput);
     };
-  }, []);
+  }, [recordHistory]);
+
+  const restoreSnapshot = useCallback((snapshot: HistorySnapshot) => {
+    const el = editorRef.current;
+    if (!el) return;
+
+    isProgrammaticUpdateRef.current = true;
+    renderEditorState(el, {
+      doc: parseHtml(snapshot.html),
+      selection: snapshot.selection,
+    });
+    if (!snapshot.selection) placeCaretAtEnd(el);
+    updateEmptyState();
+    updateTimestampLabels(el);
+    applySectionColors(el);
+    applyFavicons(el);
+    isProgrammaticUpdateRef.current = false;
+
+    const now = Date.now();
+    lastHandleInputRef.current = now;
+    lastUserInputRef.current = now;
+    lastContentRef.current = snapshot.html;
+    isLocalEditRef.current = true;
+    onChangeRef.current(snapshot.html);
+    onUserInputRef.current?.();
+  }, [updateEmptyState, updateTimestampLabels]);
 
   const handleKeyDown = useCallback((event: KeyboardEvent<HTMLDivElement>) => {
     if (!isEditableRef.current) return;
+    const el = editorRef.current;
+    if (!el) return;
 
-    // Normalize Shift+Enter to insertLineBreak for cross-browser consistency
+    // Cmd/Ctrl+Z undoes, with Shift it redoes
+    const historyKey = historyKeyRef.current;
+    if (
+      historyKey &&
+      (event.metaKey || event.ctrlKey) &&
+      event.key.toLowerCase() === "z"
+    ) {
+      event.preventDefault();
+      const snapshot = event.shiftKey
+        ? redo(historyKey, lastContentRef.current)
+        : undo(historyKey, lastContentRef.current);
+      if (snapshot) restoreSnapshot(snapshot);
+      return;
+    }
+
+    // Normalize Shift+Enter to a line break for cross-browser consistency
     if (event.key === "Enter" && event.shiftKey) {
       event.preventDefault();
-      document.execCommand("insertLineBreak");
+      if (dispatchTransaction(el, (tr) => tr.insertLineBreak())) {
+        applyInput("typing");
+      }
       return;
     }
 
-    // Delegate to hotkey service
-    hotkeyHandleKeyDown(event.nativeEvent);
-  }, []);
+    // Delegate to hotkey service; its edits don't fire input events
+    if (hotkeyHandleKeyDown(event.nativeEvent, el)) {
+      applyInput("edit");
+    }
+  }, [applyInput, restoreSnapshot]);
 
   return {
     editorRef,
     handleInput,
+    handleCommand,
     handlePaste,
     handleDrop,
     handleDragOver,
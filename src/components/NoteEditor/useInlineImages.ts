@@ -111,10 +111,11 @@ export function useInlineImageUrls({
   useEffect(() => {
     if (!imageRepository) return;
     const manager = new ImageUrlManager(imageRepository);
-    const ownerId = ownerIdRef.current;
     managerRef.current = manager;
     return () => {
-      manager.releaseOwner(ownerId);
+      // The repository changes when the vault locks; nothing decrypted
+      // through the old one may stay reachable
+      manager.dispose();
       managerRef.current = null;
       currentIdsRef.current = new Set();
     };
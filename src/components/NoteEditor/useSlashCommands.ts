@@ -0,0 +1,208 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { KeyboardEvent, RefObject } from "react";
+import { useNoteRepositoryContext } from "../../contexts/noteRepositoryContext";
+import { useRecentSectionTypes } from "../../hooks/useRecentSectionTypes";
+import { readEditorState } from "../../services/editorDocument";
+import {
+  findSlashQuery,
+  getSlashCommandItems,
+  runSlashCommand,
+  type SlashCommandContext,
+  type SlashCommandItem,
+} from "../../services/slashCommands";
+
+interface UseSlashCommandsOptions {
+  editorRef: RefObject<HTMLDivElement | null>;
+  isEnabled: boolean;
+  date: string;
+  content: string;
+  weatherLabel: string | null;
+  onImageFile?: (file: File) => void;
+  // Syncs the editor after a command changed it
+  onCommand: () => void;
+}
+
+interface SlashMenuState {
+  query: string;
+  // Where the slash is, so a dismissed menu stays closed while typing on
+  slashKey: string;
+  activeIndex: number;
+  top: number;
+  left: number;
+}
+
+export interface SlashMenu {
+  items: SlashCommandItem[];
+  activeIndex: number;
+  top: number;
+  left: number;
+}
+
+function openImagePicker(onFile: (file: File) => void) {
+  const input = document.createElement("input");
+  input.type = "file";
+  input.accept = "image/*";
+  input.addEventListener("change", () => {
+    const file = input.files?.[0];
+    if (file) onFile(file);
+  });
+  input.click();
+}
+
+function caretPosition(): { top: number; left: number } {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return { top: 0, left: 0 };
+  const rect = selection.getRangeAt(0).getBoundingClientRect();
+  return { top: rect.bottom + 4, left: rect.left };
+}
+
+/**
+ * A `/` command menu for a contentEditable editor: typing a slash opens
+ * it, the text after the slash filters it, and picking an item replaces
+ * the slash and query with the command's edit.
+ */
+export function useSlashCommands({
+  editorRef,
+  isEnabled,
+  date,
+  content,
+  weatherLabel,
+  onImageFile,
+  onCommand,
+}: UseSlashCommandsOptions) {
+  const { repository, noteDates } = useNoteRepositoryContext();
+  const [menuState, setMenuState] = useState<SlashMenuState | null>(null);
+  const dismissedRef = useRef<string | null>(null);
+  const isOpen = menuState !== null;
+
+  const sectionTypes = useRecentSectionTypes({
+    repository,
+    noteDates,
+    date,
+    content,
+    isEnabled: isOpen,
+  });
+
+  const context: SlashCommandContext = useMemo(
+    () => ({
+      sectionTypes,
+      weatherLabel,
+      pickImage: onImageFile ? () => openImagePicker(onImageFile) : undefined,
+    }),
+    [sectionTypes, weatherLabel, onImageFile],
+  );
+
+  const items = useMemo(
+    () => (menuState ? getSlashCommandItems(context, menuState.query) : []),
+    [menuState, context],
+  );
+
+  const updateMenu = useCallback(() => {
+    const el = editorRef.current;
+    // Most input has no slash near the caret; skip parsing the note then
+    const anchorText = window.getSelection()?.anchorNode?.textContent ?? "";
+    const slash =
+      isEnabled && el && anchorText.includes("/")
+        ? findSlashQuery(readEditorState(el))
+        : null;
+    const slashKey = slash ? `${slash.from.block}:${slash.from.offset}` : null;
+    if (!slash || slashKey === null || slashKey === dismissedRef.current) {
+      if (!slash) dismissedRef.current = null;
+      setMenuState(null);
+      return;
+    }
+    const { top, left } = caretPosition();
+    setMenuState((current) => {
+      const isSame =
+        current?.query === slash.query && current.slashKey === slashKey;
+      if (isSame && current.top === top && current.left === left) {
+        return current;
+      }
+      // A new query starts again from the best match
+      const activeIndex = isSame ? current.activeIndex : 0;
+      return { query: slash.query, slashKey, activeIndex, top, left };
+    });
+  }, [editorRef, isEnabled]);
+
+  // Moving the caret away from the query or leaving the editor closes it
+  useEffect(() => {
+    const el = editorRef.current;
+    if (!isOpen || !el) return;
+    const close = () => setMenuState(null);
+    document.addEventListener("selectionchange", updateMenu);
+    el.addEventListener("blur", close);
+    return () => {
+      document.removeEventListener("selectionchange", updateMenu);
+      el.removeEventListener("blur", close);
+    };
+  }, [editorRef, isOpen, updateMenu]);
+
+  const selectItem = useCallback(
+    (index: number) => {
+      const el = editorRef.current;
+      const item = items[index];
+      setMenuState(null);
+      if (!el || !item) return;
+      if (runSlashCommand(el, item, context)) onCommand();
+    },
+    [editorRef, items, context, onCommand],
+  );
+
+  const setActiveIndex = useCallback((activeIndex: number) => {
+    setMenuState((current) => current && { ...current, activeIndex });
+  }, []);
+
+  const current = Math.min(menuState?.activeIndex ?? 0, items.length - 1);
+
+  /**
+   * Route menu keys while it's open. Returns true if the key was handled.
+   */
+  const handleKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLDivElement>): boolean => {
+      if (!menuState || items.length === 0) return false;
+      // Leave shortcuts like Cmd/Ctrl+Enter to the editor
+      if (event.metaKey || event.ctrlKey || event.altKey) return false;
+      switch (event.key) {
+        case "ArrowDown":
+          event.preventDefault();
+          setActiveIndex((current + 1) % items.length);
+          return true;
+        case "ArrowUp":
+          event.preventDefault();
+          setActiveIndex((current - 1 + items.length) % items.length);
+          return true;
+        case "Enter":
+        case "Tab":
+          event.preventDefault();
+          selectItem(current);
+          return true;
+        case "Escape":
+          event.preventDefault();
+          dismissedRef.current = menuState.slashKey;
+          setMenuState(null);
+          return true;
+        default:
+          return false;
+      }
+    },
+    [menuState, items.length, current, selectItem, setActiveIndex],
+  );
+
+  const menu: SlashMenu | null =
+    menuState && items.length > 0
+      ? {
+          items,
+          activeIndex: current,
+          top: menuState.top,
+          left: menuState.left,
+        }
+      : null;
+
+  return {
+    menu,
+    handleInput: updateMenu,
+    handleKeyDown,
+    selectItem,
+    setActiveIndex,
+  };
+}
@@ -3,6 +3,7 @@ import type { RefObject } from "react";
 import { applyTextTransforms } from "../../services/editorTextTransforms";
 import { applySectionColors } from "../../services/sectionColors";
 import { sanitizeHtml } from "../../utils/sanitize";
+import { findClickedTask, toggleTask } from "../../utils/noteTasks";
 import contentStyles from "../../styles/noteContent.module.css";
 import { useSectionTransform } from "./useSectionTransform";
 import styles from "./LogEntry.module.css";
@@ -62,6 +63,22 @@ export function LogEntry({
     isEditingRef.current = true;
   }, []);
 
+  const handleClick = useCallback(
+    (e: React.MouseEvent) => {
+      const el = editorRef.current;
+      const task = findClickedTask(e.target, e.clientX);
+      if (!task || !el) {
+        handleStartEdit();
+        return;
+      }
+      e.preventDefault();
+      toggleTask(task);
+      isEditingRef.current = false;
+      onSave(serializeContent(el));
+    },
+    [handleStartEdit, onSave],
+  );
+
   const handleSaveEdit = useCallback(() => {
     if (!isEditingRef.current) return;
     const el = editorRef.current;
@@ -135,7 +152,7 @@ export function LogEntry({
         className={`${contentStyles.content} ${styles.cardContent}`}
         contentEditable
         suppressContentEditableWarning
-        onClick={handleStartEdit}
+        onClick={handleClick}
         onKeyDown={handleKeyDown}
         onBlur={handleBlur}
         onInput={handleInput}
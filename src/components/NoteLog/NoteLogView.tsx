@@ -8,12 +8,15 @@ import {
 import { applyTextTransforms } from "../../services/editorTextTransforms";
 import { getTimestampLabel } from "../../services/timestampLabel";
 import { formatDateDisplay, isToday } from "../../utils/date";
+import { canEditNote } from "../../utils/noteRules";
 import { useWeatherContext } from "../../contexts/weatherContext";
 import { useNoteRepositoryContext } from "../../contexts/noteRepositoryContext";
 import {
   useInlineImageUpload,
   useInlineImageUrls,
 } from "../NoteEditor/useInlineImages";
+import { useSlashCommands } from "../NoteEditor/useSlashCommands";
+import { SlashCommandMenu } from "../NoteEditor/SlashCommandMenu";
 import { NoteEditorHeader } from "../NoteEditor/NoteEditorHeader";
 import { useDebugNoteKeyId } from "../../hooks/useDebugNoteKeyId";
 import { applySectionColors } from "../../services/sectionColors";
@@ -78,6 +81,24 @@ export function NoteLogView({
 }: NoteLogViewProps) {
   const editorRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const [historyDate, setHistoryDate] = useState<string | null>(null);
+  const [shareDate, setShareDate] = useState<string | null>(null);
+  const [tasksDate, setTasksDate] = useState<string | null>(null);
+  const handleToggleHistory = useCallback(() => {
+    setShareDate(null);
+    setTasksDate(null);
+    setHistoryDate((current) => (current === date ? null : date));
+  }, [date]);
+  const handleToggleShare = useCallback(() => {
+    setHistoryDate(null);
+    setTasksDate(null);
+    setShareDate((current) => (current === date ? null : date));
+  }, [date]);
+  const handleToggleTasks = useCallback(() => {
+    setHistoryDate(null);
+    setShareDate(null);
+    setTasksDate((current) => (current === date ? null : date));
+  }, [date]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const autoSaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [justSavedId, setJustSavedId] = useState<string | null>(null);
@@ -87,7 +108,7 @@ export function NoteLogView({
   const debugKeyId = useDebugNoteKeyId(date, isContentReady);
   const weather = useWeatherContext();
   const { state: weatherState } = weather;
-  const { weather: storedWeather } = useNoteRepositoryContext();
+  const { weather: storedWeather, capabilities } = useNoteRepositoryContext();
   const liveWeather = weatherState.dailyWeather;
 
   const displayWeather: DailyWeatherData | null = useMemo(() => {
@@ -178,16 +199,6 @@ export function NoteLogView({
 
   useSectionTransform(editorRef, handleInput);
 
-  const handleKeyDown = useCallback(
-    (e: React.KeyboardEvent) => {
-      if ((e.metaKey || e.ctrlKey) && e.key === "Enter") {
-        e.preventDefault();
-        saveCard();
-      }
-    },
-    [saveCard],
-  );
-
   // Focus editor on 'n' key when not typing
   useEffect(() => {
     const handleGlobalKeyDown = (e: KeyboardEvent) => {
@@ -285,6 +296,38 @@ export function NoteLogView({
     [onImageDrop, handleInput],
   );
 
+  const {
+    menu: slashMenu,
+    handleInput: updateSlashMenu,
+    handleKeyDown: handleSlashKeyDown,
+    selectItem: selectSlashItem,
+    setActiveIndex: setActiveSlashItem,
+  } = useSlashCommands({
+    editorRef,
+    isEnabled: true,
+    date,
+    content,
+    weatherLabel,
+    onImageFile: onImageDrop ? handleImageFile : undefined,
+    onCommand: handleInput,
+  });
+
+  const handleEditorInput = useCallback(() => {
+    handleInput();
+    updateSlashMenu();
+  }, [handleInput, updateSlashMenu]);
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLDivElement>) => {
+      if (handleSlashKeyDown(e)) return;
+      if ((e.metaKey || e.ctrlKey) && e.key === "Enter") {
+        e.preventDefault();
+        saveCard();
+      }
+    },
+    [handleSlashKeyDown, saveCard],
+  );
+
   const handleFileChange = useCallback(
     (event: ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
@@ -313,6 +356,13 @@ export function NoteLogView({
         statusText={isDecrypting ? "Decrypting..." : null}
         weatherLabel={weatherLabel}
         debugKeyId={debugKeyId}
+        isHistoryOpen={historyDate === date}
+        onToggleHistory={handleToggleHistory}
+        canRestoreRevision={canEditNote(date)}
+        isShareOpen={shareDate === date}
+        onToggleShare={capabilities.canSync ? handleToggleShare : undefined}
+        isTasksOpen={tasksDate === date}
+        onToggleTasks={handleToggleTasks}
       />
 
       <div className={styles.topCard}>
@@ -321,13 +371,18 @@ export function NoteLogView({
           className={`${contentStyles.content} ${styles.editor}`}
           contentEditable
           suppressContentEditableWarning
-          onInput={handleInput}
+          onInput={handleEditorInput}
           onKeyDown={handleKeyDown}
           role="textbox"
           aria-multiline="true"
           aria-label="New entry"
           data-placeholder="What's on your mind?"
         />
+        <SlashCommandMenu
+          menu={slashMenu}
+          onSelect={selectSlashItem}
+          onHover={setActiveSlashItem}
+        />
         <button
           type="button"
           className={styles.saveButton}
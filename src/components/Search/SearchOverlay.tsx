@@ -23,18 +23,22 @@ interface SearchOverlayProps {
 }
 
 function highlightSnippet(result: SearchResult): React.ReactNode {
-  const { snippet, matchIndex, matchLength } = result;
-  if (matchIndex < 0 || matchIndex >= snippet.length) return snippet;
-  const before = snippet.slice(0, matchIndex);
-  const match = snippet.slice(matchIndex, matchIndex + matchLength);
-  const after = snippet.slice(matchIndex + matchLength);
-  return (
-    <>
-      {before}
-      <mark className={styles.highlight}>{match}</mark>
-      {after}
-    </>
-  );
+  const { snippet, highlights } = result;
+  if (highlights.length === 0) return snippet;
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const { start, length } of highlights) {
+    if (start < cursor || start >= snippet.length) continue;
+    parts.push(snippet.slice(cursor, start));
+    parts.push(
+      <mark key={start} className={styles.highlight}>
+        {snippet.slice(start, start + length)}
+      </mark>,
+    );
+    cursor = start + length;
+  }
+  parts.push(snippet.slice(cursor));
+  return <>{parts}</>;
 }
 
 function formatResultDate(dateStr: string): { label: string; year: string } {
@@ -149,6 +153,19 @@ export function SearchOverlay({
           <span className={styles.escBadge}>ESC</span>
         </div>
 
+        {!hasQuery && (
+          <div className={styles.syntaxHint}>
+            <code>&quot;exact phrase&quot;</code>
+            <code>-exclude</code>
+            <code>type:work</code>
+            <code>year:2024</code>
+            <code>before:2024-06-01</code>
+            <code>after:2024-01</code>
+            <code>has:image</code>
+            <code>has:weather</code>
+          </div>
+        )}
+
         {showProgress && progress && (
           <div className={styles.progressWrapper}>
             <div className={styles.progressText}>
@@ -1,9 +1,12 @@
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import {
   User,
   LogOut,
   LogIn,
   KeyRound,
+  Key,
+  LifeBuoy,
+  RefreshCw,
   Moon,
   Sun,
   Monitor,
@@ -15,8 +18,18 @@ import {
   ChevronRight,
   ExternalLink,
   Download,
+  Upload,
+  FolderOpen,
+  Archive,
+  ArchiveRestore,
+  BookOpen,
+  Trash2,
   X,
   Bug,
+  Fingerprint,
+  Lock,
+  BookCopy,
+  Users,
 } from "lucide-react";
 import { useTheme } from "@/hooks/useTheme";
 import type { ThemePreference } from "@/services/themePreferences";
@@ -24,6 +37,14 @@ import { getWeekdayOptions, setWeekStartPreference } from "@/utils/date";
 import { useWeatherContext } from "@/contexts/weatherContext";
 import { DebugKeyringSection } from "./DebugKeyringSection";
 import type { UseDebugKeyringReturn } from "../../hooks/useDebugKeyring";
+import type { UseKeyRotationReturn } from "../../hooks/useKeyRotation";
+import type { UsePasskeysReturn } from "../../hooks/usePasskeys";
+import type { UsePrivateDatesReturn } from "../../hooks/usePrivateDates";
+import type { UseVaultLockReturn } from "../../hooks/useVaultLock";
+import {
+  AUTO_LOCK_OPTIONS,
+  type AutoLockMinutes,
+} from "../../services/lockPreferences";
 import styles from "./SettingsSidebar.module.css";
 
 interface SettingsSidebarProps {
@@ -34,11 +55,28 @@ interface SettingsSidebarProps {
   onSignIn?: () => void;
   onSignOut?: () => void;
   onResetPassword?: () => void;
+  onRecoveryPhrase?: () => void;
+  onEncryptionKeys?: () => void;
+  onJournals?: () => void;
+  profileName?: string;
+  onProfiles?: () => void;
+  keyRotation?: UseKeyRotationReturn | null;
+  privateDates?: UsePrivateDatesReturn | null;
+  passkeys?: UsePasskeysReturn | null;
+  onLockNow?: () => void;
+  vaultLock?: UseVaultLockReturn | null;
+  // Something other than the device key can unlock the vault
+  canRequireUnlock?: boolean;
   commitHash: string;
   onOpenAbout?: () => void;
   onOpenPrivacy?: () => void;
   onWeekStartChange?: () => void;
   onExport?: () => Promise<void>;
+  onExportYearBook?: () => void;
+  onImport?: (files: File[]) => void;
+  onBackup?: () => void;
+  onRestoreBackup?: (file: File) => void;
+  onOpenTrash?: () => void;
   isDebug?: boolean;
   onDebugChange?: (next: boolean) => void;
   debugKeyring?: UseDebugKeyringReturn | null;
@@ -62,16 +100,65 @@ function SettingsHeader({ onClose }: { onClose: () => void }) {
   );
 }
 
+function describeKeyRotation(rotation: UseKeyRotationReturn): string | null {
+  const { status, progress, result, error } = rotation;
+  if (status === "error") return error;
+  if (status === "running") {
+    if (!progress || progress.phase === "retire") return "Finishing up...";
+    const what = progress.phase === "notes" ? "notes" : "images";
+    return `Re-encrypting ${what}: ${progress.done} of ${progress.total}`;
+  }
+  if (status !== "done" || !result) return null;
+  const outcome = result.complete
+    ? "Encryption key rotated."
+    : result.retireAfter && result.skipped.length === 0
+      ? `Notes moved to the new key. The old key is removed after ${new Date(
+          result.retireAfter,
+        ).toLocaleDateString(undefined, { month: "short", day: "numeric" })}.`
+      : `${result.skipped.length} item(s) still use an older key; they'll be retried later.`;
+  return result.recoveryPhraseOutdated
+    ? `${outcome} Create a new recovery phrase; the old one no longer unlocks your notes.`
+    : outcome;
+}
+
+function describePrivateDates(privateDates: UsePrivateDatesReturn): string | null {
+  const { status, progress, result, error } = privateDates;
+  if (status === "error") return error;
+  if (status === "running") {
+    if (!progress) return "Saving...";
+    const what = progress.phase === "notes" ? "notes" : "images";
+    return `Moving ${what}: ${progress.done} of ${progress.total}`;
+  }
+  if (status !== "done" || !result) return null;
+  return result.skipped.length > 0
+    ? `${result.skipped.length} item(s) couldn't be moved yet; they'll be retried later.`
+    : privateDates.isPrivate
+      ? "Note dates are now hidden from the server."
+      : "Note dates are now stored in plaintext.";
+}
+
 function UserSection({
   userEmail,
   onSignOut,
   onResetPassword,
+  onRecoveryPhrase,
+  onEncryptionKeys,
+  keyRotation,
+  privateDates,
 }: {
   userEmail: string;
   onSignOut?: () => void;
   onResetPassword?: () => void;
+  onRecoveryPhrase?: () => void;
+  onEncryptionKeys?: () => void;
+  keyRotation?: UseKeyRotationReturn | null;
+  privateDates?: UsePrivateDatesReturn | null;
 }) {
   const [resetSent, setResetSent] = useState(false);
+  const rotationStatus = keyRotation ? describeKeyRotation(keyRotation) : null;
+  const privateDatesStatus = privateDates
+    ? describePrivateDates(privateDates)
+    : null;
 
   const handleResetPassword = useCallback(() => {
     if (!onResetPassword || resetSent) return;
@@ -114,6 +201,72 @@ function UserSection({
         </button>
       )}
 
+      {onRecoveryPhrase && (
+        <button
+          className={styles.actionButton}
+          type="button"
+          onClick={onRecoveryPhrase}
+        >
+          <LifeBuoy className={styles.actionIcon} />
+          Recovery phrase
+        </button>
+      )}
+
+      {onEncryptionKeys && (
+        <button
+          className={styles.actionButton}
+          type="button"
+          onClick={onEncryptionKeys}
+        >
+          <Key className={styles.actionIcon} />
+          Encryption keys
+        </button>
+      )}
+
+      {keyRotation && (
+        <>
+          <button
+            className={styles.actionButton}
+            type="button"
+            onClick={() => void keyRotation.rotateNow()}
+            disabled={keyRotation.status === "running"}
+          >
+            <RefreshCw className={styles.actionIcon} />
+            {keyRotation.status === "running"
+              ? "Rotating encryption key..."
+              : "Rotate encryption key"}
+          </button>
+          {rotationStatus && (
+            <p className={styles.actionStatus}>{rotationStatus}</p>
+          )}
+        </>
+      )}
+
+      {privateDates && privateDates.isPrivate !== null && (
+        <>
+          <div className={styles.toggleRow}>
+            <span className={styles.rowLabel}>Hide note dates</span>
+            <button
+              className={styles.switch}
+              type="button"
+              role="switch"
+              aria-label="Hide note dates from the server"
+              aria-checked={privateDates.isPrivate}
+              data-checked={privateDates.isPrivate}
+              disabled={privateDates.status === "running"}
+              onClick={() =>
+                void privateDates.setPrivate(!privateDates.isPrivate)
+              }
+            >
+              <span className={styles.switchThumb} />
+            </button>
+          </div>
+          {privateDatesStatus && (
+            <p className={styles.actionStatus}>{privateDatesStatus}</p>
+          )}
+        </>
+      )}
+
       <div className={styles.separator} />
     </>
   );
@@ -136,6 +289,154 @@ function SignInSection({ onSignIn }: { onSignIn: () => void }) {
   );
 }
 
+function describePasskeys(passkeys: UsePasskeysReturn): string | null {
+  switch (passkeys.status) {
+    case "added":
+      return "Passkey added. Use it to unlock on this device.";
+    case "removed":
+      return "Passkeys removed.";
+    case "error":
+      return passkeys.error;
+    default:
+      return null;
+  }
+}
+
+function formatAutoLock(minutes: AutoLockMinutes): string {
+  return minutes < 60 ? `${minutes}m` : `${minutes / 60}h`;
+}
+
+function ProfileSection({
+  profileName,
+  onProfiles,
+}: {
+  profileName: string;
+  onProfiles: () => void;
+}) {
+  return (
+    <>
+      <div className={styles.section}>
+        <p className={styles.sectionLabel}>Profile</p>
+        <button
+          className={styles.actionButton}
+          type="button"
+          onClick={onProfiles}
+        >
+          <Users className={styles.actionIcon} />
+          {profileName}
+        </button>
+        <p className={styles.actionStatus}>
+          Switch profiles without signing out.
+        </p>
+      </div>
+
+      <div className={styles.separator} />
+    </>
+  );
+}
+
+function SecuritySection({
+  passkeys,
+  onLockNow,
+  vaultLock,
+  canRequireUnlock,
+}: {
+  passkeys?: UsePasskeysReturn | null;
+  onLockNow?: () => void;
+  vaultLock?: UseVaultLockReturn | null;
+  canRequireUnlock?: boolean;
+}) {
+  const status = passkeys ? describePasskeys(passkeys) : null;
+  const isWorking = passkeys?.status === "working";
+
+  return (
+    <>
+      <div className={styles.section}>
+        <p className={styles.sectionLabel}>Security</p>
+        {onLockNow && (
+          <button
+            className={styles.actionButton}
+            type="button"
+            onClick={onLockNow}
+          >
+            <Lock className={styles.actionIcon} />
+            Lock now
+          </button>
+        )}
+        {vaultLock && (
+          <div className={styles.toggleRow}>
+            <span className={styles.rowLabel}>Lock when idle</span>
+            <div className={styles.unitToggle}>
+              <button
+                className={styles.unitButton}
+                type="button"
+                data-active={vaultLock.minutes === null}
+                onClick={() => vaultLock.setMinutes(null)}
+              >
+                Off
+              </button>
+              {AUTO_LOCK_OPTIONS.map((minutes) => (
+                <button
+                  key={minutes}
+                  className={styles.unitButton}
+                  type="button"
+                  data-active={vaultLock.minutes === minutes}
+                  onClick={() => vaultLock.setMinutes(minutes)}
+                >
+                  {formatAutoLock(minutes)}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        {vaultLock && canRequireUnlock && (
+          <div className={styles.toggleRow}>
+            <span className={styles.rowLabel}>Skip device unlock</span>
+            <button
+              className={styles.switch}
+              type="button"
+              role="switch"
+              aria-label="Require password or passkey after locking"
+              aria-checked={vaultLock.skipDeviceUnlock}
+              data-checked={vaultLock.skipDeviceUnlock}
+              onClick={() =>
+                vaultLock.setSkipDeviceUnlock(!vaultLock.skipDeviceUnlock)
+              }
+            >
+              <span className={styles.switchThumb} />
+            </button>
+          </div>
+        )}
+        {passkeys && (
+          <button
+            className={styles.actionButton}
+            type="button"
+            onClick={() => void passkeys.add()}
+            disabled={isWorking}
+          >
+            <Fingerprint className={styles.actionIcon} />
+            {isWorking ? "Waiting for passkey..." : "Add passkey"}
+          </button>
+        )}
+        {passkeys && passkeys.count > 0 && (
+          <button
+            className={styles.actionButton}
+            type="button"
+            onClick={() => void passkeys.removeAll()}
+            disabled={isWorking}
+          >
+            <Trash2 className={styles.actionIcon} />
+            Remove passkeys ({passkeys.count})
+          </button>
+        )}
+        {status && <p className={styles.actionStatus}>{status}</p>}
+      </div>
+
+      <div className={styles.separator} />
+    </>
+  );
+}
+
 function AppearanceSection({
   theme,
   onThemeChange,
@@ -182,9 +483,11 @@ function AppearanceSection({
 function CalendarSection({
   weekStart,
   onWeekStartChange,
+  onJournals,
 }: {
   weekStart: number;
   onWeekStartChange: (dayIndex: number) => void;
+  onJournals?: () => void;
 }) {
   return (
     <div className={styles.section}>
@@ -210,6 +513,16 @@ function CalendarSection({
           </button>
         </div>
       </div>
+      {onJournals && (
+        <button
+          className={styles.actionButton}
+          type="button"
+          onClick={onJournals}
+        >
+          <BookCopy className={styles.actionIcon} />
+          Journals
+        </button>
+      )}
     </div>
   );
 }
@@ -301,9 +614,27 @@ function WeatherSection({
 
 function DataSection({
   onExport,
+  onExportYearBook,
+  onImport,
+  onBackup,
+  onRestoreBackup,
+  onOpenTrash,
 }: {
   onExport: () => Promise<void>;
+  onExportYearBook?: () => void;
+  onImport?: (files: File[]) => void;
+  onBackup?: () => void;
+  onRestoreBackup?: (file: File) => void;
+  onOpenTrash?: () => void;
 }) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  // React has no prop for the non-standard webkitdirectory attribute
+  const setFolderInput = useCallback((el: HTMLInputElement | null) => {
+    folderInputRef.current = el;
+    if (el) el.webkitdirectory = true;
+  }, []);
   const [status, setStatus] = useState<
     "idle" | "exporting" | "done" | "empty" | "error"
   >("idle");
@@ -331,6 +662,25 @@ function DataSection({
             ? "Export failed"
             : "Export as Markdown";
 
+  const handleFilesPicked = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(event.target.files ?? []);
+      // Reset so picking the same file again still fires a change
+      event.target.value = "";
+      if (files.length > 0) onImport?.(files);
+    },
+    [onImport],
+  );
+
+  const handleBackupPicked = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (file) onRestoreBackup?.(file);
+    },
+    [onRestoreBackup],
+  );
+
   return (
     <div className={styles.section}>
       <p className={styles.sectionLabel}>Data</p>
@@ -343,6 +693,89 @@ function DataSection({
         <Download className={styles.actionIcon} />
         {label}
       </button>
+      {onExportYearBook && (
+        <button
+          className={styles.actionButton}
+          type="button"
+          onClick={onExportYearBook}
+        >
+          <BookOpen className={styles.actionIcon} />
+          Export year book
+        </button>
+      )}
+      {onImport && (
+        <>
+          <button
+            className={styles.actionButton}
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className={styles.actionIcon} />
+            Import Markdown, ZIP or JSON
+          </button>
+          <button
+            className={styles.actionButton}
+            type="button"
+            onClick={() => folderInputRef.current?.click()}
+          >
+            <FolderOpen className={styles.actionIcon} />
+            Import folder
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".zip,.md,.json,application/zip,text/markdown,application/json"
+            multiple
+            hidden
+            onChange={handleFilesPicked}
+          />
+          <input
+            ref={setFolderInput}
+            type="file"
+            hidden
+            onChange={handleFilesPicked}
+          />
+        </>
+      )}
+      {onBackup && (
+        <button
+          className={styles.actionButton}
+          type="button"
+          onClick={onBackup}
+        >
+          <Archive className={styles.actionIcon} />
+          Create encrypted backup
+        </button>
+      )}
+      {onRestoreBackup && (
+        <>
+          <button
+            className={styles.actionButton}
+            type="button"
+            onClick={() => backupInputRef.current?.click()}
+          >
+            <ArchiveRestore className={styles.actionIcon} />
+            Restore backup
+          </button>
+          <input
+            ref={backupInputRef}
+            type="file"
+            accept=".ichinichi"
+            hidden
+            onChange={handleBackupPicked}
+          />
+        </>
+      )}
+      {onOpenTrash && (
+        <button
+          className={styles.actionButton}
+          type="button"
+          onClick={onOpenTrash}
+        >
+          <Trash2 className={styles.actionIcon} />
+          Trash
+        </button>
+      )}
     </div>
   );
 }
@@ -437,11 +870,27 @@ export function SettingsSidebar({
   onSignIn,
   onSignOut,
   onResetPassword,
+  onRecoveryPhrase,
+  onEncryptionKeys,
+  onJournals,
+  profileName,
+  onProfiles,
+  keyRotation,
+  privateDates,
+  passkeys,
+  onLockNow,
+  vaultLock,
+  canRequireUnlock,
   commitHash,
   onOpenAbout,
   onOpenPrivacy,
   onWeekStartChange,
   onExport,
+  onExportYearBook,
+  onImport,
+  onBackup,
+  onRestoreBackup,
+  onOpenTrash,
   isDebug,
   onDebugChange,
   debugKeyring,
@@ -530,11 +979,32 @@ export function SettingsSidebar({
 
         <div className={styles.body}>
           {isSignedIn && userEmail ? (
-            <UserSection userEmail={userEmail} onSignOut={onSignOut} onResetPassword={onResetPassword} />
+            <UserSection
+              userEmail={userEmail}
+              onSignOut={onSignOut}
+              onResetPassword={onResetPassword}
+              onRecoveryPhrase={onRecoveryPhrase}
+              onEncryptionKeys={onEncryptionKeys}
+              keyRotation={keyRotation}
+              privateDates={privateDates}
+            />
           ) : onSignIn ? (
             <SignInSection onSignIn={onSignIn} />
           ) : null}
 
+          {onProfiles && profileName && (
+            <ProfileSection profileName={profileName} onProfiles={onProfiles} />
+          )}
+
+          {(passkeys || onLockNow) && (
+            <SecuritySection
+              passkeys={passkeys}
+              onLockNow={onLockNow}
+              vaultLock={vaultLock}
+              canRequireUnlock={canRequireUnlock}
+            />
+          )}
+
           <AppearanceSection theme={theme} onThemeChange={handleThemeChange} />
 
           <div className={styles.separator} />
@@ -542,6 +1012,7 @@ export function SettingsSidebar({
           <CalendarSection
             weekStart={weekStart}
             onWeekStartChange={handleWeekStartChange}
+            onJournals={onJournals}
           />
 
           <div className={styles.separator} />
@@ -557,7 +1028,14 @@ export function SettingsSidebar({
           {onExport && (
             <>
               <div className={styles.separator} />
-              <DataSection onExport={onExport} />
+              <DataSection
+                onExport={onExport}
+                onExportYearBook={onExportYearBook}
+                onImport={onImport}
+                onBackup={onBackup}
+                onRestoreBackup={onRestoreBackup}
+                onOpenTrash={onOpenTrash}
+              />
             </>
           )}
 
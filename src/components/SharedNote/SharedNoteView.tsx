@@ -0,0 +1,59 @@
+import { useSharedNote } from "../../hooks/useSharedNote";
+import { formatDateDisplay } from "../../utils/date";
+import contentStyles from "../../styles/noteContent.module.css";
+import styles from "./SharedNoteView.module.css";
+
+interface SharedNoteViewProps {
+  shareId: string;
+  shareKey: string;
+}
+
+function formatExpiresAt(expiresAt: string): string {
+  return new Date(expiresAt).toLocaleDateString(undefined, {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/**
+ * Read-only page for a shared note link. Runs without an account or
+ * vault: everything it needs is in the link.
+ */
+export function SharedNoteView({ shareId, shareKey }: SharedNoteViewProps) {
+  const state = useSharedNote(shareId, shareKey);
+
+  return (
+    <main className={styles.page}>
+      <article className={styles.note}>
+        {state.status === "loading" && (
+          <p className={styles.message}>Decrypting...</p>
+        )}
+        {state.status === "error" && (
+          <p className={styles.message} role="alert">
+            {state.error}
+          </p>
+        )}
+        {state.status === "ready" && (
+          <>
+            <header className={styles.header}>
+              <h1 className={styles.date}>{formatDateDisplay(state.date)}</h1>
+              {state.weatherLabel && (
+                <span className={styles.weather}>{state.weatherLabel}</span>
+              )}
+            </header>
+            <div
+              className={`${contentStyles.content} ${styles.content}`}
+              dangerouslySetInnerHTML={{ __html: state.html }}
+            />
+          </>
+        )}
+        <p className={styles.footer}>
+          {state.status === "ready" &&
+            `Read-only copy, available until ${formatExpiresAt(state.expiresAt)}. `}
+          <a href="/">Ichinichi</a>
+        </p>
+      </article>
+    </main>
+  );
+}
@@ -0,0 +1 @@
+export { SharedNoteView } from "./SharedNoteView";
@@ -8,7 +8,97 @@ interface VaultUnlockProps {
   isBusy: boolean;
   error: string | null;
   onUnlock: (password: string) => void;
+  onPasskeyUnlock?: () => void;
+  onDeviceUnlock?: () => void;
   onSwitchToCloud?: () => void;
+  onRecover?: (
+    phrase: string,
+    newPassword: string,
+  ) => Promise<{ success: boolean; error?: string }>;
+}
+
+function RecoveryForm({
+  isBusy,
+  onRecover,
+  onCancel,
+}: {
+  isBusy: boolean;
+  onRecover: NonNullable<VaultUnlockProps["onRecover"]>;
+  onCancel: () => void;
+}) {
+  const [phrase, setPhrase] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [isRecovering, setIsRecovering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const disabled = isBusy || isRecovering;
+
+  return (
+    <VaultPanel
+      title="Recover your notes"
+      helper="Enter the recovery phrase you saved when you created your vault, then choose a new password."
+    >
+      <form
+        className={styles.form}
+        onSubmit={async (event) => {
+          event.preventDefault();
+          setIsRecovering(true);
+          setError(null);
+          const result = await onRecover(phrase, newPassword);
+          setIsRecovering(false);
+          if (!result.success) setError(result.error ?? "Recovery failed.");
+        }}
+      >
+        <label className={styles.label} htmlFor="vault-recovery-phrase">
+          Recovery phrase
+        </label>
+        <textarea
+          id="vault-recovery-phrase"
+          className={styles.input}
+          rows={3}
+          autoComplete="off"
+          autoCapitalize="none"
+          spellCheck={false}
+          value={phrase}
+          onChange={(event) => setPhrase(event.target.value)}
+          disabled={disabled}
+          required
+        />
+        <label className={styles.label} htmlFor="vault-new-password">
+          New password
+        </label>
+        <input
+          id="vault-new-password"
+          className={styles.input}
+          type="password"
+          autoComplete="new-password"
+          minLength={6}
+          value={newPassword}
+          onChange={(event) => setNewPassword(event.target.value)}
+          disabled={disabled}
+          required
+        />
+        {error && <div className={styles.error}>{error}</div>}
+        <Button
+          className={styles.actionButton}
+          variant="primary"
+          type="submit"
+          disabled={disabled}
+        >
+          {disabled ? "Working…" : "Recover and set password"}
+        </Button>
+      </form>
+      <p className={styles.note}>
+        <button
+          type="button"
+          className={styles.toggle}
+          onClick={onCancel}
+          disabled={disabled}
+        >
+          Back to password
+        </button>
+      </p>
+    </VaultPanel>
+  );
 }
 
 export function VaultUnlock({
@@ -16,9 +106,23 @@ export function VaultUnlock({
   isBusy,
   error,
   onUnlock,
+  onPasskeyUnlock,
+  onDeviceUnlock,
   onSwitchToCloud,
+  onRecover,
 }: VaultUnlockProps) {
   const [password, setPassword] = useState("");
+  const [isRecovering, setIsRecovering] = useState(false);
+
+  if (isRecovering && onRecover) {
+    return (
+      <RecoveryForm
+        isBusy={isBusy}
+        onRecover={onRecover}
+        onCancel={() => setIsRecovering(false)}
+      />
+    );
+  }
 
   const title =
     mode === "setup" ? "Set your vault password" : "Unlock your notes";
@@ -59,9 +163,44 @@ export function VaultUnlock({
           {isBusy ? "Working…" : mode === "setup" ? "Create vault" : "Unlock"}
         </Button>
       </form>
+      {mode === "unlock" && onPasskeyUnlock && (
+        <Button
+          className={styles.actionButton}
+          variant="ghost"
+          type="button"
+          onClick={onPasskeyUnlock}
+          disabled={isBusy}
+        >
+          Unlock with passkey
+        </Button>
+      )}
+      {mode === "unlock" && onDeviceUnlock && (
+        <Button
+          className={styles.actionButton}
+          variant="ghost"
+          type="button"
+          onClick={onDeviceUnlock}
+          disabled={isBusy}
+        >
+          Unlock on this device
+        </Button>
+      )}
       <p className={styles.note}>
         This browser remembers your unlock without storing the password.
       </p>
+      {onRecover && (
+        <p className={styles.note}>
+          Forgot your password?{" "}
+          <button
+            type="button"
+            className={styles.toggle}
+            onClick={() => setIsRecovering(true)}
+            disabled={isBusy}
+          >
+            Use your recovery phrase
+          </button>
+        </p>
+      )}
       {onSwitchToCloud && (
         <p className={styles.note}>
           Want to sync across devices?{" "}
@@ -1,8 +1,10 @@
 import { useUrlState } from "../hooks/useUrlState";
 import { useAuth } from "../hooks/useAuth";
-import { useAppMode } from "../hooks/useAppMode";
+import { AppMode, useAppMode } from "../hooks/useAppMode";
 import { useActiveVault } from "../hooks/useActiveVault";
+import { useJournals } from "../hooks/useJournals";
 import { useNoteRepository } from "../hooks/useNoteRepository";
+import { AuthState } from "../types";
 
 export function useAppController() {
   const auth = useAuth();
@@ -19,12 +21,27 @@ export function useAppController() {
     mode: appMode.mode,
     setMode: appMode.setMode,
   });
+  const journals = useJournals({
+    mode: appMode.mode,
+    userId: auth.user?.id ?? null,
+    isCloudReady:
+      appMode.mode === AppMode.Cloud &&
+      auth.authState === AuthState.SignedIn &&
+      activeVault.isVaultUnlocked,
+    keyring: activeVault.keyring,
+    activeKeyId: activeVault.activeKeyId,
+    authPassword: activeVault.authPassword,
+    journalId: routing.journalId,
+    onNewKey: activeVault.adoptCloudKey,
+  });
   const notes = useNoteRepository({
     mode: appMode.mode,
     authUser: auth.user,
     vaultKey: activeVault.vaultKey,
     keyring: activeVault.keyring,
-    activeKeyId: activeVault.activeKeyId,
+    // A journal with its own key stays closed until that key is unlocked
+    activeKeyId: journals.noteKeyId,
+    journalId: journals.current.id,
     date: activeNoteDate,
     year,
   });
@@ -34,6 +51,7 @@ export function useAppController() {
     auth,
     appMode,
     activeVault,
+    journals,
     notes,
   };
 }
@@ -60,11 +60,15 @@ export function useAppModalsController() {
     isVaultLocked,
     isVaultUnlocked,
     vaultError,
+    canUsePasskeys,
+    canUnlockWithDevice,
+    unlockWithDevice,
     handleLocalUnlock,
     handleSignIn,
     handleSignUp,
     handleSignOut,
     handleCloudVaultUnlock,
+    handleCloudVaultRecover,
     clearVaultError,
     localPassword,
   } = useActiveVaultContext();
@@ -122,7 +126,10 @@ export function useAppModalsController() {
     (!cloudVault.isReady || cloudVault.isBusy);
   const isSigningIn = useDelayedTrue(isSigningInRaw, 300);
   const isVaultBusy = mode === AppMode.Cloud ? cloudVault.isBusy : localVault.isBusy;
-  const hasPasswordPending = mode === AppMode.Cloud && !!authPassword;
+  // A password that already failed to unlock isn't pending; the unlock
+  // form is shown again with the error
+  const hasPasswordPending =
+    mode === AppMode.Cloud && !!authPassword && !cloudVault.error;
   const vaultUiState = useVaultUiState({
     showIntro,
     isModeChoiceOpen,
@@ -164,6 +171,11 @@ export function useAppModalsController() {
       isBusy: localVault.isBusy,
       error: localVault.error,
       onUnlock: handleLocalUnlock,
+      onPasskeyUnlock:
+        canUsePasskeys && localVault.hasPasskey
+          ? () => void localVault.unlockWithPasskey()
+          : undefined,
+      onDeviceUnlock: canUnlockWithDevice ? unlockWithDevice : undefined,
       onSwitchToCloud: switchToCloud,
     },
     cloudAuthModal: {
@@ -178,6 +190,11 @@ export function useAppModalsController() {
       onSignUp: handleSignUp,
       onResetPassword: (email: string) => auth.resetPassword(email),
       onVaultUnlock: handleCloudVaultUnlock,
+      onVaultPasskeyUnlock: canUsePasskeys
+        ? () => void cloudVault.unlockWithPasskey()
+        : undefined,
+      onVaultDeviceUnlock: canUnlockWithDevice ? unlockWithDevice : undefined,
+      onVaultRecover: handleCloudVaultRecover,
     },
     vaultErrorModal: {
       isOpen: vaultUiState === "vaultError",
@@ -5,6 +5,8 @@ import type { SavedWeather } from "../../types";
 export interface NotePayload {
   content: string;
   weather?: SavedWeather | null;
+  // The note's date, for rows whose date column is a keyed hash
+  date?: string;
 }
 
 export interface E2eeService {
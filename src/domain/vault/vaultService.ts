@@ -2,6 +2,8 @@ export interface CloudVaultUnlockResult {
   vaultKey: CryptoKey | null;
   keyring: Map<string, CryptoKey>;
   primaryKeyId: string | null;
+  // Set only when this unlock created the cloud vault; shown to the user once
+  recoveryPhrase?: string | null;
 }
 
 export interface VaultService {
@@ -22,4 +24,9 @@ export interface VaultService {
     password: string;
     hasVault: boolean;
   }): Promise<{ vaultKey: CryptoKey; hasVault: boolean }>;
+  hasLocalPasskey(): boolean;
+  unlockLocalVaultWithPasskey(): Promise<{ vaultKey: CryptoKey }>;
+  unlockCloudVaultWithPasskey(options: {
+    userId: string;
+  }): Promise<CloudVaultUnlockResult>;
 }
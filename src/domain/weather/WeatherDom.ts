@@ -2,7 +2,9 @@ import type { DailyWeatherData } from "./WeatherRepository";
 
 const WEATHER_ATTR = "data-weather";
 
-export function formatDailyWeatherLabel(weather: DailyWeatherData): string {
+export function formatDailyWeatherLabel(
+  weather: Omit<DailyWeatherData, "timestamp">,
+): string {
   const temp = `${weather.temperatureLow}–${weather.temperatureHigh}°${weather.unit}`;
   if (weather.city) {
     return `${weather.city}, ${temp} ${weather.icon}`;
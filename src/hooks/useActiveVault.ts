@@ -7,13 +7,19 @@ import { AuthState } from "../types";
 import { useServiceContext } from "../contexts/serviceContext";
 import { useVaultMachine } from "./useVaultMachine";
 import { handleCloudAccountSwitch } from "../storage/accountSwitch";
-import { fetchAndUnwrapCloudKeyring } from "../services/vaultService";
+import {
+  fetchAndUnwrapCloudKeyring,
+  recoverCloudVault,
+} from "../services/vaultService";
 import {
   storeDeviceEncryptedPassword,
   tryGetDeviceEncryptedPassword,
   clearDeviceEncryptedPassword,
 } from "../storage/vault";
+import { isPasskeySupported } from "../storage/passkey";
+import { suspendDeviceUnlock } from "../storage/vaultLock";
 import { supabase } from "../services/supabase";
+import { clearEditorHistory } from "../services/editorHistory";
 
 interface UseActiveVaultProps {
   auth: UseAuthReturn;
@@ -35,12 +41,25 @@ export interface UseActiveVaultReturn {
   isVaultLocked: boolean;
   isVaultUnlocked: boolean;
   vaultError: string | null;
+  // WebAuthn is available; whether the passkey has PRF support only shows
+  // once it is used
+  canUsePasskeys: boolean;
+  // Locked from this session with device-key unlock still allowed
+  canUnlockWithDevice: boolean;
+  lock: (options: { skipDeviceUnlock: boolean }) => void;
+  unlockWithDevice: () => void;
   handleLocalUnlock: (password: string) => Promise<boolean>;
   handleSignIn: (email: string, password: string) => void;
   handleSignUp: (email: string, password: string) => void;
   handleSignOut: () => Promise<void>;
   handleCloudVaultUnlock: (password: string) => void;
+  handleCloudVaultRecover: (
+    phrase: string,
+    newPassword: string,
+  ) => Promise<{ success: boolean; error?: string }>;
   clearVaultError: () => void;
+  adoptCloudPrimaryKey: (keyId: string, key: CryptoKey) => void;
+  adoptCloudKey: (keyId: string, key: CryptoKey) => void;
   setLocalPassword: (password: string | null) => void;
 }
 
@@ -54,6 +73,7 @@ export function useActiveVault({
   const [authPassword, setAuthPassword] = useState<string | null>(null);
   const [localPassword, setLocalPassword] = useState<string | null>(null);
   const [state, send] = useVaultMachine();
+  const [canUsePasskeys] = useState(isPasskeySupported);
 
   const cloudVault = useVault({
     vaultService,
@@ -248,6 +268,65 @@ export function useActiveVault({
     setAuthPassword(password);
   }, []);
 
+  // Forgotten password: the recovery phrase re-wraps the cloud keyring with
+  // a new password, which then becomes the account password and unlocks
+  // the vault the usual way.
+  const handleCloudVaultRecover = useCallback(
+    async (phrase: string, newPassword: string) => {
+      if (!auth.user) return { success: false, error: "Sign in first." };
+      try {
+        await recoverCloudVault({
+          supabase,
+          userId: auth.user.id,
+          phrase,
+          newPassword,
+        });
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Recovery failed.",
+        };
+      }
+      const updated = await auth.updatePassword(newPassword);
+      setAuthPassword(newPassword);
+      if (!updated.success) {
+        return {
+          success: false,
+          error:
+            "Your notes are unlocked, but your account password could not be changed. Use Reset password in the settings to change it.",
+        };
+      }
+      return { success: true };
+    },
+    [auth],
+  );
+
+  // Drops every key and password held in memory. Unless `skipDeviceUnlock`
+  // is set, the device key can reopen the vault afterwards
+  const [lockedWithDevice, setLockedWithDevice] = useState(false);
+  const { lock: lockLocalVault } = localVault;
+  const { lock: lockCloudVault } = cloudVault;
+  const lock = useCallback(({ skipDeviceUnlock }: { skipDeviceUnlock: boolean }) => {
+    if (skipDeviceUnlock) suspendDeviceUnlock();
+    setLockedWithDevice(!skipDeviceUnlock);
+    lockLocalVault();
+    lockCloudVault();
+    clearEditorHistory();
+    send({ type: "LOCKED" });
+    setFetchedCloudKeys(new Map());
+    setFetchedCloudPrimaryId(null);
+    setCloudKeysFetched(false);
+    setAuthPassword(null);
+    setLocalPassword(null);
+    setDevicePassword(null);
+    hasFetchedCloudKeysRef.current = null;
+  }, [lockLocalVault, lockCloudVault, send]);
+
+  const unlockWithDevice = useCallback(() => {
+    void localVault.unlockWithDevice();
+    if (mode === AppMode.Cloud) cloudVault.unlockWithDevice();
+  }, [localVault, cloudVault, mode]);
+
   const clearVaultError = useCallback(() => {
     if (mode === AppMode.Cloud) {
       cloudVault.clearError();
@@ -256,6 +335,19 @@ export function useActiveVault({
     localVault.clearError();
   }, [cloudVault, localVault, mode]);
 
+  // A key created on this device (key rotation) becomes the primary
+  // without another round-trip to the cloud keyring.
+  const adoptCloudPrimaryKey = useCallback((keyId: string, key: CryptoKey) => {
+    setFetchedCloudKeys((prev) => new Map(prev).set(keyId, key));
+    setFetchedCloudPrimaryId(keyId);
+  }, []);
+
+  // A key created on this device for one journal joins the keyring
+  // without changing the primary
+  const adoptCloudKey = useCallback((keyId: string, key: CryptoKey) => {
+    setFetchedCloudKeys((prev) => new Map(prev).set(keyId, key));
+  }, []);
+
   return {
     auth,
     localVault,
@@ -270,12 +362,19 @@ export function useActiveVault({
     isVaultLocked,
     isVaultUnlocked,
     vaultError,
+    canUsePasskeys,
+    canUnlockWithDevice: lockedWithDevice && isVaultLocked,
+    lock,
+    unlockWithDevice,
     handleLocalUnlock,
     handleSignIn,
     handleSignUp,
     handleSignOut,
     handleCloudVaultUnlock,
+    handleCloudVaultRecover,
     clearVaultError,
+    adoptCloudPrimaryKey,
+    adoptCloudKey,
     setLocalPassword,
   };
 }
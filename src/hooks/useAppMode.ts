@@ -3,6 +3,7 @@ import { AuthState } from "./useAuth";
 import { STORAGE_PREFIX } from "../utils/constants";
 import { useCloudPrompt } from "./useCloudPrompt";
 import { AppMode } from "../utils/appMode";
+import { profileStorageKey } from "../storage/profiles";
 
 export { AppMode } from "../utils/appMode";
 
@@ -25,7 +26,7 @@ export interface UseAppModeReturn {
 
 export function useAppMode({ authState }: UseAppModeProps): UseAppModeReturn {
   const [modePreference, setModePreference] = useState<AppMode | null>(null);
-  const cloudPrompt = useCloudPrompt(CLOUD_PROMPT_KEY);
+  const cloudPrompt = useCloudPrompt(profileStorageKey(CLOUD_PROMPT_KEY));
   const mode: AppMode =
     authState === AuthState.SignedIn
       ? AppMode.Cloud
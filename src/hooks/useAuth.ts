@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useReducer } from "react";
 import type { Session, User, AuthError } from "@supabase/supabase-js";
 import { supabase } from "../services/supabase";
+import { profileStorageKey } from "../storage/profiles";
 import { AUTH_HAS_LOGGED_IN_KEY } from "../utils/constants";
 import { AuthState } from "../types";
 export { AuthState } from "../types";
@@ -104,7 +105,7 @@ function applySession(
 function markHasLoggedIn(session: Session | null): void {
   if (typeof window === "undefined") return;
   if (session) {
-    localStorage.setItem(AUTH_HAS_LOGGED_IN_KEY, "1");
+    localStorage.setItem(profileStorageKey(AUTH_HAS_LOGGED_IN_KEY), "1");
   }
 }
 
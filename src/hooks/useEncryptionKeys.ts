@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  beginReencryption,
+  deleteUnusedKey,
+  listKeyUsage,
+  promoteKey,
+  type KeyUsage,
+} from "../services/keyRotation";
+import { supabase } from "../services/supabase";
+import { listLocalKeyIds } from "../storage/localKeyring";
+import type { UseKeyRotationReturn } from "./useKeyRotation";
+import { reportError } from "../utils/errorReporter";
+
+type KeysStatus = "idle" | "working" | "error";
+
+export interface EncryptionKeyInfo extends KeyUsage {
+  // A wrapped copy is stored on this device
+  onDevice: boolean;
+  // Unlocked in this session, so records can be moved onto it
+  isUnlocked: boolean;
+}
+
+interface UseEncryptionKeysProps {
+  userId: string | null;
+  // Cloud mode, signed in, unlocked and the keys page is open
+  isEnabled: boolean;
+  keyring: Map<string, CryptoKey>;
+  keyRotation: UseKeyRotationReturn;
+  onNewPrimaryKey: (keyId: string, key: CryptoKey) => void;
+}
+
+export interface UseEncryptionKeysReturn {
+  keys: EncryptionKeyInfo[];
+  status: KeysStatus;
+  error: string | null;
+  message: string | null;
+  keyRotation: UseKeyRotationReturn;
+  promote: (keyId: string) => Promise<void>;
+  reencrypt: () => Promise<void>;
+  remove: (keyId: string) => Promise<void>;
+}
+
+/**
+ * The cloud keyring with per-key usage, plus the actions of the
+ * encryption keys page. Moving records between keys goes through the
+ * pending key rotation, so it resumes after a reload like a rotation does.
+ */
+export function useEncryptionKeys({
+  userId,
+  isEnabled,
+  keyring,
+  keyRotation,
+  onNewPrimaryKey,
+}: UseEncryptionKeysProps): UseEncryptionKeysReturn {
+  const [usage, setUsage] = useState<KeyUsage[]>([]);
+  const [status, setStatus] = useState<KeysStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [loadCount, setLoadCount] = useState(0);
+  const { rotateNow, status: rotationStatus } = keyRotation;
+
+  useEffect(() => {
+    if (!isEnabled || !userId) return;
+    let cancelled = false;
+    listKeyUsage({ supabase, userId })
+      .then((next) => {
+        if (!cancelled) setUsage(next);
+      })
+      .catch((err: unknown) => {
+        reportError("encryptionKeys.load", err);
+        if (cancelled) return;
+        setError("Could not load your keys. Try again when online.");
+        setStatus("error");
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Reload once a re-encryption finishes, the counts have changed
+  }, [isEnabled, userId, loadCount, rotationStatus]);
+
+  const run = useCallback(
+    async (task: () => Promise<string>) => {
+      if (rotationStatus === "running") {
+        setError("Wait for the current re-encryption to finish.");
+        setStatus("error");
+        return;
+      }
+      setStatus("working");
+      setError(null);
+      setMessage(null);
+      try {
+        setMessage(await task());
+        setStatus("idle");
+      } catch (err) {
+        reportError("encryptionKeys", err);
+        setError(err instanceof Error ? err.message : "Something went wrong.");
+        setStatus("error");
+      }
+      setLoadCount((count) => count + 1);
+    },
+    [rotationStatus],
+  );
+
+  const promote = useCallback(
+    (keyId: string) =>
+      run(async () => {
+        if (!userId) throw new Error("Sign in first.");
+        const key = keyring.get(keyId);
+        if (!key) throw new Error("That key isn't unlocked on this device.");
+        await promoteKey({ supabase, userId, keyId });
+        onNewPrimaryKey(keyId, key);
+        void rotateNow();
+        return "Primary key changed. Moving your notes to it...";
+      }),
+    [run, userId, keyring, onNewPrimaryKey, rotateNow],
+  );
+
+  const reencrypt = useCallback(
+    () =>
+      run(async () => {
+        if (!userId) throw new Error("Sign in first.");
+        const primary = usage.find((entry) => entry.isPrimary);
+        if (!primary) throw new Error("There is no primary key.");
+        if (!keyring.has(primary.keyId)) {
+          throw new Error("The primary key isn't unlocked on this device.");
+        }
+        beginReencryption(userId, primary.keyId);
+        void rotateNow();
+        return "Moving your notes to the primary key...";
+      }),
+    [run, userId, usage, keyring, rotateNow],
+  );
+
+  const remove = useCallback(
+    (keyId: string) =>
+      run(async () => {
+        if (!userId) throw new Error("Sign in first.");
+        await deleteUnusedKey({ supabase, userId, keyId });
+        return "Key deleted.";
+      }),
+    [run, userId],
+  );
+
+  const localKeyIds = new Set(isEnabled ? listLocalKeyIds() : []);
+  const keys = usage.map((entry) => ({
+    ...entry,
+    onDevice: localKeyIds.has(entry.keyId),
+    isUnlocked: keyring.has(entry.keyId),
+  }));
+
+  return {
+    keys,
+    status,
+    error,
+    message,
+    keyRotation,
+    promote,
+    reencrypt,
+    remove,
+  };
+}
@@ -0,0 +1,252 @@
+import { useCallback, useEffect, useState } from "react";
+import { useServiceContext } from "../contexts/serviceContext";
+import { createJournalKey } from "../services/keyRotation";
+import { supabase } from "../services/supabase";
+import { createAppDatabase } from "../storage/rxdb/database";
+import {
+  countJournalNotes,
+  createJournalId,
+  DEFAULT_JOURNAL_ID,
+  deleteJournalRow,
+  fetchJournals,
+  JOURNAL_NAME_MAX_LENGTH,
+  journalDatabaseName,
+  loadJournals,
+  saveJournal,
+  saveJournals,
+  type Journal,
+} from "../storage/journals";
+import { localDatabaseOwner } from "../storage/profiles";
+import { tryGetDeviceEncryptedPassword } from "../storage/vault";
+import { AppMode } from "./useAppMode";
+import { reportError } from "../utils/errorReporter";
+
+type JournalsStatus = "idle" | "working" | "error";
+
+interface UseJournalsProps {
+  mode: AppMode;
+  userId: string | null;
+  // Cloud mode, signed in and unlocked
+  isCloudReady: boolean;
+  keyring: Map<string, CryptoKey>;
+  activeKeyId: string | null;
+  authPassword: string | null;
+  // From the URL; may name a journal this device doesn't know
+  journalId: string;
+  onNewKey: (keyId: string, key: CryptoKey) => void;
+}
+
+export interface UseJournalsReturn {
+  journals: Journal[];
+  current: Journal;
+  // Key for the current journal's notes; null while it isn't unlocked
+  noteKeyId: string | null;
+  // A journal can have its own key (cloud only)
+  canUseSeparateKey: boolean;
+  status: JournalsStatus;
+  error: string | null;
+  create: (
+    name: string,
+    options: { separateKey: boolean },
+  ) => Promise<Journal | null>;
+  rename: (journalId: string, name: string) => Promise<void>;
+  remove: (journalId: string) => Promise<void>;
+}
+
+function cleanName(name: string): string {
+  const trimmed = name.trim().slice(0, JOURNAL_NAME_MAX_LENGTH);
+  if (!trimmed) throw new Error("Give the journal a name.");
+  return trimmed;
+}
+
+/**
+ * The journals of the signed-in account, or of this device in local mode.
+ * The list is cached per owner so the switcher shows before the server
+ * answers; in cloud mode the server's list replaces it once fetched.
+ */
+export function useJournals({
+  mode,
+  userId,
+  isCloudReady,
+  keyring,
+  activeKeyId,
+  authPassword,
+  journalId,
+  onNewKey,
+}: UseJournalsProps): UseJournalsReturn {
+  const { e2eeFactory } = useServiceContext();
+  const owner = userId ?? localDatabaseOwner();
+  const [list, setList] = useState(() => ({
+    owner,
+    journals: loadJournals(owner),
+  }));
+  const [status, setStatus] = useState<JournalsStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [loadCount, setLoadCount] = useState(0);
+
+  // Account switched: show that account's cached list
+  if (list.owner !== owner) {
+    setList({ owner, journals: loadJournals(owner) });
+  }
+  const journals = list.owner === owner ? list.journals : loadJournals(owner);
+
+  // Depends on the keyring, so names of newly unlocked keys are refetched
+  const createE2ee = useCallback(
+    (keyId: string) =>
+      e2eeFactory.create({
+        activeKeyId: keyId,
+        getKey: (id) => keyring.get(id) ?? null,
+      }),
+    [e2eeFactory, keyring],
+  );
+
+  const store = useCallback(
+    (next: Journal[]) => {
+      saveJournals(owner, next);
+      setList({ owner, journals: loadJournals(owner) });
+    },
+    [owner],
+  );
+
+  useEffect(() => {
+    if (!isCloudReady || !userId || !activeKeyId) return;
+    let cancelled = false;
+    fetchJournals(supabase, userId, createE2ee(activeKeyId))
+      .then((remote) => {
+        if (cancelled) return;
+        const next = remote.map(
+          ({ id, name, noteKeyId, createdAt }): Journal => ({
+            id,
+            name,
+            noteKeyId,
+            createdAt,
+          }),
+        );
+        saveJournals(userId, next);
+        setList({ owner: userId, journals: loadJournals(userId) });
+      })
+      .catch((err: unknown) => reportError("journals.load", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [isCloudReady, userId, activeKeyId, createE2ee, loadCount]);
+
+  const run = useCallback(async <T>(task: () => Promise<T>) => {
+    setStatus("working");
+    setError(null);
+    try {
+      const value = await task();
+      setStatus("idle");
+      return value;
+    } catch (err) {
+      reportError("journals", err);
+      setError(err instanceof Error ? err.message : "Something went wrong.");
+      setStatus("error");
+      return null;
+    }
+  }, []);
+
+  const isCloud = mode === AppMode.Cloud;
+
+  const create = useCallback(
+    (name: string, options: { separateKey: boolean }) =>
+      run(async () => {
+        const journal: Journal = {
+          id: createJournalId(),
+          name: cleanName(name),
+          noteKeyId: null,
+          createdAt: new Date().toISOString(),
+        };
+        if (isCloud) {
+          if (!userId || !activeKeyId) throw new Error("Unlock your notes first.");
+          if (options.separateKey) {
+            const password =
+              authPassword ?? (await tryGetDeviceEncryptedPassword());
+            if (!password) {
+              throw new Error("Unlock with your password to create a key.");
+            }
+            const { keyId, key } = await createJournalKey({
+              supabase,
+              userId,
+              password,
+            });
+            onNewKey(keyId, key);
+            journal.noteKeyId = keyId;
+          }
+          await saveJournal(supabase, userId, createE2ee(activeKeyId), journal);
+        }
+        store([...journals, journal]);
+        return journal;
+      }),
+    [run, isCloud, userId, activeKeyId, authPassword, onNewKey, createE2ee, store, journals],
+  );
+
+  const rename = useCallback(
+    async (targetId: string, name: string) => {
+      await run(async () => {
+        const journal = journals.find((entry) => entry.id === targetId);
+        if (!journal) throw new Error("That journal no longer exists.");
+        const renamed = { ...journal, name: cleanName(name) };
+        if (isCloud) {
+          if (!userId || !activeKeyId) throw new Error("Unlock your notes first.");
+          await saveJournal(supabase, userId, createE2ee(activeKeyId), renamed);
+        }
+        store(
+          journals.map((entry) => (entry.id === targetId ? renamed : entry)),
+        );
+      });
+    },
+    [run, journals, isCloud, userId, activeKeyId, createE2ee, store],
+  );
+
+  const remove = useCallback(
+    async (targetId: string) => {
+      await run(async () => {
+        if (targetId === DEFAULT_JOURNAL_ID) {
+          throw new Error("The first journal can't be deleted.");
+        }
+        if (targetId === journalId) {
+          throw new Error("Switch to another journal first.");
+        }
+        if (isCloud) {
+          if (!userId) throw new Error("Sign in first.");
+          if (await countJournalNotes(supabase, userId, targetId)) {
+            throw new Error("Delete this journal's notes first.");
+          }
+        }
+        const db = await createAppDatabase(journalDatabaseName(owner, targetId));
+        const localCount = await db.notes.count().exec();
+        if (localCount > 0) {
+          throw new Error("Delete this journal's notes first.");
+        }
+        if (isCloud && userId) {
+          await deleteJournalRow(supabase, userId, targetId);
+        }
+        await db.remove();
+        store(journals.filter((entry) => entry.id !== targetId));
+        setLoadCount((count) => count + 1);
+      });
+    },
+    [run, journalId, isCloud, userId, owner, journals, store],
+  );
+
+  const current =
+    journals.find((entry) => entry.id === journalId) ?? journals[0];
+  const noteKeyId = current.noteKeyId
+    ? keyring.has(current.noteKeyId)
+      ? current.noteKeyId
+      : null
+    : activeKeyId;
+
+  return {
+    journals,
+    current,
+    noteKeyId,
+    canUseSeparateKey: isCloud,
+    status,
+    error,
+    create,
+    rename,
+    remove,
+  };
+}
@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useServiceContext } from "../contexts/serviceContext";
+import {
+  continueKeyRotation,
+  getPendingKeyRotation,
+  isKeyRotationDue,
+  startKeyRotation,
+  type KeyRotationProgress,
+  type KeyRotationResult,
+} from "../services/keyRotation";
+import { supabase } from "../services/supabase";
+import { fetchUserKeyring } from "../storage/userKeyring";
+import { tryGetDeviceEncryptedPassword } from "../storage/vault";
+import type { KeyRotationState } from "../storage/keyRotationState";
+import { reportError } from "../utils/errorReporter";
+
+type RotationStatus = "idle" | "running" | "done" | "error";
+
+interface UseKeyRotationProps {
+  userId: string | null;
+  // Cloud mode, signed in and unlocked
+  isEnabled: boolean;
+  keyring: Map<string, CryptoKey>;
+  activeKeyId: string | null;
+  authPassword: string | null;
+  onNewPrimaryKey: (keyId: string, key: CryptoKey) => void;
+}
+
+export interface UseKeyRotationReturn {
+  status: RotationStatus;
+  progress: KeyRotationProgress | null;
+  result: KeyRotationResult | null;
+  error: string | null;
+  rotateNow: () => Promise<void>;
+}
+
+/**
+ * Rotates the cloud DEK when the primary key is older than the rotation
+ * interval, and resumes a rotation interrupted by a reload. Runs at most
+ * once per session on its own; `rotateNow` starts one on demand.
+ */
+export function useKeyRotation({
+  userId,
+  isEnabled,
+  keyring,
+  activeKeyId,
+  authPassword,
+  onNewPrimaryKey,
+}: UseKeyRotationProps): UseKeyRotationReturn {
+  const { e2eeFactory } = useServiceContext();
+  const [status, setStatus] = useState<RotationStatus>("idle");
+  const [progress, setProgress] = useState<KeyRotationProgress | null>(null);
+  const [result, setResult] = useState<KeyRotationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const keyringRef = useRef(keyring);
+  keyringRef.current = keyring;
+  const runningRef = useRef(false);
+  const checkedUserRef = useRef<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const run = useCallback(
+    async (
+      currentUserId: string,
+      state: KeyRotationState,
+      newKey?: CryptoKey,
+    ) => {
+      // Keys as they were before the new primary was adopted, so aliases
+      // like "legacy" still resolve to the key that wrote those records
+      const keys = new Map(keyringRef.current);
+      const e2ee = e2eeFactory.create({
+        activeKeyId: state.targetKeyId,
+        getKey: (keyId) =>
+          keyId === state.targetKeyId && newKey
+            ? newKey
+            : (keys.get(keyId) ?? keyringRef.current.get(keyId) ?? null),
+      });
+      const controller = new AbortController();
+      abortRef.current = controller;
+      const outcome = await continueKeyRotation({
+        supabase,
+        userId: currentUserId,
+        e2ee,
+        state,
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      if (!controller.signal.aborted) setResult(outcome);
+    },
+    [e2eeFactory],
+  );
+
+  const rotate = useCallback(
+    async (currentUserId: string, password: string) => {
+      const { keyId, key, state } = await startKeyRotation({
+        supabase,
+        userId: currentUserId,
+        password,
+      });
+      onNewPrimaryKey(keyId, key);
+      await run(currentUserId, state, key);
+    },
+    [onNewPrimaryKey, run],
+  );
+
+  const guarded = useCallback(async (task: () => Promise<void>) => {
+    if (runningRef.current) return;
+    runningRef.current = true;
+    setStatus("running");
+    setError(null);
+    setProgress(null);
+    try {
+      await task();
+      setStatus("done");
+    } catch (err) {
+      reportError("keyRotation", err);
+      setError(
+        err instanceof Error ? err.message : "Key rotation failed.",
+      );
+      setStatus("error");
+    } finally {
+      runningRef.current = false;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isEnabled || !userId || !activeKeyId) return;
+    if (checkedUserRef.current === userId) return;
+    checkedUserRef.current = userId;
+
+    const pending = getPendingKeyRotation(userId);
+    if (pending) {
+      // Wait for the cloud keyring to bring the new key along
+      if (!keyringRef.current.has(pending.targetKeyId)) {
+        checkedUserRef.current = null;
+        return;
+      }
+      void guarded(() => run(userId, pending));
+      return;
+    }
+
+    void (async () => {
+      const entries = await fetchUserKeyring(supabase, userId);
+      if (!isKeyRotationDue(entries)) return;
+      const password = authPassword ?? (await tryGetDeviceEncryptedPassword());
+      if (!password) return;
+      await guarded(() => rotate(userId, password));
+    })().catch((err: unknown) => reportError("keyRotation.schedule", err));
+  }, [isEnabled, userId, activeKeyId, authPassword, guarded, run, rotate]);
+
+  const rotateNow = useCallback(async () => {
+    if (!userId) return;
+    await guarded(async () => {
+      const pending = getPendingKeyRotation(userId);
+      if (pending && keyringRef.current.has(pending.targetKeyId)) {
+        await run(userId, pending);
+        return;
+      }
+      const password = authPassword ?? (await tryGetDeviceEncryptedPassword());
+      if (!password) {
+        throw new Error("Unlock with your password to rotate the key.");
+      }
+      await rotate(userId, password);
+    });
+  }, [userId, authPassword, guarded, run, rotate]);
+
+  return { status, progress, result, error, rotateNow };
+}
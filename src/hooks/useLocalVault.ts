@@ -9,7 +9,13 @@ export interface UseLocalVaultReturn {
   requiresPassword: boolean;
   isBusy: boolean;
   error: string | null;
+  // A passkey can unlock this vault
+  hasPasskey: boolean;
   unlock: (password: string) => Promise<boolean>;
+  unlockWithPasskey: () => Promise<boolean>;
+  // Unlocks with the device-wrapped key again after `lock`
+  unlockWithDevice: () => Promise<boolean>;
+  lock: () => void;
   clearError: () => void;
 }
 
@@ -20,6 +26,7 @@ interface LocalVaultState {
   vaultKey: CryptoKey | null;
   hasVault: boolean;
   requiresPassword: boolean;
+  hasPasskey: boolean;
   error: string | null;
 }
 
@@ -29,11 +36,13 @@ type LocalVaultEvent =
       hasVault: boolean;
       requiresPassword: boolean;
       vaultKey: CryptoKey | null;
+      hasPasskey: boolean;
     }
   | { type: "BOOTSTRAP_ERROR" }
   | { type: "UNLOCK_START" }
   | { type: "UNLOCK_SUCCESS"; vaultKey: CryptoKey; hasVault: boolean }
   | { type: "UNLOCK_ERROR"; error: string }
+  | { type: "LOCK" }
   | { type: "SET_ERROR"; error: string }
   | { type: "CLEAR_ERROR" };
 
@@ -49,6 +58,7 @@ function localVaultReducer(
         hasVault: event.hasVault,
         requiresPassword: event.requiresPassword,
         vaultKey: event.vaultKey ?? state.vaultKey,
+        hasPasskey: event.hasPasskey,
       };
     case "BOOTSTRAP_ERROR":
       return {
@@ -68,6 +78,14 @@ function localVaultReducer(
       };
     case "UNLOCK_ERROR":
       return { ...state, phase: "ready", error: event.error };
+    case "LOCK":
+      if (!state.vaultKey) return state;
+      return {
+        ...state,
+        vaultKey: null,
+        requiresPassword: true,
+        error: null,
+      };
     case "SET_ERROR":
       return { ...state, error: event.error };
     case "CLEAR_ERROR":
@@ -85,6 +103,7 @@ export function useLocalVault({
     vaultKey: null,
     hasVault: vaultService.getHasLocalVault(),
     requiresPassword: false,
+    hasPasskey: false,
     error: null,
   });
 
@@ -100,6 +119,7 @@ export function useLocalVault({
             hasVault: result.hasVault,
             requiresPassword: result.requiresPassword,
             vaultKey: result.vaultKey ?? null,
+            hasPasskey: vaultService.hasLocalPasskey(),
           });
         }
       } catch {
@@ -146,6 +166,55 @@ export function useLocalVault({
     [state.hasVault, vaultService],
   );
 
+  const unlockWithPasskey = useCallback(async (): Promise<boolean> => {
+    dispatch({ type: "UNLOCK_START" });
+    try {
+      const result = await vaultService.unlockLocalVaultWithPasskey();
+      dispatch({
+        type: "UNLOCK_SUCCESS",
+        vaultKey: result.vaultKey,
+        hasVault: true,
+      });
+      return true;
+    } catch (error) {
+      dispatch({
+        type: "UNLOCK_ERROR",
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to unlock with this passkey.",
+      });
+      return false;
+    }
+  }, [vaultService]);
+
+  const unlockWithDevice = useCallback(async (): Promise<boolean> => {
+    dispatch({ type: "UNLOCK_START" });
+    try {
+      const result = await vaultService.bootstrapLocalVault();
+      if (!result.vaultKey) {
+        throw new Error("This device can't unlock your notes anymore.");
+      }
+      dispatch({
+        type: "UNLOCK_SUCCESS",
+        vaultKey: result.vaultKey,
+        hasVault: result.hasVault,
+      });
+      return true;
+    } catch (error) {
+      dispatch({
+        type: "UNLOCK_ERROR",
+        error:
+          error instanceof Error ? error.message : "Unable to unlock.",
+      });
+      return false;
+    }
+  }, [vaultService]);
+
+  const lock = useCallback(() => {
+    dispatch({ type: "LOCK" });
+  }, []);
+
   const clearError = useCallback(() => {
     dispatch({ type: "CLEAR_ERROR" });
   }, []);
@@ -158,7 +227,11 @@ export function useLocalVault({
     requiresPassword: state.requiresPassword,
     isBusy: state.phase === "unlocking",
     error: state.error,
+    hasPasskey: state.hasPasskey,
     unlock,
+    unlockWithPasskey,
+    unlockWithDevice,
+    lock,
     clearError,
   };
 }
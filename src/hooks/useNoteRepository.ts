@@ -1,6 +1,8 @@
 import { useCallback, useEffect, useMemo, useReducer, useRef } from "react";
 import type { User } from "@supabase/supabase-js";
 import type { RepositoryError } from "../domain/errors";
+import type { Result } from "../domain/result";
+import { err } from "../domain/result";
 import type { NoteRepository } from "../storage/noteRepository";
 import type { ImageRepository } from "../storage/imageRepository";
 import type { AppDatabase } from "../storage/rxdb/database";
@@ -10,7 +12,15 @@ import { migrateLegacyData } from "../storage/legacyMigration";
 import { legacyDBExists, openLegacyIDBSource } from "../storage/legacyIDBSource";
 import { RxDBNoteRepository } from "../storage/rxdb/noteRepository";
 import { RxDBImageRepository } from "../storage/rxdb/imageRepository";
+import { RxDBSearchIndex } from "../storage/rxdb/searchIndex";
+import { createSearchIndexCrypto } from "../storage/searchIndexCrypto";
+import { RxDBNoteRevisionStore } from "../storage/rxdb/revisionStore";
+import { createRevisionCrypto } from "../storage/revisionCrypto";
 import { startReplication, createImageCryptoAdapter, createRemoteBlobFetcher } from "../storage/rxdb/replication";
+import { createDateIndex } from "../storage/dateIndex";
+import { createDateIndexKeyIdResolver } from "../storage/userSettings";
+import { DEFAULT_JOURNAL_ID, journalDatabaseName } from "../storage/journals";
+import { isDefaultProfile, localDatabaseOwner } from "../storage/profiles";
 import { createNoteCrypto } from "../domain/crypto/noteCrypto";
 import { AppMode } from "./useAppMode";
 import { useServiceContext } from "../contexts/serviceContext";
@@ -24,12 +34,14 @@ interface UseNoteRepositoryProps {
   vaultKey: CryptoKey | null;
   keyring: Map<string, CryptoKey>;
   activeKeyId: string | null;
+  journalId: string;
   date: string | null;
   year: number;
 }
 
 export interface UseNoteRepositoryReturn {
   repository: NoteRepository | null;
+  database: AppDatabase | null;
   imageRepository: ImageRepository | null;
   syncedRepo: null;
   syncStatus: SyncStatus;
@@ -38,6 +50,8 @@ export interface UseNoteRepositoryReturn {
   queueIdleSync: (options?: { delayMs?: number }) => void;
   pendingOps: { notes: number; images: number; total: number };
   capabilities: { canSync: boolean; canUploadImages: boolean };
+  // Journal the loaded note belongs to
+  journalId: string;
   content: string;
   setContent: (content: string) => void;
   hasEdits: boolean;
@@ -50,6 +64,8 @@ export interface UseNoteRepositoryReturn {
   isOfflineStub: boolean;
   isSoftDeleted: boolean;
   restoreNote: () => void;
+  restoreRevision: (revisionId: string) => Promise<Result<void, RepositoryError>>;
+  flushPendingSave: () => Promise<void>;
   noteError: RepositoryError | null;
   repositoryVersion: number;
   invalidateRepository: () => void;
@@ -74,6 +90,7 @@ export interface NoteRepoState {
   mode: AppMode;
   vaultKey: CryptoKey | null;
   activeKeyId: string | null;
+  journalId: string;
   date: string | null;
   year: number;
   // Database & repos
@@ -104,7 +121,7 @@ export interface NoteRepoState {
 }
 
 export type NoteRepoAction =
-  | { type: "INPUTS_CHANGED"; userId: string | null; mode: AppMode; vaultKey: CryptoKey | null; activeKeyId: string | null; date: string | null; year: number }
+  | { type: "INPUTS_CHANGED"; userId: string | null; mode: AppMode; vaultKey: CryptoKey | null; activeKeyId: string | null; journalId: string; date: string | null; year: number }
   | { type: "DB_OPENED"; db: AppDatabase; dbName: string }
   | { type: "DB_FAILED" }
   | { type: "REPLICATION_STARTED"; replication: ReplicationHandle }
@@ -126,6 +143,7 @@ const initialState: NoteRepoState = {
   mode: AppMode.Local,
   vaultKey: null,
   activeKeyId: null,
+  journalId: DEFAULT_JOURNAL_ID,
   date: null,
   year: new Date().getFullYear(),
   db: null,
@@ -159,7 +177,13 @@ export function noteRepoReducer(
     case "INPUTS_CHANGED": {
       const dateChanged = action.date !== state.date;
       const userChanged = action.userId !== state.userId;
-      const needsNewDb = userChanged && (action.userId ?? "local") !== state.dbName;
+      const journalChanged = action.journalId !== state.journalId;
+      const needsNewDb =
+        (userChanged || journalChanged) &&
+        journalDatabaseName(
+          action.userId ?? localDatabaseOwner(),
+          action.journalId,
+        ) !== state.dbName;
 
       let next: NoteRepoState = {
         ...state,
@@ -167,14 +191,15 @@ export function noteRepoReducer(
         mode: action.mode,
         vaultKey: action.vaultKey,
         activeKeyId: action.activeKeyId,
+        journalId: action.journalId,
         date: action.date,
         year: action.year,
       };
 
-      // Date changed: reset editing state, clear content.
+      // Date or journal changed: reset editing state, clear content.
       // The note subscription (Effect 4) will populate localContent
       // once the new date's document is loaded.
-      if (dateChanged) {
+      if (dateChanged || journalChanged) {
         next = {
           ...next,
           hasEdits: false,
@@ -185,8 +210,24 @@ export function noteRepoReducer(
         };
       }
 
-      // User changed: need new DB. Keep note/localContent/noteLoading
-      // intact so the editor doesn't blank during the DB transition.
+      // Vault locked: drop everything decrypted. The note subscription
+      // (Effect 4) stays off until a key is back.
+      if (state.vaultKey && !action.vaultKey) {
+        next = {
+          ...next,
+          hasEdits: false,
+          localContent: "",
+          note: null,
+          noteLoading: true,
+          noteError: null,
+          weather: null,
+          isSoftDeleted: false,
+        };
+      }
+
+      // User or journal changed: need new DB. For a user change, keep
+      // note/localContent/noteLoading intact so the editor doesn't blank
+      // during the DB transition.
       if (needsNewDb) {
         return {
           ...next,
@@ -317,6 +358,7 @@ export function useNoteRepository({
   vaultKey,
   keyring,
   activeKeyId,
+  journalId,
   date,
   year,
 }: UseNoteRepositoryProps): UseNoteRepositoryReturn {
@@ -334,11 +376,13 @@ export function useNoteRepository({
   const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const pendingSaveRef = useRef<{ date: string; content: string } | null>(null);
   const prevDateRef = useRef(date);
+  const prevJournalIdRef = useRef(journalId);
 
   // --- Effect 1: Forward prop changes into reducer + flush on date change ---
   useEffect(() => {
-    // Flush pending save when date changes
-    if (date !== prevDateRef.current) {
+    // Flush pending save when date or journal changes; `repository` is
+    // still the previous journal's here
+    if (date !== prevDateRef.current || journalId !== prevJournalIdRef.current) {
       if (pendingSaveRef.current && repository) {
         const { date: saveDate, content: saveContent } = pendingSaveRef.current;
         pendingSaveRef.current = null;
@@ -349,6 +393,7 @@ export function useNoteRepository({
         void repository.save(saveDate, saveContent);
       }
       prevDateRef.current = date;
+      prevJournalIdRef.current = journalId;
     }
 
     dispatch({
@@ -357,18 +402,22 @@ export function useNoteRepository({
       mode,
       vaultKey,
       activeKeyId,
+      journalId,
       date,
       year,
     });
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [userId, mode, vaultKey, activeKeyId, date, year]);
+  }, [userId, mode, vaultKey, activeKeyId, journalId, date, year]);
 
   // --- Effect 2: Phase "opening" - create database ---
   useEffect(() => {
     if (state.phase !== "opening") return;
 
     let cancelled = false;
-    const dbName = state.userId ?? "local";
+    const dbName = journalDatabaseName(
+      state.userId ?? localDatabaseOwner(),
+      state.journalId,
+    );
 
     void (async () => {
       try {
@@ -382,7 +431,7 @@ export function useNoteRepository({
     })();
 
     return () => { cancelled = true; };
-  }, [state.phase, state.userId]);
+  }, [state.phase, state.userId, state.journalId]);
 
   // --- Effect 3: Phase "replicating" - start replication ---
   // Deps: phase, db, and activeKeyId. The phase gate ensures
@@ -415,7 +464,28 @@ export function useNoteRepository({
 
     const imageCrypto = createImageCryptoAdapter(e2ee);
     imageRepository?.setRemoteFetcher(createRemoteBlobFetcher(supabase, imageCrypto, currentUserId));
-    const handle = startReplication(state.db, supabase, crypto, currentUserId, imageCrypto);
+    const revisionStore = new RxDBNoteRevisionStore(
+      state.db,
+      createRevisionCrypto(keyProvider),
+    );
+    // Keep the local versions that conflict resolution discards
+    const stopConflictCapture = revisionStore.watchConflicts();
+    // After a key rotation, move local history onto the new primary key
+    // while the old one is still in the keyring
+    void revisionStore.rekey(currentActiveKeyId);
+    const dateIndex = createDateIndex({
+      getIndexKeyId: createDateIndexKeyIdResolver(supabase, currentUserId),
+      getKey: keyProvider.getKey,
+    });
+    const handle = startReplication(
+      state.db,
+      supabase,
+      crypto,
+      currentUserId,
+      imageCrypto,
+      dateIndex,
+      state.journalId,
+    );
     dispatch({ type: "REPLICATION_STARTED", replication: handle });
 
     const subs: Array<{ unsubscribe(): void }> = [];
@@ -454,6 +524,7 @@ export function useNoteRepository({
     return () => {
       subs.forEach((s) => s.unsubscribe());
       handle.cancel();
+      stopConflictCapture();
       // Don't clear the remote fetcher here — imageRepository's useMemo
       // already sets a fetcher at construction time, and nulling it on
       // replication restart leaves a window where on-demand blob fetches
@@ -467,8 +538,10 @@ export function useNoteRepository({
   // Runs once per device after both (a) the RxDB database is open and
   // (b) a keyring + active key are available, so encrypted legacy notes
   // can be decrypted. Keyed on LEGACY_MIGRATED_KEY to avoid re-running.
+  // Legacy notes belong to the default journal of the default profile.
   useEffect(() => {
     if (!state.db) return;
+    if (state.journalId !== DEFAULT_JOURNAL_ID || !isDefaultProfile()) return;
     if (!activeKeyId || keyring.size === 0) return;
     if (typeof localStorage !== "undefined" && localStorage.getItem(LEGACY_MIGRATED_KEY)) return;
 
@@ -512,9 +585,10 @@ export function useNoteRepository({
     })();
 
     return () => { cancelled = true; };
-  }, [state.db, activeKeyId, keyring, e2eeFactory]);
+  }, [state.db, state.journalId, activeKeyId, keyring, e2eeFactory]);
 
   // --- Effect 4: Subscribe to note document (content + soft-delete) ---
+  const isUnlocked = !!state.vaultKey;
   useEffect(() => {
     if (!state.db || !state.date) {
       // Only mark "no note" when we have a DB but no date selected.
@@ -525,6 +599,7 @@ export function useNoteRepository({
       }
       return;
     }
+    if (!isUnlocked) return;
 
     // Track last emitted content to avoid redundant dispatches that cause
     // the editor to re-run its content sync effect (innerHTML reset + cursor jump).
@@ -559,7 +634,7 @@ export function useNoteRepository({
     });
 
     return () => { subscription.unsubscribe(); };
-  }, [state.db, state.date]);
+  }, [state.db, state.date, isUnlocked]);
 
   // --- Effect 5: Subscribe to note dates ---
   useEffect(() => {
@@ -606,9 +681,24 @@ export function useNoteRepository({
   }, []);
 
   // --- Repositories (derived from db) ---
-  const repository = useMemo<NoteRepository | null>(
-    () => (state.db ? new RxDBNoteRepository(state.db) : null),
-    [state.db],
+  // The search index and revision history are encrypted with the active
+  // vault key, so they only exist once a key is available; until then
+  // search falls back to a scan and saves aren't snapshotted.
+  const repository = useMemo<RxDBNoteRepository | null>(
+    () => {
+      if (!state.db) return null;
+      if (!activeKeyId) return new RxDBNoteRepository(state.db);
+      const keyProvider = {
+        activeKeyId,
+        getKey: (keyId: string) => keyringRef.current.get(keyId) ?? null,
+      };
+      return new RxDBNoteRepository(
+        state.db,
+        new RxDBSearchIndex(state.db, createSearchIndexCrypto(keyProvider)),
+        new RxDBNoteRevisionStore(state.db, createRevisionCrypto(keyProvider)),
+      );
+    },
+    [state.db, activeKeyId],
   );
   const imageRepository = useMemo<RxDBImageRepository | null>(
     () => {
@@ -684,6 +774,46 @@ export function useNoteRepository({
     void repository.restoreNote?.(date);
   }, [date, repository]);
 
+  const restoreRevision = useCallback(
+    async (revisionId: string): Promise<Result<void, RepositoryError>> => {
+      if (!date || !repository) {
+        return err({ type: "NotFound", message: "No note is open" });
+      }
+      // Save pending edits first so they end up in the history too
+      const pending = pendingSaveRef.current;
+      if (saveTimerRef.current) {
+        clearTimeout(saveTimerRef.current);
+        saveTimerRef.current = null;
+      }
+      pendingSaveRef.current = null;
+      if (pending) {
+        const saved = await repository.save(pending.date, pending.content, weatherRef.current);
+        if (!saved.ok) return saved;
+      }
+      // Let the restored content replace what the editor shows
+      dispatch({ type: "DATE_CHANGED_FLUSH" });
+      return repository.restoreRevision(date, revisionId);
+    },
+    [date, repository],
+  );
+
+  // Saves a debounced edit right away, e.g. before the vault locks
+  const flushPendingSave = useCallback(async (): Promise<void> => {
+    const pending = pendingSaveRef.current;
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    pendingSaveRef.current = null;
+    if (!pending || !repository) return;
+    dispatch({ type: "SAVE_STARTED" });
+    const result = await repository.save(pending.date, pending.content, weatherRef.current);
+    dispatch({
+      type: "SAVE_COMPLETED",
+      error: result.ok ? null : result.error,
+    });
+  }, [repository]);
+
   // --- Capabilities ---
   const isCloud = mode === AppMode.Cloud && !!userId && !!vaultKey;
   const capabilities = useMemo(
@@ -737,6 +867,7 @@ export function useNoteRepository({
 
   return {
     repository,
+    database: state.db,
     imageRepository,
     syncedRepo: null,
     syncStatus: state.syncStatus,
@@ -745,6 +876,7 @@ export function useNoteRepository({
     queueIdleSync,
     pendingOps: { notes: 0, images: 0, total: 0 },
     capabilities,
+    journalId: state.journalId,
     content: state.localContent,
     setContent,
     hasEdits: state.hasEdits,
@@ -757,6 +889,8 @@ export function useNoteRepository({
     isOfflineStub,
     isSoftDeleted: state.isSoftDeleted,
     restoreNote,
+    restoreRevision,
+    flushPendingSave,
     noteError: state.noteError,
     repositoryVersion: state.repositoryVersion,
     invalidateRepository,
@@ -1,12 +1,22 @@
 import { useCallback, useEffect, useReducer, useRef } from "react";
 import type { NoteRepository } from "../storage/noteRepository";
 import { parseDate } from "../utils/date";
+import { buildSearchDocument } from "../utils/searchText";
+import {
+  findHighlights,
+  isEmptySearchQuery,
+  matchesSearchQuery,
+  parseSearchQuery,
+  type SearchDocument,
+  type SearchHighlight,
+  type SearchQuery,
+} from "../utils/searchQuery";
 
 export interface SearchResult {
   date: string;
   snippet: string;
-  matchIndex: number;
-  matchLength: number;
+  // Every matched term/phrase, as offsets into `snippet`
+  highlights: SearchHighlight[];
 }
 
 export interface SearchProgress {
@@ -24,38 +34,35 @@ interface UseNoteSearchReturn {
 
 const SNIPPET_RADIUS = 50;
 
-/**
- * Strip HTML tags from note content to get plain text for searching.
- * Uses DOMParser (safe — does not execute scripts) instead of innerHTML.
- */
-function stripHtml(html: string): string {
-  // Insert space before every tag so adjacent elements don't merge.
-  // DOMParser then strips the tags, leaving clean spaced text.
-  const spaced = html.replace(/</g, " <");
-  const doc = new DOMParser().parseFromString(spaced, "text/html");
-  return (doc.body.textContent ?? "").replace(/\s+/g, " ").trim();
-}
-
 interface Snippet {
   text: string;
-  matchIndex: number;
+  highlights: SearchHighlight[];
 }
 
+/**
+ * Cut a snippet around the first highlight and re-base every highlight
+ * that falls (even partly) inside it onto snippet offsets.
+ */
 function buildSnippet(
   text: string,
-  index: number,
-  queryLength: number,
+  highlights: SearchHighlight[],
 ): Snippet {
-  const start = Math.max(0, index - SNIPPET_RADIUS);
-  const end = Math.min(text.length, index + queryLength + SNIPPET_RADIUS);
+  const first = highlights[0] ?? { start: 0, length: 0 };
+  const start = Math.max(0, first.start - SNIPPET_RADIUS);
+  const end = Math.min(text.length, first.start + first.length + SNIPPET_RADIUS);
   let snippet = text.slice(start, end);
-  let matchOffset = index - start;
-  if (start > 0) {
-    snippet = "..." + snippet;
-    matchOffset += 3;
-  }
+  const offset = start > 0 ? 3 : 0;
+  if (start > 0) snippet = "..." + snippet;
   if (end < text.length) snippet = snippet + "...";
-  return { text: snippet, matchIndex: matchOffset };
+
+  const visible: SearchHighlight[] = [];
+  for (const { start: hlStart, length } of highlights) {
+    const from = Math.max(hlStart, start);
+    const to = Math.min(hlStart + length, end);
+    if (from >= to) continue;
+    visible.push({ start: from - start + offset, length: to - from });
+  }
+  return { text: snippet, highlights: visible };
 }
 
 function compareDatesDescending(a: string, b: string): number {
@@ -108,7 +115,7 @@ export function useNoteSearch(
 ): UseNoteSearchReturn {
   const [state, dispatch] = useReducer(searchReducer, initialSearchState);
 
-  const cacheRef = useRef<Map<string, string>>(new Map());
+  const cacheRef = useRef<Map<string, SearchDocument>>(new Map());
   const cacheSizeRef = useRef(0);
   const abortRef = useRef<AbortController | null>(null);
   const debounceRef = useRef<ReturnType<typeof setTimeout>>(undefined);
@@ -135,7 +142,8 @@ export function useNoteSearch(
         const date = dates[i];
         const result = await repository.get(date);
         if (result.ok && result.value) {
-          cacheRef.current.set(date, stripHtml(result.value.content));
+          const { content, weather } = result.value;
+          cacheRef.current.set(date, buildSearchDocument(date, content, weather));
         }
         dispatch({
           type: "PROGRESS",
@@ -149,40 +157,63 @@ export function useNoteSearch(
     [repository, noteDates],
   );
 
+  /**
+   * Collect notes matching the query. Uses the repository's persistent
+   * search index when available and falls back to decrypting every note
+   * into the session cache otherwise. Returns null if aborted.
+   */
+  const findMatches = useCallback(
+    async (
+      query: SearchQuery,
+      signal: AbortSignal,
+    ): Promise<SearchDocument[] | null> => {
+      const index = repository?.searchIndex;
+      if (index) {
+        const result = await index.search(query, {
+          signal,
+          onProgress: (progress) => dispatch({ type: "PROGRESS", progress }),
+        });
+        if (signal.aborted) return null;
+        if (result.ok) return result.value;
+      }
+
+      const cacheReady = await buildCache(signal);
+      if (!cacheReady || signal.aborted) return null;
+
+      return Array.from(cacheRef.current.values()).filter((doc) =>
+        matchesSearchQuery(doc, query),
+      );
+    },
+    [repository, buildCache],
+  );
+
   const executeSearch = useCallback(
     async (query: string) => {
       abortRef.current?.abort();
       const controller = new AbortController();
       abortRef.current = controller;
 
-      if (!query.trim()) {
+      const parsed = parseSearchQuery(query);
+      if (isEmptySearchQuery(parsed)) {
         dispatch({ type: "CLEAR" });
         return;
       }
 
       dispatch({ type: "SEARCH_START" });
-      const cacheReady = await buildCache(controller.signal);
-      if (!cacheReady || controller.signal.aborted) {
+      const found = await findMatches(parsed, controller.signal);
+      if (!found || controller.signal.aborted) {
         dispatch({ type: "ABORT" });
         return;
       }
 
-      const lowerQuery = query.toLowerCase();
-      const matches: SearchResult[] = [];
-
-      for (const [date, text] of cacheRef.current) {
-        const lowerText = text.toLowerCase();
-        const idx = lowerText.indexOf(lowerQuery);
-        if (idx !== -1) {
-          const snippet = buildSnippet(text, idx, query.length);
-          matches.push({
-            date,
-            snippet: snippet.text,
-            matchIndex: snippet.matchIndex,
-            matchLength: query.length,
-          });
-        }
-      }
+      const matches: SearchResult[] = found.map(({ date, text }) => {
+        const snippet = buildSnippet(text, findHighlights(text, parsed));
+        return {
+          date,
+          snippet: snippet.text,
+          highlights: snippet.highlights,
+        };
+      });
 
       matches.sort((a, b) => compareDatesDescending(a.date, b.date));
 
@@ -190,7 +221,7 @@ export function useNoteSearch(
         dispatch({ type: "COMPLETE", results: matches });
       }
     },
-    [buildCache],
+    [findMatches],
   );
 
   const search = useCallback(
@@ -0,0 +1,113 @@
+import { useCallback, useState } from "react";
+import type { ImageRepository } from "../storage/imageRepository";
+import type { SavedWeather } from "../types";
+import { supabase } from "../services/supabase";
+import {
+  createSharedNote,
+  deleteSharedNote,
+  noteImageIds,
+  type CreatedShare,
+  type ShareExpiryDays,
+} from "../storage/sharedNotes";
+import { reportError } from "../utils/errorReporter";
+
+export {
+  SHARE_EXPIRY_DAYS,
+  type ShareExpiryDays,
+} from "../storage/sharedNotes";
+
+type NoteShareStatus = "idle" | "working" | "error";
+
+interface UseNoteShareProps {
+  date: string;
+  content: string;
+  weather: SavedWeather | null;
+  imageRepository: ImageRepository | null;
+}
+
+export interface UseNoteShareReturn {
+  status: NoteShareStatus;
+  error: string | null;
+  // The link made for this note in this session; the key isn't kept
+  // anywhere else, so it can't be shown again later
+  share: CreatedShare | null;
+  create: (expiresInDays: ShareExpiryDays) => Promise<void>;
+  revoke: () => Promise<void>;
+}
+
+async function signedInUserId(): Promise<string> {
+  const { data } = await supabase.auth.getSession();
+  const userId = data.session?.user.id;
+  if (!userId) throw new Error("Sign in to share notes.");
+  return userId;
+}
+
+/**
+ * Read-only links to a snapshot of the open note. Later edits don't reach
+ * an existing link; share again for a fresh snapshot.
+ */
+export function useNoteShare({
+  date,
+  content,
+  weather,
+  imageRepository,
+}: UseNoteShareProps): UseNoteShareReturn {
+  const [created, setCreated] = useState<
+    (CreatedShare & { date: string }) | null
+  >(null);
+  const [status, setStatus] = useState<NoteShareStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  const share = created?.date === date ? created : null;
+
+  const run = useCallback(async (task: () => Promise<void>) => {
+    setStatus("working");
+    setError(null);
+    try {
+      await task();
+      setStatus("idle");
+    } catch (err) {
+      reportError("noteShare", err);
+      setError(err instanceof Error ? err.message : "Something went wrong.");
+      setStatus("error");
+    }
+  }, []);
+
+  const create = useCallback(
+    (expiresInDays: ShareExpiryDays) =>
+      run(async () => {
+        if (!content.trim()) throw new Error("There is nothing to share yet.");
+        const userId = await signedInUserId();
+        const images: Array<{ id: string; blob: Blob }> = [];
+        for (const id of noteImageIds(content)) {
+          const result = imageRepository ? await imageRepository.get(id) : null;
+          if (result?.ok && result.value) {
+            images.push({ id, blob: result.value });
+          }
+        }
+        const next = await createSharedNote({
+          supabase,
+          userId,
+          origin: window.location.origin,
+          note: { date, content, weather },
+          images,
+          expiresInDays,
+        });
+        setCreated({ ...next, date });
+      }),
+    [run, date, content, weather, imageRepository],
+  );
+
+  const revoke = useCallback(
+    () =>
+      run(async () => {
+        if (!share) return;
+        const userId = await signedInUserId();
+        await deleteSharedNote(supabase, userId, share.id);
+        setCreated(null);
+      }),
+    [run, share],
+  );
+
+  return { status, error, share, create, revoke };
+}
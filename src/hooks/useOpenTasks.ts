@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { NoteRepository } from "../storage/noteRepository";
+import type { AppDatabase } from "../storage/rxdb/database";
+import { getTimestampLabel } from "../services/timestampLabel";
+import { assembleSegments } from "../utils/noteSegments";
+import {
+  buildTaskListHtml,
+  collectOpenTasks,
+  previousDates,
+  type OpenTask,
+  type OpenTaskDays,
+} from "../utils/noteTasks";
+import { reportError } from "../utils/errorReporter";
+
+interface UseOpenTasksProps {
+  repository: NoteRepository | null;
+  // Watched so a task ticked in a past note, here or on another device,
+  // drops out of the list
+  database: AppDatabase | null;
+  noteDates: Set<string>;
+  today: string;
+  days: OpenTaskDays;
+  // Today's note, which carried-over tasks are appended to
+  content: string;
+  setContent: (content: string) => void;
+}
+
+export interface UseOpenTasksReturn {
+  tasks: OpenTask[];
+  isLoading: boolean;
+  carryOver: () => void;
+}
+
+interface LoadedNotes {
+  key: string;
+  notes: Array<{ date: string; content: string }>;
+}
+
+/**
+ * Unchecked task items from the days before today, and a way to copy them
+ * into today's note as a new entry.
+ */
+export function useOpenTasks({
+  repository,
+  database,
+  noteDates,
+  today,
+  days,
+  content,
+  setContent,
+}: UseOpenTasksProps): UseOpenTasksReturn {
+  const dates = useMemo(
+    () => previousDates(today, days).filter((date) => noteDates.has(date)),
+    [today, days, noteDates],
+  );
+  const key = dates.join(",");
+  const [loaded, setLoaded] = useState<LoadedNotes | null>(null);
+  // Changes whenever one of the past notes is saved
+  const [version, setVersion] = useState("");
+
+  useEffect(() => {
+    if (!database) return;
+    const subscription = database.notes
+      .find({ selector: { date: { $in: dates } } })
+      .$.subscribe((docs) => {
+        setVersion(
+          docs
+            .map((doc) => `${doc.date}@${doc.updatedAt}`)
+            .sort()
+            .join(","),
+        );
+      });
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [database, dates]);
+
+  useEffect(() => {
+    if (!repository) return;
+    let cancelled = false;
+    const load = async (): Promise<LoadedNotes> => {
+      const notes: LoadedNotes["notes"] = [];
+      for (const date of dates) {
+        const result = await repository.get(date);
+        if (result.ok && result.value) {
+          notes.push({ date, content: result.value.content });
+        } else if (!result.ok) {
+          reportError("useOpenTasks.load", result.error);
+        }
+      }
+      return { key, notes };
+    };
+    void load()
+      .then((next) => {
+        if (!cancelled) setLoaded(next);
+      })
+      .catch((err) => {
+        reportError("useOpenTasks.load", err);
+        if (!cancelled) setLoaded({ key, notes: [] });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [repository, dates, key, version]);
+
+  const isLoading = loaded?.key !== key;
+  const tasks = useMemo(
+    () => (loaded ? collectOpenTasks(loaded.notes, content) : []),
+    [loaded, content],
+  );
+
+  const carryOver = useCallback(() => {
+    if (tasks.length === 0) return;
+    const timestamp = new Date().toISOString();
+    const segment = assembleSegments([
+      {
+        id: timestamp,
+        timestamp,
+        label: getTimestampLabel(timestamp),
+        html: buildTaskListHtml(tasks),
+      },
+    ]);
+    setContent(content + segment);
+  }, [tasks, content, setContent]);
+
+  return { tasks, isLoading, carryOver };
+}
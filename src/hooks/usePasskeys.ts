@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useState } from "react";
+import { AppMode } from "./useAppMode";
+import {
+  addCloudPasskey,
+  addLocalPasskey,
+  countCloudPasskeys,
+  removeCloudPasskeys,
+  removeLocalPasskeys,
+} from "../services/vaultService";
+import { supabase } from "../services/supabase";
+import { getLocalPasskeys } from "../storage/vault";
+import { reportError } from "../utils/errorReporter";
+
+type PasskeyStatus = "idle" | "working" | "added" | "removed" | "error";
+
+interface UsePasskeysProps {
+  mode: AppMode;
+  userId: string | null;
+  userEmail: string | null;
+  // Unlocked, so there are keys to wrap
+  isEnabled: boolean;
+  localVaultKey: CryptoKey | null;
+  keyring: Map<string, CryptoKey>;
+}
+
+export interface UsePasskeysReturn {
+  count: number;
+  status: PasskeyStatus;
+  error: string | null;
+  add: () => Promise<void>;
+  removeAll: () => Promise<void>;
+}
+
+const LOCAL_PASSKEY_NAME = "Ichinichi notes";
+
+/**
+ * Adds and removes passkeys that unlock the vault of the current mode:
+ * the local vault key, or every key of the cloud keyring.
+ */
+export function usePasskeys({
+  mode,
+  userId,
+  userEmail,
+  isEnabled,
+  localVaultKey,
+  keyring,
+}: UsePasskeysProps): UsePasskeysReturn {
+  const [count, setCount] = useState(0);
+  const [status, setStatus] = useState<PasskeyStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+  const isCloud = mode === AppMode.Cloud;
+
+  const loadCount = useCallback(async (): Promise<number> => {
+    if (!isCloud) return getLocalPasskeys().length;
+    if (!userId) return 0;
+    return countCloudPasskeys({ supabase, userId });
+  }, [isCloud, userId]);
+
+  useEffect(() => {
+    if (!isEnabled) return;
+    loadCount()
+      .then(setCount)
+      .catch((err: unknown) => reportError("passkeys.count", err));
+  }, [isEnabled, loadCount]);
+
+  const run = useCallback(
+    async (task: () => Promise<void>, done: PasskeyStatus) => {
+      setStatus("working");
+      setError(null);
+      try {
+        await task();
+        setCount(await loadCount());
+        setStatus(done);
+      } catch (err) {
+        reportError("passkeys", err);
+        setError(err instanceof Error ? err.message : "Passkey setup failed.");
+        setStatus("error");
+      }
+    },
+    [loadCount],
+  );
+
+  const add = useCallback(
+    () =>
+      run(async () => {
+        if (isCloud) {
+          if (!userId) throw new Error("Sign in first.");
+          await addCloudPasskey({
+            supabase,
+            userId,
+            userName: userEmail ?? userId,
+            keyring,
+          });
+          return;
+        }
+        if (!localVaultKey) throw new Error("Unlock your notes first.");
+        await addLocalPasskey({
+          vaultKey: localVaultKey,
+          userName: LOCAL_PASSKEY_NAME,
+        });
+      }, "added"),
+    [run, isCloud, userId, userEmail, keyring, localVaultKey],
+  );
+
+  const removeAll = useCallback(
+    () =>
+      run(async () => {
+        if (isCloud) {
+          if (!userId) throw new Error("Sign in first.");
+          await removeCloudPasskeys({ supabase, userId });
+          return;
+        }
+        removeLocalPasskeys();
+      }, "removed"),
+    [run, isCloud, userId],
+  );
+
+  return { count, status, error, add, removeAll };
+}
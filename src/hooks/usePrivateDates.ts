@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useServiceContext } from "../contexts/serviceContext";
+import {
+  migrateNoteDates,
+  setPrivateDates,
+  type DateMigrationProgress,
+  type DateMigrationResult,
+} from "../services/privateDates";
+import { supabase } from "../services/supabase";
+import {
+  fetchDateIndexKeyId,
+  loadCachedDateIndexKeyId,
+} from "../storage/userSettings";
+import { reportError } from "../utils/errorReporter";
+
+type PrivateDatesStatus = "idle" | "running" | "done" | "error";
+
+interface UsePrivateDatesProps {
+  userId: string | null;
+  // Cloud mode, signed in and unlocked
+  isEnabled: boolean;
+  keyring: Map<string, CryptoKey>;
+  activeKeyId: string | null;
+}
+
+export interface UsePrivateDatesReturn {
+  // null until the account's setting is known
+  isPrivate: boolean | null;
+  status: PrivateDatesStatus;
+  progress: DateMigrationProgress | null;
+  result: DateMigrationResult | null;
+  error: string | null;
+  setPrivate: (next: boolean) => Promise<void>;
+}
+
+/**
+ * The account's private dates setting. Turning it on or off moves the
+ * existing rows; once per session, rows another device wrote in the old
+ * form before it learned of the change are moved as well.
+ */
+export function usePrivateDates({
+  userId,
+  isEnabled,
+  keyring,
+  activeKeyId,
+}: UsePrivateDatesProps): UsePrivateDatesReturn {
+  const { e2eeFactory } = useServiceContext();
+  const [indexKeyId, setIndexKeyId] = useState<string | null | undefined>(
+    () => (userId ? loadCachedDateIndexKeyId(userId) : undefined),
+  );
+  const [status, setStatus] = useState<PrivateDatesStatus>("idle");
+  const [progress, setProgress] = useState<DateMigrationProgress | null>(null);
+  const [result, setResult] = useState<DateMigrationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const keyringRef = useRef(keyring);
+  keyringRef.current = keyring;
+  const runningRef = useRef(false);
+  const checkedUserRef = useRef<string | null>(null);
+
+  const createE2ee = useCallback(
+    (keyId: string) =>
+      e2eeFactory.create({
+        activeKeyId: keyId,
+        getKey: (id) => keyringRef.current.get(id) ?? null,
+      }),
+    [e2eeFactory],
+  );
+
+  useEffect(() => {
+    if (!isEnabled || !userId || !activeKeyId) return;
+    if (checkedUserRef.current === userId) return;
+    checkedUserRef.current = userId;
+
+    fetchDateIndexKeyId(supabase, userId)
+      .then(async (keyId) => {
+        setIndexKeyId(keyId);
+        if (runningRef.current) return;
+        // Quiet catch-up pass; it only touches rows in the old form
+        runningRef.current = true;
+        try {
+          await migrateNoteDates({
+            supabase,
+            userId,
+            e2ee: createE2ee(activeKeyId),
+            getKey: (id) => keyringRef.current.get(id) ?? null,
+            indexKeyId: keyId,
+          });
+        } finally {
+          runningRef.current = false;
+        }
+      })
+      .catch((err: unknown) => {
+        checkedUserRef.current = null;
+        reportError("privateDates.check", err);
+      });
+  }, [isEnabled, userId, activeKeyId, createE2ee]);
+
+  const setPrivate = useCallback(
+    async (next: boolean) => {
+      if (!userId || !activeKeyId || runningRef.current) return;
+      runningRef.current = true;
+      setStatus("running");
+      setError(null);
+      setProgress(null);
+      setResult(null);
+      const keyId = next ? activeKeyId : null;
+      try {
+        const outcome = await setPrivateDates({
+          supabase,
+          userId,
+          e2ee: createE2ee(activeKeyId),
+          getKey: (id) => keyringRef.current.get(id) ?? null,
+          indexKeyId: keyId,
+          onProgress: setProgress,
+        });
+        setIndexKeyId(keyId);
+        setResult(outcome);
+        setStatus("done");
+      } catch (err) {
+        reportError("privateDates", err);
+        // The setting may have been saved before the rows failed to move
+        setIndexKeyId(loadCachedDateIndexKeyId(userId));
+        setError(
+          err instanceof Error ? err.message : "Could not change the setting.",
+        );
+        setStatus("error");
+      } finally {
+        runningRef.current = false;
+      }
+    },
+    [userId, activeKeyId, createE2ee],
+  );
+
+  return {
+    isPrivate: indexKeyId === undefined ? null : indexKeyId !== null,
+    status,
+    progress,
+    result,
+    error,
+    setPrivate,
+  };
+}
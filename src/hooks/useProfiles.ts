@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  createProfileId,
+  getActiveProfileId,
+  loadProfiles,
+  PROFILE_NAME_MAX_LENGTH,
+  saveProfiles,
+  setActiveProfileId,
+  type Profile,
+} from "../storage/profiles";
+import { reportError } from "../utils/errorReporter";
+
+type ProfilesStatus = "idle" | "working" | "error";
+
+interface UseProfilesProps {
+  // Signed-in account, recorded on the active profile
+  userEmail: string | null;
+  // Saves pending edits and locks the vault before the page reloads
+  onBeforeSwitch: () => Promise<void>;
+}
+
+export interface UseProfilesReturn {
+  profiles: Profile[];
+  current: Profile;
+  status: ProfilesStatus;
+  error: string | null;
+  create: (name: string) => Promise<void>;
+  rename: (profileId: string, name: string) => Promise<void>;
+  switchTo: (profileId: string) => Promise<void>;
+}
+
+function cleanName(name: string): string {
+  const trimmed = name.trim().slice(0, PROFILE_NAME_MAX_LENGTH);
+  if (!trimmed) throw new Error("Give the profile a name.");
+  return trimmed;
+}
+
+function openProfile(profileId: string): void {
+  setActiveProfileId(profileId);
+  // Storage keys, the Supabase session and the notes database are chosen
+  // at load, so the other profile opens on a fresh page
+  window.location.assign("/");
+}
+
+/**
+ * The profiles on this device. The active profile is fixed for the page;
+ * switching saves pending edits, locks the vault and reloads into the
+ * other profile. Unsynced notes stay in the profile's own database and
+ * sync the next time it is opened.
+ */
+export function useProfiles({
+  userEmail,
+  onBeforeSwitch,
+}: UseProfilesProps): UseProfilesReturn {
+  const [profiles, setProfiles] = useState(loadProfiles);
+  const [status, setStatus] = useState<ProfilesStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [activeId] = useState(getActiveProfileId);
+
+  const stored =
+    profiles.find((profile) => profile.id === activeId) ?? profiles[0];
+  const current = userEmail ? { ...stored, email: userEmail } : stored;
+
+  // Remember who signed in here, so the list tells cloud profiles apart
+  useEffect(() => {
+    if (!userEmail) return;
+    const latest = loadProfiles();
+    if (latest.some((p) => p.id === activeId && p.email === userEmail)) return;
+    saveProfiles(
+      latest.map((profile) =>
+        profile.id === activeId ? { ...profile, email: userEmail } : profile,
+      ),
+    );
+  }, [userEmail, activeId]);
+
+  const run = useCallback(async (task: () => Promise<void>) => {
+    setStatus("working");
+    setError(null);
+    try {
+      await task();
+      setStatus("idle");
+    } catch (err) {
+      reportError("profiles", err);
+      setError(err instanceof Error ? err.message : "Something went wrong.");
+      setStatus("error");
+    }
+  }, []);
+
+  const switchTo = useCallback(
+    (profileId: string) =>
+      run(async () => {
+        if (profileId === activeId) return;
+        if (!loadProfiles().some((profile) => profile.id === profileId)) {
+          throw new Error("That profile no longer exists.");
+        }
+        await onBeforeSwitch();
+        openProfile(profileId);
+      }),
+    [run, activeId, onBeforeSwitch],
+  );
+
+  const create = useCallback(
+    (name: string) =>
+      run(async () => {
+        const profile: Profile = {
+          id: createProfileId(),
+          name: cleanName(name),
+          email: null,
+          createdAt: new Date().toISOString(),
+        };
+        const next = [...loadProfiles(), profile];
+        saveProfiles(next);
+        setProfiles(next);
+        await onBeforeSwitch();
+        openProfile(profile.id);
+      }),
+    [run, onBeforeSwitch],
+  );
+
+  const rename = useCallback(
+    (profileId: string, name: string) =>
+      run(async () => {
+        const latest = loadProfiles();
+        if (!latest.some((profile) => profile.id === profileId)) {
+          throw new Error("That profile no longer exists.");
+        }
+        const renamed = cleanName(name);
+        const next = latest.map((profile) =>
+          profile.id === profileId ? { ...profile, name: renamed } : profile,
+        );
+        saveProfiles(next);
+        setProfiles(loadProfiles());
+      }),
+    [run],
+  );
+
+  return {
+    profiles: profiles.map((profile) =>
+      profile.id === current.id ? current : profile,
+    ),
+    current,
+    status,
+    error,
+    create,
+    rename,
+    switchTo,
+  };
+}
@@ -0,0 +1,79 @@
+import { useEffect, useMemo, useState } from "react";
+import type { NoteRepository } from "../storage/noteRepository";
+import { extractSectionTypes } from "../utils/sectionTypes";
+import { previousDates } from "../utils/noteTasks";
+import { reportError } from "../utils/errorReporter";
+
+const LOOKBACK_DAYS = 14;
+const MAX_TYPES = 5;
+
+interface UseRecentSectionTypesProps {
+  repository: NoteRepository | null;
+  noteDates: Set<string>;
+  date: string;
+  // The open note, whose sections count as the most recent
+  content: string;
+  // Earlier notes are only read once this is set
+  isEnabled: boolean;
+}
+
+interface LoadedContents {
+  key: string;
+  contents: string[];
+}
+
+/**
+ * Section types of the open note and the notes of the days before it,
+ * most recently used first.
+ */
+export function useRecentSectionTypes({
+  repository,
+  noteDates,
+  date,
+  content,
+  isEnabled,
+}: UseRecentSectionTypesProps): string[] {
+  const dates = useMemo(
+    () =>
+      previousDates(date, LOOKBACK_DAYS).filter((day) => noteDates.has(day)),
+    [date, noteDates],
+  );
+  const key = dates.join(",");
+  const [loaded, setLoaded] = useState<LoadedContents | null>(null);
+  const loadedKey = loaded?.key;
+
+  useEffect(() => {
+    if (!repository || !isEnabled || loadedKey === key) return;
+    let cancelled = false;
+    const load = async (): Promise<LoadedContents> => {
+      const contents: string[] = [];
+      for (const day of dates) {
+        const result = await repository.get(day);
+        if (result.ok && result.value) {
+          contents.push(result.value.content);
+        } else if (!result.ok) {
+          reportError("useRecentSectionTypes.load", result.error);
+        }
+      }
+      return { key, contents };
+    };
+    void load().then((next) => {
+      if (!cancelled) setLoaded(next);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [repository, isEnabled, dates, key, loadedKey]);
+
+  return useMemo(() => {
+    const earlier = loaded?.key === key ? loaded.contents : [];
+    const types = new Set<string>();
+    // Later sections in a note were written more recently
+    for (const html of [content, ...earlier]) {
+      for (const type of extractSectionTypes(html).reverse()) {
+        types.add(type);
+      }
+    }
+    return [...types].slice(0, MAX_TYPES);
+  }, [content, loaded, key]);
+}
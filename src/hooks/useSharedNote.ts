@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import { supabase } from "../services/supabase";
+import { formatDailyWeatherLabel } from "../domain/weather/WeatherDom";
+import { fetchSharedNote } from "../storage/sharedNotes";
+import { sanitizeHtml } from "../utils/sanitize";
+import { reportError } from "../utils/errorReporter";
+
+export type SharedNoteState =
+  | { status: "loading" }
+  | { status: "error"; error: string }
+  | {
+      status: "ready";
+      date: string;
+      weatherLabel: string | null;
+      html: string;
+      expiresAt: string;
+    };
+
+/**
+ * Sanitized HTML for a shared note, with its images pointed at the given
+ * object URLs. Images that couldn't be loaded are dropped.
+ */
+function renderSharedContent(
+  content: string,
+  imageUrls: Map<string, string>,
+): string {
+  const container = document.createElement("div");
+  container.innerHTML = sanitizeHtml(content);
+  for (const img of container.querySelectorAll("img[data-image-id]")) {
+    const url = imageUrls.get(img.getAttribute("data-image-id") ?? "");
+    if (url) {
+      img.setAttribute("src", url);
+    } else {
+      img.remove();
+    }
+  }
+  for (const el of container.querySelectorAll("[contenteditable]")) {
+    el.removeAttribute("contenteditable");
+  }
+  return container.innerHTML;
+}
+
+/**
+ * Loads and decrypts the note behind a share link.
+ */
+export function useSharedNote(id: string, key: string): SharedNoteState {
+  const [state, setState] = useState<SharedNoteState>({ status: "loading" });
+
+  useEffect(() => {
+    let cancelled = false;
+    const imageUrls = new Map<string, string>();
+    fetchSharedNote(supabase, id, key)
+      .then((note): SharedNoteState => {
+        for (const [imageId, blob] of note.images) {
+          imageUrls.set(imageId, URL.createObjectURL(blob));
+        }
+        return {
+          status: "ready",
+          date: note.date,
+          weatherLabel: note.weather
+            ? formatDailyWeatherLabel(note.weather)
+            : null,
+          html: renderSharedContent(note.content, imageUrls),
+          expiresAt: note.expiresAt,
+        };
+      })
+      .catch((err: unknown): SharedNoteState => {
+        reportError("sharedNote.load", err);
+        // Supabase errors carry a code and aren't worded for readers
+        return {
+          status: "error",
+          error:
+            err instanceof Error && !("code" in err)
+              ? err.message
+              : "This note couldn't be loaded. Try again later.",
+        };
+      })
+      .then((next) => {
+        if (!cancelled) setState(next);
+      });
+    return () => {
+      cancelled = true;
+      imageUrls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [id, key]);
+
+  return state;
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import { getTodayString, isFuture, parseDate } from "../utils/date";
-import { AuthState, ViewType } from "../types";
+import { AuthState, ViewType, type UrlState } from "../types";
 import { AppMode } from "../utils/appMode";
 import {
   resolveUrlState,
@@ -8,20 +8,22 @@ import {
   setViewPreference,
 } from "../utils/urlState";
 import { AUTH_HAS_LOGGED_IN_KEY, INTRO_SEEN_KEY } from "../utils/constants";
+import { DEFAULT_JOURNAL_ID } from "../storage/journals";
+import { profileStorageKey } from "../storage/profiles";
 
 function shouldShowIntro(search: string): boolean {
   if (typeof window === "undefined") return false;
   const hasParams = new URLSearchParams(search).toString().length > 0;
   if (hasParams) return false;
   if (localStorage.getItem(INTRO_SEEN_KEY) === "1") return false;
-  return localStorage.getItem(AUTH_HAS_LOGGED_IN_KEY) !== "1";
+  return localStorage.getItem(profileStorageKey(AUTH_HAS_LOGGED_IN_KEY)) !== "1";
 }
 
 function shouldGateAuth(mode: AppMode): boolean {
   if (typeof window === "undefined") return false;
   return (
     mode === AppMode.Cloud &&
-    localStorage.getItem(AUTH_HAS_LOGGED_IN_KEY) === "1"
+    localStorage.getItem(profileStorageKey(AUTH_HAS_LOGGED_IN_KEY)) === "1"
   );
 }
 
@@ -35,13 +37,14 @@ export function useUrlState({ authState, mode }: UseUrlStateProps) {
     typeof window === "undefined"
       ? false
       : shouldShowIntro(window.location.search);
-  const [state, setState] = useState(() => {
+  const [state, setState] = useState<UrlState>(() => {
     // SSR-safe: check if window is available
     if (typeof window === "undefined") {
       return {
         view: ViewType.Calendar,
         date: null,
         year: new Date().getFullYear(),
+        journalId: DEFAULT_JOURNAL_ID,
       };
     }
     const resolved = resolveUrlState(window.location.search);
@@ -50,6 +53,7 @@ export function useUrlState({ authState, mode }: UseUrlStateProps) {
         view: ViewType.Calendar,
         date: null,
         year: resolved.state.year,
+        journalId: resolved.state.journalId,
       };
     }
     return resolved.state;
@@ -70,6 +74,7 @@ export function useUrlState({ authState, mode }: UseUrlStateProps) {
         view: ViewType.Calendar,
         date: null,
         year: state.year,
+        journalId: state.journalId,
       };
     }
     return state;
@@ -124,6 +129,7 @@ export function useUrlState({ authState, mode }: UseUrlStateProps) {
       view: ViewType.Day,
       date,
       year,
+      journalId: stateRef.current.journalId,
     };
     setViewPreference("day");
     window.history.pushState({}, "", serializeUrlState(nextState));
@@ -143,6 +149,7 @@ export function useUrlState({ authState, mode }: UseUrlStateProps) {
         view: ViewType.Calendar,
         date: null,
         year: targetYear,
+        journalId: stateRef.current.journalId,
       };
       setViewPreference("year");
       window.history.pushState({}, "", serializeUrlState(nextState));
@@ -161,12 +168,21 @@ export function useUrlState({ authState, mode }: UseUrlStateProps) {
       view: ViewType.Calendar,
       date: null,
       year,
+      journalId: stateRef.current.journalId,
     };
     setViewPreference("year");
     window.history.pushState({}, "", serializeUrlState(nextState));
     setState(nextState);
   }, []);
 
+  // Keeps the open day or year, now in the other journal
+  const navigateToJournal = useCallback((journalId: string) => {
+    if (typeof window === "undefined") return;
+    const nextState = { ...stateRef.current, journalId };
+    window.history.pushState({}, "", serializeUrlState(nextState));
+    setState(nextState);
+  }, []);
+
   return {
     ...effectiveState,
     showIntro,
@@ -176,6 +192,7 @@ export function useUrlState({ authState, mode }: UseUrlStateProps) {
     navigateToCalendar,
     navigateBackToCalendar,
     navigateToYear,
+    navigateToJournal,
   };
 }
 
@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useReducer } from "react";
+import { useCallback, useEffect, useReducer, useState } from "react";
 import type { User } from "@supabase/supabase-js";
 import type { VaultService } from "../domain/vault";
 
@@ -11,6 +11,13 @@ export interface UseVaultReturn {
   isBusy: boolean;
   error: string | null;
   clearError: () => void;
+  unlockWithPasskey: () => Promise<void>;
+  // Unlocks with the device-wrapped key again after `lock`
+  unlockWithDevice: () => void;
+  lock: () => void;
+  // Recovery phrase of a vault created by this unlock, until dismissed
+  recoveryPhrase: string | null;
+  dismissRecoveryPhrase: () => void;
 }
 
 interface UseVaultProps {
@@ -61,6 +68,16 @@ export type VaultAction =
       primaryKeyId: string;
     }
   | { type: "UNLOCK_FAILED" }
+  | { type: "PASSKEY_UNLOCK_START" }
+  | {
+      type: "PASSKEY_UNLOCKED";
+      vaultKey: CryptoKey;
+      keyring: Map<string, CryptoKey>;
+      primaryKeyId: string;
+    }
+  | { type: "PASSKEY_UNLOCK_FAILED"; error: string }
+  | { type: "LOCK" }
+  | { type: "DEVICE_UNLOCK_START" }
   | { type: "CLEAR_ERROR" };
 
 const initialState: VaultState = {
@@ -253,6 +270,57 @@ export function vaultReducer(
         error: null,
       };
 
+    // Passkey unlock runs from the locked phase and never leaves it until
+    // it succeeds, so a pending password unlock can't race it
+    case "PASSKEY_UNLOCK_START":
+      if (state.phase !== "locked") return state;
+      return { ...state, isBusy: true, error: null };
+
+    case "PASSKEY_UNLOCKED":
+      if (state.phase !== "locked") return state;
+      return {
+        ...state,
+        phase: "ready",
+        vaultKey: action.vaultKey,
+        keyring: action.keyring,
+        primaryKeyId: action.primaryKeyId,
+        isBusy: false,
+        isReady: true,
+        error: null,
+      };
+
+    case "PASSKEY_UNLOCK_FAILED":
+      if (state.phase !== "locked") return state;
+      return { ...state, isBusy: false, error: action.error };
+
+    // Drops the keys but keeps the user. The password that unlocked the
+    // vault counts as used, so it can't unlock it again on its own
+    case "LOCK":
+      if (state.phase === "signedOut" || state.phase === "locked") {
+        return state;
+      }
+      return {
+        ...state,
+        phase: "locked",
+        vaultKey: null,
+        keyring: new Map(),
+        primaryKeyId: null,
+        lastFailedPassword: state.password,
+        isBusy: false,
+        isReady: true,
+        error: null,
+      };
+
+    case "DEVICE_UNLOCK_START":
+      if (state.phase !== "locked") return state;
+      return {
+        ...state,
+        phase: "deviceUnlocking",
+        isBusy: true,
+        isReady: false,
+        error: null,
+      };
+
     case "UNLOCK_FAILED":
       if (state.phase === "deviceUnlocking") {
         return maybeAutoUnlock({
@@ -285,6 +353,7 @@ export function useVault({
   localKeyring,
 }: UseVaultProps): UseVaultReturn {
   const [state, dispatch] = useReducer(vaultReducer, initialState);
+  const [recoveryPhrase, setRecoveryPhrase] = useState<string | null>(null);
   useEffect(() => {
     dispatch({
       type: "INPUTS_CHANGED",
@@ -348,6 +417,7 @@ export function useVault({
           localKeyring: kr,
         });
         if (!cancelled && result.vaultKey && result.primaryKeyId) {
+          if (result.recoveryPhrase) setRecoveryPhrase(result.recoveryPhrase);
           dispatch({
             type: "PASSWORD_UNLOCKED",
             vaultKey: result.vaultKey,
@@ -381,6 +451,46 @@ export function useVault({
     dispatch({ type: "CLEAR_ERROR" });
   }, []);
 
+  const { phase, vaultService: activeService, userId } = state;
+  const unlockWithPasskey = useCallback(async () => {
+    if (phase !== "locked" || !activeService || !userId) return;
+    dispatch({ type: "PASSKEY_UNLOCK_START" });
+    try {
+      const result = await activeService.unlockCloudVaultWithPasskey({
+        userId,
+      });
+      if (!result.vaultKey || !result.primaryKeyId) {
+        throw new Error("Unable to unlock with this passkey.");
+      }
+      dispatch({
+        type: "PASSKEY_UNLOCKED",
+        vaultKey: result.vaultKey,
+        keyring: result.keyring,
+        primaryKeyId: result.primaryKeyId,
+      });
+    } catch (error) {
+      dispatch({
+        type: "PASSKEY_UNLOCK_FAILED",
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to unlock with this passkey.",
+      });
+    }
+  }, [phase, activeService, userId]);
+
+  const unlockWithDevice = useCallback(() => {
+    dispatch({ type: "DEVICE_UNLOCK_START" });
+  }, []);
+
+  const lock = useCallback(() => {
+    dispatch({ type: "LOCK" });
+  }, []);
+
+  const dismissRecoveryPhrase = useCallback(() => {
+    setRecoveryPhrase(null);
+  }, []);
+
   return {
     vaultKey: state.vaultKey,
     keyring: state.keyring,
@@ -390,5 +500,10 @@ export function useVault({
     isBusy: state.isBusy,
     error: state.error,
     clearError,
+    unlockWithPasskey,
+    unlockWithDevice,
+    lock,
+    recoveryPhrase,
+    dismissRecoveryPhrase,
   };
 }
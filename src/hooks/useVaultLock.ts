@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  getAutoLockMinutes,
+  getSkipDeviceUnlockPreference,
+  setAutoLockMinutes,
+  setSkipDeviceUnlockPreference,
+  type AutoLockMinutes,
+} from "../services/lockPreferences";
+
+const ACTIVITY_EVENTS = [
+  "pointerdown",
+  "pointermove",
+  "keydown",
+  "wheel",
+  "touchstart",
+] as const;
+const CHECK_INTERVAL_MS = 15 * 1000;
+
+interface UseVaultLockProps {
+  // Unlocked, so there is something to lock
+  isEnabled: boolean;
+  // A password or passkey can unlock the vault, so the device key may be
+  // left out. A random local vault has neither.
+  canSkipDeviceUnlock: boolean;
+  onLock: (options: { skipDeviceUnlock: boolean }) => void;
+}
+
+export interface UseVaultLockReturn {
+  lockNow: () => void;
+  minutes: AutoLockMinutes | null;
+  setMinutes: (minutes: AutoLockMinutes | null) => void;
+  skipDeviceUnlock: boolean;
+  setSkipDeviceUnlock: (skip: boolean) => void;
+}
+
+/**
+ * Locks the vault on demand and after the configured minutes without
+ * input. Compares timestamps instead of running one long timer, so a
+ * machine that slept past the timeout locks as soon as it wakes.
+ */
+export function useVaultLock({
+  isEnabled,
+  canSkipDeviceUnlock,
+  onLock,
+}: UseVaultLockProps): UseVaultLockReturn {
+  const [minutes, setMinutesState] = useState(getAutoLockMinutes);
+  const [skipDeviceUnlock, setSkipDeviceUnlockState] = useState(
+    getSkipDeviceUnlockPreference,
+  );
+  const lockNow = useCallback(() => {
+    onLock({ skipDeviceUnlock: skipDeviceUnlock && canSkipDeviceUnlock });
+  }, [onLock, skipDeviceUnlock, canSkipDeviceUnlock]);
+  const lockRef = useRef(lockNow);
+  useEffect(() => {
+    lockRef.current = lockNow;
+  }, [lockNow]);
+
+  useEffect(() => {
+    if (!isEnabled || minutes === null) return;
+
+    const timeoutMs = minutes * 60 * 1000;
+    let lastActivity = Date.now();
+    const markActivity = () => {
+      lastActivity = Date.now();
+    };
+    const check = () => {
+      if (Date.now() - lastActivity >= timeoutMs) lockRef.current();
+    };
+
+    ACTIVITY_EVENTS.forEach((type) =>
+      window.addEventListener(type, markActivity, { passive: true }),
+    );
+    document.addEventListener("visibilitychange", check);
+    const intervalId = window.setInterval(check, CHECK_INTERVAL_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach((type) =>
+        window.removeEventListener(type, markActivity),
+      );
+      document.removeEventListener("visibilitychange", check);
+      window.clearInterval(intervalId);
+    };
+  }, [isEnabled, minutes]);
+
+  const setMinutes = useCallback((next: AutoLockMinutes | null) => {
+    setAutoLockMinutes(next);
+    setMinutesState(next);
+  }, []);
+
+  const setSkipDeviceUnlock = useCallback((skip: boolean) => {
+    setSkipDeviceUnlockPreference(skip);
+    setSkipDeviceUnlockState(skip);
+  }, []);
+
+  return {
+    lockNow,
+    minutes,
+    setMinutes,
+    skipDeviceUnlock,
+    setSkipDeviceUnlock,
+  };
+}
@@ -27,7 +27,8 @@ export type ActiveVaultEvent =
       keyring: Map<string, CryptoKey>;
     }
   | { type: "CLOUD_KEY_CACHED" }
-  | { type: "CLOUD_KEY_RESTORED"; vaultKey: CryptoKey };
+  | { type: "CLOUD_KEY_RESTORED"; vaultKey: CryptoKey }
+  | { type: "LOCKED" };
 
 type ActiveVaultPhase =
   | "idle"
@@ -47,6 +48,9 @@ interface ActiveVaultState {
   localKeyId: string | null;
   restoredCloudVaultKey: CryptoKey | null;
   hasCachedCloudKeys: boolean;
+  // Locked by the user: don't restore keys on our own until an unlock
+  // brings a key back
+  isLocked: boolean;
 }
 
 const initialState: ActiveVaultState = {
@@ -61,9 +65,11 @@ const initialState: ActiveVaultState = {
   localKeyId: null,
   restoredCloudVaultKey: null,
   hasCachedCloudKeys: false,
+  isLocked: false,
 };
 
 function evaluate(state: ActiveVaultState): ActiveVaultPhase {
+  if (state.isLocked) return "idle";
   if (
     state.vaultService &&
     !state.restoredCloudVaultKey &&
@@ -100,6 +106,8 @@ function activeVaultReducer(
         cloudKeyring: event.cloudKeyring,
         cloudPrimaryKeyId: event.cloudPrimaryKeyId,
         localKeyring: event.localKeyring,
+        isLocked:
+          state.isLocked && !event.vaultKey && event.cloudKeyring.size === 0,
       };
       return { ...updated, phase: evaluate(updated) };
     }
@@ -119,6 +127,17 @@ function activeVaultReducer(
         phase: "idle",
       };
 
+    case "LOCKED":
+      return {
+        ...state,
+        phase: "idle",
+        localKeyring: new Map(),
+        localKeyId: null,
+        restoredCloudVaultKey: null,
+        hasCachedCloudKeys: false,
+        isLocked: true,
+      };
+
     case "CLOUD_KEY_CACHED":
       return {
         ...state,
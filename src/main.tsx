@@ -1,6 +1,8 @@
 import { StrictMode } from "react";
 import { createRoot, hydrateRoot } from "react-dom/client";
 import { AppBootstrap } from "./components/AppBootstrap";
+import { SharedNoteView } from "./components/SharedNote";
+import { parseShareLocation } from "./storage/sharedNotes";
 import { THEME_KEY } from "./utils/constants";
 import "./index.css";
 
@@ -29,13 +31,19 @@ const now = (() => {
   }
   return new Date(year, month - 1, day);
 })();
-const element = (
+// Share links open a standalone viewer instead of the app
+const share = parseShareLocation(window.location);
+const element = share ? (
+  <StrictMode>
+    <SharedNoteView shareId={share.id} shareKey={share.key} />
+  </StrictMode>
+) : (
   <StrictMode>
     <AppBootstrap shouldHydrate={shouldHydrate} year={ssgYear} now={now} />
   </StrictMode>
 );
 
-if (shouldHydrate) {
+if (shouldHydrate && !share) {
   hydrateRoot(rootEl, element);
 } else {
   createRoot(rootEl).render(element);
@@ -0,0 +1,68 @@
+import type { AppDatabase } from "../storage/rxdb/database";
+import type { ImageRepository } from "../storage/imageRepository";
+import type { RepositoryError } from "../domain/errors";
+import type { Result } from "../domain/result";
+import { ok } from "../domain/result";
+import {
+  BACKUP_FILE_EXTENSION,
+  createBackup,
+  readBackup,
+  restoreBackup,
+  type RestoreSummary,
+} from "../storage/backup";
+import { storeLocalWrappedKey } from "../storage/localKeyring";
+import { reportError } from "../utils/errorReporter";
+
+export { BACKUP_FILE_EXTENSION, type RestoreSummary };
+
+export function backupFilename(now = new Date()): string {
+  return `ichinichi-backup-${now.toISOString().slice(0, 10)}${BACKUP_FILE_EXTENSION}`;
+}
+
+/**
+ * Build an encrypted `.ichinichi` backup of the whole database.
+ * The synthetic "legacy" keyring alias is left out — it points at a key
+ * that's already included under its real ID.
+ */
+export async function createBackupFile(
+  database: AppDatabase,
+  keyring: Map<string, CryptoKey>,
+  passphrase: string,
+  imageRepository: ImageRepository | null,
+): Promise<Result<Blob, RepositoryError>> {
+  const keys = new Map(
+    Array.from(keyring).filter(([keyId]) => keyId !== "legacy"),
+  );
+  return createBackup(database, keys, passphrase, { imageRepository });
+}
+
+/**
+ * Decrypt a backup file and merge it into the database. Keys from the
+ * backup that this device doesn't have yet are wrapped with the local
+ * vault key, so they join the keyring on the next unlock.
+ */
+export async function restoreBackupFile(
+  database: AppDatabase,
+  file: Blob,
+  passphrase: string,
+  keyring: Map<string, CryptoKey>,
+  vaultKey: CryptoKey | null,
+): Promise<Result<RestoreSummary, RepositoryError>> {
+  const contents = await readBackup(file, passphrase);
+  if (!contents.ok) return contents;
+
+  const restored = await restoreBackup(database, contents.value);
+  if (!restored.ok) return restored;
+
+  if (vaultKey) {
+    for (const [keyId, key] of restored.value.keyring) {
+      if (keyring.has(keyId)) continue;
+      try {
+        await storeLocalWrappedKey(keyId, key, vaultKey);
+      } catch (error) {
+        reportError("backupFiles.storeKey", error);
+      }
+    }
+  }
+  return ok(restored.value);
+}
@@ -75,6 +75,9 @@ export function createE2eeService(keyring: KeyringProvider): E2eeService {
     if (payload.weather) {
       envelope.weather = payload.weather;
     }
+    if (payload.date) {
+      envelope.date = payload.date;
+    }
     const plaintext = encodeUtf8(JSON.stringify(envelope));
     const encrypted = await crypto.subtle.encrypt(
       { name: "AES-GCM", iv },
@@ -125,9 +128,11 @@ export function createE2eeService(keyring: KeyringProvider): E2eeService {
       };
     };
 
+    const date = (parsed as Record<string, unknown>).date;
     return {
       content: sanitizeHtml(parsed.content),
       weather: validateWeather((parsed as Record<string, unknown>).weather),
+      ...(typeof date === "string" ? { date } : {}),
     };
   };
 
@@ -0,0 +1,53 @@
+/**
+ * Editor Document Service
+ * A structured model of the note editor's content with a transaction API.
+ * Parses the editor DOM or stored HTML into blocks, applies edits as data,
+ * and serializes back to the same sanitized HTML.
+ */
+
+export type {
+  Attrs,
+  Block,
+  DividerBlock,
+  EditorDocument,
+  EditorState,
+  HeadingBlock,
+  HtmlBlock,
+  ImageNode,
+  InlineNode,
+  LeafNode,
+  LineBreakNode,
+  LinkNode,
+  ListItemBlock,
+  Mark,
+  MarkType,
+  ParagraphBlock,
+  Position,
+  QuoteBlock,
+  SectionHeaderBlock,
+  Selection,
+  TextBlock,
+  TextNode,
+  TimestampDividerBlock,
+} from "./model";
+export {
+  collapsedSelection,
+  inlineText,
+  isCollapsed,
+  isTextBlock,
+  lineBounds,
+  sliceInlines,
+} from "./model";
+export { parseHtml } from "./parse";
+export { serializeDocument } from "./serialize";
+export { readSelection, writeSelection } from "./selection";
+export {
+  createTransaction,
+  type Commit,
+  type Transaction,
+} from "./transaction";
+export {
+  dispatchTransaction,
+  readEditorState,
+  renderEditorState,
+} from "./view";
@@ -0,0 +1,390 @@
+/**
+ * Editor document model.
+ * Blocks and inline nodes mirroring the sanitized note HTML, so edits can
+ * be computed as plain data and serialized back to the stored format.
+ */
+
+import type { TaskState } from "../../utils/noteTasks";
+
+// Formatting elements, listed outermost first on each node
+export type Mark =
+  | "b"
+  | "strong"
+  | "i"
+  | "em"
+  | "u"
+  | "s"
+  | "strike"
+  | "del"
+  | "code"
+  | "span";
+
+export const MARK_TAGS: ReadonlySet<string> = new Set<Mark>([
+  "b",
+  "strong",
+  "i",
+  "em",
+  "u",
+  "s",
+  "strike",
+  "del",
+  "code",
+  "span",
+]);
+
+export type MarkType = "bold" | "italic" | "underline" | "strike" | "code";
+
+// The elements that count as each mark type, and the one a toggle adds
+export const MARK_TYPES: Record<
+  MarkType,
+  { tags: readonly Mark[]; create: Mark }
+> = {
+  bold: { tags: ["b", "strong"], create: "b" },
+  italic: { tags: ["i", "em"], create: "i" },
+  underline: { tags: ["u"], create: "u" },
+  strike: { tags: ["s", "strike", "del"], create: "s" },
+  code: { tags: ["code"], create: "code" },
+};
+
+// Attributes in document order
+export type Attrs = Record<string, string>;
+
+export interface TextNode {
+  type: "text";
+  text: string;
+  marks: Mark[];
+}
+
+export interface LineBreakNode {
+  type: "lineBreak";
+  marks: Mark[];
+}
+
+export interface ImageNode {
+  type: "image";
+  attrs: Attrs;
+  marks: Mark[];
+}
+
+export type LeafNode = TextNode | LineBreakNode | ImageNode;
+
+export interface LinkNode {
+  type: "link";
+  attrs: Attrs;
+  children: LeafNode[];
+}
+
+export type InlineNode = LeafNode | LinkNode;
+
+export interface ParagraphBlock {
+  type: "paragraph";
+  // null for bare lines directly in the editor, split by line breaks
+  tag: "div" | "p" | null;
+  children: InlineNode[];
+}
+
+export interface SectionHeaderBlock {
+  type: "sectionHeader";
+  tag: "div" | "p";
+  sectionType: string;
+  children: InlineNode[];
+}
+
+export interface HeadingBlock {
+  type: "heading";
+  level: 1 | 2 | 3 | 4 | 5 | 6;
+  children: InlineNode[];
+}
+
+export interface QuoteBlock {
+  type: "quote";
+  children: InlineNode[];
+}
+
+export interface ListItemBlock {
+  type: "listItem";
+  ordered: boolean;
+  task: TaskState | null;
+  // False when the item continues the list of the item before it
+  startsList: boolean;
+  children: InlineNode[];
+}
+
+export interface TimestampDividerBlock {
+  type: "timestampDivider";
+  timestamp: string;
+  label: string | null;
+}
+
+export interface DividerBlock {
+  type: "divider";
+}
+
+// Markup the model doesn't cover, kept verbatim
+export interface HtmlBlock {
+  type: "html";
+  html: string;
+}
+
+export type TextBlock =
+  | ParagraphBlock
+  | SectionHeaderBlock
+  | HeadingBlock
+  | QuoteBlock
+  | ListItemBlock;
+
+export type Block =
+  | TextBlock
+  | TimestampDividerBlock
+  | DividerBlock
+  | HtmlBlock;
+
+export interface EditorDocument {
+  blocks: Block[];
+}
+
+/**
+ * A point in the document. The offset counts characters, line breaks and
+ * images of the block's content, the same units as the editor's DOM.
+ */
+export interface Position {
+  block: number;
+  offset: number;
+}
+
+export interface Selection {
+  from: Position;
+  to: Position;
+}
+
+export interface EditorState {
+  doc: EditorDocument;
+  selection: Selection | null;
+}
+
+export function isTextBlock(block: Block | undefined): block is TextBlock {
+  return block !== undefined && "children" in block;
+}
+
+export function collapsedSelection(position: Position): Selection {
+  return { from: position, to: position };
+}
+
+export function isCollapsed(selection: Selection): boolean {
+  return comparePositions(selection.from, selection.to) === 0;
+}
+
+export function comparePositions(a: Position, b: Position): number {
+  return a.block - b.block || a.offset - b.offset;
+}
+
+function nodeLength(node: InlineNode): number {
+  if (node.type === "text") return node.text.length;
+  if (node.type === "link") return inlineLength(node.children);
+  return 1;
+}
+
+export function inlineLength(nodes: readonly InlineNode[]): number {
+  return nodes.reduce((sum, node) => sum + nodeLength(node), 0);
+}
+
+export function blockLength(block: Block): number {
+  return isTextBlock(block) ? inlineLength(block.children) : 0;
+}
+
+/**
+ * The block's content as one character per unit: line breaks are "\n" and
+ * images U+FFFC, so string indices are positions.
+ */
+export function inlineText(nodes: readonly InlineNode[]): string {
+  return nodes
+    .map((node) => {
+      if (node.type === "text") return node.text.replace(/\n/g, " ");
+      if (node.type === "link") return inlineText(node.children);
+      return node.type === "lineBreak" ? "\n" : "\ufffc";
+    })
+    .join("");
+}
+
+/**
+ * The leaves of the nodes, with link contents in place of links.
+ */
+export function leaves(nodes: readonly InlineNode[]): LeafNode[] {
+  return nodes.flatMap((node) => (node.type === "link" ? node.children : node));
+}
+
+function sameMarks(a: readonly Mark[], b: readonly Mark[]): boolean {
+  return a.length === b.length && a.every((mark, i) => mark === b[i]);
+}
+
+function sameAttrs(a: Attrs, b: Attrs): boolean {
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key, i) => Object.keys(b)[i] === key && a[key] === b[key])
+  );
+}
+
+/**
+ * Drop empty text and links, and merge neighbours that serialize as one:
+ * text with the same marks, links with the same attributes.
+ */
+export function normalizeInlines(nodes: readonly InlineNode[]): InlineNode[] {
+  const out: InlineNode[] = [];
+  for (const node of nodes) {
+    let next = node;
+    if (next.type === "text" && next.text === "") continue;
+    if (next.type === "link") {
+      next = {
+        ...next,
+        children: normalizeInlines(next.children) as LeafNode[],
+      };
+      if (next.children.length === 0) continue;
+    }
+    const previous = out[out.length - 1];
+    if (
+      previous?.type === "text" &&
+      next.type === "text" &&
+      sameMarks(previous.marks, next.marks)
+    ) {
+      out[out.length - 1] = { ...previous, text: previous.text + next.text };
+    } else if (
+      previous?.type === "link" &&
+      next.type === "link" &&
+      sameAttrs(previous.attrs, next.attrs)
+    ) {
+      out[out.length - 1] = {
+        ...previous,
+        children: normalizeInlines([
+          ...previous.children,
+          ...next.children,
+        ]) as LeafNode[],
+      };
+    } else {
+      out.push(next);
+    }
+  }
+  return out;
+}
+
+/**
+ * The content between two offsets, splitting text and links at the ends.
+ */
+export function sliceInlines(
+  nodes: readonly InlineNode[],
+  from: number,
+  to = Infinity,
+): InlineNode[] {
+  const out: InlineNode[] = [];
+  let pos = 0;
+  for (const node of nodes) {
+    const length = nodeLength(node);
+    const start = Math.max(from, pos) - pos;
+    const end = Math.min(to, pos + length) - pos;
+    pos += length;
+    if (start >= end) continue;
+    if (start === 0 && end === length) {
+      out.push(node);
+    } else if (node.type === "text") {
+      out.push({ ...node, text: node.text.slice(start, end) });
+    } else if (node.type === "link") {
+      out.push({
+        ...node,
+        children: sliceInlines(node.children, start, end) as LeafNode[],
+      });
+    }
+  }
+  return out;
+}
+
+/**
+ * Insert leaves at an offset. An offset inside a link inserts into the
+ * link; one at its edge inserts beside it.
+ */
+export function insertInlines(
+  nodes: readonly InlineNode[],
+  offset: number,
+  inserted: LeafNode[],
+): InlineNode[] {
+  let pos = 0;
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+    const length = nodeLength(node);
+    if (node.type === "link" && offset > pos && offset < pos + length) {
+      const link: LinkNode = {
+        ...node,
+        children: insertInlines(
+          node.children,
+          offset - pos,
+          inserted,
+        ) as LeafNode[],
+      };
+      return normalizeInlines([
+        ...nodes.slice(0, i),
+        link,
+        ...nodes.slice(i + 1),
+      ]);
+    }
+    pos += length;
+  }
+  return normalizeInlines([
+    ...sliceInlines(nodes, 0, offset),
+    ...inserted,
+    ...sliceInlines(nodes, offset),
+  ]);
+}
+
+/**
+ * Replace each leaf between two offsets with `map(leaf)`.
+ */
+export function mapLeaves(
+  nodes: readonly InlineNode[],
+  from: number,
+  to: number,
+  map: (leaf: LeafNode) => LeafNode,
+): InlineNode[] {
+  const middle = sliceInlines(nodes, from, to).map((node) =>
+    node.type === "link"
+      ? { ...node, children: node.children.map(map) }
+      : map(node),
+  );
+  return normalizeInlines([
+    ...sliceInlines(nodes, 0, from),
+    ...middle,
+    ...sliceInlines(nodes, to),
+  ]);
+}
+
+/**
+ * The marks text typed at an offset takes on: those of the text just
+ * before it, or just after it at the start of a block.
+ */
+export function marksAt(nodes: readonly InlineNode[], offset: number): Mark[] {
+  let pos = 0;
+  let after: Mark[] | null = null;
+  for (const leaf of leaves(nodes)) {
+    const length = leaf.type === "text" ? leaf.text.length : 1;
+    if (leaf.type === "text") {
+      if (pos < offset && offset <= pos + length) return leaf.marks;
+      if (pos === offset && after === null) after = leaf.marks;
+    }
+    pos += length;
+  }
+  return after ?? [];
+}
+
+/**
+ * The start and end offsets of the line around an offset, between the
+ * block's line breaks.
+ */
+export function lineBounds(
+  nodes: readonly InlineNode[],
+  offset: number,
+): { start: number; end: number } {
+  const text = inlineText(nodes);
+  const end = text.indexOf("\n", offset);
+  return {
+    start: offset === 0 ? 0 : text.lastIndexOf("\n", offset - 1) + 1,
+    end: end === -1 ? text.length : end,
+  };
+}
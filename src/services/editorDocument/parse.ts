@@ -0,0 +1,269 @@
+/**
+ * HTML / editor DOM → document.
+ * Each block is checked by serializing it again; markup that wouldn't come
+ * back byte for byte is kept as an opaque html block instead.
+ */
+
+import type { TaskState } from "../../utils/noteTasks";
+import {
+  MARK_TAGS,
+  normalizeInlines,
+  type Attrs,
+  type Block,
+  type EditorDocument,
+  type InlineNode,
+  type LeafNode,
+  type Mark,
+} from "./model";
+import { escapeText, serializeBlocks } from "./serialize";
+
+// Presentation the editor adds on top of the stored HTML
+const IGNORED_ATTRS = new Set(["class", "style"]);
+const TASK_STATES = new Set<string>(["open", "done"]);
+
+export interface ParsedNodes {
+  doc: EditorDocument;
+  // Per block, the DOM nodes holding its content
+  nodes: Node[][];
+}
+
+function isElement(node: Node): node is Element {
+  return node.nodeType === Node.ELEMENT_NODE;
+}
+
+function isStoredAttr(el: Element, name: string): boolean {
+  if (IGNORED_ATTRS.has(name)) return false;
+  // Image sources are object URLs resolved at display time
+  return !(
+    name === "src" &&
+    el.tagName === "IMG" &&
+    el.hasAttribute("data-image-id")
+  );
+}
+
+function storedAttrs(el: Element): Attrs {
+  const attrs: Attrs = {};
+  for (const attr of Array.from(el.attributes)) {
+    if (isStoredAttr(el, attr.name)) attrs[attr.name] = attr.value;
+  }
+  return attrs;
+}
+
+function hasStoredAttrs(el: Element): boolean {
+  return Object.keys(storedAttrs(el)).length > 0;
+}
+
+/**
+ * A node's HTML as it is stored: without classes, styles and image sources.
+ */
+export function storedHtml(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) return escapeText((node as Text).data);
+  const wrapper = document.createElement("div");
+  const clone = node.cloneNode(true);
+  wrapper.appendChild(clone);
+  if (isElement(clone)) {
+    for (const el of [clone, ...Array.from(clone.querySelectorAll("*"))]) {
+      for (const attr of Array.from(el.attributes)) {
+        if (!isStoredAttr(el, attr.name)) el.removeAttribute(attr.name);
+      }
+    }
+  }
+  return wrapper.innerHTML;
+}
+
+function isInlineNode(node: Node): boolean {
+  if (node.nodeType === Node.TEXT_NODE) return true;
+  if (!isElement(node)) return false;
+  const tag = node.tagName.toLowerCase();
+  return tag === "br" || tag === "img" || tag === "a" || MARK_TAGS.has(tag);
+}
+
+function parseInlines(
+  nodes: NodeListOf<ChildNode> | Node[],
+  marks: Mark[],
+  out: InlineNode[],
+  inLink: boolean,
+): boolean {
+  for (const node of Array.from(nodes)) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      out.push({ type: "text", text: (node as Text).data, marks });
+      continue;
+    }
+    if (!isElement(node)) return false;
+    const tag = node.tagName.toLowerCase();
+    if (tag === "br" && !hasStoredAttrs(node)) {
+      out.push({ type: "lineBreak", marks });
+    } else if (tag === "img") {
+      out.push({ type: "image", attrs: storedAttrs(node), marks });
+    } else if (MARK_TAGS.has(tag) && !hasStoredAttrs(node)) {
+      if (
+        !parseInlines(node.childNodes, [...marks, tag as Mark], out, inLink)
+      ) {
+        return false;
+      }
+    } else if (tag === "a" && !inLink && marks.length === 0) {
+      const children: InlineNode[] = [];
+      if (!parseInlines(node.childNodes, [], children, true)) return false;
+      out.push({
+        type: "link",
+        attrs: storedAttrs(node),
+        children: children as LeafNode[],
+      });
+    } else {
+      return false;
+    }
+  }
+  return true;
+}
+
+function parseChildren(el: Element): InlineNode[] | null {
+  const out: InlineNode[] = [];
+  return parseInlines(el.childNodes, [], out, false)
+    ? normalizeInlines(out)
+    : null;
+}
+
+// The blocks a top-level element holds, with each block's content nodes
+function parseElement(
+  el: Element,
+): { blocks: Block[]; nodes: Node[][] } | null {
+  const tag = el.tagName.toLowerCase();
+  const attrs = storedAttrs(el);
+  const names = Object.keys(attrs);
+  const single = (block: Block | null) =>
+    block ? { blocks: [block], nodes: [[el]] } : null;
+  const withChildren = (
+    make: (children: InlineNode[]) => Block,
+  ): Block | null => {
+    const children = parseChildren(el);
+    return children ? make(children) : null;
+  };
+
+  if ((tag === "div" || tag === "p") && names.length === 0) {
+    return single(
+      withChildren((children) => ({ type: "paragraph", tag, children })),
+    );
+  }
+  if (
+    (tag === "div" || tag === "p") &&
+    names.length === 1 &&
+    names[0] === "data-section-type"
+  ) {
+    return single(
+      withChildren((children) => ({
+        type: "sectionHeader",
+        tag,
+        sectionType: attrs["data-section-type"],
+        children,
+      })),
+    );
+  }
+  if (/^h[1-6]$/.test(tag) && names.length === 0) {
+    const level = Number(tag[1]) as 1 | 2 | 3 | 4 | 5 | 6;
+    return single(
+      withChildren((children) => ({ type: "heading", level, children })),
+    );
+  }
+  if (tag === "blockquote" && names.length === 0) {
+    return single(withChildren((children) => ({ type: "quote", children })));
+  }
+  if (tag === "hr") {
+    if (names.length === 0) return single({ type: "divider" });
+    if (!("data-timestamp" in attrs)) return null;
+    return single({
+      type: "timestampDivider",
+      timestamp: attrs["data-timestamp"],
+      label: attrs["data-label"] ?? null,
+    });
+  }
+  if ((tag === "ul" || tag === "ol") && names.length === 0) {
+    const items = Array.from(el.childNodes);
+    const blocks: Block[] = [];
+    for (const item of items) {
+      if (!isElement(item) || item.tagName !== "LI") return null;
+      const itemAttrs = Object.keys(storedAttrs(item));
+      const task = item.getAttribute("data-task");
+      if (itemAttrs.length > (task === null ? 0 : 1)) return null;
+      if (task !== null && !TASK_STATES.has(task)) return null;
+      const children = parseChildren(item);
+      if (!children) return null;
+      blocks.push({
+        type: "listItem",
+        ordered: tag === "ol",
+        task: task as TaskState | null,
+        startsList: blocks.length === 0,
+        children,
+      });
+    }
+    return blocks.length > 0
+      ? { blocks, nodes: items.map((item) => [item]) }
+      : null;
+  }
+  return null;
+}
+
+/**
+ * Parse a sequence of top-level nodes. Runs of bare inline nodes become a
+ * paragraph without a tag.
+ */
+export function parseNodes(nodes: readonly Node[]): ParsedNodes {
+  const blocks: Block[] = [];
+  const blockNodes: Node[][] = [];
+  let run: Node[] = [];
+
+  const flushRun = () => {
+    if (run.length === 0) return;
+    const html = run.map(storedHtml).join("");
+    const children: InlineNode[] = [];
+    let block: Block = { type: "html", html };
+    if (parseInlines(run, [], children, false)) {
+      const paragraph: Block = {
+        type: "paragraph",
+        tag: null,
+        children: normalizeInlines(children),
+      };
+      if (serializeBlocks([paragraph]) === html) block = paragraph;
+    }
+    blocks.push(block);
+    blockNodes.push(run);
+    run = [];
+  };
+
+  for (const node of nodes) {
+    if (isInlineNode(node)) {
+      run.push(node);
+      continue;
+    }
+    flushRun();
+    const html = storedHtml(node);
+    const parsed = isElement(node) ? parseElement(node) : null;
+    if (parsed && serializeBlocks(parsed.blocks) === html) {
+      blocks.push(...parsed.blocks);
+      blockNodes.push(...parsed.nodes);
+    } else {
+      blocks.push({ type: "html", html });
+      blockNodes.push([node]);
+    }
+  }
+  flushRun();
+
+  return { doc: { blocks }, nodes: blockNodes };
+}
+
+/**
+ * Parse the live editor; classes, styles and image sources are ignored.
+ */
+export function parseEditor(editor: HTMLElement): ParsedNodes {
+  return parseNodes(Array.from(editor.childNodes));
+}
+
+/**
+ * Parse stored note HTML.
+ */
+export function parseHtml(html: string): EditorDocument {
+  const container = new DOMParser().parseFromString(
+    `<div>${html}</div>`,
+    "text/html",
+  ).body.firstElementChild;
+  return parseNodes(container ? Array.from(container.childNodes) : []).doc;
+}
@@ -0,0 +1,173 @@
+/**
+ * Mapping between DOM selections and document positions.
+ * Positions count the same units in both: characters, `<br>` and `<img>`.
+ */
+
+import { collapsedSelection, type Position, type Selection } from "./model";
+import { parseEditor, type ParsedNodes } from "./parse";
+
+interface DomPoint {
+  node: Node;
+  offset: number;
+}
+
+// The text, line break and image nodes in and under the given nodes
+function contentLeaves(nodes: readonly Node[]): Node[] {
+  const out: Node[] = [];
+  const visit = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      out.push(node);
+    } else if (node.nodeName === "BR" || node.nodeName === "IMG") {
+      out.push(node);
+    } else {
+      node.childNodes.forEach(visit);
+    }
+  };
+  nodes.forEach(visit);
+  return out;
+}
+
+function units(leaf: Node): number {
+  return leaf.nodeType === Node.TEXT_NODE ? (leaf as Text).data.length : 1;
+}
+
+function before(node: Node): DomPoint {
+  const parent = node.parentNode!;
+  return {
+    node: parent,
+    offset: Array.from(parent.childNodes).indexOf(node as ChildNode),
+  };
+}
+
+function after(node: Node): DomPoint {
+  const point = before(node);
+  return { node: point.node, offset: point.offset + 1 };
+}
+
+// Whether the point comes before the start of `node`
+function isBefore(point: DomPoint, node: Node): boolean {
+  const range = document.createRange();
+  range.setStart(point.node, point.offset);
+  return range.comparePoint(node, 0) > 0;
+}
+
+function toPosition(
+  editor: HTMLElement,
+  parsed: ParsedNodes,
+  point: DomPoint,
+): Position | null {
+  const { nodes } = parsed;
+  if (nodes.length === 0) return null;
+  const target =
+    point.node === editor ? editor.childNodes[point.offset] : point.node;
+
+  let block = nodes.findIndex((blockNodes) =>
+    blockNodes.some((node) => node === target || node.contains(target ?? null)),
+  );
+  if (block === -1) {
+    // Between blocks, e.g. at the editor's end or between list items
+    block = nodes.findIndex((blockNodes) => isBefore(point, blockNodes[0]));
+    if (block === -1) {
+      const last = nodes.length - 1;
+      const length = contentLeaves(nodes[last]).reduce(
+        (sum, leaf) => sum + units(leaf),
+        0,
+      );
+      return { block: last, offset: length };
+    }
+    return { block, offset: 0 };
+  }
+
+  let offset = 0;
+  for (const leaf of contentLeaves(nodes[block])) {
+    if (leaf === point.node) return { block, offset: offset + point.offset };
+    if (isBefore(point, leaf)) break;
+    offset += units(leaf);
+  }
+  return { block, offset };
+}
+
+/**
+ * The DOM point for a position. At a boundary the point stays with the
+ * content before it, so typing continues that text's formatting.
+ */
+function toDomPoint(parsed: ParsedNodes, position: Position): DomPoint | null {
+  const blockNodes = parsed.nodes[position.block];
+  if (!blockNodes) return null;
+
+  let offset = 0;
+  let last: Node | null = null;
+  for (const leaf of contentLeaves(blockNodes)) {
+    if (leaf.nodeType === Node.TEXT_NODE) {
+      const length = units(leaf);
+      if (position.offset <= offset + length) {
+        return { node: leaf, offset: position.offset - offset };
+      }
+      offset += length;
+    } else {
+      if (position.offset === offset) return before(leaf);
+      offset += 1;
+    }
+    last = leaf;
+  }
+  if (last?.nodeType === Node.TEXT_NODE) {
+    return { node: last, offset: units(last) };
+  }
+  if (last) return after(last);
+  const first = blockNodes[0];
+  return first.nodeName === "HR" ? after(first) : { node: first, offset: 0 };
+}
+
+/**
+ * The editor's selection as document positions, or null when it isn't in
+ * the editor.
+ */
+export function readSelection(
+  editor: HTMLElement,
+  parsed: ParsedNodes = parseEditor(editor),
+): Selection | null {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+  const range = selection.getRangeAt(0);
+  if (!editor.contains(range.startContainer)) return null;
+
+  const from = toPosition(editor, parsed, {
+    node: range.startContainer,
+    offset: range.startOffset,
+  });
+  if (!from) return null;
+  if (range.collapsed) return collapsedSelection(from);
+  const to = toPosition(editor, parsed, {
+    node: range.endContainer,
+    offset: range.endOffset,
+  });
+  return to ? { from, to } : collapsedSelection(from);
+}
+
+/**
+ * Put the editor's selection at document positions. Offsets past a block's
+ * end land at its end; a block that doesn't exist leaves the selection alone.
+ */
+export function writeSelection(
+  editor: HTMLElement,
+  target: Selection | null,
+  parsed: ParsedNodes = parseEditor(editor),
+): void {
+  if (!target) return;
+  const selection = window.getSelection();
+  if (!selection) return;
+
+  const start = toDomPoint(parsed, target.from);
+  const end = toDomPoint(parsed, target.to);
+  if (!start || !end) return;
+
+  try {
+    const range = document.createRange();
+    range.setStart(start.node, start.offset);
+    range.setEnd(end.node, end.offset);
+    selection.removeAllRanges();
+    selection.addRange(range);
+  } catch {
+    // Leave the browser's selection in place
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Document → HTML in the stored note format.
+ * Matches the browser's own serialization, so a parsed note serializes
+ * back to exactly the HTML it came from.
+ */
+
+import type {
+  Attrs,
+  Block,
+  EditorDocument,
+  InlineNode,
+  LeafNode,
+  Mark,
+} from "./model";
+
+export function escapeText(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\u00a0/g, "&nbsp;");
+}
+
+function escapeAttr(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/\u00a0/g, "&nbsp;");
+}
+
+function serializeAttrs(attrs: Attrs): string {
+  return Object.entries(attrs)
+    .map(([name, value]) => ` ${name}="${escapeAttr(value)}"`)
+    .join("");
+}
+
+function serializeLeaf(leaf: LeafNode): string {
+  if (leaf.type === "text") return escapeText(leaf.text);
+  if (leaf.type === "lineBreak") return "<br>";
+  return `<img${serializeAttrs(leaf.attrs)}>`;
+}
+
+// Neighbours share the mark elements their mark lists start with
+function serializeLeaves(nodes: LeafNode[]): string {
+  let html = "";
+  let open: Mark[] = [];
+  for (const leaf of nodes) {
+    let shared = 0;
+    while (
+      shared < open.length &&
+      shared < leaf.marks.length &&
+      open[shared] === leaf.marks[shared]
+    ) {
+      shared++;
+    }
+    for (let i = open.length - 1; i >= shared; i--) html += `</${open[i]}>`;
+    for (let i = shared; i < leaf.marks.length; i++)
+      html += `<${leaf.marks[i]}>`;
+    open = leaf.marks;
+    html += serializeLeaf(leaf);
+  }
+  for (let i = open.length - 1; i >= 0; i--) html += `</${open[i]}>`;
+  return html;
+}
+
+export function serializeInlines(nodes: readonly InlineNode[]): string {
+  let html = "";
+  let run: LeafNode[] = [];
+  for (const node of nodes) {
+    if (node.type !== "link") {
+      run.push(node);
+      continue;
+    }
+    html += serializeLeaves(run);
+    run = [];
+    html += `<a${serializeAttrs(node.attrs)}>${serializeLeaves(node.children)}</a>`;
+  }
+  return html + serializeLeaves(run);
+}
+
+function serializeBlock(block: Exclude<Block, { type: "listItem" }>): string {
+  switch (block.type) {
+    case "paragraph": {
+      const inner = serializeInlines(block.children);
+      return block.tag ? `<${block.tag}>${inner}</${block.tag}>` : inner;
+    }
+    case "sectionHeader":
+      return `<${block.tag} data-section-type="${escapeAttr(block.sectionType)}">${serializeInlines(block.children)}</${block.tag}>`;
+    case "heading":
+      return `<h${block.level}>${serializeInlines(block.children)}</h${block.level}>`;
+    case "quote":
+      return `<blockquote>${serializeInlines(block.children)}</blockquote>`;
+    case "timestampDivider": {
+      const label =
+        block.label !== null ? ` data-label="${escapeAttr(block.label)}"` : "";
+      return `<hr data-timestamp="${escapeAttr(block.timestamp)}"${label} contenteditable="false">`;
+    }
+    case "divider":
+      return "<hr>";
+    case "html":
+      return block.html;
+  }
+}
+
+function continuesList(block: Block | undefined, previous: Block | undefined) {
+  return (
+    block?.type === "listItem" &&
+    !block.startsList &&
+    previous?.type === "listItem" &&
+    previous.ordered === block.ordered
+  );
+}
+
+/**
+ * Serialize blocks, grouping consecutive list items into their lists.
+ */
+export function serializeBlocks(blocks: readonly Block[]): string {
+  let html = "";
+  blocks.forEach((block, i) => {
+    if (block.type !== "listItem") {
+      html += serializeBlock(block);
+      return;
+    }
+    const list = block.ordered ? "ol" : "ul";
+    if (!continuesList(block, blocks[i - 1])) html += `<${list}>`;
+    const task = block.task ? ` data-task="${block.task}"` : "";
+    html += `<li${task}>${serializeInlines(block.children)}</li>`;
+    if (!continuesList(blocks[i + 1], block)) html += `</${list}>`;
+  });
+  return html;
+}
+
+export function serializeDocument(doc: EditorDocument): string {
+  return serializeBlocks(doc.blocks);
+}
@@ -0,0 +1,331 @@
+/**
+ * Transactions: edits to an editor state as a sequence of steps.
+ * Each step produces new blocks instead of changing the old ones, so the
+ * state a transaction started from stays valid as its undo point.
+ */
+
+import {
+  MARK_TYPES,
+  blockLength,
+  collapsedSelection,
+  comparePositions,
+  insertInlines,
+  inlineLength,
+  isCollapsed,
+  isTextBlock,
+  leaves,
+  mapLeaves,
+  marksAt,
+  normalizeInlines,
+  sliceInlines,
+  type Block,
+  type EditorDocument,
+  type EditorState,
+  type InlineNode,
+  type LeafNode,
+  type MarkType,
+  type Position,
+  type Selection,
+  type TextBlock,
+} from "./model";
+
+// Marks a collapsed selection with nothing to wrap yet; typing replaces it
+const ZERO_WIDTH_SPACE = "\u200B";
+
+export interface Commit {
+  before: EditorState;
+  after: EditorState;
+  docChanged: boolean;
+}
+
+export interface Transaction {
+  readonly doc: EditorDocument;
+  readonly selection: Selection | null;
+  readonly docChanged: boolean;
+  /** Replace blocks `from`–`to` (exclusive); positions in them move to `from`. */
+  replaceBlocks(from: number, to: number, blocks: Block[]): Transaction;
+  /** Replace one block, keeping positions in it. */
+  updateBlock(index: number, block: Block): Transaction;
+  setSelection(selection: Selection | null): Transaction;
+  deleteSelection(): Transaction;
+  /** Insert leaves over the selection and put the caret after them. */
+  insertInline(nodes: LeafNode[]): Transaction;
+  /** Insert text formatted like the text before the caret. */
+  insertText(text: string): Transaction;
+  insertLineBreak(): Transaction;
+  /**
+   * Insert blocks at the caret, splitting its block around them. The caret
+   * ends up at the end of the last inserted text block, or after the
+   * blocks when none is one.
+   */
+  insertBlocks(blocks: Block[]): Transaction;
+  /** Add a mark to the selected text, or remove it when all of it has it. */
+  toggleMark(type: MarkType): Transaction;
+  commit(): Commit;
+}
+
+function withChildren(block: TextBlock, children: InlineNode[]): TextBlock {
+  return { ...block, children: normalizeInlines(children) };
+}
+
+function orderedSelection(selection: Selection): Selection {
+  return comparePositions(selection.from, selection.to) <= 0
+    ? selection
+    : { from: selection.to, to: selection.from };
+}
+
+export function createTransaction(state: EditorState): Transaction {
+  let blocks = state.doc.blocks;
+  let selection = state.selection ? orderedSelection(state.selection) : null;
+  let docChanged = false;
+
+  const mapSelection = (map: (position: Position) => Position) => {
+    if (selection) {
+      selection = { from: map(selection.from), to: map(selection.to) };
+    }
+  };
+
+  const tr: Transaction = {
+    get doc() {
+      return { blocks };
+    },
+    get selection() {
+      return selection;
+    },
+    get docChanged() {
+      return docChanged;
+    },
+
+    replaceBlocks(from, to, next) {
+      blocks = [...blocks.slice(0, from), ...next, ...blocks.slice(to)];
+      docChanged = true;
+      const last = Math.max(blocks.length - 1, 0);
+      mapSelection((position) => {
+        if (position.block < from) return position;
+        if (position.block >= to) {
+          return {
+            ...position,
+            block: position.block + next.length - (to - from),
+          };
+        }
+        return { block: Math.min(from, last), offset: 0 };
+      });
+      return tr;
+    },
+
+    updateBlock(index, block) {
+      blocks = blocks.map((current, i) => (i === index ? block : current));
+      docChanged = true;
+      mapSelection((position) =>
+        position.block === index
+          ? {
+              ...position,
+              offset: Math.min(position.offset, blockLength(block)),
+            }
+          : position,
+      );
+      return tr;
+    },
+
+    setSelection(next) {
+      selection = next ? orderedSelection(next) : null;
+      return tr;
+    },
+
+    deleteSelection() {
+      if (!selection || isCollapsed(selection)) return tr;
+      const { from, to } = selection;
+      const first = blocks[from.block];
+      const last = blocks[to.block];
+      const tail = isTextBlock(last)
+        ? sliceInlines(last.children, to.offset)
+        : [];
+      let merged: Block[];
+      if (isTextBlock(first)) {
+        merged = [
+          withChildren(first, [
+            ...sliceInlines(first.children, 0, from.offset),
+            ...tail,
+          ]),
+        ];
+      } else {
+        merged = isTextBlock(last) ? [withChildren(last, tail)] : [];
+      }
+      tr.replaceBlocks(from.block, to.block + 1, merged);
+      selection = collapsedSelection(
+        isTextBlock(first) ? from : { block: from.block, offset: 0 },
+      );
+      return tr;
+    },
+
+    insertInline(nodes) {
+      tr.deleteSelection();
+      if (!selection) return tr;
+      const { block: index, offset } = selection.from;
+      const block = blocks[index];
+      if (!isTextBlock(block)) return tr;
+      tr.updateBlock(
+        index,
+        withChildren(block, insertInlines(block.children, offset, nodes)),
+      );
+      selection = collapsedSelection({
+        block: index,
+        offset: offset + inlineLength(nodes),
+      });
+      return tr;
+    },
+
+    insertText(text) {
+      if (!selection) return tr;
+      tr.deleteSelection();
+      const { block: index, offset } = selection.from;
+      const block = blocks[index];
+      if (!isTextBlock(block)) return tr;
+      const marks = marksAt(block.children, offset);
+      return tr.insertInline([{ type: "text", text, marks }]);
+    },
+
+    insertLineBreak() {
+      if (!selection) return tr;
+      tr.deleteSelection();
+      const { block: index, offset } = selection.from;
+      const block = blocks[index];
+      if (!isTextBlock(block)) return tr;
+      const marks = marksAt(block.children, offset);
+      // A break that ends its block shows no new line without a second one
+      const atEnd = offset === blockLength(block);
+      tr.insertInline([{ type: "lineBreak", marks }]);
+      if (atEnd) {
+        const current = blocks[index] as TextBlock;
+        tr.updateBlock(
+          index,
+          withChildren(
+            current,
+            insertInlines(current.children, offset + 1, [
+              { type: "lineBreak", marks },
+            ]),
+          ),
+        );
+        selection = collapsedSelection({ block: index, offset: offset + 1 });
+      }
+      return tr;
+    },
+
+    insertBlocks(next) {
+      if (!selection) return tr;
+      tr.deleteSelection();
+      const { block: index, offset } = selection.from;
+      const block = blocks[index];
+      let out: Block[];
+      let first: number;
+      if (isTextBlock(block)) {
+        const head = sliceInlines(block.children, 0, offset);
+        const tail = sliceInlines(block.children, offset);
+        // A break starting the tail would leave an empty line after the
+        // blocks, and a break left on its own only held the line open
+        if (tail[0]?.type === "lineBreak") tail.shift();
+        if (tail.length === 1 && tail[0].type === "lineBreak") tail.pop();
+        out = head.length > 0 ? [withChildren(block, head)] : [];
+        first = out.length;
+        out.push(...next);
+        if (tail.length > 0) {
+          const rest = withChildren(block, tail);
+          out.push(
+            rest.type === "listItem" ? { ...rest, startsList: true } : rest,
+          );
+        }
+      } else {
+        out = [block, ...next];
+        first = 1;
+      }
+      tr.replaceBlocks(index, index + 1, out);
+
+      let target: Position = {
+        block: Math.min(index + first + next.length, blocks.length - 1),
+        offset: 0,
+      };
+      for (let i = next.length - 1; i >= 0; i--) {
+        const inserted = next[i];
+        if (!isTextBlock(inserted)) continue;
+        // A trailing break only holds an empty line open
+        const last = inserted.children[inserted.children.length - 1];
+        const length = blockLength(inserted);
+        target = {
+          block: index + first + i,
+          offset: last?.type === "lineBreak" ? length - 1 : length,
+        };
+        break;
+      }
+      selection = collapsedSelection(target);
+      return tr;
+    },
+
+    toggleMark(type) {
+      if (!selection) return tr;
+      const { tags, create } = MARK_TYPES[type];
+      const hasMark = (leaf: LeafNode) =>
+        leaf.marks.some((mark) => tags.includes(mark));
+
+      if (isCollapsed(selection)) {
+        const block = blocks[selection.from.block];
+        if (!isTextBlock(block)) return tr;
+        const marks = marksAt(block.children, selection.from.offset);
+        const active = marks.some((mark) => tags.includes(mark));
+        return tr.insertInline([
+          {
+            type: "text",
+            text: ZERO_WIDTH_SPACE,
+            marks: active
+              ? marks.filter((mark) => !tags.includes(mark))
+              : [...marks, create],
+          },
+        ]);
+      }
+
+      const { from, to } = selection;
+      const ranges: Array<{ index: number; start: number; end: number }> = [];
+      for (let index = from.block; index <= to.block; index++) {
+        const block = blocks[index];
+        if (!isTextBlock(block)) continue;
+        const start = index === from.block ? from.offset : 0;
+        const end = index === to.block ? to.offset : blockLength(block);
+        if (start < end) ranges.push({ index, start, end });
+      }
+      const selected = ranges.flatMap(({ index, start, end }) =>
+        leaves(
+          sliceInlines((blocks[index] as TextBlock).children, start, end),
+        ).filter((leaf) => leaf.type === "text"),
+      );
+      if (selected.length === 0) return tr;
+      const active = selected.every(hasMark);
+
+      for (const { index, start, end } of ranges) {
+        const block = blocks[index] as TextBlock;
+        const children = mapLeaves(block.children, start, end, (leaf) => {
+          if (leaf.type !== "text") return leaf;
+          if (active) {
+            return {
+              ...leaf,
+              marks: leaf.marks.filter((mark) => !tags.includes(mark)),
+            };
+          }
+          return hasMark(leaf)
+            ? leaf
+            : { ...leaf, marks: [...leaf.marks, create] };
+        });
+        tr.updateBlock(index, withChildren(block, children));
+      }
+      return tr;
+    },
+
+    commit() {
+      return {
+        before: state,
+        after: { doc: { blocks }, selection },
+        docChanged,
+      };
+    },
+  };
+
+  return tr;
+}
@@ -0,0 +1,98 @@
+/**
+ * Connects editor states to a contentEditable element.
+ */
+
+import type { EditorState } from "./model";
+import { parseEditor, storedHtml } from "./parse";
+import { readSelection, writeSelection } from "./selection";
+import { serializeDocument } from "./serialize";
+import {
+  createTransaction,
+  type Commit,
+  type Transaction,
+} from "./transaction";
+
+export function readEditorState(editor: HTMLElement): EditorState {
+  const parsed = parseEditor(editor);
+  return { doc: parsed.doc, selection: readSelection(editor, parsed) };
+}
+
+function images(nodes: readonly Node[]): HTMLImageElement[] {
+  return nodes.flatMap((node) => {
+    if (node instanceof HTMLImageElement) return [node];
+    return node instanceof Element
+      ? Array.from(node.querySelectorAll("img"))
+      : [];
+  });
+}
+
+/**
+ * Make the editor show a state. Only the top-level nodes whose HTML
+ * changed are replaced, and images keep their element (and so their
+ * source and any pending upload) when their id is still there.
+ */
+export function renderEditorState(
+  editor: HTMLElement,
+  state: EditorState,
+): void {
+  const template = document.createElement("template");
+  template.innerHTML = serializeDocument(state.doc);
+  const current = Array.from(editor.childNodes);
+  const next = Array.from(template.content.childNodes);
+  const currentHtml = current.map(storedHtml);
+  const nextHtml = next.map(storedHtml);
+
+  let start = 0;
+  while (
+    start < current.length &&
+    start < next.length &&
+    currentHtml[start] === nextHtml[start]
+  ) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < current.length - start &&
+    end < next.length - start &&
+    currentHtml[current.length - 1 - end] === nextHtml[next.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const removed = current.slice(start, current.length - end);
+  const inserted = next.slice(start, next.length - end);
+  const anchor = current[current.length - end] ?? null;
+  const kept = new Map<string, HTMLImageElement[]>();
+  for (const img of images(removed)) {
+    const id = img.getAttribute("data-image-id");
+    if (id) kept.set(id, [...(kept.get(id) ?? []), img]);
+  }
+
+  removed.forEach((node) => editor.removeChild(node));
+  inserted.forEach((node) => editor.insertBefore(node, anchor));
+  for (const img of images(inserted)) {
+    const previous = kept.get(img.getAttribute("data-image-id") ?? "")?.shift();
+    if (previous) img.replaceWith(previous);
+  }
+
+  writeSelection(editor, state.selection);
+}
+
+/**
+ * Run an edit against the editor's current state and show the result.
+ * Returns null, without editing, when the selection isn't in the editor.
+ */
+export function dispatchTransaction(
+  editor: HTMLElement,
+  edit: (tr: Transaction) => Transaction,
+): Commit | null {
+  const state = readEditorState(editor);
+  if (!state.selection) return null;
+  const commit = edit(createTransaction(state)).commit();
+  if (commit.docChanged) {
+    renderEditorState(editor, commit.after);
+  } else {
+    writeSelection(editor, commit.after.selection);
+  }
+  return commit;
+}
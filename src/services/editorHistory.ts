@@ -0,0 +1,127 @@
+/**
+ * Editor History Service
+ * Undo/redo stacks for note content, one per journal and note date, kept
+ * in memory for the session so they outlive autosave re-renders and
+ * navigation.
+ * Snapshots hold stored note HTML and a document-model selection.
+ */
+
+import type { Selection } from "./editorDocument";
+
+export interface HistorySnapshot {
+  html: string;
+  selection: Selection | null;
+}
+
+/**
+ * How an edit joins the history:
+ * - "typing" merges into a directly preceding typing step
+ * - "edit" is always a step of its own (transforms, images, hotkeys)
+ * - "amend" folds into the current step (e.g. an upload finishing)
+ */
+export type HistoryStep = "typing" | "edit" | "amend";
+
+interface NoteHistory {
+  past: HistorySnapshot[];
+  present: HistorySnapshot;
+  future: HistorySnapshot[];
+  lastStep: HistoryStep;
+  lastRecordedAt: number;
+}
+
+const TYPING_MERGE_MS = 1000;
+const MAX_STEPS = 200;
+
+const histories = new Map<string, NoteHistory>();
+
+function createHistory(present: HistorySnapshot): NoteHistory {
+  return {
+    past: [],
+    present,
+    future: [],
+    lastStep: "edit",
+    lastRecordedAt: 0,
+  };
+}
+
+/**
+ * Record an edit that changed the note from `before` to `after`.
+ * When `before` isn't the history's current state the note changed outside
+ * of it (another tab or a sync), so it starts over there.
+ */
+export function recordEdit(
+  key: string,
+  before: string,
+  after: HistorySnapshot,
+  step: HistoryStep,
+  now = Date.now(),
+): void {
+  let history = histories.get(key);
+  if (!history || history.present.html !== before) {
+    history = createHistory({ html: before, selection: null });
+    histories.set(key, history);
+  }
+  if (after.html === history.present.html) {
+    history.present = after;
+    return;
+  }
+
+  const merges =
+    step === "amend" ||
+    (step === "typing" &&
+      history.lastStep === "typing" &&
+      now - history.lastRecordedAt < TYPING_MERGE_MS);
+  if (!merges) {
+    history.past.push(history.present);
+    if (history.past.length > MAX_STEPS) history.past.shift();
+    history.lastStep = step;
+  }
+  history.present = after;
+  history.future = [];
+  history.lastRecordedAt = now;
+}
+
+function travel(
+  key: string,
+  current: string,
+  from: "past" | "future",
+): HistorySnapshot | null {
+  const history = histories.get(key);
+  if (!history) return null;
+  if (history.present.html !== current) {
+    histories.delete(key);
+    return null;
+  }
+  const target = history[from].pop();
+  if (!target) return null;
+
+  const to = from === "past" ? "future" : "past";
+  history[to].push(history.present);
+  history.present = target;
+  // The next edit starts a new step instead of merging into the restored one
+  history.lastStep = "edit";
+  return target;
+}
+
+/**
+ * Step back one edit. `current` is the note as the editor shows it;
+ * returns the snapshot to restore, or null when there's nothing to undo.
+ */
+export function undo(key: string, current: string): HistorySnapshot | null {
+  return travel(key, current, "past");
+}
+
+/**
+ * Re-apply the last undone edit.
+ */
+export function redo(key: string, current: string): HistorySnapshot | null {
+  return travel(key, current, "future");
+}
+
+/**
+ * Drop all history. Snapshots hold decrypted note text, so nothing may
+ * stay in memory once the vault locks.
+ */
+export function clearEditorHistory(): void {
+  histories.clear();
+}
@@ -1,70 +1,52 @@
 /**
  * Editor Text Transform Service
- * Maps text patterns to transformations using execCommand.
- * Operates on text content (not keystrokes) and preserves cursor position.
+ * Maps text patterns to document model transactions.
+ * Operates on text content (not keystrokes); the caret is carried through
+ * each edit as a document position.
  */
 
-import {
-  saveCursorPosition,
-  restoreCursorPosition,
-  placeCursorAfterElement,
-} from "./cursor";
-import { TRANSFORMS, type TransformResult } from "./transforms";
+import { readEditorState, renderEditorState } from "../editorDocument";
+import { TRANSFORMS } from "./transforms";
 
-export type { TextTransform, TransformResult } from "./transforms";
-export type { CursorPosition } from "./cursor";
+export type { TextTransform } from "./transforms";
 
 export interface TransformOutput {
   hrTransformed: boolean;
   linkifyTransformed: boolean;
+  inputRuleTransformed: boolean;
 }
 
 /**
  * Apply all text transforms to the editor.
- * Preserves cursor position unless a transform explicitly moves it.
+ * The DOM is only touched when a transform applies.
  */
 export function applyTextTransforms(editor: HTMLElement): TransformOutput {
   const output: TransformOutput = {
     hrTransformed: false,
     linkifyTransformed: false,
+    inputRuleTransformed: false,
   };
 
-  let lastResult: TransformResult | null = null;
+  let state = readEditorState(editor);
+  let changed = false;
 
   for (const transform of TRANSFORMS) {
-    if (transform.shouldTransform(editor)) {
-      const result = transform.transform(editor);
-
-      if (result.transformed) {
-        lastResult = result;
-        if (transform.name === "hr") {
-          output.hrTransformed = true;
-        } else if (transform.name === "linkify") {
-          output.linkifyTransformed = true;
-        }
-      }
+    const tr = transform.transform(state);
+    if (!tr) continue;
+
+    state = tr.commit().after;
+    changed = true;
+    if (transform.name === "hr") {
+      output.hrTransformed = true;
+    } else if (transform.name === "linkify") {
+      output.linkifyTransformed = true;
+    } else if (transform.name === "inputRules") {
+      output.inputRuleTransformed = true;
     }
   }
 
-  // Only handle cursor restoration if a transform actually happened
-  // This prevents interfering with browser's own cursor management (e.g., after execCommand)
-  if (lastResult?.transformed) {
-    // Save cursor position before restoration attempts
-    const savedCursor = saveCursorPosition(editor);
-
-    if (
-      lastResult.cursorPlacement === "after-element" &&
-      lastResult.targetSelector
-    ) {
-      const targetElement = editor.querySelector(lastResult.targetSelector);
-      if (targetElement) {
-        placeCursorAfterElement(targetElement);
-      } else {
-        restoreCursorPosition(editor, savedCursor);
-      }
-    } else if (lastResult.cursorPlacement === "restore") {
-      restoreCursorPosition(editor, savedCursor);
-    }
+  if (changed) {
+    renderEditorState(editor, state);
   }
 
   return output;
@@ -74,5 +56,6 @@ export function applyTextTransforms(editor: HTMLElement): TransformOutput {
  * Check if any transforms would apply without actually applying them.
  */
 export function hasApplicableTransforms(editor: HTMLElement): boolean {
-  return TRANSFORMS.some((t) => t.shouldTransform(editor));
+  const state = readEditorState(editor);
+  return TRANSFORMS.some((t) => t.transform(state) !== null);
 }
@@ -4,75 +4,93 @@
  */
 
 import { findUrls, normalizeUrl } from "../../utils/linkify";
-import { applyFavicon } from "../../utils/linkFavicons";
+import { getFaviconKey } from "../../utils/linkFavicons";
 import {
-  findTextNodesMatching,
-  isInsideAnchor,
-  selectNodeAndExecCommand,
-  selectRangeAndExecCommand,
-} from "./dom";
+  collapsedSelection,
+  createTransaction,
+  inlineText,
+  isTextBlock,
+  lineBounds,
+  sliceInlines,
+  type Attrs,
+  type Block,
+  type EditorState,
+  type InlineNode,
+  type ParagraphBlock,
+  type Transaction,
+} from "../editorDocument";
 import { getTimestampLabel } from "../timestampLabel";
 
-const TIMESTAMP_ATTR = "data-timestamp";
-const TIMESTAMP_LABEL_ATTR = "data-label";
-
-// Only match URLs followed by whitespace (not end of string - user may still be typing)
-const URL_PATTERN = /(?:https?:\/\/|www\.)[^\s<>"']+(?=\s)/gi;
 const HR_PATTERN = /^\s*(---|—-)\s*$/;
 
-export interface TransformResult {
-  transformed: boolean;
-  cursorPlacement?: "after-element" | "restore";
-  targetSelector?: string;
-}
+// Markdown-style block markers, matched against everything typed before
+// the caret on a line once it ends in a space
+const INPUT_RULES: Array<{ pattern: RegExp; tag: string; task?: boolean }> = [
+  { pattern: /^[-*]$/, tag: "ul" },
+  { pattern: /^1\.$/, tag: "ol" },
+  { pattern: /^\[ ?\]$/, tag: "ul", task: true },
+  { pattern: /^#$/, tag: "h1" },
+  { pattern: /^##$/, tag: "h2" },
+  { pattern: /^###$/, tag: "h3" },
+  { pattern: /^>$/, tag: "blockquote" },
+];
 
 export interface TextTransform {
   name: string;
   description: string;
-  shouldTransform: (editor: HTMLElement) => boolean;
-  transform: (editor: HTMLElement) => TransformResult;
+  // The edit to make, or null when the transform doesn't apply
+  transform: (state: EditorState) => Transaction | null;
 }
 
-function addTimestampToHr(hr: HTMLHRElement): void {
-  const timestamp = new Date().toISOString();
-  hr.setAttribute(TIMESTAMP_ATTR, timestamp);
-
-  const label = getTimestampLabel(timestamp);
-  if (label) {
-    hr.setAttribute(TIMESTAMP_LABEL_ATTR, label);
-  }
-
-  hr.setAttribute("contenteditable", "false");
+// The line of a tagless paragraph or the start of a div/p the caret is on,
+// when the text typed on it so far is plain
+interface CaretLine {
+  index: number;
+  block: ParagraphBlock;
+  start: number;
+  end: number;
+  typed: string;
 }
 
-function findAndTimestampNewHr(editor: HTMLElement): void {
-  const selection = window.getSelection();
-  if (!selection || selection.rangeCount === 0) return;
-
-  const currentRange = selection.getRangeAt(0);
-  let searchNode: Node | null = currentRange.startContainer;
-
-  while (searchNode && searchNode !== editor) {
-    if (searchNode.nodeType === Node.ELEMENT_NODE) {
-      const element = searchNode as Element;
-      let sibling = element.previousSibling;
-      while (sibling) {
-        if (sibling.nodeName === "HR") {
-          addTimestampToHr(sibling as HTMLHRElement);
-          return;
-        }
-        sibling = sibling.previousSibling;
-      }
-    }
-    searchNode = searchNode.parentNode;
-  }
+function findCaretLine(state: EditorState): CaretLine | null {
+  const { selection } = state;
+  if (!selection) return null;
+  const { from, to } = selection;
+  if (from.block !== to.block || from.offset !== to.offset) return null;
+  const block = state.doc.blocks[from.block];
+  if (block?.type !== "paragraph") return null;
+
+  const { start, end } = lineBounds(block.children, from.offset);
+  // Inside a div or p only its first line counts
+  if (block.tag !== null && start !== 0) return null;
+  const typed = sliceInlines(block.children, start, from.offset);
+  if (typed.length !== 1) return null;
+  const [text] = typed;
+  if (text.type !== "text" || text.marks.length > 0) return null;
+  return { index: from.block, block, start, end, typed: text.text };
+}
 
-  // Fallback: find the last HR without timestamp
-  const hrs = editor.querySelectorAll(`hr:not([${TIMESTAMP_ATTR}])`);
-  if (hrs.length > 0) {
-    addTimestampToHr(hrs[hrs.length - 1] as HTMLHRElement);
-    return;
-  }
+/**
+ * Replace a line of a paragraph with blocks. A tagless paragraph keeps the
+ * lines around it as paragraphs of their own; a div or p is replaced whole.
+ * Returns the blocks and the index of the first replacement block in them.
+ */
+function replaceLine(
+  line: CaretLine,
+  blocks: (previous: Block | undefined) => Block[],
+  previous: Block | undefined,
+): { blocks: Block[]; first: number } {
+  const { block, start, end } = line;
+  if (block.tag !== null) return { blocks: blocks(previous), first: 0 };
+
+  const head = sliceInlines(block.children, 0, start);
+  // The break ending the line goes with it
+  const tail = sliceInlines(block.children, end + 1);
+  const out: Block[] = [];
+  if (head.length > 0) out.push({ ...block, children: head });
+  out.push(...blocks(out[out.length - 1] ?? previous));
+  if (tail.length > 0) out.push({ ...block, children: tail });
+  return { blocks: out, first: head.length > 0 ? 1 : 0 };
 }
 
 /**
@@ -82,64 +100,81 @@ export const hrTransform: TextTransform = {
   name: "hr",
   description: "Convert --- to horizontal rule",
 
-  shouldTransform(editor: HTMLElement): boolean {
-    const nodes = findTextNodesMatching(editor, HR_PATTERN);
-    return nodes.length > 0;
+  transform(state: EditorState): Transaction | null {
+    const line = findCaretLine(state);
+    // The caret ends the line and the line is nothing but the marker
+    if (!line || line.start + line.typed.length !== line.end) return null;
+    if (!HR_PATTERN.test(line.typed)) return null;
+    const length = inlineText(line.block.children).length;
+    if (line.block.tag !== null && line.end !== length) return null;
+
+    const timestamp = new Date().toISOString();
+    const divider: Block = {
+      type: "timestampDivider",
+      timestamp,
+      label: getTimestampLabel(timestamp) || null,
+    };
+    // Give the caret a line after the rule when nothing follows it
+    const following: Block[] =
+      line.end === length
+        ? [
+            {
+              type: "paragraph",
+              tag: line.block.tag,
+              children: [{ type: "lineBreak", marks: [] }],
+            },
+          ]
+        : [];
+    const { blocks, first } = replaceLine(
+      line,
+      () => [divider, ...following],
+      state.doc.blocks[line.index - 1],
+    );
+    return createTransaction(state)
+      .replaceBlocks(line.index, line.index + 1, blocks)
+      .setSelection(
+        collapsedSelection({ block: line.index + first + 1, offset: 0 }),
+      );
   },
+};
 
-  transform(editor: HTMLElement): TransformResult {
-    const nodes = findTextNodesMatching(editor, HR_PATTERN);
-
-    if (nodes.length === 0) {
-      return { transformed: false };
-    }
-
-    let lastInsertedElement: Element | null = null;
-    for (const textNode of nodes) {
-      selectNodeAndExecCommand(textNode, "insertHorizontalRule");
-      findAndTimestampNewHr(editor);
+function linkAttrs(url: string): Attrs {
+  const href = normalizeUrl(url);
+  const attrs: Attrs = {
+    href,
+    target: "_blank",
+    rel: "noopener noreferrer",
+  };
+  const favicon = getFaviconKey(href);
+  if (favicon) attrs["data-favicon"] = favicon;
+  return attrs;
+}
 
-      // Ensure there's a newline after the HR
-      const hrs = editor.querySelectorAll<HTMLHRElement>(
-        `hr[${TIMESTAMP_ATTR}]:last-of-type`,
-      );
-      if (hrs.length > 0) {
-        const hr = hrs[hrs.length - 1];
-        const nextSibling = hr.nextSibling;
-
-        // If there's no next sibling or it's another HR, add a line break
-        if (
-          !nextSibling ||
-          (nextSibling.nodeType === Node.ELEMENT_NODE &&
-            nextSibling.nodeName === "HR")
-        ) {
-          const br = document.createElement("br");
-          hr.parentNode?.insertBefore(br, nextSibling || null);
-          lastInsertedElement = br;
-        } else {
-          lastInsertedElement = hr;
-        }
-      }
+// The nodes with URLs outside links wrapped in links, or null if none
+function linkifyInlines(nodes: InlineNode[]): InlineNode[] | null {
+  let changed = false;
+  const out: InlineNode[] = [];
+  for (const node of nodes) {
+    const urls = node.type === "text" ? findUrls(node.text) : [];
+    if (node.type !== "text" || urls.length === 0) {
+      out.push(node);
+      continue;
     }
-
-    // Place cursor after the last inserted element (either br or hr)
-    if (lastInsertedElement) {
-      const selection = window.getSelection();
-      if (selection) {
-        const range = document.createRange();
-        range.setStartAfter(lastInsertedElement);
-        range.collapse(true);
-        selection.removeAllRanges();
-        selection.addRange(range);
-      }
+    changed = true;
+    let last = 0;
+    for (const { url, start, end } of urls) {
+      out.push({ ...node, text: node.text.slice(last, start) });
+      out.push({
+        type: "link",
+        attrs: linkAttrs(url),
+        children: [{ ...node, text: url }],
+      });
+      last = end;
     }
-
-    return {
-      transformed: true,
-      cursorPlacement: "restore", // We already placed the cursor above
-    };
-  },
-};
+    out.push({ ...node, text: node.text.slice(last) });
+  }
+  return changed ? out : null;
+}
 
 /**
  * Linkify Transform: Convert URLs followed by whitespace to anchor tags
@@ -148,88 +183,81 @@ export const linkifyTransform: TextTransform = {
   name: "linkify",
   description: "Convert URLs to links",
 
-  shouldTransform(editor: HTMLElement): boolean {
-    const pattern = new RegExp(URL_PATTERN.source, "gi");
-    const nodes = findTextNodesMatching(
-      editor,
-      pattern,
-      (node) => !isInsideAnchor(node),
-    );
-    return nodes.length > 0;
+  transform(state: EditorState): Transaction | null {
+    let tr: Transaction | null = null;
+    state.doc.blocks.forEach((block, index) => {
+      if (!isTextBlock(block)) return;
+      const children = linkifyInlines(block.children);
+      if (!children) return;
+      tr ??= createTransaction(state);
+      tr.updateBlock(index, { ...block, children });
+    });
+    return tr;
   },
+};
 
-  transform(editor: HTMLElement): TransformResult {
-    const pattern = new RegExp(URL_PATTERN.source, "gi");
-    const textNodes = findTextNodesMatching(
-      editor,
-      pattern,
-      (node) => !isInsideAnchor(node),
-    );
-
-    if (textNodes.length === 0) {
-      return { transformed: false };
-    }
-
-    const nodesToProcess: {
-      node: Text;
-      urls: Array<{ url: string; start: number; end: number }>;
-    }[] = [];
-
-    for (const node of textNodes) {
-      const text = node.textContent ?? "";
-      const urls = findUrls(text);
-      if (urls.length > 0) {
-        nodesToProcess.push({ node, urls });
-      }
-    }
-
-    if (nodesToProcess.length === 0) {
-      return { transformed: false };
-    }
-
-    const selection = window.getSelection();
-    if (!selection) {
-      return { transformed: false };
-    }
-    const savedRange =
-      selection.rangeCount > 0 ? selection.getRangeAt(0).cloneRange() : null;
-
-    // Process URLs in reverse order to maintain correct positions
-    for (const { node: textNode, urls } of nodesToProcess) {
-      for (let i = urls.length - 1; i >= 0; i--) {
-        const { url, start, end } = urls[i];
-        const normalizedUrl = normalizeUrl(url);
-
-        selectRangeAndExecCommand(
-          textNode,
-          start,
-          end,
-          "createLink",
-          normalizedUrl,
-        );
-
-        // Set target and rel attributes on the newly created link
-        const anchor = selection.anchorNode?.parentElement;
-        if (anchor?.tagName === "A") {
-          anchor.setAttribute("target", "_blank");
-          anchor.setAttribute("rel", "noopener noreferrer");
-          applyFavicon(anchor as HTMLAnchorElement);
-        }
-      }
-    }
-
-    if (savedRange) {
-      try {
-        selection.removeAllRanges();
-        selection.addRange(savedRange);
-      } catch {
-        // Ignore invalidated ranges and keep browser-managed caret position.
-      }
-    }
-
+function createRuleBlock(
+  rule: (typeof INPUT_RULES)[number],
+  children: InlineNode[],
+  previous: Block | undefined,
+): Block {
+  if (rule.tag === "ul" || rule.tag === "ol") {
+    const ordered = rule.tag === "ol";
     return {
-      transformed: true,
+      type: "listItem",
+      ordered,
+      task: rule.task ? "open" : null,
+      // Consecutive items join the list above
+      startsList: previous?.type !== "listItem" || previous.ordered !== ordered,
+      children,
     };
+  }
+  if (rule.tag === "blockquote") return { type: "quote", children };
+  return {
+    type: "heading",
+    level: Number(rule.tag[1]) as 1 | 2 | 3,
+    children,
+  };
+}
+
+/**
+ * Input Rules Transform: Turn a line starting with a markdown marker
+ * (`- `, `* `, `1. `, `[ ] `, `# `–`### `, `> `) into the matching block.
+ * Only plain top-level lines qualify: text already inside a list, heading,
+ * quote, link or section header is left alone.
+ */
+export const inputRulesTransform: TextTransform = {
+  name: "inputRules",
+  description: "Convert markdown line markers to lists, headings and quotes",
+
+  transform(state: EditorState): Transaction | null {
+    const line = findCaretLine(state);
+    if (!line) return null;
+    const typed = line.typed.replace(/\u00a0/g, " ");
+    if (!typed.endsWith(" ")) return null;
+    const rule = INPUT_RULES.find(({ pattern }) =>
+      pattern.test(typed.slice(0, -1)),
+    );
+    if (!rule) return null;
+
+    const markerEnd = line.start + typed.length;
+    const rest = sliceInlines(
+      line.block.children,
+      markerEnd,
+      line.block.tag === null ? line.end : undefined,
+    );
+    const children: InlineNode[] =
+      rest.length > 0 ? rest : [{ type: "lineBreak", marks: [] }];
+    const { blocks, first } = replaceLine(
+      line,
+      (previous) => [createRuleBlock(rule, children, previous)],
+      state.doc.blocks[line.index - 1],
+    );
+    return createTransaction(state)
+      .replaceBlocks(line.index, line.index + 1, blocks)
+      .setSelection(
+        collapsedSelection({ block: line.index + first, offset: 0 }),
+      );
   },
 };
 
@@ -237,4 +265,7 @@ export const linkifyTransform: TextTransform = {
  * Registry of all text transforms.
  * Order matters: transforms are applied in sequence.
  */
-export const TRANSFORMS: TextTransform[] = [linkifyTransform];
+export const TRANSFORMS: TextTransform[] = [
+  linkifyTransform,
+  inputRulesTransform,
+];
@@ -1,6 +1,7 @@
 import TurndownService from "turndown";
 import { zipSync, strToU8 } from "fflate";
 import type { NoteRepository } from "../storage/noteRepository";
+import type { ImageRepository } from "../storage/imageRepository";
 import type { LegacyDataSource } from "../storage/legacyMigration";
 import { decryptLegacyNotes } from "../storage/legacyMigration";
 import type { E2eeService } from "../domain/crypto/e2eeService";
@@ -13,11 +14,45 @@ export function dateToFilename(date: string): string {
   return `${yyyy}-${mm}-${dd}`;
 }
 
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/avif": "avif",
+  "image/heic": "heic",
+  "image/svg+xml": "svg",
+};
+
+/**
+ * Archive path for an exported image: `images/<YYYY-MM-DD>/<id>.<ext>`.
+ */
+export function imagePath(date: string, imageId: string, mimeType: string): string {
+  const ext = IMAGE_EXTENSIONS[mimeType] ?? mimeType.split("/")[1] ?? "bin";
+  return `images/${dateToFilename(date)}/${imageId}.${ext}`;
+}
+
+/**
+ * Inline image IDs referenced by a note, in document order.
+ */
+export function extractImageIds(html: string): string[] {
+  const ids = new Set<string>();
+  for (const match of html.matchAll(/<img\b[^>]*\bdata-image-id="([^"]+)"/gi)) {
+    ids.add(match[1]);
+  }
+  return Array.from(ids);
+}
+
 /**
  * Create a turndown instance with custom rules for
- * timestamp HRs and section labels.
+ * timestamp HRs, section labels and list items.
+ *
+ * Images found in `imagePaths` become `![alt](path)` references; any other
+ * image is kept as an `<!-- image: id -->` placeholder.
  */
-export function createTurndown(): TurndownService {
+export function createTurndown(
+  imagePaths?: ReadonlyMap<string, string>,
+): TurndownService {
   const td = new TurndownService({
     headingStyle: "atx",
     hr: "---",
@@ -52,6 +87,29 @@ export function createTurndown(): TurndownService {
     },
   });
 
+  // Single-space markers instead of turndown's padded ones, task items as
+  // `- [ ]` / `- [x]`, and no trailing line break from `<li>…<br></li>`
+  td.addRule("listItem", {
+    filter: "li",
+    replacement(content, node) {
+      const el = node as HTMLElement;
+      const parent = el.parentNode as HTMLElement | null;
+      let prefix = "- ";
+      if (parent?.nodeName === "OL") {
+        const start = Number(parent.getAttribute("start") ?? 1);
+        prefix = `${start + Array.from(parent.children).indexOf(el)}. `;
+      }
+      if (el.hasAttribute("data-task")) {
+        prefix += el.getAttribute("data-task") === "done" ? "[x] " : "[ ] ";
+      }
+      const body = content
+        .replace(/^\n+/, "")
+        .replace(/\s+$/, "")
+        .replace(/\n/gm, `\n${" ".repeat(prefix.length)}`);
+      return `${prefix}${body}${el.nextSibling ? "\n" : ""}`;
+    },
+  });
+
   td.addRule("imagePlaceholder", {
     filter(node) {
       return (
@@ -60,8 +118,12 @@ export function createTurndown(): TurndownService {
       );
     },
     replacement(_content, node) {
-      const id = (node as HTMLElement).getAttribute("data-image-id");
-      return `<!-- image: ${id} -->`;
+      const el = node as HTMLElement;
+      const id = el.getAttribute("data-image-id") ?? "";
+      const path = imagePaths?.get(id);
+      if (!path) return `<!-- image: ${id} -->`;
+      const alt = (el.getAttribute("alt") ?? "").replace(/([\\[\]])/g, "\\$1");
+      return `![${alt}](${path})`;
     },
   });
 
@@ -79,7 +141,7 @@ export function htmlToMarkdown(
 }
 
 export interface ExportProgress {
-  phase: "fetching" | "converting" | "zipping";
+  phase: "fetching" | "images" | "converting" | "zipping";
   current: number;
   total: number;
 }
@@ -112,11 +174,16 @@ export async function collectLegacyMarkdown(
  * merged in (repository data takes precedence for duplicate dates). This is
  * the recovery path for notes still sitting in the legacy IDB that for any
  * reason haven't been migrated into RxDB yet.
+ *
+ * When `imageRepository` is provided, inline images are decrypted and
+ * written to `images/<date>/<id>.<ext>` and the markdown links to them.
+ * Images that can't be read keep their `<!-- image: id -->` placeholder.
  */
 export async function exportNotesAsZip(
   repository: NoteRepository,
   onProgress?: (progress: ExportProgress) => void,
   legacyExtras?: Record<string, string>,
+  imageRepository?: ImageRepository | null,
 ): Promise<Blob | null> {
   const datesResult = await repository.getAllDates();
   if (!datesResult.ok) {
@@ -128,18 +195,43 @@ export async function exportNotesAsZip(
   const dates = datesResult.value;
   const total = dates.length;
   const files: Record<string, Uint8Array> = {};
-  const turndown = createTurndown();
+  const notes: { date: string; content: string }[] = [];
 
   for (let i = 0; i < dates.length; i++) {
     onProgress?.({ phase: "fetching", current: i + 1, total });
 
     const noteResult = await repository.get(dates[i]);
     if (!noteResult.ok || !noteResult.value) continue;
+    notes.push({ date: dates[i], content: noteResult.value.content });
+  }
+
+  const imagePaths = new Map<string, string>();
+  if (imageRepository) {
+    const images = notes.flatMap(({ date, content }) =>
+      extractImageIds(content).map((id) => ({ date, id })),
+    );
+    for (let i = 0; i < images.length; i++) {
+      onProgress?.({ phase: "images", current: i + 1, total: images.length });
+
+      const { date, id } = images[i];
+      if (imagePaths.has(id)) continue;
+      const blobResult = await imageRepository.get(id);
+      if (!blobResult.ok || !blobResult.value) continue;
+
+      const path = imagePath(date, id, blobResult.value.type);
+      files[path] = new Uint8Array(await blobResult.value.arrayBuffer());
+      imagePaths.set(id, path);
+    }
+  }
+
+  const turndown = createTurndown(imagePaths);
+  for (let i = 0; i < notes.length; i++) {
+    onProgress?.({ phase: "converting", current: i + 1, total: notes.length });
 
-    const md = htmlToMarkdown(noteResult.value.content, turndown);
+    const md = htmlToMarkdown(notes[i].content, turndown);
     if (!md) continue;
 
-    const filename = `${dateToFilename(dates[i])}.md`;
+    const filename = `${dateToFilename(notes[i].date)}.md`;
     files[filename] = strToU8(md);
   }
 
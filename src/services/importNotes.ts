@@ -0,0 +1,638 @@
+import { unzipSync, strFromU8 } from "fflate";
+import type { NoteRepository } from "../storage/noteRepository";
+import type { ImageRepository } from "../storage/imageRepository";
+import { createTurndown, htmlToMarkdown } from "./exportNotes";
+import {
+  dailyNoteDate,
+  isDayOneExport,
+  isJourneyEntry,
+  obsidianToMarkdown,
+  parseDayOneExport,
+  parseJourneyEntry,
+  type JournalEntry,
+} from "./journalImporters";
+import { sanitizeHtml } from "../utils/sanitize";
+import { parseDate } from "../utils/date";
+import {
+  assembleSegments,
+  parseNoteSegments,
+  type NoteSegment,
+} from "../utils/noteSegments";
+
+// A photo from the import source, referenced from `content` as
+// `<img data-image-id="<ref>">` until it is uploaded
+export interface ImportedPhoto {
+  ref: string;
+  blob: Blob;
+  filename: string;
+}
+
+export interface ImportedNote {
+  date: string; // DD-MM-YYYY
+  markdown: string;
+  content: string; // Sanitized editor HTML
+  photos?: ImportedPhoto[];
+}
+
+export interface ImportOptions {
+  // Daily-note filename format (Obsidian syntax). Defaults to the
+  // YYYY-MM-DD names written by exportNotesAsZip.
+  datePattern?: string;
+}
+
+export interface ImportSource {
+  notes: ImportedNote[];
+  // Paths that were neither daily notes, journal exports nor photos (or
+  // were empty)
+  skipped: string[];
+}
+
+export type ImportStatus = "new" | "identical" | "conflict";
+
+export interface ImportPlanEntry extends ImportedNote {
+  status: ImportStatus;
+  existingContent: string | null;
+}
+
+export type ConflictResolution = "skip" | "replace" | "append";
+
+export interface ImportProgress {
+  phase: "reading" | "comparing" | "writing";
+  current: number;
+  total: number;
+}
+
+export interface ImportSummary {
+  imported: number;
+  skipped: number;
+  failed: string[];
+}
+
+const SECTION_TYPE_RE = /^[a-z][a-z-]*$/;
+const TIME_COMMENT_RE = /^<!--\s*time:\s*(.*?)\s*-->$/;
+const IMAGE_COMMENT_RE = /<!--\s*image:\s*([\w-]+)\s*-->/g;
+// `![alt](images/<YYYY-MM-DD>/<id>.<ext>)` as written by exportNotesAsZip
+const EXPORTED_IMAGE_RE = /(?:^|\/)images\/\d{4}-\d{2}-\d{2}\/([\w-]+)\.\w+$/;
+const HR_RE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const HEADING_RE = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+/**
+ * Convert a YYYY-MM-DD.md path (as written by exportNotesAsZip) back to a
+ * DD-MM-YYYY note date. Returns null for anything else.
+ */
+export function filenameToDate(path: string): string | null {
+  return dailyNoteDate(path);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Turndown backslash-escapes markdown syntax characters in plain text.
+function unescapeMarkdown(text: string): string {
+  return text.replace(/\\([\\`*_{}[\]()#+\-.!>~|=])/g, "$1");
+}
+
+// Maps a markdown image source to an image ID, or null if unknown
+type ImageResolver = (src: string) => string | null;
+
+/**
+ * Convert one line of inline markdown to HTML. Covers what createTurndown
+ * emits for editor content: bold, italic, strikethrough, code, links and
+ * images. Exported image references map back to their image ID, others
+ * go through `resolveImage`; unresolved images are reduced to their alt
+ * text.
+ */
+function inlineToHtml(line: string, resolveImage?: ImageResolver): string {
+  const tokens: string[] = [];
+  const stash = (html: string) => {
+    tokens.push(html);
+    return `\uE000${tokens.length - 1}\uE000`;
+  };
+
+  let text = line
+    .replace(/`([^`]+)`/g, (_m, code: string) =>
+      stash(`<code>${escapeHtml(code)}</code>`),
+    )
+    .replace(IMAGE_COMMENT_RE, (_m, id: string) =>
+      stash(`<img data-image-id="${escapeHtml(id)}" alt="">`),
+    )
+    .replace(
+      /!\[((?:\\.|[^\]])*)\]\(([^)\s]+)\)/g,
+      (_m, alt: string, src: string) => {
+        const text = escapeHtml(unescapeMarkdown(alt));
+        const id = EXPORTED_IMAGE_RE.exec(src)?.[1] ?? resolveImage?.(src);
+        return stash(
+          id ? `<img data-image-id="${escapeHtml(id)}" alt="${text}">` : text,
+        );
+      },
+    )
+    .replace(
+      /(?<!\\)\[((?:\\.|[^\]])*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g,
+      (_m, label: string, href: string) =>
+        stash(
+          `<a href="${escapeHtml(href)}" target="_blank" rel="noopener noreferrer">${escapeHtml(unescapeMarkdown(label))}</a>`,
+        ),
+    );
+
+  text = escapeHtml(text)
+    .replace(/(?<!\\)(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, "<b>$2</b>")
+    .replace(/(?<![\\\w])([*_])(?=\S)(.+?)(?<=\S)\1(?!\w)/g, "<i>$2</i>")
+    .replace(/(?<!\\)~~(?=\S)(.+?)(?<=\S)~~/g, "<s>$1</s>");
+
+  return unescapeMarkdown(text).replace(
+    /\uE000(\d+)\uE000/g,
+    (_m, index: string) => tokens[Number(index)],
+  );
+}
+
+/**
+ * Parse a timestamp label ("8:06 AM", "20:15") into an ISO timestamp on
+ * the note's day. Falls back to local midnight when the label is missing
+ * or unreadable.
+ */
+function labelToTimestamp(date: string, label: string | null): string {
+  const day = parseDate(date) ?? new Date(0);
+  const match = label
+    ? /^(\d{1,2}):(\d{2})\s*(am|pm)?$/i.exec(label.trim())
+    : null;
+  if (match) {
+    let hours = Number(match[1]) % 24;
+    const meridiem = match[3]?.toLowerCase();
+    if (meridiem === "pm" && hours < 12) hours += 12;
+    if (meridiem === "am" && hours === 12) hours = 0;
+    day.setHours(hours, Number(match[2]), 0, 0);
+  }
+  return day.toISOString();
+}
+
+function timestampHr(date: string, label: string | null): string {
+  const labelAttr = label ? ` data-label="${escapeHtml(label)}"` : "";
+  return `<hr data-timestamp="${labelToTimestamp(date, label)}"${labelAttr} contenteditable="false">`;
+}
+
+function sectionSlug(heading: string): string {
+  return heading
+    .replace(/^\+/, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^[^a-z]+|-+$/g, "");
+}
+
+/**
+ * Convert exported markdown back into the HTML the editor produces:
+ * one `<div>` per line, `<hr data-timestamp data-label>` dividers rebuilt
+ * from `---` + `<!-- time: -->` pairs, and `## heading` lines turned into
+ * `data-section-type` headers. The result is sanitized.
+ */
+export function markdownToHtml(
+  markdown: string,
+  date: string,
+  resolveImage?: ImageResolver,
+): string {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const html: string[] = [];
+  let quote: string[] = [];
+
+  const flushQuote = () => {
+    if (quote.length === 0) return;
+    html.push(`<blockquote>${quote.join("<br>")}</blockquote>`);
+    quote = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith(">")) {
+      quote.push(inlineToHtml(trimmed.replace(/^>\s?/, ""), resolveImage));
+      continue;
+    }
+    flushQuote();
+
+    if (!trimmed) continue;
+
+    const timeComment = TIME_COMMENT_RE.exec(trimmed);
+    if (timeComment) {
+      html.push(timestampHr(date, timeComment[1] || null));
+      continue;
+    }
+
+    if (HR_RE.test(line)) {
+      const next = lines[i + 1]?.trim() ?? "";
+      const nextTime = TIME_COMMENT_RE.exec(next);
+      if (nextTime) {
+        html.push(timestampHr(date, nextTime[1] || null));
+        i++;
+      } else {
+        html.push("<hr>");
+      }
+      continue;
+    }
+
+    const heading = HEADING_RE.exec(trimmed);
+    if (heading) {
+      const level = heading[1].length;
+      const text = unescapeMarkdown(heading[2]);
+      const slug = sectionSlug(text);
+      if (level === 2 && SECTION_TYPE_RE.test(slug)) {
+        html.push(`<div data-section-type="${slug}">+${slug}</div>`);
+      } else {
+        html.push(`<h${level}>${inlineToHtml(heading[2], resolveImage)}</h${level}>`);
+      }
+      continue;
+    }
+
+    html.push(`<div>${inlineToHtml(trimmed, resolveImage)}</div>`);
+  }
+  flushQuote();
+
+  return sanitizeHtml(html.join(""));
+}
+
+/**
+ * Turn a `{ path → markdown }` map into importable notes. Later paths win
+ * when two files map to the same date.
+ */
+export function parseMarkdownFiles(
+  files: Record<string, string>,
+  options: ImportOptions & { resolveImage?: ImageResolver } = {},
+): ImportSource {
+  const byDate = new Map<string, ImportedNote>();
+  const skipped: string[] = [];
+
+  for (const [path, markdown] of Object.entries(files)) {
+    const date = dailyNoteDate(path, options.datePattern);
+    const trimmed = markdown.trim();
+    if (!date || !trimmed) {
+      skipped.push(path);
+      continue;
+    }
+    const content = markdownToHtml(trimmed, date, options.resolveImage);
+    if (!content) {
+      skipped.push(path);
+      continue;
+    }
+    byDate.set(date, { date, markdown: trimmed, content });
+  }
+
+  return { notes: sortByDate(Array.from(byDate.values())), skipped };
+}
+
+function sortByDate(notes: ImportedNote[]): ImportedNote[] {
+  return notes.sort((a, b) =>
+    a.date.split("-").reverse().join("").localeCompare(
+      b.date.split("-").reverse().join(""),
+    ),
+  );
+}
+
+function isZip(file: Blob & { name?: string }): boolean {
+  return (
+    file.type === "application/zip" ||
+    file.type === "application/x-zip-compressed" ||
+    /\.zip$/i.test(file.name ?? "")
+  );
+}
+
+async function readText(blob: Blob): Promise<string> {
+  return strFromU8(new Uint8Array(await blob.arrayBuffer()));
+}
+
+const PHOTO_MIME_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  heic: "image/heic",
+};
+
+function photoMimeType(path: string): string | null {
+  const extension = /\.(\w+)$/.exec(path)?.[1]?.toLowerCase() ?? "";
+  return PHOTO_MIME_TYPES[extension] ?? null;
+}
+
+function basename(path: string): string {
+  return path.slice(path.lastIndexOf("/") + 1);
+}
+
+/**
+ * Index the photos among the import files so markdown image sources,
+ * Obsidian embeds and Journey/Day One photo names can be resolved to
+ * `ImportedPhoto` refs. Sources match by path suffix first, then by
+ * file name anywhere in the import.
+ */
+function createPhotoLibrary(files: Map<string, Blob>) {
+  const paths = Array.from(files.keys()).filter((path) => photoMimeType(path));
+  const byName = new Map<string, string>();
+  for (const path of paths) {
+    const name = basename(path).toLowerCase();
+    if (!byName.has(name)) byName.set(name, path);
+  }
+  const photos = new Map<string, ImportedPhoto>();
+
+  const resolve: ImageResolver = (src) => {
+    let name = src;
+    try {
+      name = decodeURI(src);
+    } catch {
+      // Keep the raw source
+    }
+    name = name.replace(/^\.?\//, "");
+    const path =
+      paths.find((p) => p === name || p.endsWith(`/${name}`)) ??
+      byName.get(basename(name).toLowerCase());
+    if (!path) return null;
+
+    let photo = photos.get(path);
+    if (!photo) {
+      photo = {
+        ref: `import-${photos.size + 1}`,
+        blob: files.get(path)!,
+        filename: basename(path),
+      };
+      photos.set(path, photo);
+    }
+    return photo.ref;
+  };
+
+  const photosIn = (html: string): ImportedPhoto[] =>
+    Array.from(photos.values()).filter((photo) =>
+      html.includes(`data-image-id="${photo.ref}"`),
+    );
+
+  return { resolve, photosIn, has: (path: string) => paths.includes(path) };
+}
+
+function parseJournalJson(text: string): JournalEntry[] | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (isDayOneExport(value)) return parseDayOneExport(value);
+  const candidates = Array.isArray(value) ? value : [value];
+  if (!candidates.some(isJourneyEntry)) return null;
+  return candidates
+    .map(parseJourneyEntry)
+    .filter((entry): entry is JournalEntry => entry !== null);
+}
+
+function renderJournalEntry(
+  entry: JournalEntry,
+  resolveImage: ImageResolver,
+): string {
+  let html =
+    entry.format === "html"
+      ? sanitizeHtml(entry.text)
+      : markdownToHtml(entry.text, entry.date, resolveImage);
+  for (const photo of entry.photos) {
+    const ref = resolveImage(photo);
+    if (ref) html += `<div><img data-image-id="${escapeHtml(ref)}" alt=""></div>`;
+  }
+  return html;
+}
+
+/**
+ * Merge journal entries into the notes for their days. Each timed entry
+ * becomes a timestamped segment, ordered by time after any untimed
+ * content (such as a daily note for the same day).
+ */
+function mergeJournalEntries(
+  notes: ImportedNote[],
+  entries: JournalEntry[],
+  resolveImage: ImageResolver,
+): ImportedNote[] {
+  const segmentsByDate = new Map<string, NoteSegment[]>();
+  for (const note of notes) {
+    segmentsByDate.set(note.date, parseNoteSegments(note.content));
+  }
+  for (const entry of entries) {
+    const html = renderJournalEntry(entry, resolveImage);
+    if (!html) continue;
+    const segments = segmentsByDate.get(entry.date) ?? [];
+    segments.push({
+      id: entry.timestamp ?? "preamble",
+      timestamp: entry.timestamp,
+      label: entry.label,
+      html,
+    });
+    segmentsByDate.set(entry.date, segments);
+  }
+
+  const turndown = createTurndown();
+  const byDate = new Map(notes.map((note) => [note.date, note]));
+  const touched = new Set(entries.map((entry) => entry.date));
+  for (const [date, segments] of segmentsByDate) {
+    if (!touched.has(date)) continue;
+    const untimed = segments.filter((segment) => !segment.timestamp);
+    const timed = segments
+      .filter((segment) => segment.timestamp)
+      .sort((a, b) => Date.parse(a.timestamp!) - Date.parse(b.timestamp!));
+    const preamble: NoteSegment[] = untimed.length
+      ? [
+          {
+            id: "preamble",
+            timestamp: null,
+            label: null,
+            html: untimed.map((segment) => segment.html).join(""),
+          },
+        ]
+      : [];
+    const content = sanitizeHtml(assembleSegments([...preamble, ...timed]));
+    if (!content) continue;
+    byDate.set(date, {
+      date,
+      markdown: htmlToMarkdown(content, turndown),
+      content,
+    });
+  }
+  return Array.from(byDate.values());
+}
+
+/**
+ * Read import files: a zip produced by exportNotesAsZip, loose markdown
+ * files or a picked folder (Obsidian daily notes, matched by
+ * `datePattern`), a Day One JSON export, or a Journey JSON zip. Entries
+ * from the journal apps that fall on the same day are merged into
+ * timestamped segments; their photos are attached for upload. Files that
+ * are none of these are reported in `skipped` rather than failing the
+ * whole import.
+ */
+export async function readImportFiles(
+  files: Iterable<File>,
+  options: ImportOptions = {},
+): Promise<ImportSource> {
+  const entries = new Map<string, Blob>();
+  const skipped: string[] = [];
+
+  for (const file of files) {
+    const path = file.webkitRelativePath || file.name;
+    if (isZip(file)) {
+      const unzipped = unzipSync(new Uint8Array(await file.arrayBuffer()));
+      for (const [entryPath, data] of Object.entries(unzipped)) {
+        if (entryPath.endsWith("/") || entryPath.startsWith("__MACOSX/")) {
+          continue;
+        }
+        entries.set(
+          `${path}/${entryPath}`,
+          new Blob([new Uint8Array(data)], {
+            type: photoMimeType(entryPath) ?? "",
+          }),
+        );
+      }
+    } else {
+      entries.set(path, file);
+    }
+  }
+
+  const library = createPhotoLibrary(entries);
+  const markdown: Record<string, string> = {};
+  const journal: JournalEntry[] = [];
+
+  for (const [path, blob] of entries) {
+    if (/\.md$/i.test(path)) {
+      markdown[path] = obsidianToMarkdown(await readText(blob));
+    } else if (/\.json$/i.test(path)) {
+      const parsed = parseJournalJson(await readText(blob));
+      if (parsed) journal.push(...parsed);
+      else skipped.push(path);
+    } else if (!library.has(path)) {
+      skipped.push(path);
+    }
+  }
+
+  const parsed = parseMarkdownFiles(markdown, {
+    datePattern: options.datePattern,
+    resolveImage: library.resolve,
+  });
+  const notes = mergeJournalEntries(parsed.notes, journal, library.resolve)
+    .map((note) => {
+      const photos = library.photosIn(note.content);
+      return photos.length > 0 ? { ...note, photos } : note;
+    });
+
+  return {
+    notes: sortByDate(notes),
+    skipped: [...skipped, ...parsed.skipped],
+  };
+}
+
+/**
+ * Compare imported notes against the repository. A note is "identical"
+ * when the existing note exports to the same markdown, so re-importing an
+ * untouched export is a no-op.
+ */
+export async function planImport(
+  repository: NoteRepository,
+  notes: ImportedNote[],
+  onProgress?: (progress: ImportProgress) => void,
+): Promise<ImportPlanEntry[]> {
+  const turndown = createTurndown();
+  const plan: ImportPlanEntry[] = [];
+
+  for (let i = 0; i < notes.length; i++) {
+    onProgress?.({ phase: "comparing", current: i + 1, total: notes.length });
+    const note = notes[i];
+    const existing = await repository.get(note.date);
+    if (!existing.ok) {
+      throw new Error(
+        `Failed to read note ${note.date}: ${existing.error.type}`,
+      );
+    }
+
+    const existingContent = existing.value?.content ?? null;
+    const existingMarkdown = existingContent
+      ? htmlToMarkdown(existingContent, turndown)
+      : "";
+    let status: ImportStatus = "new";
+    if (existingMarkdown) {
+      status = existingMarkdown === note.markdown ? "identical" : "conflict";
+    }
+    plan.push({ ...note, status, existingContent });
+  }
+
+  return plan;
+}
+
+/**
+ * Upload an entry's photos and point its `<img>` refs at the new image
+ * IDs. Photos that can't be uploaded are dropped from the content.
+ */
+async function uploadPhotos(
+  imageRepository: ImageRepository | null | undefined,
+  date: string,
+  content: string,
+  photos: ImportedPhoto[],
+): Promise<string> {
+  let html = content;
+  for (const photo of photos) {
+    const uploaded = imageRepository
+      ? await imageRepository.upload(date, photo.blob, "inline", photo.filename)
+      : null;
+    const attr = `data-image-id="${photo.ref}"`;
+    html = uploaded?.ok
+      ? html.split(attr).join(`data-image-id="${uploaded.value.id}"`)
+      : html.replace(new RegExp(`<img[^>]*${attr}[^>]*>`, "g"), "");
+  }
+  return html;
+}
+
+/**
+ * Write a planned import through the repository. New notes are always
+ * written, identical ones skipped, and conflicts follow `resolutions`
+ * (default "skip"). "append" adds the imported note after the existing
+ * content so its timestamped segments are kept alongside the current ones.
+ * Attached photos are uploaded through `imageRepository` before the note
+ * is saved.
+ */
+export async function applyImport(
+  repository: NoteRepository,
+  plan: ImportPlanEntry[],
+  resolutions: Record<string, ConflictResolution>,
+  onProgress?: (progress: ImportProgress) => void,
+  imageRepository?: ImageRepository | null,
+): Promise<ImportSummary> {
+  const summary: ImportSummary = { imported: 0, skipped: 0, failed: [] };
+
+  for (let i = 0; i < plan.length; i++) {
+    onProgress?.({ phase: "writing", current: i + 1, total: plan.length });
+    const entry = plan[i];
+    const resolution: ConflictResolution =
+      entry.status === "new"
+        ? "replace"
+        : entry.status === "identical"
+          ? "skip"
+          : (resolutions[entry.date] ?? "skip");
+
+    if (resolution === "skip") {
+      summary.skipped++;
+      continue;
+    }
+
+    const existing = await repository.get(entry.date);
+    const current = existing.ok ? existing.value : null;
+    const imported = entry.photos?.length
+      ? await uploadPhotos(imageRepository, entry.date, entry.content, entry.photos)
+      : entry.content;
+    const content =
+      resolution === "append" && current
+        ? current.content + imported
+        : imported;
+
+    const result = await repository.save(entry.date, content, current?.weather);
+    if (result.ok) {
+      summary.imported++;
+    } else {
+      summary.failed.push(entry.date);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,233 @@
+import { parseDate } from "../utils/date";
+
+/**
+ * One entry from another journaling app, mapped onto an Ichinichi day.
+ * Several entries on the same day become timestamped segments of one note.
+ */
+export interface JournalEntry {
+  date: string; // DD-MM-YYYY
+  timestamp: string | null; // ISO; null for untimed entries (daily notes)
+  label: string | null; // Time label in the entry's own time zone
+  text: string;
+  format: "markdown" | "html";
+  // Attachment paths not referenced from `text`, appended after it
+  photos: string[];
+}
+
+export const DEFAULT_DAILY_NOTE_PATTERN = "YYYY-MM-DD";
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validTimeZone(timeZone: unknown): string | undefined {
+  if (typeof timeZone !== "string" || !timeZone) return undefined;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return timeZone;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Place an instant on the calendar of the time zone it was written in, so
+ * a late-night entry lands on the day the author saw. Falls back to the
+ * device's zone when the export doesn't name one.
+ */
+function zonedEntryTime(
+  instant: Date,
+  timeZone: string | undefined,
+): Pick<JournalEntry, "date" | "timestamp" | "label"> | null {
+  if (Number.isNaN(instant.getTime())) return null;
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? "";
+  return {
+    date: `${part("day")}-${part("month")}-${part("year")}`,
+    timestamp: instant.toISOString(),
+    label: instant.toLocaleTimeString("en-US", {
+      timeZone,
+      hour: "numeric",
+      minute: "2-digit",
+    }),
+  };
+}
+
+// Day One ---------------------------------------------------------------
+
+const DAY_ONE_MOMENT_RE = /!\[([^\]]*)\]\(dayone-moment:\/*(?:[\w-]+\/)?([\w-]+)\)/g;
+
+export function isDayOneExport(value: unknown): boolean {
+  return isObject(value) && Array.isArray(value.entries);
+}
+
+/**
+ * Map a Day One JSON export (`Journal.json` plus a `photos/` folder of
+ * `<md5>.<type>` files). Inline `dayone-moment://<identifier>` images are
+ * rewritten to their photo file; photos the text never mentions are
+ * appended to the entry.
+ */
+export function parseDayOneExport(value: unknown): JournalEntry[] {
+  if (!isDayOneExport(value)) return [];
+  const entries: JournalEntry[] = [];
+
+  for (const raw of (value as { entries: unknown[] }).entries) {
+    if (!isObject(raw) || typeof raw.creationDate !== "string") continue;
+    const time = zonedEntryTime(
+      new Date(raw.creationDate),
+      validTimeZone(raw.timeZone),
+    );
+    if (!time) continue;
+
+    const photoPaths = new Map<string, string>();
+    for (const photo of Array.isArray(raw.photos) ? raw.photos : []) {
+      if (
+        isObject(photo) &&
+        typeof photo.identifier === "string" &&
+        typeof photo.md5 === "string"
+      ) {
+        const type = typeof photo.type === "string" ? photo.type : "jpeg";
+        photoPaths.set(photo.identifier, `photos/${photo.md5}.${type}`);
+      }
+    }
+
+    const referenced = new Set<string>();
+    const text = (typeof raw.text === "string" ? raw.text : "").replace(
+      DAY_ONE_MOMENT_RE,
+      (_m, alt: string, identifier: string) => {
+        const path = photoPaths.get(identifier);
+        if (!path) return ""; // Videos, audio and missing moments
+        referenced.add(identifier);
+        return `![${alt}](${path})`;
+      },
+    );
+    const photos = Array.from(photoPaths)
+      .filter(([identifier]) => !referenced.has(identifier))
+      .map(([, path]) => path);
+
+    if (!text.trim() && photos.length === 0) continue;
+    entries.push({ ...time, text, format: "markdown", photos });
+  }
+
+  return entries;
+}
+
+// Journey ---------------------------------------------------------------
+
+export function isJourneyEntry(value: unknown): boolean {
+  return isObject(value) && typeof value.date_journal === "number";
+}
+
+/**
+ * Map one entry of a Journey JSON export (a zip of `<id>.json` files with
+ * the photos alongside). Newer exports store HTML (`type: "html"`), older
+ * ones markdown. Journey lists photos separately from the text.
+ */
+export function parseJourneyEntry(value: unknown): JournalEntry | null {
+  if (!isJourneyEntry(value)) return null;
+  const raw = value as JsonObject & { date_journal: number };
+  const time = zonedEntryTime(
+    new Date(raw.date_journal),
+    validTimeZone(raw.timezone),
+  );
+  if (!time) return null;
+
+  const text = typeof raw.text === "string" ? raw.text : "";
+  const photos = (Array.isArray(raw.photos) ? raw.photos : []).filter(
+    (photo): photo is string => typeof photo === "string" && photo !== "",
+  );
+  if (!text.trim() && photos.length === 0) return null;
+
+  return {
+    ...time,
+    text,
+    format: raw.type === "html" ? "html" : "markdown",
+    photos,
+  };
+}
+
+// Obsidian --------------------------------------------------------------
+
+const PATTERN_TOKENS: Record<string, { name: string; digits: string }> = {
+  YYYY: { name: "year", digits: "\\d{4}" },
+  MM: { name: "month", digits: "\\d{2}" },
+  M: { name: "month", digits: "\\d{1,2}" },
+  DD: { name: "day", digits: "\\d{2}" },
+  D: { name: "day", digits: "\\d{1,2}" },
+};
+const PATTERN_TOKEN_RE = /\[([^\]]*)\]|YYYY|MM|M|DD|D/g;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Compile a daily-note filename format (Obsidian's moment.js syntax; the
+ * YYYY, MM, M, DD and D tokens and `[literal]` text are supported) into a
+ * regex that matches the end of a `.md` path. A token that repeats, as
+ * in "YYYY/MM/YYYY-MM-DD", must match the same value each time.
+ */
+function dailyNoteRegex(pattern: string): RegExp {
+  const seen = new Set<string>();
+  let source = "";
+  let last = 0;
+  for (const match of pattern.matchAll(PATTERN_TOKEN_RE)) {
+    source += escapeRegExp(pattern.slice(last, match.index));
+    if (match[1] !== undefined) {
+      source += escapeRegExp(match[1]);
+    } else {
+      const { name, digits } = PATTERN_TOKENS[match[0]];
+      source += seen.has(name) ? `\\k<${name}>` : `(?<${name}>${digits})`;
+      seen.add(name);
+    }
+    last = match.index + match[0].length;
+  }
+  source += escapeRegExp(pattern.slice(last));
+  return new RegExp(`(?:^|/)${source}\\.md$`, "i");
+}
+
+/**
+ * Read the note date from a daily-note path using the vault's filename
+ * format, e.g. "Journal/2024/2024-03-16.md" with "YYYY-MM-DD". Returns
+ * DD-MM-YYYY, or null when the path doesn't match or isn't a real date.
+ */
+export function dailyNoteDate(
+  path: string,
+  pattern = DEFAULT_DAILY_NOTE_PATTERN,
+): string | null {
+  const groups = dailyNoteRegex(pattern).exec(path)?.groups;
+  if (!groups?.year || !groups.month || !groups.day) return null;
+  const date = `${groups.day.padStart(2, "0")}-${groups.month.padStart(2, "0")}-${groups.year}`;
+  return parseDate(date) ? date : null;
+}
+
+const FRONTMATTER_RE = /^---\r?\n(?:[\w-]+:.*\r?\n|[ \t].*\r?\n|\r?\n)*---\r?\n/;
+const WIKI_EMBED_RE = /!\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|([^\]]*))?\]\]/g;
+const WIKI_LINK_RE = /\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|([^\]]*))?\]\]/g;
+
+/**
+ * Normalize an Obsidian daily note to plain markdown: drop the YAML
+ * frontmatter, turn `![[photo.jpg]]` embeds into image links and
+ * `[[Note|alias]]` links into their text.
+ */
+export function obsidianToMarkdown(markdown: string): string {
+  return markdown
+    .replace(FRONTMATTER_RE, "")
+    .replace(WIKI_EMBED_RE, (_m, target: string, alt?: string) => {
+      const name = target.trim();
+      // Size hints like |300 aren't alt text
+      const label = alt && !/^\d+(x\d+)?$/.test(alt) ? alt : "";
+      return `![${label}](${encodeURI(name)})`;
+    })
+    .replace(WIKI_LINK_RE, (_m, target: string, alias?: string) =>
+      (alias ?? target).trim(),
+    );
+}
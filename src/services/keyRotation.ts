@@ -0,0 +1,656 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { E2eeService } from "../domain/crypto/e2eeService";
+import {
+  fetchUserKeyring,
+  saveUserKeyringEntry,
+  deleteUserKeyringEntry,
+  fetchRecoveryKeyring,
+} from "../storage/userKeyring";
+import type { UserKeyringEntry } from "../storage/userKeyring";
+import { computeKeyId } from "../storage/keyId";
+import { DEFAULT_KDF, toKdfFields } from "../storage/kdf";
+import {
+  deriveKEK,
+  generateDEK,
+  wrapDEK,
+  generateSalt,
+  storeDeviceWrappedDEK,
+} from "../storage/vault";
+import {
+  loadKeyRotationState,
+  saveKeyRotationState,
+  clearKeyRotationState,
+  type KeyRotationState,
+} from "../storage/keyRotationState";
+import { fetchDateIndexKeyId } from "../storage/userSettings";
+import {
+  fetchJournalKeyIds,
+  reencryptJournalNames,
+} from "../storage/journals";
+import {
+  createImageCryptoAdapter,
+  createSupabaseBucket,
+  decryptImageMeta,
+  encryptImageMeta,
+  imageBlobPath,
+  legacyImageBlobPath,
+  parseOrFallbackEncryptedBlob,
+  type StorageBucket,
+} from "../storage/rxdb/replication";
+import { reportError } from "../utils/errorReporter";
+
+export const KEY_ROTATION_INTERVAL_DAYS = 180;
+export const KEY_ROTATION_BATCH_SIZE = 25;
+// Sessions unlocked before a rotation keep encrypting with the older key
+// until they reload, so it isn't retired sooner than this
+export const KEY_RETIRE_GRACE_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface KeyRotationProgress {
+  phase: KeyRotationState["phase"];
+  // Records moved to the new key in this phase so far
+  done: number;
+  // Records that were still on an older key when the phase started
+  total: number;
+}
+
+export interface KeyRotationResult {
+  keyId: string;
+  moved: { notes: number; images: number };
+  // "note:<date>" / "image:<id>" that could not be re-encrypted
+  skipped: string[];
+  retired: string[];
+  // Older keys still referenced by some record; the next run retries them
+  kept: string[];
+  // Set while the older keys wait out the grace period
+  retireAfter: string | null;
+  complete: boolean;
+  // Recovery wrappings of retired keys are gone and the new key has none
+  recoveryPhraseOutdated: boolean;
+}
+
+export interface KeyUsage {
+  keyId: string;
+  createdAt: string | null;
+  isPrimary: boolean;
+  notes: number;
+  images: number;
+}
+
+interface NoteRow {
+  id: string;
+  date: string;
+  key_id: string;
+  ciphertext: string;
+  nonce: string;
+}
+
+interface ImageRow {
+  id: string;
+  note_date: string;
+  mime_type: string;
+  key_id: string;
+  nonce: string;
+  meta: string | null;
+}
+
+/**
+ * Whether the primary key is older than the rotation interval. Entries
+ * without a creation time (never read back from the server) never are.
+ */
+export function isKeyRotationDue(
+  entries: UserKeyringEntry[],
+  now: Date = new Date(),
+  intervalDays: number = KEY_ROTATION_INTERVAL_DAYS,
+): boolean {
+  const primary = entries.find((entry) => entry.isPrimary);
+  if (!primary?.createdAt) return false;
+  const created = new Date(primary.createdAt).getTime();
+  if (Number.isNaN(created)) return false;
+  return now.getTime() - created >= intervalDays * DAY_MS;
+}
+
+export function getPendingKeyRotation(userId: string): KeyRotationState | null {
+  return loadKeyRotationState(userId);
+}
+
+/**
+ * Creates a new primary DEK, wraps it with the password and demotes the
+ * previous primary. Records are moved onto the new key afterwards by
+ * `continueKeyRotation`; until then both keys stay in the keyring.
+ */
+export async function startKeyRotation(options: {
+  supabase: SupabaseClient;
+  userId: string;
+  password: string;
+}): Promise<{ keyId: string; key: CryptoKey; state: KeyRotationState }> {
+  const { supabase, userId, password } = options;
+
+  const key = await generateDEK();
+  const keyId = await computeKeyId(key);
+  const salt = generateSalt();
+  const kek = await deriveKEK(password, salt, DEFAULT_KDF);
+  const wrapped = await wrapDEK(key, kek);
+
+  // Saved before the keyring changes: if the upload fails half way, the
+  // next resume finds the new key missing and discards this state.
+  const state = beginReencryption(userId, keyId);
+
+  await saveUserKeyringEntry(supabase, userId, {
+    keyId,
+    wrappedDek: wrapped.data,
+    dekIv: wrapped.iv,
+    kdfSalt: salt,
+    ...toKdfFields(DEFAULT_KDF),
+    version: 1,
+    isPrimary: true,
+  });
+  await demoteOtherPrimaries(supabase, userId, keyId);
+  await storeDeviceWrappedDEK(key);
+
+  return { keyId, key, state };
+}
+
+/**
+ * Creates a DEK for one journal's notes, wrapped with the password like
+ * the other keyring entries. It never becomes primary and rotations leave
+ * its records alone.
+ */
+export async function createJournalKey(options: {
+  supabase: SupabaseClient;
+  userId: string;
+  password: string;
+}): Promise<{ keyId: string; key: CryptoKey }> {
+  const { supabase, userId, password } = options;
+
+  const key = await generateDEK();
+  const keyId = await computeKeyId(key);
+  const salt = generateSalt();
+  const kek = await deriveKEK(password, salt, DEFAULT_KDF);
+  const wrapped = await wrapDEK(key, kek);
+
+  await saveUserKeyringEntry(supabase, userId, {
+    keyId,
+    wrappedDek: wrapped.data,
+    dekIv: wrapped.iv,
+    kdfSalt: salt,
+    ...toKdfFields(DEFAULT_KDF),
+    version: 1,
+    isPrimary: false,
+  });
+
+  return { keyId, key };
+}
+
+/**
+ * Records a pending rotation onto `keyId`, an existing key, so the next
+ * `continueKeyRotation` moves every record to it.
+ */
+export function beginReencryption(
+  userId: string,
+  keyId: string,
+): KeyRotationState {
+  const state: KeyRotationState = {
+    userId,
+    targetKeyId: keyId,
+    phase: "notes",
+    cursor: null,
+    startedAt: new Date().toISOString(),
+  };
+  saveKeyRotationState(state);
+  return state;
+}
+
+async function demoteOtherPrimaries(
+  supabase: SupabaseClient,
+  userId: string,
+  keyId: string,
+  entries?: UserKeyringEntry[],
+): Promise<void> {
+  const current = entries ?? (await fetchUserKeyring(supabase, userId));
+  for (const entry of current) {
+    if (entry.keyId === keyId || !entry.isPrimary) continue;
+    await saveUserKeyringEntry(supabase, userId, { ...entry, isPrimary: false });
+  }
+}
+
+/**
+ * Moves notes and image blobs onto the rotation's new key in batches,
+ * then retires older keys no record references any more.
+ *
+ * Progress is saved after every batch, so a reload resumes where it left
+ * off. Writes are conditional on the row's nonce: a row edited in the
+ * meantime is left to its writer and picked up by a later run. When some
+ * record could not be moved the rotation stays pending and the next call
+ * starts a fresh pass.
+ *
+ * Older keys are retired only `KEY_RETIRE_GRACE_DAYS` after the rotation
+ * started; until then the rotation stays pending in its retire phase.
+ * Rows other sessions wrote with an older key in the meantime keep that
+ * key and start a fresh pass.
+ *
+ * `e2ee` must be able to decrypt with the older keys and encrypt with the
+ * new one.
+ */
+export async function continueKeyRotation(options: {
+  supabase: SupabaseClient;
+  userId: string;
+  e2ee: E2eeService;
+  state: KeyRotationState;
+  batchSize?: number;
+  onProgress?: (progress: KeyRotationProgress) => void;
+  signal?: AbortSignal;
+  now?: Date;
+}): Promise<KeyRotationResult | null> {
+  const {
+    supabase,
+    userId,
+    e2ee,
+    batchSize = KEY_ROTATION_BATCH_SIZE,
+    onProgress,
+    signal,
+    now = new Date(),
+  } = options;
+  let state = options.state;
+  const target = state.targetKeyId;
+
+  const entries = await fetchUserKeyring(supabase, userId);
+  if (!entries.some((entry) => entry.keyId === target)) {
+    // The new key never made it to the server; nothing references it
+    clearKeyRotationState();
+    return null;
+  }
+  await demoteOtherPrimaries(supabase, userId, target, entries);
+
+  const result: KeyRotationResult = {
+    keyId: target,
+    moved: { notes: 0, images: 0 },
+    skipped: [],
+    retired: [],
+    kept: [],
+    retireAfter: null,
+    complete: false,
+    recoveryPhraseOutdated: false,
+  };
+
+  const checkpoint = (next: Partial<KeyRotationState>) => {
+    state = { ...state, ...next };
+    saveKeyRotationState(state);
+  };
+
+  // Journals with a key of their own keep it
+  const journalKeys = await fetchJournalKeyIds(supabase, userId);
+  const keep = [target, ...journalKeys.noteKeys.filter((keyId) => keyId !== target)];
+
+  if (state.phase === "notes") {
+    const total = await countRows(supabase, "notes", userId, { neq: keep });
+    let done = 0;
+    onProgress?.({ phase: "notes", done, total });
+    for (;;) {
+      if (signal?.aborted) return result;
+      const rows = await fetchNoteBatch(supabase, userId, keep, state.cursor, batchSize);
+      if (rows.length === 0) break;
+      const moved = await Promise.all(
+        rows.map((row) => moveNote(supabase, userId, e2ee, target, row)),
+      );
+      moved.forEach((ok, i) => {
+        if (ok) done++;
+        else result.skipped.push(`note:${rows[i].date}`);
+      });
+      result.moved.notes = done;
+      checkpoint({ cursor: rows[rows.length - 1].id });
+      onProgress?.({ phase: "notes", done, total: Math.max(total, done) });
+    }
+    checkpoint({ phase: "images", cursor: null });
+  }
+
+  if (state.phase === "images") {
+    const bucket = createSupabaseBucket(supabase);
+    const total = await countRows(supabase, "note_images", userId, { neq: keep });
+    let done = 0;
+    onProgress?.({ phase: "images", done, total });
+    for (;;) {
+      if (signal?.aborted) return result;
+      const rows = await fetchImageBatch(supabase, userId, keep, state.cursor, batchSize);
+      if (rows.length === 0) break;
+      const moved = await Promise.all(
+        rows.map((row) => moveImage(supabase, bucket, userId, e2ee, target, row)),
+      );
+      moved.forEach((ok, i) => {
+        if (ok) done++;
+        else result.skipped.push(`image:${rows[i].id}`);
+      });
+      result.moved.images = done;
+      checkpoint({ cursor: rows[rows.length - 1].id });
+      onProgress?.({ phase: "images", done, total: Math.max(total, done) });
+    }
+    checkpoint({ phase: "retire", cursor: null });
+  }
+
+  if (signal?.aborted) return result;
+  const retireAt = new Date(state.startedAt).getTime() + KEY_RETIRE_GRACE_DAYS * DAY_MS;
+  if (now.getTime() < retireAt) {
+    result.retireAfter = new Date(retireAt).toISOString();
+    return result;
+  }
+  onProgress?.({ phase: "retire", done: 0, total: 0 });
+
+  const recoveryEntries = await fetchRecoveryKeyring(supabase, userId);
+  // Private note dates are keyed by a hash derived from this key
+  const indexKeyId = await fetchDateIndexKeyId(supabase, userId);
+  // Journal names follow the primary key
+  const namesLeft = await reencryptJournalNames(supabase, userId, e2ee, target);
+  for (const entry of entries) {
+    if (entry.keyId === target || entry.keyId === indexKeyId) continue;
+    if (journalKeys.noteKeys.includes(entry.keyId)) continue;
+    const { notes, images } = await countKeyRecords(supabase, userId, entry.keyId);
+    if (notes > 0 || images > 0 || namesLeft.includes(entry.keyId)) {
+      result.kept.push(entry.keyId);
+      continue;
+    }
+    await deleteUserKeyringEntry(supabase, userId, entry.keyId);
+    result.retired.push(entry.keyId);
+  }
+
+  if (result.retired.length) {
+    const { removeLocalWrappedKeys } = await import("../storage/localKeyring");
+    removeLocalWrappedKeys(result.retired);
+  }
+
+  result.recoveryPhraseOutdated =
+    recoveryEntries.length > 0 &&
+    !recoveryEntries.some((entry) => entry.keyId === target);
+
+  if (result.kept.length) {
+    // Start over with a fresh pass next time
+    checkpoint({ phase: "notes", cursor: null });
+  } else {
+    result.complete = true;
+    clearKeyRotationState();
+  }
+  return result;
+}
+
+/**
+ * Makes an existing key the primary one and queues moving every record
+ * onto it. The key must be unlocked in this session for the move to run.
+ */
+export async function promoteKey(options: {
+  supabase: SupabaseClient;
+  userId: string;
+  keyId: string;
+}): Promise<KeyRotationState> {
+  const { supabase, userId, keyId } = options;
+  const entries = await fetchUserKeyring(supabase, userId);
+  const entry = entries.find((candidate) => candidate.keyId === keyId);
+  if (!entry) throw new Error("That key is no longer in your keyring.");
+  if (!entry.isPrimary) {
+    await saveUserKeyringEntry(supabase, userId, { ...entry, isPrimary: true });
+  }
+  await demoteOtherPrimaries(supabase, userId, keyId, entries);
+  return beginReencryption(userId, keyId);
+}
+
+/**
+ * Deletes a key no record uses any more, with its recovery and passkey
+ * wrappings and this device's copy. Refuses the primary key, the target
+ * of a pending rotation and keys that notes or images still reference,
+ * since those would become unreadable everywhere.
+ */
+export async function deleteUnusedKey(options: {
+  supabase: SupabaseClient;
+  userId: string;
+  keyId: string;
+}): Promise<void> {
+  const { supabase, userId, keyId } = options;
+  const entries = await fetchUserKeyring(supabase, userId);
+  const entry = entries.find((candidate) => candidate.keyId === keyId);
+  if (!entry) throw new Error("That key is no longer in your keyring.");
+  if (entry.isPrimary) {
+    throw new Error(
+      "The primary key can't be deleted. Make another key primary first.",
+    );
+  }
+  if (loadKeyRotationState(userId)?.targetKeyId === keyId) {
+    throw new Error("Notes are still being moved to this key.");
+  }
+  if ((await fetchDateIndexKeyId(supabase, userId)) === keyId) {
+    throw new Error(
+      "This key hides your note dates. Turn off private dates first.",
+    );
+  }
+  const journalKeys = await fetchJournalKeyIds(supabase, userId);
+  if (journalKeys.noteKeys.includes(keyId)) {
+    throw new Error("A journal uses this key. Delete the journal first.");
+  }
+  if (journalKeys.nameKeys.includes(keyId)) {
+    throw new Error(
+      "A journal name is still encrypted with this key. Re-encrypt with the primary key first.",
+    );
+  }
+  const { notes, images } = await countKeyRecords(supabase, userId, keyId);
+  if (notes > 0 || images > 0) {
+    throw new Error(
+      `${formatCount(notes, "note")} and ${formatCount(images, "image")} still use this key. Re-encrypt them first.`,
+    );
+  }
+  await deleteUserKeyringEntry(supabase, userId, keyId);
+  const { removeLocalWrappedKeys } = await import("../storage/localKeyring");
+  removeLocalWrappedKeys([keyId]);
+}
+
+function formatCount(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Password-wrapped keys with how many notes and images each one
+ * encrypts, primary first, then newest first.
+ */
+export async function listKeyUsage(options: {
+  supabase: SupabaseClient;
+  userId: string;
+}): Promise<KeyUsage[]> {
+  const { supabase, userId } = options;
+  const entries = await fetchUserKeyring(supabase, userId);
+  const usage = await Promise.all(
+    entries.map(async (entry) => ({
+      keyId: entry.keyId,
+      createdAt: entry.createdAt ?? null,
+      isPrimary: entry.isPrimary,
+      ...(await countKeyRecords(supabase, userId, entry.keyId)),
+    })),
+  );
+  return usage.sort(
+    (a, b) =>
+      Number(b.isPrimary) - Number(a.isPrimary) ||
+      (b.createdAt ?? "").localeCompare(a.createdAt ?? ""),
+  );
+}
+
+async function countKeyRecords(
+  supabase: SupabaseClient,
+  userId: string,
+  keyId: string,
+): Promise<{ notes: number; images: number }> {
+  const [notes, images] = await Promise.all([
+    countRows(supabase, "notes", userId, { eq: keyId }),
+    countRows(supabase, "note_images", userId, { eq: keyId }),
+  ]);
+  return { notes, images };
+}
+
+async function countRows(
+  supabase: SupabaseClient,
+  table: "notes" | "note_images",
+  userId: string,
+  keyFilter: { eq: string } | { neq: string[] },
+): Promise<number> {
+  let query = supabase
+    .from(table)
+    .select("key_id", { count: "exact", head: true })
+    .eq("user_id", userId);
+  if ("eq" in keyFilter) {
+    query = query.eq("key_id", keyFilter.eq);
+  } else {
+    for (const keyId of keyFilter.neq) query = query.neq("key_id", keyId);
+  }
+  const { count, error } = await query;
+  if (error) throw error;
+  return count ?? 0;
+}
+
+// Dates repeat across journals, so batches page by row id
+async function fetchNoteBatch(
+  supabase: SupabaseClient,
+  userId: string,
+  keep: string[],
+  cursor: string | null,
+  limit: number,
+): Promise<NoteRow[]> {
+  let query = supabase
+    .from("notes")
+    .select("id, date, key_id, ciphertext, nonce")
+    .eq("user_id", userId);
+  for (const keyId of keep) query = query.neq("key_id", keyId);
+  if (cursor) query = query.gt("id", cursor);
+  const { data, error } = await query.order("id").limit(limit);
+  if (error) throw error;
+  return (data ?? []) as NoteRow[];
+}
+
+async function fetchImageBatch(
+  supabase: SupabaseClient,
+  userId: string,
+  keep: string[],
+  cursor: string | null,
+  limit: number,
+): Promise<ImageRow[]> {
+  let query = supabase
+    .from("note_images")
+    .select("id, note_date, mime_type, key_id, nonce, meta")
+    .eq("user_id", userId);
+  for (const keyId of keep) query = query.neq("key_id", keyId);
+  if (cursor) query = query.gt("id", cursor);
+  const { data, error } = await query.order("id").limit(limit);
+  if (error) throw error;
+  return (data ?? []) as ImageRow[];
+}
+
+async function moveNote(
+  supabase: SupabaseClient,
+  userId: string,
+  e2ee: E2eeService,
+  target: string,
+  row: NoteRow,
+): Promise<boolean> {
+  try {
+    // The full payload, so weather survives the move
+    const payload = await e2ee.decryptNoteRecord({
+      keyId: row.key_id,
+      ciphertext: row.ciphertext,
+      nonce: row.nonce,
+    });
+    if (!payload) return false;
+    const encrypted = await e2ee.encryptNoteContent(payload, target);
+    if (!encrypted) return false;
+
+    // updated_at is left alone: the content didn't change, and clients
+    // compare on it when pushing their own edits
+    const { data, error } = await supabase
+      .from("notes")
+      .update({
+        key_id: encrypted.keyId,
+        ciphertext: encrypted.ciphertext,
+        nonce: encrypted.nonce,
+      })
+      .eq("user_id", userId)
+      .eq("id", row.id)
+      .eq("nonce", row.nonce)
+      .select("id");
+    if (error) throw error;
+    return (data ?? []).length > 0;
+  } catch (error) {
+    reportError("keyRotation.moveNote", error);
+    return false;
+  }
+}
+
+async function moveImage(
+  supabase: SupabaseClient,
+  bucket: StorageBucket,
+  userId: string,
+  e2ee: E2eeService,
+  target: string,
+  row: ImageRow,
+): Promise<boolean> {
+  try {
+    const path = imageBlobPath(userId, row.note_date, row.id);
+    const legacyPath = legacyImageBlobPath(userId, row.id);
+    let fromLegacy = false;
+    let download = await bucket.download(path);
+    if (!download.ok) {
+      download = await bucket.download(legacyPath);
+      fromLegacy = true;
+    }
+    if (!download.ok) return false;
+
+    const record = await parseOrFallbackEncryptedBlob(download.value, row.key_id, row.nonce);
+    if (!record) return false;
+    // The envelope names its own key: an earlier attempt may have uploaded
+    // the blob but failed to update the row
+    const blob = await e2ee.decryptImageRecord(
+      { keyId: record.keyId ?? row.key_id, ciphertext: record.ciphertext, nonce: record.nonce },
+      row.mime_type,
+    );
+    if (!blob) return false;
+    const encrypted = await e2ee.encryptImageBlob(blob, target);
+    if (!encrypted) return false;
+
+    // The encrypted note date of a tagged row moves along
+    let meta = row.meta;
+    if (meta) {
+      const imageCrypto = createImageCryptoAdapter(e2ee);
+      const noteDate = await decryptImageMeta(imageCrypto, meta);
+      if (!noteDate) return false;
+      meta = await encryptImageMeta(imageCrypto, noteDate, target);
+    }
+
+    // Uploaded before the row changes, so the row never names a key that
+    // hasn't encrypted the blob and the older key isn't retired too early
+    const upload = await bucket.upload(
+      path,
+      new Blob([JSON.stringify(encrypted.record)], {
+        type: "application/octet-stream",
+      }),
+    );
+    if (!upload.ok) return false;
+
+    const { data, error } = await supabase
+      .from("note_images")
+      .update({
+        key_id: encrypted.keyId,
+        nonce: encrypted.record.nonce,
+        sha256: encrypted.sha256,
+        meta,
+      })
+      .eq("user_id", userId)
+      .eq("id", row.id)
+      .eq("nonce", row.nonce)
+      .select("id");
+    if (error) throw error;
+    if ((data ?? []).length === 0) return false;
+
+    if (fromLegacy) {
+      const { error: removeError } = await supabase.storage
+        .from("note-images")
+        .remove([legacyPath]);
+      if (removeError) reportError("keyRotation.moveImage.removeLegacy", removeError);
+    }
+    return true;
+  } catch (error) {
+    reportError("keyRotation.moveImage", error);
+    return false;
+  }
+}
@@ -0,0 +1,46 @@
+import { AUTO_LOCK_KEY, LOCK_SKIP_DEVICE_KEY } from "../utils/constants";
+
+export const AUTO_LOCK_OPTIONS = [5, 15, 60] as const;
+
+export type AutoLockMinutes = (typeof AUTO_LOCK_OPTIONS)[number];
+
+function isAutoLockMinutes(value: number): value is AutoLockMinutes {
+  return (AUTO_LOCK_OPTIONS as readonly number[]).includes(value);
+}
+
+/**
+ * Minutes of inactivity before the vault locks itself, or null when it
+ * stays unlocked for the whole session.
+ */
+export function getAutoLockMinutes(): AutoLockMinutes | null {
+  if (typeof window === "undefined") return null;
+  const value = Number(localStorage.getItem(AUTO_LOCK_KEY));
+  return isAutoLockMinutes(value) ? value : null;
+}
+
+export function setAutoLockMinutes(minutes: AutoLockMinutes | null): void {
+  if (typeof window === "undefined") return;
+  if (minutes === null) {
+    localStorage.removeItem(AUTO_LOCK_KEY);
+  } else {
+    localStorage.setItem(AUTO_LOCK_KEY, String(minutes));
+  }
+}
+
+/**
+ * Whether locking should also turn off unlocking with the device key, so
+ * only a password or passkey opens the vault again.
+ */
+export function getSkipDeviceUnlockPreference(): boolean {
+  if (typeof window === "undefined") return false;
+  return localStorage.getItem(LOCK_SKIP_DEVICE_KEY) === "1";
+}
+
+export function setSkipDeviceUnlockPreference(skip: boolean): void {
+  if (typeof window === "undefined") return;
+  if (skip) {
+    localStorage.setItem(LOCK_SKIP_DEVICE_KEY, "1");
+  } else {
+    localStorage.removeItem(LOCK_SKIP_DEVICE_KEY);
+  }
+}
@@ -0,0 +1,377 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { E2eeService } from "../domain/crypto/e2eeService";
+import {
+  createDateIndex,
+  DATE_TAG_PREFIX,
+  isDateTag,
+  type DateIndex,
+} from "../storage/dateIndex";
+import { saveDateIndexKeyId } from "../storage/userSettings";
+import {
+  createImageCryptoAdapter,
+  createSupabaseBucket,
+  decryptImageMeta,
+  encryptImageMeta,
+  imageBlobPath,
+  legacyImageBlobPath,
+  type ImageReplicationCrypto,
+  type StorageBucket,
+} from "../storage/rxdb/replication";
+import { reportError } from "../utils/errorReporter";
+
+export const DATE_MIGRATION_BATCH_SIZE = 25;
+
+const TAG_PATTERN = `${DATE_TAG_PREFIX}%`;
+
+export interface DateMigrationProgress {
+  phase: "notes" | "images";
+  done: number;
+  total: number;
+}
+
+export interface DateMigrationResult {
+  moved: { notes: number; images: number };
+  // "note:<row date>" / "image:<id>" left in the old form
+  skipped: string[];
+}
+
+interface NoteRow {
+  id: string;
+  journal_id: string;
+  date: string;
+  key_id: string;
+  ciphertext: string;
+  nonce: string;
+  updated_at: string;
+}
+
+interface ImageRow {
+  id: string;
+  note_date: string;
+  key_id: string;
+  nonce: string;
+  meta: string | null;
+}
+
+/**
+ * Turns private dates on (`indexKeyId` set) or off (null) for the account,
+ * then moves existing rows to the new form. New pushes follow the setting
+ * as soon as it is saved, so the move can be resumed later with
+ * `migrateNoteDates` if it is interrupted.
+ */
+export async function setPrivateDates(options: {
+  supabase: SupabaseClient;
+  userId: string;
+  e2ee: E2eeService;
+  getKey: (keyId: string) => CryptoKey | null;
+  indexKeyId: string | null;
+  onProgress?: (progress: DateMigrationProgress) => void;
+  signal?: AbortSignal;
+}): Promise<DateMigrationResult> {
+  const { supabase, userId, getKey, indexKeyId } = options;
+  if (indexKeyId && !getKey(indexKeyId)) {
+    throw new Error("Unlock your notes first.");
+  }
+  await saveDateIndexKeyId(supabase, userId, indexKeyId);
+  return migrateNoteDates(options);
+}
+
+/**
+ * Rewrites note and image rows still keyed by the other form of their
+ * date: plain dates become tags when `indexKeyId` is set, tags become
+ * plain dates when it is null. Notes written before the date moved into
+ * the payload are re-encrypted with it. Writes are conditional on the
+ * row's nonce, so rows edited meanwhile are left to their writer.
+ */
+export async function migrateNoteDates(options: {
+  supabase: SupabaseClient;
+  userId: string;
+  e2ee: E2eeService;
+  getKey: (keyId: string) => CryptoKey | null;
+  indexKeyId: string | null;
+  batchSize?: number;
+  onProgress?: (progress: DateMigrationProgress) => void;
+  signal?: AbortSignal;
+}): Promise<DateMigrationResult> {
+  const {
+    supabase,
+    userId,
+    e2ee,
+    getKey,
+    indexKeyId,
+    batchSize = DATE_MIGRATION_BATCH_SIZE,
+    onProgress,
+    signal,
+  } = options;
+  const toPrivate = indexKeyId !== null;
+  const dateIndex = createDateIndex({
+    getIndexKeyId: async () => indexKeyId,
+    getKey,
+  });
+  const result: DateMigrationResult = {
+    moved: { notes: 0, images: 0 },
+    skipped: [],
+  };
+
+  const noteTotal = await countRows(supabase, "notes", "date", userId, toPrivate);
+  let cursor: string | null = null;
+  onProgress?.({ phase: "notes", done: 0, total: noteTotal });
+  for (;;) {
+    if (signal?.aborted) return result;
+    const rows = await fetchNoteBatch(supabase, userId, toPrivate, cursor, batchSize);
+    if (rows.length === 0) break;
+    for (const row of rows) {
+      if (await moveNote(supabase, userId, e2ee, dateIndex, row)) {
+        result.moved.notes++;
+      } else {
+        result.skipped.push(`note:${row.date}`);
+      }
+    }
+    cursor = rows[rows.length - 1].id;
+    onProgress?.({
+      phase: "notes",
+      done: result.moved.notes,
+      total: Math.max(noteTotal, result.moved.notes),
+    });
+  }
+
+  const imageCrypto = createImageCryptoAdapter(e2ee);
+  const bucket = createSupabaseBucket(supabase);
+  const imageTotal = await countRows(
+    supabase,
+    "note_images",
+    "note_date",
+    userId,
+    toPrivate,
+  );
+  cursor = null;
+  onProgress?.({ phase: "images", done: 0, total: imageTotal });
+  for (;;) {
+    if (signal?.aborted) return result;
+    const rows = await fetchImageBatch(supabase, userId, toPrivate, cursor, batchSize);
+    if (rows.length === 0) break;
+    for (const row of rows) {
+      if (await moveImage(supabase, bucket, userId, imageCrypto, dateIndex, row)) {
+        result.moved.images++;
+      } else {
+        result.skipped.push(`image:${row.id}`);
+      }
+    }
+    cursor = rows[rows.length - 1].id;
+    onProgress?.({
+      phase: "images",
+      done: result.moved.images,
+      total: Math.max(imageTotal, result.moved.images),
+    });
+  }
+
+  return result;
+}
+
+async function countRows(
+  supabase: SupabaseClient,
+  table: "notes" | "note_images",
+  column: "date" | "note_date",
+  userId: string,
+  toPrivate: boolean,
+): Promise<number> {
+  const query = supabase
+    .from(table)
+    .select(column, { count: "exact", head: true })
+    .eq("user_id", userId);
+  const { count, error } = await (toPrivate
+    ? query.not(column, "like", TAG_PATTERN)
+    : query.like(column, TAG_PATTERN));
+  if (error) throw error;
+  return count ?? 0;
+}
+
+// Dates repeat across journals, so batches page by row id
+async function fetchNoteBatch(
+  supabase: SupabaseClient,
+  userId: string,
+  toPrivate: boolean,
+  cursor: string | null,
+  limit: number,
+): Promise<NoteRow[]> {
+  let query = supabase
+    .from("notes")
+    .select("id, journal_id, date, key_id, ciphertext, nonce, updated_at")
+    .eq("user_id", userId);
+  query = toPrivate
+    ? query.not("date", "like", TAG_PATTERN)
+    : query.like("date", TAG_PATTERN);
+  if (cursor) query = query.gt("id", cursor);
+  const { data, error } = await query.order("id").limit(limit);
+  if (error) throw error;
+  return (data ?? []) as NoteRow[];
+}
+
+async function fetchImageBatch(
+  supabase: SupabaseClient,
+  userId: string,
+  toPrivate: boolean,
+  cursor: string | null,
+  limit: number,
+): Promise<ImageRow[]> {
+  let query = supabase
+    .from("note_images")
+    .select("id, note_date, key_id, nonce, meta")
+    .eq("user_id", userId);
+  query = toPrivate
+    ? query.not("note_date", "like", TAG_PATTERN)
+    : query.like("note_date", TAG_PATTERN);
+  if (cursor) query = query.gt("id", cursor);
+  const { data, error } = await query.order("id").limit(limit);
+  if (error) throw error;
+  return (data ?? []) as ImageRow[];
+}
+
+async function moveNote(
+  supabase: SupabaseClient,
+  userId: string,
+  e2ee: E2eeService,
+  dateIndex: DateIndex,
+  row: NoteRow,
+): Promise<boolean> {
+  try {
+    const payload = await e2ee.decryptNoteRecord({
+      keyId: row.key_id,
+      ciphertext: row.ciphertext,
+      nonce: row.nonce,
+    });
+    if (!payload) return false;
+    const date = payload.date ?? (isDateTag(row.date) ? null : row.date);
+    if (!date) return false;
+
+    const patch: Record<string, string> = {
+      date: await dateIndex.toRowDate(date),
+    };
+    if (!payload.date) {
+      // Tagged rows need the date in the payload; it's their only copy
+      const encrypted = await e2ee.encryptNoteContent(
+        { ...payload, date },
+        row.key_id,
+      );
+      if (!encrypted) return false;
+      patch.ciphertext = encrypted.ciphertext;
+      patch.nonce = encrypted.nonce;
+    }
+
+    const { data, error } = await supabase
+      .from("notes")
+      .update(patch)
+      .eq("user_id", userId)
+      .eq("id", row.id)
+      .eq("nonce", row.nonce)
+      .select("id");
+    if (error?.code === "23505") {
+      return await mergeDuplicate(supabase, userId, row, patch);
+    }
+    if (error) throw error;
+    return (data ?? []).length > 0;
+  } catch (error) {
+    reportError("privateDates.moveNote", error);
+    return false;
+  }
+}
+
+/**
+ * Another device already wrote this note under the new form of its date.
+ * The newer of the two rows wins and ends up under the new form.
+ */
+async function mergeDuplicate(
+  supabase: SupabaseClient,
+  userId: string,
+  row: NoteRow,
+  patch: Record<string, string>,
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("notes")
+    .select("updated_at")
+    .eq("user_id", userId)
+    .eq("journal_id", row.journal_id)
+    .eq("date", patch.date)
+    .limit(1);
+  if (error) throw error;
+  const existing = (data ?? [])[0] as { updated_at: string } | undefined;
+  if (!existing) return false;
+
+  if (existing.updated_at < row.updated_at) {
+    const { error: updateError } = await supabase
+      .from("notes")
+      .update({
+        key_id: row.key_id,
+        ciphertext: patch.ciphertext ?? row.ciphertext,
+        nonce: patch.nonce ?? row.nonce,
+        updated_at: row.updated_at,
+      })
+      .eq("user_id", userId)
+      .eq("journal_id", row.journal_id)
+      .eq("date", patch.date)
+      .eq("updated_at", existing.updated_at);
+    if (updateError) throw updateError;
+  }
+
+  const { error: deleteError } = await supabase
+    .from("notes")
+    .delete()
+    .eq("user_id", userId)
+    .eq("id", row.id)
+    .eq("nonce", row.nonce);
+  if (deleteError) throw deleteError;
+  return true;
+}
+
+async function moveImage(
+  supabase: SupabaseClient,
+  bucket: StorageBucket,
+  userId: string,
+  imageCrypto: ImageReplicationCrypto,
+  dateIndex: DateIndex,
+  row: ImageRow,
+): Promise<boolean> {
+  try {
+    const noteDate = isDateTag(row.note_date)
+      ? row.meta
+        ? await decryptImageMeta(imageCrypto, row.meta)
+        : null
+      : row.note_date;
+    if (!noteDate) return false;
+    const rowDate = await dateIndex.toRowDate(noteDate);
+
+    const oldPath = imageBlobPath(userId, row.note_date, row.id);
+    let download = await bucket.download(oldPath);
+    if (!download.ok) {
+      download = await bucket.download(legacyImageBlobPath(userId, row.id));
+    }
+    if (!download.ok) return false;
+    const upload = await bucket.upload(
+      imageBlobPath(userId, rowDate, row.id),
+      download.value,
+    );
+    if (!upload.ok) return false;
+
+    const meta = isDateTag(rowDate)
+      ? await encryptImageMeta(imageCrypto, noteDate, row.key_id)
+      : null;
+    const { data, error } = await supabase
+      .from("note_images")
+      .update({ note_date: rowDate, meta })
+      .eq("user_id", userId)
+      .eq("id", row.id)
+      .eq("nonce", row.nonce)
+      .select("id");
+    if (error) throw error;
+    if ((data ?? []).length === 0) return false;
+
+    const { error: removeError } = await supabase.storage
+      .from("note-images")
+      .remove([oldPath]);
+    if (removeError) reportError("privateDates.moveImage.remove", removeError);
+    return true;
+  } catch (error) {
+    reportError("privateDates.moveImage", error);
+    return false;
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Slash command registry.
+ * Each command lists the menu items it offers in the current context;
+ * an item edits the note through a document transaction.
+ */
+
+import { parseHtml, type Block, type Transaction } from "../editorDocument";
+import { getTimestampLabel } from "../timestampLabel";
+import { formatDateDisplay, getTodayString } from "../../utils/date";
+
+export interface SlashCommandContext {
+  // Section types used lately, most recent first
+  sectionTypes: string[];
+  weatherLabel: string | null;
+  // Opens the image picker; absent where images can't be added
+  pickImage?: () => void;
+}
+
+export interface SlashCommandItem {
+  id: string;
+  title: string;
+  // Shown next to the title, e.g. the syntax the item stands for
+  hint?: string;
+  // Extra words the filter matches besides the title
+  keywords: string;
+  // Runs with the typed `/query` already removed and the caret in its place
+  run: (tr: Transaction, context: SlashCommandContext) => void;
+}
+
+export interface SlashCommand {
+  name: string;
+  description: string;
+  items: (context: SlashCommandContext) => SlashCommandItem[];
+}
+
+interface NoteTemplate {
+  name: string;
+  html: string;
+}
+
+const NOTE_TEMPLATES: NoteTemplate[] = [
+  {
+    name: "Daily review",
+    html:
+      '<div data-section-type="done">+done</div><div><br></div>' +
+      '<div data-section-type="todo">+todo</div><ul><li data-task="open"><br></li></ul>' +
+      '<div data-section-type="notes">+notes</div><div><br></div>',
+  },
+  {
+    name: "Meeting",
+    html:
+      '<div data-section-type="meeting">+meeting</div><div>Who:</div><div>Notes:</div>' +
+      '<ul><li data-task="open"><br></li></ul>',
+  },
+];
+
+function emptyLine(): Block {
+  return {
+    type: "paragraph",
+    tag: "div",
+    children: [{ type: "lineBreak", marks: [] }],
+  };
+}
+
+/**
+ * Section: a `+type` header with an empty line under it, for the types
+ * used lately. Without any, it starts a header for the user to name.
+ */
+export const sectionCommand: SlashCommand = {
+  name: "section",
+  description: "Insert a section header",
+
+  items({ sectionTypes }) {
+    if (sectionTypes.length === 0) {
+      return [
+        {
+          id: "section",
+          title: "Section",
+          hint: "+type",
+          keywords: "header heading",
+          run: (tr) => tr.insertText("+"),
+        },
+      ];
+    }
+    return sectionTypes.map((sectionType) => ({
+      id: `section:${sectionType}`,
+      title: `Section +${sectionType}`,
+      keywords: "header heading",
+      run: (tr) =>
+        tr.insertBlocks([
+          {
+            type: "sectionHeader",
+            tag: "div",
+            sectionType,
+            children: [{ type: "text", text: `+${sectionType}`, marks: [] }],
+          },
+          emptyLine(),
+        ]),
+    }));
+  },
+};
+
+/**
+ * Timestamp: a divider labelled with the current time, like `---`.
+ */
+export const timestampCommand: SlashCommand = {
+  name: "timestamp",
+  description: "Insert a timestamp divider",
+
+  items: () => [
+    {
+      id: "timestamp",
+      title: "Timestamp divider",
+      hint: "---",
+      keywords: "time hr rule line now",
+      run: (tr) => {
+        const timestamp = new Date().toISOString();
+        tr.insertBlocks([
+          {
+            type: "timestampDivider",
+            timestamp,
+            label: getTimestampLabel(timestamp) || null,
+          },
+          emptyLine(),
+        ]);
+      },
+    },
+  ],
+};
+
+/**
+ * Image: opens the same picker as the toolbar button.
+ */
+export const imageCommand: SlashCommand = {
+  name: "image",
+  description: "Pick an image to insert",
+
+  items: ({ pickImage }) =>
+    pickImage
+      ? [
+          {
+            id: "image",
+            title: "Image",
+            keywords: "picture photo upload",
+            run: (_tr, context) => context.pickImage?.(),
+          },
+        ]
+      : [],
+};
+
+/**
+ * Weather: the header's weather label as text.
+ */
+export const weatherCommand: SlashCommand = {
+  name: "weather",
+  description: "Insert the weather line",
+
+  items: ({ weatherLabel }) =>
+    weatherLabel
+      ? [
+          {
+            id: "weather",
+            title: "Weather",
+            hint: weatherLabel,
+            keywords: "temperature forecast",
+            run: (tr) => tr.insertText(weatherLabel),
+          },
+        ]
+      : [],
+};
+
+/**
+ * Templates: a ready-made set of sections.
+ */
+export const templateCommand: SlashCommand = {
+  name: "template",
+  description: "Insert a note template",
+
+  items: () =>
+    NOTE_TEMPLATES.map((template) => ({
+      id: `template:${template.name}`,
+      title: `Template: ${template.name}`,
+      keywords: "template",
+      run: (tr) => tr.insertBlocks(parseHtml(template.html).blocks),
+    })),
+};
+
+/**
+ * Date: today's date written out.
+ */
+export const dateCommand: SlashCommand = {
+  name: "date",
+  description: "Insert today's date",
+
+  items: () => [
+    {
+      id: "date",
+      title: "Today's date",
+      keywords: "day today",
+      run: (tr) => tr.insertText(formatDateDisplay(getTodayString())),
+    },
+  ],
+};
+
+/**
+ * Registry of all slash commands.
+ * Order is the menu order before filtering.
+ */
+export const SLASH_COMMANDS: SlashCommand[] = [
+  sectionCommand,
+  timestampCommand,
+  imageCommand,
+  weatherCommand,
+  templateCommand,
+  dateCommand,
+];
@@ -0,0 +1,88 @@
+/**
+ * Slash Command Service
+ * Finds a `/query` typed before the caret, lists the matching commands
+ * and runs one in place of the query.
+ */
+
+import {
+  dispatchTransaction,
+  inlineText,
+  isCollapsed,
+  isTextBlock,
+  lineBounds,
+  sliceInlines,
+  type EditorState,
+  type Position,
+} from "../editorDocument";
+import { fuzzyFilter } from "../../utils/fuzzyMatch";
+import {
+  SLASH_COMMANDS,
+  type SlashCommandContext,
+  type SlashCommandItem,
+} from "./commands";
+
+export type {
+  SlashCommand,
+  SlashCommandContext,
+  SlashCommandItem,
+} from "./commands";
+
+// A slash at the start of a line or after a space, then the query so far
+const SLASH_QUERY_RE = /(?:^|\s)\/([\w-]*)$/;
+
+export interface SlashQuery {
+  query: string;
+  // Where the slash is
+  from: Position;
+}
+
+/**
+ * The slash query the caret is at the end of, if any.
+ */
+export function findSlashQuery(state: EditorState): SlashQuery | null {
+  const { selection } = state;
+  if (!selection || !isCollapsed(selection)) return null;
+  const { block: index, offset } = selection.from;
+  const block = state.doc.blocks[index];
+  if (!block || !isTextBlock(block)) return null;
+
+  const { start } = lineBounds(block.children, offset);
+  const typed = inlineText(sliceInlines(block.children, start, offset));
+  const match = SLASH_QUERY_RE.exec(typed.replace(/\u00a0/g, " "));
+  if (!match) return null;
+  const query = match[1];
+  return { query, from: { block: index, offset: offset - query.length - 1 } };
+}
+
+/**
+ * The menu items for a query, best match first.
+ */
+export function getSlashCommandItems(
+  context: SlashCommandContext,
+  query: string,
+): SlashCommandItem[] {
+  const items = SLASH_COMMANDS.flatMap((command) => command.items(context));
+  return fuzzyFilter(items, query, (item) => `${item.title} ${item.keywords}`);
+}
+
+/**
+ * Replace the slash query at the caret with the item's edit.
+ * Returns true if the editor changed.
+ */
+export function runSlashCommand(
+  editor: HTMLElement,
+  item: SlashCommandItem,
+  context: SlashCommandContext,
+): boolean {
+  const commit = dispatchTransaction(editor, (tr) => {
+    const slash = findSlashQuery({ doc: tr.doc, selection: tr.selection });
+    if (!slash || !tr.selection) return tr;
+    tr.setSelection({
+      from: slash.from,
+      to: tr.selection.to,
+    }).deleteSelection();
+    item.run(tr, context);
+    return tr;
+  });
+  return commit?.docChanged ?? false;
+}
@@ -1,4 +1,5 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { DEFAULT_PROFILE_ID, getActiveProfileId } from "../storage/profiles";
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL as string;
 const supabaseKey = import.meta.env.VITE_SUPABASE_PUB_KEY as string;
@@ -7,6 +8,17 @@ if (!supabaseUrl || !supabaseKey) {
   throw new Error("Missing Supabase environment variables");
 }
 
-export const supabase: SupabaseClient = createClient(supabaseUrl, supabaseKey);
+// Each profile keeps its own session; the default profile keeps the
+// client's default storage key so existing sessions survive
+const profileId = getActiveProfileId();
+
+export const supabase: SupabaseClient =
+  profileId === DEFAULT_PROFILE_ID
+    ? createClient(supabaseUrl, supabaseKey)
+    : createClient(supabaseUrl, supabaseKey, {
+        auth: {
+          storageKey: `sb-${new URL(supabaseUrl).hostname.split(".")[0]}-auth-token-${profileId}`,
+        },
+      });
 
 export type { SupabaseClient };
@@ -0,0 +1,130 @@
+import type { NoteRepository } from "../storage/noteRepository";
+import type { ImageRepository } from "../storage/imageRepository";
+import type { DeletedImage } from "../types";
+import { stripHtml } from "../utils/searchText";
+
+export type TrashItem =
+  | {
+      kind: "note";
+      key: string;
+      date: string;
+      preview: string;
+      deletedAt: string;
+    }
+  | {
+      kind: "image";
+      key: string;
+      image: DeletedImage;
+      deletedAt: string;
+    };
+
+export interface TrashActionSummary {
+  done: number;
+  failed: string[]; // keys of items that could not be processed
+}
+
+const PREVIEW_LENGTH = 160;
+
+function notePreview(html: string): string {
+  const text = stripHtml(html);
+  return text.length > PREVIEW_LENGTH
+    ? `${text.slice(0, PREVIEW_LENGTH)}...`
+    : text;
+}
+
+/**
+ * Whether the repositories can list deleted items at all; the Trash is
+ * hidden otherwise.
+ */
+export function supportsTrash(
+  repository: NoteRepository,
+  imageRepository: ImageRepository | null,
+): boolean {
+  return !!repository.getDeleted || !!imageRepository?.getDeleted;
+}
+
+/**
+ * Every soft-deleted note and image, most recently deleted first.
+ */
+export async function loadTrash(
+  repository: NoteRepository,
+  imageRepository: ImageRepository | null,
+): Promise<TrashItem[]> {
+  const items: TrashItem[] = [];
+
+  if (repository.getDeleted) {
+    const result = await repository.getDeleted();
+    if (!result.ok) throw new Error(result.error.message);
+    for (const note of result.value) {
+      items.push({
+        kind: "note",
+        key: `note:${note.date}`,
+        date: note.date,
+        preview: notePreview(note.content),
+        deletedAt: note.deletedAt,
+      });
+    }
+  }
+
+  if (imageRepository?.getDeleted) {
+    const result = await imageRepository.getDeleted();
+    if (!result.ok) throw new Error(result.error.message);
+    for (const image of result.value) {
+      items.push({
+        kind: "image",
+        key: `image:${image.id}`,
+        image,
+        deletedAt: image.deletedAt,
+      });
+    }
+  }
+
+  return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+async function applyToItems(
+  items: TrashItem[],
+  action: (item: TrashItem) => Promise<boolean>,
+): Promise<TrashActionSummary> {
+  const summary: TrashActionSummary = { done: 0, failed: [] };
+  for (const item of items) {
+    if (await action(item)) summary.done++;
+    else summary.failed.push(item.key);
+  }
+  return summary;
+}
+
+/**
+ * Undo the soft delete of the given items.
+ */
+export function restoreTrashItems(
+  repository: NoteRepository,
+  imageRepository: ImageRepository | null,
+  items: TrashItem[],
+): Promise<TrashActionSummary> {
+  return applyToItems(items, async (item) => {
+    const result =
+      item.kind === "note"
+        ? await repository.restoreNote?.(item.date)
+        : await imageRepository?.restore?.(item.image.id);
+    return result?.ok ?? false;
+  });
+}
+
+/**
+ * Permanently remove the given items. The removals replicate, so synced
+ * rows and image blobs are deleted on the server too.
+ */
+export function purgeTrashItems(
+  repository: NoteRepository,
+  imageRepository: ImageRepository | null,
+  items: TrashItem[],
+): Promise<TrashActionSummary> {
+  return applyToItems(items, async (item) => {
+    const result =
+      item.kind === "note"
+        ? await repository.purgeNote?.(item.date)
+        : await imageRepository?.purge?.(item.image.id);
+    return result?.ok ?? false;
+  });
+}
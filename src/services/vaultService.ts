@@ -4,7 +4,21 @@ import {
   fetchUserKeyring,
   saveUserKeyringEntry,
   deleteUserKeyringEntry,
+  fetchRecoveryKeyring,
+  saveRecoveryKeyringEntry,
+  deleteRecoveryKeyring,
+  fetchPasskeyKeyring,
+  savePasskeyKeyringEntry,
+  deletePasskeyKeyring,
 } from "../storage/userKeyring";
+import {
+  getPasskeyWrappingKey,
+  registerPasskey,
+} from "../storage/passkey";
+import {
+  generateRecoveryPhrase,
+  normalizeRecoveryPhrase,
+} from "../storage/recoveryPhrase";
 import {
   base64ToBytes,
   bytesToBase64,
@@ -16,13 +30,23 @@ import { sanitizeHtml } from "../utils/sanitize";
 import { parseDecryptedNotePayload } from "../storage/parsers";
 import type { UserKeyringEntry } from "../storage/userKeyring";
 import { computeKeyId } from "../storage/keyId";
+import {
+  isDeviceUnlockSuspended,
+  resumeDeviceUnlock,
+} from "../storage/vaultLock";
+import {
+  DEFAULT_KDF,
+  getEntryKdf,
+  needsKdfUpgrade,
+  toKdfFields,
+  type KdfParams,
+} from "../storage/kdf";
 import {
   deriveKEK,
   generateDEK,
   wrapDEK,
   unwrapDEK,
   generateSalt,
-  DEFAULT_KDF_ITERATIONS,
   storeDeviceWrappedDEK,
   tryUnlockWithDeviceDEK,
   tryGetDeviceEncryptedPassword,
@@ -33,18 +57,107 @@ import {
   tryUnlockWithDeviceKey,
   ensureDeviceWrappedKey,
   canUseDeviceKey,
+  getLocalPasskeys,
+  addPasskeyWrappedKey,
+  removePasskeyWrappedKeys,
+  unlockWithPasskey,
 } from "../storage/vault";
+import { fetchJournalKeyIds } from "../storage/journals";
+import { loadKeyRotationState } from "../storage/keyRotationState";
+import { fetchDateIndexKeyId } from "../storage/userSettings";
+import { reportError } from "../utils/errorReporter";
 
 export interface CloudVaultUnlockResult {
   vaultKey: CryptoKey | null;
   keyring: Map<string, CryptoKey>;
   primaryKeyId: string | null;
+  // Set only when this unlock created the cloud vault; shown to the user once
+  recoveryPhrase?: string | null;
+}
+
+interface KeyWrapping {
+  salt: string;
+  kdf: KdfParams;
+  kek: CryptoKey;
+}
+
+// Keys wrapped together share one salt, so unlocking them later derives
+// the (deliberately slow) KEK once instead of once per key
+async function createKeyWrapping(secret: string): Promise<KeyWrapping> {
+  const salt = generateSalt();
+  return { salt, kdf: DEFAULT_KDF, kek: await deriveKEK(secret, salt, DEFAULT_KDF) };
+}
+
+async function wrapKeyringEntry(
+  wrapping: KeyWrapping,
+  keyId: string,
+  key: CryptoKey,
+  isPrimary: boolean,
+): Promise<UserKeyringEntry> {
+  const wrapped = await wrapDEK(key, wrapping.kek);
+  return {
+    keyId,
+    wrappedDek: wrapped.data,
+    dekIv: wrapped.iv,
+    kdfSalt: wrapping.salt,
+    ...toKdfFields(wrapping.kdf),
+    version: 1,
+    isPrimary,
+  };
+}
+
+function createKekCache(
+  secret: string,
+): (entry: UserKeyringEntry) => Promise<CryptoKey> {
+  const keks = new Map<string, Promise<CryptoKey>>();
+  return (entry) => {
+    const kdf = getEntryKdf(entry);
+    const cacheKey = JSON.stringify([entry.kdfSalt, kdf]);
+    let kek = keks.get(cacheKey);
+    if (!kek) {
+      kek = deriveKEK(secret, entry.kdfSalt, kdf);
+      keks.set(cacheKey, kek);
+    }
+    return kek;
+  };
+}
+
+/**
+ * Re-wraps entries whose KDF is older than the current default. Runs after
+ * an unlock proved the secret right; failures leave the old wrappings in
+ * place for the next unlock to retry.
+ */
+async function upgradeKeyringEntries(options: {
+  secret: string;
+  entries: UserKeyringEntry[];
+  keyring: Map<string, CryptoKey>;
+  save: (entry: UserKeyringEntry) => Promise<void>;
+}): Promise<void> {
+  const { secret, keyring, save } = options;
+  const outdated = options.entries.filter(
+    (entry) => keyring.has(entry.keyId) && needsKdfUpgrade(getEntryKdf(entry)),
+  );
+  if (!outdated.length) return;
+  try {
+    const wrapping = await createKeyWrapping(secret);
+    for (const entry of outdated) {
+      const key = keyring.get(entry.keyId);
+      if (!key) continue;
+      await save({
+        ...(await wrapKeyringEntry(wrapping, entry.keyId, key, entry.isPrimary)),
+        version: entry.version,
+      });
+    }
+  } catch (err) {
+    reportError("vaultService.upgradeKdf", err);
+  }
 }
 
 export async function tryDeviceUnlockCloudKey(): Promise<{
   vaultKey: CryptoKey;
   keyId: string;
 } | null> {
+  if (isDeviceUnlockSuspended()) return null;
   const dek = await tryUnlockWithDeviceDEK();
   if (!dek) return null;
 
@@ -73,13 +186,15 @@ export async function unlockCloudVault(options: {
   const existingKeyrings = await fetchUserKeyring(supabase, userId);
 
   let dek: CryptoKey | null = null;
+  let recoveryPhrase: string | null = null;
 
   if (existingKeyrings.length && !nextKeyring.size) {
     let passwordUnwrapFailed = false;
+    const deriveEntryKek = createKekCache(password);
 
     for (const entry of existingKeyrings) {
       try {
-        const kek = await deriveKEK(password, entry.kdfSalt, entry.kdfIterations);
+        const kek = await deriveEntryKek(entry);
         const unwrapped = await unwrapDEK(entry.wrappedDek, entry.dekIv, kek);
         nextKeyring.set(entry.keyId, unwrapped);
         if (entry.isPrimary && !nextPrimaryId) {
@@ -95,7 +210,9 @@ export async function unlockCloudVault(options: {
     // NOTE: we intentionally do NOT rewrap here on page load.
     // Rewrap only on explicit password reset or debug "Rewrap all keys" button.
     if (!nextKeyring.size && passwordUnwrapFailed) {
-      const deviceDek = await tryUnlockWithDeviceDEK();
+      const deviceDek = isDeviceUnlockSuspended()
+        ? null
+        : await tryUnlockWithDeviceDEK();
       if (deviceDek) {
         const keyId = await computeKeyId(deviceDek);
         nextKeyring.set(keyId, deviceDek);
@@ -109,53 +226,44 @@ export async function unlockCloudVault(options: {
   if (!nextPrimaryId && existingKeyrings.length) {
     nextPrimaryId = existingKeyrings[0]?.keyId ?? null;
     if (nextPrimaryId) {
-      await saveUserKeyringEntry(supabase, userId, {
-        ...existingKeyrings[0],
-        isPrimary: true,
-      });
+      existingKeyrings[0] = { ...existingKeyrings[0], isPrimary: true };
+      await saveUserKeyringEntry(supabase, userId, existingKeyrings[0]);
     }
   }
 
+  if (existingKeyrings.length) {
+    await upgradeKeyringEntries({
+      secret: password,
+      entries: existingKeyrings,
+      keyring: nextKeyring,
+      save: (entry) => saveUserKeyringEntry(supabase, userId, entry),
+    });
+  }
+
   if (!existingKeyrings.length) {
-    const salt = generateSalt();
-    const kek = await deriveKEK(password, salt, DEFAULT_KDF_ITERATIONS);
+    const wrapping = await createKeyWrapping(password);
     dek = localDek ?? (await generateDEK());
-    const wrapped = await wrapDEK(dek, kek);
     const keyId = await computeKeyId(dek);
-    const entry: UserKeyringEntry = {
-      keyId,
-      wrappedDek: wrapped.data,
-      dekIv: wrapped.iv,
-      kdfSalt: salt,
-      kdfIterations: DEFAULT_KDF_ITERATIONS,
-      version: 1,
-      isPrimary: true,
-    };
-    await saveUserKeyringEntry(supabase, userId, entry);
+    await saveUserKeyringEntry(
+      supabase,
+      userId,
+      await wrapKeyringEntry(wrapping, keyId, dek, true),
+    );
     nextKeyring.set(keyId, dek);
     nextPrimaryId = keyId;
-  }
 
-  // Only upload local keys to cloud when there are no existing cloud keyrings.
-  // When cloud keyrings exist, the cloud primary is authoritative — uploading
-  // a fresh local DEK from every new browser would pollute the keyring.
-  if (!existingKeyrings.length) {
+    // Only upload local keys to cloud when there are no existing cloud
+    // keyrings. When cloud keyrings exist, the cloud primary is
+    // authoritative — uploading a fresh local DEK from every new browser
+    // would pollute the keyring.
     if (localDek) {
       const localKeyId = await computeKeyId(localDek);
       if (!nextKeyring.has(localKeyId)) {
-        const salt = generateSalt();
-        const kek = await deriveKEK(password, salt, DEFAULT_KDF_ITERATIONS);
-        const wrapped = await wrapDEK(localDek, kek);
-        const entry: UserKeyringEntry = {
-          keyId: localKeyId,
-          wrappedDek: wrapped.data,
-          dekIv: wrapped.iv,
-          kdfSalt: salt,
-          kdfIterations: DEFAULT_KDF_ITERATIONS,
-          version: 1,
-          isPrimary: false,
-        };
-        await saveUserKeyringEntry(supabase, userId, entry);
+        await saveUserKeyringEntry(
+          supabase,
+          userId,
+          await wrapKeyringEntry(wrapping, localKeyId, localDek, false),
+        );
         nextKeyring.set(localKeyId, localDek);
       }
     }
@@ -163,22 +271,21 @@ export async function unlockCloudVault(options: {
     if (localKeyring.size) {
       for (const [keyId, key] of localKeyring.entries()) {
         if (nextKeyring.has(keyId)) continue;
-        const salt = generateSalt();
-        const kek = await deriveKEK(password, salt, DEFAULT_KDF_ITERATIONS);
-        const wrapped = await wrapDEK(key, kek);
-        const entry: UserKeyringEntry = {
-          keyId,
-          wrappedDek: wrapped.data,
-          dekIv: wrapped.iv,
-          kdfSalt: salt,
-          kdfIterations: DEFAULT_KDF_ITERATIONS,
-          version: 1,
-          isPrimary: false,
-        };
-        await saveUserKeyringEntry(supabase, userId, entry);
+        await saveUserKeyringEntry(
+          supabase,
+          userId,
+          await wrapKeyringEntry(wrapping, keyId, key, false),
+        );
         nextKeyring.set(keyId, key);
       }
     }
+
+    recoveryPhrase = await createRecoveryPhrase({
+      supabase,
+      userId,
+      keyring: nextKeyring,
+      primaryKeyId: nextPrimaryId,
+    });
   }
 
   if (!nextPrimaryId && nextKeyring.size) {
@@ -192,14 +299,101 @@ export async function unlockCloudVault(options: {
   if (dek) {
     await storeDeviceWrappedDEK(dek);
   }
+  resumeDeviceUnlock();
 
   return {
     vaultKey: dek,
     keyring: nextKeyring,
     primaryKeyId: nextPrimaryId,
+    recoveryPhrase,
   };
 }
 
+/**
+ * Generates a new recovery phrase and wraps every key in the keyring with
+ * it, replacing any earlier phrase. The phrase itself is never stored.
+ *
+ * The new wrappings are written over the old ones before stale ones are
+ * deleted, so a failure part way leaves every key recoverable with one
+ * phrase or the other.
+ */
+export async function createRecoveryPhrase(options: {
+  supabase: SupabaseClient;
+  userId: string;
+  keyring: Map<string, CryptoKey>;
+  primaryKeyId: string | null;
+}): Promise<string> {
+  const { supabase, userId, keyring, primaryKeyId } = options;
+  const phrase = await generateRecoveryPhrase();
+
+  const wrapping = await createKeyWrapping(phrase);
+  for (const [keyId, key] of keyring.entries()) {
+    await saveRecoveryKeyringEntry(
+      supabase,
+      userId,
+      await wrapKeyringEntry(wrapping, keyId, key, keyId === primaryKeyId),
+    );
+  }
+  // Keys no longer in the keyring keep only the old phrase's wrapping
+  await deleteRecoveryKeyring(supabase, userId, [...keyring.keys()]);
+
+  return phrase;
+}
+
+/**
+ * Unlocks the cloud keyring with the recovery phrase and re-wraps it with
+ * a new password, for users who forgot theirs.
+ */
+export async function recoverCloudVault(options: {
+  supabase: SupabaseClient;
+  userId: string;
+  phrase: string;
+  newPassword: string;
+}): Promise<CloudVaultUnlockResult> {
+  const { supabase, userId, phrase, newPassword } = options;
+
+  const normalized = await normalizeRecoveryPhrase(phrase);
+  if (!normalized) {
+    throw new Error("That recovery phrase isn't valid. Check the words and try again.");
+  }
+
+  const entries = await fetchRecoveryKeyring(supabase, userId);
+  if (!entries.length) {
+    throw new Error("No recovery phrase has been set up for this account.");
+  }
+
+  const keyring = new Map<string, CryptoKey>();
+  let primaryKeyId: string | null = null;
+  const deriveEntryKek = createKekCache(normalized);
+  for (const entry of entries) {
+    try {
+      const kek = await deriveEntryKek(entry);
+      keyring.set(entry.keyId, await unwrapDEK(entry.wrappedDek, entry.dekIv, kek));
+      if (entry.isPrimary) primaryKeyId = entry.keyId;
+    } catch {
+      // Wrapped with an earlier phrase
+    }
+  }
+  if (!keyring.size) {
+    throw new Error("That recovery phrase doesn't match this account.");
+  }
+  primaryKeyId ??= Array.from(keyring.keys())[0];
+
+  await upgradeKeyringEntries({
+    secret: normalized,
+    entries,
+    keyring,
+    save: (entry) => saveRecoveryKeyringEntry(supabase, userId, entry),
+  });
+  await rewrapCloudKeyring({ supabase, userId, newPassword, keyring, primaryKeyId });
+  const vaultKey = keyring.get(primaryKeyId) ?? null;
+  if (vaultKey) {
+    await storeDeviceWrappedDEK(vaultKey);
+  }
+
+  return { vaultKey, keyring, primaryKeyId };
+}
+
 export async function rewrapCloudKeyring(options: {
   supabase: SupabaseClient;
   userId: string;
@@ -209,20 +403,13 @@ export async function rewrapCloudKeyring(options: {
 }): Promise<void> {
   const { supabase, userId, newPassword, keyring, primaryKeyId } = options;
 
+  const wrapping = await createKeyWrapping(newPassword);
   for (const [keyId, key] of keyring.entries()) {
-    const salt = generateSalt();
-    const kek = await deriveKEK(newPassword, salt, DEFAULT_KDF_ITERATIONS);
-    const wrapped = await wrapDEK(key, kek);
-    const entry: UserKeyringEntry = {
-      keyId,
-      wrappedDek: wrapped.data,
-      dekIv: wrapped.iv,
-      kdfSalt: salt,
-      kdfIterations: DEFAULT_KDF_ITERATIONS,
-      version: 1,
-      isPrimary: keyId === primaryKeyId,
-    };
-    await saveUserKeyringEntry(supabase, userId, entry);
+    await saveUserKeyringEntry(
+      supabase,
+      userId,
+      await wrapKeyringEntry(wrapping, keyId, key, keyId === primaryKeyId),
+    );
   }
 }
 
@@ -257,7 +444,9 @@ export async function bootstrapLocalVault(): Promise<{
     return { hasVault: false, requiresPassword: true, vaultKey: null };
   }
 
-  const unlocked = await tryUnlockWithDeviceKey();
+  const unlocked = isDeviceUnlockSuspended()
+    ? null
+    : await tryUnlockWithDeviceKey();
   if (unlocked) {
     return { hasVault: true, requiresPassword: false, vaultKey: unlocked };
   }
@@ -279,12 +468,134 @@ export async function unlockLocalVault(options: {
     key = await createVault(password);
   }
   await ensureDeviceWrappedKey(key);
+  resumeDeviceUnlock();
   return {
     vaultKey: key,
     hasVault: true,
   };
 }
 
+export function hasLocalPasskey(): boolean {
+  return getLocalPasskeys().length > 0;
+}
+
+export async function unlockLocalVaultWithPasskey(): Promise<{
+  vaultKey: CryptoKey;
+}> {
+  const vaultKey = await unlockWithPasskey();
+  await ensureDeviceWrappedKey(vaultKey);
+  resumeDeviceUnlock();
+  return { vaultKey };
+}
+
+export async function addLocalPasskey(options: {
+  vaultKey: CryptoKey;
+  userName: string;
+}): Promise<void> {
+  const passkey = await registerPasskey({ userName: options.userName });
+  await addPasskeyWrappedKey(options.vaultKey, passkey);
+}
+
+export function removeLocalPasskeys(): void {
+  removePasskeyWrappedKeys();
+}
+
+/**
+ * Number of distinct passkeys that can unlock the cloud keyring.
+ */
+export async function countCloudPasskeys(options: {
+  supabase: SupabaseClient;
+  userId: string;
+}): Promise<number> {
+  const entries = await fetchPasskeyKeyring(options.supabase, options.userId);
+  return new Set(entries.map((entry) => entry.credentialId)).size;
+}
+
+/**
+ * Registers a passkey and wraps every key of the cloud keyring with it.
+ * `keyring` supplies the unwrapped keys; keys that exist only on this
+ * device are left out.
+ */
+export async function addCloudPasskey(options: {
+  supabase: SupabaseClient;
+  userId: string;
+  userName: string;
+  keyring: Map<string, CryptoKey>;
+}): Promise<void> {
+  const { supabase, userId, userName, keyring } = options;
+  const entries = (await fetchUserKeyring(supabase, userId)).filter((entry) =>
+    keyring.has(entry.keyId),
+  );
+  if (!entries.some((entry) => entry.isPrimary)) {
+    throw new Error("Unlock your notes before adding a passkey.");
+  }
+
+  const passkey = await registerPasskey({ userName });
+  for (const entry of entries) {
+    const key = keyring.get(entry.keyId);
+    if (!key) continue;
+    const wrapped = await wrapDEK(key, passkey.key);
+    await savePasskeyKeyringEntry(supabase, userId, {
+      credentialId: passkey.credentialId,
+      prfSalt: passkey.prfSalt,
+      keyId: entry.keyId,
+      wrappedDek: wrapped.data,
+      dekIv: wrapped.iv,
+      isPrimary: entry.isPrimary,
+    });
+  }
+}
+
+export async function removeCloudPasskeys(options: {
+  supabase: SupabaseClient;
+  userId: string;
+}): Promise<void> {
+  await deletePasskeyKeyring(options.supabase, options.userId);
+}
+
+/**
+ * Unlocks the cloud keyring with a passkey instead of the password. Fails
+ * when the passkey predates the current primary key (after a key rotation),
+ * since notes written now would otherwise use a retired key.
+ */
+export async function unlockCloudVaultWithPasskey(options: {
+  supabase: SupabaseClient;
+  userId: string;
+}): Promise<CloudVaultUnlockResult> {
+  const { supabase, userId } = options;
+  const entries = await fetchPasskeyKeyring(supabase, userId);
+  const credentials = new Map(
+    entries.map((entry) => [
+      entry.credentialId,
+      { credentialId: entry.credentialId, prfSalt: entry.prfSalt },
+    ]),
+  );
+  const passkey = await getPasskeyWrappingKey(Array.from(credentials.values()));
+
+  const keyring = new Map<string, CryptoKey>();
+  for (const entry of entries) {
+    if (entry.credentialId !== passkey.credentialId) continue;
+    keyring.set(
+      entry.keyId,
+      await unwrapDEK(entry.wrappedDek, entry.dekIv, passkey.key),
+    );
+  }
+
+  const primaryKeyId =
+    (await fetchUserKeyring(supabase, userId)).find((entry) => entry.isPrimary)
+      ?.keyId ?? null;
+  const vaultKey = primaryKeyId ? (keyring.get(primaryKeyId) ?? null) : null;
+  if (!primaryKeyId || !vaultKey) {
+    throw new Error(
+      "This passkey was set up before your encryption key changed. Unlock with your password and add the passkey again.",
+    );
+  }
+
+  await storeDeviceWrappedDEK(vaultKey);
+  resumeDeviceUnlock();
+  return { vaultKey, keyring, primaryKeyId };
+}
+
 export async function fetchAndUnwrapCloudKeyring(options: {
   supabase: SupabaseClient;
   userId: string;
@@ -294,10 +605,11 @@ export async function fetchAndUnwrapCloudKeyring(options: {
   const entries = await fetchUserKeyring(supabase, userId);
   const keyring = new Map<string, CryptoKey>();
   let primaryKeyId: string | null = null;
+  const deriveEntryKek = createKekCache(password);
 
   for (const entry of entries) {
     try {
-      const kek = await deriveKEK(password, entry.kdfSalt, entry.kdfIterations);
+      const kek = await deriveEntryKek(entry);
       const unwrapped = await unwrapDEK(entry.wrappedDek, entry.dekIv, kek);
       keyring.set(entry.keyId, unwrapped);
       if (entry.isPrimary) primaryKeyId = entry.keyId;
@@ -306,11 +618,58 @@ export async function fetchAndUnwrapCloudKeyring(options: {
     }
   }
 
+  await upgradeKeyringEntries({
+    secret: password,
+    entries,
+    keyring,
+    save: (entry) => saveUserKeyringEntry(supabase, userId, entry),
+  });
+
   return { keyring, primaryKeyId };
 }
 
 const NOTE_IV_BYTES = 12;
 
+interface RemoteNoteRow {
+  id: string;
+  journal_id: string;
+  date: string;
+  key_id: string;
+  ciphertext: string;
+  nonce: string;
+}
+
+function isRemoteNoteRow(row: unknown): row is RemoteNoteRow {
+  const r = row as Record<string, unknown>;
+  return (
+    typeof r.id === "string" &&
+    typeof r.journal_id === "string" &&
+    typeof r.date === "string" &&
+    typeof r.key_id === "string" &&
+    typeof r.ciphertext === "string" &&
+    typeof r.nonce === "string"
+  );
+}
+
+/**
+ * Keys the cleanup routines must neither move notes off nor delete, as in
+ * `continueKeyRotation`: journals' own note keys, keys a journal name is
+ * still encrypted with, the target of a pending rotation, and the key
+ * private note dates are derived from.
+ */
+async function fetchPinnedKeyIds(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<{ noteKeys: string[]; pinned: Set<string> }> {
+  const journalKeys = await fetchJournalKeyIds(supabase, userId);
+  const pinned = new Set([...journalKeys.noteKeys, ...journalKeys.nameKeys]);
+  const rotationTarget = loadKeyRotationState(userId)?.targetKeyId;
+  if (rotationTarget) pinned.add(rotationTarget);
+  const indexKeyId = await fetchDateIndexKeyId(supabase, userId);
+  if (indexKeyId) pinned.add(indexKeyId);
+  return { noteKeys: journalKeys.noteKeys, pinned };
+}
+
 export async function cleanupUnusedKeys(options: {
   supabase: SupabaseClient;
   userId: string;
@@ -326,29 +685,19 @@ export async function cleanupUnusedKeys(options: {
   // wrong against the post-cutover schema (missing server_updated_at).
   const { data: remoteRows, error: remoteError } = await supabase
     .from("notes")
-    .select("date, key_id, ciphertext, nonce")
+    .select("id, journal_id, date, key_id, ciphertext, nonce")
     .eq("user_id", userId)
     .eq("_deleted", false);
 
   if (remoteError) throw remoteError;
 
+  const { noteKeys, pinned } = await fetchPinnedKeyIds(supabase, userId);
   const usedKeyIds = new Set<string>();
   let reencrypted = 0;
 
-  for (const row of remoteRows ?? []) {
-    const r = row as Record<string, unknown>;
-    if (
-      typeof r.date !== "string" ||
-      typeof r.key_id !== "string" ||
-      typeof r.ciphertext !== "string" ||
-      typeof r.nonce !== "string"
-    ) {
-      continue;
-    }
-    const note = { date: r.date, key_id: r.key_id, ciphertext: r.ciphertext, nonce: r.nonce };
-
-    // If note uses primary key, keep as-is
-    if (note.key_id === activeKeyId) {
+  for (const note of (remoteRows ?? []).filter(isRemoteNoteRow)) {
+    // Notes on the primary key or their journal's own key stay as they are
+    if (note.key_id === activeKeyId || noteKeys.includes(note.key_id)) {
       usedKeyIds.add(note.key_id);
       continue;
     }
@@ -376,8 +725,9 @@ export async function cleanupUnusedKeys(options: {
       continue;
     }
 
+    // The whole payload, so weather and a private note's date survive
     const newIv = randomBytes(NOTE_IV_BYTES);
-    const envelope = { content: sanitizeHtml(parsed.content) };
+    const envelope = { ...parsed, content: sanitizeHtml(parsed.content) };
     const plaintext = encodeUtf8(JSON.stringify(envelope));
     const encrypted = await crypto.subtle.encrypt(
       { name: "AES-GCM", iv: newIv },
@@ -388,6 +738,7 @@ export async function cleanupUnusedKeys(options: {
     const newCiphertext = bytesToBase64(new Uint8Array(encrypted));
     const newNonce = bytesToBase64(newIv);
 
+    // By row: every journal has its own note for a date
     const { error: pushError } = await supabase
       .from("notes")
       .update({
@@ -396,7 +747,8 @@ export async function cleanupUnusedKeys(options: {
         nonce: newNonce,
       })
       .eq("user_id", userId)
-      .eq("date", note.date);
+      .eq("id", note.id)
+      .eq("journal_id", note.journal_id);
     if (pushError) throw pushError;
 
     // RxDB replication will pull the re-encrypted note automatically
@@ -422,7 +774,11 @@ export async function cleanupUnusedKeys(options: {
   const kept: string[] = [];
 
   for (const entry of entries) {
-    if (entry.keyId === activeKeyId || usedKeyIds.has(entry.keyId)) {
+    if (
+      entry.keyId === activeKeyId ||
+      usedKeyIds.has(entry.keyId) ||
+      pinned.has(entry.keyId)
+    ) {
       kept.push(entry.keyId);
     } else {
       await deleteUserKeyringEntry(supabase, userId, entry.keyId);
@@ -462,26 +818,22 @@ export async function reencryptCloudNotes(options: {
   // error). The new schema's soft-delete column is `_deleted`.
   const { data: rows, error } = await sb
     .from("notes")
-    .select("date, key_id, ciphertext, nonce, updated_at")
+    .select("id, journal_id, date, key_id, ciphertext, nonce")
     .eq("user_id", userId)
     .eq("_deleted", false);
   if (error) throw error;
 
-  const notes = (rows ?? []).filter(
-    (r): r is { date: string; key_id: string; ciphertext: string; nonce: string; updated_at: string } =>
-      typeof (r as Record<string, unknown>).date === "string" &&
-      typeof (r as Record<string, unknown>).key_id === "string" &&
-      typeof (r as Record<string, unknown>).ciphertext === "string" &&
-      typeof (r as Record<string, unknown>).nonce === "string",
-  );
+  const notes = (rows ?? []).filter(isRemoteNoteRow);
+  const { noteKeys, pinned } = await fetchPinnedKeyIds(sb, userId);
 
-  // 2. Re-encrypt notes that use non-primary keys
+  // 2. Re-encrypt notes that use non-primary keys, except those on their
+  // journal's own key
   let reencrypted = 0;
   for (let i = 0; i < notes.length; i++) {
     const note = notes[i];
     onProgress?.(i, notes.length);
 
-    if (note.key_id === primaryKeyId) continue;
+    if (note.key_id === primaryKeyId || noteKeys.includes(note.key_id)) continue;
 
     const oldKey = keyring.get(note.key_id);
     if (!oldKey) throw new Error(`DEK not found for keyId ${note.key_id}`);
@@ -499,9 +851,10 @@ export async function reencryptCloudNotes(options: {
     );
     if (!parsed) throw new Error(`Failed to parse decrypted note ${note.date}`);
 
-    // Re-encrypt with primary key
+    // Re-encrypt with primary key, keeping the whole payload so weather
+    // and a private note's date survive
     const newIv = randomBytes(NOTE_IV_BYTES);
-    const envelope = { content: sanitizeHtml(parsed.content) };
+    const envelope = { ...parsed, content: sanitizeHtml(parsed.content) };
     const plaintext = encodeUtf8(JSON.stringify(envelope));
     const encrypted = await crypto.subtle.encrypt(
       { name: "AES-GCM", iv: newIv },
@@ -512,8 +865,8 @@ export async function reencryptCloudNotes(options: {
     const newCiphertext = bytesToBase64(new Uint8Array(encrypted));
     const newNonce = bytesToBase64(newIv);
 
-    // Update by (user_id, date) — the unique constraint on the new schema.
-    // Don't bump updated_at: it's the deterministic field local replication
+    // Update by row id — dates repeat across journals, so (user_id, date)
+    // would overwrite every journal's note for the day. Don't bump updated_at: it's the deterministic field local replication
     // uses for optimistic concurrency. Bumping it here would invalidate any
     // in-flight push from a peer device, forcing a conflict that resolves
     // to this re-encryption (silently dropping the peer's edit). The
@@ -526,7 +879,8 @@ export async function reencryptCloudNotes(options: {
         nonce: newNonce,
       })
       .eq("user_id", userId)
-      .eq("date", note.date);
+      .eq("id", note.id)
+      .eq("journal_id", note.journal_id);
     if (pushError) throw pushError;
 
     // RxDB replication will pull the re-encrypted note automatically
@@ -535,11 +889,22 @@ export async function reencryptCloudNotes(options: {
 
   onProgress?.(notes.length, notes.length);
 
-  // 3. Delete all non-primary keyring entries from Supabase
+  // 3. Delete the other keyring entries from Supabase, except pinned keys
+  // and keys images still use (images aren't re-encrypted here)
+  const { data: remoteImages, error: imgError } = await sb
+    .from("note_images")
+    .select("key_id")
+    .eq("user_id", userId)
+    .eq("deleted", false);
+  if (imgError) throw imgError;
+  for (const img of remoteImages ?? []) {
+    if (img.key_id) pinned.add(img.key_id);
+  }
+
   const entries = await fetchUserKeyring(sb, userId);
   const deleted: string[] = [];
   for (const entry of entries) {
-    if (entry.keyId === primaryKeyId) continue;
+    if (entry.keyId === primaryKeyId || pinned.has(entry.keyId)) continue;
     await deleteUserKeyringEntry(sb, userId, entry.keyId);
     deleted.push(entry.keyId);
   }
@@ -551,18 +916,12 @@ export async function reencryptCloudNotes(options: {
   }
 
   // 5. Rewrap primary DEK with password KEK
-  const salt = generateSalt();
-  const kek = await deriveKEK(password, salt, DEFAULT_KDF_ITERATIONS);
-  const wrapped = await wrapDEK(primaryKey, kek);
-  await saveUserKeyringEntry(sb, userId, {
-    keyId: primaryKeyId,
-    wrappedDek: wrapped.data,
-    dekIv: wrapped.iv,
-    kdfSalt: salt,
-    kdfIterations: DEFAULT_KDF_ITERATIONS,
-    version: 1,
-    isPrimary: true,
-  });
+  const wrapping = await createKeyWrapping(password);
+  await saveUserKeyringEntry(
+    sb,
+    userId,
+    await wrapKeyringEntry(wrapping, primaryKeyId, primaryKey, true),
+  );
 
   return { reencrypted, deleted };
 }
@@ -575,5 +934,9 @@ export function createVaultService(supabase: SupabaseClient): VaultService {
     getHasLocalVault,
     bootstrapLocalVault,
     unlockLocalVault,
+    hasLocalPasskey,
+    unlockLocalVaultWithPasskey,
+    unlockCloudVaultWithPasskey: (options) =>
+      unlockCloudVaultWithPasskey({ supabase, ...options }),
   };
 }
@@ -0,0 +1,339 @@
+import type { NoteRepository } from "../storage/noteRepository";
+import type { ImageRepository } from "../storage/imageRepository";
+import type { Note } from "../types";
+import type { ExportProgress } from "./exportNotes";
+import { dateToFilename } from "./exportNotes";
+import { applySectionColors } from "./sectionColors";
+import { formatDailyWeatherLabel } from "../domain/weather/WeatherDom";
+import { sanitizeHtml } from "../utils/sanitize";
+import { formatDateDisplay, parseDate } from "../utils/date";
+
+export interface YearBookRange {
+  from: string; // DD-MM-YYYY, inclusive
+  to: string; // DD-MM-YYYY, inclusive
+}
+
+export interface YearBookOptions {
+  range: YearBookRange;
+  title?: string;
+  imageRepository?: ImageRepository | null;
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+const HUE_COUNT = 8;
+
+export function yearRange(year: number): YearBookRange {
+  return { from: `01-01-${year}`, to: `31-12-${year}` };
+}
+
+function dayKey(date: string): number | null {
+  const parsed = parseDate(date);
+  if (!parsed) return null;
+  return (
+    parsed.getFullYear() * 10000 + (parsed.getMonth() + 1) * 100 + parsed.getDate()
+  );
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// The year a range covers exactly (1 Jan – 31 Dec), if any
+function wholeYear(range: YearBookRange): string | null {
+  const from = dateToFilename(range.from);
+  const to = dateToFilename(range.to);
+  const year = from.slice(0, 4);
+  return from === `${year}-01-01` && to === `${year}-12-31` ? year : null;
+}
+
+function defaultTitle(range: YearBookRange): string {
+  const year = wholeYear(range);
+  if (year) return `Ichinichi ${year}`;
+  return `Ichinichi ${dateToFilename(range.from)} – ${dateToFilename(range.to)}`;
+}
+
+const HUE_RULES = Array.from(
+  { length: HUE_COUNT },
+  (_, slot) => `.section-hue-${slot} { --sh: ${(360 / HUE_COUNT) * slot}; }`,
+).join("\n");
+
+const YEAR_BOOK_CSS = `
+:root { color-scheme: light; }
+* { box-sizing: border-box; }
+body {
+  margin: 0 auto;
+  max-width: 42rem;
+  padding: 3rem 1.5rem;
+  font-family: Georgia, "Iowan Old Style", "Times New Roman", serif;
+  font-size: 16px;
+  line-height: 1.6;
+  color: #1f2328;
+  background: #fff;
+}
+h1.book-title {
+  font-size: 2.5rem;
+  font-weight: 600;
+  text-align: center;
+  margin: 0 0 0.25rem;
+}
+.book-range {
+  text-align: center;
+  color: #6e7781;
+  margin: 0 0 3rem;
+}
+.day { margin: 0 0 3rem; }
+.day-header {
+  display: flex;
+  flex-wrap: wrap;
+  align-items: baseline;
+  justify-content: space-between;
+  gap: 0.25rem 1rem;
+  border-bottom: 2px solid #1f2328;
+  padding-bottom: 0.25rem;
+  margin-bottom: 1rem;
+  break-after: avoid;
+}
+.day-header h2 { font-size: 1.25rem; margin: 0; }
+.weather { color: #6e7781; font-size: 0.875rem; }
+.content p { margin: 0 0 0.5rem; }
+.content img {
+  display: block;
+  max-width: 100%;
+  height: auto;
+  margin: 0.75rem 0;
+  border-radius: 6px;
+  break-inside: avoid;
+}
+.content a { color: #0969da; }
+.content blockquote {
+  margin: 0.5rem 0;
+  padding-left: 1rem;
+  border-left: 3px solid #d0d7de;
+  color: #57606a;
+}
+.content hr {
+  position: relative;
+  border: none;
+  border-top: 1px solid #d0d7de;
+  margin: 1.75rem 0 1rem;
+  overflow: visible;
+}
+.content hr[data-label]::before {
+  content: attr(data-label);
+  position: absolute;
+  right: 0;
+  top: -0.8rem;
+  padding: 0 0.5rem;
+  background: #fff;
+  font-family: system-ui, sans-serif;
+  font-size: 0.75rem;
+  color: #6e7781;
+}
+.content [data-section-type] {
+  display: inline-block;
+  font-family: system-ui, sans-serif;
+  font-size: 0.875rem;
+  font-weight: 600;
+  padding: 1px 8px;
+  border-radius: 4px;
+  margin: 0.5rem 0 0.25rem;
+}
+.content [data-section-type] + div,
+.content [data-section-type] + p {
+  padding-left: 1rem;
+  margin-bottom: 0.5rem;
+  border-left: 3px solid;
+}
+${HUE_RULES}
+.content [data-section-type][class*="section-hue-"] {
+  color: hsl(var(--sh) 40% 35%);
+  background: hsl(var(--sh) 50% 93%);
+}
+.content [data-section-type] + [class*="section-hue-"] {
+  border-left-color: hsl(var(--sh) 45% 65%);
+}
+@page { margin: 18mm 16mm; }
+@media print {
+  body { max-width: none; padding: 0; font-size: 11pt; }
+  * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  .cover { break-after: page; padding-top: 30vh; }
+  .day { break-inside: auto; }
+  .content a { color: inherit; text-decoration: none; }
+}
+`;
+
+/**
+ * Parse a stored note for the year book: re-sanitized, with section hue
+ * classes applied.
+ */
+function parseNoteContent(content: string): HTMLElement {
+  const container = document.createElement("div");
+  container.innerHTML = sanitizeHtml(content);
+  applySectionColors(container);
+  return container;
+}
+
+function noteImages(container: HTMLElement): HTMLImageElement[] {
+  return Array.from(
+    container.querySelectorAll<HTMLImageElement>("img[data-image-id]"),
+  );
+}
+
+/**
+ * Render a parsed note as year-book HTML, with inline images swapped for
+ * data URIs.
+ */
+async function renderNoteContent(
+  container: HTMLElement,
+  imageRepository: ImageRepository | null | undefined,
+  onImage: () => void,
+): Promise<string> {
+  for (const img of noteImages(container)) {
+    onImage();
+    const id = img.getAttribute("data-image-id") ?? "";
+    const blob = imageRepository ? await imageRepository.get(id) : null;
+    if (blob?.ok && blob.value) {
+      img.setAttribute("src", await blobToDataUrl(blob.value));
+      img.removeAttribute("data-image-id");
+    } else {
+      img.remove();
+    }
+  }
+
+  for (const el of container.querySelectorAll("[contenteditable]")) {
+    el.removeAttribute("contenteditable");
+  }
+  return container.innerHTML;
+}
+
+/**
+ * Build a self-contained HTML "year book" for a date range: every note in
+ * chronological order with its weather label, timestamp dividers, section
+ * colors and embedded images, plus a print stylesheet so the browser can
+ * save it as a PDF. Returns null if the range has no notes.
+ */
+export async function buildYearBookHtml(
+  repository: NoteRepository,
+  options: YearBookOptions,
+): Promise<string | null> {
+  const { range, imageRepository, onProgress } = options;
+  const from = dayKey(range.from);
+  const to = dayKey(range.to);
+  if (from === null || to === null) {
+    throw new Error(`Invalid year book range: ${range.from} – ${range.to}`);
+  }
+
+  const datesResult = await repository.getAllDates();
+  if (!datesResult.ok) {
+    throw new Error(`Failed to fetch note dates: ${datesResult.error.type}`);
+  }
+
+  const dates = datesResult.value
+    .map((date) => ({ date, key: dayKey(date) }))
+    .filter(
+      (entry): entry is { date: string; key: number } =>
+        entry.key !== null && entry.key >= from && entry.key <= to,
+    )
+    .sort((a, b) => a.key - b.key)
+    .map((entry) => entry.date);
+
+  const total = dates.length;
+  const notes: { date: string; container: HTMLElement; weather: Note["weather"] }[] = [];
+
+  for (let i = 0; i < dates.length; i++) {
+    onProgress?.({ phase: "fetching", current: i + 1, total });
+
+    const noteResult = await repository.get(dates[i]);
+    if (!noteResult.ok || !noteResult.value) continue;
+    const { content, weather } = noteResult.value;
+    notes.push({ date: dates[i], container: parseNoteContent(content), weather });
+  }
+
+  const imageTotal = notes.reduce(
+    (count, { container }) => count + noteImages(container).length,
+    0,
+  );
+  let imageCount = 0;
+  const days: string[] = [];
+
+  for (const { date, container, weather } of notes) {
+    const body = await renderNoteContent(container, imageRepository, () => {
+      imageCount++;
+      onProgress?.({ phase: "images", current: imageCount, total: imageTotal });
+    });
+    if (!body.trim()) continue;
+
+    const weatherLabel = weather
+      ? `<span class="weather">${escapeHtml(formatDailyWeatherLabel(weather))}</span>`
+      : "";
+    days.push(
+      `<article class="day" id="day-${dateToFilename(date)}">` +
+        `<header class="day-header"><h2>${escapeHtml(formatDateDisplay(date))}</h2>${weatherLabel}</header>` +
+        `<div class="content">${body}</div>` +
+        `</article>`,
+    );
+  }
+
+  if (days.length === 0) return null;
+
+  onProgress?.({ phase: "converting", current: total, total });
+
+  const title = escapeHtml(options.title ?? defaultTitle(range));
+  const rangeLabel = escapeHtml(
+    `${formatDateDisplay(range.from)} – ${formatDateDisplay(range.to)}`,
+  );
+  return [
+    "<!doctype html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${title}</title>`,
+    `<style>${YEAR_BOOK_CSS}</style>`,
+    "</head>",
+    "<body>",
+    `<section class="cover"><h1 class="book-title">${title}</h1><p class="book-range">${rangeLabel}</p></section>`,
+    ...days,
+    "</body>",
+    "</html>",
+  ].join("\n");
+}
+
+export function yearBookFilename(range: YearBookRange): string {
+  const year = wholeYear(range);
+  if (year) return `ichinichi-${year}.html`;
+  return `ichinichi-${dateToFilename(range.from)}-to-${dateToFilename(range.to)}.html`;
+}
+
+/**
+ * Write a year book into a window opened by the caller (it must be opened
+ * synchronously from the click, or popup blockers step in) and bring up
+ * the print dialog once images are decoded.
+ */
+export function printYearBook(target: Window, html: string): void {
+  target.document.open();
+  target.document.write(html);
+  target.document.close();
+  const print = () => {
+    target.focus();
+    target.print();
+  };
+  if (target.document.readyState === "complete") {
+    print();
+  } else {
+    target.addEventListener("load", print, { once: true });
+  }
+}
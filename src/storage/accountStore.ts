@@ -1,5 +1,6 @@
 import { STORAGE_PREFIX } from "../utils/constants";
 import { parseUserAccountMap } from "./parsers";
+import { profileStorageKey } from "./profiles";
 
 const CURRENT_ACCOUNT_ID_KEY = `${STORAGE_PREFIX}account_current_v1`;
 const NEXT_ACCOUNT_ID_KEY = `${STORAGE_PREFIX}account_next_id_v1`;
@@ -12,7 +13,7 @@ type UserAccountMap = Record<string, string>;
 
 function loadUserAccountMap(): UserAccountMap {
   if (typeof window === "undefined") return {};
-  const raw = localStorage.getItem(USER_ACCOUNT_MAP_KEY);
+  const raw = localStorage.getItem(profileStorageKey(USER_ACCOUNT_MAP_KEY));
   if (!raw) return {};
   try {
     return parseUserAccountMap(JSON.parse(raw)) ?? {};
@@ -23,17 +24,20 @@ function loadUserAccountMap(): UserAccountMap {
 
 function saveUserAccountMap(map: UserAccountMap): void {
   if (typeof window === "undefined") return;
-  localStorage.setItem(USER_ACCOUNT_MAP_KEY, JSON.stringify(map));
+  localStorage.setItem(
+    profileStorageKey(USER_ACCOUNT_MAP_KEY),
+    JSON.stringify(map),
+  );
 }
 
 export function getCurrentAccountId(): string | null {
   if (typeof window === "undefined") return null;
-  return localStorage.getItem(CURRENT_ACCOUNT_ID_KEY);
+  return localStorage.getItem(profileStorageKey(CURRENT_ACCOUNT_ID_KEY));
 }
 
 export function setCurrentAccountId(accountId: string): void {
   if (typeof window === "undefined") return;
-  localStorage.setItem(CURRENT_ACCOUNT_ID_KEY, accountId);
+  localStorage.setItem(profileStorageKey(CURRENT_ACCOUNT_ID_KEY), accountId);
 }
 
 export function getAccountIdForUser(userId: string): string | null {
@@ -62,14 +66,14 @@ export function getOrCreateCurrentAccountId(): string {
   const accountId = "1";
   setCurrentAccountId(accountId);
   if (typeof window !== "undefined") {
-    localStorage.setItem(NEXT_ACCOUNT_ID_KEY, "2");
+    localStorage.setItem(profileStorageKey(NEXT_ACCOUNT_ID_KEY), "2");
   }
   return accountId;
 }
 
 export function createNextAccountId(): string {
   if (typeof window === "undefined") return "1";
-  const nextRaw = localStorage.getItem(NEXT_ACCOUNT_ID_KEY);
+  const nextRaw = localStorage.getItem(profileStorageKey(NEXT_ACCOUNT_ID_KEY));
   let nextId = nextRaw ? Number(nextRaw) : NaN;
   if (!Number.isFinite(nextId) || nextId < 2) {
     const current = getCurrentAccountId();
@@ -82,7 +86,10 @@ export function createNextAccountId(): string {
     nextId = maxId + 1;
   }
   const newId = String(nextId);
-  localStorage.setItem(NEXT_ACCOUNT_ID_KEY, String(nextId + 1));
+  localStorage.setItem(
+    profileStorageKey(NEXT_ACCOUNT_ID_KEY),
+    String(nextId + 1),
+  );
   return newId;
 }
 
@@ -0,0 +1,494 @@
+/**
+ * Argon2id (RFC 9106, version 0x13) in plain TypeScript.
+ *
+ * Web Crypto has no memory-hard KDF, and the vault has to derive keys in
+ * every browser and in the desktop shell, so this stays dependency-free.
+ * 64-bit words are kept as (low, high) pairs of 32-bit integers.
+ */
+
+export interface Argon2idParams {
+  // Passes over memory (t)
+  iterations: number;
+  // Memory size in KiB (m)
+  memoryKiB: number;
+  // Lanes (p)
+  parallelism: number;
+  hashLength: number;
+  secret?: Uint8Array;
+  associatedData?: Uint8Array;
+}
+
+const ARGON2_VERSION = 0x13;
+const ARGON2_TYPE_ID = 2;
+const SYNC_POINTS = 4;
+// A block is 1024 bytes: 128 64-bit words, 256 32-bit halves
+const BLOCK_WORDS = 256;
+const ADDRESSES_IN_BLOCK = 128;
+
+// ── BLAKE2b ─────────────────────────────────────────────────────────
+
+const BLAKE2B_IV = new Uint32Array([
+  0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85, 0xfe94f82b, 0x3c6ef372,
+  0x5f1d36f1, 0xa54ff53a, 0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c,
+  0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19,
+]);
+
+const SIGMA = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+  [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+  [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+  [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+  [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+  [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+  [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+  [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+  [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0],
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+];
+
+// v[a] += v[b] + m, on the pair starting at index 2a
+function add64(v: Uint32Array, a: number, b: number): void {
+  const lo = v[a] + v[b];
+  let hi = v[a + 1] + v[b + 1];
+  if (lo >= 0x100000000) hi++;
+  v[a] = lo;
+  v[a + 1] = hi;
+}
+
+function add64Msg(v: Uint32Array, a: number, m: Uint32Array, i: number): void {
+  const lo = v[a] + m[i];
+  let hi = v[a + 1] + m[i + 1];
+  if (lo >= 0x100000000) hi++;
+  v[a] = lo;
+  v[a + 1] = hi;
+}
+
+// v[d] = (v[d] ^ v[a]) >>> n, rotated right, for n in 16, 24, 32, 63
+function xorRotr(v: Uint32Array, d: number, a: number, n: number): void {
+  const lo = v[d] ^ v[a];
+  const hi = v[d + 1] ^ v[a + 1];
+  if (n === 32) {
+    v[d] = hi;
+    v[d + 1] = lo;
+  } else if (n < 32) {
+    v[d] = (lo >>> n) | (hi << (32 - n));
+    v[d + 1] = (hi >>> n) | (lo << (32 - n));
+  } else {
+    const s = n - 32;
+    v[d] = (hi >>> s) | (lo << (32 - s));
+    v[d + 1] = (lo >>> s) | (hi << (32 - s));
+  }
+}
+
+function blake2bMix(
+  v: Uint32Array,
+  m: Uint32Array,
+  a: number,
+  b: number,
+  c: number,
+  d: number,
+  x: number,
+  y: number,
+): void {
+  add64(v, a, b);
+  add64Msg(v, a, m, x);
+  xorRotr(v, d, a, 32);
+  add64(v, c, d);
+  xorRotr(v, b, c, 24);
+  add64(v, a, b);
+  add64Msg(v, a, m, y);
+  xorRotr(v, d, a, 16);
+  add64(v, c, d);
+  xorRotr(v, b, c, 63);
+}
+
+class Blake2b {
+  private h = new Uint32Array(16);
+  private v = new Uint32Array(32);
+  private m = new Uint32Array(32);
+  private buffer = new Uint8Array(128);
+  private filled = 0;
+  // Total bytes compressed so far; inputs here stay far below 2^53
+  private length = 0;
+  private outLength: number;
+
+  constructor(outLength: number) {
+    this.outLength = outLength;
+    this.h.set(BLAKE2B_IV);
+    this.h[0] ^= 0x01010000 ^ outLength;
+  }
+
+  update(input: Uint8Array): this {
+    for (let i = 0; i < input.length; i++) {
+      if (this.filled === 128) {
+        this.length += 128;
+        this.compress(false);
+        this.filled = 0;
+      }
+      this.buffer[this.filled++] = input[i];
+    }
+    return this;
+  }
+
+  digest(): Uint8Array<ArrayBuffer> {
+    this.length += this.filled;
+    this.buffer.fill(0, this.filled);
+    this.compress(true);
+    const out = new Uint8Array(this.outLength);
+    for (let i = 0; i < this.outLength; i++) {
+      out[i] = this.h[i >> 2] >>> (8 * (i & 3));
+    }
+    return out;
+  }
+
+  private compress(last: boolean): void {
+    const { v, m, h, buffer } = this;
+    for (let i = 0; i < 32; i++) {
+      m[i] =
+        buffer[4 * i] |
+        (buffer[4 * i + 1] << 8) |
+        (buffer[4 * i + 2] << 16) |
+        (buffer[4 * i + 3] << 24);
+    }
+    v.set(h);
+    v.set(BLAKE2B_IV, 16);
+    v[24] ^= this.length >>> 0;
+    v[25] ^= Math.floor(this.length / 0x100000000);
+    if (last) {
+      v[28] = ~v[28];
+      v[29] = ~v[29];
+    }
+    for (let r = 0; r < 12; r++) {
+      const s = SIGMA[r];
+      blake2bMix(v, m, 0, 8, 16, 24, s[0] * 2, s[1] * 2);
+      blake2bMix(v, m, 2, 10, 18, 26, s[2] * 2, s[3] * 2);
+      blake2bMix(v, m, 4, 12, 20, 28, s[4] * 2, s[5] * 2);
+      blake2bMix(v, m, 6, 14, 22, 30, s[6] * 2, s[7] * 2);
+      blake2bMix(v, m, 0, 10, 20, 30, s[8] * 2, s[9] * 2);
+      blake2bMix(v, m, 2, 12, 22, 24, s[10] * 2, s[11] * 2);
+      blake2bMix(v, m, 4, 14, 16, 26, s[12] * 2, s[13] * 2);
+      blake2bMix(v, m, 6, 8, 18, 28, s[14] * 2, s[15] * 2);
+    }
+    for (let i = 0; i < 16; i++) {
+      h[i] ^= v[i] ^ v[i + 16];
+    }
+  }
+}
+
+function le32(value: number): Uint8Array {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, value, true);
+  return out;
+}
+
+// H' from RFC 9106 §3.3: BLAKE2b extended to any output length
+function blake2bLong(
+  outLength: number,
+  ...inputs: Uint8Array[]
+): Uint8Array<ArrayBuffer> {
+  if (outLength <= 64) {
+    const hash = new Blake2b(outLength).update(le32(outLength));
+    inputs.forEach((input) => hash.update(input));
+    return hash.digest();
+  }
+  const out = new Uint8Array(outLength);
+  const first = new Blake2b(64).update(le32(outLength));
+  inputs.forEach((input) => first.update(input));
+  let v = first.digest();
+  out.set(v.subarray(0, 32), 0);
+  let offset = 32;
+  while (outLength - offset > 64) {
+    v = new Blake2b(64).update(v).digest();
+    out.set(v.subarray(0, 32), offset);
+    offset += 32;
+  }
+  out.set(new Blake2b(outLength - offset).update(v).digest(), offset);
+  return out;
+}
+
+// ── Compression function G ──────────────────────────────────────────
+
+// BlaMka: a = a + b + 2 * lo(a) * lo(b), on the word pairs at a and b
+function blamka(v: Uint32Array, a: number, b: number): void {
+  const x = v[a];
+  const y = v[b];
+  // 32x32 -> 64-bit product from 16-bit halves
+  const xl = x & 0xffff;
+  const xh = x >>> 16;
+  const yl = y & 0xffff;
+  const yh = y >>> 16;
+  const ll = xl * yl;
+  const lh = xl * yh;
+  const hl = xh * yl;
+  const mid = (ll >>> 16) + (lh & 0xffff) + (hl & 0xffff);
+  let plo = ((mid & 0xffff) << 16) | (ll & 0xffff);
+  let phi = xh * yh + (lh >>> 16) + (hl >>> 16) + (mid >>> 16);
+  // Double it
+  phi = (phi << 1) | (plo >>> 31);
+  plo = (plo << 1) >>> 0;
+
+  let lo = v[a] + v[b];
+  let hi = v[a + 1] + v[b + 1] + (lo >= 0x100000000 ? 1 : 0);
+  lo >>>= 0;
+  const lo2 = lo + plo;
+  hi = hi + phi + (lo2 >= 0x100000000 ? 1 : 0);
+  v[a] = lo2;
+  v[a + 1] = hi;
+}
+
+function permuteMix(v: Uint32Array, a: number, b: number, c: number, d: number): void {
+  blamka(v, a, b);
+  xorRotr(v, d, a, 32);
+  blamka(v, c, d);
+  xorRotr(v, b, c, 24);
+  blamka(v, a, b);
+  xorRotr(v, d, a, 16);
+  blamka(v, c, d);
+  xorRotr(v, b, c, 63);
+}
+
+// P over sixteen 64-bit words whose pair offsets are given in idx
+function permute(v: Uint32Array, idx: Int32Array): void {
+  permuteMix(v, idx[0], idx[4], idx[8], idx[12]);
+  permuteMix(v, idx[1], idx[5], idx[9], idx[13]);
+  permuteMix(v, idx[2], idx[6], idx[10], idx[14]);
+  permuteMix(v, idx[3], idx[7], idx[11], idx[15]);
+  permuteMix(v, idx[0], idx[5], idx[10], idx[15]);
+  permuteMix(v, idx[1], idx[6], idx[11], idx[12]);
+  permuteMix(v, idx[2], idx[7], idx[8], idx[13]);
+  permuteMix(v, idx[3], idx[4], idx[9], idx[14]);
+}
+
+// Word offsets of the 8 rows and 8 columns of the 8x8 register matrix
+const ROWS: Int32Array[] = [];
+const COLUMNS: Int32Array[] = [];
+for (let i = 0; i < 8; i++) {
+  const row = new Int32Array(16);
+  const column = new Int32Array(16);
+  for (let j = 0; j < 16; j++) {
+    row[j] = (16 * i + j) * 2;
+    column[j] = (2 * i + (j & 1) + 16 * (j >> 1)) * 2;
+  }
+  ROWS.push(row);
+  COLUMNS.push(column);
+}
+
+const scratchR = new Uint32Array(BLOCK_WORDS);
+const scratchQ = new Uint32Array(BLOCK_WORDS);
+
+/**
+ * out = G(x, y), or out ^= G(x, y) when `xor` is set (passes after the
+ * first). Blocks are given as offsets into their arrays.
+ */
+function compress(
+  out: Uint32Array,
+  outOffset: number,
+  x: Uint32Array,
+  xOffset: number,
+  y: Uint32Array,
+  yOffset: number,
+  xor: boolean,
+): void {
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    scratchR[i] = x[xOffset + i] ^ y[yOffset + i];
+  }
+  scratchQ.set(scratchR);
+  for (let i = 0; i < 8; i++) permute(scratchQ, ROWS[i]);
+  for (let i = 0; i < 8; i++) permute(scratchQ, COLUMNS[i]);
+  if (xor) {
+    for (let i = 0; i < BLOCK_WORDS; i++) {
+      out[outOffset + i] ^= scratchQ[i] ^ scratchR[i];
+    }
+  } else {
+    for (let i = 0; i < BLOCK_WORDS; i++) {
+      out[outOffset + i] = scratchQ[i] ^ scratchR[i];
+    }
+  }
+}
+
+// ── Argon2id ────────────────────────────────────────────────────────
+
+function bytesToWords(bytes: Uint8Array, out: Uint32Array, offset: number): void {
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    out[offset + i] =
+      bytes[4 * i] |
+      (bytes[4 * i + 1] << 8) |
+      (bytes[4 * i + 2] << 16) |
+      (bytes[4 * i + 3] << 24);
+  }
+}
+
+function wordsToBytes(words: Uint32Array): Uint8Array {
+  const out = new Uint8Array(words.length * 4);
+  for (let i = 0; i < words.length; i++) {
+    out[4 * i] = words[i];
+    out[4 * i + 1] = words[i] >>> 8;
+    out[4 * i + 2] = words[i] >>> 16;
+    out[4 * i + 3] = words[i] >>> 24;
+  }
+  return out;
+}
+
+function withLength(bytes: Uint8Array): Uint8Array[] {
+  return [le32(bytes.length), bytes];
+}
+
+export function argon2id(
+  password: Uint8Array,
+  salt: Uint8Array,
+  params: Argon2idParams,
+): Uint8Array<ArrayBuffer> {
+  const { iterations, parallelism, hashLength } = params;
+  if (iterations < 1 || parallelism < 1 || hashLength < 4) {
+    throw new Error("Invalid Argon2id parameters");
+  }
+  if (salt.length < 8) throw new Error("Argon2id salt is too short");
+  if (params.memoryKiB < 8 * parallelism) {
+    throw new Error("Argon2id memory is too small for its parallelism");
+  }
+
+  const prehash = new Blake2b(64);
+  [
+    le32(parallelism),
+    le32(hashLength),
+    le32(params.memoryKiB),
+    le32(iterations),
+    le32(ARGON2_VERSION),
+    le32(ARGON2_TYPE_ID),
+    ...withLength(password),
+    ...withLength(salt),
+    ...withLength(params.secret ?? new Uint8Array(0)),
+    ...withLength(params.associatedData ?? new Uint8Array(0)),
+  ].forEach((input) => prehash.update(input));
+  const h0 = prehash.digest();
+
+  const segmentLength = Math.floor(params.memoryKiB / (SYNC_POINTS * parallelism));
+  const laneLength = segmentLength * SYNC_POINTS;
+  const blockCount = laneLength * parallelism;
+  const memory = new Uint32Array(blockCount * BLOCK_WORDS);
+
+  for (let lane = 0; lane < parallelism; lane++) {
+    for (let j = 0; j < 2; j++) {
+      bytesToWords(
+        blake2bLong(1024, h0, le32(j), le32(lane)),
+        memory,
+        (lane * laneLength + j) * BLOCK_WORDS,
+      );
+    }
+  }
+
+  const zero = new Uint32Array(BLOCK_WORDS);
+  const input = new Uint32Array(BLOCK_WORDS);
+  const address = new Uint32Array(BLOCK_WORDS);
+
+  const nextAddresses = () => {
+    input[12]++;
+    compress(address, 0, zero, 0, input, 0, false);
+    compress(address, 0, zero, 0, address, 0, false);
+  };
+
+  for (let pass = 0; pass < iterations; pass++) {
+    for (let slice = 0; slice < SYNC_POINTS; slice++) {
+      // Lanes within a slice are independent; filled one after another
+      for (let lane = 0; lane < parallelism; lane++) {
+        const dataIndependent = pass === 0 && slice < SYNC_POINTS / 2;
+        if (dataIndependent) {
+          input.fill(0);
+          input[0] = pass;
+          input[2] = lane;
+          input[4] = slice;
+          input[6] = blockCount;
+          input[8] = iterations;
+          input[10] = ARGON2_TYPE_ID;
+        }
+
+        let start = 0;
+        if (pass === 0 && slice === 0) {
+          start = 2;
+          if (dataIndependent) nextAddresses();
+        }
+
+        let current = lane * laneLength + slice * segmentLength + start;
+        let previous =
+          current % laneLength === 0 ? current + laneLength - 1 : current - 1;
+
+        for (let index = start; index < segmentLength; index++, current++, previous++) {
+          if (current % laneLength === 1) previous = current - 1;
+
+          let j1: number;
+          let j2: number;
+          if (dataIndependent) {
+            if (index % ADDRESSES_IN_BLOCK === 0) nextAddresses();
+            const word = (index % ADDRESSES_IN_BLOCK) * 2;
+            j1 = address[word];
+            j2 = address[word + 1];
+          } else {
+            j1 = memory[previous * BLOCK_WORDS];
+            j2 = memory[previous * BLOCK_WORDS + 1];
+          }
+
+          const refLane = pass === 0 && slice === 0 ? lane : j2 % parallelism;
+          const sameLane = refLane === lane;
+
+          let areaSize: number;
+          if (pass === 0) {
+            areaSize =
+              slice === 0
+                ? index - 1
+                : sameLane
+                  ? slice * segmentLength + index - 1
+                  : slice * segmentLength + (index === 0 ? -1 : 0);
+          } else {
+            areaSize = sameLane
+              ? laneLength - segmentLength + index - 1
+              : laneLength - segmentLength + (index === 0 ? -1 : 0);
+          }
+
+          // relative = area - 1 - (area * (j1^2 >> 32) >> 32)
+          const x = mulHigh(j1, j1);
+          const relative = areaSize - 1 - mulHigh(areaSize, x);
+          const startPosition =
+            pass !== 0 && slice !== SYNC_POINTS - 1
+              ? (slice + 1) * segmentLength
+              : 0;
+          const refIndex = (startPosition + relative) % laneLength;
+
+          compress(
+            memory,
+            current * BLOCK_WORDS,
+            memory,
+            previous * BLOCK_WORDS,
+            memory,
+            (refLane * laneLength + refIndex) * BLOCK_WORDS,
+            pass > 0,
+          );
+        }
+      }
+    }
+  }
+
+  const final = memory.slice(
+    (laneLength - 1) * BLOCK_WORDS,
+    laneLength * BLOCK_WORDS,
+  );
+  for (let lane = 1; lane < parallelism; lane++) {
+    const offset = (lane * laneLength + laneLength - 1) * BLOCK_WORDS;
+    for (let i = 0; i < BLOCK_WORDS; i++) final[i] ^= memory[offset + i];
+  }
+  return blake2bLong(hashLength, wordsToBytes(final));
+}
+
+// High 32 bits of the 64-bit product of two unsigned 32-bit integers
+function mulHigh(a: number, b: number): number {
+  const al = a & 0xffff;
+  const ah = a >>> 16;
+  const bl = b & 0xffff;
+  const bh = b >>> 16;
+  const ll = al * bl;
+  const lh = al * bh;
+  const hl = ah * bl;
+  const mid = (ll >>> 16) + (lh & 0xffff) + (hl & 0xffff);
+  return (ah * bh + (lh >>> 16) + (hl >>> 16) + (mid >>> 16)) >>> 0;
+}
@@ -0,0 +1,34 @@
+/**
+ * Runs Argon2id off the main thread for `deriveAesKey`. One request in,
+ * one hash or error out, matched by id.
+ */
+
+import { argon2id, type Argon2idParams } from "./argon2";
+
+export interface Argon2Request {
+  id: number;
+  password: Uint8Array;
+  salt: Uint8Array;
+  params: Argon2idParams;
+}
+
+export type Argon2Response =
+  | { id: number; hash: Uint8Array<ArrayBuffer> }
+  | { id: number; error: string };
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<Argon2Request>) => void) | null;
+  postMessage(message: Argon2Response, transfer?: Transferable[]): void;
+};
+
+scope.onmessage = ({ data }) => {
+  try {
+    const hash = argon2id(data.password, data.salt, data.params);
+    scope.postMessage({ id: data.id, hash }, [hash.buffer]);
+  } catch (error) {
+    scope.postMessage({
+      id: data.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -0,0 +1,309 @@
+import type { AppDatabase } from "./rxdb/database";
+import type { NoteDocType, ImageDocType } from "./rxdb/schemas";
+import type { ImageRepository } from "./imageRepository";
+import type { RepositoryError } from "../domain/errors";
+import type { Result } from "../domain/result";
+import { ok, err } from "../domain/result";
+import {
+  base64ToBytes,
+  bytesToBase64,
+  decodeUtf8,
+  encodeUtf8,
+  randomBytes,
+} from "./cryptoUtils";
+import { DEFAULT_KDF_ITERATIONS, derivePassphraseKey, generateSalt } from "./vault";
+import { parseBackupContents, parseBackupHeader } from "./parsers";
+import { reportError } from "../utils/errorReporter";
+
+export const BACKUP_FILE_EXTENSION = ".ichinichi";
+export const BACKUP_FORMAT = "ichinichi-backup";
+const BACKUP_VERSION = 1;
+const BACKUP_IV_BYTES = 12;
+const HEADER_SEPARATOR = 0x0a; // "\n"
+
+/**
+ * Plaintext header at the start of a backup file. Everything after the
+ * first newline is the AES-GCM ciphertext of the JSON-encoded
+ * `BackupContents`, keyed by PBKDF2(passphrase, salt).
+ */
+export interface BackupHeader {
+  format: typeof BACKUP_FORMAT;
+  version: 1;
+  kdf: { salt: string; iterations: number };
+  iv: string;
+}
+
+export interface BackupImage extends ImageDocType {
+  blob: string | null; // Base64 image bytes, null if unavailable when backed up
+}
+
+export interface BackupKey {
+  keyId: string;
+  key: string; // Base64 raw AES-GCM key
+}
+
+export interface BackupContents {
+  version: 1;
+  createdAt: string;
+  notes: NoteDocType[];
+  images: BackupImage[];
+  keys: BackupKey[];
+}
+
+export interface BackupOptions {
+  // Used to fetch blobs that were evicted locally (falls back to remote)
+  imageRepository?: ImageRepository | null;
+  iterations?: number;
+}
+
+export interface RestoreSummary {
+  notesAdded: number;
+  notesUpdated: number;
+  notesSkipped: number;
+  imagesAdded: number;
+  imagesSkipped: number;
+  keyring: Map<string, CryptoKey>;
+}
+
+function toNoteDoc(doc: NoteDocType): NoteDocType {
+  return {
+    date: doc.date,
+    content: doc.content,
+    updatedAt: doc.updatedAt,
+    isDeleted: doc.isDeleted,
+    weather: doc.weather ?? null,
+  };
+}
+
+function toImageDoc(doc: ImageDocType): ImageDocType {
+  return {
+    id: doc.id,
+    noteDate: doc.noteDate,
+    type: doc.type,
+    filename: doc.filename,
+    mimeType: doc.mimeType,
+    width: doc.width,
+    height: doc.height,
+    size: doc.size,
+    createdAt: doc.createdAt,
+    isDeleted: doc.isDeleted,
+  };
+}
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  return bytesToBase64(new Uint8Array(await blob.arrayBuffer()));
+}
+
+/**
+ * Snapshot every note and image document (soft-deleted ones included),
+ * the image blobs and the raw keyring into an encrypted backup file.
+ */
+export async function createBackup(
+  db: AppDatabase,
+  keyring: Map<string, CryptoKey>,
+  passphrase: string,
+  options: BackupOptions = {},
+): Promise<Result<Blob, RepositoryError>> {
+  let contents: BackupContents;
+  try {
+    const noteDocs = await db.notes.find().exec();
+    const imageDocs = await db.images.find().exec();
+
+    const images: BackupImage[] = [];
+    for (const doc of imageDocs) {
+      let blob: Blob | null = null;
+      const attachment = doc.getAttachment("blob");
+      if (attachment) {
+        try {
+          blob = await attachment.getData();
+        } catch {
+          // Local blob evicted — try the repository below
+        }
+      }
+      if (!blob && !doc.isDeleted && options.imageRepository) {
+        const fetched = await options.imageRepository.get(doc.id);
+        blob = fetched.ok ? fetched.value : null;
+      }
+      images.push({
+        ...toImageDoc(doc),
+        blob: blob ? await blobToBase64(blob) : null,
+      });
+    }
+
+    const keys: BackupKey[] = [];
+    for (const [keyId, key] of keyring) {
+      if (!key.extractable) continue;
+      const raw = await crypto.subtle.exportKey("raw", key);
+      keys.push({ keyId, key: bytesToBase64(new Uint8Array(raw)) });
+    }
+
+    contents = {
+      version: BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      notes: noteDocs.map((doc) => toNoteDoc(doc)),
+      images,
+      keys,
+    };
+  } catch (error) {
+    reportError("backup.collect", error);
+    return err({ type: "IO", message: String(error) });
+  }
+
+  try {
+    const salt = generateSalt();
+    const iterations = options.iterations ?? DEFAULT_KDF_ITERATIONS;
+    const key = await derivePassphraseKey(passphrase, salt, iterations);
+    const iv = randomBytes(BACKUP_IV_BYTES);
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      key,
+      encodeUtf8(JSON.stringify(contents)),
+    );
+    const header: BackupHeader = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      kdf: { salt, iterations },
+      iv: bytesToBase64(iv),
+    };
+    return ok(
+      new Blob(
+        [JSON.stringify(header), "\n", new Uint8Array(ciphertext)],
+        { type: "application/octet-stream" },
+      ),
+    );
+  } catch (error) {
+    return err({ type: "EncryptFailed", message: String(error) });
+  }
+}
+
+/**
+ * Decrypt and validate a backup file. A wrong passphrase surfaces as
+ * `DecryptFailed`; anything that isn't a backup file as `Corrupt`.
+ */
+export async function readBackup(
+  file: Blob,
+  passphrase: string,
+): Promise<Result<BackupContents, RepositoryError>> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const separator = bytes.indexOf(HEADER_SEPARATOR);
+  let header: BackupHeader | null = null;
+  if (separator > 0) {
+    try {
+      header = parseBackupHeader(JSON.parse(decodeUtf8(bytes.subarray(0, separator))));
+    } catch {
+      header = null;
+    }
+  }
+  if (!header) {
+    return err({ type: "Corrupt", message: "Not an Ichinichi backup file" });
+  }
+
+  let plaintext: ArrayBuffer;
+  try {
+    const key = await derivePassphraseKey(
+      passphrase,
+      header.kdf.salt,
+      header.kdf.iterations,
+    );
+    plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: base64ToBytes(header.iv) },
+      key,
+      bytes.slice(separator + 1),
+    );
+  } catch {
+    return err({
+      type: "DecryptFailed",
+      message: "Wrong passphrase or damaged backup",
+    });
+  }
+
+  let contents: BackupContents | null = null;
+  try {
+    contents = parseBackupContents(JSON.parse(decodeUtf8(new Uint8Array(plaintext))));
+  } catch {
+    contents = null;
+  }
+  if (!contents) {
+    return err({ type: "Corrupt", message: "Backup contents are invalid" });
+  }
+  return ok(contents);
+}
+
+/**
+ * Merge a decrypted backup into the database. Notes use last-writer-wins
+ * on `updatedAt` (so soft deletes and weather come along with their note);
+ * images are only added when missing, or when the local copy lost its
+ * blob. Returns the backed-up keys so the caller can add them to the
+ * keyring.
+ */
+export async function restoreBackup(
+  db: AppDatabase,
+  contents: BackupContents,
+): Promise<Result<RestoreSummary, RepositoryError>> {
+  const summary: RestoreSummary = {
+    notesAdded: 0,
+    notesUpdated: 0,
+    notesSkipped: 0,
+    imagesAdded: 0,
+    imagesSkipped: 0,
+    keyring: new Map(),
+  };
+
+  try {
+    for (const note of contents.notes) {
+      const existing = await db.notes.findOne(note.date).exec();
+      if (!existing) {
+        await db.notes.insert(toNoteDoc(note));
+        summary.notesAdded++;
+      } else if (Date.parse(note.updatedAt) > Date.parse(existing.updatedAt)) {
+        await existing.incrementalPatch({
+          content: note.content,
+          updatedAt: note.updatedAt,
+          isDeleted: note.isDeleted,
+          weather: note.weather ?? null,
+        });
+        summary.notesUpdated++;
+      } else {
+        summary.notesSkipped++;
+      }
+    }
+
+    for (const image of contents.images) {
+      const existing = await db.images.findOne(image.id).exec();
+      const doc = existing ?? (await db.images.insert(toImageDoc(image)));
+      if (!image.blob || (existing && existing.getAttachment("blob"))) {
+        if (existing) summary.imagesSkipped++;
+        else summary.imagesAdded++;
+        continue;
+      }
+      await doc.putAttachment({
+        id: "blob",
+        data: new Blob([base64ToBytes(image.blob)], { type: image.mimeType }),
+        type: image.mimeType,
+      });
+      summary.imagesAdded++;
+    }
+  } catch (error) {
+    reportError("backup.restore", error);
+    return err({ type: "IO", message: String(error) });
+  }
+
+  for (const { keyId, key } of contents.keys) {
+    try {
+      summary.keyring.set(
+        keyId,
+        await crypto.subtle.importKey(
+          "raw",
+          base64ToBytes(key),
+          { name: "AES-GCM", length: 256 },
+          true,
+          ["encrypt", "decrypt"],
+        ),
+      );
+    } catch {
+      // Skip malformed keys; notes themselves are already restored
+    }
+  }
+
+  return ok(summary);
+}
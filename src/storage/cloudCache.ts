@@ -1,6 +1,7 @@
 import { STORAGE_PREFIX } from "../utils/constants";
 import { base64ToBytes, bytesToBase64, randomBytes } from "./cryptoUtils";
 import { parseCloudDekCachePayload, type CloudDekCachePayload } from "./parsers";
+import { profileStorageKey } from "./profiles";
 
 const CLOUD_DEK_CACHE_KEY = `${STORAGE_PREFIX}cloud_dek_cache_v1`;
 const CACHE_IV_BYTES = 12;
@@ -21,7 +22,10 @@ export async function cacheCloudDek(
       iv: bytesToBase64(iv),
       data: bytesToBase64(new Uint8Array(encrypted)),
     };
-    localStorage.setItem(CLOUD_DEK_CACHE_KEY, JSON.stringify(payload));
+    localStorage.setItem(
+      profileStorageKey(CLOUD_DEK_CACHE_KEY),
+      JSON.stringify(payload),
+    );
   } catch {
     // Ignore cache errors; device-wrapped DEK is the primary path.
   }
@@ -30,7 +34,7 @@ export async function cacheCloudDek(
 export async function restoreCloudDek(
   localVaultKey: CryptoKey,
 ): Promise<CryptoKey | null> {
-  const raw = localStorage.getItem(CLOUD_DEK_CACHE_KEY);
+  const raw = localStorage.getItem(profileStorageKey(CLOUD_DEK_CACHE_KEY));
   if (!raw) return null;
   try {
     const parsed = parseCloudDekCachePayload(JSON.parse(raw));
@@ -56,5 +60,5 @@ export async function restoreCloudDek(
 
 export function clearCloudDekCache(): void {
   if (typeof window === "undefined") return;
-  localStorage.removeItem(CLOUD_DEK_CACHE_KEY);
+  localStorage.removeItem(profileStorageKey(CLOUD_DEK_CACHE_KEY));
 }
@@ -1,11 +1,12 @@
 import { STORAGE_PREFIX } from "../utils/constants";
 import { parseCloudKeyIdStore, type CloudKeyIdStore } from "./parsers";
+import { profileStorageKey } from "./profiles";
 
 const CLOUD_KEY_IDS_KEY = `${STORAGE_PREFIX}cloud_key_ids_v1`;
 
 function loadStore(): CloudKeyIdStore {
   if (typeof window === "undefined") return {};
-  const raw = localStorage.getItem(CLOUD_KEY_IDS_KEY);
+  const raw = localStorage.getItem(profileStorageKey(CLOUD_KEY_IDS_KEY));
   if (!raw) return {};
   try {
     return parseCloudKeyIdStore(JSON.parse(raw)) ?? {};
@@ -16,7 +17,10 @@ function loadStore(): CloudKeyIdStore {
 
 function saveStore(store: CloudKeyIdStore): void {
   if (typeof window === "undefined") return;
-  localStorage.setItem(CLOUD_KEY_IDS_KEY, JSON.stringify(store));
+  localStorage.setItem(
+    profileStorageKey(CLOUD_KEY_IDS_KEY),
+    JSON.stringify(store),
+  );
 }
 
 export function rememberCloudKeyIds(userId: string, keyIds: string[]): void {
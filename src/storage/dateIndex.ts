@@ -0,0 +1,91 @@
+import { bytesToBase64, encodeUtf8 } from "./cryptoUtils";
+
+/**
+ * Private note dates.
+ *
+ * With private dates on, the `date` column of a note row and the
+ * `note_date` column of an image row hold an HMAC of the date instead of
+ * the date itself. The HMAC key is derived from one DEK of the keyring
+ * (the index key), so every device computes the same tag for a day and
+ * rows stay addressable by date. The real date travels encrypted: inside
+ * the note payload, and in the image row's `meta` envelope.
+ */
+
+const DATE_INDEX_INFO = "dailynotes:date-index:v1";
+
+// Tags can't be mistaken for a DD-MM-YYYY date
+export const DATE_TAG_PREFIX = "d1.";
+
+export function isDateTag(value: string): boolean {
+  return value.startsWith(DATE_TAG_PREFIX);
+}
+
+export async function deriveDateIndexKey(dek: CryptoKey): Promise<CryptoKey> {
+  const raw = await crypto.subtle.exportKey("raw", dek);
+  const baseKey = await crypto.subtle.importKey("raw", raw, "HKDF", false, [
+    "deriveKey",
+  ]);
+  return crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(16),
+      info: encodeUtf8(DATE_INDEX_INFO),
+    },
+    baseKey,
+    { name: "HMAC", hash: "SHA-256", length: 256 },
+    false,
+    ["sign"],
+  );
+}
+
+export async function computeDateTag(
+  indexKey: CryptoKey,
+  date: string,
+): Promise<string> {
+  const mac = await crypto.subtle.sign("HMAC", indexKey, encodeUtf8(date));
+  const encoded = bytesToBase64(new Uint8Array(mac))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+  return `${DATE_TAG_PREFIX}${encoded}`;
+}
+
+/**
+ * Maps note dates to the value stored in the server's date columns.
+ */
+export interface DateIndex {
+  // The tag when private dates are on, the date itself otherwise
+  toRowDate(date: string): Promise<string>;
+}
+
+export const PLAIN_DATE_INDEX: DateIndex = {
+  toRowDate: async (date) => date,
+};
+
+/**
+ * A date index following the account's setting. `getIndexKeyId` is asked
+ * on every call; replication's resolver fetches the setting from the server
+ * once per session and then reads this device's cache, so a change made
+ * here applies to the next push and one made elsewhere after a reload.
+ */
+export function createDateIndex(options: {
+  getIndexKeyId: () => Promise<string | null>;
+  getKey: (keyId: string) => CryptoKey | null;
+}): DateIndex {
+  const indexKeys = new Map<string, Promise<CryptoKey>>();
+
+  return {
+    async toRowDate(date) {
+      const keyId = await options.getIndexKeyId();
+      if (!keyId) return date;
+      if (!indexKeys.has(keyId)) {
+        const dek = options.getKey(keyId);
+        // Pushing the plain date would undo the setting; wait for the key
+        if (!dek) throw new Error(`dateIndex: index key ${keyId} is not unlocked`);
+        indexKeys.set(keyId, deriveDateIndexKey(dek));
+      }
+      return computeDateTag(await indexKeys.get(keyId)!, date);
+    },
+  };
+}
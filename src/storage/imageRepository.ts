@@ -1,4 +1,4 @@
-import type { NoteImage } from "../types";
+import type { DeletedImage, NoteImage } from "../types";
 import type { Result } from "../domain/result";
 import type { RepositoryError } from "../domain/errors";
 
@@ -60,4 +60,31 @@ export interface ImageRepository {
    * @returns Result with void on success, or error
    */
   deleteByNoteDate(noteDate: string): Promise<Result<void, RepositoryError>>;
+
+  /**
+   * List soft-deleted images, most recently deleted first
+   * @returns Result with deleted image metadata, or error
+   */
+  getDeleted?(): Promise<Result<DeletedImage[], RepositoryError>>;
+
+  /**
+   * Get the local blob of an image, even if it was deleted
+   * @param imageId - UUID of the image
+   * @returns Result with image blob or null if not found, or error
+   */
+  getIncludingDeleted?(imageId: string): Promise<Result<Blob | null, RepositoryError>>;
+
+  /**
+   * Undo a soft delete
+   * @param imageId - UUID of the image
+   * @returns Result with void on success, or error
+   */
+  restore?(imageId: string): Promise<Result<void, RepositoryError>>;
+
+  /**
+   * Permanently remove a soft-deleted image, locally and on the server
+   * @param imageId - UUID of the image
+   * @returns Result with void on success, or error
+   */
+  purge?(imageId: string): Promise<Result<void, RepositoryError>>;
 }
@@ -0,0 +1,300 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { E2eeService } from "../domain/crypto/e2eeService";
+import { STORAGE_PREFIX } from "../utils/constants";
+import { parseJournalStore, type Journal } from "./parsers";
+import { reportError } from "../utils/errorReporter";
+
+export type { Journal } from "./parsers";
+
+/**
+ * Journals.
+ *
+ * Each journal is its own local database (calendar, note dates, search
+ * index, revisions and trash) and its own replication stream. On the server
+ * notes and images carry a `journal_id`; rows from before journals existed
+ * belong to the default journal, which keeps the original database name and
+ * replication checkpoints.
+ */
+
+export const DEFAULT_JOURNAL_ID = "default";
+export const DEFAULT_JOURNAL_NAME = "Journal";
+export const JOURNAL_NAME_MAX_LENGTH = 40;
+
+// The journal list per owner ("local" or a user id), so the switcher works
+// before the server answers
+const JOURNALS_STORAGE_KEY = `${STORAGE_PREFIX}journals_v1`;
+
+export function defaultJournal(): Journal {
+  return {
+    id: DEFAULT_JOURNAL_ID,
+    name: DEFAULT_JOURNAL_NAME,
+    noteKeyId: null,
+    createdAt: null,
+  };
+}
+
+export function isValidJournalId(id: string): boolean {
+  return id === DEFAULT_JOURNAL_ID || /^[a-z0-9]{8,32}$/.test(id);
+}
+
+export function createJournalId(): string {
+  return crypto.randomUUID().replace(/-/g, "").slice(0, 16);
+}
+
+/**
+ * The RxDB database name of a journal. The default journal keeps the name
+ * used before journals existed.
+ */
+export function journalDatabaseName(owner: string, journalId: string): string {
+  return journalId === DEFAULT_JOURNAL_ID ? owner : `${owner}-journal-${journalId}`;
+}
+
+function loadStore(): Record<string, Journal[]> {
+  if (typeof window === "undefined") return {};
+  const raw = localStorage.getItem(JOURNALS_STORAGE_KEY);
+  if (!raw) return {};
+  try {
+    return parseJournalStore(JSON.parse(raw)) ?? {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * The journals known on this device for `owner`, default journal first.
+ */
+export function loadJournals(owner: string): Journal[] {
+  return withDefault(loadStore()[owner] ?? []);
+}
+
+export function saveJournals(owner: string, journals: Journal[]): void {
+  if (typeof window === "undefined") return;
+  const store = loadStore();
+  store[owner] = withDefault(journals);
+  localStorage.setItem(JOURNALS_STORAGE_KEY, JSON.stringify(store));
+}
+
+function withDefault(journals: Journal[]): Journal[] {
+  const rest = journals.filter((journal) => journal.id !== DEFAULT_JOURNAL_ID);
+  const saved = journals.find((journal) => journal.id === DEFAULT_JOURNAL_ID);
+  return [saved ?? defaultJournal(), ...rest];
+}
+
+// ── Server ──────────────────────────────────────────────────────────
+
+interface JournalRow {
+  id: string;
+  key_id: string;
+  ciphertext: string;
+  nonce: string;
+  note_key_id: string | null;
+  created_at: string | null;
+}
+
+export interface RemoteJournal extends Journal {
+  // Key the name is encrypted with
+  nameKeyId: string;
+}
+
+/**
+ * The account's journals with their names decrypted. A journal whose name
+ * can't be decrypted (its key isn't unlocked) is listed under a
+ * placeholder so its notes stay reachable.
+ */
+export async function fetchJournals(
+  supabase: SupabaseClient,
+  userId: string,
+  e2ee: E2eeService,
+): Promise<RemoteJournal[]> {
+  const { data, error } = await supabase
+    .from("journals")
+    .select("id, key_id, ciphertext, nonce, note_key_id, created_at")
+    .eq("user_id", userId)
+    .order("created_at");
+
+  if (error) {
+    throw error;
+  }
+
+  const rows = (data ?? []) as JournalRow[];
+  return Promise.all(
+    rows.map(async (row) => {
+      let name: string | null = null;
+      try {
+        const payload = await e2ee.decryptNoteRecord({
+          keyId: row.key_id,
+          ciphertext: row.ciphertext,
+          nonce: row.nonce,
+        });
+        name = payload?.content ?? null;
+      } catch (decryptError) {
+        reportError("journals.decryptName", decryptError);
+      }
+      return {
+        id: row.id,
+        name: name ?? "Locked journal",
+        noteKeyId: row.note_key_id,
+        createdAt: row.created_at,
+        nameKeyId: row.key_id,
+      };
+    }),
+  );
+}
+
+/**
+ * Creates or renames a journal. The name is encrypted with `keyId`, or
+ * the active key when omitted.
+ */
+export async function saveJournal(
+  supabase: SupabaseClient,
+  userId: string,
+  e2ee: E2eeService,
+  journal: Pick<Journal, "id" | "name" | "noteKeyId">,
+  keyId?: string | null,
+): Promise<void> {
+  const encrypted = await e2ee.encryptNoteContent(
+    { content: journal.name, weather: null },
+    keyId,
+  );
+  if (!encrypted) {
+    throw new Error("Unlock your notes first.");
+  }
+
+  const { error } = await supabase.from("journals").upsert({
+    user_id: userId,
+    id: journal.id,
+    key_id: encrypted.keyId,
+    ciphertext: encrypted.ciphertext,
+    nonce: encrypted.nonce,
+    note_key_id: journal.noteKeyId,
+  });
+
+  if (error) {
+    throw error;
+  }
+}
+
+export async function deleteJournalRow(
+  supabase: SupabaseClient,
+  userId: string,
+  journalId: string,
+): Promise<void> {
+  const { error } = await supabase
+    .from("journals")
+    .delete()
+    .eq("user_id", userId)
+    .eq("id", journalId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Server rows of a journal's notes, trashed ones included.
+ */
+export async function countJournalNotes(
+  supabase: SupabaseClient,
+  userId: string,
+  journalId: string,
+): Promise<number> {
+  const { count, error } = await supabase
+    .from("notes")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .eq("journal_id", journalId);
+
+  if (error) {
+    throw error;
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Keys journals depend on: `noteKeys` encrypt a journal's notes and must
+ * not be rotated away, `nameKeys` encrypt journal names.
+ */
+export async function fetchJournalKeyIds(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<{ noteKeys: string[]; nameKeys: string[] }> {
+  const { data, error } = await supabase
+    .from("journals")
+    .select("key_id, note_key_id")
+    .eq("user_id", userId);
+
+  if (error) {
+    throw error;
+  }
+
+  const rows = (data ?? []) as Pick<JournalRow, "key_id" | "note_key_id">[];
+  return {
+    noteKeys: [
+      ...new Set(
+        rows
+          .map((row) => row.note_key_id)
+          .filter((keyId): keyId is string => !!keyId),
+      ),
+    ],
+    nameKeys: [...new Set(rows.map((row) => row.key_id))],
+  };
+}
+
+/**
+ * Moves journal names encrypted with another key onto `target`, each write
+ * conditional on the row's nonce. Returns the keys still naming a journal
+ * afterwards, other than `target`.
+ */
+export async function reencryptJournalNames(
+  supabase: SupabaseClient,
+  userId: string,
+  e2ee: E2eeService,
+  target: string,
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("journals")
+    .select("id, key_id, ciphertext, nonce")
+    .eq("user_id", userId)
+    .neq("key_id", target);
+
+  if (error) {
+    throw error;
+  }
+
+  const left = new Set<string>();
+  for (const row of (data ?? []) as JournalRow[]) {
+    try {
+      const payload = await e2ee.decryptNoteRecord({
+        keyId: row.key_id,
+        ciphertext: row.ciphertext,
+        nonce: row.nonce,
+      });
+      const encrypted = payload
+        ? await e2ee.encryptNoteContent(
+            { content: payload.content, weather: null },
+            target,
+          )
+        : null;
+      if (!encrypted) {
+        left.add(row.key_id);
+        continue;
+      }
+      const { error: updateError } = await supabase
+        .from("journals")
+        .update({
+          key_id: encrypted.keyId,
+          ciphertext: encrypted.ciphertext,
+          nonce: encrypted.nonce,
+        })
+        .eq("user_id", userId)
+        .eq("id", row.id)
+        .eq("nonce", row.nonce);
+      if (updateError) throw updateError;
+    } catch (moveError) {
+      reportError("journals.reencryptName", moveError);
+      left.add(row.key_id);
+    }
+  }
+  return [...left];
+}
@@ -0,0 +1,238 @@
+import { argon2id, type Argon2idParams } from "./argon2";
+import type { Argon2Request, Argon2Response } from "./argon2.worker";
+import { encodeUtf8 } from "./cryptoUtils";
+import type { UserKeyringEntry } from "./userKeyring";
+
+export type KdfAlgorithm = "pbkdf2-sha256" | "argon2id";
+
+/**
+ * How a password becomes a wrapping key. Stored next to every
+ * password-wrapped key so the parameters can change without breaking
+ * older wrappings. `memoryKiB` and `parallelism` only apply to Argon2id.
+ */
+export interface KdfParams {
+  algorithm: KdfAlgorithm;
+  iterations: number;
+  memoryKiB?: number;
+  parallelism?: number;
+}
+
+export const PBKDF2_ITERATIONS = 600000;
+
+// OWASP's Argon2id profile: 19 MiB, 2 passes, 1 lane
+export const DEFAULT_KDF: Required<KdfParams> = {
+  algorithm: "argon2id",
+  iterations: 2,
+  memoryKiB: 19456,
+  parallelism: 1,
+};
+
+// Bounds for parameters read back from the server or localStorage, so a
+// bad descriptor can't hang the page or allocate gigabytes. Argon2id needs
+// at least 8 KiB of memory per lane.
+export const KDF_LIMITS = {
+  pbkdf2Iterations: 10_000_000,
+  argon2Iterations: 16,
+  memoryKiB: 262_144,
+  parallelism: 16,
+} as const;
+
+const KDF_ALGORITHMS: readonly KdfAlgorithm[] = ["pbkdf2-sha256", "argon2id"];
+
+export function isKdfAlgorithm(value: unknown): value is KdfAlgorithm {
+  return KDF_ALGORITHMS.includes(value as KdfAlgorithm);
+}
+
+export function clampKdfNumber(value: number, min: number, max: number): number {
+  if (!Number.isFinite(value)) return min;
+  return Math.min(Math.max(Math.floor(value), min), max);
+}
+
+/**
+ * Fills in the algorithm for descriptors written before it was recorded;
+ * those were always PBKDF2. Parameters are clamped to `KDF_LIMITS`.
+ */
+export function normalizeKdfParams(kdf: {
+  algorithm?: KdfAlgorithm | null;
+  iterations: number;
+  memoryKiB?: number | null;
+  parallelism?: number | null;
+}): KdfParams {
+  if (kdf.algorithm !== "argon2id") {
+    return {
+      algorithm: "pbkdf2-sha256",
+      iterations: clampKdfNumber(kdf.iterations, 1, KDF_LIMITS.pbkdf2Iterations),
+    };
+  }
+  const parallelism = clampKdfNumber(
+    kdf.parallelism ?? DEFAULT_KDF.parallelism,
+    1,
+    KDF_LIMITS.parallelism,
+  );
+  return {
+    algorithm: "argon2id",
+    iterations: clampKdfNumber(kdf.iterations, 1, KDF_LIMITS.argon2Iterations),
+    memoryKiB: clampKdfNumber(
+      kdf.memoryKiB ?? DEFAULT_KDF.memoryKiB,
+      8 * parallelism,
+      KDF_LIMITS.memoryKiB,
+    ),
+    parallelism,
+  };
+}
+
+/**
+ * The KDF that wrapped an entry's DEK.
+ */
+export function getEntryKdf(entry: UserKeyringEntry): KdfParams {
+  return normalizeKdfParams({
+    algorithm: entry.kdfAlgorithm,
+    iterations: entry.kdfIterations,
+    memoryKiB: entry.kdfMemoryKiB,
+    parallelism: entry.kdfParallelism,
+  });
+}
+
+/**
+ * Entry fields recording `kdf`, for entries about to be wrapped with it.
+ */
+export function toKdfFields(
+  kdf: KdfParams,
+): Pick<
+  UserKeyringEntry,
+  "kdfIterations" | "kdfAlgorithm" | "kdfMemoryKiB" | "kdfParallelism"
+> {
+  return {
+    kdfIterations: kdf.iterations,
+    kdfAlgorithm: kdf.algorithm,
+    ...(kdf.memoryKiB !== undefined ? { kdfMemoryKiB: kdf.memoryKiB } : {}),
+    ...(kdf.parallelism !== undefined
+      ? { kdfParallelism: kdf.parallelism }
+      : {}),
+  };
+}
+
+/**
+ * True when a wrapping should be redone with `DEFAULT_KDF`: it uses another
+ * algorithm, or weaker Argon2id parameters than the current default.
+ */
+export function needsKdfUpgrade(kdf: KdfParams): boolean {
+  if (kdf.algorithm !== DEFAULT_KDF.algorithm) return true;
+  return (
+    kdf.iterations < DEFAULT_KDF.iterations ||
+    (kdf.memoryKiB ?? 0) < DEFAULT_KDF.memoryKiB
+  );
+}
+
+let argon2Worker: Worker | null = null;
+let argon2WorkerFailed = false;
+let nextArgon2RequestId = 0;
+const argon2Requests = new Map<
+  number,
+  {
+    request: Argon2Request;
+    resolve: (hash: Uint8Array<ArrayBuffer>) => void;
+    reject: (error: Error) => void;
+  }
+>();
+
+function hashInline({ password, salt, params }: Argon2Request) {
+  return argon2id(password, salt, params);
+}
+
+function getArgon2Worker(): Worker | null {
+  if (argon2WorkerFailed || typeof Worker === "undefined") return null;
+  if (argon2Worker) return argon2Worker;
+
+  const worker = new Worker(new URL("./argon2.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  worker.onmessage = ({ data }: MessageEvent<Argon2Response>) => {
+    const pending = argon2Requests.get(data.id);
+    if (!pending) return;
+    argon2Requests.delete(data.id);
+    if ("hash" in data) pending.resolve(data.hash);
+    else pending.reject(new Error(data.error));
+  };
+  // A worker that can't load (e.g. blocked by CSP) hands its requests
+  // back to the main thread, which does them inline from then on
+  worker.onerror = (event) => {
+    event.preventDefault();
+    argon2WorkerFailed = true;
+    argon2Worker = null;
+    worker.terminate();
+    const pending = [...argon2Requests.values()];
+    argon2Requests.clear();
+    for (const { request, resolve, reject } of pending) {
+      try {
+        resolve(hashInline(request));
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  };
+  argon2Worker = worker;
+  return worker;
+}
+
+/**
+ * Argon2id in a worker: a derivation at `DEFAULT_KDF` takes about a second,
+ * and unlocking can derive several times. Runs inline where workers aren't
+ * available.
+ */
+function runArgon2id(
+  password: Uint8Array,
+  salt: Uint8Array,
+  params: Argon2idParams,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const request: Argon2Request = {
+    id: nextArgon2RequestId++,
+    password,
+    salt,
+    params,
+  };
+  const worker = getArgon2Worker();
+  if (!worker) return Promise.resolve().then(() => hashInline(request));
+  return new Promise((resolve, reject) => {
+    argon2Requests.set(request.id, { request, resolve, reject });
+    worker.postMessage(request);
+  });
+}
+
+export async function deriveAesKey(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  descriptor: KdfParams,
+  usages: KeyUsage[],
+): Promise<CryptoKey> {
+  const kdf = normalizeKdfParams(descriptor);
+  if (kdf.algorithm === "argon2id") {
+    const bytes = await runArgon2id(encodeUtf8(password), salt, {
+      iterations: kdf.iterations,
+      memoryKiB: kdf.memoryKiB ?? DEFAULT_KDF.memoryKiB,
+      parallelism: kdf.parallelism ?? 1,
+      hashLength: 32,
+    });
+    return crypto.subtle.importKey("raw", bytes, "AES-GCM", false, usages);
+  }
+
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    encodeUtf8(password),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    {
+      name: "PBKDF2",
+      hash: "SHA-256",
+      salt,
+      iterations: kdf.iterations,
+    },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    usages,
+  );
+}
@@ -0,0 +1,36 @@
+import { STORAGE_PREFIX } from "../utils/constants";
+import { parseKeyRotationState, type KeyRotationState } from "./parsers";
+import { profileStorageKey } from "./profiles";
+
+export type { KeyRotationState };
+
+const KEY_ROTATION_STORAGE_KEY = `${STORAGE_PREFIX}key_rotation_v1`;
+
+/**
+ * The rotation in progress for this user, if any. Persisted so a reload
+ * picks up at the last finished batch instead of starting over.
+ */
+export function loadKeyRotationState(userId: string): KeyRotationState | null {
+  if (typeof window === "undefined") return null;
+  const raw = localStorage.getItem(profileStorageKey(KEY_ROTATION_STORAGE_KEY));
+  if (!raw) return null;
+  try {
+    const state = parseKeyRotationState(JSON.parse(raw));
+    return state?.userId === userId ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveKeyRotationState(state: KeyRotationState): void {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(
+    profileStorageKey(KEY_ROTATION_STORAGE_KEY),
+    JSON.stringify(state),
+  );
+}
+
+export function clearKeyRotationState(): void {
+  if (typeof window === "undefined") return;
+  localStorage.removeItem(profileStorageKey(KEY_ROTATION_STORAGE_KEY));
+}
@@ -1,12 +1,13 @@
 import { STORAGE_PREFIX } from "../utils/constants";
 import { base64ToBytes, bytesToBase64, randomBytes } from "./cryptoUtils";
 import { parseKeyringStore, type KeyringStore } from "./parsers";
+import { profileStorageKey } from "./profiles";
 
 const KEYRING_STORAGE_KEY = `${STORAGE_PREFIX}keyring_v1`;
 
 function loadKeyring(): KeyringStore {
   if (typeof window === "undefined") return {};
-  const raw = localStorage.getItem(KEYRING_STORAGE_KEY);
+  const raw = localStorage.getItem(profileStorageKey(KEYRING_STORAGE_KEY));
   if (!raw) return {};
   try {
     return parseKeyringStore(JSON.parse(raw)) ?? {};
@@ -17,7 +18,10 @@ function loadKeyring(): KeyringStore {
 
 function saveKeyring(store: KeyringStore): void {
   if (typeof window === "undefined") return;
-  localStorage.setItem(KEYRING_STORAGE_KEY, JSON.stringify(store));
+  localStorage.setItem(
+    profileStorageKey(KEYRING_STORAGE_KEY),
+    JSON.stringify(store),
+  );
 }
 
 export function listLocalKeyIds(): string[] {
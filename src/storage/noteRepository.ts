@@ -1,6 +1,8 @@
-import type { Note, SavedWeather } from "../types";
+import type { DeletedNote, Note, SavedWeather } from "../types";
 import type { Result } from "../domain/result";
 import type { RepositoryError } from "../domain/errors";
+import type { NoteSearchIndex } from "./searchIndex";
+import type { NoteRevisionStore } from "./noteRevisions";
 
 export interface NoteRepository {
   // Core CRUD
@@ -18,4 +20,12 @@ export interface NoteRepository {
   // Soft-delete support
   getIncludingDeleted?(date: string): Promise<Result<Note | null, RepositoryError>>;
   restoreNote?(date: string): Promise<Result<void, RepositoryError>>;
+  getDeleted?(): Promise<Result<DeletedNote[], RepositoryError>>;
+  // Permanently remove a soft-deleted note, replicating the removal
+  purgeNote?(date: string): Promise<Result<void, RepositoryError>>;
+  // Full-text search (absent until the vault key is available)
+  readonly searchIndex?: NoteSearchIndex | null;
+  // Revision history (absent until the vault key is available)
+  readonly revisions?: NoteRevisionStore | null;
+  restoreRevision?(date: string, revisionId: string): Promise<Result<void, RepositoryError>>;
 }
@@ -0,0 +1,29 @@
+import type { SavedWeather } from "../types";
+import type { Result } from "../domain/result";
+import type { RepositoryError } from "../domain/errors";
+
+/**
+ * Why a snapshot was taken:
+ * - edit: content as it was before an editing session overwrote it
+ * - conflict: a local version replaced when resolving a sync conflict
+ * - restore: content replaced by restoring an older revision
+ */
+export type NoteRevisionReason = "edit" | "conflict" | "restore";
+
+export interface NoteRevision {
+  id: string;
+  date: string;
+  createdAt: string;
+  reason: NoteRevisionReason;
+  content: string;
+  weather: SavedWeather | null;
+}
+
+/**
+ * Per-note history of earlier versions. Snapshots are taken by the
+ * repository; consumers only read them back.
+ */
+export interface NoteRevisionStore {
+  // Newest first
+  list(date: string): Promise<Result<NoteRevision[], RepositoryError>>;
+}
@@ -4,6 +4,7 @@
  * with a parse function that validates shape and returns `T | null`.
  */
 
+import { isKdfAlgorithm, normalizeKdfParams } from "./kdf";
 import type { VaultMeta } from "./vault";
 // Inlined from legacy domain/notes/noteRecord (module deleted)
 export interface NoteRecord {
@@ -46,6 +47,15 @@ function isWrappedKey(v: unknown): v is { iv: string; data: string } {
   return isObject(v) && typeof v.iv === "string" && typeof v.data === "string";
 }
 
+function isPasskeyWrappedKey(v: unknown): boolean {
+  return (
+    isObject(v) &&
+    typeof v.credentialId === "string" &&
+    typeof v.prfSalt === "string" &&
+    isWrappedKey(v)
+  );
+}
+
 export function parseVaultMeta(data: unknown): VaultMeta | null {
   if (!isObject(data)) return null;
   if (data.version !== 1) return null;
@@ -57,14 +67,43 @@ export function parseVaultMeta(data: unknown): VaultMeta | null {
     typeof kdf.iterations !== "number"
   )
     return null;
+  // Vaults written before the KDF was configurable carry no algorithm
+  if (kdf.algorithm !== undefined && !isKdfAlgorithm(kdf.algorithm))
+    return null;
+  if (kdf.memoryKiB !== undefined && typeof kdf.memoryKiB !== "number")
+    return null;
+  if (kdf.parallelism !== undefined && typeof kdf.parallelism !== "number")
+    return null;
 
   const wrapped = data.wrapped;
   if (!isObject(wrapped) || !isWrappedKey(wrapped.password)) return null;
   if (wrapped.device !== undefined && !isWrappedKey(wrapped.device))
     return null;
+  if (
+    wrapped.passkeys !== undefined &&
+    (!Array.isArray(wrapped.passkeys) ||
+      !wrapped.passkeys.every(isPasskeyWrappedKey))
+  )
+    return null;
 
-  // Validated above — safe to assert.
-  return data as unknown as VaultMeta;
+  // Validated above — safe to assert. Parameters are clamped so a tampered
+  // vault meta can't make unlocking allocate gigabytes.
+  const meta = data as unknown as VaultMeta;
+  const bounded = normalizeKdfParams(meta.kdf);
+  return {
+    ...meta,
+    kdf: {
+      ...meta.kdf,
+      iterations: bounded.iterations,
+      ...(bounded.memoryKiB !== undefined && meta.kdf.memoryKiB !== undefined
+        ? { memoryKiB: bounded.memoryKiB }
+        : {}),
+      ...(bounded.parallelism !== undefined &&
+      meta.kdf.parallelism !== undefined
+        ? { parallelism: bounded.parallelism }
+        : {}),
+    },
+  };
 }
 
 // ── Keyring ─────────────────────────────────────────────────────────
@@ -128,6 +167,113 @@ export function parseCloudKeyIdStore(data: unknown): CloudKeyIdStore | null {
   return data as CloudKeyIdStore;
 }
 
+// ── Key Rotation ────────────────────────────────────────────────────
+
+export interface KeyRotationState {
+  userId: string;
+  targetKeyId: string;
+  phase: "notes" | "images" | "retire";
+  // Last note row id / image id handled in the current phase
+  cursor: string | null;
+  startedAt: string;
+}
+
+export function parseKeyRotationState(data: unknown): KeyRotationState | null {
+  if (!isObject(data)) return null;
+  if (
+    typeof data.userId !== "string" ||
+    typeof data.targetKeyId !== "string" ||
+    typeof data.startedAt !== "string" ||
+    (data.cursor !== null && typeof data.cursor !== "string")
+  )
+    return null;
+  if (data.phase !== "notes" && data.phase !== "images" && data.phase !== "retire")
+    return null;
+  return data as unknown as KeyRotationState;
+}
+
+// ── Date Index Setting ──────────────────────────────────────────────
+
+export interface DateIndexSetting {
+  userId: string;
+  // null when note dates are stored in plaintext
+  keyId: string | null;
+}
+
+export function parseDateIndexSetting(data: unknown): DateIndexSetting | null {
+  if (!isObject(data)) return null;
+  if (typeof data.userId !== "string") return null;
+  if (data.keyId !== null && typeof data.keyId !== "string") return null;
+  return data as unknown as DateIndexSetting;
+}
+
+// ── Journals ────────────────────────────────────────────────────────
+
+export interface Journal {
+  id: string;
+  name: string;
+  // Key used for this journal's notes instead of the primary key
+  noteKeyId: string | null;
+  createdAt: string | null;
+}
+
+function isJournal(v: unknown): v is Journal {
+  return (
+    isObject(v) &&
+    typeof v.id === "string" &&
+    typeof v.name === "string" &&
+    (v.noteKeyId === null || typeof v.noteKeyId === "string") &&
+    (v.createdAt === null || typeof v.createdAt === "string")
+  );
+}
+
+export function parseJournalStore(
+  data: unknown,
+): Record<string, Journal[]> | null {
+  if (!isObject(data)) return null;
+  const store: Record<string, Journal[]> = {};
+  for (const [owner, journals] of Object.entries(data)) {
+    if (!Array.isArray(journals)) return null;
+    store[owner] = journals.filter(isJournal).map((journal) => ({
+      id: journal.id,
+      name: journal.name,
+      noteKeyId: journal.noteKeyId,
+      createdAt: journal.createdAt,
+    }));
+  }
+  return store;
+}
+
+// ── Profiles ────────────────────────────────────────────────────────
+
+export interface Profile {
+  id: string;
+  name: string;
+  // Account last signed in on this profile; null for a local profile
+  email: string | null;
+  createdAt: string | null;
+}
+
+function isProfile(v: unknown): v is Profile {
+  return (
+    isObject(v) &&
+    typeof v.id === "string" &&
+    typeof v.name === "string" &&
+    (v.email === null || typeof v.email === "string") &&
+    (v.createdAt === null || typeof v.createdAt === "string")
+  );
+}
+
+export function parseProfileList(data: unknown): Profile[] | null {
+  if (!Array.isArray(data)) return null;
+  return data.filter(isProfile).map((profile) => ({
+    id: profile.id,
+    name: profile.name,
+    email: profile.email,
+    createdAt: profile.createdAt,
+  }));
+}
+
 // ── Remote Notes (Supabase) ─────────────────────────────────────────
 
 export interface RemoteNoteRow {
@@ -195,6 +341,32 @@ export function parseDecryptedNotePayload(
   return data as { content: string };
 }
 
+// ── Decrypted Search Index Payload ─────────────────────────────────
+
+import type { SearchIndexPayload } from "./searchIndexCrypto";
+
+export function parseSearchIndexPayload(
+  data: unknown,
+): SearchIndexPayload | null {
+  if (!isObject(data)) return null;
+  if (
+    typeof data.text !== "string" ||
+    typeof data.hasImage !== "boolean" ||
+    typeof data.hasWeather !== "boolean"
+  )
+    return null;
+  const terms = parseStringArray(data.terms);
+  const sectionTypes = parseStringArray(data.sectionTypes);
+  if (!terms || !sectionTypes) return null;
+  return {
+    text: data.text,
+    terms,
+    sectionTypes,
+    hasImage: data.hasImage,
+    hasWeather: data.hasWeather,
+  };
+}
+
 // ── Saved Weather ──────────────────────────────────────────────────
 
 import type { SavedWeather } from "../types/index";
@@ -212,6 +384,21 @@ export function parseSavedWeather(data: unknown): SavedWeather | null {
   return data as unknown as SavedWeather;
 }
 
+// ── Decrypted Revision Payload ─────────────────────────────────────
+
+import type { RevisionPayload } from "./revisionCrypto";
+
+export function parseRevisionPayload(data: unknown): RevisionPayload | null {
+  if (!isObject(data)) return null;
+  if (typeof data.content !== "string") return null;
+  if (data.weather === null || data.weather === undefined) {
+    return { content: data.content, weather: null };
+  }
+  const weather = parseSavedWeather(data.weather);
+  if (!weather) return null;
+  return { content: data.content, weather };
+}
+
 // ── Encrypted Blob Record (from storage bucket) ────────────────────
 
 export interface EncryptedBlobRecord {
@@ -271,3 +458,120 @@ export function parseStringArray(data: unknown): string[] | null {
   }
   return data as string[];
 }
+
+// ── Backup Files ────────────────────────────────────────────────────
+
+import type {
+  BackupContents,
+  BackupHeader,
+  BackupImage,
+  BackupKey,
+} from "./backup";
+import type { NoteDocType } from "./rxdb/schemas";
+
+export function parseBackupHeader(data: unknown): BackupHeader | null {
+  if (!isObject(data)) return null;
+  if (data.format !== "ichinichi-backup" || data.version !== 1) return null;
+  const kdf = data.kdf;
+  if (
+    !isObject(kdf) ||
+    typeof kdf.salt !== "string" ||
+    typeof kdf.iterations !== "number" ||
+    typeof data.iv !== "string"
+  )
+    return null;
+  return data as unknown as BackupHeader;
+}
+
+function isBackupNote(v: unknown): v is NoteDocType {
+  if (!isObject(v)) return false;
+  if (
+    typeof v.date !== "string" ||
+    typeof v.content !== "string" ||
+    typeof v.updatedAt !== "string" ||
+    typeof v.isDeleted !== "boolean"
+  )
+    return false;
+  return (
+    v.weather === undefined ||
+    v.weather === null ||
+    parseSavedWeather(v.weather) !== null
+  );
+}
+
+function isBackupImage(v: unknown): v is BackupImage {
+  if (!isObject(v)) return false;
+  return (
+    typeof v.id === "string" &&
+    typeof v.noteDate === "string" &&
+    (v.type === "background" || v.type === "inline") &&
+    typeof v.filename === "string" &&
+    typeof v.mimeType === "string" &&
+    typeof v.width === "number" &&
+    typeof v.height === "number" &&
+    typeof v.size === "number" &&
+    typeof v.createdAt === "string" &&
+    typeof v.isDeleted === "boolean" &&
+    (v.blob === null || typeof v.blob === "string")
+  );
+}
+
+function isBackupKey(v: unknown): v is BackupKey {
+  return isObject(v) && typeof v.keyId === "string" && typeof v.key === "string";
+}
+
+export function parseBackupContents(data: unknown): BackupContents | null {
+  if (!isObject(data)) return null;
+  if (data.version !== 1 || typeof data.createdAt !== "string") return null;
+  if (
+    !Array.isArray(data.notes) ||
+    !Array.isArray(data.images) ||
+    !Array.isArray(data.keys)
+  )
+    return null;
+  if (!data.notes.every(isBackupNote)) return null;
+  if (!data.images.every(isBackupImage)) return null;
+  if (!data.keys.every(isBackupKey)) return null;
+  return data as unknown as BackupContents;
+}
+
+// ── Shared Note Snapshot ────────────────────────────────────────────
+
+import type { SharedNotePayload, SharedImageRef } from "./sharedNotes";
+
+function isSharedImageRef(v: unknown): v is SharedImageRef {
+  return (
+    isObject(v) &&
+    typeof v.id === "string" &&
+    typeof v.mimeType === "string" &&
+    typeof v.nonce === "string"
+  );
+}
+
+export function parseSharedNotePayload(
+  data: unknown,
+): SharedNotePayload | null {
+  if (!isObject(data)) return null;
+  if (data.version !== 1) return null;
+  if (typeof data.date !== "string" || typeof data.content !== "string") {
+    return null;
+  }
+  if (!Array.isArray(data.images) || !data.images.every(isSharedImageRef)) {
+    return null;
+  }
+  const weather =
+    data.weather === null || data.weather === undefined
+      ? null
+      : parseSavedWeather(data.weather);
+  return {
+    version: 1,
+    date: data.date,
+    content: data.content,
+    weather,
+    images: data.images.map(({ id, mimeType, nonce }) => ({
+      id,
+      mimeType,
+      nonce,
+    })),
+  };
+}
@@ -0,0 +1,162 @@
+import {
+  base64ToBytes,
+  base64UrlToBytes,
+  bytesToBase64,
+  bytesToBase64Url,
+  encodeUtf8,
+  randomBytes,
+} from "./cryptoUtils";
+
+/**
+ * Passkey unlock via the WebAuthn PRF extension.
+ *
+ * The authenticator evaluates a keyed PRF over a random salt we store next
+ * to the wrapped key; the output never leaves the browser and is turned
+ * into an AES-GCM wrapping key with HKDF. Nothing is verified by a server:
+ * the assertion itself is discarded, only the PRF output matters.
+ */
+
+const PRF_SALT_BYTES = 32;
+const HKDF_INFO = "ichinichi passkey wrap v1";
+const RP_NAME = "Ichinichi";
+
+// A credential plus the salt its wrapping key was evaluated with
+export interface PasskeyCredentialRef {
+  credentialId: string;
+  prfSalt: string;
+}
+
+export interface PasskeyWrappingKey extends PasskeyCredentialRef {
+  key: CryptoKey;
+}
+
+export function isPasskeySupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    typeof window.PublicKeyCredential !== "undefined" &&
+    !!navigator.credentials
+  );
+}
+
+function toBytes(source: BufferSource): Uint8Array<ArrayBuffer> {
+  const view = ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength)
+    : new Uint8Array(source);
+  return new Uint8Array(view);
+}
+
+async function deriveWrappingKey(
+  prfOutput: Uint8Array<ArrayBuffer>,
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    prfOutput,
+    "HKDF",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(0),
+      info: encodeUtf8(HKDF_INFO),
+    },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["wrapKey", "unwrapKey"],
+  );
+}
+
+async function evaluatePrf(
+  credentials: PasskeyCredentialRef[],
+): Promise<{ credentialId: string; output: Uint8Array<ArrayBuffer> }> {
+  const evalByCredential: Record<string, AuthenticationExtensionsPRFValues> =
+    {};
+  for (const { credentialId, prfSalt } of credentials) {
+    evalByCredential[credentialId] = { first: base64ToBytes(prfSalt) };
+  }
+
+  const assertion = (await navigator.credentials.get({
+    publicKey: {
+      challenge: randomBytes(32),
+      allowCredentials: credentials.map(({ credentialId }) => ({
+        type: "public-key",
+        id: base64UrlToBytes(credentialId),
+      })),
+      userVerification: "required",
+      extensions: { prf: { evalByCredential } },
+    },
+  })) as PublicKeyCredential | null;
+  if (!assertion) throw new Error("Passkey unlock was cancelled.");
+
+  const first = assertion.getClientExtensionResults().prf?.results?.first;
+  if (!first) {
+    throw new Error("This passkey can't unlock notes in this browser.");
+  }
+  return {
+    credentialId: bytesToBase64Url(new Uint8Array(assertion.rawId)),
+    output: toBytes(first),
+  };
+}
+
+/**
+ * Creates a passkey and returns a wrapping key bound to it. Browsers that
+ * only report PRF support at creation need a second ceremony to evaluate it.
+ */
+export async function registerPasskey(options: {
+  userName: string;
+}): Promise<PasskeyWrappingKey> {
+  const prfSalt = randomBytes(PRF_SALT_BYTES);
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      challenge: randomBytes(32),
+      rp: { name: RP_NAME },
+      user: {
+        id: randomBytes(16),
+        name: options.userName,
+        displayName: options.userName,
+      },
+      pubKeyCredParams: [
+        { type: "public-key", alg: -7 },
+        { type: "public-key", alg: -257 },
+      ],
+      authenticatorSelection: {
+        residentKey: "preferred",
+        userVerification: "required",
+      },
+      extensions: { prf: { eval: { first: prfSalt } } },
+    },
+  })) as PublicKeyCredential | null;
+  if (!credential) throw new Error("Passkey setup was cancelled.");
+
+  const prf = credential.getClientExtensionResults().prf;
+  if (!prf?.enabled && !prf?.results) {
+    throw new Error("This passkey doesn't support unlocking notes.");
+  }
+
+  const ref: PasskeyCredentialRef = {
+    credentialId: bytesToBase64Url(new Uint8Array(credential.rawId)),
+    prfSalt: bytesToBase64(prfSalt),
+  };
+  const output = prf.results?.first
+    ? toBytes(prf.results.first)
+    : (await evaluatePrf([ref])).output;
+  return { ...ref, key: await deriveWrappingKey(output) };
+}
+
+/**
+ * Asks the user for one of `credentials` and returns its wrapping key.
+ */
+export async function getPasskeyWrappingKey(
+  credentials: PasskeyCredentialRef[],
+): Promise<PasskeyWrappingKey> {
+  if (!credentials.length) {
+    throw new Error("No passkey is set up for these notes.");
+  }
+  const { credentialId, output } = await evaluatePrf(credentials);
+  const match = credentials.find((ref) => ref.credentialId === credentialId);
+  if (!match) throw new Error("That passkey isn't set up for these notes.");
+  return { ...match, key: await deriveWrappingKey(output) };
+}
@@ -0,0 +1,139 @@
+import type { KeyringProvider } from "../domain/crypto/keyring";
+import type { CryptoError } from "../domain/errors";
+import type { Result } from "../domain/result";
+import { ok, err } from "../domain/result";
+import {
+  base64ToBytes,
+  bytesToBase64,
+  decodeUtf8,
+  encodeUtf8,
+  randomBytes,
+} from "./cryptoUtils";
+
+const PAYLOAD_IV_BYTES = 12;
+
+export interface EncryptedPayload {
+  keyId: string;
+  ciphertext: string;
+  nonce: string;
+}
+
+export interface PayloadCrypto<T> {
+  encrypt(payload: T): Promise<Result<EncryptedPayload, CryptoError>>;
+  decrypt(record: EncryptedPayload): Promise<Result<T, CryptoError>>;
+}
+
+export interface PayloadCryptoOptions<T> {
+  // HKDF info string; one per kind of payload
+  info: string;
+  // Human-readable name used in error messages
+  label: string;
+  parse: (data: unknown) => T | null;
+}
+
+/**
+ * Derive a dedicated AES-GCM key from a vault key so each kind of local
+ * payload is never encrypted under the same key as note content.
+ */
+async function derivePayloadKey(
+  vaultKey: CryptoKey,
+  info: string,
+): Promise<CryptoKey> {
+  const raw = await crypto.subtle.exportKey("raw", vaultKey);
+  const baseKey = await crypto.subtle.importKey("raw", raw, "HKDF", false, [
+    "deriveKey",
+  ]);
+  const salt = new Uint8Array(16);
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt, info: new TextEncoder().encode(info) },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+/**
+ * Encrypt JSON payloads stored alongside notes (search index entries,
+ * revision snapshots) under a key derived from the keyring's vault keys.
+ */
+export function createPayloadCrypto<T>(
+  keyring: KeyringProvider,
+  { info, label, parse }: PayloadCryptoOptions<T>,
+): PayloadCrypto<T> {
+  const keyCache = new Map<string, Promise<CryptoKey>>();
+
+  const getPayloadKey = async (keyId: string): Promise<CryptoKey | null> => {
+    const baseKey = keyring.getKey(keyId);
+    if (!baseKey) return null;
+    if (!keyCache.has(keyId)) {
+      keyCache.set(keyId, derivePayloadKey(baseKey, info));
+    }
+    return keyCache.get(keyId)!;
+  };
+
+  return {
+    async encrypt(payload) {
+      try {
+        const keyId = keyring.activeKeyId;
+        const key = await getPayloadKey(keyId);
+        if (!key) {
+          return err({
+            type: "KeyMissing",
+            message: `${label} key ${keyId} is not available`,
+          });
+        }
+        const iv = randomBytes(PAYLOAD_IV_BYTES);
+        const encrypted = await crypto.subtle.encrypt(
+          { name: "AES-GCM", iv },
+          key,
+          encodeUtf8(JSON.stringify(payload)),
+        );
+        return ok({
+          keyId,
+          ciphertext: bytesToBase64(new Uint8Array(encrypted)),
+          nonce: bytesToBase64(iv),
+        });
+      } catch (error) {
+        return err({
+          type: "EncryptFailed",
+          message:
+            error instanceof Error ? error.message : "Encryption failed",
+        });
+      }
+    },
+
+    async decrypt(record) {
+      try {
+        const key = await getPayloadKey(record.keyId);
+        if (!key) {
+          return err({
+            type: "KeyMissing",
+            message: `${label} key ${record.keyId} is not available`,
+          });
+        }
+        const decrypted = await crypto.subtle.decrypt(
+          { name: "AES-GCM", iv: base64ToBytes(record.nonce) },
+          key,
+          base64ToBytes(record.ciphertext),
+        );
+        const payload = parse(
+          JSON.parse(decodeUtf8(new Uint8Array(decrypted))),
+        );
+        if (!payload) {
+          return err({
+            type: "DecryptFailed",
+            message: `Invalid ${label.toLowerCase()} payload`,
+          });
+        }
+        return ok(payload);
+      } catch (error) {
+        return err({
+          type: "DecryptFailed",
+          message:
+            error instanceof Error ? error.message : "Decryption failed",
+        });
+      }
+    },
+  };
+}
@@ -0,0 +1,131 @@
+import { STORAGE_PREFIX } from "../utils/constants";
+import { parseProfileList, type Profile } from "./parsers";
+
+export type { Profile } from "./parsers";
+
+/**
+ * Profiles.
+ *
+ * One browser can hold several profiles, local or signed in, each with its
+ * own vault, keyring, caches, Supabase session and local notes database.
+ * Storage of the default profile keeps the keys used before profiles
+ * existed; other profiles suffix them with their id. Switching reloads the
+ * app, so the active profile is fixed for the life of a page.
+ */
+
+export const DEFAULT_PROFILE_ID = "default";
+export const DEFAULT_PROFILE_NAME = "Personal";
+export const PROFILE_NAME_MAX_LENGTH = 40;
+
+const PROFILES_STORAGE_KEY = `${STORAGE_PREFIX}profiles_v1`;
+const CURRENT_PROFILE_KEY = `${STORAGE_PREFIX}profile_current_v1`;
+
+export function defaultProfile(): Profile {
+  return {
+    id: DEFAULT_PROFILE_ID,
+    name: DEFAULT_PROFILE_NAME,
+    email: null,
+    createdAt: null,
+  };
+}
+
+export function isValidProfileId(id: string): boolean {
+  return id === DEFAULT_PROFILE_ID || /^[a-z0-9]{8,32}$/.test(id);
+}
+
+export function createProfileId(): string {
+  return crypto.randomUUID().replace(/-/g, "").slice(0, 16);
+}
+
+/**
+ * The profile the next page load runs as. An unknown id (a profile removed
+ * in another tab) falls back to the default profile.
+ */
+export function loadActiveProfileId(): string {
+  if (typeof window === "undefined") return DEFAULT_PROFILE_ID;
+  const id = localStorage.getItem(CURRENT_PROFILE_KEY);
+  if (!id || !isValidProfileId(id)) return DEFAULT_PROFILE_ID;
+  return loadProfiles().some((profile) => profile.id === id)
+    ? id
+    : DEFAULT_PROFILE_ID;
+}
+
+// Read once: a switch in another tab must not move this page's storage
+const activeProfileId = loadActiveProfileId();
+
+/**
+ * The profile this page runs as, fixed when the page loaded.
+ */
+export function getActiveProfileId(): string {
+  return activeProfileId;
+}
+
+/**
+ * Takes effect on the next page load.
+ */
+export function setActiveProfileId(id: string): void {
+  if (typeof window === "undefined") return;
+  if (id === DEFAULT_PROFILE_ID) {
+    localStorage.removeItem(CURRENT_PROFILE_KEY);
+  } else {
+    localStorage.setItem(CURRENT_PROFILE_KEY, id);
+  }
+}
+
+export function isDefaultProfile(): boolean {
+  return getActiveProfileId() === DEFAULT_PROFILE_ID;
+}
+
+/**
+ * A localStorage or IndexedDB key scoped to the active profile.
+ */
+export function profileStorageKey(
+  key: string,
+  profileId: string = getActiveProfileId(),
+): string {
+  return profileId === DEFAULT_PROFILE_ID ? key : `${key}:${profileId}`;
+}
+
+/**
+ * Owner of the local-mode notes databases; signed-in profiles use the
+ * user id instead.
+ */
+export function localDatabaseOwner(
+  profileId: string = getActiveProfileId(),
+): string {
+  return profileId === DEFAULT_PROFILE_ID ? "local" : `local-${profileId}`;
+}
+
+/**
+ * Profiles on this device, default profile first.
+ */
+export function loadProfiles(): Profile[] {
+  if (typeof window === "undefined") return [defaultProfile()];
+  const raw = localStorage.getItem(PROFILES_STORAGE_KEY);
+  let profiles: Profile[] = [];
+  if (raw) {
+    try {
+      profiles = parseProfileList(JSON.parse(raw)) ?? [];
+    } catch {
+      profiles = [];
+    }
+  }
+  return withDefault(profiles);
+}
+
+export function saveProfiles(profiles: Profile[]): void {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(
+    PROFILES_STORAGE_KEY,
+    JSON.stringify(withDefault(profiles)),
+  );
+}
+
+function withDefault(profiles: Profile[]): Profile[] {
+  const rest = profiles.filter(
+    (profile) =>
+      profile.id !== DEFAULT_PROFILE_ID && isValidProfileId(profile.id),
+  );
+  const saved = profiles.find((profile) => profile.id === DEFAULT_PROFILE_ID);
+  return [saved ?? defaultProfile(), ...rest];
+}
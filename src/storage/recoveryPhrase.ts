@@ -0,0 +1,91 @@
+import { randomBytes } from "./cryptoUtils";
+
+// 256 words, one per byte. No two words share their first four letters,
+// so a phrase can also be typed as prefixes.
+const WORDS: readonly string[] = [
+  "acorn", "alarm", "amber", "anchor", "ankle", "apple", "apron", "arch",
+  "arena", "armor", "arrow", "atlas", "attic", "autumn", "baby", "bacon",
+  "badge", "bagel", "baker", "bamboo", "banjo", "barrel", "basket", "beach",
+  "beetle", "bench", "berry", "bicycle", "bishop", "blanket", "board",
+  "bottle", "bridge", "brush", "bucket", "button", "cabin", "cactus", "camel",
+  "candle", "canoe", "canyon", "captain", "carpet", "castle", "cattle",
+  "chair", "cheese", "cherry", "circle", "clock", "cloud", "coconut", "coffee",
+  "comet", "cotton", "crystal", "daisy", "dancer", "deer", "desert", "diamond",
+  "dinner", "dolphin", "donkey", "dragon", "drawer", "drum", "duck", "eagle",
+  "earth", "eclipse", "elbow", "engine", "eraser", "fabric", "falcon",
+  "family", "farmer", "feather", "fence", "ferry", "finger", "flame", "flower",
+  "forest", "fox", "frog", "fruit", "galaxy", "garden", "garlic", "gate",
+  "giant", "ginger", "glacier", "globe", "glove", "goat", "gold", "grape",
+  "gravel", "guitar", "hammer", "harbor", "hawk", "helmet", "herb", "hill",
+  "honey", "hotel", "igloo", "island", "ivory", "jacket", "jaguar", "jewel",
+  "journey", "jungle", "kayak", "kettle", "kitchen", "kite", "kiwi", "knife",
+  "koala", "label", "ladder", "lagoon", "lamp", "lantern", "laptop", "lawn",
+  "lemon", "letter", "lily", "lion", "locket", "magnet", "mango", "maple",
+  "marble", "meadow", "melon", "mirror", "monkey", "moon", "motor", "muffin",
+  "napkin", "needle", "oasis", "ocean", "office", "olive", "onion", "orange",
+  "orbit", "orchid", "otter", "oven", "owl", "palace", "panda", "paper",
+  "parrot", "pasta", "peach", "pebble", "pencil", "piano", "pigeon", "pillow",
+  "pilot", "planet", "plum", "pocket", "polar", "potato", "pumpkin", "puzzle",
+  "queen", "quilt", "rabbit", "radar", "radio", "rain", "raven", "record",
+  "ribbon", "river", "robot", "rocket", "rose", "ruby", "saddle", "salad",
+  "salmon", "sandal", "scarf", "school", "shell", "shoe", "silver", "skate",
+  "sled", "smile", "snake", "socket", "soup", "spider", "spoon", "stamp",
+  "star", "stone", "sugar", "summer", "sunset", "swan", "table", "teapot",
+  "temple", "tennis", "ticket", "tiger", "toast", "tomato", "tower", "tulip",
+  "tunnel", "turtle", "uncle", "valley", "vanilla", "velvet", "village",
+  "violin", "voyage", "wagon", "walnut", "warm", "water", "whale", "wheat",
+  "willow", "window", "winter", "wizard", "wolf", "wonder", "yacht", "yellow",
+  "yogurt", "zebra", "zero", "zipper",
+];
+
+const ENTROPY_BYTES = 16;
+const CHECKSUM_BYTES = 2;
+export const RECOVERY_PHRASE_WORDS = ENTROPY_BYTES + CHECKSUM_BYTES;
+
+const WORD_INDEX = new Map<string, number>();
+WORDS.forEach((word, index) => {
+  WORD_INDEX.set(word, index);
+  WORD_INDEX.set(word.slice(0, 4), index);
+});
+
+async function checksum(
+  entropy: Uint8Array<ArrayBuffer>,
+): Promise<Uint8Array> {
+  const hash = await crypto.subtle.digest("SHA-256", entropy);
+  return new Uint8Array(hash).slice(0, CHECKSUM_BYTES);
+}
+
+/**
+ * A new recovery phrase: 128 random bits plus a 16-bit checksum, one word
+ * per byte.
+ */
+export async function generateRecoveryPhrase(): Promise<string> {
+  const entropy = randomBytes(ENTROPY_BYTES);
+  const bytes = [...entropy, ...(await checksum(entropy))];
+  return bytes.map((byte) => WORDS[byte]).join(" ");
+}
+
+/**
+ * Canonical form of a typed phrase (full lowercase words, single spaces),
+ * or null if a word is unknown, words are missing or the checksum fails.
+ * The canonical form is what the recovery key is derived from.
+ */
+export async function normalizeRecoveryPhrase(
+  input: string,
+): Promise<string | null> {
+  const words = input.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+  if (words.length !== RECOVERY_PHRASE_WORDS) return null;
+
+  const bytes = new Uint8Array(words.length);
+  for (let i = 0; i < words.length; i++) {
+    const index = WORD_INDEX.get(words[i]);
+    if (index === undefined) return null;
+    bytes[i] = index;
+  }
+
+  const expected = await checksum(bytes.slice(0, ENTROPY_BYTES));
+  const actual = bytes.slice(ENTROPY_BYTES);
+  if (!expected.every((byte, i) => byte === actual[i])) return null;
+
+  return Array.from(bytes, (byte) => WORDS[byte]).join(" ");
+}
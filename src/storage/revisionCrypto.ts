@@ -0,0 +1,25 @@
+import type { KeyringProvider } from "../domain/crypto/keyring";
+import type { SavedWeather } from "../types";
+import { createPayloadCrypto, type PayloadCrypto } from "./payloadCrypto";
+import { parseRevisionPayload } from "./parsers";
+
+const REVISION_KEY_INFO = "ichinichi:note-revisions-key:v1";
+
+export interface RevisionPayload {
+  content: string;
+  weather: SavedWeather | null;
+}
+
+export type RevisionCrypto = PayloadCrypto<RevisionPayload>;
+
+/**
+ * Revision snapshots get their own key derived from the vault key, kept
+ * apart from both note content and the search index.
+ */
+export function createRevisionCrypto(keyring: KeyringProvider): RevisionCrypto {
+  return createPayloadCrypto(keyring, {
+    info: REVISION_KEY_INFO,
+    label: "Revision",
+    parse: parseRevisionPayload,
+  });
+}
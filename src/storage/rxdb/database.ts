@@ -7,20 +7,49 @@ addRxPlugin(RxDBAttachmentsPlugin);
 import {
   noteSchema,
   imageSchema,
+  searchIndexSchema,
+  noteRevisionSchema,
   type NoteDocType,
   type ImageDocType,
+  type SearchIndexDocType,
+  type NoteRevisionDocType,
 } from "./schemas";
+import { createNoteConflictHandler } from "./noteConflictHandler";
 
 export type NoteCollection = RxCollection<NoteDocType>;
 export type ImageCollection = RxCollection<ImageDocType>;
+export type SearchIndexCollection = RxCollection<SearchIndexDocType>;
+export type NoteRevisionCollection = RxCollection<NoteRevisionDocType>;
 
 export type AppCollections = {
   notes: NoteCollection;
   images: ImageCollection;
+  searchIndex: SearchIndexCollection;
+  noteRevisions: NoteRevisionCollection;
 };
 
 export type AppDatabase = RxDatabase<AppCollections>;
 
+/**
+ * Called when replication resolves a note conflict with something other
+ * than the local version (a merge, or the server copy), with the local
+ * state that was replaced.
+ */
+export type NoteConflictListener = (replaced: NoteDocType) => void;
+
+const conflictListeners = new WeakMap<AppDatabase, Set<NoteConflictListener>>();
+
+export function onNoteConflict(
+  db: AppDatabase,
+  listener: NoteConflictListener,
+): () => void {
+  const listeners = conflictListeners.get(db);
+  listeners?.add(listener);
+  return () => {
+    listeners?.delete(listener);
+  };
+}
+
 // Singleton cache: ensures only one database per name is ever created concurrently.
 const openPromises = new Map<string, Promise<AppDatabase>>();
 
@@ -71,9 +100,20 @@ async function doCreate(
     closeDuplicates: true,
   });
 
+  const listeners = new Set<NoteConflictListener>();
+  conflictListeners.set(db, listeners);
+
   await db.addCollections({
-    notes: { schema: noteSchema },
+    notes: {
+      schema: noteSchema,
+      conflictHandler: createNoteConflictHandler((replaced) => {
+        listeners.forEach((listener) => listener(replaced));
+      }),
+    },
     images: { schema: imageSchema },
+    searchIndex: { schema: searchIndexSchema },
+    // Local only: revisions are not part of replication
+    noteRevisions: { schema: noteRevisionSchema },
   });
 
   return db;
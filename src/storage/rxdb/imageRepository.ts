@@ -1,5 +1,5 @@
 import type { ImageRepository } from "../imageRepository";
-import type { NoteImage } from "../../types";
+import type { DeletedImage, NoteImage } from "../../types";
 import type { RepositoryError } from "../../domain/errors";
 import type { Result } from "../../domain/result";
 import type { AppDatabase } from "./database";
@@ -119,6 +119,73 @@ export class RxDBImageRepository implements ImageRepository {
     }
   }
 
+  async getDeleted(): Promise<Result<DeletedImage[], RepositoryError>> {
+    try {
+      const docs = await this.db.images
+        .find({ selector: { isDeleted: { $eq: true } } })
+        .exec();
+      const images = docs.map((doc) => ({
+        id: doc.id,
+        noteDate: doc.noteDate,
+        type: doc.type,
+        filename: doc.filename,
+        mimeType: doc.mimeType,
+        width: doc.width,
+        height: doc.height,
+        size: doc.size,
+        createdAt: doc.createdAt,
+        // Images carry no replicated timestamp. Where the image was deleted
+        // the last write is the delete; elsewhere it's when the delete was
+        // pulled.
+        deletedAt: new Date(doc.toJSON(true)._meta.lwt).toISOString(),
+      }));
+      return ok(images.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt)));
+    } catch (error) {
+      reportError("rxImageRepository.getDeleted", error);
+      return err({ type: "IO", message: String(error) });
+    }
+  }
+
+  async getIncludingDeleted(imageId: string): Promise<Result<Blob | null, RepositoryError>> {
+    try {
+      const doc = await this.db.images.findOne(imageId).exec();
+      const attachment = doc?.getAttachment("blob");
+      return ok(attachment ? await attachment.getData() : null);
+    } catch (error) {
+      reportError("rxImageRepository.getIncludingDeleted", error);
+      return err({ type: "IO", message: String(error) });
+    }
+  }
+
+  async restore(imageId: string): Promise<Result<void, RepositoryError>> {
+    try {
+      const doc = await this.db.images.findOne(imageId).exec();
+      if (!doc) return ok(undefined);
+      await doc.patch({ isDeleted: false });
+      return ok(undefined);
+    } catch (error) {
+      reportError("rxImageRepository.restore", error);
+      return err({ type: "IO", message: String(error) });
+    }
+  }
+
+  async purge(imageId: string): Promise<Result<void, RepositoryError>> {
+    try {
+      const doc = await this.db.images.findOne(imageId).exec();
+      if (!doc || !doc.isDeleted) {
+        return err({ type: "NotFound", message: `No deleted image ${imageId}` });
+      }
+      // Replication pushes the removal, deleting the row and stored blob.
+      // Other devices never pull a row that is gone, so the image stays in
+      // their Trash until it's purged there too.
+      await doc.remove();
+      return ok(undefined);
+    } catch (error) {
+      reportError("rxImageRepository.purge", error);
+      return err({ type: "IO", message: String(error) });
+    }
+  }
+
   async getByNoteDate(noteDate: string): Promise<Result<NoteImage[], RepositoryError>> {
     try {
       const docs = await this.db.images
@@ -0,0 +1,72 @@
+import {
+  defaultConflictHandler,
+  type RxConflictHandler,
+  type RxConflictHandlerInput,
+  type WithDeleted,
+} from "rxdb/plugins/core";
+import type { NoteDocType } from "./schemas";
+import { mergeNoteContent } from "../../utils/noteMerge";
+import { reportError } from "../../utils/errorReporter";
+
+/**
+ * Merge a local note edit with the version that reached the server first,
+ * using the last synced version (`assumedMasterState`) as the common base.
+ * Returns null when there's nothing to merge (a side deleted the note),
+ * leaving the decision to the default handler.
+ */
+export function mergeNoteConflict(
+  input: RxConflictHandlerInput<NoteDocType>,
+): WithDeleted<NoteDocType> | null {
+  const { assumedMasterState: base, realMasterState: remote, newDocumentState: local } = input;
+  if (local._deleted || remote._deleted || local.isDeleted || remote.isDeleted) {
+    return null;
+  }
+  const content = mergeNoteContent(
+    base && !base._deleted && !base.isDeleted ? base.content : null,
+    local.content,
+    remote.content,
+  );
+  if (content === remote.content) return remote;
+  return {
+    ...remote,
+    content,
+    // Newer than both sides so the merge is pushed as the latest version
+    updatedAt: new Date().toISOString(),
+    weather: remote.weather ?? local.weather ?? null,
+  };
+}
+
+/**
+ * Conflict handler for the notes collection: three-way merges concurrent
+ * edits, and reports the local version whenever the resolved document
+ * doesn't keep it as-is.
+ */
+export function createNoteConflictHandler(
+  onReplaced: (local: NoteDocType) => void,
+): RxConflictHandler<NoteDocType> {
+  return {
+    isEqual: defaultConflictHandler.isEqual,
+    async resolve(input, context) {
+      let merged: WithDeleted<NoteDocType> | null = null;
+      try {
+        merged = mergeNoteConflict(input);
+      } catch (error) {
+        reportError("noteConflictHandler.merge", error);
+      }
+      const resolved: WithDeleted<NoteDocType> =
+        merged ?? (await defaultConflictHandler.resolve(input, context));
+
+      const local = input.newDocumentState;
+      if (!local._deleted && local.content !== resolved.content) {
+        onReplaced({
+          date: local.date,
+          content: local.content,
+          updatedAt: local.updatedAt,
+          isDeleted: local.isDeleted,
+          weather: local.weather ?? null,
+        });
+      }
+      return resolved;
+    },
+  };
+}
@@ -1,15 +1,25 @@
 import type { NoteRepository } from "../noteRepository";
-import type { Note, SavedWeather } from "../../types";
+import type { DeletedNote, Note, SavedWeather } from "../../types";
 import type { RepositoryError } from "../../domain/errors";
 import type { Result } from "../../domain/result";
 import type { AppDatabase } from "./database";
+import type { RxDBSearchIndex } from "./searchIndex";
+import type { RxDBNoteRevisionStore } from "./revisionStore";
 import { ok, err } from "../../domain/result";
 import { reportError } from "../../utils/errorReporter";
 
 export class RxDBNoteRepository implements NoteRepository {
   readonly db: AppDatabase;
-  constructor(db: AppDatabase) {
+  readonly searchIndex: RxDBSearchIndex | null;
+  readonly revisions: RxDBNoteRevisionStore | null;
+  constructor(
+    db: AppDatabase,
+    searchIndex: RxDBSearchIndex | null = null,
+    revisions: RxDBNoteRevisionStore | null = null,
+  ) {
     this.db = db;
+    this.searchIndex = searchIndex;
+    this.revisions = revisions;
   }
 
   async get(date: string): Promise<Result<Note | null, RepositoryError>> {
@@ -29,13 +39,25 @@ export class RxDBNoteRepository implements NoteRepository {
     weather?: SavedWeather | null,
   ): Promise<Result<void, RepositoryError>> {
     try {
+      const previous = await this.db.notes.findOne(date).exec();
+      if (previous && !previous.isDeleted && previous.content !== content) {
+        // Like the index, a failed snapshot doesn't fail the save
+        await this.revisions?.captureEdit(date, {
+          content: previous.content,
+          weather: previous.weather ?? null,
+        });
+      }
+      const updatedAt = new Date().toISOString();
       await this.db.notes.upsert({
         date,
         content,
-        updatedAt: new Date().toISOString(),
+        updatedAt,
         isDeleted: false,
         weather: weather ?? null,
       });
+      // Index failures don't fail the save — the index re-syncs stale
+      // entries against the notes collection on the next search.
+      await this.searchIndex?.update(date, content, weather, updatedAt);
       return ok(undefined);
     } catch (error) {
       reportError("rxNoteRepository.save", error);
@@ -50,7 +72,11 @@ export class RxDBNoteRepository implements NoteRepository {
     try {
       const doc = await this.db.notes.findOne(date).exec();
       if (doc) {
-        await doc.patch({ weather, updatedAt: new Date().toISOString() });
+        const updatedAt = new Date().toISOString();
+        await doc.patch({ weather, updatedAt });
+        if (!doc.isDeleted) {
+          await this.searchIndex?.update(date, doc.content, weather, updatedAt);
+        }
       }
       // If no doc exists yet, skip — weather will be included in the next content save
       return ok(undefined);
@@ -64,7 +90,9 @@ export class RxDBNoteRepository implements NoteRepository {
     try {
       const doc = await this.db.notes.findOne(date).exec();
       if (!doc) return ok(undefined);
-      await doc.patch({ isDeleted: true });
+      // updatedAt replicates, so every device's Trash shows the delete time
+      await doc.patch({ isDeleted: true, updatedAt: new Date().toISOString() });
+      await this.searchIndex?.remove(date);
       return ok(undefined);
     } catch (error) {
       reportError("rxNoteRepository.delete", error);
@@ -123,6 +151,83 @@ export class RxDBNoteRepository implements NoteRepository {
     }
   }
 
+  async getDeleted(): Promise<Result<DeletedNote[], RepositoryError>> {
+    try {
+      const docs = await this.db.notes
+        .find({ selector: { isDeleted: { $eq: true } } })
+        .exec();
+      const notes = docs.map((doc) => ({
+        ...this.toNote(doc),
+        deletedAt: doc.updatedAt,
+      }));
+      return ok(notes.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt)));
+    } catch (error) {
+      reportError("rxNoteRepository.getDeleted", error);
+      return err({ type: "IO", message: String(error) });
+    }
+  }
+
+  /**
+   * Remove a soft-deleted note for good. Replication pushes the removal,
+   * which deletes the server row; local revisions and the index entry go
+   * with it.
+   *
+   * Other devices pull by `_modified` checkpoint and never see a row that
+   * is gone, so the note stays in their Trash until it's purged there too.
+   * An edit pushed from one of them recreates the row.
+   */
+  async purgeNote(date: string): Promise<Result<void, RepositoryError>> {
+    try {
+      const doc = await this.db.notes.findOne(date).exec();
+      if (!doc || !doc.isDeleted) {
+        return err({ type: "NotFound", message: `No deleted note for ${date}` });
+      }
+      await doc.remove();
+      await this.searchIndex?.remove(date);
+      await this.revisions?.removeAll(date);
+      return ok(undefined);
+    } catch (error) {
+      reportError("rxNoteRepository.purgeNote", error);
+      return err({ type: "IO", message: String(error) });
+    }
+  }
+
+  /**
+   * Make an older revision the current content. The content being replaced
+   * is snapshotted first, so a restore can itself be undone.
+   */
+  async restoreRevision(
+    date: string,
+    revisionId: string,
+  ): Promise<Result<void, RepositoryError>> {
+    if (!this.revisions) {
+      return err({ type: "KeyMissing", message: "Revision history is not available" });
+    }
+    const revision = await this.revisions.get(date, revisionId);
+    if (!revision.ok) return revision;
+    if (!revision.value) {
+      return err({ type: "NotFound", message: `Revision ${revisionId} not found` });
+    }
+    try {
+      const current = await this.db.notes.findOne(date).exec();
+      if (current && !current.isDeleted) {
+        const snapshot = await this.revisions.capture(
+          date,
+          { content: current.content, weather: current.weather ?? null },
+          "restore",
+        );
+        // Never overwrite content we couldn't keep a copy of
+        if (!snapshot.ok) return snapshot;
+      }
+    } catch (error) {
+      reportError("rxNoteRepository.restoreRevision", error);
+      return err({ type: "IO", message: String(error) });
+    }
+    const { content, weather } = revision.value;
+    // The snapshot above is recent, so save() won't take another one
+    return this.save(date, content, weather);
+  }
+
   private toNote(doc: { date: string; content: string; updatedAt: string; weather?: SavedWeather | null }): Note {
     return {
       date: doc.date,
@@ -11,6 +11,8 @@ import type { Result } from "../../domain/result";
 import { reportError } from "../../utils/errorReporter";
 import { parseEncryptedBlobRecord, parseSupabaseNoteRow, parseSupabaseImageRow } from "../parsers";
 import { bytesToBase64 } from "../cryptoUtils";
+import { isDateTag, PLAIN_DATE_INDEX, type DateIndex } from "../dateIndex";
+import { DEFAULT_JOURNAL_ID } from "../journals";
 
 export interface ReplicationCrypto {
   encrypt(payload: NotePayload): Promise<Result<EncryptedNote, CryptoError>>;
@@ -33,14 +35,18 @@ export interface SupabaseNoteRow {
 
 /**
  * Creates a push modifier that encrypts note content before pushing to Supabase.
+ * The date always travels in the payload; the date column holds whatever
+ * `dateIndex` maps it to.
  */
 export function createPushModifier(
   crypto: ReplicationCrypto,
+  dateIndex: DateIndex = PLAIN_DATE_INDEX,
 ): (doc: NoteDocType) => Promise<SupabaseNoteRow> {
   return async (doc: NoteDocType): Promise<SupabaseNoteRow> => {
     const payload: NotePayload = {
       content: doc.content,
       weather: doc.weather ?? null,
+      date: doc.date,
     };
 
     const result = await crypto.encrypt(payload);
@@ -53,7 +59,7 @@ export function createPushModifier(
     const { ciphertext, nonce, keyId } = result.value;
 
     return {
-      date: doc.date,
+      date: await dateIndex.toRowDate(doc.date),
       key_id: keyId,
       ciphertext,
       nonce,
@@ -73,6 +79,9 @@ export function createPushModifier(
  * decrypt this" into "this note is empty," which is irrecoverable on the
  * client. Callers must catch and skip undecryptable rows so the local
  * state stays untouched until the keyring catches up.
+ *
+ * Rows keyed by a date tag are decrypted even when deleted: the payload is
+ * the only place their date is stored.
  */
 export function createPullModifier(
   crypto: ReplicationCrypto,
@@ -89,7 +98,7 @@ export function createPullModifier(
 
     const updatedAt = row.updated_at || new Date().toISOString();
 
-    if (row._deleted) {
+    if (row._deleted && !isDateTag(row.date)) {
       return {
         date: row.date,
         content: "",
@@ -112,9 +121,19 @@ export function createPullModifier(
     }
 
     const { content, weather } = result.value;
+    const date = result.value.date ?? row.date;
+    if (isDateTag(date)) {
+      throw new Error(
+        `replication.pull: no date in payload for ${row.date} (key_id=${row.key_id})`,
+      );
+    }
+
+    if (row._deleted) {
+      return { date, content: "", updatedAt, isDeleted: true, weather: null };
+    }
 
     return {
-      date: row.date,
+      date,
       content,
       updatedAt,
       isDeleted: false,
@@ -128,7 +147,7 @@ export function createPullModifier(
 // ---------------------------------------------------------------------------
 
 export interface ImageReplicationCrypto {
-  encryptBlob(blob: Blob): Promise<Result<{
+  encryptBlob(blob: Blob, keyId?: string): Promise<Result<{
     record: { version: 1; id: string; keyId: string; ciphertext: string; nonce: string };
     sha256: string;
     size: number;
@@ -158,10 +177,73 @@ export interface SupabaseImageRow {
   key_id: string;
   nonce: string;
   sha256: string;
+  // Encrypted { noteDate } envelope, set when note_date is a date tag
+  meta?: string | null;
   _modified: string;
   _deleted: boolean;
 }
 
+const IMAGE_META_TYPE = "application/json";
+
+/**
+ * Encrypts an image's note date into the JSON envelope stored in the
+ * row's `meta` column, with `keyId` or the active key.
+ */
+export async function encryptImageMeta(
+  crypto: ImageReplicationCrypto,
+  noteDate: string,
+  keyId?: string,
+): Promise<string> {
+  const result = await crypto.encryptBlob(
+    new Blob([JSON.stringify({ noteDate })], { type: IMAGE_META_TYPE }),
+    keyId,
+  );
+  if (!result.ok) {
+    throw new Error(`imageReplication.meta: encryption failed: ${result.error.message}`);
+  }
+  const { record } = result.value;
+  return JSON.stringify({
+    keyId: record.keyId,
+    ciphertext: record.ciphertext,
+    nonce: record.nonce,
+  });
+}
+
+export async function decryptImageMeta(
+  crypto: ImageReplicationCrypto,
+  meta: string,
+): Promise<string | null> {
+  let record: ReturnType<typeof parseEncryptedBlobRecord>;
+  try {
+    record = parseEncryptedBlobRecord(JSON.parse(meta));
+  } catch {
+    return null;
+  }
+  if (!record) return null;
+  const result = await crypto.decryptBlob(record, IMAGE_META_TYPE);
+  if (!result.ok) return null;
+  try {
+    const parsed: unknown = JSON.parse(await result.value.text());
+    const noteDate = (parsed as { noteDate?: unknown } | null)?.noteDate;
+    return typeof noteDate === "string" ? noteDate : null;
+  } catch {
+    return null;
+  }
+}
+
+// The plain note date of an image row, decrypting `meta` for tagged rows
+async function readImageNoteDate(
+  crypto: ImageReplicationCrypto,
+  row: { id: string; note_date: string; meta?: string | null },
+): Promise<string> {
+  if (!isDateTag(row.note_date)) return row.note_date;
+  const noteDate = row.meta ? await decryptImageMeta(crypto, row.meta) : null;
+  if (!noteDate) {
+    throw new Error(`imageReplication: no readable note date for image ${row.id}`);
+  }
+  return noteDate;
+}
+
 /**
  * Creates a push modifier that encrypts an image blob and uploads the ciphertext
  * to a storage bucket, returning a Supabase image row.
@@ -170,6 +252,7 @@ export function createImagePushModifier(
   crypto: ImageReplicationCrypto,
   bucket: StorageBucket,
   userId: string,
+  dateIndex: DateIndex = PLAIN_DATE_INDEX,
 ): (doc: ImageDocType, blob: Blob) => Promise<SupabaseImageRow> {
   return async (doc: ImageDocType, blob: Blob): Promise<SupabaseImageRow> => {
     const encResult = await crypto.encryptBlob(blob);
@@ -185,7 +268,13 @@ export function createImagePushModifier(
       type: "application/octet-stream",
     });
 
-    const uploadPath = imageBlobPath(userId, doc.noteDate, doc.id);
+    const rowDate = await dateIndex.toRowDate(doc.noteDate);
+    const meta =
+      rowDate === doc.noteDate
+        ? null
+        : await encryptImageMeta(crypto, doc.noteDate, keyId);
+
+    const uploadPath = imageBlobPath(userId, rowDate, doc.id);
     const uploadResult = await bucket.upload(uploadPath, ciphertextBlob);
     if (!uploadResult.ok) {
       throw new Error(
@@ -195,7 +284,7 @@ export function createImagePushModifier(
 
     return {
       id: doc.id,
-      note_date: doc.noteDate,
+      note_date: rowDate,
       type: doc.type,
       filename: doc.filename,
       mime_type: doc.mimeType,
@@ -206,6 +295,7 @@ export function createImagePushModifier(
       key_id: keyId,
       nonce: record.nonce,
       sha256,
+      meta,
       _modified: new Date().toISOString(),
       _deleted: doc.isDeleted,
     };
@@ -215,6 +305,7 @@ export function createImagePushModifier(
 /**
  * Creates a pull modifier that downloads an encrypted image blob from the bucket
  * and decrypts it, returning both the ImageDocType and the decrypted Blob.
+ * Throws when a tagged row's note date can't be decrypted.
  */
 export function createImagePullModifier(
   crypto: ImageReplicationCrypto,
@@ -246,7 +337,7 @@ export function createImagePullModifier(
 
     const doc: ImageDocType = {
       id: parsed.id,
-      noteDate: parsed.note_date,
+      noteDate: await readImageNoteDate(crypto, parsed),
       type: parsed.type,
       filename: parsed.filename,
       mimeType: parsed.mime_type,
@@ -283,8 +374,10 @@ export function createImagePullModifier(
       return { doc, blob: null };
     }
 
+    // The envelope's key, which can be newer than the row's while a key
+    // rotation is moving the image
     const decryptResult = await crypto.decryptBlob(
-      { keyId: parsed.key_id, ciphertext: encRecord.ciphertext, nonce: encRecord.nonce },
+      { keyId: encRecord.keyId ?? parsed.key_id, ciphertext: encRecord.ciphertext, nonce: encRecord.nonce },
       parsed.mime_type,
     );
 
@@ -301,7 +394,7 @@ export function createImagePullModifier(
  * Adapts an E2eeService into the ImageReplicationCrypto interface.
  */
 export function createImageCryptoAdapter(e2ee: {
-  encryptImageBlob(blob: Blob): Promise<{
+  encryptImageBlob(blob: Blob, keyId?: string | null): Promise<{
     record: { version: 1; id: string; keyId: string; ciphertext: string; nonce: string };
     sha256: string;
     size: number;
@@ -313,9 +406,9 @@ export function createImageCryptoAdapter(e2ee: {
   ): Promise<Blob | null>;
 }): ImageReplicationCrypto {
   return {
-    async encryptBlob(blob) {
+    async encryptBlob(blob, keyId) {
       try {
-        const result = await e2ee.encryptImageBlob(blob);
+        const result = await e2ee.encryptImageBlob(blob, keyId);
         if (!result) return { ok: false, error: { type: "EncryptFailed" as const, message: "Image encryption returned null" } };
         return { ok: true, value: result };
       } catch (error) {
@@ -346,7 +439,18 @@ export function createRemoteBlobFetcher(
   const bucket = createSupabaseBucket(supabase);
   return {
     async fetch(imageId: string, noteDate: string, mimeType: string): Promise<Blob | null> {
-      let downloadResult = await bucket.download(imageBlobPath(userId, noteDate, imageId));
+      // Fetch nonce/key_id from the DB row for legacy blob fallback, and
+      // note_date since the blob lives under the row's (possibly tagged) date
+      const { data: row } = await supabase
+        .from("note_images")
+        .select("key_id, nonce, note_date")
+        .eq("id", imageId)
+        .eq("user_id", userId)
+        .single();
+
+      let downloadResult = await bucket.download(
+        imageBlobPath(userId, row?.note_date ?? noteDate, imageId),
+      );
       if (!downloadResult.ok) {
         // Fall back to legacy path (pre-E2EE rewrite: userId/imageId without noteDate or .enc)
         downloadResult = await bucket.download(legacyImageBlobPath(userId, imageId));
@@ -356,14 +460,6 @@ export function createRemoteBlobFetcher(
         return null;
       }
 
-      // Fetch nonce/key_id from the DB row for legacy blob fallback
-      const { data: row } = await supabase
-        .from("note_images")
-        .select("key_id, nonce")
-        .eq("id", imageId)
-        .eq("user_id", userId)
-        .single();
-
       const encRecord = await parseOrFallbackEncryptedBlob(
         downloadResult.value,
         row?.key_id ?? "",
@@ -398,7 +494,7 @@ interface ReplicationCheckpoint {
 // Pre-E2EE images stored raw ciphertext in the blob with nonce/keyId in the DB
 // row. New images store a JSON envelope: { version, id, keyId, ciphertext, nonce }.
 // Try JSON first; fall back to treating the blob as raw ciphertext using DB metadata.
-async function parseOrFallbackEncryptedBlob(
+export async function parseOrFallbackEncryptedBlob(
   blob: Blob,
   keyId: string,
   nonce: string,
@@ -423,14 +519,14 @@ async function parseOrFallbackEncryptedBlob(
 // initial RxDB migration to `userId/noteDate/imageId.enc` in the E2EE rewrite.
 // Downloads must try the current path first, then fall back to the legacy path
 // so that images pushed before the path change are still reachable.
-function imageBlobPath(userId: string, noteDate: string, imageId: string): string {
+export function imageBlobPath(userId: string, noteDate: string, imageId: string): string {
   return `${userId}/${noteDate}/${imageId}.enc`;
 }
-function legacyImageBlobPath(userId: string, imageId: string): string {
+export function legacyImageBlobPath(userId: string, imageId: string): string {
   return `${userId}/${imageId}`;
 }
 
-function createSupabaseBucket(supabase: SupabaseClient): StorageBucket {
+export function createSupabaseBucket(supabase: SupabaseClient): StorageBucket {
   return {
     async upload(path, blob) {
       const { error } = await supabase.storage
@@ -457,9 +553,10 @@ function createSupabaseBucket(supabase: SupabaseClient): StorageBucket {
 export function createNotesPullHandler(
   supabase: SupabaseClient,
   pullMod: (row: SupabaseNoteRow) => Promise<NoteDocType>,
+  journalId: string = DEFAULT_JOURNAL_ID,
 ) {
   return async (checkpoint: ReplicationCheckpoint | undefined, batchSize: number) => {
-    let query = supabase.from("notes").select("*");
+    let query = supabase.from("notes").select("*").eq("journal_id", journalId);
     if (checkpoint) {
       query = query.or(
         `_modified.gt.${checkpoint.modified},and(_modified.eq.${checkpoint.modified},date.gt.${checkpoint.id})`,
@@ -494,14 +591,26 @@ export function createNotesPullHandler(
   };
 }
 
-function createNotesPushHandler(
+// While private dates are being turned on or off, a note's row may still
+// be keyed by the other form of its date; match both.
+function rowDatesFor(date: string, rowDate: string): string[] {
+  return rowDate === date ? [date] : [date, rowDate];
+}
+
+export function createNotesPushHandler(
   supabase: SupabaseClient,
   pushMod: (doc: NoteDocType) => Promise<SupabaseNoteRow>,
   pullMod: (row: SupabaseNoteRow) => Promise<NoteDocType>,
   userId: string,
+  dateIndex: DateIndex = PLAIN_DATE_INDEX,
+  journalId: string = DEFAULT_JOURNAL_ID,
 ) {
-  async function fetchConflict(date: string): Promise<WithDeleted<NoteDocType> | null> {
-    const { data, error } = await supabase.from("notes").select("*").eq("date", date).limit(1);
+  async function fetchConflict(dates: string[]): Promise<WithDeleted<NoteDocType> | null> {
+    const query = supabase.from("notes").select("*").eq("journal_id", journalId);
+    const { data, error } = await (dates.length === 1
+      ? query.eq("date", dates[0])
+      : query.in("date", dates)
+    ).limit(1);
     if (error || !data || data.length === 0) return null;
     try {
       const doc = await pullMod(data[0] as unknown as SupabaseNoteRow);
@@ -515,33 +624,74 @@ function createNotesPushHandler(
   return async (rows: RxReplicationWriteToMasterRow<NoteDocType>[]): Promise<WithDeleted<NoteDocType>[]> => {
     const conflicts: WithDeleted<NoteDocType>[] = [];
     await Promise.all(rows.map(async (row) => {
-      const supaRow: Record<string, unknown> = { ...(await pushMod(row.newDocumentState)), user_id: userId };
+      // A removed (not soft-deleted) document is a purge from the Trash:
+      // delete the server row so no copy of the note is left behind.
+      if (row.newDocumentState._deleted) {
+        const { date } = row.newDocumentState;
+        const dates = rowDatesFor(date, await dateIndex.toRowDate(date));
+        const query = supabase.from("notes").delete();
+        const { error } = await (dates.length === 1
+          ? query.eq("date", dates[0])
+          : query.in("date", dates)
+        )
+          .eq("user_id", userId)
+          .eq("journal_id", journalId);
+        if (error) throw error;
+        return;
+      }
+
+      const supaRow: Record<string, unknown> = {
+        ...(await pushMod(row.newDocumentState)),
+        user_id: userId,
+        journal_id: journalId,
+      };
       delete supaRow._modified;
+      const dates = rowDatesFor(row.newDocumentState.date, supaRow.date as string);
 
-      if (!row.assumedMasterState) {
+      const insert = async () => {
         const { error } = await supabase.from("notes").insert(supaRow);
         if (error) {
           if (error.code === "23505") {
-            const c = await fetchConflict(supaRow.date as string);
+            const c = await fetchConflict(dates);
             if (c) conflicts.push(c);
           } else { throw error; }
         }
+      };
+
+      if (!row.assumedMasterState) {
+        await insert();
       } else {
         // Optimistic concurrency: compare on updated_at (deterministic plaintext
         // field) rather than ciphertext/nonce. AES-GCM encryption is non-deterministic
         // — re-encrypting the same payload produces different ciphertext each time —
         // so comparing on ciphertext would always mismatch and treat every push as
         // a conflict, causing the server's stale version to overwrite local edits.
-        const { data, error } = await supabase.from("notes")
-          .update(supaRow)
-          .eq("date", supaRow.date as string)
+        // Matching the other form too moves a not yet migrated row over
+        const query = supabase.from("notes").update(supaRow);
+        const { data, error } = await (dates.length === 1
+          ? query.eq("date", dates[0])
+          : query.in("date", dates)
+        )
           .eq("user_id", userId)
+          .eq("journal_id", journalId)
           .eq("updated_at", row.assumedMasterState.updatedAt)
           .select();
         if (error) throw error;
         if (!data || data.length === 0) {
-          const c = await fetchConflict(supaRow.date as string);
-          if (c) conflicts.push(c);
+          if (row.assumedMasterState._deleted) {
+            // The row may have been purged; writing the date again
+            // recreates it (or reports the conflict if it still exists).
+            await insert();
+            return;
+          }
+          const c = await fetchConflict(dates);
+          if (c) {
+            conflicts.push(c);
+          } else {
+            // No row at all: another device purged the date before this
+            // one pulled it from the Trash, so the edit recreates it
+            await insert();
+          }
         }
       }
     }));
@@ -553,9 +703,10 @@ function createImagesPullHandler(
   supabase: SupabaseClient,
   imgPull: (row: SupabaseImageRow) => Promise<{ doc: ImageDocType; blob: Blob | null }>,
   pendingBlobs: Map<string, { blob: Blob; mimeType: string }>,
+  journalId: string,
 ) {
   return async (checkpoint: ReplicationCheckpoint | undefined, batchSize: number) => {
-    let query = supabase.from("note_images").select("*");
+    let query = supabase.from("note_images").select("*").eq("journal_id", journalId);
     if (checkpoint) {
       query = query.or(
         `_modified.gt.${checkpoint.modified},and(_modified.eq.${checkpoint.modified},id.gt.${checkpoint.id})`,
@@ -567,11 +718,18 @@ function createImagesPullHandler(
     if (error) throw error;
     const rows = data ?? [];
     const last = rows.length > 0 ? rows[rows.length - 1] : undefined;
-    const documents: WithDeleted<ImageDocType>[] = await Promise.all(
+    // Like notes, a row whose note date can't be read is skipped, not
+    // written with a wrong date
+    const documents: WithDeleted<ImageDocType>[] = [];
+    await Promise.all(
       rows.map(async (r: Record<string, unknown>) => {
-        const { doc, blob } = await imgPull(r as unknown as SupabaseImageRow);
-        if (blob) pendingBlobs.set(doc.id, { blob, mimeType: doc.mimeType });
-        return { ...doc, _deleted: doc.isDeleted };
+        try {
+          const { doc, blob } = await imgPull(r as unknown as SupabaseImageRow);
+          if (blob) pendingBlobs.set(doc.id, { blob, mimeType: doc.mimeType });
+          documents.push({ ...doc, _deleted: doc.isDeleted });
+        } catch (err) {
+          reportError("imageReplication.pull", err);
+        }
       }),
     );
     return {
@@ -581,18 +739,28 @@ function createImagesPullHandler(
   };
 }
 
-function createImagesPushHandler(
+export function createImagesPushHandler(
   supabase: SupabaseClient,
   db: AppDatabase,
   imgPush: (doc: ImageDocType, blob: Blob) => Promise<SupabaseImageRow>,
   userId: string,
+  imageCrypto: ImageReplicationCrypto,
+  dateIndex: DateIndex,
+  journalId: string,
 ) {
   async function fetchConflict(id: string): Promise<WithDeleted<ImageDocType> | null> {
     const { data, error } = await supabase.from("note_images").select("*").eq("id", id).limit(1);
     if (error || !data || data.length === 0) return null;
     const r = data[0];
+    let noteDate: string;
+    try {
+      noteDate = await readImageNoteDate(imageCrypto, r);
+    } catch (err) {
+      reportError("imageReplication.push.fetchConflict", err);
+      return null;
+    }
     const doc: ImageDocType = {
-      id: r.id, noteDate: r.note_date, type: r.type, filename: r.filename,
+      id: r.id, noteDate, type: r.type, filename: r.filename,
       mimeType: r.mime_type, width: r.width, height: r.height, size: r.size,
       createdAt: r.created_at, isDeleted: r._deleted,
     };
@@ -603,13 +771,37 @@ function createImagesPushHandler(
     const conflicts: WithDeleted<ImageDocType>[] = [];
     await Promise.all(rows.map(async (row) => {
       const imageDoc = row.newDocumentState;
+      // Purged from the Trash: remove the row and the encrypted blob
+      if (imageDoc._deleted) {
+        const { error } = await supabase.from("note_images")
+          .delete()
+          .eq("id", imageDoc.id)
+          .eq("user_id", userId);
+        if (error) throw error;
+        const rowDate = await dateIndex.toRowDate(imageDoc.noteDate);
+        const { error: removeError } = await supabase.storage
+          .from("note-images")
+          .remove([
+            ...rowDatesFor(imageDoc.noteDate, rowDate).map((date) =>
+              imageBlobPath(userId, date, imageDoc.id),
+            ),
+            legacyImageBlobPath(userId, imageDoc.id),
+          ]);
+        // The row is gone, so an orphaned blob is unreachable; don't retry
+        if (removeError) reportError("imageReplication.push.purge", removeError);
+        return;
+      }
       const rxDoc = await db.images.findOne(imageDoc.id).exec();
       const attachment = rxDoc?.getAttachment("blob");
       const blob = attachment ? await attachment.getData() : new Blob();
-      const supaRow: Record<string, unknown> = { ...(await imgPush(imageDoc, blob)), user_id: userId };
+      const supaRow: Record<string, unknown> = {
+        ...(await imgPush(imageDoc, blob)),
+        user_id: userId,
+        journal_id: journalId,
+      };
       delete supaRow._modified;
 
-      if (!row.assumedMasterState) {
+      const insert = async () => {
         const { error } = await supabase.from("note_images").insert(supaRow);
         if (error) {
           if (error.code === "23505") {
@@ -617,13 +809,26 @@ function createImagesPushHandler(
             if (c) conflicts.push(c);
           } else { throw error; }
         }
+      };
+
+      if (!row.assumedMasterState) {
+        await insert();
       } else {
         const { data, error } = await supabase.from("note_images")
           .update(supaRow).eq("id", supaRow.id as string).eq("user_id", userId).select();
         if (error) throw error;
         if (!data || data.length === 0) {
           const c = await fetchConflict(supaRow.id as string);
+          // Purged on another device: imgPush has uploaded the blob again,
+          // so recreating the row restores the image
           if (c) conflicts.push(c);
+          else await insert();
+        } else if (supaRow.note_date !== imageDoc.noteDate) {
+          // A blob under the plain date would still reveal it
+          const { error: removeError } = await supabase.storage
+            .from("note-images")
+            .remove([imageBlobPath(userId, imageDoc.noteDate, imageDoc.id)]);
+          if (removeError) reportError("imageReplication.push.removePlain", removeError);
         }
       }
     }));
@@ -639,12 +844,18 @@ function setupRealtime<DocType>(
   supabase: SupabaseClient,
   tableName: string,
   primaryKey: string,
+  journalId: string,
   repl: RxReplicationState<DocType, ReplicationCheckpoint>,
   toDoc: (row: Record<string, unknown>) => Promise<WithDeleted<DocType>>,
 ) {
   return supabase
-    .channel(`realtime:${tableName}`)
-    .on("postgres_changes", { event: "*", schema: "public", table: tableName }, (payload) => {
+    .channel(`realtime:${tableName}:${journalId}`)
+    .on("postgres_changes", {
+      event: "*",
+      schema: "public",
+      table: tableName,
+      filter: `journal_id=eq.${journalId}`,
+    }, (payload) => {
       if (payload.eventType === "DELETE") return;
       const row = payload.new as Record<string, unknown>;
       void toDoc(row)
@@ -677,6 +888,8 @@ function setupRealtime<DocType>(
  * column/schema mismatch is unavoidable, and conflict documents from the push
  * handler bypass the pull modifier — leaking ciphertext into local storage if
  * column names match schema fields.
+ *
+ * `db` holds one journal; only that journal's rows are replicated into it.
  */
 export function startReplication(
   db: AppDatabase,
@@ -684,25 +897,29 @@ export function startReplication(
   crypto: ReplicationCrypto,
   userId: string,
   imageCrypto?: ImageReplicationCrypto | null,
+  dateIndex: DateIndex = PLAIN_DATE_INDEX,
+  journalId: string = DEFAULT_JOURNAL_ID,
 ): ReplicationHandle {
-  const pushMod = createPushModifier(crypto);
+  const pushMod = createPushModifier(crypto, dateIndex);
   const pullMod = createPullModifier(crypto);
+  // The default journal keeps the checkpoints from before journals existed
+  const scope = journalId === DEFAULT_JOURNAL_ID ? userId : `${userId}-${journalId}`;
 
   const notesReplication = replicateRxCollection<NoteDocType, ReplicationCheckpoint>({
-    replicationIdentifier: `notes-supabase-${userId}`,
+    replicationIdentifier: `notes-supabase-${scope}`,
     collection: db.notes,
     pull: {
-      handler: createNotesPullHandler(supabase, pullMod),
+      handler: createNotesPullHandler(supabase, pullMod, journalId),
       stream$: new Subject<
         { checkpoint: ReplicationCheckpoint; documents: WithDeleted<NoteDocType>[] } | "RESYNC"
       >().asObservable(),
     },
     push: {
-      handler: createNotesPushHandler(supabase, pushMod, pullMod, userId),
+      handler: createNotesPushHandler(supabase, pushMod, pullMod, userId, dateIndex, journalId),
     },
   });
 
-  const notesSub = setupRealtime(supabase, "notes", "date", notesReplication, async (row) => {
+  const notesSub = setupRealtime(supabase, "notes", "date", journalId, notesReplication, async (row) => {
     const doc = await pullMod(row as unknown as SupabaseNoteRow);
     return { ...doc, _deleted: doc.isDeleted };
   });
@@ -715,7 +932,7 @@ export function startReplication(
 
   if (imageCrypto) {
     const bucket = createSupabaseBucket(supabase);
-    const imgPush = createImagePushModifier(imageCrypto, bucket, userId);
+    const imgPush = createImagePushModifier(imageCrypto, bucket, userId, dateIndex);
     const imgPull = createImagePullModifier(imageCrypto, bucket, userId);
 
     imageHookActive = true;
@@ -732,20 +949,20 @@ export function startReplication(
     }, false);
 
     imagesReplication = replicateRxCollection<ImageDocType, ReplicationCheckpoint>({
-      replicationIdentifier: `images-supabase-${userId}`,
+      replicationIdentifier: `images-supabase-${scope}`,
       collection: db.images,
       pull: {
-        handler: createImagesPullHandler(supabase, imgPull, pendingBlobs),
+        handler: createImagesPullHandler(supabase, imgPull, pendingBlobs, journalId),
         stream$: new Subject<
           { checkpoint: ReplicationCheckpoint; documents: WithDeleted<ImageDocType>[] } | "RESYNC"
         >().asObservable(),
       },
       push: {
-        handler: createImagesPushHandler(supabase, db, imgPush, userId),
+        handler: createImagesPushHandler(supabase, db, imgPush, userId, imageCrypto, dateIndex, journalId),
       },
     });
 
-    imagesSub = setupRealtime(supabase, "note_images", "id", imagesReplication, async (row) => {
+    imagesSub = setupRealtime(supabase, "note_images", "id", journalId, imagesReplication, async (row) => {
       const { doc, blob } = await imgPull(row as unknown as SupabaseImageRow);
       if (blob) pendingBlobs.set(doc.id, { blob, mimeType: doc.mimeType });
       return { ...doc, _deleted: doc.isDeleted };
@@ -0,0 +1,209 @@
+import type { NoteRevision, NoteRevisionReason, NoteRevisionStore } from "../noteRevisions";
+import type { RevisionCrypto, RevisionPayload } from "../revisionCrypto";
+import type { RepositoryError } from "../../domain/errors";
+import type { Result } from "../../domain/result";
+import type { NoteRevisionDocType } from "./schemas";
+import { ok, err } from "../../domain/result";
+import { reportError } from "../../utils/errorReporter";
+import { onNoteConflict, type AppDatabase } from "./database";
+
+export const EDIT_REVISION_INTERVAL_MS = 10 * 60 * 1000;
+export const MAX_REVISIONS_PER_NOTE = 50;
+
+export interface RevisionStoreOptions {
+  // Minimum time between two edit snapshots of the same note
+  editInterval?: number;
+  maxPerNote?: number;
+}
+
+/**
+ * Encrypted revision log in the local-only `noteRevisions` collection.
+ *
+ * Edits are snapshotted at most once per `editInterval`: the first save
+ * after a quiet period records the content it is about to overwrite, so
+ * each revision is the state of the note before an editing session.
+ * Conflict and restore snapshots are always recorded. The oldest
+ * revisions beyond `maxPerNote` are dropped.
+ */
+export class RxDBNoteRevisionStore implements NoteRevisionStore {
+  readonly db: AppDatabase;
+  private crypto: RevisionCrypto;
+  private editInterval: number;
+  private maxPerNote: number;
+
+  constructor(
+    db: AppDatabase,
+    crypto: RevisionCrypto,
+    options: RevisionStoreOptions = {},
+  ) {
+    this.db = db;
+    this.crypto = crypto;
+    this.editInterval = options.editInterval ?? EDIT_REVISION_INTERVAL_MS;
+    this.maxPerNote = options.maxPerNote ?? MAX_REVISIONS_PER_NOTE;
+  }
+
+  async list(date: string): Promise<Result<NoteRevision[], RepositoryError>> {
+    try {
+      const docs = await this.findDocs(date);
+      const revisions: NoteRevision[] = [];
+      for (const doc of docs) {
+        const decrypted = await this.crypto.decrypt(doc);
+        if (!decrypted.ok) {
+          // Written under a key this device doesn't have; skip it rather
+          // than hiding the rest of the history.
+          reportError("rxRevisionStore.list", decrypted.error);
+          continue;
+        }
+        revisions.push({
+          id: doc.id,
+          date: doc.noteDate,
+          createdAt: doc.createdAt,
+          reason: doc.reason,
+          ...decrypted.value,
+        });
+      }
+      return ok(revisions);
+    } catch (error) {
+      reportError("rxRevisionStore.list", error);
+      return err({ type: "IO", message: String(error) });
+    }
+  }
+
+  async get(
+    date: string,
+    id: string,
+  ): Promise<Result<NoteRevision | null, RepositoryError>> {
+    try {
+      const doc = await this.db.noteRevisions.findOne(id).exec();
+      if (!doc || doc.noteDate !== date) return ok(null);
+      const decrypted = await this.crypto.decrypt(doc.toJSON());
+      if (!decrypted.ok) return decrypted;
+      return ok({
+        id: doc.id,
+        date: doc.noteDate,
+        createdAt: doc.createdAt,
+        reason: doc.reason,
+        ...decrypted.value,
+      });
+    } catch (error) {
+      reportError("rxRevisionStore.get", error);
+      return err({ type: "IO", message: String(error) });
+    }
+  }
+
+  async capture(
+    date: string,
+    snapshot: RevisionPayload,
+    reason: NoteRevisionReason,
+  ): Promise<Result<void, RepositoryError>> {
+    try {
+      const encrypted = await this.crypto.encrypt(snapshot);
+      if (!encrypted.ok) return encrypted;
+      await this.db.noteRevisions.insert({
+        id: crypto.randomUUID(),
+        noteDate: date,
+        createdAt: new Date().toISOString(),
+        reason,
+        ...encrypted.value,
+      });
+      await this.prune(date);
+      return ok(undefined);
+    } catch (error) {
+      reportError("rxRevisionStore.capture", error);
+      return err({ type: "IO", message: String(error) });
+    }
+  }
+
+  /**
+   * Record the content a save is about to overwrite, unless the note was
+   * already snapshotted within the edit interval.
+   */
+  async captureEdit(
+    date: string,
+    previous: RevisionPayload,
+  ): Promise<Result<void, RepositoryError>> {
+    try {
+      const [latest] = await this.findDocs(date);
+      if (
+        latest &&
+        Date.now() - new Date(latest.createdAt).getTime() < this.editInterval
+      ) {
+        return ok(undefined);
+      }
+      return this.capture(date, previous, "edit");
+    } catch (error) {
+      reportError("rxRevisionStore.captureEdit", error);
+      return err({ type: "IO", message: String(error) });
+    }
+  }
+
+  async removeAll(date: string): Promise<Result<void, RepositoryError>> {
+    try {
+      const docs = await this.findDocs(date);
+      await this.db.noteRevisions.bulkRemove(docs.map((doc) => doc.id));
+      return ok(undefined);
+    } catch (error) {
+      reportError("rxRevisionStore.removeAll", error);
+      return err({ type: "IO", message: String(error) });
+    }
+  }
+
+  /**
+   * Re-encrypt revisions written under older keys with the active key, so
+   * the history stays readable after key rotation retires those keys.
+   * Revisions under keys this device doesn't have are left as they are.
+   * Returns the number of revisions moved.
+   */
+  async rekey(activeKeyId: string): Promise<Result<number, RepositoryError>> {
+    try {
+      const docs = await this.db.noteRevisions
+        .find({ selector: { keyId: { $ne: activeKeyId } } })
+        .exec();
+      let moved = 0;
+      for (const doc of docs) {
+        const decrypted = await this.crypto.decrypt(doc.toJSON());
+        if (!decrypted.ok) continue;
+        const encrypted = await this.crypto.encrypt(decrypted.value);
+        if (!encrypted.ok) return encrypted;
+        await doc.incrementalPatch(encrypted.value);
+        moved++;
+      }
+      return ok(moved);
+    } catch (error) {
+      reportError("rxRevisionStore.rekey", error);
+      return err({ type: "IO", message: String(error) });
+    }
+  }
+
+  /**
+   * Snapshot local versions replaced by replication conflict resolution
+   * (merged with, or overwritten by, the server copy).
+   * Returns a function that stops listening.
+   */
+  watchConflicts(): () => void {
+    return onNoteConflict(this.db, (replaced) => {
+      void this.capture(
+        replaced.date,
+        { content: replaced.content, weather: replaced.weather ?? null },
+        "conflict",
+      );
+    });
+  }
+
+  private async findDocs(date: string): Promise<NoteRevisionDocType[]> {
+    const docs = await this.db.noteRevisions
+      .find({ selector: { noteDate: { $eq: date } } })
+      .exec();
+    return docs
+      .map((doc) => doc.toJSON())
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  private async prune(date: string): Promise<void> {
+    const docs = await this.findDocs(date);
+    if (docs.length <= this.maxPerNote) return;
+    await this.db.noteRevisions.bulkRemove(
+      docs.slice(this.maxPerNote).map((doc) => doc.id),
+    );
+  }
+}
@@ -73,3 +73,63 @@ export const imageSchema: RxJsonSchema<ImageDocType> = {
   indexes: ["noteDate"],
   attachments: {},
 };
+
+/**
+ * One encrypted search-index entry per note. The payload (plain text and
+ * term list) is AES-GCM encrypted with a key derived from the vault key;
+ * only the note date and the note's updatedAt stay in the clear so stale
+ * entries can be detected without decrypting anything.
+ */
+export interface SearchIndexDocType {
+  date: string;
+  keyId: string;
+  ciphertext: string;
+  nonce: string;
+  noteUpdatedAt: string;
+}
+
+export const searchIndexSchema: RxJsonSchema<SearchIndexDocType> = {
+  version: 0,
+  primaryKey: "date",
+  type: "object",
+  properties: {
+    date: { type: "string", maxLength: 10 },
+    keyId: { type: "string" },
+    ciphertext: { type: "string" },
+    nonce: { type: "string" },
+    noteUpdatedAt: { type: "string" },
+  },
+  required: ["date", "keyId", "ciphertext", "nonce", "noteUpdatedAt"],
+};
+
+/**
+ * Encrypted snapshot of a note's content, kept locally so edits can be
+ * diffed and rolled back. Revisions are never replicated; like search
+ * entries they are encrypted under a key derived from the vault key.
+ */
+export interface NoteRevisionDocType {
+  id: string;
+  noteDate: string;
+  createdAt: string;
+  reason: "edit" | "conflict" | "restore";
+  keyId: string;
+  ciphertext: string;
+  nonce: string;
+}
+
+export const noteRevisionSchema: RxJsonSchema<NoteRevisionDocType> = {
+  version: 0,
+  primaryKey: "id",
+  type: "object",
+  properties: {
+    id: { type: "string", maxLength: 36 },
+    noteDate: { type: "string", maxLength: 10 },
+    createdAt: { type: "string" },
+    reason: { type: "string", enum: ["edit", "conflict", "restore"] },
+    keyId: { type: "string" },
+    ciphertext: { type: "string" },
+    nonce: { type: "string" },
+  },
+  required: ["id", "noteDate", "createdAt", "reason", "keyId", "ciphertext", "nonce"],
+  indexes: ["noteDate"],
+};
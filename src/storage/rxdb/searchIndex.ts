@@ -0,0 +1,221 @@
+import type { NoteSearchIndex, SearchIndexOptions } from "../searchIndex";
+import type { SearchIndexCrypto } from "../searchIndexCrypto";
+import type { RepositoryError } from "../../domain/errors";
+import type { Result } from "../../domain/result";
+import type { AppDatabase } from "./database";
+import type { NoteDocType, SearchIndexDocType } from "./schemas";
+import type { SavedWeather } from "../../types";
+import type { SearchDocument, SearchQuery } from "../../utils/searchQuery";
+import { ok, err } from "../../domain/result";
+import { reportError } from "../../utils/errorReporter";
+import { buildSearchDocument, tokenizeSearchText } from "../../utils/searchText";
+import { getRequiredTokens, matchesSearchQuery } from "../../utils/searchQuery";
+
+interface IndexedNote {
+  doc: SearchDocument;
+  terms: string[];
+  noteUpdatedAt: string;
+}
+
+/**
+ * Inverted index over note text, persisted in the `searchIndex` collection.
+ *
+ * Each note has one encrypted entry holding its plain text, term list and
+ * the structural facts the query language filters on (section types,
+ * images, weather).
+ * Entries are decrypted into memory on the first search of a session and
+ * merged into a term → dates posting map. Notes written outside the
+ * repository (replication pulls, legacy migration) are detected by comparing
+ * `noteUpdatedAt` with the note's `updatedAt` and re-indexed lazily.
+ */
+export class RxDBSearchIndex implements NoteSearchIndex {
+  readonly db: AppDatabase;
+  private crypto: SearchIndexCrypto;
+  private entries: Map<string, IndexedNote> | null = null;
+  private postings = new Map<string, Set<string>>();
+
+  constructor(db: AppDatabase, crypto: SearchIndexCrypto) {
+    this.db = db;
+    this.crypto = crypto;
+  }
+
+  async update(
+    date: string,
+    content: string,
+    weather: SavedWeather | null | undefined,
+    noteUpdatedAt: string,
+  ): Promise<Result<void, RepositoryError>> {
+    try {
+      const doc = buildSearchDocument(date, content, weather);
+      const terms = tokenizeSearchText(doc.text);
+      const encrypted = await this.crypto.encrypt({
+        text: doc.text,
+        terms,
+        sectionTypes: doc.sectionTypes,
+        hasImage: doc.hasImage,
+        hasWeather: doc.hasWeather,
+      });
+      if (!encrypted.ok) return encrypted;
+      await this.db.searchIndex.upsert({
+        date,
+        ...encrypted.value,
+        noteUpdatedAt,
+      });
+      this.setEntry(date, { doc, terms, noteUpdatedAt });
+      return ok(undefined);
+    } catch (error) {
+      reportError("rxSearchIndex.update", error);
+      return err({ type: "IO", message: String(error) });
+    }
+  }
+
+  async remove(date: string): Promise<Result<void, RepositoryError>> {
+    try {
+      const doc = await this.db.searchIndex.findOne(date).exec();
+      if (doc) await doc.remove();
+      this.removeEntry(date);
+      return ok(undefined);
+    } catch (error) {
+      reportError("rxSearchIndex.remove", error);
+      return err({ type: "IO", message: String(error) });
+    }
+  }
+
+  async search(
+    query: SearchQuery,
+    options?: SearchIndexOptions,
+  ): Promise<Result<SearchDocument[], RepositoryError>> {
+    try {
+      const complete = await this.refresh(options);
+      if (!complete || !this.entries) return ok([]);
+
+      const matches: SearchDocument[] = [];
+      for (const date of this.candidates(getRequiredTokens(query))) {
+        const entry = this.entries.get(date);
+        if (entry && matchesSearchQuery(entry.doc, query)) {
+          matches.push(entry.doc);
+        }
+      }
+      return ok(matches);
+    } catch (error) {
+      reportError("rxSearchIndex.search", error);
+      return err({ type: "IO", message: String(error) });
+    }
+  }
+
+  /**
+   * Bring the in-memory index in line with the notes collection.
+   * Returns false if aborted; entries processed so far are kept.
+   */
+  private async refresh(options?: SearchIndexOptions): Promise<boolean> {
+    const isFirstLoad = this.entries === null;
+    const entries = this.entries ?? new Map<string, IndexedNote>();
+    this.entries = entries;
+
+    const [noteDocs, storedDocs] = await Promise.all([
+      this.db.notes.find({ selector: { isDeleted: { $eq: false } } }).exec(),
+      isFirstLoad ? this.db.searchIndex.find().exec() : Promise.resolve([]),
+    ]);
+
+    const live = new Set(noteDocs.map((doc) => doc.date));
+    const stored = new Map<string, SearchIndexDocType>(
+      storedDocs.map((doc) => [doc.date, doc.toJSON()]),
+    );
+
+    const orphaned = new Set(
+      [...entries.keys(), ...stored.keys()].filter((date) => !live.has(date)),
+    );
+    if (orphaned.size > 0) {
+      orphaned.forEach((date) => this.removeEntry(date));
+      await this.db.searchIndex.bulkRemove([...orphaned]);
+    }
+
+    const pending = noteDocs.filter(
+      (doc) => entries.get(doc.date)?.noteUpdatedAt !== doc.updatedAt,
+    );
+    const total = pending.length;
+    if (total === 0) return true;
+
+    options?.onProgress?.({ current: 0, total });
+    for (let i = 0; i < pending.length; i++) {
+      if (options?.signal?.aborted) return false;
+      await this.loadEntry(pending[i], stored.get(pending[i].date));
+      options?.onProgress?.({ current: i + 1, total });
+    }
+    return true;
+  }
+
+  private async loadEntry(
+    note: NoteDocType,
+    stored: SearchIndexDocType | undefined,
+  ): Promise<void> {
+    if (stored && stored.noteUpdatedAt === note.updatedAt) {
+      const decrypted = await this.crypto.decrypt(stored);
+      if (decrypted.ok) {
+        const { terms, ...facts } = decrypted.value;
+        this.setEntry(note.date, {
+          doc: { date: note.date, ...facts },
+          terms,
+          noteUpdatedAt: note.updatedAt,
+        });
+        return;
+      }
+      // Entry written under a key this device doesn't have — rebuild it
+      // from the note content below.
+    }
+    const result = await this.update(
+      note.date,
+      note.content,
+      note.weather,
+      note.updatedAt,
+    );
+    if (!result.ok) {
+      reportError("rxSearchIndex.loadEntry", result.error);
+    }
+  }
+
+  private candidates(tokens: string[]): Iterable<string> {
+    if (!this.entries) return [];
+    if (tokens.length === 0) return this.entries.keys();
+
+    let result: Set<string> | null = null;
+    for (const token of tokens) {
+      const dates = new Set<string>();
+      for (const [term, termDates] of this.postings) {
+        if (!term.includes(token)) continue;
+        termDates.forEach((date) => {
+          if (!result || result.has(date)) dates.add(date);
+        });
+      }
+      result = dates;
+      if (result.size === 0) break;
+    }
+    return result ?? [];
+  }
+
+  private setEntry(date: string, entry: IndexedNote): void {
+    if (!this.entries) return;
+    this.removeEntry(date);
+    this.entries.set(date, entry);
+    for (const term of entry.terms) {
+      let dates = this.postings.get(term);
+      if (!dates) {
+        dates = new Set();
+        this.postings.set(term, dates);
+      }
+      dates.add(date);
+    }
+  }
+
+  private removeEntry(date: string): void {
+    const previous = this.entries?.get(date);
+    if (!previous) return;
+    this.entries?.delete(date);
+    for (const term of previous.terms) {
+      const dates = this.postings.get(term);
+      if (!dates) continue;
+      dates.delete(date);
+      if (dates.size === 0) this.postings.delete(term);
+    }
+  }
+}
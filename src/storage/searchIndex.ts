@@ -0,0 +1,30 @@
+import type { Result } from "../domain/result";
+import type { RepositoryError } from "../domain/errors";
+import type { SearchDocument, SearchQuery } from "../utils/searchQuery";
+
+export interface SearchIndexProgress {
+  current: number;
+  total: number;
+}
+
+export interface SearchIndexOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: SearchIndexProgress) => void;
+}
+
+/**
+ * Persistent full-text index over note content.
+ * Implementations keep entries encrypted at rest and bring stale entries
+ * up to date before answering a query.
+ */
+export interface NoteSearchIndex {
+  /**
+   * Find notes matching a parsed query (see `parseSearchQuery`).
+   * Progress is reported only while entries are being loaded or rebuilt.
+   * Returns ok([]) when aborted via the signal.
+   */
+  search(
+    query: SearchQuery,
+    options?: SearchIndexOptions,
+  ): Promise<Result<SearchDocument[], RepositoryError>>;
+}
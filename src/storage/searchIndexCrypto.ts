@@ -0,0 +1,35 @@
+import type { KeyringProvider } from "../domain/crypto/keyring";
+import {
+  createPayloadCrypto,
+  type EncryptedPayload,
+  type PayloadCrypto,
+} from "./payloadCrypto";
+import { parseSearchIndexPayload } from "./parsers";
+
+const SEARCH_KEY_INFO = "ichinichi:search-index-key:v1";
+
+export interface SearchIndexPayload {
+  text: string;
+  terms: string[];
+  sectionTypes: string[];
+  hasImage: boolean;
+  hasWeather: boolean;
+}
+
+export type EncryptedSearchIndexEntry = EncryptedPayload;
+
+export type SearchIndexCrypto = PayloadCrypto<SearchIndexPayload>;
+
+/**
+ * Search index entries are encrypted with a dedicated key derived from the
+ * vault key, so index ciphertext is never produced under the note key.
+ */
+export function createSearchIndexCrypto(
+  keyring: KeyringProvider,
+): SearchIndexCrypto {
+  return createPayloadCrypto(keyring, {
+    info: SEARCH_KEY_INFO,
+    label: "Search index",
+    parse: parseSearchIndexPayload,
+  });
+}
@@ -0,0 +1,318 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { SavedWeather } from "../types";
+import {
+  base64ToBytes,
+  base64UrlToBytes,
+  bytesToBase64,
+  bytesToBase64Url,
+  decodeUtf8,
+  encodeUtf8,
+  randomBytes,
+} from "./cryptoUtils";
+import { parseSharedNotePayload } from "./parsers";
+import { reportError } from "../utils/errorReporter";
+
+/**
+ * Shared note links.
+ *
+ * A snapshot of one note (content, weather and inline images) encrypted
+ * with a fresh AES-GCM key. The ciphertext is stored in `shared_notes` and
+ * the images in `shared_note_images`; the key only exists in the link's
+ * #fragment, which browsers never send to the server. Readers fetch a
+ * snapshot by id through `get_shared_note` until it expires, and the
+ * server purges it after that.
+ */
+
+export const SHARE_EXPIRY_DAYS = [1, 7, 30] as const;
+export type ShareExpiryDays = (typeof SHARE_EXPIRY_DAYS)[number];
+
+const SHARE_PATH_PREFIX = "/share/";
+const SHARE_KEY_BYTES = 32;
+const SHARE_IV_BYTES = 12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SharedImageRef {
+  id: string;
+  mimeType: string;
+  nonce: string;
+}
+
+export interface SharedNotePayload {
+  version: 1;
+  date: string;
+  content: string;
+  weather: SavedWeather | null;
+  images: SharedImageRef[];
+}
+
+export interface SharedNote {
+  date: string;
+  content: string;
+  weather: SavedWeather | null;
+  images: Map<string, Blob>;
+  expiresAt: string;
+}
+
+export interface CreatedShare {
+  id: string;
+  url: string;
+  expiresAt: string;
+}
+
+function createShareId(): string {
+  return crypto.randomUUID().replace(/-/g, "");
+}
+
+export function isValidShareId(id: string): boolean {
+  return /^[a-f0-9]{32}$/.test(id);
+}
+
+export function sharedNoteUrl(origin: string, id: string, key: string): string {
+  return `${origin}${SHARE_PATH_PREFIX}${id}#${key}`;
+}
+
+/**
+ * The share id and key of a `/share/<id>#<key>` location, or null when the
+ * location isn't a share link.
+ */
+export function parseShareLocation(location: {
+  pathname: string;
+  hash: string;
+}): { id: string; key: string } | null {
+  if (!location.pathname.startsWith(SHARE_PATH_PREFIX)) return null;
+  const id = location.pathname
+    .slice(SHARE_PATH_PREFIX.length)
+    .replace(/\/$/, "");
+  if (!isValidShareId(id)) return null;
+  return { id, key: location.hash.replace(/^#/, "") };
+}
+
+/**
+ * Ids of the inline images a note's HTML refers to.
+ */
+export function noteImageIds(content: string): string[] {
+  const ids = new Set<string>();
+  for (const match of content.matchAll(/data-image-id="([^"]+)"/g)) {
+    if (match[1] !== "uploading") ids.add(match[1]);
+  }
+  return [...ids];
+}
+
+async function importShareKey(
+  raw: Uint8Array<ArrayBuffer>,
+): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", raw, { name: "AES-GCM" }, false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+async function encryptBytes(
+  key: CryptoKey,
+  data: Uint8Array<ArrayBuffer>,
+): Promise<{ ciphertext: Uint8Array<ArrayBuffer>; nonce: string }> {
+  const iv = randomBytes(SHARE_IV_BYTES);
+  const encrypted = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    data,
+  );
+  return { ciphertext: new Uint8Array(encrypted), nonce: bytesToBase64(iv) };
+}
+
+async function decryptBytes(
+  key: CryptoKey,
+  ciphertext: Uint8Array<ArrayBuffer>,
+  nonce: string,
+): Promise<ArrayBuffer> {
+  return crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: base64ToBytes(nonce) },
+    key,
+    ciphertext,
+  );
+}
+
+/**
+ * Encrypts a snapshot of the note with a new key and uploads it. The
+ * returned link is the only copy of the key.
+ */
+export async function createSharedNote(options: {
+  supabase: SupabaseClient;
+  userId: string;
+  origin: string;
+  note: { date: string; content: string; weather: SavedWeather | null };
+  images: Array<{ id: string; blob: Blob }>;
+  expiresInDays: ShareExpiryDays;
+  now?: Date;
+}): Promise<CreatedShare> {
+  const { supabase, userId, origin, note, images, expiresInDays } = options;
+  const rawKey = randomBytes(SHARE_KEY_BYTES);
+  const key = await importShareKey(rawKey);
+  const id = createShareId();
+  const expiresAt = new Date(
+    (options.now ?? new Date()).getTime() + expiresInDays * DAY_MS,
+  ).toISOString();
+
+  const encryptedImages = await Promise.all(
+    images.map(async ({ id: imageId, blob }) => {
+      const data = new Uint8Array(await blob.arrayBuffer());
+      const { ciphertext, nonce } = await encryptBytes(key, data);
+      return { id: imageId, mimeType: blob.type, nonce, ciphertext };
+    }),
+  );
+  const payload: SharedNotePayload = {
+    version: 1,
+    date: note.date,
+    content: note.content,
+    weather: note.weather,
+    images: encryptedImages.map(({ id: imageId, mimeType, nonce }) => ({
+      id: imageId,
+      mimeType,
+      nonce,
+    })),
+  };
+  const encrypted = await encryptBytes(
+    key,
+    encodeUtf8(JSON.stringify(payload)),
+  );
+
+  // The row goes first: images can only be added to a share the user owns
+  const { error } = await supabase.from("shared_notes").insert({
+    id,
+    user_id: userId,
+    ciphertext: bytesToBase64(encrypted.ciphertext),
+    nonce: encrypted.nonce,
+    expires_at: expiresAt,
+  });
+  if (error) {
+    throw error;
+  }
+
+  try {
+    if (encryptedImages.length > 0) {
+      const { error: uploadError } = await supabase
+        .from("shared_note_images")
+        .insert(
+          encryptedImages.map((image) => ({
+            share_id: id,
+            image_id: image.id,
+            ciphertext: bytesToBase64(image.ciphertext),
+          })),
+        );
+      if (uploadError) throw uploadError;
+    }
+  } catch (uploadError) {
+    await deleteSharedNote(supabase, userId, id).catch((cleanupError) =>
+      reportError("sharedNotes.cleanup", cleanupError),
+    );
+    throw uploadError;
+  }
+
+  return {
+    id,
+    url: sharedNoteUrl(origin, id, bytesToBase64Url(rawKey)),
+    expiresAt,
+  };
+}
+
+/**
+ * Downloads and decrypts a shared note. Throws a user-facing error when
+ * the link has expired, was revoked or carries the wrong key.
+ */
+export async function fetchSharedNote(
+  supabase: SupabaseClient,
+  id: string,
+  keyText: string,
+): Promise<SharedNote> {
+  let key: CryptoKey;
+  try {
+    const raw = base64UrlToBytes(keyText);
+    if (raw.length !== SHARE_KEY_BYTES) throw new Error("Bad key length");
+    key = await importShareKey(raw);
+  } catch {
+    throw new Error(
+      "This link is incomplete. Copy the whole link and try again.",
+    );
+  }
+
+  const { data, error } = await supabase
+    .rpc("get_shared_note", { p_id: id })
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  const row = data as {
+    ciphertext: string;
+    nonce: string;
+    expires_at: string;
+  } | null;
+  if (!row || new Date(row.expires_at).getTime() <= Date.now()) {
+    throw new Error("This link has expired or was removed.");
+  }
+
+  let payload: SharedNotePayload | null;
+  try {
+    const decrypted = await decryptBytes(
+      key,
+      base64ToBytes(row.ciphertext),
+      row.nonce,
+    );
+    payload = parseSharedNotePayload(
+      JSON.parse(decodeUtf8(new Uint8Array(decrypted))),
+    );
+  } catch {
+    payload = null;
+  }
+  if (!payload) {
+    throw new Error(
+      "This link can't be opened. Check that it was copied in full.",
+    );
+  }
+
+  const images = new Map<string, Blob>();
+  for (const image of payload.images) {
+    try {
+      const { data: ciphertext, error: rpcError } = await supabase.rpc(
+        "get_shared_note_image",
+        { p_id: id, p_image_id: image.id },
+      );
+      if (rpcError || typeof ciphertext !== "string")
+        throw rpcError ?? new Error("Missing image");
+      const decrypted = await decryptBytes(
+        key,
+        base64ToBytes(ciphertext),
+        image.nonce,
+      );
+      images.set(image.id, new Blob([decrypted], { type: image.mimeType }));
+    } catch (imageError) {
+      // Show the note without the image rather than not at all
+      reportError("sharedNotes.image", imageError);
+    }
+  }
+
+  return {
+    date: payload.date,
+    content: payload.content,
+    weather: payload.weather,
+    images,
+    expiresAt: row.expires_at,
+  };
+}
+
+/**
+ * Revokes a link. Its images are removed with the row.
+ */
+export async function deleteSharedNote(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string,
+): Promise<void> {
+  const { error } = await supabase
+    .from("shared_notes")
+    .delete()
+    .eq("user_id", userId)
+    .eq("id", id);
+  if (error) {
+    throw error;
+  }
+}
@@ -1,4 +1,5 @@
 import { SupabaseClient } from "@supabase/supabase-js";
+import { normalizeKdfParams, toKdfFields, type KdfAlgorithm } from "./kdf";
 
 export interface UserKeyringEntry {
   keyId: string;
@@ -6,8 +7,14 @@ export interface UserKeyringEntry {
   dekIv: string;
   kdfSalt: string;
   kdfIterations: number;
+  // Absent on entries wrapped before Argon2id, which all used PBKDF2
+  kdfAlgorithm?: KdfAlgorithm;
+  kdfMemoryKiB?: number;
+  kdfParallelism?: number;
   version: number;
   isPrimary: boolean;
+  // Set by the database on insert; absent on entries built locally
+  createdAt?: string;
 }
 
 interface UserKeyringRow {
@@ -17,14 +24,63 @@ interface UserKeyringRow {
   dek_iv: string;
   kdf_salt: string;
   kdf_iterations: number;
+  kdf_algorithm?: KdfAlgorithm | typeof PASSKEY_KDF | null;
+  kdf_memory_kib?: number | null;
+  kdf_parallelism?: number | null;
   version: number;
   is_primary: boolean;
+  created_at?: string | null;
 }
 
-export async function fetchUserKeyring(
+// DEKs wrapped with the recovery phrase are stored alongside the password
+// wrappings, under the DEK's key id with this prefix
+const RECOVERY_KEY_PREFIX = "recovery:";
+
+// Passkey wrappings use `passkey:<credentialId>:<keyId>`; credential ids are
+// base64url and never contain a colon. kdf_salt holds the PRF salt.
+const PASSKEY_KEY_PREFIX = "passkey:";
+const PASSKEY_KDF = "webauthn-prf";
+
+export interface PasskeyKeyringEntry {
+  credentialId: string;
+  prfSalt: string;
+  keyId: string;
+  wrappedDek: string;
+  dekIv: string;
+  isPrimary: boolean;
+}
+
+function isPasswordRow(row: UserKeyringRow): boolean {
+  return (
+    !row.key_id.startsWith(RECOVERY_KEY_PREFIX) &&
+    !row.key_id.startsWith(PASSKEY_KEY_PREFIX)
+  );
+}
+
+function toEntry(row: UserKeyringRow, keyId: string): UserKeyringEntry {
+  return {
+    keyId,
+    wrappedDek: row.wrapped_dek,
+    dekIv: row.dek_iv,
+    kdfSalt: row.kdf_salt,
+    ...toKdfFields(
+      normalizeKdfParams({
+        algorithm: row.kdf_algorithm === "argon2id" ? "argon2id" : null,
+        iterations: row.kdf_iterations,
+        memoryKiB: row.kdf_memory_kib,
+        parallelism: row.kdf_parallelism,
+      }),
+    ),
+    version: row.version,
+    isPrimary: row.is_primary,
+    ...(row.created_at ? { createdAt: row.created_at } : {}),
+  };
+}
+
+async function fetchRows(
   supabase: SupabaseClient,
   userId: string,
-): Promise<UserKeyringEntry[]> {
+): Promise<UserKeyringRow[]> {
   const { data, error } = await supabase
     .from("user_keyrings")
     .select("*")
@@ -34,32 +90,25 @@ export async function fetchUserKeyring(
     throw error;
   }
 
-  return (data ?? []).map((row) => {
-    const typed = row as UserKeyringRow;
-    return {
-      keyId: typed.key_id,
-      wrappedDek: typed.wrapped_dek,
-      dekIv: typed.dek_iv,
-      kdfSalt: typed.kdf_salt,
-      kdfIterations: typed.kdf_iterations,
-      version: typed.version,
-      isPrimary: typed.is_primary,
-    };
-  });
+  return (data ?? []) as UserKeyringRow[];
 }
 
-export async function saveUserKeyringEntry(
+async function upsertRow(
   supabase: SupabaseClient,
   userId: string,
+  keyId: string,
   entry: UserKeyringEntry,
 ): Promise<void> {
   const { error } = await supabase.from("user_keyrings").upsert({
     user_id: userId,
-    key_id: entry.keyId,
+    key_id: keyId,
     wrapped_dek: entry.wrappedDek,
     dek_iv: entry.dekIv,
     kdf_salt: entry.kdfSalt,
     kdf_iterations: entry.kdfIterations,
+    kdf_algorithm: entry.kdfAlgorithm ?? "pbkdf2-sha256",
+    kdf_memory_kib: entry.kdfMemoryKiB ?? null,
+    kdf_parallelism: entry.kdfParallelism ?? null,
     version: entry.version,
     is_primary: entry.isPrimary,
   });
@@ -69,6 +118,29 @@ export async function saveUserKeyringEntry(
   }
 }
 
+/**
+ * Password-wrapped keyring entries.
+ */
+export async function fetchUserKeyring(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<UserKeyringEntry[]> {
+  const rows = await fetchRows(supabase, userId);
+  return rows.filter(isPasswordRow).map((row) => toEntry(row, row.key_id));
+}
+
+export async function saveUserKeyringEntry(
+  supabase: SupabaseClient,
+  userId: string,
+  entry: UserKeyringEntry,
+): Promise<void> {
+  await upsertRow(supabase, userId, entry.keyId, entry);
+}
+
+/**
+ * Deletes a key's password wrapping and its recovery and passkey
+ * wrappings, if any.
+ */
 export async function deleteUserKeyringEntry(
   supabase: SupabaseClient,
   userId: string,
@@ -78,7 +150,130 @@ export async function deleteUserKeyringEntry(
     .from("user_keyrings")
     .delete()
     .eq("user_id", userId)
-    .eq("key_id", keyId);
+    .in("key_id", [keyId, `${RECOVERY_KEY_PREFIX}${keyId}`]);
+
+  if (error) {
+    throw error;
+  }
+
+  const { error: passkeyError } = await supabase
+    .from("user_keyrings")
+    .delete()
+    .eq("user_id", userId)
+    .like("key_id", `${PASSKEY_KEY_PREFIX}%:${keyId}`);
+
+  if (passkeyError) {
+    throw passkeyError;
+  }
+}
+
+/**
+ * Recovery-phrase-wrapped keyring entries, with `keyId` the id of the
+ * wrapped DEK.
+ */
+export async function fetchRecoveryKeyring(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<UserKeyringEntry[]> {
+  const rows = await fetchRows(supabase, userId);
+  return rows
+    .filter((row) => row.key_id.startsWith(RECOVERY_KEY_PREFIX))
+    .map((row) => toEntry(row, row.key_id.slice(RECOVERY_KEY_PREFIX.length)));
+}
+
+export async function saveRecoveryKeyringEntry(
+  supabase: SupabaseClient,
+  userId: string,
+  entry: UserKeyringEntry,
+): Promise<void> {
+  await upsertRow(supabase, userId, `${RECOVERY_KEY_PREFIX}${entry.keyId}`, entry);
+}
+
+/**
+ * Removes the recovery wrappings of every key but `keepKeyIds`, e.g. the
+ * ones a new phrase didn't replace.
+ */
+export async function deleteRecoveryKeyring(
+  supabase: SupabaseClient,
+  userId: string,
+  keepKeyIds: string[] = [],
+): Promise<void> {
+  let query = supabase
+    .from("user_keyrings")
+    .delete()
+    .eq("user_id", userId)
+    .like("key_id", `${RECOVERY_KEY_PREFIX}%`);
+  for (const keyId of keepKeyIds) {
+    query = query.neq("key_id", `${RECOVERY_KEY_PREFIX}${keyId}`);
+  }
+  const { error } = await query;
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Passkey-wrapped keyring entries, one per credential and DEK.
+ */
+export async function fetchPasskeyKeyring(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<PasskeyKeyringEntry[]> {
+  const rows = await fetchRows(supabase, userId);
+  return rows.flatMap((row) => {
+    if (!row.key_id.startsWith(PASSKEY_KEY_PREFIX)) return [];
+    const rest = row.key_id.slice(PASSKEY_KEY_PREFIX.length);
+    const separator = rest.indexOf(":");
+    if (separator <= 0) return [];
+    return [
+      {
+        credentialId: rest.slice(0, separator),
+        keyId: rest.slice(separator + 1),
+        prfSalt: row.kdf_salt,
+        wrappedDek: row.wrapped_dek,
+        dekIv: row.dek_iv,
+        isPrimary: row.is_primary,
+      },
+    ];
+  });
+}
+
+export async function savePasskeyKeyringEntry(
+  supabase: SupabaseClient,
+  userId: string,
+  entry: PasskeyKeyringEntry,
+): Promise<void> {
+  const { error } = await supabase.from("user_keyrings").upsert({
+    user_id: userId,
+    key_id: `${PASSKEY_KEY_PREFIX}${entry.credentialId}:${entry.keyId}`,
+    wrapped_dek: entry.wrappedDek,
+    dek_iv: entry.dekIv,
+    kdf_salt: entry.prfSalt,
+    // The PRF has no work factor of its own
+    kdf_iterations: 0,
+    kdf_algorithm: PASSKEY_KDF,
+    version: 1,
+    is_primary: entry.isPrimary,
+  });
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Removes every passkey wrapping for the account.
+ */
+export async function deletePasskeyKeyring(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<void> {
+  const { error } = await supabase
+    .from("user_keyrings")
+    .delete()
+    .eq("user_id", userId)
+    .like("key_id", `${PASSKEY_KEY_PREFIX}%`);
 
   if (error) {
     throw error;
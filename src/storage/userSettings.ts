@@ -0,0 +1,97 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { STORAGE_PREFIX } from "../utils/constants";
+import { parseDateIndexSetting } from "./parsers";
+
+// Last known date index setting, so pushes made while the server is
+// unreachable still follow it
+const DATE_INDEX_STORAGE_KEY = `${STORAGE_PREFIX}date_index_v1`;
+
+/**
+ * The cached index key id for this user: a key id when private dates are
+ * on, null when off, undefined when never fetched on this device.
+ */
+export function loadCachedDateIndexKeyId(
+  userId: string,
+): string | null | undefined {
+  if (typeof window === "undefined") return undefined;
+  const raw = localStorage.getItem(DATE_INDEX_STORAGE_KEY);
+  if (!raw) return undefined;
+  try {
+    const setting = parseDateIndexSetting(JSON.parse(raw));
+    return setting?.userId === userId ? setting.keyId : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function cacheDateIndexKeyId(userId: string, keyId: string | null): void {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(
+    DATE_INDEX_STORAGE_KEY,
+    JSON.stringify({ userId, keyId }),
+  );
+}
+
+/**
+ * The key the date index is derived from, or null when note dates are
+ * stored in plaintext.
+ */
+export async function fetchDateIndexKeyId(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("user_settings")
+    .select("date_index_key_id")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  const keyId =
+    typeof data?.date_index_key_id === "string" ? data.date_index_key_id : null;
+  cacheDateIndexKeyId(userId, keyId);
+  return keyId;
+}
+
+export async function saveDateIndexKeyId(
+  supabase: SupabaseClient,
+  userId: string,
+  keyId: string | null,
+): Promise<void> {
+  const { error } = await supabase
+    .from("user_settings")
+    .upsert({ user_id: userId, date_index_key_id: keyId });
+
+  if (error) {
+    throw error;
+  }
+
+  cacheDateIndexKeyId(userId, keyId);
+}
+
+/**
+ * Resolves the index key id for replication: fetched from the server once,
+ * then read from the cache, which this device updates when the setting
+ * changes. Falls back to the cache while offline.
+ */
+export function createDateIndexKeyIdResolver(
+  supabase: SupabaseClient,
+  userId: string,
+): () => Promise<string | null> {
+  let fetched: Promise<unknown> | null = null;
+  return async () => {
+    fetched ??= fetchDateIndexKeyId(supabase, userId).catch(() => {
+      // Retry on the next call
+      fetched = null;
+    });
+    await fetched;
+    const cached = loadCachedDateIndexKeyId(userId);
+    if (cached === undefined) {
+      throw new Error("dateIndex: setting unknown until the server is reachable");
+    }
+    return cached;
+  };
+}
@@ -6,13 +6,27 @@ import {
   encodeUtf8,
   randomBytes,
 } from "./cryptoUtils";
+import {
+  DEFAULT_KDF,
+  PBKDF2_ITERATIONS,
+  deriveAesKey,
+  needsKdfUpgrade,
+  normalizeKdfParams,
+  type KdfAlgorithm,
+  type KdfParams,
+} from "./kdf";
 import { parseVaultMeta } from "./parsers";
+import {
+  getPasskeyWrappingKey,
+  type PasskeyCredentialRef,
+  type PasskeyWrappingKey,
+} from "./passkey";
+import { profileStorageKey } from "./profiles";
 
 const VAULT_META_KEY = `${STORAGE_PREFIX}vault_meta_v1`;
 const DB_NAME = "dailynotes-vault";
 const STORE_NAME = "keys";
 const DEVICE_KEY_ID = "device";
-const KDF_ITERATIONS = 600000;
 const WRAP_IV_BYTES = 12;
 
 export interface VaultMeta {
@@ -20,19 +34,24 @@ export interface VaultMeta {
   kdf: {
     salt: string;
     iterations: number;
+    // Absent on vaults created before Argon2id, which all used PBKDF2
+    algorithm?: KdfAlgorithm;
+    memoryKiB?: number;
+    parallelism?: number;
   };
   wrapped: {
     password: { iv: string; data: string };
     device?: { iv: string; data: string };
+    passkeys?: Array<PasskeyCredentialRef & { iv: string; data: string }>;
   };
 }
 
 export function hasVaultMeta(): boolean {
-  return !!localStorage.getItem(VAULT_META_KEY);
+  return !!localStorage.getItem(profileStorageKey(VAULT_META_KEY));
 }
 
 export function loadVaultMeta(): VaultMeta | null {
-  const raw = localStorage.getItem(VAULT_META_KEY);
+  const raw = localStorage.getItem(profileStorageKey(VAULT_META_KEY));
   if (!raw) return null;
   try {
     const parsed = parseVaultMeta(JSON.parse(raw));
@@ -43,7 +62,7 @@ export function loadVaultMeta(): VaultMeta | null {
 }
 
 function saveVaultMeta(meta: VaultMeta): void {
-  localStorage.setItem(VAULT_META_KEY, JSON.stringify(meta));
+  localStorage.setItem(profileStorageKey(VAULT_META_KEY), JSON.stringify(meta));
 }
 
 const IDB_TIMEOUT_MS = 3000;
@@ -177,37 +196,33 @@ export async function canUseDeviceKey(): Promise<boolean> {
 async function derivePasswordKey(
   password: string,
   salt: Uint8Array<ArrayBuffer>,
-  iterations: number,
+  kdf: KdfParams,
 ): Promise<CryptoKey> {
-  const baseKey = await crypto.subtle.importKey(
-    "raw",
-    encodeUtf8(password),
-    "PBKDF2",
-    false,
-    ["deriveKey"],
-  );
-  return crypto.subtle.deriveKey(
-    {
-      name: "PBKDF2",
-      hash: "SHA-256",
-      salt,
-      iterations,
-    },
-    baseKey,
-    { name: "AES-GCM", length: 256 },
-    false,
-    ["wrapKey", "unwrapKey"],
-  );
+  return deriveAesKey(password, salt, kdf, ["wrapKey", "unwrapKey"]);
 }
 
 // Exported KEK derivation for Supabase auth integration
 export async function deriveKEK(
   password: string,
   saltBase64: string,
-  iterations: number,
+  kdf: KdfParams,
 ): Promise<CryptoKey> {
   const salt = base64ToBytes(saltBase64);
-  return derivePasswordKey(password, salt, iterations);
+  return derivePasswordKey(password, salt, kdf);
+}
+
+// Passphrase-derived key for encrypting data directly (e.g. backup files)
+export async function derivePassphraseKey(
+  passphrase: string,
+  saltBase64: string,
+  iterations: number,
+): Promise<CryptoKey> {
+  return deriveAesKey(
+    passphrase,
+    base64ToBytes(saltBase64),
+    { algorithm: "pbkdf2-sha256", iterations },
+    ["encrypt", "decrypt"],
+  );
 }
 
 // Generate a new random DEK (Data Encryption Key)
@@ -256,8 +271,8 @@ export function generateSalt(): string {
   return bytesToBase64(randomBytes(16));
 }
 
-// Export default iterations for new users
-export const DEFAULT_KDF_ITERATIONS = KDF_ITERATIONS;
+// PBKDF2 iterations for passphrase-encrypted backup files
+export const DEFAULT_KDF_ITERATIONS = PBKDF2_ITERATIONS;
 
 // Device-wrapped DEK for offline unlock
 const DEVICE_DEK_ID = "device_dek";
@@ -270,7 +285,7 @@ export async function storeDeviceWrappedDEK(dek: CryptoKey): Promise<void> {
     return new Promise((resolve, reject) => {
       const tx = db.transaction(STORE_NAME, "readwrite");
       const store = tx.objectStore(STORE_NAME);
-      store.put(wrapped, DEVICE_DEK_ID);
+      store.put(wrapped, profileStorageKey(DEVICE_DEK_ID));
       tx.oncomplete = () => resolve();
       tx.onerror = () => reject(tx.error);
     });
@@ -289,7 +304,7 @@ export async function tryUnlockWithDeviceDEK(): Promise<CryptoKey | null> {
       (resolve, reject) => {
         const tx = db.transaction(STORE_NAME, "readonly");
         const store = tx.objectStore(STORE_NAME);
-        const request = store.get(DEVICE_DEK_ID);
+        const request = store.get(profileStorageKey(DEVICE_DEK_ID));
         request.onsuccess = () => resolve(request.result ?? null);
         request.onerror = () => reject(request.error);
         tx.onerror = () => reject(tx.error);
@@ -314,7 +329,7 @@ async function getAuthEncryptKey(): Promise<CryptoKey | null> {
   return new Promise((resolve, reject) => {
     const tx = db.transaction(STORE_NAME, "readonly");
     const store = tx.objectStore(STORE_NAME);
-    const request = store.get(AUTH_PW_ENC_KEY_ID);
+    const request = store.get(profileStorageKey(AUTH_PW_ENC_KEY_ID));
     request.onsuccess = () => resolve(request.result ?? null);
     request.onerror = () => reject(request.error);
     tx.onerror = () => reject(tx.error);
@@ -333,7 +348,7 @@ async function getOrCreateAuthEncryptKey(): Promise<CryptoKey> {
   await new Promise<void>((resolve, reject) => {
     const tx = db.transaction(STORE_NAME, "readwrite");
     const store = tx.objectStore(STORE_NAME);
-    store.put(key, AUTH_PW_ENC_KEY_ID);
+    store.put(key, profileStorageKey(AUTH_PW_ENC_KEY_ID));
     tx.oncomplete = () => resolve();
     tx.onerror = () => reject(tx.error);
   });
@@ -360,7 +375,7 @@ export async function storeDeviceEncryptedPassword(
           iv: bytesToBase64(iv),
           data: bytesToBase64(new Uint8Array(encrypted)),
         },
-        AUTH_PW_DATA_ID,
+        profileStorageKey(AUTH_PW_DATA_ID),
       );
       tx.oncomplete = () => resolve();
       tx.onerror = () => reject(tx.error);
@@ -379,7 +394,7 @@ export async function tryGetDeviceEncryptedPassword(): Promise<string | null> {
       (resolve, reject) => {
         const tx = db.transaction(STORE_NAME, "readonly");
         const store = tx.objectStore(STORE_NAME);
-        const request = store.get(AUTH_PW_DATA_ID);
+        const request = store.get(profileStorageKey(AUTH_PW_DATA_ID));
         request.onsuccess = () => resolve(request.result ?? null);
         request.onerror = () => reject(request.error);
         tx.onerror = () => reject(tx.error);
@@ -403,7 +418,7 @@ export async function clearDeviceEncryptedPassword(): Promise<void> {
     await new Promise<void>((resolve, reject) => {
       const tx = db.transaction(STORE_NAME, "readwrite");
       const store = tx.objectStore(STORE_NAME);
-      store.delete(AUTH_PW_DATA_ID);
+      store.delete(profileStorageKey(AUTH_PW_DATA_ID));
       tx.oncomplete = () => resolve();
       tx.onerror = () => reject(tx.error);
     });
@@ -418,7 +433,7 @@ export async function clearDeviceWrappedDEK(): Promise<void> {
     return new Promise((resolve, reject) => {
       const tx = db.transaction(STORE_NAME, "readwrite");
       const store = tx.objectStore(STORE_NAME);
-      store.delete(DEVICE_DEK_ID);
+      store.delete(profileStorageKey(DEVICE_DEK_ID));
       tx.oncomplete = () => resolve();
       tx.onerror = () => reject(tx.error);
     });
@@ -461,11 +476,11 @@ async function unwrapVaultKey(
 
 export async function createVault(
   password: string,
-  options?: { kdfIterations?: number },
+  options?: { kdf?: KdfParams },
 ): Promise<CryptoKey> {
   const salt = randomBytes(16);
-  const iterations = options?.kdfIterations ?? KDF_ITERATIONS;
-  const passwordKey = await derivePasswordKey(password, salt, iterations);
+  const kdf = options?.kdf ?? DEFAULT_KDF;
+  const passwordKey = await derivePasswordKey(password, salt, kdf);
   const vaultKey = await crypto.subtle.generateKey(
     { name: "AES-GCM", length: 256 },
     true,
@@ -483,10 +498,7 @@ export async function createVault(
 
   const meta: VaultMeta = {
     version: 1,
-    kdf: {
-      salt: bytesToBase64(salt),
-      iterations,
-    },
+    kdf: { salt: bytesToBase64(salt), ...kdf },
     wrapped: {
       password: passwordWrapped,
       ...(deviceWrapped ? { device: deviceWrapped } : {}),
@@ -498,27 +510,28 @@ export async function createVault(
 }
 
 export async function createRandomVault(): Promise<CryptoKey> {
+  // 256 random bits that nobody ever types: stretching them buys nothing,
+  // and this runs on first launch
   const randomPassword = bytesToBase64(randomBytes(32));
-  return createVault(randomPassword);
+  return createVault(randomPassword, {
+    kdf: { algorithm: "argon2id", iterations: 1, memoryKiB: 64, parallelism: 1 },
+  });
 }
 
 export async function updatePasswordWrappedKey(
   vaultKey: CryptoKey,
   password: string,
-  options?: { kdfIterations?: number },
+  options?: { kdf?: KdfParams },
 ): Promise<void> {
   const meta = loadVaultMeta();
   if (!meta) return;
   const salt = randomBytes(16);
-  const iterations = options?.kdfIterations ?? KDF_ITERATIONS;
-  const passwordKey = await derivePasswordKey(password, salt, iterations);
+  const kdf = options?.kdf ?? DEFAULT_KDF;
+  const passwordKey = await derivePasswordKey(password, salt, kdf);
   const passwordWrapped = await wrapVaultKey(vaultKey, passwordKey);
   const nextMeta: VaultMeta = {
     ...meta,
-    kdf: {
-      salt: bytesToBase64(salt),
-      iterations,
-    },
+    kdf: { salt: bytesToBase64(salt), ...kdf },
     wrapped: {
       ...meta.wrapped,
       password: passwordWrapped,
@@ -533,12 +546,19 @@ export async function unlockWithPassword(password: string): Promise<CryptoKey> {
     throw new Error("Vault not initialized");
   }
   const salt = base64ToBytes(meta.kdf.salt);
-  const passwordKey = await derivePasswordKey(
-    password,
-    salt,
-    meta.kdf.iterations,
-  );
-  return unwrapVaultKey(meta.wrapped.password, passwordKey);
+  const kdf = normalizeKdfParams(meta.kdf);
+  const passwordKey = await derivePasswordKey(password, salt, kdf);
+  const vaultKey = await unwrapVaultKey(meta.wrapped.password, passwordKey);
+  // The password is known to be right here, so this is the one chance to
+  // move an older wrapping onto the current KDF
+  if (needsKdfUpgrade(kdf)) {
+    try {
+      await updatePasswordWrappedKey(vaultKey, password);
+    } catch {
+      // Keep the old wrapping; the next unlock tries again
+    }
+  }
+  return vaultKey;
 }
 
 export async function tryUnlockWithDeviceKey(): Promise<CryptoKey | null> {
@@ -573,3 +593,52 @@ export async function ensureDeviceWrappedKey(
     // Device key not available; keep password-only unlock.
   }
 }
+
+export function getLocalPasskeys(): PasskeyCredentialRef[] {
+  return (loadVaultMeta()?.wrapped.passkeys ?? []).map(
+    ({ credentialId, prfSalt }) => ({ credentialId, prfSalt }),
+  );
+}
+
+export async function addPasskeyWrappedKey(
+  vaultKey: CryptoKey,
+  passkey: PasskeyWrappingKey,
+): Promise<void> {
+  const meta = loadVaultMeta();
+  if (!meta) throw new Error("Vault not initialized");
+  const wrapped = await wrapVaultKey(vaultKey, passkey.key);
+  const others = (meta.wrapped.passkeys ?? []).filter(
+    (entry) => entry.credentialId !== passkey.credentialId,
+  );
+  saveVaultMeta({
+    ...meta,
+    wrapped: {
+      ...meta.wrapped,
+      passkeys: [
+        ...others,
+        {
+          credentialId: passkey.credentialId,
+          prfSalt: passkey.prfSalt,
+          ...wrapped,
+        },
+      ],
+    },
+  });
+}
+
+export function removePasskeyWrappedKeys(): void {
+  const meta = loadVaultMeta();
+  if (!meta?.wrapped.passkeys) return;
+  const { passkeys: _removed, ...wrapped } = meta.wrapped;
+  saveVaultMeta({ ...meta, wrapped });
+}
+
+export async function unlockWithPasskey(): Promise<CryptoKey> {
+  const passkeys = loadVaultMeta()?.wrapped.passkeys ?? [];
+  const passkey = await getPasskeyWrappingKey(passkeys);
+  const entry = passkeys.find(
+    ({ credentialId }) => credentialId === passkey.credentialId,
+  );
+  if (!entry) throw new Error("That passkey isn't set up for these notes.");
+  return unwrapVaultKey(entry, passkey.key);
+}
@@ -0,0 +1,26 @@
+import { STORAGE_PREFIX } from "../utils/constants";
+import { profileStorageKey } from "./profiles";
+
+const VAULT_LOCK_STORAGE_KEY = `${STORAGE_PREFIX}vault_locked_v1`;
+
+/**
+ * Set when the vault was locked with device-key unlock turned off. Until a
+ * password or passkey unlock clears it, neither a reload nor a wrong
+ * password may fall back to the device-wrapped keys.
+ */
+export function isDeviceUnlockSuspended(): boolean {
+  if (typeof window === "undefined") return false;
+  return (
+    localStorage.getItem(profileStorageKey(VAULT_LOCK_STORAGE_KEY)) === "1"
+  );
+}
+
+export function suspendDeviceUnlock(): void {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(profileStorageKey(VAULT_LOCK_STORAGE_KEY), "1");
+}
+
+export function resumeDeviceUnlock(): void {
+  if (typeof window === "undefined") return;
+  localStorage.removeItem(profileStorageKey(VAULT_LOCK_STORAGE_KEY));
+}
@@ -45,6 +45,16 @@ export interface NoteImage {
   createdAt: string; // ISO timestamp
 }
 
+// Soft-deleted items as listed in the Trash; deletedAt is the time of the
+// last local write, i.e. the deletion
+export interface DeletedNote extends Note {
+  deletedAt: string; // ISO timestamp
+}
+
+export interface DeletedImage extends NoteImage {
+  deletedAt: string; // ISO timestamp
+}
+
 // Encrypted envelope for image storage/sync (ciphertext + metadata)
 export interface ImageEnvelope {
   id: string; // UUID for the image
@@ -84,6 +94,7 @@ export interface UrlState {
   view: ViewType;
   date: string | null;
   year: number;
+  journalId: string;
 }
 
 export const DayCellState = {
@@ -13,8 +13,11 @@ export const LOCATION_PROMPT_SHOWN_KEY = `${STORAGE_PREFIX}location_prompt_shown
 export const VIEW_PREFERENCE_KEY = `${STORAGE_PREFIX}view_preference_v1`;
 export const SIDEBAR_COLLAPSED_KEY = `${STORAGE_PREFIX}sidebar_collapsed_v1`;
 export const DEBUG_MODE_KEY = `${STORAGE_PREFIX}debug_mode_v1`;
+export const AUTO_LOCK_KEY = `${STORAGE_PREFIX}auto_lock_v1`;
+export const LOCK_SKIP_DEVICE_KEY = `${STORAGE_PREFIX}lock_skip_device_v1`;
 
 export const URL_PARAMS = {
   DATE: "date",
   YEAR: "year",
+  JOURNAL: "journal",
 } as const;
@@ -0,0 +1,50 @@
+const WORD_SEPARATOR_RE = /[\s+:'-]/;
+
+/**
+ * Score how well `query` matches `text` as a subsequence, case-insensitive.
+ * Consecutive characters and characters starting a word score higher.
+ * Returns null when the characters of `query` don't all appear in order.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.toLowerCase();
+  const haystack = text.toLowerCase();
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+    score += 1;
+    if (index === previous + 1) score += 2;
+    if (index === 0 || WORD_SEPARATOR_RE.test(haystack[index - 1])) {
+      score += 3;
+    }
+    previous = index;
+    from = index + 1;
+  }
+  return score;
+}
+
+/**
+ * Keep the items matching `query`, best match first. Equal scores keep
+ * their original order; an empty query keeps every item.
+ */
+export function fuzzyFilter<T>(
+  items: T[],
+  query: string,
+  getText: (item: T) => string,
+): T[] {
+  if (!query) return items;
+  return items
+    .map((item, index) => ({
+      item,
+      index,
+      score: fuzzyScore(query, getText(item)),
+    }))
+    .filter(
+      (entry): entry is { item: T; index: number; score: number } =>
+        entry.score !== null,
+    )
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ item }) => item);
+}
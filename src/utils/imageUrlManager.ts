@@ -18,6 +18,7 @@ export class ImageUrlManager {
   private releasedOwners = new Set<string>();
   private inFlight = new Map<string, Promise<string | null>>();
   private remoteTtlMs: number;
+  private disposed = false;
 
   constructor(repository: ImageRepository, options?: { remoteTtlMs?: number }) {
     this.repository = repository;
@@ -49,6 +50,11 @@ export class ImageUrlManager {
         if (!entry) {
           return null;
         }
+        // Disposed while decrypting: the URL would outlive the manager
+        if (this.disposed) {
+          this.revokeEntry(entry);
+          return null;
+        }
         this.urlCache.set(imageId, entry);
         return entry.url;
       })
@@ -87,6 +93,17 @@ export class ImageUrlManager {
     this.ownerMap.delete(ownerId);
   }
 
+  /**
+   * Revokes every blob URL, whoever holds it, and stops handing out new
+   * ones. Used when the repository goes away, e.g. because the vault locked.
+   */
+  dispose(): void {
+    this.disposed = true;
+    this.urlCache.forEach((entry) => this.revokeEntry(entry));
+    this.urlCache.clear();
+    this.ownerMap.clear();
+  }
+
   private isOwnerActive(ownerId: string): boolean {
     return !this.releasedOwners.has(ownerId);
   }
@@ -130,10 +147,14 @@ export class ImageUrlManager {
     if (!entry) return;
     entry.owners.delete(ownerId);
     if (entry.owners.size) return;
+    this.revokeEntry(entry);
+    this.urlCache.delete(imageId);
+  }
+
+  private revokeEntry(entry: UrlEntry): void {
     if (entry.kind === "blob") {
       URL.revokeObjectURL(entry.url);
     }
-    this.urlCache.delete(imageId);
   }
 
   private isExpired(entry: UrlEntry): boolean {
@@ -0,0 +1,170 @@
+import {
+  assembleSegments,
+  parseNoteSegments,
+  type NoteSegment,
+} from "./noteSegments";
+import { diffSequences } from "./wordDiff";
+
+function escapeText(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Split segment HTML into its top-level blocks (paragraph divs, lists,
+ * images, stray text), the unit paragraph-level merging works on.
+ */
+export function splitBlocks(html: string): string[] {
+  if (!html.trim()) return [];
+  const doc = new DOMParser().parseFromString(`<div>${html}</div>`, "text/html");
+  const container = doc.body.firstElementChild!;
+  const blocks: string[] = [];
+  for (const child of Array.from(container.childNodes)) {
+    if (child instanceof Element) {
+      blocks.push(child.outerHTML);
+    } else if (child.nodeType === Node.TEXT_NODE && child.textContent?.trim()) {
+      blocks.push(escapeText(child.textContent));
+    }
+  }
+  return blocks;
+}
+
+// For each base item, the index of the same item in `other`, or -1
+function matchBase(base: string[], other: string[]): number[] {
+  const matches = new Array<number>(base.length).fill(-1);
+  let i = 0;
+  let j = 0;
+  for (const [type] of diffSequences(base, other)) {
+    if (type === "equal") matches[i++] = j++;
+    else if (type === "removed") i++;
+    else j++;
+  }
+  return matches;
+}
+
+function sameBlocks(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((block, i) => block === b[i]);
+}
+
+function mergeChunk(base: string[], local: string[], remote: string[]): string[] {
+  if (sameBlocks(local, remote) || sameBlocks(local, base)) return remote;
+  if (sameBlocks(remote, base)) return local;
+  // Both devices changed the same stretch; keep both rather than pick one
+  const inRemote = new Set(remote);
+  return [...remote, ...local.filter((block) => !inRemote.has(block))];
+}
+
+/**
+ * Three-way merge of block lists (diff3): stretches only one side changed
+ * take that side's version, stretches both changed keep the remote blocks
+ * followed by the local ones.
+ */
+export function mergeBlocks(
+  base: string[],
+  local: string[],
+  remote: string[],
+): string[] {
+  const toLocal = matchBase(base, local);
+  const toRemote = matchBase(base, remote);
+  const merged: string[] = [];
+  let b = 0;
+  let l = 0;
+  let r = 0;
+  for (;;) {
+    // Next base block both sides kept unchanged
+    let k = b;
+    while (k < base.length && (toLocal[k] < 0 || toRemote[k] < 0)) k++;
+    const kl = k < base.length ? toLocal[k] : local.length;
+    const kr = k < base.length ? toRemote[k] : remote.length;
+    merged.push(
+      ...mergeChunk(base.slice(b, k), local.slice(l, kl), remote.slice(r, kr)),
+    );
+    if (k >= base.length) return merged;
+    merged.push(base[k]);
+    b = k + 1;
+    l = kl + 1;
+    r = kr + 1;
+  }
+}
+
+/**
+ * Order segment ids: the remote order, with local-only segments placed
+ * after the segment that precedes them locally and after any remote-only
+ * entries that were written earlier.
+ */
+function mergeSegmentOrder(local: NoteSegment[], remote: NoteSegment[]): string[] {
+  const order = remote.map((segment) => segment.id);
+  const remoteIds = new Set(order);
+  const localIds = new Set(local.map((segment) => segment.id));
+  const timestamps = new Map(
+    [...remote, ...local].map((segment) => [segment.id, segment.timestamp]),
+  );
+
+  let previous: string | null = null;
+  for (const segment of local) {
+    if (!remoteIds.has(segment.id)) {
+      let at = previous === null ? 0 : order.indexOf(previous) + 1;
+      while (
+        at < order.length &&
+        !localIds.has(order[at]) &&
+        segment.timestamp !== null &&
+        (timestamps.get(order[at]) ?? "") <= segment.timestamp
+      ) {
+        at++;
+      }
+      order.splice(at, 0, segment.id);
+    }
+    previous = segment.id;
+  }
+  return order;
+}
+
+/**
+ * Merge two concurrently edited versions of a note against the version
+ * both started from (null when both devices created the note).
+ *
+ * Timestamped segments are matched by `data-timestamp`, so entries added
+ * on either device survive. A segment removed on one side is dropped only
+ * if the other side left it untouched. Segments present on both sides are
+ * merged paragraph by paragraph with `mergeBlocks`.
+ */
+export function mergeNoteContent(
+  base: string | null,
+  local: string,
+  remote: string,
+): string {
+  if (local === remote || base === local) return remote;
+  if (base === remote) return local;
+
+  const baseSegments = new Map(
+    parseNoteSegments(base ?? "").map((segment) => [segment.id, segment]),
+  );
+  const localSegments = parseNoteSegments(local);
+  const remoteSegments = parseNoteSegments(remote);
+  const localById = new Map(localSegments.map((segment) => [segment.id, segment]));
+  const remoteById = new Map(remoteSegments.map((segment) => [segment.id, segment]));
+
+  const merged: NoteSegment[] = [];
+  for (const id of mergeSegmentOrder(localSegments, remoteSegments)) {
+    const baseSegment = baseSegments.get(id);
+    const localSegment = localById.get(id);
+    const remoteSegment = remoteById.get(id);
+
+    if (localSegment && remoteSegment) {
+      const html = mergeBlocks(
+        splitBlocks(baseSegment?.html ?? ""),
+        splitBlocks(localSegment.html),
+        splitBlocks(remoteSegment.html),
+      ).join("");
+      merged.push({ ...remoteSegment, html });
+      continue;
+    }
+    const only = (localSegment ?? remoteSegment)!;
+    // Deleted on the other side; keep it only if it was edited here
+    if (baseSegment && baseSegment.html === only.html) continue;
+    merged.push(only);
+  }
+  return assembleSegments(merged);
+}
@@ -0,0 +1,107 @@
+import { formatDate, parseDate } from "./date";
+
+const TASK_ATTR = "data-task";
+
+export type TaskState = "open" | "done";
+
+// How far back the open tasks panel can look
+export const OPEN_TASK_DAY_OPTIONS = [7, 14, 30] as const;
+export type OpenTaskDays = (typeof OPEN_TASK_DAY_OPTIONS)[number];
+
+export interface OpenTask {
+  date: string;
+  html: string;
+  text: string;
+}
+
+function normalizeTaskText(text: string): string {
+  return text.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+function parseTaskItems(html: string): HTMLElement[] {
+  if (!html.trim()) return [];
+  const doc = new DOMParser().parseFromString(
+    `<div>${html}</div>`,
+    "text/html",
+  );
+  return Array.from(doc.querySelectorAll<HTMLElement>(`li[${TASK_ATTR}]`));
+}
+
+/**
+ * The task item whose checkbox was clicked, or null. The checkbox is drawn
+ * in the gutter left of the item, so only clicks left of its box count.
+ */
+export function findClickedTask(
+  target: EventTarget | null,
+  clientX: number,
+): HTMLElement | null {
+  if (!(target instanceof Element)) return null;
+  const item = target.closest<HTMLElement>(`li[${TASK_ATTR}]`);
+  if (!item) return null;
+  return clientX < item.getBoundingClientRect().left ? item : null;
+}
+
+/**
+ * Flip a task item between open and done.
+ */
+export function toggleTask(item: HTMLElement): TaskState {
+  const next: TaskState =
+    item.getAttribute(TASK_ATTR) === "done" ? "open" : "done";
+  item.setAttribute(TASK_ATTR, next);
+  return next;
+}
+
+/**
+ * The dates of the `days` days before `today`, newest first.
+ */
+export function previousDates(today: string, days: number): string[] {
+  const start = parseDate(today);
+  if (!start) return [];
+  const dates: string[] = [];
+  for (let i = 1; i <= days; i++) {
+    const day = new Date(start);
+    day.setDate(start.getDate() - i);
+    dates.push(formatDate(day));
+  }
+  return dates;
+}
+
+/**
+ * Unchecked task items across notes, in the order given. A task is listed
+ * once, and not at all when today's note already has it (open or done).
+ */
+export function collectOpenTasks(
+  notes: Array<{ date: string; content: string }>,
+  todayContent: string,
+): OpenTask[] {
+  const seen = new Set(
+    parseTaskItems(todayContent).map((item) =>
+      normalizeTaskText(item.textContent ?? ""),
+    ),
+  );
+  const tasks: OpenTask[] = [];
+  for (const { date, content } of notes) {
+    for (const item of parseTaskItems(content)) {
+      if (item.getAttribute(TASK_ATTR) !== "open") continue;
+      const text = normalizeTaskText(item.textContent ?? "");
+      if (!text || seen.has(text)) continue;
+      seen.add(text);
+      tasks.push({
+        date,
+        html: item.innerHTML.replace(/(<br>)+$/, ""),
+        text: (item.textContent ?? "").trim(),
+      });
+    }
+  }
+  return tasks;
+}
+
+/**
+ * A checklist of the given tasks, all open.
+ */
+export function buildTaskListHtml(tasks: OpenTask[]): string {
+  const items = tasks
+    .map((task) => `<li ${TASK_ATTR}="open">${task.html}</li>`)
+    .join("");
+  return `<ul>${items}</ul>`;
+}
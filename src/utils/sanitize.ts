@@ -2,7 +2,7 @@ import DOMPurify from "dompurify";
 
 /**
  * Configuration for DOMPurify
- * Allows basic formatting tags, links, and images with data-image-id
+ * Allows basic formatting tags, lists, links, and images with data-image-id
  */
 const SANITIZE_CONFIG = {
   ALLOWED_TAGS: [
@@ -29,6 +29,9 @@ const SANITIZE_CONFIG = {
     "h6",
     "hr",
     "blockquote",
+    "ul",
+    "ol",
+    "li",
   ],
   ALLOWED_ATTR: [
     "data-image-id",
@@ -37,6 +40,7 @@ const SANITIZE_CONFIG = {
     "data-weather",
     "data-favicon",
     "data-section-type",
+    "data-task",
     "alt",
     "width",
     "height",
@@ -50,6 +54,15 @@ const SANITIZE_CONFIG = {
   RETURN_DOM_FRAGMENT: false,
 };
 
+const TASK_STATES = new Set(["open", "done"]);
+
+// data-task only carries a task state; anything else is dropped
+DOMPurify.addHook("uponSanitizeAttribute", (_node, data) => {
+  if (data.attrName === "data-task" && !TASK_STATES.has(data.attrValue)) {
+    data.keepAttr = false;
+  }
+});
+
 /**
  * Sanitizes HTML content to prevent XSS attacks
  * Allows only basic text formatting tags and links
@@ -0,0 +1,278 @@
+import { parseDate } from "./date";
+import { tokenizeSearchText } from "./searchText";
+
+export type SearchHasFilter = "image" | "weather";
+
+/**
+ * Parsed search query. Text conditions are lowercase and matched as
+ * case-insensitive substrings of the note's plain text. Date bounds are
+ * exclusive day keys (YYYYMMDD) so they compare as plain numbers.
+ */
+export interface SearchQuery {
+  terms: string[];
+  phrases: string[];
+  excluded: string[];
+  sectionTypes: string[];
+  before: number | null;
+  after: number | null;
+  years: number[];
+  has: SearchHasFilter[];
+}
+
+/** Everything a query can be evaluated against for one note. */
+export interface SearchDocument {
+  date: string; // "DD-MM-YYYY"
+  text: string; // Plain text (tags stripped, whitespace collapsed)
+  sectionTypes: string[];
+  hasImage: boolean;
+  hasWeather: boolean;
+}
+
+export interface SearchHighlight {
+  start: number;
+  length: number;
+}
+
+interface RawToken {
+  value: string;
+  quoted: boolean;
+  negated: boolean;
+}
+
+function splitQuery(input: string): RawToken[] {
+  const tokens: RawToken[] = [];
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+    let negated = false;
+    if (input[i] === "-" && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      negated = true;
+      i++;
+    }
+    if (input[i] === '"') {
+      const close = input.indexOf('"', i + 1);
+      const end = close === -1 ? input.length : close;
+      tokens.push({ value: input.slice(i + 1, end), quoted: true, negated });
+      i = end + 1;
+      continue;
+    }
+    let end = i;
+    while (end < input.length && !/\s/.test(input[end])) end++;
+    tokens.push({ value: input.slice(i, end), quoted: false, negated });
+    i = end;
+  }
+  return tokens;
+}
+
+interface DayRange {
+  first: number;
+  last: number;
+}
+
+function dayKey(year: number, month: number, day: number): number {
+  return year * 10000 + month * 100 + day;
+}
+
+/**
+ * Parse a filter date as the range of days it covers.
+ * Accepts YYYY, YYYY-MM, YYYY-MM-DD and the app's DD-MM-YYYY.
+ */
+function parseDayRange(value: string): DayRange | null {
+  let match = /^(\d{4})$/.exec(value);
+  if (match) {
+    const year = Number(match[1]);
+    return { first: dayKey(year, 1, 1), last: dayKey(year, 12, 31) };
+  }
+  match = /^(\d{4})-(\d{1,2})$/.exec(value);
+  if (match) {
+    const year = Number(match[1]);
+    const month = Number(match[2]);
+    if (month < 1 || month > 12) return null;
+    return { first: dayKey(year, month, 1), last: dayKey(year, month, 31) };
+  }
+  match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+  const date = match
+    ? parseDate(`${match[3]}-${match[2]}-${match[1]}`)
+    : parseDate(value);
+  if (!date) return null;
+  const key = dayKey(date.getFullYear(), date.getMonth() + 1, date.getDate());
+  return { first: key, last: key };
+}
+
+function noteDayKey(date: string): number | null {
+  const parsed = parseDate(date);
+  if (!parsed) return null;
+  return dayKey(parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate());
+}
+
+/**
+ * Apply an `operator:value` token to the query.
+ * Returns false when the token isn't a recognised filter, so the caller
+ * can treat it as plain text instead.
+ */
+function applyFilter(query: SearchQuery, token: string): boolean {
+  const colon = token.indexOf(":");
+  if (colon <= 0) return false;
+  const operator = token.slice(0, colon).toLowerCase();
+  const value = token.slice(colon + 1).toLowerCase();
+  if (!value) return false;
+
+  switch (operator) {
+    case "type":
+      if (!/^[a-z][a-z-]*$/.test(value)) return false;
+      query.sectionTypes.push(value);
+      return true;
+    case "has":
+      if (value !== "image" && value !== "weather") return false;
+      query.has.push(value);
+      return true;
+    case "year": {
+      if (!/^\d{4}$/.test(value)) return false;
+      query.years.push(Number(value));
+      return true;
+    }
+    case "before": {
+      const range = parseDayRange(value);
+      if (!range) return false;
+      query.before = Math.min(query.before ?? Infinity, range.first);
+      return true;
+    }
+    case "after": {
+      const range = parseDayRange(value);
+      if (!range) return false;
+      query.after = Math.max(query.after ?? -Infinity, range.last);
+      return true;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Parse the search box input.
+ *
+ * - `word` — note must contain the word (substring, case-insensitive)
+ * - `"exact phrase"` — note must contain the phrase
+ * - `-word` / `-"phrase"` — note must not contain it
+ * - `type:work` — note has a `+work` section header
+ * - `before:` / `after:` — YYYY, YYYY-MM, YYYY-MM-DD or DD-MM-YYYY (exclusive)
+ * - `year:2024` — note is from that year (repeat for any of several years)
+ * - `has:image` / `has:weather`
+ *
+ * Unrecognised `operator:value` tokens are searched for as plain text.
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const query: SearchQuery = {
+    terms: [],
+    phrases: [],
+    excluded: [],
+    sectionTypes: [],
+    before: null,
+    after: null,
+    years: [],
+    has: [],
+  };
+
+  for (const token of splitQuery(input)) {
+    const value = token.value.toLowerCase().replace(/\s+/g, " ").trim();
+    if (!value) continue;
+    if (token.negated) {
+      query.excluded.push(value);
+    } else if (token.quoted) {
+      query.phrases.push(value);
+    } else if (!applyFilter(query, token.value)) {
+      query.terms.push(value);
+    }
+  }
+
+  return query;
+}
+
+export function isEmptySearchQuery(query: SearchQuery): boolean {
+  return (
+    query.terms.length === 0 &&
+    query.phrases.length === 0 &&
+    query.excluded.length === 0 &&
+    query.sectionTypes.length === 0 &&
+    query.before === null &&
+    query.after === null &&
+    query.years.length === 0 &&
+    query.has.length === 0
+  );
+}
+
+/**
+ * Index terms every matching note must contain one of (per token).
+ * Lets an inverted index narrow candidates before full evaluation.
+ */
+export function getRequiredTokens(query: SearchQuery): string[] {
+  return tokenizeSearchText([...query.terms, ...query.phrases].join(" "));
+}
+
+export function matchesSearchQuery(
+  doc: SearchDocument,
+  query: SearchQuery,
+): boolean {
+  const lowerText = doc.text.toLowerCase();
+  for (const needle of [...query.terms, ...query.phrases]) {
+    if (!lowerText.includes(needle)) return false;
+  }
+  for (const needle of query.excluded) {
+    if (lowerText.includes(needle)) return false;
+  }
+  for (const type of query.sectionTypes) {
+    if (!doc.sectionTypes.includes(type)) return false;
+  }
+  if (query.has.includes("image") && !doc.hasImage) return false;
+  if (query.has.includes("weather") && !doc.hasWeather) return false;
+
+  if (query.before !== null || query.after !== null || query.years.length > 0) {
+    const key = noteDayKey(doc.date);
+    if (key === null) return false;
+    if (query.before !== null && key >= query.before) return false;
+    if (query.after !== null && key <= query.after) return false;
+    if (
+      query.years.length > 0 &&
+      !query.years.includes(Math.floor(key / 10000))
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Every occurrence of every positive term and phrase in the text,
+ * sorted and with overlapping ranges merged.
+ */
+export function findHighlights(
+  text: string,
+  query: SearchQuery,
+): SearchHighlight[] {
+  const lowerText = text.toLowerCase();
+  const ranges: SearchHighlight[] = [];
+  for (const needle of [...query.terms, ...query.phrases]) {
+    let index = lowerText.indexOf(needle);
+    while (index !== -1) {
+      ranges.push({ start: index, length: needle.length });
+      index = lowerText.indexOf(needle, index + needle.length);
+    }
+  }
+  ranges.sort((a, b) => a.start - b.start);
+
+  const merged: SearchHighlight[] = [];
+  for (const range of ranges) {
+    const last = merged.at(-1);
+    if (last && range.start <= last.start + last.length) {
+      const end = Math.max(last.start + last.length, range.start + range.length);
+      last.length = end - last.start;
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,47 @@
+import type { SavedWeather } from "../types";
+import type { SearchDocument } from "./searchQuery";
+import { extractSectionTypes } from "./sectionTypes";
+
+/**
+ * Strip HTML tags from note content to get plain text for searching.
+ * Uses DOMParser (safe — does not execute scripts) instead of innerHTML.
+ */
+export function stripHtml(html: string): string {
+  // Insert space before every tag so adjacent elements don't merge.
+  // DOMParser then strips the tags, leaving clean spaced text.
+  const spaced = html.replace(/</g, " <");
+  const doc = new DOMParser().parseFromString(spaced, "text/html");
+  return (doc.body.textContent ?? "").replace(/\s+/g, " ").trim();
+}
+
+const TERM_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Split text into unique lowercase terms (runs of letters and digits).
+ * Used both when indexing notes and when tokenizing queries, so any query
+ * substring that occurs in a note is a substring of one of its terms.
+ */
+export function tokenizeSearchText(text: string): string[] {
+  const matches = text.toLowerCase().match(TERM_PATTERN);
+  return matches ? Array.from(new Set(matches)) : [];
+}
+
+const INLINE_IMAGE_RE = /<img\b[^>]*\bdata-image-id=/i;
+
+/**
+ * Build the searchable view of a note: plain text plus the structural
+ * facts the query language can filter on.
+ */
+export function buildSearchDocument(
+  date: string,
+  content: string,
+  weather: SavedWeather | null | undefined,
+): SearchDocument {
+  return {
+    date,
+    text: stripHtml(content),
+    sectionTypes: extractSectionTypes(content),
+    hasImage: INLINE_IMAGE_RE.test(content),
+    hasWeather: !!weather,
+  };
+}
@@ -1,6 +1,7 @@
 import { ViewType, type UrlState } from "../types";
 import { URL_PARAMS, VIEW_PREFERENCE_KEY } from "./constants";
 import { getTodayString, isFuture, parseDate } from "./date";
+import { DEFAULT_JOURNAL_ID, isValidJournalId } from "../storage/journals";
 
 export type ViewPreference = "year" | "day";
 
@@ -21,32 +22,62 @@ interface ResolvedUrlState {
   needsRedirect: boolean;
 }
 
-function createDayState(date: string): UrlState {
+function createDayState(date: string, journalId: string): UrlState {
   const parsed = parseDate(date);
 
   return {
     view: ViewType.Day,
     date,
     year: parsed?.getFullYear() ?? new Date().getFullYear(),
+    journalId,
   };
 }
 
-function createCalendarState(year: number): UrlState {
+function createCalendarState(year: number, journalId: string): UrlState {
   return {
     view: ViewType.Calendar,
     date: null,
     year,
+    journalId,
   };
 }
 
+// The default journal has no parameter, so URLs from before journals keep
+// their meaning
+function withJournal(search: string, journalId: string): string {
+  if (journalId === DEFAULT_JOURNAL_ID) return search;
+  const param = `${URL_PARAMS.JOURNAL}=${journalId}`;
+  return search === "/" ? `?${param}` : `${search}&${param}`;
+}
+
 export function resolveUrlState(search: string): ResolvedUrlState {
   const params = new URLSearchParams(search);
+  const journalParam = params.get(URL_PARAMS.JOURNAL);
+  const journalId =
+    journalParam && isValidJournalId(journalParam)
+      ? journalParam
+      : DEFAULT_JOURNAL_ID;
+  const resolved = resolveView(params, journalId);
+
+  return {
+    ...resolved,
+    canonicalSearch: withJournal(resolved.canonicalSearch, journalId),
+    needsRedirect:
+      resolved.needsRedirect ||
+      (journalParam !== null && journalParam !== journalId),
+  };
+}
+
+function resolveView(
+  params: URLSearchParams,
+  journalId: string,
+): ResolvedUrlState {
   const today = getTodayString();
   const currentYear = new Date().getFullYear();
 
   if (params.has("share-target")) {
     return {
-      state: createDayState(today),
+      state: createDayState(today, journalId),
       canonicalSearch: `?${URL_PARAMS.DATE}=${today}`,
       needsRedirect: false,
     };
@@ -58,14 +89,14 @@ export function resolveUrlState(search: string): ResolvedUrlState {
 
     if (parsed && !isFuture(dateParam)) {
       return {
-        state: createDayState(dateParam),
+        state: createDayState(dateParam, journalId),
         canonicalSearch: `?${URL_PARAMS.DATE}=${dateParam}`,
         needsRedirect: false,
       };
     }
 
     return {
-      state: createDayState(today),
+      state: createDayState(today, journalId),
       canonicalSearch: `?${URL_PARAMS.DATE}=${today}`,
       needsRedirect: true,
     };
@@ -77,7 +108,7 @@ export function resolveUrlState(search: string): ResolvedUrlState {
     const year = match ? Number.parseInt(match[1], 10) : currentYear;
 
     return {
-      state: createCalendarState(year),
+      state: createCalendarState(year, journalId),
       canonicalSearch: `?${URL_PARAMS.YEAR}=${year}`,
       needsRedirect: true,
     };
@@ -88,7 +119,7 @@ export function resolveUrlState(search: string): ResolvedUrlState {
     const year = Number.parseInt(yearParam, 10) || currentYear;
 
     return {
-      state: createCalendarState(year),
+      state: createCalendarState(year, journalId),
       canonicalSearch: `?${URL_PARAMS.YEAR}=${year}`,
       needsRedirect: false,
     };
@@ -96,20 +127,24 @@ export function resolveUrlState(search: string): ResolvedUrlState {
 
   if (getViewPreference() === "day") {
     return {
-      state: createDayState(today),
+      state: createDayState(today, journalId),
       canonicalSearch: `?${URL_PARAMS.DATE}=${today}`,
       needsRedirect: true,
     };
   }
 
   return {
-    state: createCalendarState(currentYear),
+    state: createCalendarState(currentYear, journalId),
     canonicalSearch: "/",
     needsRedirect: false,
   };
 }
 
 export function serializeUrlState(state: UrlState): string {
+  return withJournal(serializeView(state), state.journalId);
+}
+
+function serializeView(state: UrlState): string {
   if (state.view === ViewType.Day) {
     return state.date ? `?${URL_PARAMS.DATE}=${state.date}` : "/";
   }
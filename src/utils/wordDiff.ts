@@ -0,0 +1,119 @@
+export type DiffPartType = "equal" | "added" | "removed";
+
+export interface DiffPart {
+  type: DiffPartType;
+  text: string;
+}
+
+const BLOCK_BREAK_RE = /<br\s*\/?>|<hr\b[^>]*>|<\/(?:div|p|li|h[1-6]|blockquote|pre)>/gi;
+
+/**
+ * Plain text of note HTML for diffing: like `stripHtml`, but block
+ * boundaries become line breaks so the diff keeps the note's shape.
+ */
+export function noteDiffText(html: string): string {
+  const marked = html.replace(BLOCK_BREAK_RE, "$&\n").replace(/</g, " <");
+  const doc = new DOMParser().parseFromString(marked, "text/html");
+  return (doc.body.textContent ?? "")
+    .replace(/[^\S\n]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Words and the whitespace between them, so joining the tokens gives
+ * back the original text.
+ */
+export function tokenizeWords(text: string): string[] {
+  return text.match(/\s+|\S+/g) ?? [];
+}
+
+/**
+ * Word-level diff of two texts (Myers' O(ND) algorithm). Adjacent tokens
+ * of the same kind are merged, and concatenating the equal and removed
+ * parts gives `before`, the equal and added parts give `after`.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenizeWords(before);
+  const b = tokenizeWords(after);
+
+  // Common prefix and suffix never need the edit graph
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPartType, text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  a.slice(0, start).forEach((token) => push("equal", token));
+  for (const [type, token] of diffSequences(a.slice(start, endA), b.slice(start, endB))) {
+    push(type, token);
+  }
+  a.slice(endA).forEach((token) => push("equal", token));
+  return parts;
+}
+
+/**
+ * Shortest edit script turning `a` into `b`, one entry per item.
+ */
+export function diffSequences(a: string[], b: string[]): [DiffPartType, string][] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  // v[k + offset] = furthest x reached on diagonal k
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  search: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset])
+          ? v[k + 1 + offset]
+          : v[k - 1 + offset] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + offset] = x;
+      if (x >= n && y >= m) break search;
+    }
+  }
+
+  // Walk the trace back from the end to recover the edit script
+  const ops: [DiffPartType, string][] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && vd[k - 1 + offset] < vd[k + 1 + offset])
+        ? k + 1
+        : k - 1;
+    const prevX = vd[prevK + offset];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push(["equal", a[--x]]);
+      y--;
+    }
+    if (d === 0) break;
+    if (x === prevX) ops.push(["added", b[--y]]);
+    else ops.push(["removed", a[--x]]);
+  }
+  return ops.reverse();
+}
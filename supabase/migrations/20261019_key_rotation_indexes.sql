@@ -0,0 +1,7 @@
+-- Key rotation pages through rows still encrypted with an older key and
+-- counts the rows left per key before retiring it.
+create index if not exists notes_user_id_key_id_idx
+  on public.notes(user_id, key_id);
+
+create index if not exists note_images_user_id_key_id_idx
+  on public.note_images(user_id, key_id);
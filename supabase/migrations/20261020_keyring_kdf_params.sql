@@ -0,0 +1,11 @@
+-- Record which KDF wrapped each keyring entry. Rows written before this
+-- migration were all PBKDF2-SHA256; the client re-wraps them with Argon2id
+-- on the next successful unlock.
+alter table public.user_keyrings
+  add column if not exists kdf_algorithm text not null default 'pbkdf2-sha256',
+  add column if not exists kdf_memory_kib integer,
+  add column if not exists kdf_parallelism integer;
+
+alter table public.user_keyrings
+  add constraint user_keyrings_kdf_algorithm_check
+  check (kdf_algorithm in ('pbkdf2-sha256', 'argon2id'));
@@ -0,0 +1,9 @@
+-- Passkey wrappings live in user_keyrings under "passkey:<credential>:<key>"
+-- ids. Their wrapping key comes from the WebAuthn PRF extension rather than
+-- a password: kdf_salt holds the PRF salt and kdf_iterations is unused.
+alter table public.user_keyrings
+  drop constraint if exists user_keyrings_kdf_algorithm_check;
+
+alter table public.user_keyrings
+  add constraint user_keyrings_kdf_algorithm_check
+  check (kdf_algorithm in ('pbkdf2-sha256', 'argon2id', 'webauthn-prf'));
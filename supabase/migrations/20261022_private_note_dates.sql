@@ -0,0 +1,65 @@
+-- Private note dates: with the setting on, notes.date and
+-- note_images.note_date hold an HMAC of the date ("d1.<base64url>") and the
+-- real date is only inside the encrypted payload.
+
+-- 1) Per-account settings. date_index_key_id names the DEK the HMAC key is
+-- derived from; null means dates are stored in plaintext.
+create table if not exists public.user_settings (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  date_index_key_id text,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.user_settings enable row level security;
+
+drop policy if exists "user_settings_select_own" on public.user_settings;
+create policy "user_settings_select_own"
+  on public.user_settings
+  for select
+  using (user_id = (select auth.uid()));
+
+drop policy if exists "user_settings_insert_own" on public.user_settings;
+create policy "user_settings_insert_own"
+  on public.user_settings
+  for insert
+  with check (user_id = (select auth.uid()));
+
+drop policy if exists "user_settings_update_own" on public.user_settings;
+create policy "user_settings_update_own"
+  on public.user_settings
+  for update
+  using (user_id = (select auth.uid()))
+  with check (user_id = (select auth.uid()));
+
+drop trigger if exists user_settings_moddatetime on public.user_settings;
+create trigger user_settings_moddatetime
+  before update on public.user_settings
+  for each row
+  execute function extensions.moddatetime(updated_at);
+
+-- 2) Encrypted image metadata ({ keyId, ciphertext, nonce } JSON holding the
+-- note date) for rows whose note_date is a tag
+alter table public.note_images
+  add column if not exists meta text;
+
+-- 3) note_year can't be computed from a tag; it is null for those rows
+drop index if exists public.notes_user_year_idx;
+drop index if exists public.notes_user_year_deleted_idx;
+
+alter table public.notes
+  drop column if exists note_year;
+
+alter table public.notes
+  add column note_year integer
+  generated always as (
+    case
+      when date ~ '^[0-9]{2}-[0-9]{2}-[0-9]{4}$'
+        then (split_part(date, '-', 3))::int
+    end
+  ) stored;
+
+create index if not exists notes_user_year_idx
+  on public.notes(user_id, note_year);
+
+create index if not exists notes_user_year_deleted_idx
+  on public.notes(user_id, note_year, deleted);
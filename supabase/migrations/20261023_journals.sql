@@ -0,0 +1,74 @@
+-- Journals: separate notebooks per account, each with its own calendar.
+-- Rows written before this migration belong to the "default" journal.
+
+-- 1) Journal list. The name is encrypted like a note payload
+-- (key_id/ciphertext/nonce). note_key_id names a DEK used only for this
+-- journal's notes and images; null means the account's primary key.
+create table if not exists public.journals (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  id text not null,
+  key_id text not null,
+  ciphertext text not null,
+  nonce text not null,
+  note_key_id text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, id)
+);
+
+alter table public.journals enable row level security;
+
+drop policy if exists "journals_select_own" on public.journals;
+create policy "journals_select_own"
+  on public.journals
+  for select
+  using (user_id = (select auth.uid()));
+
+drop policy if exists "journals_insert_own" on public.journals;
+create policy "journals_insert_own"
+  on public.journals
+  for insert
+  with check (user_id = (select auth.uid()));
+
+drop policy if exists "journals_update_own" on public.journals;
+create policy "journals_update_own"
+  on public.journals
+  for update
+  using (user_id = (select auth.uid()))
+  with check (user_id = (select auth.uid()));
+
+drop policy if exists "journals_delete_own" on public.journals;
+create policy "journals_delete_own"
+  on public.journals
+  for delete
+  using (user_id = (select auth.uid()));
+
+drop trigger if exists journals_moddatetime on public.journals;
+create trigger journals_moddatetime
+  before update on public.journals
+  for each row
+  execute function extensions.moddatetime(updated_at);
+
+-- 2) Notes and images carry their journal; a date is unique per journal
+alter table public.notes
+  add column if not exists journal_id text not null default 'default';
+
+alter table public.note_images
+  add column if not exists journal_id text not null default 'default';
+
+alter table public.notes
+  drop constraint if exists notes_user_id_date_key;
+
+alter table public.notes
+  drop constraint if exists notes_user_id_journal_id_date_key;
+
+alter table public.notes
+  add constraint notes_user_id_journal_id_date_key
+  unique (user_id, journal_id, date);
+
+-- Replication pulls one journal at a time
+create index if not exists notes_user_journal_modified_idx
+  on public.notes(user_id, journal_id, _modified);
+
+create index if not exists note_images_user_journal_modified_idx
+  on public.note_images(user_id, journal_id, _modified);
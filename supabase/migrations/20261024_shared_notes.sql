@@ -0,0 +1,123 @@
+-- Shared note links: a snapshot of one note encrypted with a key that only
+-- lives in the link's #fragment. Readers fetch a snapshot by its id through
+-- the functions below, so nothing can be listed and the owner's user id
+-- never leaves the server. Expired snapshots are purged every hour.
+
+-- 1) Snapshots
+create table if not exists public.shared_notes (
+  id text primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  ciphertext text not null,
+  nonce text not null,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  constraint shared_notes_expiry_check
+    check (expires_at <= created_at + interval '31 days')
+);
+
+alter table public.shared_notes enable row level security;
+
+drop policy if exists "shared_notes_select_own" on public.shared_notes;
+create policy "shared_notes_select_own"
+  on public.shared_notes
+  for select
+  using (user_id = (select auth.uid()));
+
+drop policy if exists "shared_notes_insert_own" on public.shared_notes;
+create policy "shared_notes_insert_own"
+  on public.shared_notes
+  for insert
+  with check (user_id = (select auth.uid()));
+
+drop policy if exists "shared_notes_delete_own" on public.shared_notes;
+create policy "shared_notes_delete_own"
+  on public.shared_notes
+  for delete
+  using (user_id = (select auth.uid()));
+
+create index if not exists shared_notes_user_idx
+  on public.shared_notes(user_id);
+
+create index if not exists shared_notes_expires_idx
+  on public.shared_notes(expires_at);
+
+-- 2) Encrypted inline images, removed with their snapshot
+create table if not exists public.shared_note_images (
+  share_id text not null references public.shared_notes(id) on delete cascade,
+  image_id text not null,
+  ciphertext text not null,
+  primary key (share_id, image_id)
+);
+
+alter table public.shared_note_images enable row level security;
+
+drop policy if exists "shared_note_images_insert_own" on public.shared_note_images;
+create policy "shared_note_images_insert_own"
+  on public.shared_note_images
+  for insert
+  with check (
+    exists (
+      select 1 from public.shared_notes s
+      where s.id = share_id
+        and s.user_id = (select auth.uid())
+    )
+  );
+
+-- 3) Reads by id, for anyone holding a link
+create or replace function public.get_shared_note(p_id text)
+returns table (ciphertext text, nonce text, expires_at timestamptz)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select s.ciphertext, s.nonce, s.expires_at
+  from public.shared_notes s
+  where s.id = p_id
+    and s.expires_at > now();
+$$;
+
+create or replace function public.get_shared_note_image(
+  p_id text,
+  p_image_id text
+)
+returns text
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select i.ciphertext
+  from public.shared_note_images i
+  join public.shared_notes s on s.id = i.share_id
+  where i.share_id = p_id
+    and i.image_id = p_image_id
+    and s.expires_at > now();
+$$;
+
+revoke execute on function public.get_shared_note(text) from public;
+revoke execute on function public.get_shared_note_image(text, text) from public;
+grant execute on function public.get_shared_note(text) to anon, authenticated;
+grant execute on function public.get_shared_note_image(text, text)
+  to anon, authenticated;
+
+-- 4) Hourly purge of expired snapshots; their images cascade
+create extension if not exists pg_cron;
+
+create or replace function public.purge_expired_shared_notes()
+returns void
+language sql
+security definer
+set search_path = ''
+as $$
+  delete from public.shared_notes where expires_at <= now();
+$$;
+
+revoke execute on function public.purge_expired_shared_notes()
+  from public, anon, authenticated;
+
+select cron.schedule(
+  'purge-expired-shared-notes',
+  '0 * * * *',
+  'select public.purge_expired_shared_notes()'
+);
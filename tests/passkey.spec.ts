@@ -0,0 +1,55 @@
+import { test, expect } from './fixtures';
+
+test.describe('Passkey unlock', () => {
+  test.skip(
+    ({ browserName }) => browserName !== 'chromium',
+    'Virtual authenticators are only available through the Chrome DevTools Protocol',
+  );
+
+  test('unlocks a local vault after the device key is lost', async ({ page, helpers }) => {
+    const cdp = await page.context().newCDPSession(page);
+    await cdp.send('WebAuthn.enable');
+    await cdp.send('WebAuthn.addVirtualAuthenticator', {
+      options: {
+        protocol: 'ctap2',
+        ctap2Version: 'ctap2_1',
+        transport: 'internal',
+        hasResidentKey: true,
+        hasUserVerification: true,
+        isUserVerified: true,
+        hasPrf: true,
+        automaticPresenceSimulation: true,
+      },
+    });
+
+    await helpers.clearStorageAndReload();
+    await helpers.dismissIntroModal();
+    await helpers.setupLocalVault();
+
+    await page.getByRole('button', { name: 'Open settings' }).click();
+    await page.getByRole('button', { name: 'Add passkey' }).click();
+    await expect(page.getByText('Passkey added.', { exact: false })).toBeVisible();
+
+    // Without the device key the vault can only be opened another way
+    await page.evaluate(
+      () =>
+        new Promise<void>((resolve, reject) => {
+          const request = indexedDB.open('dailynotes-vault', 1);
+          request.onsuccess = () => {
+            const tx = request.result.transaction('keys', 'readwrite');
+            tx.objectStore('keys').delete('device');
+            tx.oncomplete = () => {
+              request.result.close();
+              resolve();
+            };
+            tx.onerror = () => reject(tx.error);
+          };
+          request.onerror = () => reject(request.error);
+        }),
+    );
+    await page.reload();
+
+    await page.getByRole('button', { name: 'Unlock with passkey' }).click();
+    await helpers.waitForVaultUnlocked();
+  });
+});